@@ -0,0 +1,121 @@
+/**
+ * Discord interactions adapter. Messages arrive as the `/ask` slash command
+ * on the application's interactions endpoint; the bot defers its response
+ * and edits it once the agent has answered. Each Discord channel (threads
+ * are channels too) is one conversation.
+ */
+
+import { createPublicKey, verify as verifySignature } from "node:crypto";
+import type { ChatPlatformAdapter, InboundEvent, InboundMessage, InboundRequest, PlatformCredentials } from "./types";
+import { PlatformApiError } from "./types";
+import { splitMessage } from "./text";
+
+export const DISCORD_API_URL = "https://discord.com/api/v10";
+export const DISCORD_COMMAND = "ask";
+const MESSAGE_LIMIT = 2000;
+
+/** DER prefix that turns a raw 32-byte Ed25519 key into an SPKI public key */
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+const InteractionType = { PING: 1, APPLICATION_COMMAND: 2 } as const;
+const ResponseType = { PONG: 1, CHANNEL_MESSAGE: 4, DEFERRED_CHANNEL_MESSAGE: 5 } as const;
+
+export class DiscordAdapter implements ChatPlatformAdapter {
+  readonly platform = "discord" as const;
+
+  constructor(private options: { apiUrl?: string } = {}) {}
+
+  verify(request: InboundRequest, credentials: PlatformCredentials): boolean {
+    const signature = request.headers.get("x-signature-ed25519");
+    const timestamp = request.headers.get("x-signature-timestamp");
+    if (!credentials.publicKey || !signature || !timestamp) return false;
+    try {
+      const key = createPublicKey({
+        key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(credentials.publicKey, "hex")]),
+        format: "der",
+        type: "spki",
+      });
+      return verifySignature(null, Buffer.from(timestamp + request.body), key, Buffer.from(signature, "hex"));
+    } catch {
+      return false;
+    }
+  }
+
+  parse(request: InboundRequest): InboundEvent {
+    const interaction = JSON.parse(request.body);
+    if (interaction.type === InteractionType.PING) {
+      return { response: Response.json({ type: ResponseType.PONG }), message: null };
+    }
+
+    const text = interaction.data?.options?.find((o: { name: string }) => o.name === "message")?.value;
+    if (interaction.type !== InteractionType.APPLICATION_COMMAND || interaction.data?.name !== DISCORD_COMMAND || typeof text !== "string") {
+      return {
+        response: Response.json({
+          type: ResponseType.CHANNEL_MESSAGE,
+          data: { content: `Use /${DISCORD_COMMAND} to talk to the agent.`, flags: 64 },
+        }),
+        message: null,
+      };
+    }
+
+    const user = interaction.member?.user ?? interaction.user ?? {};
+    return {
+      response: Response.json({ type: ResponseType.DEFERRED_CHANNEL_MESSAGE }),
+      message: {
+        platformChannelId: interaction.channel_id ?? interaction.channel?.id,
+        threadId: "",
+        userId: user.id,
+        userName: user.global_name ?? user.username ?? null,
+        text: text.trim(),
+        replyTo: { application_id: interaction.application_id, token: interaction.token },
+      },
+    };
+  }
+
+  /** The first chunk replaces the deferred response; the rest are follow-ups */
+  async reply(message: InboundMessage, text: string): Promise<void> {
+    const webhook = `${this.apiUrl}/webhooks/${message.replyTo.application_id}/${message.replyTo.token}`;
+    const chunks = splitMessage(text, MESSAGE_LIMIT);
+    for (const [index, chunk] of chunks.entries()) {
+      await this.request(index === 0 ? "PATCH" : "POST", index === 0 ? `${webhook}/messages/@original` : webhook, null, {
+        content: chunk,
+        allowed_mentions: { parse: [] },
+      });
+    }
+  }
+
+  async register(inboundUrl: string, credentials: PlatformCredentials): Promise<string> {
+    if (!credentials.botToken || !credentials.applicationId) {
+      throw new PlatformApiError("discord", "a bot token and application ID are needed to register");
+    }
+    await this.request("POST", `${this.apiUrl}/applications/${credentials.applicationId}/commands`, credentials.botToken, {
+      name: DISCORD_COMMAND,
+      description: "Ask the agent",
+      type: 1,
+      options: [{ type: 3, name: "message", description: "What to ask", required: true }],
+    });
+    await this.request("PATCH", `${this.apiUrl}/applications/@me`, credentials.botToken, {
+      interactions_endpoint_url: inboundUrl,
+    });
+    return `Registered /${DISCORD_COMMAND} and set the interactions endpoint URL`;
+  }
+
+  private get apiUrl(): string {
+    return this.options.apiUrl ?? DISCORD_API_URL;
+  }
+
+  private async request(method: string, url: string, botToken: string | null, body: unknown) {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...(botToken ? { Authorization: `Bot ${botToken}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new PlatformApiError("discord", `${method} ${new URL(url).pathname} failed: HTTP ${response.status} ${detail}`.trim(), response.status);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import type { ChatPlatform } from "../types/models";
+import type { ChatPlatformAdapter } from "./types";
+import { SlackAdapter } from "./slack";
+import { DiscordAdapter } from "./discord";
+import { TelegramAdapter } from "./telegram";
+
+export type {
+  ChatPlatformAdapter,
+  InboundEvent,
+  InboundMessage,
+  InboundRequest,
+  PlatformCredentials,
+} from "./types";
+export { PlatformApiError } from "./types";
+export { SlackAdapter, SLACK_API_URL } from "./slack";
+export { DiscordAdapter, DISCORD_API_URL, DISCORD_COMMAND } from "./discord";
+export { TelegramAdapter, TELEGRAM_API_URL } from "./telegram";
+export { splitMessage } from "./text";
+export { maskChatChannel, parseChatChannelInput, inboundUrl, generateInboundToken, CHAT_PLATFORMS } from "./settings";
+export type { MaskedChatChannel, ChatChannelInput } from "./settings";
+
+export type ChatAdapters = Record<ChatPlatform, ChatPlatformAdapter>;
+
+/** One adapter per platform; `apiUrls` points them at other servers (tests use mocks) */
+export function createChatAdapters(apiUrls: Partial<Record<ChatPlatform, string>> = {}): ChatAdapters {
+  return {
+    slack: new SlackAdapter({ apiUrl: apiUrls.slack }),
+    discord: new DiscordAdapter({ apiUrl: apiUrls.discord }),
+    telegram: new TelegramAdapter({ apiUrl: apiUrls.telegram }),
+  };
+}
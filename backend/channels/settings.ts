@@ -0,0 +1,147 @@
+/**
+ * Chat channels as the settings API accepts and returns them. Bot tokens
+ * and signing secrets are stored encrypted and never sent back; responses
+ * say whether one is set, and include the URL to give the platform.
+ */
+
+import { randomBytes } from "node:crypto";
+import type { ChatChannel, ChatChannelRoute, ChatPlatform } from "../types/models";
+import type { UpdateChatChannelData } from "../repositories/ChatChannelRepository";
+import { encrypt } from "../utils/encryption";
+
+export const CHAT_PLATFORMS: ChatPlatform[] = ["slack", "discord", "telegram"];
+
+export type MaskedChatChannel = Omit<ChatChannel, "bot_token" | "signing_secret" | "inbound_token"> & {
+  has_bot_token: boolean;
+  has_signing_secret: boolean;
+  /** Where the platform sends events */
+  inbound_url: string;
+};
+
+export type ChatChannelInput = UpdateChatChannelData & { platform: ChatPlatform };
+
+export function inboundUrl(baseUrl: string, inboundToken: string): string {
+  return `${baseUrl.replace(/\/$/, "")}/api/chat-inbound/${inboundToken}`;
+}
+
+export function generateInboundToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+export function maskChatChannel(channel: ChatChannel, baseUrl: string): MaskedChatChannel {
+  const { bot_token, signing_secret, inbound_token, ...rest } = channel;
+  return {
+    ...rest,
+    has_bot_token: !!bot_token,
+    has_signing_secret: !!signing_secret,
+    inbound_url: inboundUrl(baseUrl, inbound_token),
+  };
+}
+
+/**
+ * Validate a chat channel create (`current` null) or update. Secrets left
+ * out keep the stored ones. Agent IDs are checked by the caller, which
+ * knows which agents the user owns.
+ */
+export async function parseChatChannelInput(
+  input: unknown,
+  current: ChatChannel | null,
+  encryptionSecret: string
+): Promise<{ data: ChatChannelInput } | { error: string }> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Request body must be an object" };
+  }
+  const raw = input as Record<string, unknown>;
+  const data: ChatChannelInput = { platform: current?.platform ?? (raw.platform as ChatPlatform) };
+
+  if (!CHAT_PLATFORMS.includes(data.platform)) {
+    return { error: `platform must be one of: ${CHAT_PLATFORMS.join(", ")}` };
+  }
+  if (current && raw.platform !== undefined && raw.platform !== current.platform) {
+    return { error: "A chat channel's platform can't be changed" };
+  }
+
+  if (raw.name !== undefined || !current) {
+    if (typeof raw.name !== "string" || !raw.name.trim()) return { error: "name is required" };
+    data.name = raw.name.trim();
+  }
+  if (raw.agent_id !== undefined || !current) {
+    if (!Number.isInteger(raw.agent_id)) return { error: "agent_id is required" };
+    data.agent_id = raw.agent_id as number;
+  }
+  if (raw.enabled !== undefined) {
+    if (typeof raw.enabled !== "boolean") return { error: "enabled must be a boolean" };
+    data.enabled = raw.enabled;
+  }
+
+  if (raw.routes !== undefined) {
+    if (!Array.isArray(raw.routes)) return { error: "routes must be an array" };
+    const routes: ChatChannelRoute[] = [];
+    for (const route of raw.routes as Array<Partial<ChatChannelRoute>>) {
+      const channelId = typeof route?.platform_channel_id === "string" ? route.platform_channel_id.trim() : "";
+      if (!channelId || !Number.isInteger(route.agent_id)) {
+        return { error: "Each route needs a platform_channel_id and an agent_id" };
+      }
+      if (routes.some((r) => r.platform_channel_id === channelId)) {
+        return { error: `Duplicate route for channel ${channelId}` };
+      }
+      routes.push({ platform_channel_id: channelId, agent_id: route.agent_id! });
+    }
+    data.routes = routes;
+  }
+
+  if (raw.allowed_user_ids !== undefined) {
+    if (!Array.isArray(raw.allowed_user_ids) || raw.allowed_user_ids.some((id) => typeof id !== "string" || !id.trim())) {
+      return { error: "allowed_user_ids must be an array of platform user IDs" };
+    }
+    data.allowed_user_ids = (raw.allowed_user_ids as string[]).map((id) => id.trim());
+  }
+
+  const secret = async (value: unknown): Promise<string | null | undefined | { error: string }> => {
+    if (value === undefined) return undefined;
+    if (!value) return null;
+    if (typeof value !== "string") return { error: "Tokens and secrets must be strings" };
+    return encrypt(value.trim(), encryptionSecret);
+  };
+
+  const botToken = await secret(raw.bot_token);
+  if (botToken && typeof botToken === "object") return botToken;
+  if (botToken !== undefined) data.bot_token = botToken;
+
+  if (data.platform === "slack") {
+    const signingSecret = await secret(raw.signing_secret);
+    if (signingSecret && typeof signingSecret === "object") return signingSecret;
+    if (signingSecret !== undefined) data.signing_secret = signingSecret;
+  } else if (data.platform === "telegram" && !current) {
+    // Telegram echoes the secret we choose in a header on every update
+    data.signing_secret = await encrypt(randomBytes(32).toString("hex"), encryptionSecret);
+  }
+
+  if (data.platform === "discord") {
+    if (raw.application_id !== undefined) {
+      if (typeof raw.application_id !== "string" || !/^\d+$/.test(raw.application_id)) {
+        return { error: "application_id must be a Discord application ID" };
+      }
+      data.application_id = raw.application_id;
+    }
+    if (raw.public_key !== undefined) {
+      if (typeof raw.public_key !== "string" || !/^[0-9a-f]{64}$/i.test(raw.public_key)) {
+        return { error: "public_key must be the application's 64-character hex public key" };
+      }
+      data.public_key = raw.public_key.toLowerCase();
+    }
+  }
+
+  const merged = { ...current, ...data };
+  const missing =
+    data.platform === "slack"
+      ? (["bot_token", "signing_secret"] as const).filter((field) => !merged[field])
+      : data.platform === "discord"
+        ? (["application_id", "public_key"] as const).filter((field) => !merged[field])
+        : (["bot_token"] as const).filter((field) => !merged[field]);
+  if (missing.length > 0) {
+    return { error: `${data.platform} channels need: ${missing.join(", ")}` };
+  }
+
+  return { data };
+}
@@ -0,0 +1,95 @@
+/**
+ * Slack Events API adapter. The app is subscribed to `app_mention` and
+ * `message.im`: in channels the bot answers mentions in a thread (one
+ * conversation per thread), in direct messages it answers every message
+ * (one conversation per DM).
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { ChatPlatformAdapter, InboundEvent, InboundMessage, InboundRequest, PlatformCredentials } from "./types";
+import { PlatformApiError } from "./types";
+import { ack, splitMessage } from "./text";
+
+export const SLACK_API_URL = "https://slack.com/api";
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+const MESSAGE_LIMIT = 3900;
+
+export class SlackAdapter implements ChatPlatformAdapter {
+  readonly platform = "slack" as const;
+
+  constructor(private options: { apiUrl?: string } = {}) {}
+
+  verify(request: InboundRequest, credentials: PlatformCredentials, now = new Date()): boolean {
+    const timestamp = request.headers.get("x-slack-request-timestamp");
+    const signature = request.headers.get("x-slack-signature");
+    if (!credentials.signingSecret || !timestamp || !signature) return false;
+    if (Math.abs(now.getTime() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+    const expected = Buffer.from(
+      `v0=${createHmac("sha256", credentials.signingSecret).update(`v0:${timestamp}:${request.body}`).digest("hex")}`
+    );
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  parse(request: InboundRequest): InboundEvent {
+    const payload = JSON.parse(request.body);
+    if (payload.type === "url_verification") {
+      return { response: Response.json({ challenge: payload.challenge }), message: null };
+    }
+    // Slack retries events it thinks we missed; the first delivery is already being answered
+    if (payload.type !== "event_callback" || request.headers.get("x-slack-retry-num")) {
+      return { response: ack(), message: null };
+    }
+
+    const event = payload.event ?? {};
+    // Bots (including this one), edits and joins have a bot_id or subtype
+    if (event.bot_id || event.subtype || typeof event.text !== "string") {
+      return { response: ack(), message: null };
+    }
+    const direct = event.type === "message" && event.channel_type === "im";
+    if (event.type !== "app_mention" && !direct) {
+      return { response: ack(), message: null };
+    }
+
+    const thread = direct ? event.thread_ts : event.thread_ts ?? event.ts;
+    return {
+      response: ack(),
+      message: {
+        platformChannelId: event.channel,
+        threadId: thread ?? "",
+        userId: event.user,
+        userName: null,
+        text: event.text.replace(/<@[A-Z0-9]+>/g, "").trim(),
+        replyTo: thread ? { thread_ts: thread } : {},
+      },
+    };
+  }
+
+  async reply(message: InboundMessage, text: string, credentials: PlatformCredentials): Promise<void> {
+    for (const chunk of splitMessage(text, MESSAGE_LIMIT)) {
+      await this.call("chat.postMessage", credentials, {
+        channel: message.platformChannelId,
+        text: chunk,
+        ...message.replyTo,
+      });
+    }
+  }
+
+  private async call(method: string, credentials: PlatformCredentials, body: Record<string, unknown>) {
+    if (!credentials.botToken) throw new PlatformApiError("slack", "bot token not configured");
+    const response = await fetch(`${this.options.apiUrl ?? SLACK_API_URL}/${method}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        Authorization: `Bearer ${credentials.botToken}`,
+      },
+      body: JSON.stringify(body),
+    });
+    // Slack reports most errors as 200 with ok: false
+    const result = (await response.json().catch(() => null)) as { ok?: boolean; error?: string } | null;
+    if (!response.ok || !result?.ok) {
+      throw new PlatformApiError("slack", `${method} failed: ${result?.error ?? `HTTP ${response.status}`}`, response.status);
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Telegram Bot API adapter. Updates arrive on the bot's webhook with the
+ * secret token we set when registering it. Each chat (or forum topic) is one
+ * conversation, and answers are sent as replies to the message.
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import type { ChatPlatformAdapter, InboundEvent, InboundMessage, InboundRequest, PlatformCredentials } from "./types";
+import { PlatformApiError } from "./types";
+import { ack, splitMessage } from "./text";
+
+export const TELEGRAM_API_URL = "https://api.telegram.org";
+const MESSAGE_LIMIT = 4096;
+
+export class TelegramAdapter implements ChatPlatformAdapter {
+  readonly platform = "telegram" as const;
+
+  constructor(private options: { apiUrl?: string } = {}) {}
+
+  verify(request: InboundRequest, credentials: PlatformCredentials): boolean {
+    const token = request.headers.get("x-telegram-bot-api-secret-token");
+    if (!credentials.signingSecret || !token) return false;
+    const expected = Buffer.from(credentials.signingSecret);
+    const actual = Buffer.from(token);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  parse(request: InboundRequest): InboundEvent {
+    const update = JSON.parse(request.body);
+    const message = update.message;
+    if (!message || typeof message.text !== "string" || message.from?.is_bot) {
+      return { response: ack(), message: null };
+    }
+
+    // "/ask@SomeBot question" and "/ask question" are the same as "question"
+    const text = message.text.replace(/^\/(ask|start)(@\w+)?\s*/, "").trim();
+    if (!text) return { response: ack(), message: null };
+
+    const topic = message.is_topic_message && message.message_thread_id ? String(message.message_thread_id) : "";
+    return {
+      response: ack(),
+      message: {
+        platformChannelId: String(message.chat.id),
+        threadId: topic,
+        userId: String(message.from?.id ?? ""),
+        userName: message.from?.username ?? message.from?.first_name ?? null,
+        text,
+        replyTo: {
+          message_id: String(message.message_id),
+          ...(topic ? { message_thread_id: topic } : {}),
+        },
+      },
+    };
+  }
+
+  /** The first chunk replies to the message; the rest follow it */
+  async reply(message: InboundMessage, text: string, credentials: PlatformCredentials): Promise<void> {
+    const chunks = splitMessage(text, MESSAGE_LIMIT);
+    for (const [index, chunk] of chunks.entries()) {
+      await this.call("sendMessage", credentials, {
+        chat_id: message.platformChannelId,
+        text: chunk,
+        ...(message.replyTo.message_thread_id ? { message_thread_id: Number(message.replyTo.message_thread_id) } : {}),
+        ...(index === 0
+          ? { reply_parameters: { message_id: Number(message.replyTo.message_id), allow_sending_without_reply: true } }
+          : {}),
+      });
+    }
+  }
+
+  async register(inboundUrl: string, credentials: PlatformCredentials): Promise<string> {
+    await this.call("setWebhook", credentials, {
+      url: inboundUrl,
+      secret_token: credentials.signingSecret,
+      allowed_updates: ["message"],
+    });
+    return "Set the bot's webhook";
+  }
+
+  private async call(method: string, credentials: PlatformCredentials, body: Record<string, unknown>) {
+    if (!credentials.botToken) throw new PlatformApiError("telegram", "bot token not configured");
+    const response = await fetch(`${this.options.apiUrl ?? TELEGRAM_API_URL}/bot${credentials.botToken}/${method}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const result = (await response.json().catch(() => null)) as { ok?: boolean; description?: string } | null;
+    if (!response.ok || !result?.ok) {
+      throw new PlatformApiError(
+        "telegram",
+        `${method} failed: ${result?.description ?? `HTTP ${response.status}`}`,
+        response.status
+      );
+    }
+  }
+}
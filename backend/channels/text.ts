@@ -0,0 +1,24 @@
+/**
+ * Split a reply into chunks a platform accepts, breaking at paragraph or
+ * line ends where possible.
+ */
+export function splitMessage(text: string, limit: number): string[] {
+  const chunks: string[] = [];
+  let rest = text.trim();
+  while (rest.length > limit) {
+    const window = rest.slice(0, limit);
+    let cut = window.lastIndexOf("\n\n");
+    if (cut < limit / 2) cut = window.lastIndexOf("\n");
+    if (cut < limit / 2) cut = window.lastIndexOf(" ");
+    if (cut < limit / 2) cut = limit;
+    chunks.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+  if (rest) chunks.push(rest);
+  return chunks;
+}
+
+/** Plain 200 acknowledgement */
+export function ack(): Response {
+  return new Response(null, { status: 200 });
+}
@@ -0,0 +1,59 @@
+import type { ChatPlatform } from "../types/models";
+
+/** A chat channel's platform credentials, decrypted */
+export interface PlatformCredentials {
+  botToken: string | null;
+  signingSecret: string | null;
+  applicationId: string | null;
+  publicKey: string | null;
+}
+
+/** An inbound platform request, with the raw body its signature covers */
+export interface InboundRequest {
+  headers: Headers;
+  body: string;
+}
+
+/** A message someone sent the bot */
+export interface InboundMessage {
+  platformChannelId: string;
+  /** Which conversation it continues; '' when the platform has no thread for it */
+  threadId: string;
+  userId: string;
+  userName: string | null;
+  text: string;
+  /** Platform details the reply needs (Slack thread, Telegram message, Discord interaction token) */
+  replyTo: Record<string, string>;
+}
+
+export interface InboundEvent {
+  /** The acknowledgement the platform expects, sent before the agent answers */
+  response: Response;
+  /** Null for handshakes, bots' own messages and events we don't answer */
+  message: InboundMessage | null;
+}
+
+export interface ChatPlatformAdapter {
+  readonly platform: ChatPlatform;
+  /** Whether the request really came from the platform */
+  verify(request: InboundRequest, credentials: PlatformCredentials, now?: Date): boolean;
+  parse(request: InboundRequest): InboundEvent;
+  /** Post the agent's answer back where the message came from */
+  reply(message: InboundMessage, text: string, credentials: PlatformCredentials): Promise<void>;
+  /**
+   * Point the platform at our inbound URL, where its API allows that.
+   * Returns what was set up, for the user.
+   */
+  register?(inboundUrl: string, credentials: PlatformCredentials): Promise<string>;
+}
+
+export class PlatformApiError extends Error {
+  constructor(
+    public platform: ChatPlatform,
+    message: string,
+    public status?: number
+  ) {
+    super(`${platform}: ${message}`);
+    this.name = "PlatformApiError";
+  }
+}
@@ -2,14 +2,17 @@ import type { BunRequest } from "bun";
 import type { AgentRepository } from "../repositories/AgentRepository";
 import type { MemoryRepository } from "../repositories/MemoryRepository";
 import type { UserRepository } from "../repositories/UserRepository";
+import type { ModelProviderRepository } from "../repositories/ModelProviderRepository";
 import type { User } from "../types/models";
-import { EmbeddingService } from "../services/EmbeddingService";
-import { decrypt } from "../utils/encryption";
+import { createEmbeddingService, type EmbeddingService } from "../services/EmbeddingService";
+import { searchMemories, searchWeightsFor } from "../services/MemorySearch";
+import { loadUserApiKeys } from "../utils/modelProviders";
 
 interface AgentMemoriesHandlerDependencies {
   agentRepository: AgentRepository;
   memoryRepository: MemoryRepository;
   userRepository: UserRepository;
+  modelProviderRepository: ModelProviderRepository | null;
   authenticate: (req: BunRequest) => Promise<{ user: User; session: { id: string; userId: number } } | null>;
   encryptionSecret: string;
 }
@@ -31,10 +34,9 @@ export function createAgentMemoriesHandlers(deps: AgentMemoriesHandlerDependenci
   };
 
   const getEmbeddingService = async (user: User): Promise<EmbeddingService | null> => {
-    if (!user.openai_api_key) return null;
     try {
-      const apiKey = await decrypt(user.openai_api_key, deps.encryptionSecret);
-      return new EmbeddingService(apiKey);
+      const apiKeys = await loadUserApiKeys(user, deps.modelProviderRepository, deps.encryptionSecret);
+      return createEmbeddingService(user.embedding_model, apiKeys);
     } catch {
       return null;
     }
@@ -42,6 +44,8 @@ export function createAgentMemoriesHandlers(deps: AgentMemoriesHandlerDependenci
 
   /**
    * GET /api/agents/:slug/memories
+   * With ?q=, returns hybrid search results (keyword, vector, frequency and
+   * recency) across all tiers instead of the full list; ?limit= caps them (max 50)
    */
   const getMemories = async (req: BunRequest): Promise<Response> => {
     const auth = await deps.authenticate(req);
@@ -55,7 +59,15 @@ export function createAgentMemoriesHandlers(deps: AgentMemoriesHandlerDependenci
       const result = await getAgentWithAccess(auth.user, slug);
       if (result.error) return Response.json({ error: result.error }, { status: result.status });
 
-      const memories = await deps.memoryRepository.listByAgent(result.agent!.id);
+      const query = url.searchParams.get("q")?.trim();
+      const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") ?? "") || 20, 1), 50);
+      const memories = query
+        ? await searchMemories(deps.memoryRepository, result.agent!.id, query, {
+            limit,
+            embeddingService: await getEmbeddingService(auth.user),
+            weights: searchWeightsFor(result.agent!),
+          })
+        : await deps.memoryRepository.listByAgent(result.agent!.id);
       const coreCount = await deps.memoryRepository.countByTier(result.agent!.id, "core");
       const workingCount = await deps.memoryRepository.countByTier(result.agent!.id, "working");
       const referenceCount = await deps.memoryRepository.countByTier(result.agent!.id, "reference");
@@ -114,7 +126,7 @@ export function createAgentMemoriesHandlers(deps: AgentMemoriesHandlerDependenci
       const embeddingService = await getEmbeddingService(auth.user);
       if (embeddingService) {
         embeddingService.generate(`${key}: ${value}`)
-          .then((emb) => deps.memoryRepository.setEmbedding(result.agent!.id, key, emb))
+          .then((emb) => deps.memoryRepository.setEmbedding(result.agent!.id, key, emb, embeddingService.model))
           .catch((err) => console.error("Embedding generation failed:", err));
       }
 
@@ -159,7 +171,7 @@ export function createAgentMemoriesHandlers(deps: AgentMemoriesHandlerDependenci
         const embeddingService = await getEmbeddingService(auth.user);
         if (embeddingService) {
           embeddingService.generate(`${memoryKey}: ${value}`)
-            .then((emb) => deps.memoryRepository.setEmbedding(result.agent!.id, memoryKey, emb))
+            .then((emb) => deps.memoryRepository.setEmbedding(result.agent!.id, memoryKey, emb, embeddingService.model))
             .catch((err) => console.error("Embedding generation failed:", err));
         }
       }
@@ -243,11 +255,75 @@ export function createAgentMemoriesHandlers(deps: AgentMemoriesHandlerDependenci
     }
   };
 
+  /**
+   * GET /api/agents/:slug/memory-changes
+   * Recent changes made by background memory consolidation
+   */
+  const listChanges = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const pathParts = new URL(req.url).pathname.split("/");
+      const slug = pathParts[pathParts.length - 2] ?? "";
+
+      const result = await getAgentWithAccess(auth.user, slug);
+      if (result.error) return Response.json({ error: result.error }, { status: result.status });
+
+      const changes = await deps.memoryRepository.listChanges(result.agent!.id);
+      return Response.json({ changes });
+    } catch (err) {
+      console.error("Error listing memory changes:", err);
+      return Response.json({ error: "Failed to list memory changes" }, { status: 500 });
+    }
+  };
+
+  /**
+   * POST /api/agents/:slug/memory-changes/:id/revert
+   * Undo a consolidation change: delete a created memory, or restore the
+   * previous value of an updated or merged-away one
+   */
+  const revertChange = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const pathParts = new URL(req.url).pathname.split("/");
+      // /api/agents/:slug/memory-changes/:id/revert
+      const slug = pathParts[pathParts.length - 4] ?? "";
+      const changeId = parseInt(pathParts[pathParts.length - 2] ?? "");
+      if (isNaN(changeId)) return Response.json({ error: "Invalid change ID" }, { status: 400 });
+
+      const result = await getAgentWithAccess(auth.user, slug);
+      if (result.error) return Response.json({ error: result.error }, { status: result.status });
+
+      const change = await deps.memoryRepository.findChange(changeId);
+      if (!change || change.agent_id !== result.agent!.id) {
+        return Response.json({ error: "Change not found" }, { status: 404 });
+      }
+      if (change.reverted_at) return Response.json({ error: "Change already reverted" }, { status: 409 });
+
+      if (change.previous) {
+        await deps.memoryRepository.restore(change.agent_id, change.memory_key, change.previous);
+      } else {
+        await deps.memoryRepository.delete(change.agent_id, change.memory_key);
+      }
+      await deps.memoryRepository.markChangeReverted(change.id);
+
+      return Response.json({ success: true });
+    } catch (err) {
+      console.error("Error reverting memory change:", err);
+      return Response.json({ error: "Failed to revert memory change" }, { status: 500 });
+    }
+  };
+
   return {
     getMemories,
     createMemory,
     updateMemory,
     changeTier,
     deleteMemory,
+    listChanges,
+    revertChange,
   };
 }
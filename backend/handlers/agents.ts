@@ -1,6 +1,7 @@
 import type { BunRequest } from "bun";
 import type { AgentRepository, CreateAgentData, UpdateAgentData } from "../repositories/AgentRepository";
-import type { User, PoolType, NotifierChannel } from "../types/models";
+import type { User, PoolType, NotifierChannel, MemorySearchSettings } from "../types/models";
+import { MAX_MEMORY_SEARCH_WEIGHT, MAX_RECENCY_HALF_LIFE_DAYS } from "../services/MemorySearch";
 
 function getDomain(email: string): string {
   return email.split("@")[1] || "";
@@ -13,12 +14,58 @@ interface AgentHandlerDependencies {
 
 const VALID_NOTIFIER_CHANNELS: NotifierChannel[] = ['email', 'webhook', 'pushover'];
 
+const MAX_FALLBACK_MODELS = 5;
+
+/**
+ * Validate a fallback model list, returning an error message if invalid
+ */
+function validateFallbackModels(models: unknown): string | null {
+  if (!Array.isArray(models)) return "fallback_models must be an array of model strings";
+  if (models.length > MAX_FALLBACK_MODELS) return `At most ${MAX_FALLBACK_MODELS} fallback models are allowed`;
+  for (const model of models) {
+    if (typeof model !== "string" || !/^[a-z0-9-]+:.+$/i.test(model)) {
+      return `Invalid fallback model "${model}". Expected "provider:model-id"`;
+    }
+  }
+  return null;
+}
+
+const MEMORY_SEARCH_WEIGHT_FIELDS = ["keyword_weight", "vector_weight", "frequency_weight", "recency_weight"] as const;
+
+/**
+ * Validate memory search weights, returning an error message if invalid
+ */
+function validateMemorySearchWeights(weights: unknown): string | null {
+  if (weights === null) return null;
+  if (typeof weights !== "object" || Array.isArray(weights)) {
+    return "memory_search_weights must be an object or null";
+  }
+  const settings = weights as Record<string, unknown>;
+  for (const key of Object.keys(settings)) {
+    if (![...MEMORY_SEARCH_WEIGHT_FIELDS, "recency_half_life_days"].includes(key)) {
+      return `Unknown memory search setting "${key}"`;
+    }
+  }
+  for (const field of MEMORY_SEARCH_WEIGHT_FIELDS) {
+    const value = settings[field];
+    if (value !== undefined && (typeof value !== "number" || !(value >= 0 && value <= MAX_MEMORY_SEARCH_WEIGHT))) {
+      return `${field} must be a number from 0 to ${MAX_MEMORY_SEARCH_WEIGHT}`;
+    }
+  }
+  const halfLife = settings.recency_half_life_days;
+  if (halfLife !== undefined && (typeof halfLife !== "number" || !(halfLife > 0 && halfLife <= MAX_RECENCY_HALF_LIFE_DAYS))) {
+    return `recency_half_life_days must be a number of days up to ${MAX_RECENCY_HALF_LIFE_DAYS}`;
+  }
+  return null;
+}
+
 interface CreateAgentRequest {
   slug: string;
   name: string;
   purpose?: string;
   system_prompt: string;
   model?: string;
+  fallback_models?: string[];
   internet_search_enabled?: boolean;
   pool_type?: PoolType;
   default_notifier?: NotifierChannel | null;
@@ -30,9 +77,11 @@ interface UpdateAgentRequest {
   purpose?: string;
   system_prompt?: string;
   model?: string;
+  fallback_models?: string[];
   internet_search_enabled?: boolean;
   default_notifier?: NotifierChannel | null;
   default_notifier_destination?: string | null;
+  memory_search_weights?: MemorySearchSettings | null;
 }
 
 /**
@@ -133,6 +182,16 @@ export function createAgentHandlers(deps: AgentHandlerDependencies) {
         }
       }
 
+      if (body.fallback_models !== undefined) {
+        const fallbackError = validateFallbackModels(body.fallback_models);
+        if (fallbackError) {
+          return new Response(
+            JSON.stringify({ error: fallbackError }),
+            { status: 400, headers: { "Content-Type": "application/json" } }
+          );
+        }
+      }
+
       // Create agent
       const agentData: CreateAgentData = {
         user_id: auth.user.id,
@@ -141,6 +200,7 @@ export function createAgentHandlers(deps: AgentHandlerDependencies) {
         purpose: body.purpose,
         system_prompt: body.system_prompt,
         model: body.model,
+        fallback_models: body.fallback_models ?? [],
         internet_search_enabled: body.internet_search_enabled ?? false,
         pool_type: poolType,
         domain: poolType === 'team' ? domain : undefined,
@@ -264,6 +324,26 @@ export function createAgentHandlers(deps: AgentHandlerDependencies) {
         }
       }
 
+      if (body.fallback_models !== undefined) {
+        const fallbackError = validateFallbackModels(body.fallback_models);
+        if (fallbackError) {
+          return new Response(
+            JSON.stringify({ error: fallbackError }),
+            { status: 400, headers: { "Content-Type": "application/json" } }
+          );
+        }
+      }
+
+      if (body.memory_search_weights !== undefined) {
+        const weightsError = validateMemorySearchWeights(body.memory_search_weights);
+        if (weightsError) {
+          return new Response(
+            JSON.stringify({ error: weightsError }),
+            { status: 400, headers: { "Content-Type": "application/json" } }
+          );
+        }
+      }
+
       // Update agent
       const updatedAgent = await deps.agentRepository.update(agent.id, body);
 
@@ -0,0 +1,232 @@
+import type { BunRequest } from "bun";
+import type { AgentRepository } from "../repositories/AgentRepository";
+import type { BudgetLimits, BudgetRepository, BudgetTarget } from "../repositories/BudgetRepository";
+import type { UsageRepository, UsageSpendFilter } from "../repositories/UsageRepository";
+import type { Budget, User } from "../types/models";
+import { currentBudgetMonth, evaluateBudget } from "../services/BudgetService";
+import { getUserDomain, isPersonalDomain } from "../utils/domain";
+
+interface BudgetHandlerDependencies {
+  budgetRepository: BudgetRepository;
+  usageRepository: UsageRepository;
+  agentRepository: AgentRepository;
+  authenticate: (
+    req: BunRequest
+  ) => Promise<{ user: User; session: { id: string; userId: number } } | null>;
+}
+
+/** Validate a PUT body into budget limits, or return an error message */
+function parseLimits(body: unknown): BudgetLimits | string {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return "Request body must be a JSON object";
+  }
+  const { monthly_cost_limit_usd: cost = null, monthly_token_limit: tokens = null, soft_threshold_percent: soft } =
+    body as Record<string, unknown>;
+
+  if (cost !== null && (typeof cost !== "number" || !isFinite(cost) || cost < 0)) {
+    return "monthly_cost_limit_usd must be a non-negative number or null";
+  }
+  if (tokens !== null && (typeof tokens !== "number" || !Number.isInteger(tokens) || tokens < 0)) {
+    return "monthly_token_limit must be a non-negative integer or null";
+  }
+  if (cost === null && tokens === null) {
+    return "Set a cost limit, a token limit, or both";
+  }
+  if (soft !== undefined && (typeof soft !== "number" || !Number.isInteger(soft) || soft < 1 || soft > 100)) {
+    return "soft_threshold_percent must be an integer between 1 and 100";
+  }
+
+  return { monthly_cost_limit_usd: cost, monthly_token_limit: tokens, soft_threshold_percent: soft };
+}
+
+export function createBudgetHandlers(deps: BudgetHandlerDependencies) {
+  /** Attach month-to-date spend to a budget */
+  const withSpend = async (budget: Budget, filter: UsageSpendFilter) => {
+    const spend = await deps.usageRepository.spendSince(filter, currentBudgetMonth().start);
+    return {
+      ...budget,
+      spent_usd: spend.cost_usd,
+      spent_tokens: spend.tokens,
+      percent_used: Math.round(evaluateBudget(budget, spend).percent),
+    };
+  };
+
+  /** Resolve the agent in /api/agents/:slug/budget */
+  const findAgentId = async (req: BunRequest, user: User): Promise<number | null> => {
+    const pathParts = new URL(req.url).pathname.split("/");
+    const slug = pathParts[pathParts.length - 2] ?? "";
+    const agent = await deps.agentRepository.findAccessibleBySlug(user.id, getUserDomain(user.email), slug);
+    return agent?.id ?? null;
+  };
+
+  const putBudget = async (req: BunRequest, target: BudgetTarget, filter: UsageSpendFilter): Promise<Response> => {
+    const limits = parseLimits(await req.json());
+    if (typeof limits === "string") {
+      return Response.json({ error: limits }, { status: 400 });
+    }
+    const budget = await deps.budgetRepository.upsert(target, limits);
+    return Response.json({ budget: await withSpend(budget, filter) });
+  };
+
+  /**
+   * GET /api/budgets
+   * User, team and agent budgets with month-to-date spend
+   */
+  const listBudgets = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const domain = getUserDomain(auth.user.email);
+      const isTeam = !isPersonalDomain(domain);
+      const agents = await deps.agentRepository.listAccessible(auth.user.id, domain);
+
+      const [userBudget, teamBudget, agentBudgets] = await Promise.all([
+        deps.budgetRepository.find({ scope: "user", user_id: auth.user.id }),
+        isTeam ? deps.budgetRepository.find({ scope: "team", domain }) : null,
+        deps.budgetRepository.listForAgents(agents.map((a) => a.id)),
+      ]);
+
+      return Response.json({
+        month: currentBudgetMonth().month,
+        domain: isTeam ? domain : null,
+        user: userBudget ? await withSpend(userBudget, { user_id: auth.user.id }) : null,
+        team: teamBudget ? await withSpend(teamBudget, { domain }) : null,
+        agents: await Promise.all(
+          agentBudgets.map(async (budget) => {
+            const agent = agents.find((a) => a.id === budget.agent_id)!;
+            return {
+              ...(await withSpend(budget, { agent_id: agent.id })),
+              agent_slug: agent.slug,
+              agent_name: agent.name,
+            };
+          })
+        ),
+      });
+    } catch (err) {
+      console.error("Error listing budgets:", err);
+      return Response.json({ error: "Failed to list budgets" }, { status: 500 });
+    }
+  };
+
+  /**
+   * PUT /api/user/budget
+   */
+  const updateUserBudget = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      return await putBudget(req, { scope: "user", user_id: auth.user.id }, { user_id: auth.user.id });
+    } catch (err) {
+      console.error("Error updating user budget:", err);
+      return Response.json({ error: "Failed to update budget" }, { status: 500 });
+    }
+  };
+
+  /**
+   * DELETE /api/user/budget
+   */
+  const deleteUserBudget = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      await deps.budgetRepository.delete({ scope: "user", user_id: auth.user.id });
+      return Response.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting user budget:", err);
+      return Response.json({ error: "Failed to delete budget" }, { status: 500 });
+    }
+  };
+
+  /**
+   * PUT /api/team/budget
+   */
+  const updateTeamBudget = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    const domain = getUserDomain(auth.user.email);
+    if (isPersonalDomain(domain)) {
+      return Response.json({ error: "Team settings not available for personal email domains." }, { status: 403 });
+    }
+
+    try {
+      return await putBudget(req, { scope: "team", domain }, { domain });
+    } catch (err) {
+      console.error("Error updating team budget:", err);
+      return Response.json({ error: "Failed to update budget" }, { status: 500 });
+    }
+  };
+
+  /**
+   * DELETE /api/team/budget
+   */
+  const deleteTeamBudget = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    const domain = getUserDomain(auth.user.email);
+    if (isPersonalDomain(domain)) {
+      return Response.json({ error: "Team settings not available for personal email domains." }, { status: 403 });
+    }
+
+    try {
+      await deps.budgetRepository.delete({ scope: "team", domain });
+      return Response.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting team budget:", err);
+      return Response.json({ error: "Failed to delete budget" }, { status: 500 });
+    }
+  };
+
+  /**
+   * PUT /api/agents/:slug/budget
+   */
+  const updateAgentBudget = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const agentId = await findAgentId(req, auth.user);
+      if (agentId === null) {
+        return Response.json({ error: "Agent not found" }, { status: 404 });
+      }
+      return await putBudget(req, { scope: "agent", agent_id: agentId }, { agent_id: agentId });
+    } catch (err) {
+      console.error("Error updating agent budget:", err);
+      return Response.json({ error: "Failed to update budget" }, { status: 500 });
+    }
+  };
+
+  /**
+   * DELETE /api/agents/:slug/budget
+   */
+  const deleteAgentBudget = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const agentId = await findAgentId(req, auth.user);
+      if (agentId === null) {
+        return Response.json({ error: "Agent not found" }, { status: 404 });
+      }
+      await deps.budgetRepository.delete({ scope: "agent", agent_id: agentId });
+      return Response.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting agent budget:", err);
+      return Response.json({ error: "Failed to delete budget" }, { status: 500 });
+    }
+  };
+
+  return {
+    listBudgets,
+    updateUserBudget,
+    deleteUserBudget,
+    updateTeamBudget,
+    deleteTeamBudget,
+    updateAgentBudget,
+    deleteAgentBudget,
+  };
+}
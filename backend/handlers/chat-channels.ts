@@ -0,0 +1,206 @@
+import type { BunRequest } from "bun";
+import type { AgentRepository } from "../repositories/AgentRepository";
+import type { ChatChannelRepository } from "../repositories/ChatChannelRepository";
+import type { ChatChannelService } from "../services/ChatChannelService";
+import type { ChatChannel, User } from "../types/models";
+import {
+  generateInboundToken,
+  inboundUrl,
+  maskChatChannel,
+  parseChatChannelInput,
+  type ChatAdapters,
+  type ChatChannelInput,
+} from "../channels";
+
+interface ChatChannelHandlerDependencies {
+  chatChannelRepository: ChatChannelRepository;
+  agentRepository: AgentRepository;
+  authenticate: (
+    req: BunRequest
+  ) => Promise<{ user: User; session: { id: string; userId: number } } | null>;
+  encryptionSecret: string;
+  /** Public URL of the app; platforms send events to inbound URLs under it */
+  frontendUrl: string;
+  adapters: ChatAdapters;
+  // Late-bound since the service is created after the server starts
+  getChatChannelService: () => ChatChannelService | null;
+}
+
+export function createChatChannelHandlers(deps: ChatChannelHandlerDependencies) {
+  const findOwnChannel = async (user: User, req: BunRequest, fromEnd = 1): Promise<ChatChannel | null> => {
+    const pathParts = new URL(req.url).pathname.split("/");
+    const id = parseInt(pathParts[pathParts.length - fromEnd] ?? "");
+    if (isNaN(id)) return null;
+    const channel = await deps.chatChannelRepository.findById(id);
+    return channel && channel.user_id === user.id ? channel : null;
+  };
+
+  /** Every agent the channel routes to must be the user's own */
+  const checkAgents = async (user: User, data: ChatChannelInput): Promise<string | null> => {
+    const agentIds = [
+      ...(data.agent_id !== undefined ? [data.agent_id] : []),
+      ...(data.routes ?? []).map((r) => r.agent_id),
+    ];
+    for (const agentId of new Set(agentIds)) {
+      const agent = await deps.agentRepository.findById(agentId);
+      if (!agent || agent.user_id !== user.id) return `Agent not found: ${agentId}`;
+    }
+    return null;
+  };
+
+  /**
+   * GET /api/chat-channels
+   */
+  const listChannels = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const channels = await deps.chatChannelRepository.listByUser(auth.user.id);
+      return Response.json({ channels: channels.map((c) => maskChatChannel(c, deps.frontendUrl)) });
+    } catch (err) {
+      console.error("Error listing chat channels:", err);
+      return Response.json({ error: "Failed to list chat channels" }, { status: 500 });
+    }
+  };
+
+  /**
+   * POST /api/chat-channels
+   */
+  const createChannel = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const parsed = await parseChatChannelInput(await req.json(), null, deps.encryptionSecret);
+      if ("error" in parsed) return Response.json({ error: parsed.error }, { status: 400 });
+      const agentError = await checkAgents(auth.user, parsed.data);
+      if (agentError) return Response.json({ error: agentError }, { status: 400 });
+
+      const { data } = parsed;
+      const channel = await deps.chatChannelRepository.create({
+        ...data,
+        user_id: auth.user.id,
+        name: data.name!,
+        agent_id: data.agent_id!,
+        inbound_token: generateInboundToken(),
+      });
+      return Response.json({ channel: maskChatChannel(channel, deps.frontendUrl) }, { status: 201 });
+    } catch (err) {
+      if (err instanceof Error && err.message.includes("unique")) {
+        return Response.json({ error: "A chat channel with that name already exists" }, { status: 409 });
+      }
+      console.error("Error creating chat channel:", err);
+      return Response.json({ error: "Failed to create chat channel" }, { status: 500 });
+    }
+  };
+
+  /**
+   * PUT /api/chat-channels/:id
+   */
+  const updateChannel = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const current = await findOwnChannel(auth.user, req);
+      if (!current) return Response.json({ error: "Chat channel not found" }, { status: 404 });
+
+      const parsed = await parseChatChannelInput(await req.json(), current, deps.encryptionSecret);
+      if ("error" in parsed) return Response.json({ error: parsed.error }, { status: 400 });
+      const agentError = await checkAgents(auth.user, parsed.data);
+      if (agentError) return Response.json({ error: agentError }, { status: 400 });
+
+      const { platform: _platform, ...changes } = parsed.data;
+      const channel = await deps.chatChannelRepository.update(current.id, changes);
+      return Response.json({ channel: maskChatChannel(channel!, deps.frontendUrl) });
+    } catch (err) {
+      if (err instanceof Error && err.message.includes("unique")) {
+        return Response.json({ error: "A chat channel with that name already exists" }, { status: 409 });
+      }
+      console.error("Error updating chat channel:", err);
+      return Response.json({ error: "Failed to update chat channel" }, { status: 500 });
+    }
+  };
+
+  /**
+   * DELETE /api/chat-channels/:id
+   */
+  const deleteChannel = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const channel = await findOwnChannel(auth.user, req);
+      if (!channel) return Response.json({ error: "Chat channel not found" }, { status: 404 });
+      await deps.chatChannelRepository.delete(channel.id);
+      return Response.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting chat channel:", err);
+      return Response.json({ error: "Failed to delete chat channel" }, { status: 500 });
+    }
+  };
+
+  /**
+   * POST /api/chat-channels/:id/register
+   * Point the platform at the channel's inbound URL, where its API allows it
+   * (Discord and Telegram); Slack apps are set up in the Slack app settings.
+   */
+  const registerChannel = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const channel = await findOwnChannel(auth.user, req, 2);
+      if (!channel) return Response.json({ error: "Chat channel not found" }, { status: 404 });
+
+      const adapter = deps.adapters[channel.platform];
+      const service = deps.getChatChannelService();
+      if (!adapter.register || !service) {
+        return Response.json(
+          { error: `Paste the inbound URL into the ${channel.platform} app settings instead` },
+          { status: 400 }
+        );
+      }
+
+      try {
+        const result = await adapter.register(
+          inboundUrl(deps.frontendUrl, channel.inbound_token),
+          await service.credentials(channel)
+        );
+        return Response.json({ success: true, result });
+      } catch (err) {
+        return Response.json({ error: err instanceof Error ? err.message : String(err) }, { status: 502 });
+      }
+    } catch (err) {
+      console.error("Error registering chat channel:", err);
+      return Response.json({ error: "Failed to register chat channel" }, { status: 500 });
+    }
+  };
+
+  /**
+   * POST /api/chat-inbound/:token
+   * Events from the platform. Authenticated by the platform's signature, not a session.
+   */
+  const receiveInbound = async (req: BunRequest): Promise<Response> => {
+    const service = deps.getChatChannelService();
+    if (!service) return Response.json({ error: "Chat channels are not running" }, { status: 503 });
+
+    try {
+      const token = new URL(req.url).pathname.split("/").pop() ?? "";
+      return await service.receive(token, { headers: req.headers, body: await req.text() });
+    } catch (err) {
+      console.error("Error receiving chat platform event:", err);
+      return Response.json({ error: "Failed to handle event" }, { status: 500 });
+    }
+  };
+
+  return {
+    listChannels,
+    createChannel,
+    updateChannel,
+    deleteChannel,
+    registerChannel,
+    receiveInbound,
+  };
+}
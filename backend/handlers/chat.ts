@@ -1,18 +1,24 @@
 import type { ModelMessage } from "ai";
-import type { User } from "../types/models";
-import type { AgentFactory } from "../services/AgentFactory";
+import type { Agent, User } from "../types/models";
+import type { AgentFactory, AgentInstance } from "../services/AgentFactory";
 import type { ConversationRepository } from "../repositories/ConversationRepository";
 import type { TeamRepository } from "../repositories/TeamRepository";
 import type { WorkflowRepository } from "../repositories/WorkflowRepository";
+import type { NotificationRepository } from "../repositories/NotificationRepository";
+import type { UsageRepository } from "../repositories/UsageRepository";
+import type { ModelProviderRepository } from "../repositories/ModelProviderRepository";
 import { decrypt } from "../utils/encryption";
 import type { BunRequest } from "bun";
-import { DatabaseSession } from "../services/DatabaseSession";
+import { DatabaseSession, describeBranches, findLatestLeaf } from "../services/DatabaseSession";
 import type { ToolStatusUpdate } from "../tools/context";
-import { EmbeddingService } from "../services/EmbeddingService";
+import { createEmbeddingService } from "../services/EmbeddingService";
 import type { ApiKeys } from "../services/ModelResolver";
 import { WorkflowEngine } from "../workflows/WorkflowEngine";
 import { parseWorkflow } from "../workflows/parser";
-import { resolveModel, DEFAULT_MODEL } from "../services/ModelResolver";
+import { resolveModelChain, getFinalModel, DEFAULT_MODEL } from "../services/ModelResolver";
+import { recordUsage } from "../utils/usage";
+import { loadAgentApiKeys } from "../utils/modelProviders";
+import { BudgetExceededError, type BudgetService } from "../services/BudgetService";
 
 function getDomain(email: string): string {
   return email.split("@")[1] || "";
@@ -23,10 +29,16 @@ interface ChatHandlerDependencies {
   conversationRepository: ConversationRepository;
   teamRepository: TeamRepository | null;
   workflowRepository: WorkflowRepository | null;
+  notificationRepository: NotificationRepository | null;
+  usageRepository: UsageRepository | null;
+  budgetService: BudgetService | null;
+  modelProviderRepository: ModelProviderRepository | null;
   authenticate: (
     req: BunRequest
   ) => Promise<{ user: User; session: { id: string; userId: number } } | null>;
   encryptionSecret: string;
+  /** Public URL of the app, used in workflow approve/reject links */
+  frontendUrl: string;
 }
 
 interface SendMessageRequest {
@@ -34,6 +46,24 @@ interface SendMessageRequest {
   conversation_id?: number;
 }
 
+interface ChatCredentials {
+  apiKeys: ApiKeys;
+  googleSearchApiKey?: string;
+  googleSearchEngineId?: string;
+  googleServiceAccountKey?: string;
+}
+
+/** Everything needed to run one streamed agent turn in a conversation */
+interface AgentTurn {
+  auth: { user: User };
+  slug: string;
+  agentConfig: Agent;
+  credentials: ChatCredentials;
+  conversationId: number;
+  session: DatabaseSession;
+  prepareHistory: (session: DatabaseSession) => Promise<void>;
+}
+
 const MAX_HANDOFFS = 5;
 
 type Emitter = (
@@ -45,7 +75,8 @@ type Emitter = (
       | "started"
       | "stopped"
       | "handoff"
-      | "tool_status";
+      | "tool_status"
+      | "error";
   } & Record<string, any>
 ) => void;
 
@@ -71,36 +102,434 @@ function detectHandoff(steps: Array<{ toolResults: Array<{ output: unknown }> }>
   return null;
 }
 
+function hasAnyProviderCreds(keys: ApiKeys): boolean {
+  return Boolean(
+    keys.openai || keys.anthropic || keys.google || keys.ollama_url || Object.keys(keys.custom ?? {}).length > 0
+  );
+}
+
 /**
- * Build API keys object from user data
+ * Decrypt provider and Google credentials for a chat — team settings for
+ * team agents, the user's own keys otherwise
  */
-async function buildApiKeys(user: User, encryptionSecret: string): Promise<ApiKeys> {
-  const keys: ApiKeys = {};
+async function loadChatCredentials(
+  user: User,
+  agentConfig: Agent,
+  deps: Pick<ChatHandlerDependencies, "teamRepository" | "modelProviderRepository" | "encryptionSecret">
+): Promise<ChatCredentials> {
+  const credentials: ChatCredentials = {
+    apiKeys: await loadAgentApiKeys(user, agentConfig, deps, deps.encryptionSecret),
+  };
 
-  if (user.openai_api_key) {
-    keys.openai = await decrypt(user.openai_api_key, encryptionSecret);
-  }
-  if (user.anthropic_api_key) {
-    keys.anthropic = await decrypt(user.anthropic_api_key, encryptionSecret);
-  }
-  if (user.google_ai_api_key) {
-    keys.google = await decrypt(user.google_ai_api_key, encryptionSecret);
-  }
-  if (user.ollama_url) {
-    keys.ollama_url = user.ollama_url;
+  if (agentConfig.pool_type === 'team' && agentConfig.domain && deps.teamRepository) {
+    const teamSettings = await deps.teamRepository.getSettings(agentConfig.domain);
+    if (teamSettings?.google_search_api_key) credentials.googleSearchApiKey = await decrypt(teamSettings.google_search_api_key, deps.encryptionSecret);
+    credentials.googleSearchEngineId = teamSettings?.google_search_engine_id;
+    if (teamSettings?.google_service_account_key) credentials.googleServiceAccountKey = await decrypt(teamSettings.google_service_account_key, deps.encryptionSecret);
+  } else {
+    if (user.google_search_api_key) {
+      credentials.googleSearchApiKey = await decrypt(user.google_search_api_key, deps.encryptionSecret);
+    }
+    credentials.googleSearchEngineId = user.google_search_engine_id;
+    if (user.google_service_account_key) {
+      credentials.googleServiceAccountKey = await decrypt(user.google_service_account_key, deps.encryptionSecret);
+    }
   }
 
-  return keys;
-}
-
-function hasAnyProviderCreds(keys: ApiKeys): boolean {
-  return Boolean(keys.openai || keys.anthropic || keys.google || keys.ollama_url);
+  return credentials;
 }
 
 /**
  * Factory function to create chat handlers
  */
 export function createChatHandlers(deps: ChatHandlerDependencies) {
+  /**
+   * Run the agent against the conversation's active branch and stream the reply
+   * as Server-Sent Events. prepareHistory runs first to add the user message
+   * being answered, or to select the branch point when regenerating.
+   */
+  const streamAgentTurn = (turn: AgentTurn): Response => {
+    const { auth, slug, agentConfig, conversationId, session, prepareHistory } = turn;
+    const { apiKeys, googleSearchApiKey, googleSearchEngineId, googleServiceAccountKey } = turn.credentials;
+
+    // Create Server-Sent Events stream
+    const stream = new ReadableStream({
+      async start(controller) {
+        const encoder = new TextEncoder();
+
+        const emit: Emitter = (data) => {
+          const chunk = JSON.stringify(data);
+          try {
+            controller.enqueue(encoder.encode(`data: ${chunk}\n\n`));
+          } catch (err) {
+            console.error(`[chat] Failed to enqueue:`, err);
+          }
+        };
+
+        const updateStatus: ToolStatusUpdate = (msg) => {
+          emit({ type: "tool_status", content: msg });
+        };
+
+        try {
+          // Create embedding service (the user's embedding model, independent of the chat model)
+          const embeddingService = createEmbeddingService(auth.user.embedding_model, apiKeys);
+
+          // Check for active workflow or start default workflow
+          const domain = getDomain(auth.user.email);
+          let workflowContext: any = undefined;
+          let workflowEngine: WorkflowEngine | null = null;
+
+          // The step the conversation is on, in the innermost running (sub-)workflow
+          const loadWorkflowContext = async (): Promise<any> => {
+            const active = await workflowEngine?.getActiveWorkflow(conversationId!);
+            const currentStep = active?.definition.steps[active.execution.current_step_index];
+            if (!active || !currentStep) return undefined;
+            return {
+              engine: workflowEngine,
+              definition: active.definition,
+              executionId: active.execution.id,
+              currentStep,
+              currentStepIndex: active.execution.current_step_index,
+              facts: active.state.facts,
+            };
+          };
+
+          if (deps.workflowRepository) {
+            workflowEngine = new WorkflowEngine({
+              workflowRepository: deps.workflowRepository,
+              notificationRepository: deps.notificationRepository,
+              approvalLinks: { baseUrl: deps.frontendUrl, secret: deps.encryptionSecret },
+            });
+
+            // Check for active workflow execution in this conversation
+            workflowContext = await loadWorkflowContext();
+
+            if (!workflowContext) {
+              // Check if the agent has a default workflow
+              const defaultWorkflow = await deps.workflowRepository.getDefaultWorkflow(agentConfig.id);
+              if (defaultWorkflow) {
+                const { definition } = await workflowEngine.startWorkflow(
+                  conversationId!,
+                  defaultWorkflow.id
+                );
+                const firstStep = definition.steps[0]!;
+                // A first step that runs a sub-workflow leaves the conversation in the sub-workflow
+                workflowContext = await loadWorkflowContext();
+
+                emit({
+                  type: "tool_status",
+                  content: `Starting workflow: ${definition.name} — Step 1: ${firstStep.name}`,
+                });
+              }
+            }
+          }
+
+          // Refuse to start once a hard budget limit is reached
+          let budgetGuard = deps.budgetService
+            ? await deps.budgetService.enforce({ user: auth.user, agent: agentConfig })
+            : null;
+
+          // Create agent instance
+          const createWorkflowAgent = () =>
+            deps.agentFactory.createAgent(
+              auth.user.id,
+              slug,
+              updateStatus,
+              apiKeys,
+              {
+                conversationId,
+                embeddingService,
+                googleSearchApiKey,
+                googleSearchEngineId,
+                googleServiceAccountKey,
+                domain,
+                workflowContext,
+                stopWhen: budgetGuard?.stopWhen,
+              }
+            );
+          const agentStartTime = Date.now();
+          let agentInstance = await createWorkflowAgent();
+          console.log(`[chat] Agent created in ${Date.now() - agentStartTime}ms`);
+
+          // Run workflow action steps (direct tool calls) from the current step and move
+          // workflowContext to wherever the workflow now rests. Returns true if it moved.
+          const runWorkflowActions = async (instance: AgentInstance): Promise<boolean> => {
+            if (!workflowContext || !workflowEngine) return false;
+            const actionResult = await workflowEngine.runActionSteps(
+              workflowContext.executionId,
+              workflowContext.currentStepIndex,
+              workflowContext.definition,
+              instance.tools,
+              instance.toolContext
+            );
+            if (!actionResult) return false;
+
+            if (actionResult.systemMessage) {
+              emit({ type: "tool_status", content: actionResult.systemMessage });
+            }
+            if (actionResult.completed || actionResult.failed) {
+              workflowContext = undefined;
+              return true;
+            }
+            if (actionResult.advanced && actionResult.nextStep) {
+              workflowContext = await loadWorkflowContext();
+              return true;
+            }
+            return false;
+          };
+
+          // An action step waiting at the start of the turn runs before the agent replies
+          if (workflowContext?.currentStep.type === "action") {
+            try {
+              if (await runWorkflowActions(agentInstance)) {
+                agentInstance = await createWorkflowAgent();
+              }
+            } catch (err) {
+              console.error("Workflow action error:", err);
+            }
+          }
+
+          // Send conversation_id and agent info
+          const initData = JSON.stringify({
+            type: "init",
+            conversation_id: conversationId,
+          });
+          controller.enqueue(encoder.encode(`data: ${initData}\n\n`));
+
+          // Record the user message (or select the branch to answer) and load history
+          await prepareHistory(session);
+          let messages = await session.getMessages();
+
+          // Handoff loop
+          let handoffCount = 0;
+
+          while (true) {
+            emit({ type: "started" });
+            emit({
+              type: "agent_update",
+              agent: { name: agentInstance.name },
+            });
+
+            const streamStartTime = Date.now();
+            const result = await agentInstance.agent.stream(
+              { messages },
+              { timeout: 120_000 } // 120 second timeout
+            );
+            console.log(`[chat] agent.stream() took ${Date.now() - streamStartTime}ms`);
+
+            // Stream events to client
+            console.log(`[chat] Starting fullStream iteration...`);
+            let partCount = 0;
+            try {
+              for await (const part of result.fullStream) {
+                partCount++;
+                if (partCount === 1 || partCount % 20 === 0) {
+                  console.log(`[chat] Stream part ${partCount}:`, part.type);
+                }
+                switch (part.type) {
+                  case "text-delta":
+                    emit({ type: "text", content: (part as any).text ?? (part as any).delta ?? "" });
+                    break;
+
+                  case "tool-call":
+                    emit({
+                      type: "tool_call",
+                      name: part.toolName,
+                      agent: agentInstance.name,
+                      status: "in_progress",
+                    });
+                    break;
+
+                  case "tool-result":
+                    // Check if it's a handoff result
+                    try {
+                      const output = (part as any).output;
+                      const parsed = typeof output === "string"
+                        ? JSON.parse(output)
+                        : output;
+                      if (parsed?.__handoff) {
+                        emit({
+                          type: "handoff",
+                          name: parsed.name,
+                        });
+                      }
+                    } catch {
+                      // not a handoff
+                    }
+                    break;
+
+                  case "error": {
+                    const streamErr = (part as any).error;
+                    console.error("Stream part error:", streamErr);
+                    const errorMessage =
+                      streamErr instanceof Error
+                        ? streamErr.message
+                        : typeof streamErr === "string"
+                          ? streamErr
+                          : streamErr?.message ?? JSON.stringify(streamErr);
+                    emit({ type: "error", error: errorMessage });
+                    break;
+                  }
+                }
+              }
+            } catch (streamErr) {
+              console.error(`[chat] Error during fullStream iteration:`, streamErr);
+              throw streamErr;
+            }
+
+            console.log(`[chat] fullStream complete, ${partCount} parts received`);
+            emit({ type: "stopped" });
+
+            // Get response messages for saving and handoff detection
+            const response = await result.response;
+            const responseMessages = response.messages as ModelMessage[];
+            const steps = await result.steps;
+
+            // Save all response messages to the database, noting which model answered
+            await session.saveResponseMessages(responseMessages, getFinalModel(steps, agentInstance.model));
+
+            // Check workflow advancement after each turn
+            if (workflowContext && workflowEngine) {
+              try {
+                // Build a verifier model (use the same model as the agent, or a cheaper one)
+                const verifierModel = resolveModelChain(
+                  [agentConfig.model || DEFAULT_MODEL, ...(agentConfig.fallback_models ?? [])],
+                  apiKeys
+                );
+
+                const turnResult = await workflowEngine.tryAdvance(
+                  workflowContext.executionId,
+                  workflowContext.currentStepIndex,
+                  workflowContext.definition,
+                  verifierModel
+                );
+
+                if (turnResult.advanced && turnResult.nextStep) {
+                  emit({
+                    type: "tool_status",
+                    content: turnResult.awaitingApproval
+                      ? `Workflow step complete! Waiting for approval: ${turnResult.nextStep.name}`
+                      : `Workflow step complete! Moving to: ${turnResult.nextStep.name}`,
+                  });
+
+                  // Update workflow context for next iteration; the step may have
+                  // entered a sub-workflow or finished one and returned to its parent
+                  workflowContext = await loadWorkflowContext();
+
+                  if (workflowContext?.currentStep.type === "action") {
+                    await runWorkflowActions(agentInstance);
+                  }
+                } else if (turnResult.completed) {
+                  emit({
+                    type: "tool_status",
+                    content: `Workflow "${workflowContext.definition.name}" completed!`,
+                  });
+                  workflowContext = undefined;
+                } else if (turnResult.failed) {
+                  emit({
+                    type: "tool_status",
+                    content: turnResult.systemMessage || "Workflow failed.",
+                  });
+                  workflowContext = undefined;
+                }
+                // On retry (not advanced), the agent will continue on the same step next turn
+              } catch (err) {
+                console.error("Workflow advancement error:", err);
+              }
+            }
+
+            // Record token usage and check for handoffs in the completed steps
+            await recordUsage(
+              deps.usageRepository,
+              {
+                user_id: auth.user.id,
+                agent_id: agentInstance.id,
+                conversation_id: conversationId,
+                source: "manual",
+                model: agentInstance.model,
+              },
+              steps
+            );
+
+            if (budgetGuard?.exceeded) {
+              emit({ type: "error", error: budgetGuard.exceeded });
+              break;
+            }
+
+            const handoffSlug = detectHandoff(steps as any);
+
+            if (handoffSlug && handoffCount < MAX_HANDOFFS) {
+              handoffCount++;
+              if (deps.budgetService) {
+                const handoffConfig = await deps.agentFactory.getAgentConfig(auth.user.id, handoffSlug, domain);
+                budgetGuard = await deps.budgetService.enforce({ user: auth.user, agent: handoffConfig });
+              }
+              // Create new agent instance for handoff target
+              agentInstance = await deps.agentFactory.createAgent(
+                auth.user.id,
+                handoffSlug,
+                updateStatus,
+                apiKeys,
+                {
+                  conversationId,
+                  embeddingService,
+                  googleSearchApiKey,
+                  googleSearchEngineId,
+                  googleServiceAccountKey,
+                  domain,
+                  stopWhen: budgetGuard?.stopWhen,
+                }
+              );
+
+              // Reload full message history for the new agent
+              messages = await session.getMessages();
+              continue;
+            }
+
+            break;
+          }
+
+          // Send done event
+          const doneData = JSON.stringify({ type: "done" });
+          try {
+            controller.enqueue(encoder.encode(`data: ${doneData}\n\n`));
+          } catch (err) {
+            console.error(`[chat] Failed to send done:`, err);
+          }
+          try {
+            controller.close();
+          } catch (err) {
+            console.error(`[chat] Failed to close:`, err);
+          }
+        } catch (error) {
+          console.error("Streaming error after", partCount, "parts:", error);
+          const errorData = JSON.stringify({
+            type: "error",
+            error: error instanceof Error ? error.message : "Stream failed",
+          });
+          try {
+            controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
+          } catch {
+            // Controller already closed, just log
+          }
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  };
+
   /**
    * POST /api/chat/:slug/stream
    * Send a message to an agent with streaming response
@@ -139,33 +568,9 @@ export function createChatHandlers(deps: ChatHandlerDependencies) {
       const agentConfig = await deps.agentFactory.getAgentConfig(auth.user.id, slug, getDomain(auth.user.email));
 
       // Build API keys — use team settings for team agents, personal otherwise
-      let apiKeys: ApiKeys;
-      let googleSearchApiKey: string | undefined;
-      let googleSearchEngineId: string | undefined;
-      let googleServiceAccountKey: string | undefined;
-
-      if (agentConfig.pool_type === 'team' && agentConfig.domain && deps.teamRepository) {
-        const teamSettings = await deps.teamRepository.getSettings(agentConfig.domain);
-        apiKeys = {};
-        if (teamSettings?.openai_api_key) apiKeys.openai = await decrypt(teamSettings.openai_api_key, deps.encryptionSecret);
-        if (teamSettings?.anthropic_api_key) apiKeys.anthropic = await decrypt(teamSettings.anthropic_api_key, deps.encryptionSecret);
-        if (teamSettings?.google_ai_api_key) apiKeys.google = await decrypt(teamSettings.google_ai_api_key, deps.encryptionSecret);
-        if (teamSettings?.google_search_api_key) googleSearchApiKey = await decrypt(teamSettings.google_search_api_key, deps.encryptionSecret);
-        googleSearchEngineId = teamSettings?.google_search_engine_id;
-        if (teamSettings?.google_service_account_key) googleServiceAccountKey = await decrypt(teamSettings.google_service_account_key, deps.encryptionSecret);
-        if (teamSettings?.ollama_url) apiKeys.ollama_url = teamSettings.ollama_url;
-      } else {
-        apiKeys = await buildApiKeys(auth.user, deps.encryptionSecret);
-        if (auth.user.google_search_api_key) {
-          googleSearchApiKey = await decrypt(auth.user.google_search_api_key, deps.encryptionSecret);
-        }
-        googleSearchEngineId = auth.user.google_search_engine_id;
-        if (auth.user.google_service_account_key) {
-          googleServiceAccountKey = await decrypt(auth.user.google_service_account_key, deps.encryptionSecret);
-        }
-      }
+      const credentials = await loadChatCredentials(auth.user, agentConfig, deps);
 
-      if (!hasAnyProviderCreds(apiKeys)) {
+      if (!hasAnyProviderCreds(credentials.apiKeys)) {
         return new Response(
           JSON.stringify({
             error: "No API keys configured. Please add at least one API key in your profile.",
@@ -197,324 +602,14 @@ export function createChatHandlers(deps: ChatHandlerDependencies) {
       // Create database session
       const session = new DatabaseSession(conversationId, deps.conversationRepository);
 
-      // Create Server-Sent Events stream
-      const stream = new ReadableStream({
-        async start(controller) {
-          const encoder = new TextEncoder();
-
-          const emit: Emitter = (data) => {
-            const chunk = JSON.stringify(data);
-            try {
-              controller.enqueue(encoder.encode(`data: ${chunk}\n\n`));
-            } catch (err) {
-              console.error(`[chat] Failed to enqueue:`, err);
-            }
-          };
-
-          const updateStatus: ToolStatusUpdate = (msg) => {
-            emit({ type: "tool_status", content: msg });
-          };
-
-          try {
-            // Create embedding service (uses OpenAI for embeddings regardless of chat model)
-            const embeddingService = apiKeys.openai
-              ? new EmbeddingService(apiKeys.openai)
-              : null;
-
-            // Check for active workflow or start default workflow
-            const domain = getDomain(auth.user.email);
-            let workflowContext: any = undefined;
-            let workflowEngine: WorkflowEngine | null = null;
-
-            if (deps.workflowRepository) {
-              workflowEngine = new WorkflowEngine({
-                workflowRepository: deps.workflowRepository,
-              });
-
-              // Check for active workflow execution in this conversation
-              const activeWorkflow = await workflowEngine.getActiveWorkflow(conversationId!);
-
-              if (activeWorkflow) {
-                const { execution, definition, state } = activeWorkflow;
-                const currentStep = definition.steps[execution.current_step_index];
-                if (currentStep) {
-                  workflowContext = {
-                    engine: workflowEngine,
-                    definition,
-                    executionId: execution.id,
-                    currentStep,
-                    currentStepIndex: execution.current_step_index,
-                    facts: state.facts,
-                  };
-                }
-              } else {
-                // Check if the agent has a default workflow
-                const defaultWorkflow = await deps.workflowRepository.getDefaultWorkflow(agentConfig.id);
-                if (defaultWorkflow) {
-                  const { execution, definition } = await workflowEngine.startWorkflow(
-                    conversationId!,
-                    defaultWorkflow.id
-                  );
-                  const firstStep = definition.steps[0]!;
-                  workflowContext = {
-                    engine: workflowEngine,
-                    definition,
-                    executionId: execution.id,
-                    currentStep: firstStep,
-                    currentStepIndex: 0,
-                    facts: {},
-                  };
-
-                  emit({
-                    type: "tool_status",
-                    content: `Starting workflow: ${definition.name} — Step 1: ${firstStep.name}`,
-                  });
-                }
-              }
-            }
-
-            // Create agent instance
-            const agentStartTime = Date.now();
-            let agentInstance = await deps.agentFactory.createAgent(
-              auth.user.id,
-              slug,
-              updateStatus,
-              apiKeys,
-              {
-                conversationId,
-                generateEmbedding: embeddingService
-                  ? (text) => embeddingService.generate(text)
-                  : undefined,
-                googleSearchApiKey,
-                googleSearchEngineId,
-                googleServiceAccountKey,
-                domain,
-                workflowContext,
-              }
-            );
-            console.log(`[chat] Agent created in ${Date.now() - agentStartTime}ms`);
-
-            // Send conversation_id and agent info
-            const initData = JSON.stringify({
-              type: "init",
-              conversation_id: conversationId,
-            });
-            controller.enqueue(encoder.encode(`data: ${initData}\n\n`));
-
-            // Save user message and load history
-            await session.addUserMessage(message);
-            let messages = await session.getMessages();
-
-            // Handoff loop
-            let handoffCount = 0;
-
-            while (true) {
-              emit({ type: "started" });
-              emit({
-                type: "agent_update",
-                agent: { name: agentInstance.name },
-              });
-
-              const streamStartTime = Date.now();
-              const result = await agentInstance.agent.stream(
-                { messages },
-                { timeout: 120_000 } // 120 second timeout
-              );
-              console.log(`[chat] agent.stream() took ${Date.now() - streamStartTime}ms`);
-
-              // Stream events to client
-              console.log(`[chat] Starting fullStream iteration...`);
-              let partCount = 0;
-              try {
-                for await (const part of result.fullStream) {
-                  partCount++;
-                  if (partCount === 1 || partCount % 20 === 0) {
-                    console.log(`[chat] Stream part ${partCount}:`, part.type);
-                  }
-                  switch (part.type) {
-                    case "text-delta":
-                      emit({ type: "text", content: (part as any).text ?? (part as any).delta ?? "" });
-                      break;
-
-                    case "tool-call":
-                      emit({
-                        type: "tool_call",
-                        name: part.toolName,
-                        agent: agentInstance.name,
-                        status: "in_progress",
-                      });
-                      break;
-
-                    case "tool-result":
-                      // Check if it's a handoff result
-                      try {
-                        const output = (part as any).output;
-                        const parsed = typeof output === "string"
-                          ? JSON.parse(output)
-                          : output;
-                        if (parsed?.__handoff) {
-                          emit({
-                            type: "handoff",
-                            name: parsed.name,
-                          });
-                        }
-                      } catch {
-                        // not a handoff
-                      }
-                      break;
-
-                    case "error": {
-                      const streamErr = (part as any).error;
-                      console.error("Stream part error:", streamErr);
-                      const errorMessage =
-                        streamErr instanceof Error
-                          ? streamErr.message
-                          : typeof streamErr === "string"
-                            ? streamErr
-                            : streamErr?.message ?? JSON.stringify(streamErr);
-                      emit({ type: "error", error: errorMessage });
-                      break;
-                    }
-                  }
-                }
-              } catch (streamErr) {
-                console.error(`[chat] Error during fullStream iteration:`, streamErr);
-                throw streamErr;
-              }
-
-              console.log(`[chat] fullStream complete, ${partCount} parts received`);
-              emit({ type: "stopped" });
-
-              // Get response messages for saving and handoff detection
-              const response = await result.response;
-              const responseMessages = response.messages as ModelMessage[];
-
-              // Save all response messages to the database
-              await session.saveResponseMessages(responseMessages);
-
-              // Check workflow advancement after each turn
-              if (workflowContext && workflowEngine) {
-                try {
-                  // Build a verifier model (use the same model as the agent, or a cheaper one)
-                  const verifierModel = resolveModel(
-                    agentConfig.model || DEFAULT_MODEL,
-                    apiKeys
-                  );
-
-                  const turnResult = await workflowEngine.tryAdvance(
-                    workflowContext.executionId,
-                    workflowContext.currentStepIndex,
-                    workflowContext.definition,
-                    verifierModel
-                  );
-
-                  if (turnResult.advanced && turnResult.nextStep) {
-                    emit({
-                      type: "tool_status",
-                      content: `Workflow step complete! Moving to: ${turnResult.nextStep.name}`,
-                    });
-
-                    // Update workflow context for next iteration
-                    const newFacts = await workflowEngine.getActiveWorkflow(conversationId!);
-                    if (newFacts) {
-                      workflowContext = {
-                        engine: workflowEngine,
-                        definition: workflowContext.definition,
-                        executionId: workflowContext.executionId,
-                        currentStep: turnResult.nextStep,
-                        currentStepIndex: workflowContext.currentStepIndex + 1,
-                        facts: newFacts.state.facts,
-                      };
-                    }
-                  } else if (turnResult.completed) {
-                    emit({
-                      type: "tool_status",
-                      content: `Workflow "${workflowContext.definition.name}" completed!`,
-                    });
-                    workflowContext = undefined;
-                  } else if (turnResult.failed) {
-                    emit({
-                      type: "tool_status",
-                      content: turnResult.systemMessage || "Workflow failed.",
-                    });
-                    workflowContext = undefined;
-                  }
-                  // On retry (not advanced), the agent will continue on the same step next turn
-                } catch (err) {
-                  console.error("Workflow advancement error:", err);
-                }
-              }
-
-              // Check for handoffs in the completed steps
-              const steps = await result.steps;
-              const handoffSlug = detectHandoff(steps as any);
-
-              if (handoffSlug && handoffCount < MAX_HANDOFFS) {
-                handoffCount++;
-                // Create new agent instance for handoff target
-                agentInstance = await deps.agentFactory.createAgent(
-                  auth.user.id,
-                  handoffSlug,
-                  updateStatus,
-                  apiKeys,
-                  {
-                    conversationId,
-                    generateEmbedding: embeddingService
-                      ? (text) => embeddingService.generate(text)
-                      : undefined,
-                    googleSearchApiKey,
-                    googleSearchEngineId,
-                    googleServiceAccountKey,
-                    domain,
-                  }
-                );
-
-                // Reload full message history for the new agent
-                messages = await session.getMessages();
-                continue;
-              }
-
-              break;
-            }
-
-            // Send done event
-            const doneData = JSON.stringify({ type: "done" });
-            try {
-              controller.enqueue(encoder.encode(`data: ${doneData}\n\n`));
-            } catch (err) {
-              console.error(`[chat] Failed to send done:`, err);
-            }
-            try {
-              controller.close();
-            } catch (err) {
-              console.error(`[chat] Failed to close:`, err);
-            }
-          } catch (error) {
-            console.error("Streaming error after", partCount, "parts:", error);
-            const errorData = JSON.stringify({
-              type: "error",
-              error: error instanceof Error ? error.message : "Stream failed",
-            });
-            try {
-              controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
-            } catch {
-              // Controller already closed, just log
-            }
-            try {
-              controller.close();
-            } catch {
-              // Already closed
-            }
-          }
-        },
-      });
-
-      return new Response(stream, {
-        headers: {
-          "Content-Type": "text/event-stream",
-          "Cache-Control": "no-cache",
-          Connection: "keep-alive",
-        },
+      return streamAgentTurn({
+        auth,
+        slug,
+        agentConfig,
+        credentials,
+        conversationId,
+        session,
+        prepareHistory: (s) => s.addUserMessage(message),
       });
     } catch (error) {
       console.error("Chat stream error:", error);
@@ -571,31 +666,8 @@ export function createChatHandlers(deps: ChatHandlerDependencies) {
       const agentConfig = await deps.agentFactory.getAgentConfig(auth.user.id, slug, getDomain(auth.user.email));
 
       // Build API keys — use team settings for team agents, personal otherwise
-      let apiKeys: ApiKeys;
-      let googleSearchApiKey: string | undefined;
-      let googleSearchEngineId: string | undefined;
-      let googleServiceAccountKey: string | undefined;
-
-      if (agentConfig.pool_type === 'team' && agentConfig.domain && deps.teamRepository) {
-        const teamSettings = await deps.teamRepository.getSettings(agentConfig.domain);
-        apiKeys = {};
-        if (teamSettings?.openai_api_key) apiKeys.openai = await decrypt(teamSettings.openai_api_key, deps.encryptionSecret);
-        if (teamSettings?.anthropic_api_key) apiKeys.anthropic = await decrypt(teamSettings.anthropic_api_key, deps.encryptionSecret);
-        if (teamSettings?.google_ai_api_key) apiKeys.google = await decrypt(teamSettings.google_ai_api_key, deps.encryptionSecret);
-        if (teamSettings?.google_search_api_key) googleSearchApiKey = await decrypt(teamSettings.google_search_api_key, deps.encryptionSecret);
-        googleSearchEngineId = teamSettings?.google_search_engine_id;
-        if (teamSettings?.google_service_account_key) googleServiceAccountKey = await decrypt(teamSettings.google_service_account_key, deps.encryptionSecret);
-        if (teamSettings?.ollama_url) apiKeys.ollama_url = teamSettings.ollama_url;
-      } else {
-        apiKeys = await buildApiKeys(auth.user, deps.encryptionSecret);
-        if (auth.user.google_search_api_key) {
-          googleSearchApiKey = await decrypt(auth.user.google_search_api_key, deps.encryptionSecret);
-        }
-        googleSearchEngineId = auth.user.google_search_engine_id;
-        if (auth.user.google_service_account_key) {
-          googleServiceAccountKey = await decrypt(auth.user.google_service_account_key, deps.encryptionSecret);
-        }
-      }
+      const credentials = await loadChatCredentials(auth.user, agentConfig, deps);
+      const { apiKeys, googleSearchApiKey, googleSearchEngineId, googleServiceAccountKey } = credentials;
 
       if (!hasAnyProviderCreds(apiKeys)) {
         return new Response(
@@ -606,6 +678,11 @@ export function createChatHandlers(deps: ChatHandlerDependencies) {
         );
       }
 
+      // Refuse to start once a hard budget limit is reached
+      const budgetGuard = deps.budgetService
+        ? await deps.budgetService.enforce({ user: auth.user, agent: agentConfig })
+        : null;
+
       // Get or create conversation
       let conversationId = conversation_id;
       if (!conversationId) {
@@ -630,7 +707,7 @@ export function createChatHandlers(deps: ChatHandlerDependencies) {
       const session = new DatabaseSession(conversationId, deps.conversationRepository);
 
       // Create embedding service
-      const embeddingService = apiKeys.openai ? new EmbeddingService(apiKeys.openai) : null;
+      const embeddingService = createEmbeddingService(auth.user.embedding_model, apiKeys);
 
       // Create agent instance
       const agentInstance = await deps.agentFactory.createAgent(
@@ -640,13 +717,12 @@ export function createChatHandlers(deps: ChatHandlerDependencies) {
         apiKeys,
         {
           conversationId,
-          generateEmbedding: embeddingService
-            ? (text) => embeddingService.generate(text)
-            : undefined,
+          embeddingService,
           googleSearchApiKey,
           googleSearchEngineId,
           googleServiceAccountKey,
           domain: getDomain(auth.user.email),
+          stopWhen: budgetGuard?.stopWhen,
         }
       );
 
@@ -659,16 +735,44 @@ export function createChatHandlers(deps: ChatHandlerDependencies) {
         messages,
       });
 
+      await recordUsage(
+        deps.usageRepository,
+        {
+          user_id: auth.user.id,
+          agent_id: agentInstance.id,
+          conversation_id: conversationId,
+          source: "manual",
+          model: agentInstance.model,
+        },
+        result.steps
+      );
+
+      const answeredModel = getFinalModel(result.steps, agentInstance.model);
+
+      // Stopped mid-run by a budget limit: keep what the agent produced and report the limit
+      if (budgetGuard?.exceeded) {
+        await session.saveResponseMessages(result.response.messages as ModelMessage[], answeredModel);
+        return new Response(
+          JSON.stringify({
+            conversation_id: conversationId,
+            message: result.text,
+            error: budgetGuard.exceeded,
+          }),
+          { status: 402, headers: { "Content-Type": "application/json" } }
+        );
+      }
+
       if (!result.text) {
         throw new Error("Agent did not return any output");
       }
 
       // Save response messages
-      await session.saveResponseMessages(result.response.messages as ModelMessage[]);
+      await session.saveResponseMessages(result.response.messages as ModelMessage[], answeredModel);
 
       return Response.json({
         conversation_id: conversationId,
         message: result.text,
+        model: answeredModel,
       });
     } catch (error) {
       console.error("Chat error:", error);
@@ -680,7 +784,7 @@ export function createChatHandlers(deps: ChatHandlerDependencies) {
               : "Failed to process message",
         }),
         {
-          status: 500,
+          status: error instanceof BudgetExceededError ? 402 : 500,
           headers: { "Content-Type": "application/json" },
         }
       );
@@ -733,9 +837,213 @@ export function createChatHandlers(deps: ChatHandlerDependencies) {
     }
   };
 
+  /**
+   * The active branch of a conversation, with sibling info on branch points
+   */
+  const loadActiveBranch = async (conversationId: number) => {
+    const [allMessages, path] = await Promise.all([
+      deps.conversationRepository.listMessages(conversationId),
+      deps.conversationRepository.listActivePath(conversationId),
+    ]);
+    const branches = describeBranches(allMessages, path);
+    return path.map((m) => ({ ...m, branch: branches.get(m.id) ?? null }));
+  };
+
+  /**
+   * Authenticate and load the conversation for /api/chat/:slug/conversation/:id/* routes.
+   * Returns an error Response when the request cannot proceed.
+   */
+  const loadConversationRequest = async (req: BunRequest) => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const pathParts = new URL(req.url).pathname.split("/");
+    const slug = pathParts[3]; // /api/chat/:slug/conversation/:id/<action>
+    const conversationId = parseInt(pathParts[5] ?? "");
+    if (!slug || isNaN(conversationId)) {
+      return new Response(
+        JSON.stringify({ error: "Invalid conversation ID" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const conversation = await deps.conversationRepository.findById(conversationId);
+    if (!conversation || conversation.user_id !== auth.user.id) {
+      return new Response(
+        JSON.stringify({ error: "Conversation not found" }),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const agentConfig = await deps.agentFactory.getAgentConfig(auth.user.id, slug, getDomain(auth.user.email));
+    if (conversation.agent_id !== agentConfig.id) {
+      return new Response(
+        JSON.stringify({ error: "Conversation does not belong to this agent" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    return { auth, slug, conversation, agentConfig };
+  };
+
+  /**
+   * Start a streamed turn for a conversation request, checking provider credentials first
+   */
+  const startBranchTurn = async (
+    ctx: Exclude<Awaited<ReturnType<typeof loadConversationRequest>>, Response>,
+    prepareHistory: (session: DatabaseSession) => Promise<void>
+  ): Promise<Response> => {
+    const credentials = await loadChatCredentials(ctx.auth.user, ctx.agentConfig, deps);
+    if (!hasAnyProviderCreds(credentials.apiKeys)) {
+      return new Response(
+        JSON.stringify({
+          error: "No API keys configured. Please add at least one API key in your profile.",
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    return streamAgentTurn({
+      auth: ctx.auth,
+      slug: ctx.slug,
+      agentConfig: ctx.agentConfig,
+      credentials,
+      conversationId: ctx.conversation.id,
+      session: new DatabaseSession(ctx.conversation.id, deps.conversationRepository),
+      prepareHistory,
+    });
+  };
+
+  /**
+   * POST /api/chat/:slug/conversation/:id/edit
+   * Edit an earlier user message. The edited message becomes a new branch
+   * alongside the original and the agent's reply is streamed.
+   */
+  const editMessage = async (req: BunRequest): Promise<Response> => {
+    try {
+      const ctx = await loadConversationRequest(req);
+      if (ctx instanceof Response) return ctx;
+
+      const body: { message_id?: number; message?: string } = await req.json();
+      if (!body.message || !body.message.trim()) {
+        return new Response(JSON.stringify({ error: "Message is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const original = body.message_id ? await deps.conversationRepository.findMessageById(body.message_id) : null;
+      if (!original || original.conversation_id !== ctx.conversation.id) {
+        return new Response(JSON.stringify({ error: "Message not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      if (original.role !== "user") {
+        return new Response(JSON.stringify({ error: "Only user messages can be edited" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const content = body.message.trim();
+      return await startBranchTurn(ctx, (session) => session.addUserMessage(content, original.parent_id));
+    } catch (error) {
+      console.error("Edit message error:", error);
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : "Failed to edit message" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  };
+
+  /**
+   * POST /api/chat/:slug/conversation/:id/regenerate
+   * Generate a new reply to the user message preceding message_id (or to
+   * message_id itself if it is a user message), keeping the old reply as a branch.
+   */
+  const regenerate = async (req: BunRequest): Promise<Response> => {
+    try {
+      const ctx = await loadConversationRequest(req);
+      if (ctx instanceof Response) return ctx;
+
+      const body: { message_id?: number } = await req.json();
+      const messages = await deps.conversationRepository.listMessages(ctx.conversation.id);
+      const byId = new Map(messages.map((m) => [m.id, m]));
+
+      let target = body.message_id ? byId.get(body.message_id) : undefined;
+      if (!target) {
+        return new Response(JSON.stringify({ error: "Message not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      // Walk up to the user message this reply answers
+      while (target && target.role !== "user") {
+        target = target.parent_id !== null ? byId.get(target.parent_id) : undefined;
+      }
+      if (!target) {
+        return new Response(JSON.stringify({ error: "No user message to regenerate a reply for" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const userMessageId = target.id;
+      return await startBranchTurn(ctx, async (session) => session.branchFrom(userMessageId));
+    } catch (error) {
+      console.error("Regenerate error:", error);
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : "Failed to regenerate reply" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  };
+
+  /**
+   * POST /api/chat/:slug/conversation/:id/branch
+   * Switch the active branch to the one containing message_id, following
+   * the most recent continuation of that branch
+   */
+  const switchBranch = async (req: BunRequest): Promise<Response> => {
+    try {
+      const ctx = await loadConversationRequest(req);
+      if (ctx instanceof Response) return ctx;
+
+      const body: { message_id?: number } = await req.json();
+      const messages = await deps.conversationRepository.listMessages(ctx.conversation.id);
+      if (!body.message_id || !messages.some((m) => m.id === body.message_id)) {
+        return new Response(JSON.stringify({ error: "Message not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const leafId = findLatestLeaf(messages, body.message_id);
+      await deps.conversationRepository.setActiveLeaf(ctx.conversation.id, leafId);
+
+      return Response.json({
+        conversation: { ...ctx.conversation, active_leaf_id: leafId },
+        messages: await loadActiveBranch(ctx.conversation.id),
+      });
+    } catch (error) {
+      console.error("Switch branch error:", error);
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : "Failed to switch branch" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  };
+
   /**
    * GET /api/chat/:slug/conversation/:id
-   * Get messages for a specific conversation
+   * Get the active branch of a specific conversation
    */
   const getConversation = async (req: BunRequest): Promise<Response> => {
     const auth = await deps.authenticate(req);
@@ -765,7 +1073,7 @@ export function createChatHandlers(deps: ChatHandlerDependencies) {
         );
       }
 
-      const messages = await deps.conversationRepository.listMessages(conversationId);
+      const messages = await loadActiveBranch(conversationId);
 
       return Response.json({
         conversation,
@@ -793,5 +1101,8 @@ export function createChatHandlers(deps: ChatHandlerDependencies) {
     sendMessageStream,
     getHistory,
     getConversation,
+    editMessage,
+    regenerate,
+    switchBranch,
   };
 }
@@ -0,0 +1,116 @@
+import type { BunRequest } from "bun";
+import type { UserRepository } from "../repositories/UserRepository";
+import type { MemoryRepository } from "../repositories/MemoryRepository";
+import type { ModelProviderRepository } from "../repositories/ModelProviderRepository";
+import type { User } from "../types/models";
+import type { ReembedService } from "../services/ReembedService";
+import { createEmbeddingService, DEFAULT_EMBEDDING_MODELS } from "../services/EmbeddingService";
+import { loadUserApiKeys } from "../utils/modelProviders";
+
+interface EmbeddingHandlerDependencies {
+  userRepository: UserRepository;
+  memoryRepository: MemoryRepository;
+  modelProviderRepository: ModelProviderRepository | null;
+  reembedService: ReembedService;
+  authenticate: (req: BunRequest) => Promise<{ user: User; session: { id: string; userId: number } } | null>;
+  encryptionSecret: string;
+}
+
+/**
+ * Factory function to create embedding settings handlers
+ */
+export function createEmbeddingHandlers(deps: EmbeddingHandlerDependencies) {
+  const getService = async (user: User) => {
+    const apiKeys = await loadUserApiKeys(user, deps.modelProviderRepository, deps.encryptionSecret);
+    return createEmbeddingService(user.embedding_model, apiKeys);
+  };
+
+  /**
+   * GET /api/user/embeddings
+   * The preferred and active embedding model, memories still to re-embed and the last job
+   */
+  const getSettings = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const service = await getService(auth.user);
+      const pending = service
+        ? await deps.memoryRepository.countNeedingEmbedding(auth.user.id, service.model)
+        : 0;
+
+      return Response.json({
+        embedding_model: auth.user.embedding_model ?? null,
+        active_model: service?.model ?? null,
+        defaults: DEFAULT_EMBEDDING_MODELS,
+        pending,
+        job: deps.reembedService.getStatus(auth.user.id),
+      });
+    } catch (err) {
+      console.error("Error loading embedding settings:", err);
+      return Response.json({ error: "Failed to load embedding settings" }, { status: 500 });
+    }
+  };
+
+  /**
+   * PUT /api/user/embeddings
+   * Set the preferred embedding model (null = first configured provider) and
+   * start re-embedding memories with it
+   */
+  const updateSettings = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const body = await req.json();
+      const model = typeof body.embedding_model === "string" ? body.embedding_model.trim() : null;
+      if (body.embedding_model !== null && body.embedding_model !== undefined && typeof body.embedding_model !== "string") {
+        return Response.json({ error: "embedding_model must be a string or null" }, { status: 400 });
+      }
+      if (model && !/^[a-z0-9-]+:.+$/.test(model)) {
+        return Response.json(
+          { error: 'embedding_model must be "provider:model-id" (e.g., "ollama:nomic-embed-text")' },
+          { status: 400 }
+        );
+      }
+
+      const user = await deps.userRepository.update(auth.user.id, { embedding_model: model || null });
+      const service = await getService(user);
+      const started = service ? deps.reembedService.start(user.id, service) : false;
+
+      return Response.json({
+        embedding_model: user.embedding_model ?? null,
+        active_model: service?.model ?? null,
+        reembed_started: started,
+      });
+    } catch (err) {
+      console.error("Error updating embedding settings:", err);
+      return Response.json({ error: "Failed to update embedding settings" }, { status: 500 });
+    }
+  };
+
+  /**
+   * POST /api/user/embeddings/reembed
+   * Re-embed memories that have no vector from the active model
+   */
+  const reembed = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const service = await getService(auth.user);
+      if (!service) {
+        return Response.json({ error: "No embedding provider configured" }, { status: 400 });
+      }
+      if (!deps.reembedService.start(auth.user.id, service)) {
+        return Response.json({ error: "A re-embed job is already running" }, { status: 409 });
+      }
+      return Response.json({ job: deps.reembedService.getStatus(auth.user.id) }, { status: 202 });
+    } catch (err) {
+      console.error("Error starting re-embed:", err);
+      return Response.json({ error: "Failed to start re-embed" }, { status: 500 });
+    }
+  };
+
+  return { getSettings, updateSettings, reembed };
+}
@@ -0,0 +1,187 @@
+import type { BunRequest } from "bun";
+import { timingSafeEqual } from "node:crypto";
+import type { AgentRepository } from "../repositories/AgentRepository";
+import type { EmailInboxRepository } from "../repositories/EmailInboxRepository";
+import type { InboundEmailService } from "../services/InboundEmailService";
+import type { EmailInbox, User } from "../types/models";
+import { inboundAddress, parseEmailInboxInput, type InboundDelivery } from "../mail";
+
+interface InboundEmailHandlerDependencies {
+  emailInboxRepository: EmailInboxRepository;
+  agentRepository: AgentRepository;
+  authenticate: (
+    req: BunRequest
+  ) => Promise<{ user: User; session: { id: string; userId: number } } | null>;
+  /** Domain of the inbound addresses, when configured */
+  domain: string | null;
+  /** Shared secret mail providers send with webhook posts; the webhook is off without one */
+  webhookSecret: string | null;
+  // Late-bound since the service is created after the server starts
+  getInboundEmailService: () => InboundEmailService | null;
+}
+
+function secretMatches(expected: string, actual: string | null): boolean {
+  if (!actual) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** A form or query field as a string, or undefined when absent */
+function field(source: FormData | URLSearchParams, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = source.get(name);
+    if (typeof value === "string") return value;
+  }
+  return undefined;
+}
+
+/** SendGrid's envelope field: {"to": [...], "from": "..."} */
+function parseSendGridEnvelope(value: string | undefined): { to?: string[]; from?: string } {
+  if (!value) return {};
+  try {
+    const envelope = JSON.parse(value);
+    return {
+      to: Array.isArray(envelope?.to) ? envelope.to.filter((a: unknown) => typeof a === "string") : undefined,
+      from: typeof envelope?.from === "string" ? envelope.from : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+export function createInboundEmailHandlers(deps: InboundEmailHandlerDependencies) {
+  const withAddress = (inbox: EmailInbox | null) =>
+    inbox && { ...inbox, address: deps.domain ? inboundAddress(inbox.alias, deps.domain) : null };
+
+  /**
+   * GET /api/user/email-inbox
+   */
+  const getInbox = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const inbox = await deps.emailInboxRepository.findByUser(auth.user.id);
+      return Response.json({ inbox: withAddress(inbox), domain: deps.domain });
+    } catch (err) {
+      console.error("Error fetching email inbox:", err);
+      return Response.json({ error: "Failed to fetch email inbox" }, { status: 500 });
+    }
+  };
+
+  /**
+   * PUT /api/user/email-inbox
+   */
+  const upsertInbox = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const parsed = parseEmailInboxInput(await req.json());
+      if ("error" in parsed) return Response.json({ error: parsed.error }, { status: 400 });
+
+      const agent = await deps.agentRepository.findById(parsed.data.agent_id);
+      if (!agent || agent.user_id !== auth.user.id) {
+        return Response.json({ error: "Agent not found" }, { status: 400 });
+      }
+
+      const taken = await deps.emailInboxRepository.findByAlias(parsed.data.alias);
+      if (taken && taken.user_id !== auth.user.id) {
+        return Response.json({ error: "That alias is taken" }, { status: 409 });
+      }
+
+      const inbox = await deps.emailInboxRepository.upsert({ user_id: auth.user.id, ...parsed.data });
+      return Response.json({ inbox: withAddress(inbox), domain: deps.domain });
+    } catch (err) {
+      console.error("Error saving email inbox:", err);
+      return Response.json({ error: "Failed to save email inbox" }, { status: 500 });
+    }
+  };
+
+  /**
+   * DELETE /api/user/email-inbox
+   */
+  const deleteInbox = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      await deps.emailInboxRepository.delete(auth.user.id);
+      return Response.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting email inbox:", err);
+      return Response.json({ error: "Failed to delete email inbox" }, { status: 500 });
+    }
+  };
+
+  /**
+   * POST /api/inbound-email
+   * A raw RFC 822 message from a mail provider, as the request body or in a
+   * form field ("body-mime" or "email", as Mailgun and SendGrid send it).
+   * Authenticated by the webhook secret as a bearer token or ?token=.
+   * Envelope recipients may be given as ?to=a@x,b@y and the envelope sender
+   * as ?from=; the provider's envelope and SPF/DKIM fields are read too
+   * (Mailgun's sender, X-Mailgun-Spf and X-Mailgun-Dkim-Check-Result;
+   * SendGrid's envelope, SPF and dkim). Mail failing a reported check is
+   * ignored.
+   */
+  const receive = async (req: BunRequest): Promise<Response> => {
+    if (!deps.webhookSecret) {
+      return Response.json({ error: "Inbound email webhook not configured" }, { status: 404 });
+    }
+    const url = new URL(req.url);
+    const bearer = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1] ?? null;
+    if (!secretMatches(deps.webhookSecret, bearer ?? url.searchParams.get("token"))) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const service = deps.getInboundEmailService();
+    if (!service) return Response.json({ error: "Inbound email is not running" }, { status: 503 });
+
+    try {
+      let raw: string | Uint8Array;
+      let reported: InboundDelivery = {};
+      const contentType = req.headers.get("content-type") ?? "";
+      if (contentType.startsWith("multipart/form-data") || contentType.startsWith("application/x-www-form-urlencoded")) {
+        const form = await req.formData();
+        const message = form.get("body-mime") ?? form.get("email");
+        if (typeof message !== "string") {
+          return Response.json({ error: "Expected the message in a body-mime or email field" }, { status: 400 });
+        }
+        raw = message;
+        const envelope = parseSendGridEnvelope(field(form, "envelope"));
+        reported = {
+          to: envelope.to,
+          from: envelope.from ?? field(form, "sender"),
+          spf: field(form, "SPF", "X-Mailgun-Spf"),
+          dkim: field(form, "dkim", "X-Mailgun-Dkim-Check-Result"),
+        };
+      } else {
+        raw = new Uint8Array(await req.arrayBuffer());
+      }
+      if (raw.length === 0) return Response.json({ error: "Empty message" }, { status: 400 });
+
+      const to = field(url.searchParams, "to")?.split(",") ?? reported.to;
+      const from = field(url.searchParams, "from") ?? reported.from;
+      const result = await service.receive(raw, {
+        to: to?.map((a) => a.trim().toLowerCase()),
+        from: from?.trim().toLowerCase(),
+        spf: field(url.searchParams, "spf") ?? reported.spf,
+        dkim: field(url.searchParams, "dkim") ?? reported.dkim,
+      });
+      if (result.status === "rejected") return Response.json({ error: result.reason }, { status: 422 });
+      return Response.json(result, { status: result.status === "queued" ? 202 : 200 });
+    } catch (err) {
+      console.error("Error receiving inbound email:", err);
+      return Response.json({ error: "Failed to receive email" }, { status: 500 });
+    }
+  };
+
+  return {
+    getInbox,
+    upsertInbox,
+    deleteInbox,
+    receive,
+  };
+}
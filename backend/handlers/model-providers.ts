@@ -0,0 +1,246 @@
+import type { BunRequest } from "bun";
+import type { ModelProviderData, ModelProviderOwner, ModelProviderRepository } from "../repositories/ModelProviderRepository";
+import type { ModelProvider, User } from "../types/models";
+import { AVAILABLE_MODELS, BUILT_IN_PROVIDERS } from "../services/ModelResolver";
+import { encrypt } from "../utils/encryption";
+import { getUserDomain, isPersonalDomain } from "../utils/domain";
+
+interface ModelProviderHandlerDependencies {
+  modelProviderRepository: ModelProviderRepository;
+  authenticate: (req: BunRequest) => Promise<{ user: User; session: { id: string; userId: number } } | null>;
+  encryptionSecret: string;
+}
+
+const PROVIDER_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,49}$/;
+
+/** Provider as returned to the client: the key is replaced by has_api_key */
+function toPublic(provider: ModelProvider) {
+  const { api_key, ...rest } = provider;
+  return { ...rest, has_api_key: !!api_key };
+}
+
+/** A validated create/update body; api_key is still plaintext */
+type ProviderInput = Partial<Omit<ModelProviderData, "api_key">> & { api_key?: string | null };
+
+/**
+ * Validate a create/update body, returning an error message if invalid.
+ * On update (partial) only the fields present are checked.
+ */
+function parseProviderBody(body: unknown, partial: boolean): { input: ProviderInput } | { error: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Request body must be a JSON object" };
+  }
+  const { name, base_url, api_key, api_key_header, headers, models } = body as Record<string, unknown>;
+  const input: ProviderInput = {};
+
+  if (!partial || name !== undefined) {
+    if (typeof name !== "string" || !PROVIDER_NAME_PATTERN.test(name)) {
+      return { error: "Name must be lowercase letters, numbers and dashes (max 50 characters)" };
+    }
+    if (BUILT_IN_PROVIDERS.includes(name)) {
+      return { error: `"${name}" is a built-in provider name` };
+    }
+    input.name = name;
+  }
+  if (!partial || base_url !== undefined) {
+    try {
+      if (typeof base_url !== "string") throw new Error();
+      const url = new URL(base_url.trim());
+      if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error();
+      input.base_url = base_url.trim();
+    } catch {
+      return { error: "base_url must be an http(s) URL" };
+    }
+  }
+  if (api_key !== undefined) {
+    if (api_key !== null && typeof api_key !== "string") return { error: "api_key must be a string" };
+    input.api_key = api_key;
+  }
+  if (api_key_header !== undefined) {
+    if (typeof api_key_header !== "string" || !/^[A-Za-z0-9-]+$/.test(api_key_header)) {
+      return { error: "api_key_header must be a header name" };
+    }
+    input.api_key_header = api_key_header;
+  }
+  if (headers !== undefined) {
+    if (headers !== null && (typeof headers !== "object" || Array.isArray(headers) ||
+      Object.values(headers).some((v) => typeof v !== "string"))) {
+      return { error: "headers must be an object of string values" };
+    }
+    input.headers = headers as Record<string, string> | null;
+  }
+  if (models !== undefined) {
+    if (!Array.isArray(models) || models.some((m) => typeof m !== "string" || !m.trim())) {
+      return { error: "models must be an array of model IDs" };
+    }
+    input.models = (models as string[]).map((m) => m.trim());
+  }
+  return { input };
+}
+
+export function createModelProviderHandlers(deps: ModelProviderHandlerDependencies) {
+  /** Build repository data from a validated body, encrypting the API key */
+  const toData = async (input: ProviderInput): Promise<Partial<ModelProviderData>> => {
+    const { api_key, ...data } = input;
+    if (api_key === undefined) return data;
+    return { ...data, api_key: api_key ? await encrypt(api_key, deps.encryptionSecret) : null };
+  };
+
+  /** Resolve the owner for /api/user/... or /api/team/... routes */
+  const resolveOwner = (user: User, team: boolean): ModelProviderOwner | Response => {
+    if (!team) return { user_id: user.id };
+    const domain = getUserDomain(user.email);
+    if (isPersonalDomain(domain)) {
+      return Response.json({ error: "Team settings not available for personal email domains." }, { status: 403 });
+    }
+    return { domain };
+  };
+
+  /** Load the provider in .../model-providers/:id and check it belongs to the owner */
+  const findOwnedProvider = async (req: BunRequest, owner: ModelProviderOwner): Promise<ModelProvider | Response> => {
+    const pathParts = new URL(req.url).pathname.split("/");
+    const id = parseInt(pathParts[pathParts.length - 1] ?? "");
+    if (isNaN(id)) return Response.json({ error: "Invalid provider ID" }, { status: 400 });
+
+    const provider = await deps.modelProviderRepository.findById(id);
+    if (!provider) return Response.json({ error: "Provider not found" }, { status: 404 });
+    const owned = "user_id" in owner ? provider.user_id === owner.user_id : provider.domain === owner.domain;
+    if (!owned) return Response.json({ error: "Forbidden" }, { status: 403 });
+    return provider;
+  };
+
+  /**
+   * GET /api/models
+   * Built-in models plus the custom provider models available to the user
+   */
+  const listModels = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json(AVAILABLE_MODELS);
+
+    try {
+      const domain = getUserDomain(auth.user.email);
+      const [personal, team] = await Promise.all([
+        deps.modelProviderRepository.list({ user_id: auth.user.id }),
+        isPersonalDomain(domain) ? [] : deps.modelProviderRepository.list({ domain }),
+      ]);
+
+      const custom = [...personal, ...team].flatMap((provider) =>
+        provider.models.map((model) => ({
+          id: `${provider.name}:${model}`,
+          name: model,
+          provider: provider.name,
+          pricing: null,
+          custom: true,
+          pool_type: provider.domain ? "team" : "personal",
+        }))
+      );
+
+      return Response.json([...AVAILABLE_MODELS, ...custom]);
+    } catch (err) {
+      console.error("Error listing models:", err);
+      return Response.json(AVAILABLE_MODELS);
+    }
+  };
+
+  const list = (team: boolean) => async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    const owner = resolveOwner(auth.user, team);
+    if (owner instanceof Response) return owner;
+
+    try {
+      const providers = await deps.modelProviderRepository.list(owner);
+      return Response.json(providers.map(toPublic));
+    } catch (err) {
+      console.error("Error listing model providers:", err);
+      return Response.json({ error: "Failed to list model providers" }, { status: 500 });
+    }
+  };
+
+  const create = (team: boolean) => async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    const owner = resolveOwner(auth.user, team);
+    if (owner instanceof Response) return owner;
+
+    try {
+      const parsed = parseProviderBody(await req.json(), false);
+      if ("error" in parsed) return Response.json({ error: parsed.error }, { status: 400 });
+
+      const provider = await deps.modelProviderRepository.create(owner, (await toData(parsed.input)) as ModelProviderData);
+      return Response.json(toPublic(provider), { status: 201 });
+    } catch (err) {
+      console.error("Error creating model provider:", err);
+      if (err instanceof Error && err.message.includes("unique")) {
+        return Response.json({ error: "A provider with this name already exists" }, { status: 409 });
+      }
+      return Response.json({ error: "Failed to create model provider" }, { status: 500 });
+    }
+  };
+
+  const update = (team: boolean) => async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    const owner = resolveOwner(auth.user, team);
+    if (owner instanceof Response) return owner;
+
+    try {
+      const provider = await findOwnedProvider(req, owner);
+      if (provider instanceof Response) return provider;
+
+      const parsed = parseProviderBody(await req.json(), true);
+      if ("error" in parsed) return Response.json({ error: parsed.error }, { status: 400 });
+
+      const updated = await deps.modelProviderRepository.update(provider.id, await toData(parsed.input));
+      return Response.json(toPublic(updated));
+    } catch (err) {
+      console.error("Error updating model provider:", err);
+      if (err instanceof Error && err.message.includes("unique")) {
+        return Response.json({ error: "A provider with this name already exists" }, { status: 409 });
+      }
+      return Response.json({ error: "Failed to update model provider" }, { status: 500 });
+    }
+  };
+
+  const remove = (team: boolean) => async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    const owner = resolveOwner(auth.user, team);
+    if (owner instanceof Response) return owner;
+
+    try {
+      const provider = await findOwnedProvider(req, owner);
+      if (provider instanceof Response) return provider;
+
+      await deps.modelProviderRepository.delete(provider.id);
+      return Response.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting model provider:", err);
+      return Response.json({ error: "Failed to delete model provider" }, { status: 500 });
+    }
+  };
+
+  return {
+    listModels,
+    /** GET /api/user/model-providers */
+    listUserProviders: list(false),
+    /** POST /api/user/model-providers */
+    createUserProvider: create(false),
+    /** PUT /api/user/model-providers/:id */
+    updateUserProvider: update(false),
+    /** DELETE /api/user/model-providers/:id */
+    deleteUserProvider: remove(false),
+    /** GET /api/team/model-providers */
+    listTeamProviders: list(true),
+    /** POST /api/team/model-providers */
+    createTeamProvider: create(true),
+    /** PUT /api/team/model-providers/:id */
+    updateTeamProvider: update(true),
+    /** DELETE /api/team/model-providers/:id */
+    deleteTeamProvider: remove(true),
+  };
+}
@@ -1,7 +1,12 @@
 import type { BunRequest } from "bun";
 import type { AgentRepository } from "../repositories/AgentRepository";
 import type { NotificationRepository } from "../repositories/NotificationRepository";
-import type { User } from "../types/models";
+import type { NotificationDelivery, User } from "../types/models";
+import { maskMailTransport, parseMailTransportInput, validateEmailRecipients } from "../mail";
+import { parseWebhooksInput } from "../webhooks";
+import { parseNotificationPolicyInput } from "../notifications";
+
+const DELIVERY_CHANNELS: NotificationDelivery["channel"][] = ["email", "webhook", "pushover"];
 
 function getDomain(email: string): string {
   return email.split("@")[1] || "";
@@ -13,6 +18,8 @@ interface NotificationHandlerDependencies {
   authenticate: (
     req: BunRequest
   ) => Promise<{ user: User; session: { id: string; userId: number } } | null>;
+  /** Encrypts mail transport credentials; without it they can't be saved */
+  encryptionSecret?: string;
 }
 
 export function createNotificationHandlers(deps: NotificationHandlerDependencies) {
@@ -93,6 +100,69 @@ export function createNotificationHandlers(deps: NotificationHandlerDependencies
     }
   };
 
+  /**
+   * GET /api/notifications/deliveries
+   */
+  const listDeliveries = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const url = new URL(req.url);
+      const channel = url.searchParams.get("channel");
+      if (channel && !DELIVERY_CHANNELS.includes(channel as NotificationDelivery["channel"])) {
+        return Response.json({ error: `channel must be one of: ${DELIVERY_CHANNELS.join(", ")}` }, { status: 400 });
+      }
+      const limit = parseInt(url.searchParams.get("limit") ?? "50");
+      const offset = parseInt(url.searchParams.get("offset") ?? "0");
+
+      const deliveries = await deps.notificationRepository.listDeliveries(auth.user.id, {
+        channel: (channel as NotificationDelivery["channel"] | null) ?? undefined,
+        limit,
+        offset,
+      });
+      return Response.json({ deliveries });
+    } catch (err) {
+      console.error("Error listing notification deliveries:", err);
+      return Response.json({ error: "Failed to list deliveries" }, { status: 500 });
+    }
+  };
+
+  /**
+   * POST /api/notifications/deliveries/:id/redeliver
+   * Queues a new delivery of the same notification to the same channel and
+   * destination; the original keeps its own status and attempt log.
+   */
+  const redeliver = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const url = new URL(req.url);
+      const pathParts = url.pathname.split("/");
+      const deliveryId = parseInt(pathParts[pathParts.length - 2] ?? "");
+      if (isNaN(deliveryId)) return Response.json({ error: "Invalid delivery ID" }, { status: 400 });
+
+      const delivery = await deps.notificationRepository.findDeliveryById(deliveryId);
+      if (!delivery || delivery.notification.user_id !== auth.user.id) {
+        return Response.json({ error: "Delivery not found" }, { status: 404 });
+      }
+      if (delivery.status === "pending" || delivery.status === "held") {
+        return Response.json({ error: `Delivery is still ${delivery.status}` }, { status: 409 });
+      }
+
+      const queued = await deps.notificationRepository.createDelivery(
+        delivery.notification_id,
+        delivery.channel,
+        delivery.destination
+      );
+      return Response.json({ delivery: queued }, { status: 201 });
+    } catch (err) {
+      console.error("Error redelivering notification:", err);
+      return Response.json({ error: "Failed to redeliver" }, { status: 500 });
+    }
+  };
+
   /**
    * GET /api/user/notification-settings
    */
@@ -103,15 +173,21 @@ export function createNotificationHandlers(deps: NotificationHandlerDependencies
     try {
       const settings = await deps.notificationRepository.getSettings(auth.user.id);
       return Response.json({
-        settings: settings || {
-          notification_email: null,
-          email_addresses: [],
-          webhook_urls: [],
-          email_enabled: true,
-          pushover_user_key: null,
-          pushover_api_token: null,
-          pushover_enabled: false,
-        },
+        settings: settings
+          ? { ...settings, mail_transport: maskMailTransport(settings.mail_transport) }
+          : {
+              notification_email: null,
+              email_addresses: [],
+              webhook_urls: [],
+              email_enabled: true,
+              pushover_user_key: null,
+              pushover_api_token: null,
+              pushover_enabled: false,
+              mail_transport: null,
+              quiet_hours: null,
+              digest_schedule: {},
+              rate_policies: [],
+            },
       });
     } catch (err) {
       console.error("Error getting notification settings:", err);
@@ -128,41 +204,57 @@ export function createNotificationHandlers(deps: NotificationHandlerDependencies
 
     try {
       const body = await req.json();
-      const { notification_email, email_addresses, webhook_urls, email_enabled, pushover_user_key, pushover_api_token, pushover_enabled } = body;
-
-      // Validate webhook URLs are HTTPS
-      if (webhook_urls) {
-        for (const webhook of webhook_urls) {
-          if (!webhook.url || !webhook.url.startsWith("https://")) {
-            return Response.json(
-              { error: `Webhook URL must use HTTPS: ${webhook.url}` },
-              { status: 400 }
-            );
-          }
-          if (!webhook.name) {
-            return Response.json({ error: "Webhook must have a name" }, { status: 400 });
-          }
+      const { notification_email, email_addresses, email_enabled, pushover_user_key, pushover_api_token, pushover_enabled } = body;
+      const current = await deps.notificationRepository.getSettings(auth.user.id);
+
+      // Validate webhook URLs are HTTPS and give each a signing secret
+      let webhook_urls;
+      if (body.webhook_urls) {
+        const parsed = parseWebhooksInput(body.webhook_urls, current?.webhook_urls ?? []);
+        if ("error" in parsed) {
+          return Response.json({ error: parsed.error }, { status: 400 });
+        }
+        webhook_urls = parsed.webhooks;
+      }
+
+      // Validate email_addresses and notification_email
+      const recipientError = validateEmailRecipients(notification_email, email_addresses);
+      if (recipientError) {
+        return Response.json({ error: recipientError }, { status: 400 });
+      }
+
+      let mail_transport;
+      if (body.mail_transport !== undefined) {
+        const parsed = await parseMailTransportInput(
+          body.mail_transport,
+          current?.mail_transport ?? null,
+          deps.encryptionSecret
+        );
+        if ("error" in parsed) {
+          return Response.json({ error: parsed.error }, { status: 400 });
         }
+        mail_transport = parsed.config;
       }
 
-      // Validate email_addresses
-      if (email_addresses) {
-        for (const entry of email_addresses) {
-          if (!entry.name || !entry.email) {
-            return Response.json(
-              { error: "Each email address must have a name and email" },
-              { status: 400 }
-            );
-          }
+      // Quiet hours, digests and rate policies; policies may only name the user's own agents
+      const policies = parseNotificationPolicyInput(body);
+      if ("error" in policies) {
+        return Response.json({ error: policies.error }, { status: 400 });
+      }
+      for (const policy of policies.data.rate_policies ?? []) {
+        if (policy.agent_id === null) continue;
+        const agent = await deps.agentRepository.findById(policy.agent_id);
+        if (!agent || agent.user_id !== auth.user.id) {
+          return Response.json({ error: `Agent not found: ${policy.agent_id}` }, { status: 400 });
         }
       }
 
       const settings = await deps.notificationRepository.upsertSettings(
         auth.user.id,
-        { notification_email, email_addresses, webhook_urls, email_enabled, pushover_user_key, pushover_api_token, pushover_enabled }
+        { notification_email, email_addresses, webhook_urls, email_enabled, pushover_user_key, pushover_api_token, pushover_enabled, mail_transport, ...policies.data }
       );
 
-      return Response.json({ settings });
+      return Response.json({ settings: { ...settings, mail_transport: maskMailTransport(settings.mail_transport) } });
     } catch (err) {
       console.error("Error updating notification settings:", err);
       return Response.json({ error: "Failed to update settings" }, { status: 500 });
@@ -229,6 +321,8 @@ export function createNotificationHandlers(deps: NotificationHandlerDependencies
     getUnreadCount,
     markRead,
     markAllRead,
+    listDeliveries,
+    redeliver,
     getSettings,
     updateSettings,
     muteAgent,
@@ -1,14 +1,19 @@
 import type { BunRequest } from "bun";
 import type { AgentRepository } from "../repositories/AgentRepository";
 import type { ScheduleRepository } from "../repositories/ScheduleRepository";
+import type { WorkflowRepository } from "../repositories/WorkflowRepository";
 import type { User, NotifierChannel } from "../types/models";
 import { computeFirstRun } from "../utils/schedule";
+import { WorkflowParseError } from "../workflows/parser";
+import { loadWorkflowDefinition } from "../workflows/references";
+import { SCHEDULE_TRIGGER_VARIABLES, validateTriggerFacts } from "../workflows/triggers";
 
 const VALID_NOTIFIER_CHANNELS: NotifierChannel[] = ['email', 'webhook', 'pushover'];
 
 interface ScheduleHandlerDependencies {
   agentRepository: AgentRepository;
   scheduleRepository: ScheduleRepository;
+  workflowRepository?: WorkflowRepository | null;
   authenticate: (
     req: BunRequest
   ) => Promise<{ user: User; session: { id: string; userId: number } } | null>;
@@ -27,6 +32,30 @@ export function createScheduleHandlers(deps: ScheduleHandlerDependencies) {
     return { agent };
   };
 
+  /** Check a schedule's workflow belongs to the user and its fact mapping fits it */
+  const checkWorkflowTrigger = async (
+    user: User,
+    workflowId: unknown,
+    workflowFacts: unknown
+  ): Promise<string | null> => {
+    if (workflowId === null || workflowId === undefined) return null;
+    if (!deps.workflowRepository) return "Workflows are not available";
+    if (typeof workflowId !== "number") return "workflow_id must be a number or null";
+
+    const workflow = await deps.workflowRepository.findById(workflowId);
+    if (!workflow || workflow.user_id !== user.id) return "Workflow not found";
+
+    try {
+      const definition = await loadWorkflowDefinition(deps.workflowRepository, user.id, workflow.yaml_content, {
+        name: workflow.name,
+      });
+      return validateTriggerFacts(workflowFacts ?? {}, definition, SCHEDULE_TRIGGER_VARIABLES);
+    } catch (err) {
+      if (err instanceof WorkflowParseError) return `Workflow "${workflow.name}" is invalid: ${err.message}`;
+      throw err;
+    }
+  };
+
   /**
    * GET /api/schedules
    */
@@ -82,7 +111,7 @@ export function createScheduleHandlers(deps: ScheduleHandlerDependencies) {
       if (result.error) return Response.json({ error: result.error }, { status: result.status });
 
       const body = await req.json();
-      const { prompt, description, schedule_type, schedule_value, conversation_mode, conversation_id, notifier, notifier_destination } = body;
+      const { prompt, description, schedule_type, schedule_value, conversation_mode, conversation_id, notifier, notifier_destination, workflow_id, workflow_facts } = body;
 
       if (!prompt || !schedule_type || !schedule_value) {
         return Response.json({ error: "prompt, schedule_type, and schedule_value are required" }, { status: 400 });
@@ -106,6 +135,9 @@ export function createScheduleHandlers(deps: ScheduleHandlerDependencies) {
         }
       }
 
+      const workflowError = await checkWorkflowTrigger(auth.user, workflow_id, workflow_facts);
+      if (workflowError) return Response.json({ error: workflowError }, { status: 400 });
+
       // Check user limit
       const count = await deps.scheduleRepository.countByUser(auth.user.id);
       if (count >= 50) {
@@ -129,6 +161,8 @@ export function createScheduleHandlers(deps: ScheduleHandlerDependencies) {
         next_run_at: nextRunAt ?? undefined,
         notifier: notifier ?? null,
         notifier_destination: notifier_destination ?? null,
+        workflow_id: workflow_id ?? null,
+        workflow_facts: workflow_facts ?? {},
       });
 
       return Response.json({ schedule }, { status: 201 });
@@ -165,6 +199,15 @@ export function createScheduleHandlers(deps: ScheduleHandlerDependencies) {
         }
       }
 
+      if (body.workflow_id !== undefined || body.workflow_facts !== undefined) {
+        const workflowError = await checkWorkflowTrigger(
+          auth.user,
+          body.workflow_id !== undefined ? body.workflow_id : schedule.workflow_id,
+          body.workflow_facts !== undefined ? body.workflow_facts : schedule.workflow_facts
+        );
+        if (workflowError) return Response.json({ error: workflowError }, { status: 400 });
+      }
+
       const updated = await deps.scheduleRepository.update(scheduleId, body);
 
       // Recompute next_run_at if schedule value changed
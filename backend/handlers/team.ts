@@ -2,22 +2,11 @@ import type { BunRequest } from "bun";
 import type { TeamRepository } from "../repositories/TeamRepository";
 import type { User } from "../types/models";
 import { encrypt, decrypt } from "../utils/encryption";
-
-const PERSONAL_DOMAINS = new Set([
-  "gmail.com", "yahoo.com", "hotmail.com", "outlook.com", "icloud.com",
-  "me.com", "mac.com", "aol.com", "protonmail.com", "proton.me",
-  "live.com", "msn.com", "mail.com", "ymail.com", "googlemail.com",
-]);
-
-function getUserDomain(email: string): string {
-  return email.split("@")[1] ?? "";
-}
-
-function isPersonalDomain(domain: string): boolean {
-  if (!domain || domain === "localhost") return true;
-  if (domain.startsWith("demo-")) return true;
-  return PERSONAL_DOMAINS.has(domain.toLowerCase());
-}
+import { executeUrlTool, findMissingUrlToolArgs, renderUrlToolRequest, validateUrlToolDefinition, type UrlToolArgs } from "../tools/urlTool";
+import { parseOpenApiDocument, previewOpenApiImport, selectOpenApiTools } from "../utils/openapi";
+import { getUserDomain, isPersonalDomain } from "../utils/domain";
+import { maskMailTransport, parseMailTransportInput, validateEmailRecipients } from "../mail";
+import { parseWebhooksInput } from "../webhooks";
 
 const VALID_HTTP_METHODS = ["GET", "POST", "PUT", "DELETE", "PATCH"];
 
@@ -317,7 +306,7 @@ export function createTeamHandlers(deps: TeamHandlerDependencies) {
 
     try {
       const body = await req.json();
-      const { name, description, url, method, headers } = body;
+      const { name, description, url, method, headers, parameters, query_params, body_template } = body;
 
       if (!name || !url || !method) {
         return Response.json({ error: "Name, URL, and method are required" }, { status: 400 });
@@ -332,7 +321,14 @@ export function createTeamHandlers(deps: TeamHandlerDependencies) {
         return Response.json({ error: `Invalid HTTP method. Must be one of: ${VALID_HTTP_METHODS.join(", ")}` }, { status: 400 });
       }
 
-      const tool = await deps.teamRepository.createUrlTool(domain, { name, description, url, method: upperMethod, headers });
+      const definitionError = validateUrlToolDefinition({ url, headers, parameters, query_params, body_template });
+      if (definitionError) {
+        return Response.json({ error: definitionError }, { status: 400 });
+      }
+
+      const tool = await deps.teamRepository.createUrlTool(domain, {
+        name, description, url, method: upperMethod, headers, parameters, query_params, body_template,
+      });
       return Response.json(tool, { status: 201 });
     } catch (err) {
       console.error("Error creating team URL tool:", err);
@@ -381,12 +377,26 @@ export function createTeamHandlers(deps: TeamHandlerDependencies) {
         body.method = m;
       }
 
+      const definitionError = validateUrlToolDefinition({
+        url: body.url ?? existing.url,
+        headers: body.headers !== undefined ? body.headers : existing.headers,
+        parameters: body.parameters ?? existing.parameters,
+        query_params: body.query_params !== undefined ? body.query_params : existing.query_params,
+        body_template: body.body_template !== undefined ? body.body_template : existing.body_template,
+      });
+      if (definitionError) {
+        return Response.json({ error: definitionError }, { status: 400 });
+      }
+
       const updated = await deps.teamRepository.updateUrlTool(id, {
         name: body.name,
         description: body.description,
         url: body.url,
         method: body.method,
         headers: body.headers,
+        parameters: body.parameters,
+        query_params: body.query_params,
+        body_template: body.body_template,
       });
       return Response.json(updated);
     } catch (err) {
@@ -425,6 +435,137 @@ export function createTeamHandlers(deps: TeamHandlerDependencies) {
     }
   };
 
+  /**
+   * POST /api/team/url-tools/:id/test — run a URL tool with sample arguments
+   */
+  const testUrlTool = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    const domain = getUserDomain(auth.user.email);
+    if (isPersonalDomain(domain)) {
+      return Response.json({ error: "Team settings not available for personal email domains." }, { status: 403 });
+    }
+
+    try {
+      const reqUrl = new URL(req.url);
+      const pathParts = reqUrl.pathname.split("/");
+      const id = parseInt(pathParts[pathParts.length - 2] ?? ""); // /api/team/url-tools/:id/test
+      if (isNaN(id)) return Response.json({ error: "Invalid tool ID" }, { status: 400 });
+
+      const existing = await deps.teamRepository.findUrlToolById(id);
+      if (!existing) return Response.json({ error: "Tool not found" }, { status: 404 });
+      if (existing.domain !== domain) return Response.json({ error: "Forbidden" }, { status: 403 });
+
+      const body = await req.json();
+      const args: UrlToolArgs = body.args ?? {};
+
+      const missing = findMissingUrlToolArgs(existing.parameters, args);
+      if (missing.length > 0) {
+        return Response.json({ error: `Missing required parameters: ${missing.join(", ")}` }, { status: 400 });
+      }
+
+      let request;
+      try {
+        request = renderUrlToolRequest(existing, args);
+      } catch (err) {
+        return Response.json({ error: `Could not build request: ${err instanceof Error ? err.message : String(err)}` }, { status: 400 });
+      }
+
+      const result = await executeUrlTool(existing, args);
+      return Response.json({ request, result });
+    } catch (err) {
+      console.error("Error testing team URL tool:", err);
+      return Response.json({ error: "Failed to test team URL tool" }, { status: 500 });
+    }
+  };
+
+  /**
+   * POST /api/team/url-tools/import/preview — list the URL tools an OpenAPI document would create
+   */
+  const previewUrlToolImport = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    const domain = getUserDomain(auth.user.email);
+    if (isPersonalDomain(domain)) {
+      return Response.json({ error: "Team settings not available for personal email domains." }, { status: 403 });
+    }
+
+    try {
+      const body = await req.json();
+      if (!body.spec?.trim()) {
+        return Response.json({ error: "An OpenAPI document is required" }, { status: 400 });
+      }
+
+      let preview;
+      try {
+        preview = previewOpenApiImport(parseOpenApiDocument(body.spec), body.base_url);
+      } catch (err) {
+        return Response.json({ error: err instanceof Error ? err.message : String(err) }, { status: 400 });
+      }
+
+      const existingNames = new Set((await deps.teamRepository.listUrlTools(domain)).map(t => t.name));
+      for (const op of preview.operations) {
+        op.exists = existingNames.has(op.tool.name);
+      }
+
+      return Response.json(preview);
+    } catch (err) {
+      console.error("Error previewing team OpenAPI import:", err);
+      return Response.json({ error: "Failed to preview OpenAPI import" }, { status: 500 });
+    }
+  };
+
+  /**
+   * POST /api/team/url-tools/import — create team URL tools from selected OpenAPI operations
+   */
+  const importUrlTools = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    const domain = getUserDomain(auth.user.email);
+    if (isPersonalDomain(domain)) {
+      return Response.json({ error: "Team settings not available for personal email domains." }, { status: 403 });
+    }
+
+    try {
+      const body = await req.json();
+      if (!body.spec?.trim() || !Array.isArray(body.operation_ids) || body.operation_ids.length === 0) {
+        return Response.json({ error: "An OpenAPI document and at least one operation are required" }, { status: 400 });
+      }
+
+      const existing = await deps.teamRepository.listUrlTools(domain);
+
+      let selection;
+      try {
+        const preview = previewOpenApiImport(parseOpenApiDocument(body.spec), body.base_url);
+        selection = selectOpenApiTools(preview, body.operation_ids, new Set(existing.map(t => t.name)), body.auth);
+      } catch (err) {
+        return Response.json({ error: err instanceof Error ? err.message : String(err) }, { status: 400 });
+      }
+
+      const created = [];
+      for (const tool of selection.tools) {
+        created.push(await deps.teamRepository.createUrlTool(domain, {
+          name: tool.name,
+          description: tool.description,
+          url: tool.url,
+          method: tool.method,
+          headers: tool.headers ?? undefined,
+          parameters: tool.parameters,
+          query_params: tool.query_params ?? undefined,
+          body_template: tool.body_template ?? undefined,
+        }));
+      }
+
+      return Response.json({ created, skipped: selection.skipped }, { status: 201 });
+    } catch (err) {
+      console.error("Error importing team OpenAPI document:", err);
+      return Response.json({ error: "Failed to import OpenAPI document" }, { status: 500 });
+    }
+  };
+
   // ── Notification Settings ────────────────────────────────────────────────
 
   /**
@@ -442,15 +583,18 @@ export function createTeamHandlers(deps: TeamHandlerDependencies) {
     try {
       const settings = await deps.teamRepository.getNotificationSettings(domain);
       return Response.json({
-        settings: settings ?? {
-          notification_email: null,
-          email_addresses: [],
-          webhook_urls: [],
-          email_enabled: true,
-          pushover_user_key: null,
-          pushover_api_token: null,
-          pushover_enabled: false,
-        },
+        settings: settings
+          ? { ...settings, mail_transport: maskMailTransport(settings.mail_transport) }
+          : {
+              notification_email: null,
+              email_addresses: [],
+              webhook_urls: [],
+              email_enabled: true,
+              pushover_user_key: null,
+              pushover_api_token: null,
+              pushover_enabled: false,
+              mail_transport: null,
+            },
       });
     } catch (err) {
       console.error("Error getting team notification settings:", err);
@@ -472,25 +616,34 @@ export function createTeamHandlers(deps: TeamHandlerDependencies) {
 
     try {
       const body = await req.json();
-      const { notification_email, email_addresses, webhook_urls, email_enabled, pushover_user_key, pushover_api_token, pushover_enabled } = body;
-
-      if (webhook_urls) {
-        for (const webhook of webhook_urls) {
-          if (!webhook.url || !webhook.url.startsWith("https://")) {
-            return Response.json({ error: `Webhook URL must use HTTPS: ${webhook.url}` }, { status: 400 });
-          }
-          if (!webhook.name) {
-            return Response.json({ error: "Webhook must have a name" }, { status: 400 });
-          }
+      const { notification_email, email_addresses, email_enabled, pushover_user_key, pushover_api_token, pushover_enabled } = body;
+      const current = await deps.teamRepository.getNotificationSettings(domain);
+
+      let webhook_urls;
+      if (body.webhook_urls) {
+        const parsed = parseWebhooksInput(body.webhook_urls, current?.webhook_urls ?? []);
+        if ("error" in parsed) {
+          return Response.json({ error: parsed.error }, { status: 400 });
         }
+        webhook_urls = parsed.webhooks;
       }
 
-      if (email_addresses) {
-        for (const entry of email_addresses) {
-          if (!entry.name || !entry.email) {
-            return Response.json({ error: "Each email address must have a name and email" }, { status: 400 });
-          }
+      const recipientError = validateEmailRecipients(notification_email, email_addresses);
+      if (recipientError) {
+        return Response.json({ error: recipientError }, { status: 400 });
+      }
+
+      let mail_transport;
+      if (body.mail_transport !== undefined) {
+        const parsed = await parseMailTransportInput(
+          body.mail_transport,
+          current?.mail_transport ?? null,
+          deps.encryptionSecret
+        );
+        if ("error" in parsed) {
+          return Response.json({ error: parsed.error }, { status: 400 });
         }
+        mail_transport = parsed.config;
       }
 
       const settings = await deps.teamRepository.upsertNotificationSettings(domain, {
@@ -501,8 +654,9 @@ export function createTeamHandlers(deps: TeamHandlerDependencies) {
         pushover_user_key,
         pushover_api_token,
         pushover_enabled,
+        mail_transport,
       });
-      return Response.json({ settings });
+      return Response.json({ settings: { ...settings, mail_transport: maskMailTransport(settings.mail_transport) } });
     } catch (err) {
       console.error("Error updating team notification settings:", err);
       return Response.json({ error: "Failed to update team notification settings" }, { status: 500 });
@@ -521,6 +675,9 @@ export function createTeamHandlers(deps: TeamHandlerDependencies) {
     createUrlTool,
     updateUrlTool,
     deleteUrlTool,
+    testUrlTool,
+    previewUrlToolImport,
+    importUrlTools,
     getNotificationSettings,
     updateNotificationSettings,
   };
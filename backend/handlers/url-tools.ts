@@ -1,6 +1,8 @@
 import type { BunRequest } from "bun";
 import type { UrlToolRepository } from "../repositories/UrlToolRepository";
-import type { User } from "../types/models";
+import type { User, UrlToolParameter } from "../types/models";
+import { executeUrlTool, findMissingUrlToolArgs, renderUrlToolRequest, validateUrlToolDefinition, type UrlToolArgs } from "../tools/urlTool";
+import { parseOpenApiDocument, previewOpenApiImport, selectOpenApiTools, type OpenApiAuth } from "../utils/openapi";
 
 interface UrlToolHandlerDependencies {
   urlToolRepository: UrlToolRepository;
@@ -13,6 +15,16 @@ interface CreateUrlToolRequest {
   url: string;
   method: string;
   headers?: Record<string, string>;
+  parameters?: UrlToolParameter[];
+  query_params?: Record<string, string>;
+  body_template?: string;
+}
+
+interface OpenApiImportRequest {
+  spec: string;
+  base_url?: string;
+  operation_ids?: string[];
+  auth?: OpenApiAuth | null;
 }
 
 const VALID_HTTP_METHODS = ["GET", "POST", "PUT", "DELETE", "PATCH"];
@@ -89,6 +101,15 @@ export function createUrlToolHandlers(deps: UrlToolHandlerDependencies) {
         );
       }
 
+      // Validate parameters and the placeholders used in templates
+      const definitionError = validateUrlToolDefinition(body);
+      if (definitionError) {
+        return new Response(JSON.stringify({ error: definitionError }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
       // Create URL tool
       const tool = await deps.urlToolRepository.create({
         user_id: auth.user.id,
@@ -97,6 +118,9 @@ export function createUrlToolHandlers(deps: UrlToolHandlerDependencies) {
         url: body.url,
         method,
         headers: body.headers,
+        parameters: body.parameters,
+        query_params: body.query_params,
+        body_template: body.body_template,
       });
 
       return new Response(JSON.stringify(tool), {
@@ -193,6 +217,21 @@ export function createUrlToolHandlers(deps: UrlToolHandlerDependencies) {
         body.method = method;
       }
 
+      // Validate parameters against the resulting templates
+      const definitionError = validateUrlToolDefinition({
+        url: body.url ?? tool.url,
+        headers: body.headers !== undefined ? body.headers : tool.headers,
+        parameters: body.parameters ?? tool.parameters,
+        query_params: body.query_params !== undefined ? body.query_params : tool.query_params,
+        body_template: body.body_template !== undefined ? body.body_template : tool.body_template,
+      });
+      if (definitionError) {
+        return new Response(JSON.stringify({ error: definitionError }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
       // Update the tool
       const updated = await deps.urlToolRepository.update(id, {
         name: body.name,
@@ -200,6 +239,9 @@ export function createUrlToolHandlers(deps: UrlToolHandlerDependencies) {
         url: body.url,
         method: body.method,
         headers: body.headers,
+        parameters: body.parameters,
+        query_params: body.query_params,
+        body_template: body.body_template,
       });
 
       return new Response(JSON.stringify(updated), {
@@ -271,5 +313,205 @@ export function createUrlToolHandlers(deps: UrlToolHandlerDependencies) {
     }
   };
 
-  return { list, create, update, remove };
+  /**
+   * POST /api/user/url-tools/:id/test
+   * Execute a URL tool with sample arguments and return the rendered request and response
+   */
+  const test = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const url = new URL(req.url);
+      const pathParts = url.pathname.split("/");
+      const id = parseInt(pathParts[pathParts.length - 2] ?? ""); // /api/user/url-tools/:id/test
+
+      if (isNaN(id)) {
+        return new Response(JSON.stringify({ error: "Invalid tool ID" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const tool = await deps.urlToolRepository.findById(id);
+      if (!tool) {
+        return new Response(JSON.stringify({ error: "Tool not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      if (tool.user_id !== auth.user.id) {
+        return new Response(JSON.stringify({ error: "Forbidden" }), {
+          status: 403,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const body: { args?: UrlToolArgs } = await req.json();
+      const args = body.args ?? {};
+
+      const missing = findMissingUrlToolArgs(tool.parameters, args);
+      if (missing.length > 0) {
+        return new Response(JSON.stringify({ error: `Missing required parameters: ${missing.join(", ")}` }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      let request;
+      try {
+        request = renderUrlToolRequest(tool, args);
+      } catch (error) {
+        return new Response(
+          JSON.stringify({
+            error: `Could not build request: ${error instanceof Error ? error.message : String(error)}`,
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const result = await executeUrlTool(tool, args);
+
+      return new Response(JSON.stringify({ request, result }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      console.error("Error testing URL tool:", error);
+      return new Response(JSON.stringify({ error: "Failed to test URL tool" }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  };
+
+  /**
+   * POST /api/user/url-tools/import/preview
+   * Parse an OpenAPI document and list the URL tools it would create
+   */
+  const importPreview = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const body: OpenApiImportRequest = await req.json();
+      if (!body.spec?.trim()) {
+        return new Response(JSON.stringify({ error: "An OpenAPI document is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      let preview;
+      try {
+        preview = previewOpenApiImport(parseOpenApiDocument(body.spec), body.base_url);
+      } catch (error) {
+        return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const existing = await deps.urlToolRepository.listByUser(auth.user.id);
+      const existingNames = new Set(existing.map((t) => t.name));
+      for (const op of preview.operations) {
+        op.exists = existingNames.has(op.tool.name);
+      }
+
+      return new Response(JSON.stringify(preview), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      console.error("Error previewing OpenAPI import:", error);
+      return new Response(JSON.stringify({ error: "Failed to preview OpenAPI import" }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  };
+
+  /**
+   * POST /api/user/url-tools/import
+   * Create URL tools for the selected operations of an OpenAPI document
+   */
+  const importOpenApi = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const body: OpenApiImportRequest = await req.json();
+      if (!body.spec?.trim() || !Array.isArray(body.operation_ids) || body.operation_ids.length === 0) {
+        return new Response(JSON.stringify({ error: "An OpenAPI document and at least one operation are required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const existing = await deps.urlToolRepository.listByUser(auth.user.id);
+
+      let selection;
+      try {
+        const preview = previewOpenApiImport(parseOpenApiDocument(body.spec), body.base_url);
+        selection = selectOpenApiTools(
+          preview,
+          body.operation_ids,
+          new Set(existing.map((t) => t.name)),
+          body.auth
+        );
+      } catch (error) {
+        return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const created = [];
+      for (const tool of selection.tools) {
+        created.push(
+          await deps.urlToolRepository.create({
+            user_id: auth.user.id,
+            name: tool.name,
+            description: tool.description,
+            url: tool.url,
+            method: tool.method,
+            headers: tool.headers ?? undefined,
+            parameters: tool.parameters,
+            query_params: tool.query_params ?? undefined,
+            body_template: tool.body_template ?? undefined,
+          })
+        );
+      }
+
+      return new Response(JSON.stringify({ created, skipped: selection.skipped }), {
+        status: 201,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      console.error("Error importing OpenAPI document:", error);
+      return new Response(JSON.stringify({ error: "Failed to import OpenAPI document" }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  };
+
+  return { list, create, update, remove, test, importPreview, importOpenApi };
 }
@@ -0,0 +1,83 @@
+import type { BunRequest } from "bun";
+import type { UsageRepository, UsageQuery } from "../repositories/UsageRepository";
+import type { UsageGroupBy, User } from "../types/models";
+
+const GROUPS: UsageGroupBy[] = ["agent", "conversation", "source", "day"];
+const DEFAULT_DAYS = 30;
+
+interface UsageHandlerDependencies {
+  usageRepository: UsageRepository;
+  authenticate: (
+    req: BunRequest
+  ) => Promise<{ user: User; session: { id: string; userId: number } } | null>;
+}
+
+/** Build a query from ?days=, ?agent_id= and ?conversation_id= (days=0 means all time) */
+function parseUsageQuery(url: URL): UsageQuery {
+  const query: UsageQuery = {};
+  const days = parseInt(url.searchParams.get("days") ?? String(DEFAULT_DAYS));
+  if (!isNaN(days) && days > 0) {
+    query.since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  }
+  const agentId = parseInt(url.searchParams.get("agent_id") ?? "");
+  if (!isNaN(agentId)) query.agent_id = agentId;
+  const conversationId = parseInt(url.searchParams.get("conversation_id") ?? "");
+  if (!isNaN(conversationId)) query.conversation_id = conversationId;
+  return query;
+}
+
+export function createUsageHandlers(deps: UsageHandlerDependencies) {
+  /**
+   * GET /api/usage
+   * Totals plus rollups by agent, source and day for the dashboard
+   */
+  const getSummary = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const query = parseUsageQuery(new URL(req.url));
+      const [total, by_agent, by_source, by_day] = await Promise.all([
+        deps.usageRepository.total(auth.user.id, query),
+        deps.usageRepository.summarize(auth.user.id, "agent", query),
+        deps.usageRepository.summarize(auth.user.id, "source", query),
+        deps.usageRepository.summarize(auth.user.id, "day", query),
+      ]);
+      return Response.json({ total, by_agent, by_source, by_day });
+    } catch (err) {
+      console.error("Error loading usage summary:", err);
+      return Response.json({ error: "Failed to load usage" }, { status: 500 });
+    }
+  };
+
+  /**
+   * GET /api/usage/:group
+   * Rollup by agent, conversation, source or day
+   */
+  const getRollup = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) return Response.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+      const url = new URL(req.url);
+      const group = url.pathname.split("/")[3] as UsageGroupBy;
+      if (!GROUPS.includes(group)) {
+        return Response.json(
+          { error: `Invalid grouping. Use one of: ${GROUPS.join(", ")}` },
+          { status: 400 }
+        );
+      }
+
+      const rollups = await deps.usageRepository.summarize(auth.user.id, group, parseUsageQuery(url));
+      return Response.json({ group_by: group, rollups });
+    } catch (err) {
+      console.error("Error loading usage rollup:", err);
+      return Response.json({ error: "Failed to load usage" }, { status: 500 });
+    }
+  };
+
+  return {
+    getSummary,
+    getRollup,
+  };
+}
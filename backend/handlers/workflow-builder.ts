@@ -76,16 +76,21 @@ Top-level fields:
 - description (string, required): what the workflow accomplishes
 - version (string, required): semver, start at "1.0.0"
 - tags (string[], optional): categorization tags
-- timeout_minutes (number, optional, default 30): max wall-clock time
+- timeout_minutes (number, optional, default 30): max wall-clock time, not counting time spent waiting for approval; a timed-out workflow can be resumed by the user
 - steps (array, required, non-empty): ordered list of steps
 
 Each step has:
 - id (string, required): snake_case identifier, unique within the workflow
+- type (optional): "conversation" (default), "action" or "approval"
 - name (string, required): human-readable step name
 - description (string, required): instructions for the agent executing this step
 - required_facts (array, required): facts the agent must collect
 - allowed_tools (string | string[], required): "conversation", "any", or an array of specific tool names
 - gate (object, required): conditions that must pass before advancing
+- action (object, required when type is "action"): a tool call the engine makes directly, with no model involved
+- approval (object, required when type is "approval"): a sign-off the workflow pauses for until someone approves or rejects
+- next (array, optional): branching rules tried in order once the gate passes; without a match the next step in the list follows
+- timeout_minutes (positive number, optional): max minutes the workflow may stay on this step before timing out; not allowed on approval steps
 
 Each fact has:
 - name (string, required): snake_case identifier, unique within the step
@@ -94,11 +99,35 @@ Each fact has:
 - enum_values (string[], required when type is "enum")
 - ask (string, optional): suggested phrasing for asking the user
 - default (any, optional): default value if the user declines
+- min / max (optional): bounds — the value for number, length for string, item count for list, a "YYYY-MM-DD" date for date
+- pattern (string, optional, string facts only): regex the value must match
+- items (list facts only, optional): a list of field definitions (same shape as a fact) when items are objects, or a single { type, ... } definition for scalar items
+
+Reported values are validated and coerced against these (e.g. "12.50" -> 12.5 for a number, "Yes" -> true), so declare types and constraints precisely.
 
 Each gate has:
 - conditions (array, non-empty): all must pass for the gate to open
 - on_fail: "retry" (default) | "abort" | "skip"
 
+Action steps:
+- action.tool (string, required): the tool to call (e.g. notify_user, sheets_append, mqtt_publish, a URL or MCP tool name)
+- action.args (object, optional): tool arguments; strings may contain {{ step_id.fact_name }} placeholders, and a string that is only a placeholder passes the fact's value unchanged
+- action.result_facts (object, optional): fact name -> dot path into the tool's JSON result ("" for the whole result)
+- required_facts and allowed_tools may be omitted; gate is optional (conditions may check result facts) and a failed tool call follows gate.on_fail
+
+Approval steps:
+- approval.message (string, required): what is being approved; may contain {{ step_id.fact_name }} placeholders
+- approval.channel (optional): "email" | "webhook" | "pushover" — only notify through this channel (default: all the user's enabled channels)
+- approval.destination (string, optional, requires channel): a named destination on that channel (e.g. the email recipient "Manager")
+- approval.expires_in_hours (positive number, optional, default 72): when the approve/reject links stop working; an expired request times the workflow out
+- The decision is recorded as the step's facts: decision ("approved" | "rejected"), decided_by, decided_at, comment. Do not declare required_facts
+- gate is optional; a failing gate aborts (or skips with on_fail: skip), retry isn't allowed. Prefer next rules on decision, e.g. goto "end" or loop back to a revision step when rejected
+
+Each next rule has:
+- goto (string, required): a step id, or "end" to complete the workflow
+- when (array of conditions, optional): all must pass for the rule to match; omit to always match
+- max_iterations (positive integer): required when goto is this step or an earlier one (a loop), not allowed otherwise
+
 Each condition has:
 - fact (string, required): fact name for the current step, or "<step_id>.<fact_name>" for cross-step references
 - operator: "exists" | "not_exists" | "equals" | "not_equals" | "in" | "not_in" | "contains" | "matches" | "gt" | "gte" | "lt" | "lte" | "length_gt" | "length_gte" | "length_lt" | "length_lte" | "is_true" | "is_false"
@@ -110,7 +139,10 @@ Each condition has:
 - Keep workflows focused. Usually 2-5 steps.
 - First step is typically a "collect information" step using allowed_tools: conversation.
 - Use specific tool names in allowed_tools when the step needs a non-conversational action (e.g. calendar_check_availability, notify). It's fine to list "conversation" alongside tools.
+- Prefer an action step when a tool call needs no judgement (e.g. appending a row, publishing a message, sending a notification once the facts are known).
+- Use an approval step when a person must sign off before the workflow continues (e.g. a manager approving an expense report).
 - Each required_fact should have a gate condition covering it so the workflow cannot advance with missing data.
+- Every step must be reachable from the first step. A step that only runs on a branch should be reached via a next rule, and the step before it should jump past it (goto) when the branch isn't taken.
 - Use the "matches" operator with a regex string for format validation (e.g., emails).
 - Always quote the version string.
 - Use snake_case for all ids and fact names.
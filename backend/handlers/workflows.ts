@@ -1,22 +1,271 @@
 import type { BunRequest } from "bun";
-import type { User } from "../types/models";
+import type { User, Workflow, WorkflowStepTemplate } from "../types/models";
 import type { AgentRepository } from "../repositories/AgentRepository";
 import type { WorkflowRepository } from "../repositories/WorkflowRepository";
-import { parseWorkflow, WorkflowParseError } from "../workflows/parser";
+import type { ConversationRepository } from "../repositories/ConversationRepository";
+import type { NotificationRepository } from "../repositories/NotificationRepository";
+import type { ModelProviderRepository } from "../repositories/ModelProviderRepository";
+import {
+  parseWorkflow,
+  parseStepTemplate,
+  listWorkflowReferences,
+  parseWorkflowRef,
+  WorkflowParseError,
+} from "../workflows/parser";
+import { loadWorkflowDefinition, loadWorkflowReferences } from "../workflows/references";
+import type { WorkflowReferences } from "../workflows/parser";
+import {
+  WorkflowEngine,
+  type ApprovalDecisionOutcome,
+  type ExecutionControlOutcome,
+} from "../workflows/WorkflowEngine";
+import { APPROVAL_DECISIONS, verifyApprovalToken, type ApprovalDecision } from "../workflows/approvals";
+import { buildExecutionHistory } from "../workflows/history";
+import { runWorkflowTest, validateTestScript, type WorkflowTestScript } from "../workflows/harness";
+import { resolveModel } from "../services/ModelResolver";
+import { loadUserApiKeys } from "../utils/modelProviders";
 
 function getDomain(email: string): string {
   return email.split("@")[1] || "";
 }
 
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Minimal standalone page for approvers following a signed link (they may not have an account) */
+function approvalPage(title: string, body: string, status = 200): Response {
+  const html = `<!doctype html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>body{font-family:system-ui,sans-serif;max-width:32rem;margin:3rem auto;padding:0 1rem;color:#222}
+textarea{width:100%;min-height:5rem}button{padding:.5rem 1rem;margin-top:.75rem}</style>
+</head><body><h1>${escapeHtml(title)}</h1>${body}</body></html>`;
+  return new Response(html, { status, headers: { "Content-Type": "text/html; charset=utf-8" } });
+}
+
+const DECISION_FAILURES: Record<Exclude<ApprovalDecisionOutcome, { ok: true }>["reason"], { status: number; error: string }> = {
+  not_found: { status: 404, error: "Approval not found" },
+  already_decided: { status: 409, error: "This approval has already been decided" },
+  expired: { status: 410, error: "This approval request has expired" },
+};
+
+const CONTROL_FAILURE_STATUS: Record<Exclude<ExecutionControlOutcome, { ok: true }>["reason"], number> = {
+  not_found: 404,
+  invalid_state: 409,
+  unknown_step: 400,
+  conflict: 409,
+};
+
 interface WorkflowHandlerDependencies {
   workflowRepository: WorkflowRepository;
   agentRepository: AgentRepository;
+  /** Used to post approval decisions into the workflow's conversation */
+  conversationRepository?: ConversationRepository | null;
+  notificationRepository?: NotificationRepository | null;
+  /** Signs and verifies approve/reject links; signed links are disabled without it */
+  encryptionSecret?: string;
+  /** Public URL of the app, used in approve/reject links */
+  frontendUrl?: string;
+  /** Custom providers for models that play test runs */
+  modelProviderRepository?: ModelProviderRepository | null;
   authenticate: (
     req: BunRequest
   ) => Promise<{ user: User; session: { id: string; userId: number } } | null>;
 }
 
 export function createWorkflowHandlers(deps: WorkflowHandlerDependencies) {
+  const workflowEngine = new WorkflowEngine({
+    workflowRepository: deps.workflowRepository,
+    notificationRepository: deps.notificationRepository,
+    approvalLinks: deps.encryptionSecret && deps.frontendUrl
+      ? { baseUrl: deps.frontendUrl, secret: deps.encryptionSecret }
+      : null,
+  });
+
+  /**
+   * Record a decision and tell the conversation the workflow paused in, so
+   * the agent picks up from the new step on the next turn.
+   */
+  const decide = async (
+    approvalId: number,
+    decision: ApprovalDecision,
+    decider: { via: "app"; decidedBy: string } | { via: "link" },
+    comment?: string | null
+  ): Promise<ApprovalDecisionOutcome> => {
+    const outcome = await workflowEngine.decideApproval(approvalId, decision, { ...decider, comment });
+    if (!outcome.ok || !deps.conversationRepository) return outcome;
+
+    const { approval, turn } = outcome;
+    let content = `**${approval.step_name}** was ${decision} by ${approval.decided_by}`;
+    content += approval.decided_via === "link" ? " through an approval link." : ".";
+    if (approval.comment) content += `\n\n> ${approval.comment}`;
+    if (turn.systemMessage) content += `\n\n${turn.systemMessage}`;
+    await deps.conversationRepository.addMessage({
+      conversation_id: approval.conversation_id,
+      role: "assistant",
+      content,
+      raw_data: { role: "assistant", content },
+      agent_id: approval.agent_id,
+    });
+    return outcome;
+  };
+
+  /**
+   * The user's workflows and step templates that refer to a step template
+   * (`include`) or a workflow (`uses`) by name, described for an error
+   * message; renaming or deleting it would break them.
+   */
+  const findDependents = async (
+    userId: number,
+    kind: "templates" | "workflows",
+    name: string
+  ): Promise<string[]> => {
+    const refersTo = (yamlContent: string): boolean => {
+      const refs = listWorkflowReferences(yamlContent);
+      return kind === "templates"
+        ? refs.templates.includes(name)
+        : refs.workflows.some((ref) => parseWorkflowRef(ref).workflow === name);
+    };
+    const [workflows, templates] = await Promise.all([
+      deps.workflowRepository.listByUser(userId),
+      deps.workflowRepository.listStepTemplates(userId),
+    ]);
+    return [
+      ...workflows.filter((w) => refersTo(w.yaml_content)).map((w) => `workflow "${w.name}"`),
+      ...templates.filter((t) => refersTo(t.yaml_content)).map((t) => `step template "${t.name}"`),
+    ];
+  };
+
+  /**
+   * Check the user's workflows and step templates still parse once the
+   * templates or workflows in `replaced` change to the given YAML. Returns
+   * the first problem, or null.
+   */
+  const checkDependents = async (
+    userId: number,
+    replaced: WorkflowReferences,
+    except: { workflowId?: number; templateId?: number } = {}
+  ): Promise<string | null> => {
+    const repo = deps.workflowRepository;
+    const replacedTemplates = replaced.templates ?? {};
+    const replacedWorkflows = replaced.workflows ?? {};
+    // What the new YAML refers to in turn
+    const added: WorkflowReferences = { templates: {}, workflows: {} };
+    for (const yamlContent of [...Object.values(replacedTemplates), ...Object.values(replacedWorkflows)]) {
+      const refs = await loadWorkflowReferences(repo, userId, yamlContent);
+      Object.assign(added.templates!, refs.templates);
+      Object.assign(added.workflows!, refs.workflows);
+    }
+
+    const dependents: Array<{ label: string; yamlContent: string; parse: (refs: WorkflowReferences) => unknown }> = [
+      ...(await repo.listByUser(userId))
+        .filter((w) => w.id !== except.workflowId)
+        .map((w) => ({
+          label: `Workflow "${w.name}"`,
+          yamlContent: w.yaml_content,
+          parse: (references: WorkflowReferences) => parseWorkflow(w.yaml_content, { references, name: w.name }),
+        })),
+      ...(await repo.listStepTemplates(userId))
+        .filter((t) => t.id !== except.templateId)
+        .map((t) => ({
+          label: `Step template "${t.name}"`,
+          yamlContent: t.yaml_content,
+          parse: (references: WorkflowReferences) => parseStepTemplate(t.yaml_content, { references }),
+        })),
+    ];
+
+    for (const dependent of dependents) {
+      const refs = await loadWorkflowReferences(repo, userId, dependent.yamlContent);
+      const affected =
+        Object.keys(replacedTemplates).some((name) => name in refs.templates!) ||
+        Object.keys(replacedWorkflows).some((ref) => ref in refs.workflows!);
+      if (!affected) continue;
+      try {
+        dependent.parse({
+          templates: { ...refs.templates, ...added.templates, ...replacedTemplates },
+          workflows: { ...refs.workflows, ...added.workflows, ...replacedWorkflows },
+        });
+      } catch (err) {
+        if (err instanceof WorkflowParseError) return `${dependent.label} would become invalid: ${err.message}`;
+        throw err;
+      }
+    }
+    return null;
+  };
+
+  /**
+   * Save YAML as a workflow's next revision. Running executions keep the
+   * revision they started with, but a step one of them is on can't be
+   * removed unless step_migrations maps it to a step in the new YAML; those
+   * executions are then moved onto the new revision.
+   */
+  const saveRevision = async (
+    workflow: Workflow,
+    yamlContent: string,
+    stepMigrations: Record<string, string> | undefined,
+    fields: { name?: string; description?: string } = {}
+  ): Promise<Response> => {
+    const active = await deps.workflowRepository.listActiveExecutionsByWorkflow(workflow.id);
+    const lockedStepIds = [...new Set(active.map((e) => e.current_step_id))];
+
+    const name = fields.name?.trim() || workflow.name;
+    const references = await loadWorkflowReferences(deps.workflowRepository, workflow.user_id, yamlContent);
+    let definition;
+    try {
+      definition = parseWorkflow(yamlContent, { lockedStepIds, stepMigrations, references, name });
+    } catch (err) {
+      if (err instanceof WorkflowParseError) {
+        // The YAML itself is fine; say which steps still need mapping
+        let removedStepIds: string[] | undefined;
+        if (err.path?.startsWith("step_migrations")) {
+          const stepIds = new Set(parseWorkflow(yamlContent, { references, name }).steps.map((s) => s.id));
+          removedStepIds = lockedStepIds.filter((id) => !stepIds.has(id));
+        }
+        return new Response(JSON.stringify({
+          error: "Invalid workflow YAML",
+          details: err.message,
+          path: err.path,
+          ...(removedStepIds ? { removed_step_ids: removedStepIds } : {}),
+        }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      throw err;
+    }
+
+    // Workflows that use this one (unpinned, or pinned to the version being saved) run the new YAML
+    const dependentError = await checkDependents(
+      workflow.user_id,
+      { workflows: { [name]: yamlContent, [`${name}@${definition.version}`]: yamlContent } },
+      { workflowId: workflow.id }
+    );
+    if (dependentError) {
+      return new Response(JSON.stringify({ error: "Invalid workflow YAML", details: dependentError }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const updated = await deps.workflowRepository.update(workflow.id, {
+      ...fields,
+      yaml_content: yamlContent,
+      version: definition.version,
+      tags: definition.tags,
+      timeout_minutes: definition.timeout_minutes,
+    });
+    const migrated = stepMigrations && updated.revision !== workflow.revision
+      ? await workflowEngine.migrateExecutions(updated, stepMigrations)
+      : 0;
+
+    return Response.json({ workflow: updated, migrated_executions: migrated });
+  };
+
   /**
    * GET /api/workflows
    */
@@ -69,7 +318,9 @@ export function createWorkflowHandlers(deps: WorkflowHandlerDependencies) {
       // Validate YAML
       let definition;
       try {
-        definition = parseWorkflow(body.yaml_content);
+        definition = await loadWorkflowDefinition(deps.workflowRepository, auth.user.id, body.yaml_content, {
+          name: body.name.trim(),
+        });
       } catch (err) {
         if (err instanceof WorkflowParseError) {
           return new Response(JSON.stringify({
@@ -142,7 +393,9 @@ export function createWorkflowHandlers(deps: WorkflowHandlerDependencies) {
     // Parse and include the definition
     let definition;
     try {
-      definition = parseWorkflow(workflow.yaml_content);
+      definition = await loadWorkflowDefinition(deps.workflowRepository, workflow.user_id, workflow.yaml_content, {
+        name: workflow.name,
+      });
     } catch {
       definition = null;
     }
@@ -151,9 +404,9 @@ export function createWorkflowHandlers(deps: WorkflowHandlerDependencies) {
   };
 
   /**
-   * PUT /api/workflows/:id
+   * GET /api/workflows/:id/executions
    */
-  const updateWorkflow = async (req: BunRequest): Promise<Response> => {
+  const listWorkflowExecutions = async (req: BunRequest): Promise<Response> => {
     const auth = await deps.authenticate(req);
     if (!auth) {
       return new Response(JSON.stringify({ error: "Unauthorized" }), {
@@ -163,7 +416,8 @@ export function createWorkflowHandlers(deps: WorkflowHandlerDependencies) {
     }
 
     const url = new URL(req.url);
-    const id = parseInt(url.pathname.split("/").pop() || "");
+    const pathParts = url.pathname.split("/");
+    const id = parseInt(pathParts[pathParts.indexOf("workflows") + 1] || "");
     if (isNaN(id)) {
       return new Response(JSON.stringify({ error: "Invalid workflow ID" }), {
         status: 400,
@@ -171,60 +425,28 @@ export function createWorkflowHandlers(deps: WorkflowHandlerDependencies) {
       });
     }
 
-    const existing = await deps.workflowRepository.findById(id);
-    if (!existing || existing.user_id !== auth.user.id) {
+    const workflow = await deps.workflowRepository.findById(id);
+    if (!workflow || workflow.user_id !== auth.user.id) {
       return new Response(JSON.stringify({ error: "Workflow not found" }), {
         status: 404,
         headers: { "Content-Type": "application/json" },
       });
     }
 
-    try {
-      const body = await req.json() as {
-        name?: string;
-        description?: string;
-        yaml_content?: string;
-      };
-
-      // Validate YAML if provided
-      if (body.yaml_content) {
-        try {
-          parseWorkflow(body.yaml_content);
-        } catch (err) {
-          if (err instanceof WorkflowParseError) {
-            return new Response(JSON.stringify({
-              error: "Invalid workflow YAML",
-              details: err.message,
-              path: err.path,
-            }), {
-              status: 400,
-              headers: { "Content-Type": "application/json" },
-            });
-          }
-          throw err;
-        }
-      }
-
-      const updated = await deps.workflowRepository.update(id, {
-        name: body.name,
-        description: body.description,
-        yaml_content: body.yaml_content,
-      });
-
-      return Response.json({ workflow: updated });
-    } catch (error) {
-      console.error("Update workflow error:", error);
-      return new Response(
-        JSON.stringify({ error: error instanceof Error ? error.message : "Failed to update workflow" }),
-        { status: 500, headers: { "Content-Type": "application/json" } }
-      );
-    }
+    const limit = parseInt(url.searchParams.get("limit") || "");
+    const executions = await deps.workflowRepository.listExecutionsByWorkflow(
+      id,
+      isNaN(limit) ? undefined : Math.min(Math.max(limit, 1), 200)
+    );
+    return Response.json({ executions });
   };
 
   /**
-   * DELETE /api/workflows/:id
+   * GET /api/workflow-executions/:id
+   * A single execution with per-step statuses, facts and where they came
+   * from, gate and verifier outcomes, approvals, and a combined timeline.
    */
-  const deleteWorkflow = async (req: BunRequest): Promise<Response> => {
+  const getWorkflowExecution = async (req: BunRequest): Promise<Response> => {
     const auth = await deps.authenticate(req);
     if (!auth) {
       return new Response(JSON.stringify({ error: "Unauthorized" }), {
@@ -236,29 +458,58 @@ export function createWorkflowHandlers(deps: WorkflowHandlerDependencies) {
     const url = new URL(req.url);
     const id = parseInt(url.pathname.split("/").pop() || "");
     if (isNaN(id)) {
-      return new Response(JSON.stringify({ error: "Invalid workflow ID" }), {
+      return new Response(JSON.stringify({ error: "Invalid execution ID" }), {
         status: 400,
         headers: { "Content-Type": "application/json" },
       });
     }
 
-    const existing = await deps.workflowRepository.findById(id);
-    if (!existing || existing.user_id !== auth.user.id) {
-      return new Response(JSON.stringify({ error: "Workflow not found" }), {
+    const execution = await deps.workflowRepository.findExecutionById(id);
+    const workflow = execution ? await deps.workflowRepository.findById(execution.workflow_id) : null;
+    if (!execution || !workflow || workflow.user_id !== auth.user.id) {
+      return new Response(JSON.stringify({ error: "Execution not found" }), {
         status: 404,
         headers: { "Content-Type": "application/json" },
       });
     }
 
-    await deps.workflowRepository.delete(id);
-    return new Response(null, { status: 204 });
+    const revision = execution.revision_id !== null
+      ? await deps.workflowRepository.findRevisionById(execution.revision_id)
+      : null;
+
+    let definition;
+    try {
+      definition = await loadWorkflowDefinition(
+        deps.workflowRepository,
+        workflow.user_id,
+        revision?.yaml_content ?? workflow.yaml_content,
+        { name: workflow.name }
+      );
+    } catch {
+      return new Response(JSON.stringify({ error: "Workflow definition is no longer valid" }), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const [facts, attempts, approvals] = await Promise.all([
+      deps.workflowRepository.listFacts(id),
+      deps.workflowRepository.listStepAttempts(id),
+      deps.workflowRepository.listApprovalsByExecution(id),
+    ]);
+    const history = buildExecutionHistory(definition, execution, facts, attempts, approvals);
+
+    return Response.json({ execution, workflow, revision, definition, ...history });
   };
 
   /**
-   * POST /api/workflows/:id/validate
-   * Validate a workflow YAML without saving
+   * Shared by the cancel/restart/resume endpoints: check the caller owns the
+   * execution, run the action and tell the conversation what happened.
    */
-  const validateWorkflow = async (req: BunRequest): Promise<Response> => {
+  const controlExecution = async (
+    req: BunRequest,
+    action: (executionId: number) => Promise<ExecutionControlOutcome>
+  ): Promise<Response> => {
     const auth = await deps.authenticate(req);
     if (!auth) {
       return new Response(JSON.stringify({ error: "Unauthorized" }), {
@@ -267,85 +518,93 @@ export function createWorkflowHandlers(deps: WorkflowHandlerDependencies) {
       });
     }
 
-    try {
-      const body = await req.json() as { yaml_content: string };
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/");
+    const id = parseInt(pathParts[pathParts.indexOf("workflow-executions") + 1] || "");
+    if (isNaN(id)) {
+      return new Response(JSON.stringify({ error: "Invalid execution ID" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
-      if (!body.yaml_content?.trim()) {
-        return new Response(JSON.stringify({ error: "YAML content is required" }), {
-          status: 400,
+    const execution = await deps.workflowRepository.findExecutionById(id);
+    const workflow = execution ? await deps.workflowRepository.findById(execution.workflow_id) : null;
+    if (!execution || !workflow || workflow.user_id !== auth.user.id) {
+      return new Response(JSON.stringify({ error: "Execution not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const outcome = await action(id);
+      if (!outcome.ok) {
+        return new Response(JSON.stringify({ error: outcome.message }), {
+          status: CONTROL_FAILURE_STATUS[outcome.reason],
           headers: { "Content-Type": "application/json" },
         });
       }
 
-      try {
-        const definition = parseWorkflow(body.yaml_content);
-        return Response.json({
-          valid: true,
-          definition: {
-            name: definition.name,
-            description: definition.description,
-            version: definition.version,
-            tags: definition.tags,
-            steps: definition.steps.map((s) => ({
-              id: s.id,
-              name: s.name,
-              facts_count: s.required_facts.length,
-              gate_conditions_count: s.gate.conditions.length,
-            })),
-          },
-        });
-      } catch (err) {
-        if (err instanceof WorkflowParseError) {
-          return Response.json({
-            valid: false,
-            error: err.message,
-            path: err.path,
+      if (deps.conversationRepository) {
+        const conversation = await deps.conversationRepository.findById(execution.conversation_id);
+        if (conversation) {
+          await deps.conversationRepository.addMessage({
+            conversation_id: conversation.id,
+            role: "assistant",
+            content: outcome.message,
+            raw_data: { role: "assistant", content: outcome.message },
+            agent_id: conversation.agent_id,
           });
         }
-        throw err;
       }
+
+      return Response.json({ execution: outcome.execution, message: outcome.message });
     } catch (error) {
-      console.error("Validate workflow error:", error);
+      console.error("Workflow execution control error:", error);
       return new Response(
-        JSON.stringify({ error: error instanceof Error ? error.message : "Validation failed" }),
+        JSON.stringify({ error: error instanceof Error ? error.message : "Failed to update execution" }),
         { status: 500, headers: { "Content-Type": "application/json" } }
       );
     }
   };
 
   /**
-   * GET /api/agents/:slug/workflows
+   * POST /api/workflow-executions/:id/cancel
    */
-  const listAgentWorkflows = async (req: BunRequest): Promise<Response> => {
-    const auth = await deps.authenticate(req);
-    if (!auth) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
+  const cancelWorkflowExecution = (req: BunRequest): Promise<Response> =>
+    controlExecution(req, (id) => workflowEngine.cancelExecution(id));
 
-    const url = new URL(req.url);
-    const pathParts = url.pathname.split("/");
-    const slug = pathParts[pathParts.indexOf("agents") + 1] || "";
-
-    const domain = getDomain(auth.user.email);
-    const agent = await deps.agentRepository.findAccessibleBySlug(auth.user.id, domain, slug);
-    if (!agent) {
-      return new Response(JSON.stringify({ error: "Agent not found" }), {
-        status: 404,
+  /**
+   * POST /api/workflow-executions/:id/restart
+   * Body: { step_id } — facts from earlier steps are kept
+   */
+  const restartWorkflowExecution = async (req: BunRequest): Promise<Response> => {
+    let stepId: unknown;
+    try {
+      stepId = ((await req.json()) as { step_id?: unknown }).step_id;
+    } catch {
+      // reported below
+    }
+    if (typeof stepId !== "string" || !stepId) {
+      return new Response(JSON.stringify({ error: "step_id is required" }), {
+        status: 400,
         headers: { "Content-Type": "application/json" },
       });
     }
-
-    const agentWorkflows = await deps.workflowRepository.listAgentWorkflows(agent.id);
-    return Response.json({ workflows: agentWorkflows });
+    return controlExecution(req, (id) => workflowEngine.restartExecution(id, stepId as string));
   };
 
   /**
-   * POST /api/agents/:slug/workflows
+   * POST /api/workflow-executions/:id/resume
    */
-  const assignAgentWorkflow = async (req: BunRequest): Promise<Response> => {
+  const resumeWorkflowExecution = (req: BunRequest): Promise<Response> =>
+    controlExecution(req, (id) => workflowEngine.resumeExecution(id));
+
+  /**
+   * PUT /api/workflows/:id
+   */
+  const updateWorkflow = async (req: BunRequest): Promise<Response> => {
     const auth = await deps.authenticate(req);
     if (!auth) {
       return new Response(JSON.stringify({ error: "Unauthorized" }), {
@@ -355,62 +614,68 @@ export function createWorkflowHandlers(deps: WorkflowHandlerDependencies) {
     }
 
     const url = new URL(req.url);
-    const pathParts = url.pathname.split("/");
-    const slug = pathParts[pathParts.indexOf("agents") + 1] || "";
+    const id = parseInt(url.pathname.split("/").pop() || "");
+    if (isNaN(id)) {
+      return new Response(JSON.stringify({ error: "Invalid workflow ID" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
-    const domain = getDomain(auth.user.email);
-    const agent = await deps.agentRepository.findAccessibleBySlug(auth.user.id, domain, slug);
-    if (!agent) {
-      return new Response(JSON.stringify({ error: "Agent not found" }), {
+    const existing = await deps.workflowRepository.findById(id);
+    if (!existing || existing.user_id !== auth.user.id) {
+      return new Response(JSON.stringify({ error: "Workflow not found" }), {
         status: 404,
         headers: { "Content-Type": "application/json" },
       });
     }
 
     try {
-      const body = await req.json() as { workflow_id: number; is_default?: boolean };
+      const body = await req.json() as {
+        name?: string;
+        description?: string;
+        yaml_content?: string;
+        step_migrations?: Record<string, string>;
+      };
 
-      if (!body.workflow_id) {
-        return new Response(JSON.stringify({ error: "workflow_id is required" }), {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
-        });
+      if (body.name?.trim() && body.name.trim() !== existing.name) {
+        const dependents = await findDependents(auth.user.id, "workflows", existing.name);
+        if (dependents.length > 0) {
+          return new Response(JSON.stringify({
+            error: `Can't rename a workflow other definitions use (${dependents.join(", ")})`,
+          }), {
+            status: 409,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
       }
 
-      // Verify workflow exists and belongs to user
-      const workflow = await deps.workflowRepository.findById(body.workflow_id);
-      if (!workflow || workflow.user_id !== auth.user.id) {
-        return new Response(JSON.stringify({ error: "Workflow not found" }), {
-          status: 404,
-          headers: { "Content-Type": "application/json" },
+      if (body.yaml_content) {
+        return await saveRevision(existing, body.yaml_content, body.step_migrations, {
+          name: body.name,
+          description: body.description,
         });
       }
 
-      const assignment = await deps.workflowRepository.assignWorkflow(
-        agent.id,
-        body.workflow_id,
-        body.is_default ?? false
-      );
-
-      // If setting as default, update the default
-      if (body.is_default) {
-        await deps.workflowRepository.setDefaultWorkflow(agent.id, body.workflow_id);
-      }
+      const updated = await deps.workflowRepository.update(id, {
+        name: body.name,
+        description: body.description,
+      });
 
-      return Response.json({ assignment }, { status: 201 });
+      return Response.json({ workflow: updated });
     } catch (error) {
-      console.error("Assign workflow error:", error);
+      console.error("Update workflow error:", error);
       return new Response(
-        JSON.stringify({ error: error instanceof Error ? error.message : "Failed to assign workflow" }),
+        JSON.stringify({ error: error instanceof Error ? error.message : "Failed to update workflow" }),
         { status: 500, headers: { "Content-Type": "application/json" } }
       );
     }
   };
 
   /**
-   * DELETE /api/agents/:slug/workflows/:workflowId
+   * GET /api/workflows/:id/revisions
    */
-  const unassignAgentWorkflow = async (req: BunRequest): Promise<Response> => {
+  const listWorkflowRevisions = async (req: BunRequest): Promise<Response> => {
     const auth = await deps.authenticate(req);
     if (!auth) {
       return new Response(JSON.stringify({ error: "Unauthorized" }), {
@@ -421,21 +686,625 @@ export function createWorkflowHandlers(deps: WorkflowHandlerDependencies) {
 
     const url = new URL(req.url);
     const pathParts = url.pathname.split("/");
-    const slug = pathParts[pathParts.indexOf("agents") + 1] || "";
-    const workflowId = parseInt(pathParts[pathParts.length - 1] || "");
-
-    if (isNaN(workflowId)) {
+    const id = parseInt(pathParts[pathParts.indexOf("workflows") + 1] || "");
+    if (isNaN(id)) {
       return new Response(JSON.stringify({ error: "Invalid workflow ID" }), {
         status: 400,
         headers: { "Content-Type": "application/json" },
       });
     }
 
-    const domain = getDomain(auth.user.email);
-    const agent = await deps.agentRepository.findAccessibleBySlug(auth.user.id, domain, slug);
-    if (!agent) {
-      return new Response(JSON.stringify({ error: "Agent not found" }), {
-        status: 404,
+    const workflow = await deps.workflowRepository.findById(id);
+    if (!workflow || workflow.user_id !== auth.user.id) {
+      return new Response(JSON.stringify({ error: "Workflow not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const revisions = await deps.workflowRepository.listRevisions(id);
+    return Response.json({ revisions });
+  };
+
+  /**
+   * POST /api/workflows/:id/revisions/:revision/rollback
+   * Saves an earlier revision's YAML as a new revision.
+   * Body (optional): { step_migrations }
+   */
+  const rollbackWorkflow = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/");
+    const id = parseInt(pathParts[pathParts.indexOf("workflows") + 1] || "");
+    const revisionNumber = parseInt(pathParts[pathParts.indexOf("revisions") + 1] || "");
+    if (isNaN(id) || isNaN(revisionNumber)) {
+      return new Response(JSON.stringify({ error: "Invalid workflow or revision" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const workflow = await deps.workflowRepository.findById(id);
+    if (!workflow || workflow.user_id !== auth.user.id) {
+      return new Response(JSON.stringify({ error: "Workflow not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const revision = await deps.workflowRepository.findRevision(id, revisionNumber);
+    if (!revision) {
+      return new Response(JSON.stringify({ error: "Revision not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (revision.revision === workflow.revision) {
+      return new Response(JSON.stringify({ error: "That is already the current revision" }), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      let stepMigrations: Record<string, string> | undefined;
+      try {
+        stepMigrations = ((await req.json()) as { step_migrations?: Record<string, string> }).step_migrations;
+      } catch {
+        // No body
+      }
+      return await saveRevision(workflow, revision.yaml_content, stepMigrations);
+    } catch (error) {
+      console.error("Rollback workflow error:", error);
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : "Failed to roll back workflow" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  };
+
+  /**
+   * DELETE /api/workflows/:id
+   */
+  const deleteWorkflow = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const url = new URL(req.url);
+    const id = parseInt(url.pathname.split("/").pop() || "");
+    if (isNaN(id)) {
+      return new Response(JSON.stringify({ error: "Invalid workflow ID" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const existing = await deps.workflowRepository.findById(id);
+    if (!existing || existing.user_id !== auth.user.id) {
+      return new Response(JSON.stringify({ error: "Workflow not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const dependents = (await findDependents(auth.user.id, "workflows", existing.name))
+      .filter((d) => d !== `workflow "${existing.name}"`);
+    if (dependents.length > 0) {
+      return new Response(JSON.stringify({ error: `Workflow is used by ${dependents.join(", ")}` }), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    await deps.workflowRepository.delete(id);
+    return new Response(null, { status: 204 });
+  };
+
+  /**
+   * POST /api/workflows/:id/validate
+   * Validate a workflow YAML without saving
+   */
+  const validateWorkflow = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const body = await req.json() as { yaml_content: string };
+
+      if (!body.yaml_content?.trim()) {
+        return new Response(JSON.stringify({ error: "YAML content is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      try {
+        const definition = await loadWorkflowDefinition(deps.workflowRepository, auth.user.id, body.yaml_content);
+        return Response.json({
+          valid: true,
+          definition: {
+            name: definition.name,
+            description: definition.description,
+            version: definition.version,
+            tags: definition.tags,
+            steps: definition.steps.map((s) => ({
+              id: s.id,
+              name: s.name,
+              facts_count: s.required_facts.length,
+              gate_conditions_count: s.gate.conditions.length,
+            })),
+          },
+        });
+      } catch (err) {
+        if (err instanceof WorkflowParseError) {
+          return Response.json({
+            valid: false,
+            error: err.message,
+            path: err.path,
+          });
+        }
+        throw err;
+      }
+    } catch (error) {
+      console.error("Validate workflow error:", error);
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : "Validation failed" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  };
+
+  /**
+   * POST /api/workflows/:id/test
+   * Play a test script against the workflow (or unsaved YAML for it) and
+   * report how far it got. Nothing is saved.
+   * Body: { script, yaml_content?, model?, verify? } — with a model
+   * ("provider:model"), it plays the agent and any simulated user instead of
+   * a mock that reports the script's facts; verify also checks gates with it.
+   */
+  const testWorkflow = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/");
+    const id = parseInt(pathParts[pathParts.indexOf("workflows") + 1] || "");
+    if (isNaN(id)) {
+      return new Response(JSON.stringify({ error: "Invalid workflow ID" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const workflow = await deps.workflowRepository.findById(id);
+    if (!workflow || workflow.user_id !== auth.user.id) {
+      return new Response(JSON.stringify({ error: "Workflow not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const body = await req.json() as { script: unknown; yaml_content?: string; model?: string; verify?: boolean };
+
+      const scriptError = validateTestScript(body.script);
+      if (scriptError) {
+        return new Response(JSON.stringify({ error: scriptError }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      const script = body.script as WorkflowTestScript;
+
+      if (script.simulated_user && !body.model) {
+        return new Response(JSON.stringify({ error: "A simulated user needs a model to play it" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      let model;
+      if (body.model) {
+        if (!deps.encryptionSecret) {
+          return new Response(JSON.stringify({ error: "Model-played test runs are not available" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+        try {
+          const apiKeys = await loadUserApiKeys(auth.user, deps.modelProviderRepository, deps.encryptionSecret);
+          model = resolveModel(body.model, apiKeys);
+        } catch (err) {
+          return new Response(
+            JSON.stringify({ error: err instanceof Error ? err.message : "Failed to resolve model" }),
+            { status: 400, headers: { "Content-Type": "application/json" } }
+          );
+        }
+      }
+
+      try {
+        const yamlContent = body.yaml_content?.trim() ? body.yaml_content : workflow.yaml_content;
+        const report = await runWorkflowTest(yamlContent, script, {
+          agentModel: model,
+          userModel: model,
+          verifierModel: body.verify ? model : undefined,
+          references: await loadWorkflowReferences(deps.workflowRepository, auth.user.id, yamlContent),
+        });
+        return Response.json({ report });
+      } catch (err) {
+        if (err instanceof WorkflowParseError) {
+          return new Response(JSON.stringify({
+            error: "Invalid workflow YAML",
+            details: err.message,
+            path: err.path,
+          }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+        throw err;
+      }
+    } catch (error) {
+      console.error("Test workflow error:", error);
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : "Test run failed" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  };
+
+  /**
+   * Check step template YAML against the user's other templates, returning
+   * the parsed template or a 400 response
+   */
+  const parseTemplateYaml = async (
+    userId: number,
+    yamlContent: string | undefined
+  ): Promise<{ name: string; description: string } | Response> => {
+    if (!yamlContent?.trim()) {
+      return new Response(JSON.stringify({ error: "YAML content is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    try {
+      const references = await loadWorkflowReferences(deps.workflowRepository, userId, yamlContent);
+      return parseStepTemplate(yamlContent, { references });
+    } catch (err) {
+      if (err instanceof WorkflowParseError) {
+        return new Response(JSON.stringify({
+          error: "Invalid step template YAML",
+          details: err.message,
+          path: err.path,
+        }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      throw err;
+    }
+  };
+
+  /**
+   * Find one of the user's step templates from the request path
+   */
+  const findOwnTemplate = async (
+    req: BunRequest,
+    userId: number
+  ): Promise<WorkflowStepTemplate | Response> => {
+    const url = new URL(req.url);
+    const id = parseInt(url.pathname.split("/").pop() || "");
+    if (isNaN(id)) {
+      return new Response(JSON.stringify({ error: "Invalid step template ID" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const template = await deps.workflowRepository.findStepTemplateById(id);
+    if (!template || template.user_id !== userId) {
+      return new Response(JSON.stringify({ error: "Step template not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    return template;
+  };
+
+  /**
+   * GET /api/workflow-templates
+   */
+  const listStepTemplates = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const templates = await deps.workflowRepository.listStepTemplates(auth.user.id);
+    return Response.json({ templates });
+  };
+
+  /**
+   * POST /api/workflow-templates
+   * The template's name and description come from its YAML
+   */
+  const createStepTemplate = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const body = await req.json() as { yaml_content?: string };
+      const parsed = await parseTemplateYaml(auth.user.id, body.yaml_content);
+      if (parsed instanceof Response) return parsed;
+
+      const template = await deps.workflowRepository.createStepTemplate({
+        user_id: auth.user.id,
+        name: parsed.name,
+        description: parsed.description,
+        yaml_content: body.yaml_content!,
+      });
+      return Response.json({ template }, { status: 201 });
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return new Response(JSON.stringify({ error: "A step template with that name already exists" }), {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      console.error("Create step template error:", error);
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : "Failed to create step template" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  };
+
+  /**
+   * PUT /api/workflow-templates/:id
+   * Rejected when the change would break a workflow or template including it
+   */
+  const updateStepTemplate = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const existing = await findOwnTemplate(req, auth.user.id);
+    if (existing instanceof Response) return existing;
+
+    try {
+      const body = await req.json() as { yaml_content?: string };
+      const parsed = await parseTemplateYaml(auth.user.id, body.yaml_content);
+      if (parsed instanceof Response) return parsed;
+
+      if (parsed.name !== existing.name) {
+        const dependents = await findDependents(auth.user.id, "templates", existing.name);
+        if (dependents.length > 0) {
+          return new Response(JSON.stringify({
+            error: `Can't rename a step template that is in use (${dependents.join(", ")})`,
+          }), {
+            status: 409,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      }
+
+      const dependentError = await checkDependents(
+        auth.user.id,
+        { templates: { [parsed.name]: body.yaml_content! } },
+        { templateId: existing.id }
+      );
+      if (dependentError) {
+        return new Response(JSON.stringify({ error: "Invalid step template YAML", details: dependentError }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const template = await deps.workflowRepository.updateStepTemplate(existing.id, {
+        name: parsed.name,
+        description: parsed.description,
+        yaml_content: body.yaml_content!,
+      });
+      return Response.json({ template });
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return new Response(JSON.stringify({ error: "A step template with that name already exists" }), {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      console.error("Update step template error:", error);
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : "Failed to update step template" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  };
+
+  /**
+   * DELETE /api/workflow-templates/:id
+   */
+  const deleteStepTemplate = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const existing = await findOwnTemplate(req, auth.user.id);
+    if (existing instanceof Response) return existing;
+
+    const dependents = (await findDependents(auth.user.id, "templates", existing.name))
+      .filter((d) => d !== `step template "${existing.name}"`);
+    if (dependents.length > 0) {
+      return new Response(JSON.stringify({ error: `Step template is used by ${dependents.join(", ")}` }), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    await deps.workflowRepository.deleteStepTemplate(existing.id);
+    return new Response(null, { status: 204 });
+  };
+
+  /**
+   * GET /api/agents/:slug/workflows
+   */
+  const listAgentWorkflows = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/");
+    const slug = pathParts[pathParts.indexOf("agents") + 1] || "";
+
+    const domain = getDomain(auth.user.email);
+    const agent = await deps.agentRepository.findAccessibleBySlug(auth.user.id, domain, slug);
+    if (!agent) {
+      return new Response(JSON.stringify({ error: "Agent not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const agentWorkflows = await deps.workflowRepository.listAgentWorkflows(agent.id);
+    return Response.json({ workflows: agentWorkflows });
+  };
+
+  /**
+   * POST /api/agents/:slug/workflows
+   */
+  const assignAgentWorkflow = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/");
+    const slug = pathParts[pathParts.indexOf("agents") + 1] || "";
+
+    const domain = getDomain(auth.user.email);
+    const agent = await deps.agentRepository.findAccessibleBySlug(auth.user.id, domain, slug);
+    if (!agent) {
+      return new Response(JSON.stringify({ error: "Agent not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const body = await req.json() as { workflow_id: number; is_default?: boolean };
+
+      if (!body.workflow_id) {
+        return new Response(JSON.stringify({ error: "workflow_id is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      // Verify workflow exists and belongs to user
+      const workflow = await deps.workflowRepository.findById(body.workflow_id);
+      if (!workflow || workflow.user_id !== auth.user.id) {
+        return new Response(JSON.stringify({ error: "Workflow not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const assignment = await deps.workflowRepository.assignWorkflow(
+        agent.id,
+        body.workflow_id,
+        body.is_default ?? false
+      );
+
+      // If setting as default, update the default
+      if (body.is_default) {
+        await deps.workflowRepository.setDefaultWorkflow(agent.id, body.workflow_id);
+      }
+
+      return Response.json({ assignment }, { status: 201 });
+    } catch (error) {
+      console.error("Assign workflow error:", error);
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : "Failed to assign workflow" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  };
+
+  /**
+   * DELETE /api/agents/:slug/workflows/:workflowId
+   */
+  const unassignAgentWorkflow = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/");
+    const slug = pathParts[pathParts.indexOf("agents") + 1] || "";
+    const workflowId = parseInt(pathParts[pathParts.length - 1] || "");
+
+    if (isNaN(workflowId)) {
+      return new Response(JSON.stringify({ error: "Invalid workflow ID" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const domain = getDomain(auth.user.email);
+    const agent = await deps.agentRepository.findAccessibleBySlug(auth.user.id, domain, slug);
+    if (!agent) {
+      return new Response(JSON.stringify({ error: "Agent not found" }), {
+        status: 404,
         headers: { "Content-Type": "application/json" },
       });
     }
@@ -481,16 +1350,182 @@ export function createWorkflowHandlers(deps: WorkflowHandlerDependencies) {
     return Response.json({ success: true });
   };
 
+  /**
+   * GET /api/workflows/approvals
+   * Approval requests for the user's workflows (?status=pending|approved|rejected|expired)
+   */
+  const listApprovals = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const status = new URL(req.url).searchParams.get("status");
+    if (status && !["pending", "approved", "rejected", "expired"].includes(status)) {
+      return new Response(JSON.stringify({ error: "Invalid status" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const approvals = await deps.workflowRepository.listApprovalsByUser(auth.user.id, {
+      status: (status || undefined) as "pending" | "approved" | "rejected" | "expired" | undefined,
+    });
+    return Response.json({ approvals });
+  };
+
+  /**
+   * POST /api/workflows/approvals/:id/decision
+   * Approve or reject from the approvals inbox
+   */
+  const decideApproval = async (req: BunRequest): Promise<Response> => {
+    const auth = await deps.authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/");
+    const id = parseInt(pathParts[pathParts.indexOf("approvals") + 1] || "");
+    if (isNaN(id)) {
+      return new Response(JSON.stringify({ error: "Invalid approval ID" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const approval = await deps.workflowRepository.findApprovalById(id);
+    if (!approval || approval.user_id !== auth.user.id) {
+      return new Response(JSON.stringify({ error: "Approval not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const body = await req.json() as { decision: ApprovalDecision; comment?: string };
+      if (!APPROVAL_DECISIONS.includes(body.decision)) {
+        return new Response(JSON.stringify({ error: `decision must be one of: ${APPROVAL_DECISIONS.join(", ")}` }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const outcome = await decide(id, body.decision, { via: "app", decidedBy: auth.user.email }, body.comment);
+      if (!outcome.ok) {
+        const failure = DECISION_FAILURES[outcome.reason];
+        return new Response(JSON.stringify({ error: failure.error, approval: outcome.approval }), {
+          status: failure.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      return Response.json({ approval: outcome.approval, message: outcome.turn.systemMessage });
+    } catch (error) {
+      console.error("Decide approval error:", error);
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : "Failed to record decision" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  };
+
+  /**
+   * GET /api/workflows/approvals/respond?token=...
+   * Landing page for a signed approve/reject link. Deciding takes a POST so
+   * that link scanners and previews can't approve anything.
+   */
+  const showApprovalLink = async (req: BunRequest): Promise<Response> => {
+    const token = new URL(req.url).searchParams.get("token") || "";
+    const verified = deps.encryptionSecret ? await verifyApprovalToken(token, deps.encryptionSecret) : null;
+    if (!verified) {
+      return approvalPage("Invalid link", "<p>This approval link is invalid.</p>", 400);
+    }
+
+    const approval = await deps.workflowRepository.findApprovalById(verified.approvalId);
+    if (!approval) {
+      return approvalPage("Invalid link", "<p>This approval request no longer exists.</p>", 404);
+    }
+    if (approval.status !== "pending") {
+      return approvalPage("Already decided", `<p>This request is already <strong>${escapeHtml(approval.status)}</strong>.</p>`);
+    }
+
+    const verb = verified.decision === "approved" ? "Approve" : "Reject";
+    return approvalPage(
+      `${verb}: ${approval.step_name}`,
+      `<p>${escapeHtml(approval.message)}</p>
+<form method="post" action="/api/workflows/approvals/respond">
+<input type="hidden" name="token" value="${escapeHtml(token)}">
+<label for="comment">Comment (optional)</label>
+<textarea id="comment" name="comment"></textarea>
+<button type="submit">${verb}</button>
+</form>`
+    );
+  };
+
+  /**
+   * POST /api/workflows/approvals/respond
+   * Form submission from the signed link landing page
+   */
+  const respondToApprovalLink = async (req: BunRequest): Promise<Response> => {
+    try {
+      const form = await req.formData();
+      const token = String(form.get("token") || "");
+      const comment = String(form.get("comment") || "");
+
+      const verified = deps.encryptionSecret ? await verifyApprovalToken(token, deps.encryptionSecret) : null;
+      if (!verified) {
+        return approvalPage("Invalid link", "<p>This approval link is invalid.</p>", 400);
+      }
+
+      const outcome = await decide(verified.approvalId, verified.decision, { via: "link" }, comment);
+      if (!outcome.ok) {
+        const failure = DECISION_FAILURES[outcome.reason];
+        return approvalPage("Not recorded", `<p>${escapeHtml(failure.error)}.</p>`, failure.status);
+      }
+
+      return approvalPage(
+        verified.decision === "approved" ? "Approved" : "Rejected",
+        `<p>Your decision on <strong>${escapeHtml(outcome.approval.step_name)}</strong> has been recorded. You can close this page.</p>`
+      );
+    } catch (error) {
+      console.error("Approval link error:", error);
+      return approvalPage("Something went wrong", "<p>Your decision could not be recorded. Please try again.</p>", 500);
+    }
+  };
+
   return {
     listWorkflows,
     createWorkflow,
     getWorkflow,
+    listWorkflowExecutions,
+    getWorkflowExecution,
+    cancelWorkflowExecution,
+    restartWorkflowExecution,
+    resumeWorkflowExecution,
     updateWorkflow,
+    listWorkflowRevisions,
+    rollbackWorkflow,
     deleteWorkflow,
     validateWorkflow,
+    testWorkflow,
+    listStepTemplates,
+    createStepTemplate,
+    updateStepTemplate,
+    deleteStepTemplate,
     listAgentWorkflows,
     assignAgentWorkflow,
     unassignAgentWorkflow,
     setDefaultAgentWorkflow,
+    listApprovals,
+    decideApproval,
+    showApprovalLink,
+    respondToApprovalLink,
   };
 }
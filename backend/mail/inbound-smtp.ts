@@ -0,0 +1,203 @@
+/**
+ * Inbound SMTP
+ *
+ * A small SMTP server for receiving mail addressed to agents, meant to sit
+ * behind the host's MTA or on a private network: no TLS or AUTH, one
+ * message per transaction, recipients checked at RCPT so unknown addresses
+ * are refused before the message is sent.
+ */
+
+import { createServer, type AddressInfo, type Server, type Socket } from "node:net";
+import { hostname } from "node:os";
+
+const DEFAULT_MAX_MESSAGE_BYTES = 10 * 1024 * 1024;
+const IDLE_TIMEOUT_MS = 60_000;
+const MAX_RECIPIENTS = 20;
+
+export interface InboundEnvelope {
+  /** MAIL FROM; '' for bounces */
+  from: string;
+  /** Accepted RCPT TO addresses */
+  to: string[];
+}
+
+export interface InboundSmtpOptions {
+  /** Announced in the greeting and EHLO reply; defaults to this machine's hostname */
+  serverName?: string;
+  maxMessageBytes?: number;
+  /** Whether mail for this address is taken */
+  acceptRecipient(address: string): Promise<boolean>;
+  /** Handle a received message; throwing tells the sender to try again later */
+  onMessage(envelope: InboundEnvelope, raw: Buffer): Promise<void>;
+}
+
+function envelopeAddress(argument: string, keyword: "FROM" | "TO"): string | null {
+  const match = argument.match(new RegExp(`^${keyword}:\\s*<([^>]*)>`, "i"));
+  return match ? match[1]!.trim().toLowerCase() : null;
+}
+
+export class InboundSmtpServer {
+  private server: Server | null = null;
+  private sockets = new Set<Socket>();
+
+  constructor(private options: InboundSmtpOptions) {}
+
+  private get serverName(): string {
+    return this.options.serverName ?? hostname();
+  }
+
+  /** Start listening; resolves with the bound port (useful with port 0) */
+  async listen(port: number, host = "127.0.0.1"): Promise<number> {
+    const server = createServer((socket) => this.handle(socket));
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    return (server.address() as AddressInfo).port;
+  }
+
+  async close(): Promise<void> {
+    for (const socket of this.sockets) socket.destroy();
+    const server = this.server;
+    this.server = null;
+    if (server) await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private handle(socket: Socket) {
+    this.sockets.add(socket);
+    socket.setTimeout(IDLE_TIMEOUT_MS, () => socket.end("421 Idle timeout\r\n"));
+    socket.on("close", () => this.sockets.delete(socket));
+    socket.on("error", () => socket.destroy());
+
+    const maxBytes = this.options.maxMessageBytes ?? DEFAULT_MAX_MESSAGE_BYTES;
+    let buffer = Buffer.alloc(0);
+    let from: string | null = null;
+    let to: string[] = [];
+    let inData = false;
+    let tooLarge = false;
+    let busy = false;
+
+    const reply = (line: string) => {
+      if (!socket.destroyed) socket.write(`${line}\r\n`);
+    };
+    const reset = () => {
+      from = null;
+      to = [];
+    };
+
+    const command = async (line: string) => {
+      const [verb = "", ...rest] = line.split(" ");
+      const argument = rest.join(" ").trim();
+      switch (verb.toUpperCase()) {
+        case "EHLO":
+          reset();
+          reply(`250-${this.serverName}`);
+          reply(`250-SIZE ${maxBytes}`);
+          reply("250-8BITMIME");
+          return reply("250 SMTPUTF8");
+        case "HELO":
+          reset();
+          return reply(`250 ${this.serverName}`);
+        case "MAIL": {
+          const address = envelopeAddress(argument, "FROM");
+          if (address === null) return reply("501 Syntax: MAIL FROM:<address>");
+          reset();
+          from = address;
+          return reply("250 OK");
+        }
+        case "RCPT": {
+          if (from === null) return reply("503 MAIL first");
+          const address = envelopeAddress(argument, "TO");
+          if (!address) return reply("501 Syntax: RCPT TO:<address>");
+          if (to.length >= MAX_RECIPIENTS) return reply("452 Too many recipients");
+          if (!(await this.options.acceptRecipient(address).catch(() => false))) {
+            return reply("550 No such mailbox");
+          }
+          to.push(address);
+          return reply("250 OK");
+        }
+        case "DATA":
+          if (from === null || to.length === 0) return reply("503 RCPT first");
+          inData = true;
+          tooLarge = false;
+          return reply("354 End data with <CR><LF>.<CR><LF>");
+        case "RSET":
+          reset();
+          return reply("250 OK");
+        case "NOOP":
+          return reply("250 OK");
+        case "QUIT":
+          reply(`221 ${this.serverName} closing`);
+          return socket.end();
+        default:
+          return reply("502 Command not implemented");
+      }
+    };
+
+    const message = async (data: Buffer) => {
+      const envelope = { from: from ?? "", to };
+      reset();
+      if (tooLarge || data.length > maxBytes) return reply("552 Message too large");
+      // Undo dot-stuffing
+      const raw = Buffer.from(data.toString("latin1").replace(/^\.\./gm, "."), "latin1");
+      try {
+        await this.options.onMessage(envelope, raw);
+        reply("250 OK: queued");
+      } catch (err) {
+        console.error("Inbound SMTP: failed to take message:", err);
+        reply("451 Try again later");
+      }
+    };
+
+    const drain = async () => {
+      if (busy) return;
+      busy = true;
+      try {
+        while (true) {
+          if (inData) {
+            const end = buffer.indexOf("\r\n.\r\n");
+            const dotOnly = buffer.subarray(0, 3).equals(Buffer.from(".\r\n"));
+            if (end === -1 && !dotOnly) {
+              // Keep the tail that might start the terminator; drop the rest once over the limit
+              if (buffer.length > maxBytes) {
+                tooLarge = true;
+                buffer = buffer.subarray(buffer.length - 4);
+              }
+              return;
+            }
+            const data = dotOnly ? Buffer.alloc(0) : buffer.subarray(0, end + 2);
+            buffer = buffer.subarray(dotOnly ? 3 : end + 5);
+            inData = false;
+            await message(data);
+            continue;
+          }
+
+          const eol = buffer.indexOf("\n");
+          if (eol === -1) {
+            if (buffer.length > 4096) {
+              reply("500 Line too long");
+              socket.destroy();
+            }
+            return;
+          }
+          const line = buffer.subarray(0, eol).toString("utf8").replace(/\r$/, "");
+          buffer = buffer.subarray(eol + 1);
+          await command(line);
+        }
+      } finally {
+        busy = false;
+      }
+    };
+
+    socket.on("data", (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      void drain();
+    });
+
+    reply(`220 ${this.serverName} ESMTP ready`);
+  }
+}
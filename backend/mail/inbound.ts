@@ -0,0 +1,152 @@
+/**
+ * Inbound email addressing and settings. A user's inbox alias gives them
+ * <alias>@<domain>, answered by the inbox's agent, and
+ * <agent-slug>+<alias>@<domain> for each of their agents.
+ *
+ * Sender checks only go as far as what the receiving side can verify: the
+ * From header, the envelope sender and any SPF/DKIM verdict a mail provider
+ * reports. Mail through a path that reports none of those can still forge
+ * an allowed sender, so an inbox alias is best kept as private as a password.
+ */
+
+import type { EmailInbox } from "../types/models";
+import type { ParsedEmail } from "./parse";
+
+export const INBOX_ALIAS = /^[a-z0-9][a-z0-9._-]{1,62}$/;
+
+export interface InboundRecipient {
+  alias: string;
+  /** Null for the inbox's own agent */
+  agentSlug: string | null;
+}
+
+/**
+ * The alias and agent an address names, or null when it isn't one of ours.
+ * Without a configured domain any domain is taken (the MTA decides what reaches us).
+ */
+export function parseInboundAddress(address: string, domain: string | null | undefined): InboundRecipient | null {
+  const at = address.lastIndexOf("@");
+  if (at <= 0) return null;
+  const local = address.slice(0, at).toLowerCase();
+  if (domain && address.slice(at + 1).toLowerCase() !== domain.toLowerCase()) return null;
+
+  const plus = local.indexOf("+");
+  const alias = plus === -1 ? local : local.slice(plus + 1);
+  const agentSlug = plus === -1 ? null : local.slice(0, plus);
+  if (!INBOX_ALIAS.test(alias) || (agentSlug !== null && !/^[a-z0-9-]+$/.test(agentSlug))) return null;
+  return { alias, agentSlug };
+}
+
+export function inboundAddress(alias: string, domain: string, agentSlug?: string): string {
+  return `${agentSlug ? `${agentSlug}+` : ""}${alias}@${domain}`;
+}
+
+/** What the receiving side knows about a message besides its content */
+export interface InboundDelivery {
+  /** Envelope recipients (RCPT TO); the To, Cc and delivery headers are used without them */
+  to?: string[];
+  /** Envelope sender (MAIL FROM) when known; '' for bounces */
+  from?: string;
+  /** SPF and DKIM verdicts reported by a mail provider, e.g. "pass" or "fail" */
+  spf?: string | null;
+  dkim?: string | null;
+}
+
+/**
+ * A provider's SPF or DKIM field as a single verdict. SendGrid lists one per
+ * signing domain ("{@example.com : pass, @other.com : fail}"), which passes
+ * only when they all do. Null when the field is missing or empty.
+ */
+export function authVerdict(value: string | null | undefined): string | null {
+  const field = value?.trim().toLowerCase();
+  if (!field) return null;
+  const results = [...field.matchAll(/:\s*([a-z]+)/g)].map((m) => m[1]!);
+  if (results.length === 0) return field;
+  return results.find((result) => result !== "pass") ?? "pass";
+}
+
+/** Senders listed on the inbox (addresses or "@domain"), else only the account's own address */
+export function isAllowedSender(inbox: EmailInbox, sender: string, accountEmail: string): boolean {
+  const address = sender.toLowerCase();
+  if (inbox.allowed_senders.length === 0) return address === accountEmail.toLowerCase();
+  return inbox.allowed_senders.some((allowed) =>
+    allowed.startsWith("@") ? address.endsWith(allowed.toLowerCase()) : address === allowed.toLowerCase()
+  );
+}
+
+/**
+ * Why mail from this sender isn't taken, or null to take it. The From header
+ * and, when known, the envelope sender must both be allowed, and any SPF or
+ * DKIM verdict reported must be a pass.
+ */
+export function senderRejection(
+  inbox: EmailInbox,
+  sender: string,
+  delivery: InboundDelivery,
+  accountEmail: string
+): string | null {
+  if (!isAllowedSender(inbox, sender, accountEmail)) return "Sender not allowed";
+  if (delivery.from !== undefined && !isAllowedSender(inbox, delivery.from, accountEmail)) {
+    return "Envelope sender not allowed";
+  }
+  const spf = authVerdict(delivery.spf);
+  if (spf !== null && spf !== "pass") return `SPF check failed (${spf})`;
+  const dkim = authVerdict(delivery.dkim);
+  if (dkim !== null && dkim !== "pass") return `DKIM check failed (${dkim})`;
+  return null;
+}
+
+/** Auto-replies, bounces and list mail; answering them risks mail loops */
+export function isAutomatedEmail(email: ParsedEmail): boolean {
+  const autoSubmitted = email.headers["auto-submitted"]?.toLowerCase();
+  const precedence = email.headers["precedence"]?.toLowerCase();
+  return (
+    (!!autoSubmitted && autoSubmitted !== "no") ||
+    precedence === "bulk" ||
+    precedence === "junk" ||
+    precedence === "list" ||
+    !!email.headers["list-id"] ||
+    /^(mailer-daemon|postmaster)@/i.test(email.from?.address ?? "")
+  );
+}
+
+export interface EmailInboxInput {
+  alias: string;
+  agent_id: number;
+  allowed_senders: string[];
+  enabled: boolean;
+}
+
+/** Validate an inbox settings update; agent ownership is checked by the caller */
+export function parseEmailInboxInput(input: unknown): { data: EmailInboxInput } | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Request body must be an object" };
+  }
+  const raw = input as Record<string, unknown>;
+
+  const alias = typeof raw.alias === "string" ? raw.alias.trim().toLowerCase() : "";
+  if (!INBOX_ALIAS.test(alias)) {
+    return { error: "alias must be 2-63 letters, digits, dots, dashes or underscores" };
+  }
+  if (!Number.isInteger(raw.agent_id)) return { error: "agent_id is required" };
+  if (raw.enabled !== undefined && typeof raw.enabled !== "boolean") {
+    return { error: "enabled must be a boolean" };
+  }
+
+  const senders = raw.allowed_senders ?? [];
+  if (!Array.isArray(senders) || senders.some((s) => typeof s !== "string")) {
+    return { error: "allowed_senders must be an array of addresses or @domains" };
+  }
+  const allowed = (senders as string[]).map((s) => s.trim().toLowerCase()).filter(Boolean);
+  const invalid = allowed.find((s) => !/^[^@\s]*@[^@\s]+\.[^@\s]+$/.test(s));
+  if (invalid) return { error: `Not an address or @domain: ${invalid}` };
+
+  return {
+    data: {
+      alias,
+      agent_id: raw.agent_id as number,
+      allowed_senders: [...new Set(allowed)],
+      enabled: (raw.enabled as boolean | undefined) ?? true,
+    },
+  };
+}
@@ -0,0 +1,31 @@
+export type { MailMessage, MailTransport } from "./types";
+export { buildMimeMessage, addressOf, isMailAddress, formatAddress, encodeHeader } from "./mime";
+export { SmtpTransport, SmtpError } from "./smtp";
+export type { SmtpOptions } from "./smtp";
+export {
+  HttpMailTransport,
+  FileMailTransport,
+  LogMailTransport,
+  createMailTransport,
+  MAILBOX_NAME,
+} from "./transports";
+export type { CreateMailTransportOptions } from "./transports";
+export { renderNotificationEmail, renderDigestEmail, renderReplyEmail } from "./templates";
+export type { NotificationEmailData, DigestEmailData, ReplyEmailData, RenderedEmail } from "./templates";
+export { maskMailTransport, parseMailTransportInput, validateEmailRecipients } from "./settings";
+export type { MaskedMailTransport } from "./settings";
+export { parseEmail, parseAddressList, decodeHeaderValue, htmlToText, stripQuotedReply } from "./parse";
+export type { ParsedEmail, EmailAddress, EmailAttachment } from "./parse";
+export { InboundSmtpServer } from "./inbound-smtp";
+export type { InboundEnvelope, InboundSmtpOptions } from "./inbound-smtp";
+export {
+  INBOX_ALIAS,
+  parseInboundAddress,
+  inboundAddress,
+  isAllowedSender,
+  senderRejection,
+  authVerdict,
+  isAutomatedEmail,
+  parseEmailInboxInput,
+} from "./inbound";
+export type { InboundRecipient, InboundDelivery, EmailInboxInput } from "./inbound";
@@ -0,0 +1,100 @@
+/**
+ * MIME message building for the SMTP and mailbox transports: a
+ * multipart/alternative message with base64 text and HTML parts, so any
+ * UTF-8 content is safe to send over a 7-bit connection.
+ */
+
+import type { MailMessage } from "./types";
+
+const LINE_LENGTH = 76;
+
+/** Control characters would end an SMTP command or header line early */
+const CONTROL_CHARACTERS = /[\x00-\x1f\x7f]/;
+
+/**
+ * The bare address of "Name <address>" (or the address itself). Throws on
+ * control characters or stray angle brackets, which could smuggle extra
+ * commands into MAIL FROM / RCPT TO.
+ */
+export function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]*)>\s*$/);
+  const address = (match ? match[1]! : mailbox).trim();
+  if (CONTROL_CHARACTERS.test(mailbox) || /[<>]/.test(address)) {
+    throw new Error(`Invalid email address: ${JSON.stringify(mailbox)}`);
+  }
+  return address;
+}
+
+/** A bare address safe to put in an SMTP command or header: local@domain */
+export function isMailAddress(address: string): boolean {
+  return /^[^\s@<>]+@[^\s@<>]+$/.test(address) && !CONTROL_CHARACTERS.test(address);
+}
+
+/** Format a display name and address as a mailbox header value */
+export function formatAddress(name: string | null | undefined, email: string): string {
+  if (!name?.trim()) return email;
+  const display = /^[\x20-\x7e]*$/.test(name)
+    ? /^[\w .-]*$/.test(name) ? name : `"${name.replace(/(["\\])/g, "\\$1")}"`
+    : encodeHeader(name);
+  return `${display} <${email}>`;
+}
+
+/** RFC 2047-encode a header value that isn't plain ASCII */
+export function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function encodeBody(content: string): string {
+  const encoded = Buffer.from(content, "utf8").toString("base64");
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += LINE_LENGTH) {
+    lines.push(encoded.slice(i, i + LINE_LENGTH));
+  }
+  return lines.join("\r\n");
+}
+
+function encodeMailbox(mailbox: string): string {
+  const match = mailbox.match(/^(.*?)\s*<([^>]*)>\s*$/);
+  return match ? formatAddress(match[1]!.replace(/^"|"$/g, ""), match[2]!) : mailbox;
+}
+
+/** Render a message as RFC 5322 text with CRLF line endings */
+export function buildMimeMessage(
+  message: MailMessage,
+  options: { date?: Date; messageId?: string } = {}
+): string {
+  const boundary = `=_alt_${crypto.randomUUID().replace(/-/g, "")}`;
+  const domain = addressOf(message.from).split("@")[1] || "localhost";
+  const messageId = options.messageId ?? message.messageId ?? `<${crypto.randomUUID()}@${domain}>`;
+
+  const headers = [
+    `From: ${encodeMailbox(message.from)}`,
+    `To: ${message.to.map(encodeMailbox).join(", ")}`,
+    ...(message.replyTo ? [`Reply-To: ${encodeMailbox(message.replyTo)}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    ...(message.inReplyTo ? [`In-Reply-To: ${message.inReplyTo}`] : []),
+    ...(message.references?.length ? [`References: ${message.references.join("\r\n ")}`] : []),
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+
+  const part = (type: string, content: string) => [
+    `--${boundary}`,
+    `Content-Type: ${type}; charset=UTF-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(content),
+  ];
+
+  return [
+    ...headers,
+    "",
+    ...part("text/plain", message.text),
+    ...part("text/html", message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
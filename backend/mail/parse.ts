@@ -0,0 +1,282 @@
+/**
+ * Parsing received mail: RFC 5322 headers (with RFC 2047 encoded words),
+ * nested MIME multiparts, base64 and quoted-printable bodies in any charset
+ * TextDecoder knows, and attachments (RFC 2231 file names included).
+ *
+ * The raw message is handled as latin1 text so every byte survives until a
+ * part's charset is known.
+ */
+
+export interface EmailAddress {
+  name: string | null;
+  address: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  /** First value of each header, by lower-case name */
+  headers: Record<string, string>;
+  /** With angle brackets, as other messages reference it */
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  subject: string;
+  date: Date | null;
+  /** The plain-text body, or text made from the HTML body when there isn't one */
+  text: string;
+  html: string | null;
+  attachments: EmailAttachment[];
+}
+
+interface MimePart {
+  headers: Map<string, string[]>;
+  body: string;
+}
+
+function splitPart(raw: string): MimePart {
+  const match = raw.match(/\r?\n\r?\n/);
+  const headerBlock = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index! + match[0].length) : "";
+
+  const headers = new Map<string, string[]>();
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    headers.set(name, [...(headers.get(name) ?? []), line.slice(colon + 1).trim()]);
+  }
+  return { headers, body };
+}
+
+function decodeBytes(bytes: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset?.toLowerCase() || "utf-8").decode(bytes);
+  } catch {
+    return bytes.toString("utf8");
+  }
+}
+
+function decodeQuotedPrintable(value: string, underscoreIsSpace = false): Buffer {
+  const text = (underscoreIsSpace ? value.replace(/_/g, " ") : value).replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const hex = text.slice(i + 1, i + 3);
+    if (text[i] === "=" && /^[0-9a-f]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** Decode RFC 2047 encoded words; other non-ASCII header bytes are taken as UTF-8 */
+export function decodeHeaderValue(value: string): string {
+  const decoded = value.replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?)/gi, "$1");
+  return decoded.replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=|[^=]+|=/gi, (word, charset, encoding, text) => {
+    if (!charset) return /[\x80-\xff]/.test(word) ? Buffer.from(word, "latin1").toString("utf8") : word;
+    const bytes = encoding.toLowerCase() === "b" ? Buffer.from(text, "base64") : decodeQuotedPrintable(text, true);
+    return decodeBytes(bytes, charset.split("*")[0]);
+  });
+}
+
+/** A structured header's value and parameters, e.g. Content-Type and Content-Disposition */
+function parseParams(header: string | undefined): { value: string; params: Record<string, string> } {
+  if (!header) return { value: "", params: {} };
+  const [value, ...rest] = header.match(/(?:[^;"]|"(?:\\.|[^"])*")+/g) ?? [""];
+  const params: Record<string, string> = {};
+  const continued: Record<string, Array<{ index: number; text: string; encoded: boolean }>> = {};
+
+  for (const param of rest) {
+    const eq = param.indexOf("=");
+    if (eq === -1) continue;
+    const key = param.slice(0, eq).trim().toLowerCase();
+    let text = param.slice(eq + 1).trim();
+    if (text.startsWith('"')) text = text.slice(1, -1).replace(/\\(.)/g, "$1");
+
+    // RFC 2231: name*0*=utf-8''..., name*1*=..., or name*=utf-8''...
+    const match = key.match(/^([^*]+)\*(?:(\d+)\*?|)$/);
+    if (match) {
+      (continued[match[1]!] ??= []).push({ index: Number(match[2] ?? 0), text, encoded: key.endsWith("*") });
+    } else {
+      params[key] = decodeHeaderValue(text);
+    }
+  }
+
+  for (const [key, pieces] of Object.entries(continued)) {
+    pieces.sort((a, b) => a.index - b.index);
+    let charset = "utf-8";
+    const bytes = pieces.map((piece, i) => {
+      let text = piece.text;
+      if (i === 0 && piece.encoded) {
+        const parts = text.split("'");
+        if (parts.length >= 3) {
+          charset = parts[0] || charset;
+          text = parts.slice(2).join("'");
+        }
+      }
+      return piece.encoded ? Buffer.from(decodeURIComponentBytes(text)) : Buffer.from(text, "latin1");
+    });
+    params[key] = decodeBytes(Buffer.concat(bytes), charset);
+  }
+
+  return { value: value!.trim().toLowerCase(), params };
+}
+
+function decodeURIComponentBytes(text: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const hex = text.slice(i + 1, i + 3);
+    if (text[i] === "%" && /^[0-9a-f]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return bytes;
+}
+
+function decodeBody(part: MimePart): Buffer {
+  const encoding = (part.headers.get("content-transfer-encoding")?.[0] ?? "").trim().toLowerCase();
+  if (encoding === "base64") return Buffer.from(part.body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+  if (encoding === "quoted-printable") return decodeQuotedPrintable(part.body);
+  return Buffer.from(part.body, "latin1");
+}
+
+/** Parse an address list header such as To or Cc */
+export function parseAddressList(value: string | undefined): EmailAddress[] {
+  if (!value) return [];
+  const entries = value.match(/(?:[^,"<]|"(?:\\.|[^"])*"|<[^>]*>)+/g) ?? [];
+  const addresses: EmailAddress[] = [];
+  for (const entry of entries) {
+    // Groups ("Team: a@x, b@y;") contribute their members
+    const text = entry.replace(/^[^"<@]*:/, "").replace(/;\s*$/, "").trim();
+    if (!text) continue;
+    const angle = text.match(/^(.*?)<([^>]*)>\s*$/);
+    const address = (angle ? angle[2]! : text.replace(/\(.*\)/g, "")).trim();
+    if (!address.includes("@")) continue;
+    const name = angle ? decodeHeaderValue(angle[1]!.trim().replace(/^"|"$/g, "").replace(/\\(.)/g, "$1")) : null;
+    addresses.push({ name: name || null, address: address.toLowerCase() });
+  }
+  return addresses;
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+/** Readable text from an HTML body */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|tr|li|h[1-6]|blockquote|table)>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "- ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === "#") {
+        const point = code[1]?.toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * The new part of a reply: everything above the quoted message ("On … wrote:",
+ * an "Original Message" separator, or a trailing run of "> " lines).
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.split(/\r?\n/);
+  let cut = lines.length;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!.trim();
+    if (/^On\b.*\bwrote:$/.test(line) || /^-{2,}\s*Original Message\s*-{2,}$/i.test(line)) {
+      cut = i;
+      break;
+    }
+    if (line.startsWith(">") && lines.slice(i).every((l) => !l.trim() || l.trim().startsWith(">"))) {
+      cut = i;
+      break;
+    }
+  }
+  const reply = lines.slice(0, cut).join("\n").trim();
+  return reply || text.trim();
+}
+
+function walk(part: MimePart, email: ParsedEmail, texts: string[], htmls: string[]): void {
+  const type = parseParams(part.headers.get("content-type")?.[0] ?? "text/plain");
+  const disposition = parseParams(part.headers.get("content-disposition")?.[0]);
+  const filename = disposition.params.filename ?? type.params.name;
+
+  if (type.value.startsWith("multipart/") && type.params.boundary) {
+    const delimiter = `--${type.params.boundary}`;
+    const sections = part.body.split(new RegExp(`(?:^|\\r?\\n)${delimiter.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`));
+    // Before the first delimiter is the preamble; after the closing "--" the epilogue
+    for (const section of sections.slice(1)) {
+      if (section.startsWith("--")) break;
+      walk(splitPart(section.replace(/^[ \t]*\r?\n/, "")), email, texts, htmls);
+    }
+    return;
+  }
+
+  const isText = type.value === "text/plain" || type.value === "text/html";
+  if (disposition.value === "attachment" || !isText || (filename && disposition.value !== "inline")) {
+    const content = decodeBody(part);
+    const subject = type.value === "message/rfc822" ? splitPart(content.toString("latin1")).headers.get("subject")?.[0] : undefined;
+    email.attachments.push({
+      filename: filename ?? (subject ? `${decodeHeaderValue(subject)}.eml` : "attachment"),
+      contentType: type.value || "application/octet-stream",
+      content,
+    });
+    return;
+  }
+
+  const content = decodeBytes(decodeBody(part), type.params.charset);
+  (type.value === "text/html" ? htmls : texts).push(content);
+}
+
+/** Parse a raw RFC 5322 message */
+export function parseEmail(raw: string | Uint8Array): ParsedEmail {
+  const root = splitPart(typeof raw === "string" ? raw : Buffer.from(raw).toString("latin1"));
+  const header = (name: string) => root.headers.get(name)?.[0];
+
+  const headers: Record<string, string> = {};
+  for (const [name, values] of root.headers) headers[name] = decodeHeaderValue(values[0]!);
+
+  const date = header("date") ? new Date(header("date")!) : null;
+  const email: ParsedEmail = {
+    headers,
+    messageId: header("message-id")?.match(/<[^>]+>/)?.[0] ?? null,
+    inReplyTo: header("in-reply-to")?.match(/<[^>]+>/)?.[0] ?? null,
+    references: header("references")?.match(/<[^>]+>/g) ?? [],
+    from: parseAddressList(header("from"))[0] ?? null,
+    to: parseAddressList(root.headers.get("to")?.join(", ")),
+    cc: parseAddressList(root.headers.get("cc")?.join(", ")),
+    subject: decodeHeaderValue(header("subject") ?? "").trim(),
+    date: date && !isNaN(date.getTime()) ? date : null,
+    text: "",
+    html: null,
+    attachments: [],
+  };
+
+  const texts: string[] = [];
+  const htmls: string[] = [];
+  walk(root, email, texts, htmls);
+  email.html = htmls.length > 0 ? htmls.join("\n") : null;
+  email.text = (texts.length > 0 ? texts.join("\n\n") : email.html ? htmlToText(email.html) : "")
+    .replace(/\r\n/g, "\n")
+    .trim();
+  return email;
+}
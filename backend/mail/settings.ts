@@ -0,0 +1,147 @@
+/**
+ * Mail transport settings as the user and team notification settings APIs
+ * accept and return them. Passwords and API keys are stored encrypted and
+ * never sent back; responses say whether one is set instead.
+ */
+
+import type { MailTransportConfig } from "../types/models";
+import { encrypt } from "../utils/encryption";
+import { addressOf, isMailAddress } from "./mime";
+import { MAILBOX_NAME } from "./transports";
+
+type SmtpConfig = Extract<MailTransportConfig, { type: "smtp" }>;
+type HttpConfig = Extract<MailTransportConfig, { type: "http" }>;
+type FileConfig = Extract<MailTransportConfig, { type: "file" }>;
+
+export type MaskedMailTransport =
+  | (Omit<SmtpConfig, "password"> & { has_password: boolean })
+  | (Omit<HttpConfig, "api_key"> & { has_api_key: boolean })
+  | FileConfig;
+
+const TRANSPORT_TYPES = ["smtp", "http", "file"];
+const SMTP_SECURITY = ["starttls", "tls", "none"];
+const DEFAULT_SMTP_PORTS: Record<SmtpConfig["security"], number> = { starttls: 587, tls: 465, none: 25 };
+
+/** "address" or "Name <address>" with a usable address */
+function isMailbox(value: string): boolean {
+  try {
+    return isMailAddress(addressOf(value));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate `notification_email` and `email_addresses` from a settings
+ * update; returns an error message, or null when they are usable
+ */
+export function validateEmailRecipients(notificationEmail: unknown, emailAddresses: unknown): string | null {
+  if (notificationEmail !== undefined && notificationEmail !== null && notificationEmail !== "") {
+    if (typeof notificationEmail !== "string" || !isMailAddress(notificationEmail.trim())) {
+      return "notification_email must be an email address";
+    }
+  }
+  if (emailAddresses !== undefined && emailAddresses !== null) {
+    if (!Array.isArray(emailAddresses)) return "email_addresses must be an array";
+    for (const entry of emailAddresses) {
+      if (!entry?.name || !entry?.email) return "Each email address must have a name and email";
+      if (typeof entry.email !== "string" || !isMailAddress(entry.email.trim())) {
+        return `"${entry.name}" doesn't have a valid email address`;
+      }
+    }
+  }
+  return null;
+}
+
+export function maskMailTransport(config: MailTransportConfig | null): MaskedMailTransport | null {
+  if (!config) return null;
+  switch (config.type) {
+    case "smtp": {
+      const { password, ...rest } = config;
+      return { ...rest, has_password: !!password };
+    }
+    case "http": {
+      const { api_key, ...rest } = config;
+      return { ...rest, has_api_key: !!api_key };
+    }
+    default:
+      return config;
+  }
+}
+
+/**
+ * Validate `mail_transport` from a settings update. A secret left out
+ * keeps the stored one (when the transport type is unchanged); an empty
+ * one clears it.
+ */
+export async function parseMailTransportInput(
+  input: unknown,
+  current: MailTransportConfig | null,
+  encryptionSecret: string | undefined
+): Promise<{ config: MailTransportConfig | null } | { error: string }> {
+  if (input === null) return { config: null };
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "mail_transport must be an object or null" };
+  }
+  const raw = input as Record<string, unknown>;
+
+  if (typeof raw.type !== "string" || !TRANSPORT_TYPES.includes(raw.type)) {
+    return { error: `mail_transport.type must be one of: ${TRANSPORT_TYPES.join(", ")}` };
+  }
+  const from = typeof raw.from === "string" ? raw.from.trim() : "";
+  if (!isMailbox(from)) {
+    return { error: "mail_transport.from must be an email address" };
+  }
+
+  const secret = async (value: unknown, stored: string | null): Promise<string | null | { error: string }> => {
+    if (value === undefined) return stored;
+    if (!value) return null;
+    if (typeof value !== "string") return { error: "Mail credentials must be strings" };
+    if (!encryptionSecret) return { error: "Encryption secret not configured; mail credentials can't be stored" };
+    return encrypt(value, encryptionSecret);
+  };
+
+  if (raw.type === "smtp") {
+    const host = typeof raw.host === "string" ? raw.host.trim() : "";
+    if (!host) return { error: "mail_transport.host is required for SMTP" };
+    const security = (raw.security ?? "starttls") as SmtpConfig["security"];
+    if (!SMTP_SECURITY.includes(security)) {
+      return { error: `mail_transport.security must be one of: ${SMTP_SECURITY.join(", ")}` };
+    }
+    const port = raw.port === undefined ? DEFAULT_SMTP_PORTS[security] : Number(raw.port);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      return { error: "mail_transport.port must be a port number" };
+    }
+    if (raw.username !== undefined && raw.username !== null && typeof raw.username !== "string") {
+      return { error: "mail_transport.username must be a string" };
+    }
+    const password = await secret(raw.password, current?.type === "smtp" ? current.password : null);
+    if (password && typeof password === "object") return password;
+
+    return {
+      config: {
+        type: "smtp",
+        host,
+        port,
+        security,
+        username: (raw.username as string | null | undefined)?.trim() || null,
+        password,
+        from,
+      },
+    };
+  }
+
+  if (raw.type === "http") {
+    if (typeof raw.url !== "string" || !raw.url.startsWith("https://")) {
+      return { error: `Mail API URL must use HTTPS: ${raw.url}` };
+    }
+    const apiKey = await secret(raw.api_key, current?.type === "http" ? current.api_key : null);
+    if (apiKey && typeof apiKey === "object") return apiKey;
+    return { config: { type: "http", url: raw.url, api_key: apiKey, from } };
+  }
+
+  if (typeof raw.mailbox !== "string" || !MAILBOX_NAME.test(raw.mailbox)) {
+    return { error: "mail_transport.mailbox must be a name of letters, digits, - and _" };
+  }
+  return { config: { type: "file", mailbox: raw.mailbox, from } };
+}
@@ -0,0 +1,259 @@
+/**
+ * SMTP Transport
+ *
+ * A minimal SMTP client for submitting notification emails to a relay:
+ * EHLO, optional STARTTLS (or TLS from the start), AUTH PLAIN or LOGIN,
+ * then one MAIL/RCPT/DATA transaction per message. A connection is opened
+ * per message; notification volume doesn't justify pooling.
+ */
+
+import { connect as connectTcp, type Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+import { hostname } from "node:os";
+import { addressOf, buildMimeMessage } from "./mime";
+import type { MailMessage, MailTransport } from "./types";
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** "starttls" upgrades after EHLO and fails if the server can't; "tls" connects over TLS */
+  security: "starttls" | "tls" | "none";
+  username?: string | null;
+  password?: string | null;
+  /** Name sent with EHLO; defaults to this machine's hostname */
+  clientName?: string;
+  timeoutMs?: number;
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    /** The server's reply code, when it sent one */
+    public code?: number
+  ) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/** Reads replies off a socket one at a time; swaps sockets for STARTTLS */
+class SmtpConnection {
+  private buffer = "";
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private pending: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private onData = (chunk: Buffer | string) => this.receive(chunk.toString());
+  private onError = (err: Error) => this.fail(err);
+  private onClose = () => this.fail(new SmtpError("Connection closed by the server"));
+
+  constructor(private socket: Socket, private timeoutMs: number) {
+    this.listen();
+  }
+
+  private listen() {
+    this.socket.on("data", this.onData);
+    this.socket.on("error", this.onError);
+    this.socket.on("close", this.onClose);
+  }
+
+  private unlisten() {
+    this.socket.off("data", this.onData);
+    this.socket.off("error", this.onError);
+    this.socket.off("close", this.onClose);
+  }
+
+  private receive(text: string) {
+    this.buffer += text;
+    let end: number;
+    while ((end = this.buffer.indexOf("\n")) !== -1) {
+      const line = this.buffer.slice(0, end).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(end + 1);
+      this.replyLines.push(line);
+      // "250-..." continues a reply, "250 ..." (or a bare code) ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.replyLines.map((l) => l.slice(4)) };
+        this.replyLines = [];
+        if (this.pending) {
+          this.pending.resolve(reply);
+          this.pending = null;
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(err: Error) {
+    this.failure ??= err;
+    this.pending?.reject(err);
+    this.pending = null;
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending = null;
+        reject(new SmtpError("Timed out waiting for the server"));
+      }, this.timeoutMs);
+      this.pending = {
+        resolve: (reply) => { clearTimeout(timer); resolve(reply); },
+        reject: (err) => { clearTimeout(timer); reject(err); },
+      };
+    });
+  }
+
+  /** Read a reply and check its code; `label` names the step in errors without echoing credentials */
+  async expect(codes: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`${label} failed: ${reply.code} ${reply.lines.join(" ")}`.trim(), reply.code);
+    }
+    return reply;
+  }
+
+  command(line: string, codes: number[], label = line): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes, label);
+  }
+
+  async startTls(servername: string): Promise<void> {
+    this.unlisten();
+    const secure = connectTls({ socket: this.socket, servername });
+    await withTimeout(
+      new Promise<void>((resolve, reject) => {
+        secure.once("secureConnect", () => resolve());
+        secure.once("error", reject);
+      }),
+      this.timeoutMs,
+      "Timed out negotiating TLS"
+    );
+    this.socket = secure;
+    this.listen();
+  }
+
+  close() {
+    this.unlisten();
+    this.socket.destroy();
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new SmtpError(message)), ms);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+/** Escape lines starting with "." so they don't end the DATA section */
+function dotStuff(data: string): string {
+  return data.replace(/^\./, "..").replace(/\r\n\./g, "\r\n..");
+}
+
+export class SmtpTransport implements MailTransport {
+  private timeoutMs: number;
+
+  constructor(private options: SmtpOptions) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const connection = new SmtpConnection(await this.open(), this.timeoutMs);
+    try {
+      await connection.expect([220], "Connection");
+      let extensions = await this.hello(connection);
+
+      if (this.options.security === "starttls") {
+        if (!extensions.has("STARTTLS")) {
+          throw new SmtpError(`${this.options.host} doesn't offer STARTTLS`);
+        }
+        await connection.command("STARTTLS", [220]);
+        await connection.startTls(this.options.host);
+        extensions = await this.hello(connection);
+      }
+
+      if (this.options.username) {
+        await this.authenticate(connection, extensions);
+      }
+
+      await connection.command(`MAIL FROM:<${addressOf(message.from)}>`, [250]);
+      for (const recipient of message.to) {
+        await connection.command(`RCPT TO:<${addressOf(recipient)}>`, [250, 251]);
+      }
+      await connection.command("DATA", [354]);
+      await connection.command(`${dotStuff(buildMimeMessage(message))}.`, [250], "Sending the message");
+      // The message is accepted; a server that drops the connection on QUIT doesn't matter
+      await connection.command("QUIT", [221]).catch(() => {});
+    } finally {
+      connection.close();
+    }
+  }
+
+  private open(): Promise<Socket> {
+    const { host, port, security } = this.options;
+    return new Promise<Socket>((resolve, reject) => {
+      const connected = () => {
+        clearTimeout(timer);
+        resolve(socket);
+      };
+      const socket = security === "tls"
+        ? connectTls({ host, port, servername: host }, connected)
+        : connectTcp({ host, port }, connected);
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new SmtpError(`Timed out connecting to ${host}:${port}`));
+      }, this.timeoutMs);
+      socket.once("error", (err) => {
+        clearTimeout(timer);
+        reject(err);
+      });
+    });
+  }
+
+  /** EHLO, returning the extensions the server offers (keyed by keyword, with their parameters) */
+  private async hello(connection: SmtpConnection): Promise<Map<string, string[]>> {
+    const reply = await connection.command(`EHLO ${this.options.clientName ?? hostname()}`, [250], "EHLO");
+    const extensions = new Map<string, string[]>();
+    for (const line of reply.lines.slice(1)) {
+      const [keyword, ...params] = line.trim().split(/\s+/);
+      if (keyword) extensions.set(keyword.toUpperCase(), params.map((p) => p.toUpperCase()));
+    }
+    return extensions;
+  }
+
+  private async authenticate(connection: SmtpConnection, extensions: Map<string, string[]>): Promise<void> {
+    const username = this.options.username!;
+    const password = this.options.password ?? "";
+    const mechanisms = extensions.get("AUTH") ?? [];
+    const base64 = (value: string) => Buffer.from(value, "utf8").toString("base64");
+
+    if (mechanisms.includes("PLAIN")) {
+      await connection.command(`AUTH PLAIN ${base64(`\0${username}\0${password}`)}`, [235], "Authentication");
+    } else if (mechanisms.includes("LOGIN")) {
+      await connection.command("AUTH LOGIN", [334], "Authentication");
+      await connection.command(base64(username), [334], "Authentication");
+      await connection.command(base64(password), [235], "Authentication");
+    } else {
+      throw new SmtpError(
+        mechanisms.length > 0
+          ? `${this.options.host} offers no supported login method (${mechanisms.join(", ")})`
+          : `${this.options.host} doesn't accept logins on this connection`
+      );
+    }
+  }
+}
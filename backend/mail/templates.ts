@@ -0,0 +1,187 @@
+/**
+ * Notification email templates: a plain-text and an HTML version of the
+ * same content, naming the agent, showing the urgency and linking back to
+ * the conversation the notification came from. Digests list several
+ * notifications in one email. Agents' answers to inbound email use a
+ * plainer reply template.
+ */
+
+import type { Notification } from "../types/models";
+
+export interface NotificationEmailData {
+  agentName: string;
+  message: string;
+  urgency: Notification["urgency"];
+  /** The conversation, or the notifications page when there isn't one */
+  link: { url: string; label: string };
+}
+
+export interface DigestEmailData {
+  notifications: Array<NotificationEmailData & { created_at: Date }>;
+  /** Times are shown in the user's timezone */
+  timezone: string;
+  /** The notifications page */
+  link: { url: string; label: string };
+}
+
+export interface ReplyEmailData {
+  agentName: string;
+  /** The agent's answer */
+  message: string;
+  /** Subject of the email being answered */
+  subject: string;
+  link: { url: string; label: string };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const SUBJECT_PREVIEW_LENGTH = 60;
+
+const URGENCY_LABELS: Record<Notification["urgency"], string> = {
+  low: "Low",
+  normal: "Normal",
+  high: "Urgent",
+};
+
+const URGENCY_COLORS: Record<Notification["urgency"], string> = {
+  low: "#6b7280",
+  normal: "#2563eb",
+  high: "#dc2626",
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function preview(message: string): string {
+  const firstLine = message.trim().split("\n")[0]!.trim();
+  return firstLine.length > SUBJECT_PREVIEW_LENGTH
+    ? `${firstLine.slice(0, SUBJECT_PREVIEW_LENGTH - 1).trimEnd()}…`
+    : firstLine;
+}
+
+function htmlParagraphs(message: string): string {
+  return message
+    .trim()
+    .split(/\n{2,}/)
+    .map((p) => `<p style="margin:0 0 12px">${escapeHtml(p).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+}
+
+export function renderNotificationEmail(data: NotificationEmailData): RenderedEmail {
+  const urgency = URGENCY_LABELS[data.urgency];
+  const subject = `${data.urgency === "high" ? "[Urgent] " : ""}${data.agentName}: ${preview(data.message)}`;
+
+  const text = [
+    `${data.agentName} sent you a notification (${urgency.toLowerCase()} urgency):`,
+    "",
+    data.message.trim(),
+    "",
+    `${data.link.label}: ${data.link.url}`,
+    "",
+  ].join("\n");
+
+  const paragraphs = htmlParagraphs(data.message);
+
+  const html = `<!doctype html>
+<html>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#18181b">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+<tr><td>
+<p style="margin:0 0 4px;font-size:14px;color:#52525b">Notification from</p>
+<h1 style="margin:0 0 12px;font-size:20px">${escapeHtml(data.agentName)}</h1>
+<span style="display:inline-block;margin-bottom:16px;padding:2px 8px;border-radius:4px;font-size:12px;font-weight:600;color:#ffffff;background:${URGENCY_COLORS[data.urgency]}">${urgency}</span>
+${paragraphs}
+<p style="margin:20px 0 0"><a href="${escapeHtml(data.link.url)}" style="display:inline-block;padding:10px 16px;border-radius:6px;background:#18181b;color:#ffffff;text-decoration:none">${escapeHtml(data.link.label)}</a></p>
+</td></tr>
+</table>
+</body>
+</html>
+`;
+
+  return { subject, text, html };
+}
+
+function formatTime(date: Date, timezone: string): string {
+  const options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" };
+  try {
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone: timezone }).format(date);
+  } catch {
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone: "UTC" }).format(date);
+  }
+}
+
+export function renderDigestEmail(data: DigestEmailData): RenderedEmail {
+  const count = data.notifications.length;
+  const agents = [...new Set(data.notifications.map((n) => n.agentName))];
+  const subject = `${count} notification${count === 1 ? "" : "s"} from ${preview(agents.join(", "))}`;
+
+  const text = [
+    `Your notification digest (${count}):`,
+    "",
+    ...data.notifications.flatMap((n) => [
+      `${n.agentName} · ${formatTime(n.created_at, data.timezone)}${n.urgency === "high" ? " · Urgent" : ""}`,
+      n.message.trim(),
+      `${n.link.label}: ${n.link.url}`,
+      "",
+    ]),
+    `${data.link.label}: ${data.link.url}`,
+    "",
+  ].join("\n");
+
+  const items = data.notifications
+    .map(
+      (n) => `<tr><td style="padding:12px 0;border-top:1px solid #e4e4e7">
+<p style="margin:0 0 8px;font-size:13px;color:#52525b"><strong style="color:#18181b">${escapeHtml(n.agentName)}</strong> · ${escapeHtml(formatTime(n.created_at, data.timezone))}${n.urgency === "high" ? ` · <span style="color:${URGENCY_COLORS.high};font-weight:600">${URGENCY_LABELS.high}</span>` : ""}</p>
+${htmlParagraphs(n.message)}
+<a href="${escapeHtml(n.link.url)}" style="font-size:13px;color:#2563eb">${escapeHtml(n.link.label)}</a>
+</td></tr>`
+    )
+    .join("\n");
+
+  const html = `<!doctype html>
+<html>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#18181b">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+<tr><td>
+<p style="margin:0 0 4px;font-size:14px;color:#52525b">Notification digest</p>
+<h1 style="margin:0 0 12px;font-size:20px">${count} notification${count === 1 ? "" : "s"}</h1>
+</td></tr>
+${items}
+<tr><td>
+<p style="margin:20px 0 0"><a href="${escapeHtml(data.link.url)}" style="display:inline-block;padding:10px 16px;border-radius:6px;background:#18181b;color:#ffffff;text-decoration:none">${escapeHtml(data.link.label)}</a></p>
+</td></tr>
+</table>
+</body>
+</html>
+`;
+
+  return { subject, text, html };
+}
+
+export function renderReplyEmail(data: ReplyEmailData): RenderedEmail {
+  const original = data.subject.trim() || "(no subject)";
+  const subject = /^re:/i.test(original) ? original : `Re: ${original}`;
+
+  const text = [data.message.trim(), "", "-- ", `${data.agentName} · ${data.link.label}: ${data.link.url}`, ""].join("\n");
+
+  const html = `<!doctype html>
+<html>
+<body style="margin:0;padding:16px;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#18181b">
+${htmlParagraphs(data.message)}
+<p style="margin:20px 0 0;font-size:13px;color:#71717a">${escapeHtml(data.agentName)} · <a href="${escapeHtml(data.link.url)}" style="color:#71717a">${escapeHtml(data.link.label)}</a></p>
+</body>
+</html>
+`;
+
+  return { subject, text, html };
+}
@@ -0,0 +1,109 @@
+/**
+ * Mail Transports
+ *
+ * Besides SMTP, mail can go to an HTTP mail API (most transactional
+ * services accept a JSON POST) or into a local mbox file for development
+ * and tests. Without a configured transport, messages are only logged.
+ */
+
+import { appendFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import type { MailTransportConfig } from "../types/models";
+import { decrypt } from "../utils/encryption";
+import { addressOf, buildMimeMessage } from "./mime";
+import { SmtpTransport } from "./smtp";
+import type { MailMessage, MailTransport } from "./types";
+
+/** Mailbox names for the file transport: a file name in the mail directory, nothing more */
+export const MAILBOX_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export class HttpMailTransport implements MailTransport {
+  constructor(private options: { url: string; apiKey?: string | null }) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch(this.options.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+      },
+      body: JSON.stringify(message),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Mail API error ${response.status}: ${text.slice(0, 200)}`);
+    }
+  }
+}
+
+/** Appends messages to an mbox file, readable with `mail -f` or most mail clients */
+export class FileMailTransport implements MailTransport {
+  constructor(private options: { dir: string; mailbox: string }) {}
+
+  get path(): string {
+    return join(this.options.dir, `${this.options.mailbox}.mbox`);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const now = new Date();
+    // mboxrd: body lines starting with "From " (or an already quoted one) gain a ">"
+    const body = buildMimeMessage(message, { date: now })
+      .replace(/\r\n/g, "\n")
+      .replace(/^(>*From )/gm, ">$1");
+    const separator = `From ${addressOf(message.from)} ${now.toUTCString().replace(/,/g, "")}`;
+
+    await mkdir(this.options.dir, { recursive: true });
+    await appendFile(this.path, `${separator}\n${body}\n`, "utf8");
+  }
+}
+
+/** What delivery did before transports: note each message in the server log */
+export class LogMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    for (const recipient of message.to) {
+      console.log(`[EMAIL] To: ${recipient}, Subject: ${message.subject}`);
+    }
+  }
+}
+
+export interface CreateMailTransportOptions {
+  /** Decrypts stored SMTP passwords and API keys */
+  encryptionSecret?: string;
+  /** Where the file transport keeps its mailboxes */
+  mailDir: string;
+}
+
+/** Build the transport a user's or team's settings describe */
+export async function createMailTransport(
+  config: MailTransportConfig | null,
+  options: CreateMailTransportOptions
+): Promise<MailTransport> {
+  const reveal = async (value: string | null): Promise<string | null> => {
+    if (!value) return null;
+    if (!options.encryptionSecret) {
+      throw new Error("Encryption secret not configured; stored mail credentials can't be used");
+    }
+    return decrypt(value, options.encryptionSecret);
+  };
+
+  switch (config?.type) {
+    case "smtp":
+      return new SmtpTransport({
+        host: config.host,
+        port: config.port,
+        security: config.security,
+        username: config.username,
+        password: await reveal(config.password),
+      });
+    case "http":
+      return new HttpMailTransport({ url: config.url, apiKey: await reveal(config.api_key) });
+    case "file":
+      if (!MAILBOX_NAME.test(config.mailbox)) {
+        throw new Error(`Invalid mailbox name: ${config.mailbox}`);
+      }
+      return new FileMailTransport({ dir: options.mailDir, mailbox: config.mailbox });
+    default:
+      return new LogMailTransport();
+  }
+}
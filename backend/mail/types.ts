@@ -0,0 +1,28 @@
+/**
+ * Mail Types
+ *
+ * A MailTransport sends a rendered message. The transports are chosen per
+ * user (or per team) by their MailTransportConfig; see createMailTransport.
+ */
+
+export interface MailMessage {
+  /** Bare address or "Name <address>" */
+  from: string;
+  /** Bare addresses or "Name <address>" */
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+  /** Where replies go, when not the sender */
+  replyTo?: string;
+  /** With angle brackets; generated when absent */
+  messageId?: string;
+  /** Threading: the Message-ID this answers, and the thread's earlier Message-IDs */
+  inReplyTo?: string;
+  references?: string[];
+}
+
+export interface MailTransport {
+  /** Deliver the message; throws if it wasn't accepted */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,13 @@
+export {
+  LOCAL_TIME,
+  DEFAULT_RATE_POLICY,
+  localMinutes,
+  isQuietTime,
+  nextLocalTime,
+  nextDigestAt,
+  ratePolicyFor,
+  rateLimitWaitMs,
+  planDelivery,
+} from "./policy";
+export type { DeliveryPlan } from "./policy";
+export { parseNotificationPolicyInput } from "./settings";
@@ -0,0 +1,122 @@
+/**
+ * When a notification delivery may go out. Quiet hours and digest times
+ * are wall-clock times in the user's timezone; rate policies cap how many
+ * deliveries an agent makes on a channel in an hour.
+ */
+
+import type {
+  Notification,
+  NotificationDelivery,
+  NotificationRatePolicy,
+  UserNotificationSettings,
+} from "../types/models";
+
+type Channel = NotificationDelivery["channel"];
+
+/** "HH:MM", 24-hour */
+export const LOCAL_TIME = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** For agents without a policy of their own, unless the user sets a default: the old fixed email limit */
+export const DEFAULT_RATE_POLICY: NotificationRatePolicy = {
+  agent_id: null,
+  channels: ["email"],
+  max_per_hour: 5,
+  overflow: "delay",
+};
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours! * 60 + minutes!;
+}
+
+/** Minutes since local midnight; unknown timezones count as UTC */
+export function localMinutes(date: Date, timezone: string): number {
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat("en-US", { timeZone: timezone, hour: "numeric", minute: "numeric", hourCycle: "h23" });
+  } catch {
+    formatter = new Intl.DateTimeFormat("en-US", { timeZone: "UTC", hour: "numeric", minute: "numeric", hourCycle: "h23" });
+  }
+  const parts = formatter.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return part("hour") * 60 + part("minute");
+}
+
+export function isQuietTime(quiet: { start: string; end: string }, now: Date, timezone: string): boolean {
+  const start = toMinutes(quiet.start);
+  const end = toMinutes(quiet.end);
+  const current = localMinutes(now, timezone);
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/** The next moment after `now` when the local time is one of `times` */
+export function nextLocalTime(times: string[], now: Date, timezone: string): Date {
+  const current = localMinutes(now, timezone);
+  const wait = Math.min(
+    ...times.map((time) => (toMinutes(time) - current + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY)
+  );
+  const startOfMinute = now.getTime() - (now.getTime() % 60_000);
+  const next = new Date(startOfMinute + wait * 60_000);
+
+  // Across a daylight saving change the wall clock moved as well; make up the difference
+  const drift = ((current + wait - localMinutes(next, timezone)) % MINUTES_PER_DAY + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  if (drift === 0) return next;
+  return new Date(next.getTime() + (drift > MINUTES_PER_DAY / 2 ? drift - MINUTES_PER_DAY : drift) * 60_000);
+}
+
+/** When the channel's next digest goes out: its next scheduled time, or in an hour without a schedule */
+export function nextDigestAt(
+  settings: UserNotificationSettings | null,
+  channel: Channel,
+  now: Date,
+  timezone: string
+): Date {
+  const times = settings?.digest_schedule?.[channel];
+  return times?.length ? nextLocalTime(times, now, timezone) : new Date(now.getTime() + 60 * 60_000);
+}
+
+/** The agent's own policy, else the user's default, else DEFAULT_RATE_POLICY; null when none covers the channel */
+export function ratePolicyFor(
+  policies: NotificationRatePolicy[],
+  agentId: number,
+  channel: Channel
+): NotificationRatePolicy | null {
+  const policy =
+    policies.find((p) => p.agent_id === agentId) ?? policies.find((p) => p.agent_id === null) ?? DEFAULT_RATE_POLICY;
+  return policy.channels.includes(channel) ? policy : null;
+}
+
+/** How long an over-limit delivery waits before trying again */
+export function rateLimitWaitMs(policy: NotificationRatePolicy): number {
+  return Math.ceil(60 / policy.max_per_hour) * 60_000;
+}
+
+export type DeliveryPlan =
+  | { action: "send" }
+  | { action: "wait"; until: Date }
+  | { action: "digest"; until: Date };
+
+/**
+ * Quiet hours and digests for a delivery about to go out. High urgency
+ * notifications skip both. Rate policies are checked separately, as they
+ * need the agent's recent deliveries.
+ */
+export function planDelivery(
+  urgency: Notification["urgency"],
+  channel: Channel,
+  settings: UserNotificationSettings | null,
+  now: Date,
+  timezone: string
+): DeliveryPlan {
+  if (urgency === "high") return { action: "send" };
+  if (settings?.quiet_hours && isQuietTime(settings.quiet_hours, now, timezone)) {
+    return { action: "wait", until: nextLocalTime([settings.quiet_hours.end], now, timezone) };
+  }
+  if (settings?.digest_schedule?.[channel]?.length) {
+    return { action: "digest", until: nextDigestAt(settings, channel, now, timezone) };
+  }
+  return { action: "send" };
+}
@@ -0,0 +1,90 @@
+/**
+ * Quiet hours, digest schedules and rate policies as the notification
+ * settings API accepts them. Fields left out of the request are left
+ * unchanged; agent ownership of rate policies is checked by the caller.
+ */
+
+import type { NotificationDelivery, NotificationRatePolicy, UserNotificationSettings } from "../types/models";
+import { LOCAL_TIME } from "./policy";
+
+type PolicySettings = Pick<UserNotificationSettings, "quiet_hours" | "digest_schedule" | "rate_policies">;
+
+const CHANNELS: NotificationDelivery["channel"][] = ["email", "webhook", "pushover"];
+const OVERFLOW_ACTIONS: NotificationRatePolicy["overflow"][] = ["delay", "digest", "drop"];
+const MAX_DIGEST_TIMES = 24;
+const MAX_PER_HOUR_LIMIT = 1000;
+
+export function parseNotificationPolicyInput(body: Record<string, unknown>): { data: Partial<PolicySettings> } | { error: string } {
+  const data: Partial<PolicySettings> = {};
+
+  if (body.quiet_hours !== undefined) {
+    const quiet = body.quiet_hours as { start?: unknown; end?: unknown } | null;
+    if (quiet === null) {
+      data.quiet_hours = null;
+    } else if (
+      typeof quiet !== "object" ||
+      typeof quiet.start !== "string" ||
+      typeof quiet.end !== "string" ||
+      !LOCAL_TIME.test(quiet.start) ||
+      !LOCAL_TIME.test(quiet.end)
+    ) {
+      return { error: 'quiet_hours must be null or {start, end} as "HH:MM"' };
+    } else if (quiet.start === quiet.end) {
+      return { error: "quiet_hours must start and end at different times" };
+    } else {
+      data.quiet_hours = { start: quiet.start, end: quiet.end };
+    }
+  }
+
+  if (body.digest_schedule !== undefined) {
+    const schedule = body.digest_schedule;
+    if (!schedule || typeof schedule !== "object" || Array.isArray(schedule)) {
+      return { error: "digest_schedule must map channels to lists of times" };
+    }
+    const parsed: PolicySettings["digest_schedule"] = {};
+    for (const [channel, times] of Object.entries(schedule)) {
+      if (!CHANNELS.includes(channel as NotificationDelivery["channel"])) {
+        return { error: `digest_schedule channels must be one of: ${CHANNELS.join(", ")}` };
+      }
+      if (!Array.isArray(times) || times.some((t) => typeof t !== "string" || !LOCAL_TIME.test(t))) {
+        return { error: `digest_schedule.${channel} must be a list of "HH:MM" times` };
+      }
+      if (times.length > MAX_DIGEST_TIMES) {
+        return { error: `digest_schedule.${channel} allows at most ${MAX_DIGEST_TIMES} times` };
+      }
+      if (times.length > 0) {
+        parsed[channel as NotificationDelivery["channel"]] = [...new Set(times as string[])].sort();
+      }
+    }
+    data.digest_schedule = parsed;
+  }
+
+  if (body.rate_policies !== undefined) {
+    if (!Array.isArray(body.rate_policies)) return { error: "rate_policies must be an array" };
+    const policies: NotificationRatePolicy[] = [];
+    for (const raw of body.rate_policies as Array<Partial<NotificationRatePolicy>>) {
+      const agentId = raw?.agent_id ?? null;
+      if (agentId !== null && !Number.isInteger(agentId)) {
+        return { error: "Rate policy agent_id must be an agent ID, or null for the default" };
+      }
+      if (policies.some((p) => p.agent_id === agentId)) {
+        return { error: agentId === null ? "Only one default rate policy is allowed" : `Agent ${agentId} has more than one rate policy` };
+      }
+      const channels = raw.channels ?? CHANNELS;
+      if (!Array.isArray(channels) || channels.some((c) => !CHANNELS.includes(c))) {
+        return { error: `Rate policy channels must be some of: ${CHANNELS.join(", ")}` };
+      }
+      if (!Number.isInteger(raw.max_per_hour) || raw.max_per_hour! < 1 || raw.max_per_hour! > MAX_PER_HOUR_LIMIT) {
+        return { error: `Rate policy max_per_hour must be a whole number from 1 to ${MAX_PER_HOUR_LIMIT}` };
+      }
+      const overflow = raw.overflow ?? "delay";
+      if (!OVERFLOW_ACTIONS.includes(overflow)) {
+        return { error: `Rate policy overflow must be one of: ${OVERFLOW_ACTIONS.join(", ")}` };
+      }
+      policies.push({ agent_id: agentId, channels: [...new Set(channels)], max_per_hour: raw.max_per_hour!, overflow });
+    }
+    data.rate_policies = policies;
+  }
+
+  return { data };
+}
@@ -1,4 +1,4 @@
-import type { Agent, PoolType, NotifierChannel } from "../types/models";
+import type { Agent, PoolType, NotifierChannel, MemorySearchSettings } from "../types/models";
 
 export interface CreateAgentData {
   user_id: number;
@@ -7,6 +7,7 @@ export interface CreateAgentData {
   purpose?: string;
   system_prompt: string;
   model?: string;
+  fallback_models?: string[];
   internet_search_enabled?: boolean;
   pool_type?: PoolType;
   domain?: string;
@@ -19,9 +20,11 @@ export interface UpdateAgentData {
   purpose?: string;
   system_prompt?: string;
   model?: string;
+  fallback_models?: string[];
   internet_search_enabled?: boolean;
   default_notifier?: NotifierChannel | null;
   default_notifier_destination?: string | null;
+  memory_search_weights?: MemorySearchSettings | null;
 }
 
 export interface AgentRepository {
@@ -0,0 +1,23 @@
+import type { Budget } from "../types/models";
+
+/** Identifies the owner of a budget */
+export type BudgetTarget =
+  | { scope: "user"; user_id: number }
+  | { scope: "team"; domain: string }
+  | { scope: "agent"; agent_id: number };
+
+export interface BudgetLimits {
+  monthly_cost_limit_usd: number | null;
+  monthly_token_limit: number | null;
+  soft_threshold_percent?: number;
+}
+
+export interface BudgetRepository {
+  find(target: BudgetTarget): Promise<Budget | null>;
+  /** Budgets for every agent in the list (missing agents have no budget) */
+  listForAgents(agentIds: number[]): Promise<Budget[]>;
+  upsert(target: BudgetTarget, limits: BudgetLimits): Promise<Budget>;
+  delete(target: BudgetTarget): Promise<void>;
+  /** Remember that the soft-threshold notification went out for this month */
+  markSoftAlerted(id: number, month: string): Promise<void>;
+}
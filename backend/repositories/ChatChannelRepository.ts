@@ -0,0 +1,46 @@
+import type { ChatChannel, ChatChannelRoute, ChatPlatform, ChatThread } from "../types/models";
+
+export interface CreateChatChannelData {
+  user_id: number;
+  platform: ChatPlatform;
+  name: string;
+  agent_id: number;
+  routes?: ChatChannelRoute[];
+  allowed_user_ids?: string[];
+  bot_token?: string | null;
+  signing_secret?: string | null;
+  application_id?: string | null;
+  public_key?: string | null;
+  inbound_token: string;
+  enabled?: boolean;
+}
+
+export type UpdateChatChannelData = Partial<
+  Pick<
+    ChatChannel,
+    | 'name'
+    | 'agent_id'
+    | 'routes'
+    | 'allowed_user_ids'
+    | 'bot_token'
+    | 'signing_secret'
+    | 'application_id'
+    | 'public_key'
+    | 'enabled'
+  >
+>;
+
+export interface ChatChannelRepository {
+  listByUser(userId: number): Promise<ChatChannel[]>;
+  findById(id: number): Promise<ChatChannel | null>;
+  /** The channel an inbound platform request is addressed to */
+  findByInboundToken(token: string): Promise<ChatChannel | null>;
+  create(data: CreateChatChannelData): Promise<ChatChannel>;
+  update(id: number, data: UpdateChatChannelData): Promise<ChatChannel | null>;
+  delete(id: number): Promise<void>;
+
+  /** Threads */
+  findThread(chatChannelId: number, platformChannelId: string, threadId: string): Promise<ChatThread | null>;
+  /** Point a platform thread at a conversation, replacing any earlier one */
+  saveThread(data: { chat_channel_id: number; platform_channel_id: string; thread_id: string; conversation_id: number }): Promise<ChatThread>;
+}
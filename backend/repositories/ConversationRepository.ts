@@ -13,6 +13,8 @@ export interface CreateMessageData {
   content: string;
   raw_data?: any; // Full message object from OpenAI Agents SDK
   agent_id?: number; // For tracking which agent sent the message (handoffs)
+  model?: string | null; // Model that produced an assistant message
+  parent_id?: number | null; // Defaults to the conversation's active leaf; null starts a new root branch
 }
 
 export interface ConversationRepository {
@@ -22,10 +24,19 @@ export interface ConversationRepository {
   findById(id: number): Promise<Conversation | null>;
   create(data: CreateConversationData): Promise<Conversation>;
   delete(id: number): Promise<void>;
+  /** Conversations with messages newer than their last consolidation, idle since before `idleBefore` */
+  listPendingConsolidation(idleBefore: Date, limit: number): Promise<Conversation[]>;
+  /** Record that messages up to `upTo` have been consolidated into memories */
+  markConsolidated(id: number, upTo: Date): Promise<void>;
 
   // Messages
   listMessages(conversationId: number): Promise<Message[]>;
+  /** Messages on the active branch, from the first message to the active leaf */
+  listActivePath(conversationId: number): Promise<Message[]>;
+  findMessageById(id: number): Promise<Message | null>;
+  /** Adds a message and makes it the conversation's active leaf */
   addMessage(data: CreateMessageData): Promise<Message>;
+  setActiveLeaf(conversationId: number, messageId: number | null): Promise<void>;
   deleteMessage(id: number): Promise<void>;
   deleteAllMessages(conversationId: number): Promise<void>;
 }
@@ -0,0 +1,22 @@
+import type { EmailInbox, EmailThread } from "../types/models";
+
+export interface UpsertEmailInboxData {
+  user_id: number;
+  alias: string;
+  agent_id: number;
+  allowed_senders?: string[];
+  enabled?: boolean;
+}
+
+export interface EmailInboxRepository {
+  findByUser(userId: number): Promise<EmailInbox | null>;
+  /** The inbox mail to <alias>@ the inbound domain is addressed to */
+  findByAlias(alias: string): Promise<EmailInbox | null>;
+  upsert(data: UpsertEmailInboxData): Promise<EmailInbox>;
+  delete(userId: number): Promise<void>;
+
+  /** Threads */
+  /** The most recent conversation any of these Message-IDs belongs to */
+  findThread(emailInboxId: number, messageIds: string[]): Promise<EmailThread | null>;
+  saveThread(data: { email_inbox_id: number; message_id: string; conversation_id: number }): Promise<EmailThread>;
+}
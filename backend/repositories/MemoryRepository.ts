@@ -1,12 +1,34 @@
-import type { AgentMemory } from "../types/models";
+import type { AgentMemory, MemoryAuthor, MemoryChange } from "../types/models";
 
 export interface SetMemoryData {
   key: string;
   value: string;
   tier?: 'core' | 'working' | 'reference';
-  author?: 'user' | 'agent';
+  /** Set on insert. On update only 'consolidator' replaces the stored author, so consolidated memories stay visible */
+  author?: MemoryAuthor;
 }
 
+export interface CreateMemoryChangeData {
+  agent_id: number;
+  conversation_id: number | null;
+  action: MemoryChange['action'];
+  memory_key: string;
+  value: string | null;
+  previous: MemoryChange['previous'];
+  merged_into?: string | null;
+  reason?: string | null;
+}
+
+/** A full-text/pattern match with the raw signals used by the hybrid ranker */
+export type KeywordMemoryMatch = AgentMemory & {
+  /** Normalised full-text rank in [0, 1) */
+  text_rank: number;
+  /** The query appears verbatim in the key or value */
+  substring_match: boolean;
+  /** The query equals the key (case-insensitive) */
+  key_match: boolean;
+};
+
 export interface MemoryRepository {
   // Core CRUD
   set(agentId: number, data: SetMemoryData): Promise<AgentMemory>;
@@ -28,8 +50,22 @@ export interface MemoryRepository {
 
   // Search
   search(agentId: number, pattern: string): Promise<AgentMemory[]>;
-  semanticSearch(agentId: number, embedding: number[], limit?: number): Promise<(AgentMemory & { similarity: number })[]>;
+  keywordSearch(agentId: number, query: string, limit: number): Promise<KeywordMemoryMatch[]>;
+  /** Only compares against vectors produced by the same embedding model */
+  semanticSearch(agentId: number, embedding: number[], model: string, limit?: number): Promise<(AgentMemory & { similarity: number })[]>;
 
   // Embedding management
-  setEmbedding(agentId: number, key: string, embedding: number[]): Promise<void>;
+  setEmbedding(agentId: number, key: string, embedding: number[], model: string): Promise<void>;
+  /** Memories across a user's agents with no vector from `model`, in id order after `afterId` */
+  listNeedingEmbedding(userId: number, model: string, afterId: number, limit: number): Promise<AgentMemory[]>;
+  countNeedingEmbedding(userId: number, model: string): Promise<number>;
+
+  /** Write a memory exactly as given (value, tier and author), e.g. when reverting a change */
+  restore(agentId: number, key: string, snapshot: NonNullable<MemoryChange['previous']>): Promise<AgentMemory>;
+
+  // Consolidation change log
+  logChange(data: CreateMemoryChangeData): Promise<MemoryChange>;
+  listChanges(agentId: number, limit?: number): Promise<MemoryChange[]>;
+  findChange(id: number): Promise<MemoryChange | null>;
+  markChangeReverted(id: number): Promise<void>;
 }
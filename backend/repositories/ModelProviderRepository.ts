@@ -0,0 +1,22 @@
+import type { ModelProvider } from "../types/models";
+
+/** Identifies who owns a custom provider */
+export type ModelProviderOwner = { user_id: number } | { domain: string };
+
+export interface ModelProviderData {
+  name: string;
+  base_url: string;
+  api_key?: string | null; // Already encrypted; null clears it
+  api_key_header?: string;
+  headers?: Record<string, string> | null;
+  models?: string[];
+}
+
+export interface ModelProviderRepository {
+  list(owner: ModelProviderOwner): Promise<ModelProvider[]>;
+  findById(id: number): Promise<ModelProvider | null>;
+  create(owner: ModelProviderOwner, data: ModelProviderData): Promise<ModelProvider>;
+  /** Fields left undefined are unchanged */
+  update(id: number, data: Partial<ModelProviderData>): Promise<ModelProvider>;
+  delete(id: number): Promise<void>;
+}
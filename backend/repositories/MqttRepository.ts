@@ -21,6 +21,8 @@ export interface CreateSubscriptionData {
   conversation_id?: number;
   rate_limit_window_ms?: number;
   rate_limit_max_triggers?: number;
+  workflow_id?: number | null;
+  workflow_facts?: Record<string, string>;
 }
 
 export interface MqttRepository {
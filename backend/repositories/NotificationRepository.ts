@@ -1,4 +1,12 @@
-import type { Notification, NotificationDelivery, UserNotificationSettings } from "../types/models";
+import type { DeliveryHoldReason, Notification, NotificationDelivery, NotificationDeliveryAttempt, UserNotificationSettings } from "../types/models";
+
+export type CreateDeliveryAttemptData = Omit<NotificationDeliveryAttempt, 'id' | 'created_at'>;
+
+/** A delivery as shown in the deliveries log */
+export interface DeliveryLogEntry extends NotificationDelivery {
+  notification: Notification & { agent_name: string | null };
+  attempt_log: NotificationDeliveryAttempt[];
+}
 
 export interface NotificationRepository {
   create(data: {
@@ -21,21 +29,40 @@ export interface NotificationRepository {
 
   /** Delivery tracking */
   createDelivery(notificationId: number, channel: 'email' | 'webhook' | 'pushover', destination?: string | null): Promise<NotificationDelivery>;
+  /** Counts an attempt; a 'pending' (or 'held') status schedules a retry at next_attempt_at */
   updateDelivery(id: number, data: {
-    status: 'sent' | 'failed';
+    status: 'pending' | 'held' | 'sent' | 'failed';
     error_message?: string;
+    next_attempt_at?: Date | null;
   }): Promise<void>;
+  /** Parks a delivery without counting an attempt: waiting ('pending'), for a digest ('held') or 'dropped' */
+  holdDelivery(id: number, data: {
+    status: 'pending' | 'held' | 'dropped';
+    held_reason: DeliveryHoldReason;
+    next_attempt_at: Date | null;
+  }): Promise<void>;
+  /** Pending deliveries whose next attempt is due */
   listPendingDeliveries(): Promise<(NotificationDelivery & { notification: Notification })[]>;
+  /** Held deliveries whose digest is due, oldest notification first */
+  listDueDigestDeliveries(): Promise<(NotificationDelivery & { notification: Notification })[]>;
+  findDeliveryById(id: number): Promise<(NotificationDelivery & { notification: Notification }) | null>;
+  recordDeliveryAttempt(data: CreateDeliveryAttemptData): Promise<NotificationDeliveryAttempt>;
+  /** The user's deliveries, newest first, with their attempts */
+  listDeliveries(userId: number, options?: {
+    channel?: NotificationDelivery['channel'];
+    limit?: number;
+    offset?: number;
+  }): Promise<DeliveryLogEntry[]>;
 
   /** User notification settings */
   getSettings(userId: number): Promise<UserNotificationSettings | null>;
-  upsertSettings(userId: number, data: Partial<Pick<UserNotificationSettings, 'notification_email' | 'email_addresses' | 'webhook_urls' | 'email_enabled' | 'pushover_user_key' | 'pushover_api_token' | 'pushover_enabled'>>): Promise<UserNotificationSettings>;
+  upsertSettings(userId: number, data: Partial<Pick<UserNotificationSettings, 'notification_email' | 'email_addresses' | 'webhook_urls' | 'email_enabled' | 'pushover_user_key' | 'pushover_api_token' | 'pushover_enabled' | 'mail_transport' | 'quiet_hours' | 'digest_schedule' | 'rate_policies'>>): Promise<UserNotificationSettings>;
 
   /** Per-agent muting */
   isAgentMuted(userId: number, agentId: number, channel: string): Promise<boolean>;
   muteAgent(userId: number, agentId: number, channels: string[]): Promise<void>;
   unmuteAgent(userId: number, agentId: number): Promise<void>;
 
-  /** Rate limiting check - count deliveries for an agent+channel in last N minutes */
-  countRecentByAgentAndChannel(agentId: number, channel: string, sinceMinutes: number): Promise<number>;
+  /** Rate limiting check - count the user's deliveries for an agent+channel sent in the last N minutes, outside digests */
+  countRecentByAgentAndChannel(userId: number, agentId: number, channel: string, sinceMinutes: number): Promise<number>;
 }
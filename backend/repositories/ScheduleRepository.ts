@@ -14,11 +14,13 @@ export interface CreateScheduleData {
   next_run_at?: number; // epoch ms
   notifier?: NotifierChannel | null;
   notifier_destination?: string | null;
+  workflow_id?: number | null;
+  workflow_facts?: Record<string, string>;
 }
 
 export interface ScheduleRepository {
   create(data: CreateScheduleData): Promise<Schedule>;
-  update(id: number, data: Partial<Pick<Schedule, 'prompt' | 'description' | 'enabled' | 'schedule_value' | 'schedule_type' | 'notifier' | 'notifier_destination'>>): Promise<Schedule>;
+  update(id: number, data: Partial<Pick<Schedule, 'prompt' | 'description' | 'enabled' | 'schedule_value' | 'schedule_type' | 'notifier' | 'notifier_destination' | 'workflow_id' | 'workflow_facts'>>): Promise<Schedule>;
   delete(id: number): Promise<void>;
   findById(id: number): Promise<Schedule | null>;
   listByUser(userId: number): Promise<Schedule[]>;
@@ -1,4 +1,26 @@
-import type { TeamSettings, TeamMcpServer, TeamUrlTool, TeamNotificationSettings } from "../types/models";
+import type { TeamSettings, TeamMcpServer, TeamUrlTool, TeamNotificationSettings, UrlToolParameter } from "../types/models";
+
+export interface TeamUrlToolData {
+  name: string;
+  description?: string;
+  url: string;
+  method: string;
+  headers?: Record<string, string>;
+  parameters?: UrlToolParameter[];
+  query_params?: Record<string, string>;
+  body_template?: string;
+}
+
+export interface UpdateTeamUrlToolData {
+  name?: string;
+  description?: string;
+  url?: string;
+  method?: string;
+  headers?: Record<string, string> | null;
+  parameters?: UrlToolParameter[];
+  query_params?: Record<string, string> | null;
+  body_template?: string | null;
+}
 
 export interface TeamRepository {
   // Settings (API keys + timezone)
@@ -24,11 +46,11 @@ export interface TeamRepository {
   // URL tools
   listUrlTools(domain: string): Promise<TeamUrlTool[]>;
   findUrlToolById(id: number): Promise<TeamUrlTool | null>;
-  createUrlTool(domain: string, data: { name: string; description?: string; url: string; method: string; headers?: Record<string, string> }): Promise<TeamUrlTool>;
-  updateUrlTool(id: number, data: { name?: string; description?: string; url?: string; method?: string; headers?: Record<string, string> | null }): Promise<TeamUrlTool>;
+  createUrlTool(domain: string, data: TeamUrlToolData): Promise<TeamUrlTool>;
+  updateUrlTool(id: number, data: UpdateTeamUrlToolData): Promise<TeamUrlTool>;
   deleteUrlTool(id: number): Promise<void>;
 
   // Notification settings
   getNotificationSettings(domain: string): Promise<TeamNotificationSettings | null>;
-  upsertNotificationSettings(domain: string, data: Partial<Pick<TeamNotificationSettings, 'notification_email' | 'email_addresses' | 'webhook_urls' | 'email_enabled' | 'pushover_user_key' | 'pushover_api_token' | 'pushover_enabled'>>): Promise<TeamNotificationSettings>;
+  upsertNotificationSettings(domain: string, data: Partial<Pick<TeamNotificationSettings, 'notification_email' | 'email_addresses' | 'webhook_urls' | 'email_enabled' | 'pushover_user_key' | 'pushover_api_token' | 'pushover_enabled' | 'mail_transport'>>): Promise<TeamNotificationSettings>;
 }
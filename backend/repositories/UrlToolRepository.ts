@@ -1,4 +1,4 @@
-import type { UrlTool } from "../types/models";
+import type { UrlTool, UrlToolParameter } from "../types/models";
 
 export interface CreateUrlToolData {
   user_id: number;
@@ -7,6 +7,9 @@ export interface CreateUrlToolData {
   url: string;
   method: string;
   headers?: Record<string, string>;
+  parameters?: UrlToolParameter[];
+  query_params?: Record<string, string>;
+  body_template?: string;
 }
 
 export interface UpdateUrlToolData {
@@ -15,6 +18,9 @@ export interface UpdateUrlToolData {
   url?: string;
   method?: string;
   headers?: Record<string, string> | null;
+  parameters?: UrlToolParameter[];
+  query_params?: Record<string, string> | null;
+  body_template?: string | null;
 }
 
 export interface UrlToolRepository {
@@ -0,0 +1,44 @@
+import type { ConversationSource, UsageGroupBy, UsageRecord, UsageRollup } from "../types/models";
+
+export interface CreateUsageRecordData {
+  user_id: number;
+  agent_id: number | null;
+  conversation_id: number | null;
+  source: ConversationSource;
+  model: string;
+  step_index: number;
+  input_tokens: number;
+  output_tokens: number;
+  cached_input_tokens: number;
+  cost_usd: number | null;
+}
+
+export interface UsageQuery {
+  since?: Date;
+  until?: Date;
+  agent_id?: number;
+  conversation_id?: number;
+}
+
+export type UsageSpendFilter = { user_id: number } | { domain: string } | { agent_id: number };
+
+export interface UsageSpend {
+  tokens: number;
+  cost_usd: number;
+}
+
+export interface UsageRepository {
+  /** Record usage for one or more agent steps */
+  record(records: CreateUsageRecordData[]): Promise<void>;
+
+  /** Totals grouped by agent, conversation, source or day (newest/most expensive first) */
+  summarize(userId: number, groupBy: UsageGroupBy, query?: UsageQuery): Promise<UsageRollup[]>;
+
+  /** Grand total across all matching records */
+  total(userId: number, query?: UsageQuery): Promise<Omit<UsageRollup, "key" | "label">>;
+
+  listByConversation(conversationId: number): Promise<UsageRecord[]>;
+
+  /** Tokens (input + output) and cost since a date for a user, team domain or agent */
+  spendSince(filter: UsageSpendFilter, since: Date): Promise<UsageSpend>;
+}
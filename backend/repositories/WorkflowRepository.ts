@@ -3,6 +3,10 @@ import type {
   AgentWorkflow,
   WorkflowExecution,
   WorkflowFact,
+  WorkflowApproval,
+  WorkflowStepAttempt,
+  WorkflowRevision,
+  WorkflowStepTemplate,
 } from "../types/models";
 
 export interface CreateWorkflowData {
@@ -27,8 +31,14 @@ export interface UpdateWorkflowData {
 export interface CreateWorkflowExecutionData {
   conversation_id: number;
   workflow_id: number;
+  revision_id: number | null;
   current_step_id: string;
   started_at: number; // epoch ms
+  deadline_at: number | null; // epoch ms
+  step_deadline_at: number | null; // epoch ms
+  /** Set when a workflow step started this execution as a sub-workflow */
+  parent_execution_id?: number | null;
+  parent_step_id?: string | null;
 }
 
 export interface SetFactData {
@@ -36,19 +46,76 @@ export interface SetFactData {
   step_id: string;
   fact_name: string;
   fact_value: unknown;
-  source: 'conversation' | 'tool' | 'default' | 'verifier';
+  source: 'conversation' | 'tool' | 'default' | 'verifier' | 'approval' | 'trigger' | 'workflow';
   collected_at: number; // epoch ms
 }
 
+export type RecordStepAttemptData = Omit<WorkflowStepAttempt, 'id'>;
+
+/** An execution listed in a workflow's history, with the agent and conversation it ran in */
+export interface WorkflowExecutionSummary extends WorkflowExecution {
+  agent_id: number;
+  agent_slug: string;
+  agent_name: string;
+  conversation_title: string | null;
+}
+
+export interface CreateWorkflowApprovalData {
+  execution_id: number;
+  step_id: string;
+  step_name: string;
+  message: string;
+  expires_at: number; // epoch ms
+}
+
+export interface DecideWorkflowApprovalData {
+  status: 'approved' | 'rejected' | 'expired' | 'cancelled';
+  decided_by?: string | null;
+  decided_via?: 'app' | 'link' | null;
+  comment?: string | null;
+  decided_at: number; // epoch ms
+}
+
+export interface CreateStepTemplateData {
+  user_id: number;
+  name: string;
+  description?: string | null;
+  yaml_content: string;
+}
+
+export interface UpdateStepTemplateData {
+  name?: string;
+  description?: string | null;
+  yaml_content?: string;
+}
+
 export interface WorkflowRepository {
   // Workflows CRUD
   listByUser(userId: number): Promise<Workflow[]>;
   findById(id: number): Promise<Workflow | null>;
   findByName(userId: number, name: string): Promise<Workflow | null>;
+  /** Create a workflow along with its first revision */
   create(data: CreateWorkflowData): Promise<Workflow>;
+  /** Update a workflow; a changed yaml_content is recorded as a new revision */
   update(id: number, data: UpdateWorkflowData): Promise<Workflow>;
   delete(id: number): Promise<void>;
 
+  // Revisions
+  /** A workflow's revisions, newest first */
+  listRevisions(workflowId: number): Promise<WorkflowRevision[]>;
+  findRevision(workflowId: number, revision: number): Promise<WorkflowRevision | null>;
+  findRevisionById(id: number): Promise<WorkflowRevision | null>;
+  /** The newest revision of a workflow with the given version */
+  findRevisionByVersion(workflowId: number, version: string): Promise<WorkflowRevision | null>;
+
+  // Step templates
+  listStepTemplates(userId: number): Promise<WorkflowStepTemplate[]>;
+  findStepTemplateById(id: number): Promise<WorkflowStepTemplate | null>;
+  findStepTemplateByName(userId: number, name: string): Promise<WorkflowStepTemplate | null>;
+  createStepTemplate(data: CreateStepTemplateData): Promise<WorkflowStepTemplate>;
+  updateStepTemplate(id: number, data: UpdateStepTemplateData): Promise<WorkflowStepTemplate>;
+  deleteStepTemplate(id: number): Promise<void>;
+
   // Agent-workflow assignments
   listAgentWorkflows(agentId: number): Promise<(AgentWorkflow & { workflow: Workflow })[]>;
   getDefaultWorkflow(agentId: number): Promise<Workflow | null>;
@@ -57,15 +124,62 @@ export interface WorkflowRepository {
   setDefaultWorkflow(agentId: number, workflowId: number): Promise<void>;
 
   // Workflow executions
+  /**
+   * The conversation's running execution, including one paused awaiting
+   * approval. While a sub-workflow runs, that's the innermost one.
+   */
   getActiveExecution(conversationId: number): Promise<WorkflowExecution | null>;
+  findExecutionById(executionId: number): Promise<WorkflowExecution | null>;
+  /** Sub-workflow executions a workflow step of this execution started, most recent first */
+  listChildExecutions(parentExecutionId: number): Promise<WorkflowExecution[]>;
+  /** A workflow's executions, most recent first */
+  listExecutionsByWorkflow(workflowId: number, limit?: number): Promise<WorkflowExecutionSummary[]>;
+  /** A workflow's running executions, including ones paused awaiting approval */
+  listActiveExecutionsByWorkflow(workflowId: number): Promise<WorkflowExecution[]>;
+  /** Running executions past their workflow or step deadline */
+  listOverdueExecutions(now: number, limit?: number): Promise<WorkflowExecution[]>;
   createExecution(data: CreateWorkflowExecutionData): Promise<WorkflowExecution>;
+  /** Update an execution; fields left undefined are unchanged, null clears them */
   updateExecution(
     executionId: number,
-    data: Partial<Pick<WorkflowExecution, 'current_step_index' | 'current_step_id' | 'status' | 'completed_at'>>
+    data: Partial<Pick<
+      WorkflowExecution,
+      | 'revision_id'
+      | 'current_step_index'
+      | 'current_step_id'
+      | 'status'
+      | 'completed_at'
+      | 'loop_counts'
+      | 'deadline_at'
+      | 'step_deadline_at'
+    >>
   ): Promise<WorkflowExecution>;
 
   // Workflow facts
   listFacts(executionId: number): Promise<WorkflowFact[]>;
   listFactsByStep(executionId: number, stepId: string): Promise<WorkflowFact[]>;
   setFact(data: SetFactData): Promise<WorkflowFact>;
+  /** Remove the facts a step collected (used when a loop revisits the step) */
+  clearStepFacts(executionId: number, stepId: string): Promise<void>;
+  /** Move a step's facts to another step, replacing any it has with the same names (used when migrating to a revision) */
+  renameStepFacts(executionId: number, fromStepId: string, toStepId: string): Promise<void>;
+
+  // Step attempts (gate and verifier outcomes)
+  recordStepAttempt(data: RecordStepAttemptData): Promise<WorkflowStepAttempt>;
+  listStepAttempts(executionId: number): Promise<WorkflowStepAttempt[]>;
+
+  // Approvals
+  /** Create an approval request; the user, agent and conversation are taken from the execution */
+  createApproval(data: CreateWorkflowApprovalData): Promise<WorkflowApproval>;
+  findApprovalById(id: number): Promise<WorkflowApproval | null>;
+  listApprovalsByExecution(executionId: number): Promise<WorkflowApproval[]>;
+  /** Pending approvals past their expiry */
+  listExpiredApprovals(now: number, limit?: number): Promise<WorkflowApproval[]>;
+  /** Approvals for a user's workflows (with the workflow name), newest first */
+  listApprovalsByUser(
+    userId: number,
+    options?: { status?: WorkflowApproval['status']; limit?: number }
+  ): Promise<(WorkflowApproval & { workflow_name: string })[]>;
+  /** Record a decision on a pending approval. Returns null if it was already decided */
+  decideApproval(id: number, data: DecideWorkflowApprovalData): Promise<WorkflowApproval | null>;
 }
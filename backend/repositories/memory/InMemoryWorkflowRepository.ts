@@ -0,0 +1,430 @@
+import type {
+  Workflow,
+  AgentWorkflow,
+  WorkflowExecution,
+  WorkflowFact,
+  WorkflowApproval,
+  WorkflowStepAttempt,
+  WorkflowRevision,
+  WorkflowStepTemplate,
+} from "../../types/models";
+import type {
+  WorkflowRepository,
+  CreateWorkflowData,
+  UpdateWorkflowData,
+  CreateWorkflowExecutionData,
+  SetFactData,
+  RecordStepAttemptData,
+  WorkflowExecutionSummary,
+  CreateWorkflowApprovalData,
+  DecideWorkflowApprovalData,
+  CreateStepTemplateData,
+  UpdateStepTemplateData,
+} from "../WorkflowRepository";
+
+const ACTIVE_STATUSES: WorkflowExecution["status"][] = ["in_progress", "awaiting_approval"];
+
+/**
+ * A WorkflowRepository kept in memory, so the workflow engine can run
+ * without a database — used by the workflow test harness, where nothing a
+ * test run does should be persisted. Executions have no agent behind them:
+ * approvals report agent 0.
+ */
+export class InMemoryWorkflowRepository implements WorkflowRepository {
+  private nextId = 1;
+  private workflows = new Map<number, Workflow>();
+  private revisions: WorkflowRevision[] = [];
+  private templates = new Map<number, WorkflowStepTemplate>();
+  private assignments: AgentWorkflow[] = [];
+  private executions = new Map<number, WorkflowExecution>();
+  private facts: WorkflowFact[] = [];
+  private attempts: WorkflowStepAttempt[] = [];
+  private approvals = new Map<number, WorkflowApproval>();
+
+  private id(): number {
+    return this.nextId++;
+  }
+
+  // ── Workflows ───────────────────────────────────────────────────────────
+
+  async listByUser(userId: number): Promise<Workflow[]> {
+    return [...this.workflows.values()]
+      .filter((w) => w.user_id === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async findById(id: number): Promise<Workflow | null> {
+    return this.workflows.get(id) ?? null;
+  }
+
+  async findByName(userId: number, name: string): Promise<Workflow | null> {
+    return [...this.workflows.values()].find((w) => w.user_id === userId && w.name === name) ?? null;
+  }
+
+  async create(data: CreateWorkflowData): Promise<Workflow> {
+    const now = new Date();
+    const workflow: Workflow = {
+      id: this.id(),
+      user_id: data.user_id,
+      name: data.name,
+      description: data.description ?? null,
+      yaml_content: data.yaml_content,
+      version: data.version ?? "1.0.0",
+      tags: data.tags ?? [],
+      timeout_minutes: data.timeout_minutes ?? 30,
+      revision: 1,
+      created_at: now,
+      updated_at: now,
+    };
+    this.workflows.set(workflow.id, workflow);
+    this.addRevision(workflow);
+    return workflow;
+  }
+
+  async update(id: number, data: UpdateWorkflowData): Promise<Workflow> {
+    const current = this.workflows.get(id);
+    if (!current) throw new Error(`Workflow not found: ${id}`);
+
+    const changed = data.yaml_content !== undefined && data.yaml_content !== current.yaml_content;
+    const workflow: Workflow = {
+      ...current,
+      name: data.name ?? current.name,
+      description: data.description ?? current.description,
+      yaml_content: data.yaml_content ?? current.yaml_content,
+      version: data.version ?? current.version,
+      tags: data.tags ?? current.tags,
+      timeout_minutes: data.timeout_minutes ?? current.timeout_minutes,
+      revision: changed ? current.revision + 1 : current.revision,
+      updated_at: new Date(),
+    };
+    this.workflows.set(id, workflow);
+    if (changed) this.addRevision(workflow);
+    return workflow;
+  }
+
+  async delete(id: number): Promise<void> {
+    this.workflows.delete(id);
+    this.revisions = this.revisions.filter((r) => r.workflow_id !== id);
+    this.assignments = this.assignments.filter((a) => a.workflow_id !== id);
+  }
+
+  private addRevision(workflow: Workflow): void {
+    this.revisions.push({
+      id: this.id(),
+      workflow_id: workflow.id,
+      revision: workflow.revision,
+      version: workflow.version,
+      yaml_content: workflow.yaml_content,
+      created_at: new Date(),
+    });
+  }
+
+  // ── Revisions ───────────────────────────────────────────────────────────
+
+  async listRevisions(workflowId: number): Promise<WorkflowRevision[]> {
+    return this.revisions
+      .filter((r) => r.workflow_id === workflowId)
+      .sort((a, b) => b.revision - a.revision);
+  }
+
+  async findRevision(workflowId: number, revision: number): Promise<WorkflowRevision | null> {
+    return this.revisions.find((r) => r.workflow_id === workflowId && r.revision === revision) ?? null;
+  }
+
+  async findRevisionById(id: number): Promise<WorkflowRevision | null> {
+    return this.revisions.find((r) => r.id === id) ?? null;
+  }
+
+  async findRevisionByVersion(workflowId: number, version: string): Promise<WorkflowRevision | null> {
+    const matching = (await this.listRevisions(workflowId)).filter((r) => r.version === version);
+    return matching[0] ?? null;
+  }
+
+  // ── Step templates ──────────────────────────────────────────────────────
+
+  async listStepTemplates(userId: number): Promise<WorkflowStepTemplate[]> {
+    return [...this.templates.values()]
+      .filter((t) => t.user_id === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async findStepTemplateById(id: number): Promise<WorkflowStepTemplate | null> {
+    return this.templates.get(id) ?? null;
+  }
+
+  async findStepTemplateByName(userId: number, name: string): Promise<WorkflowStepTemplate | null> {
+    return [...this.templates.values()].find((t) => t.user_id === userId && t.name === name) ?? null;
+  }
+
+  async createStepTemplate(data: CreateStepTemplateData): Promise<WorkflowStepTemplate> {
+    const now = new Date();
+    const template: WorkflowStepTemplate = {
+      id: this.id(),
+      user_id: data.user_id,
+      name: data.name,
+      description: data.description ?? null,
+      yaml_content: data.yaml_content,
+      created_at: now,
+      updated_at: now,
+    };
+    this.templates.set(template.id, template);
+    return template;
+  }
+
+  async updateStepTemplate(id: number, data: UpdateStepTemplateData): Promise<WorkflowStepTemplate> {
+    const current = this.templates.get(id);
+    if (!current) throw new Error(`Step template not found: ${id}`);
+    const template: WorkflowStepTemplate = {
+      ...current,
+      name: data.name ?? current.name,
+      description: data.description !== undefined ? data.description : current.description,
+      yaml_content: data.yaml_content ?? current.yaml_content,
+      updated_at: new Date(),
+    };
+    this.templates.set(id, template);
+    return template;
+  }
+
+  async deleteStepTemplate(id: number): Promise<void> {
+    this.templates.delete(id);
+  }
+
+  // ── Agent-workflow assignments ──────────────────────────────────────────
+
+  async listAgentWorkflows(agentId: number): Promise<(AgentWorkflow & { workflow: Workflow })[]> {
+    return this.assignments
+      .filter((a) => a.agent_id === agentId && this.workflows.has(a.workflow_id))
+      .map((a) => ({ ...a, workflow: this.workflows.get(a.workflow_id)! }));
+  }
+
+  async getDefaultWorkflow(agentId: number): Promise<Workflow | null> {
+    const assignment = this.assignments.find((a) => a.agent_id === agentId && a.is_default);
+    return assignment ? this.workflows.get(assignment.workflow_id) ?? null : null;
+  }
+
+  async assignWorkflow(agentId: number, workflowId: number, isDefault: boolean): Promise<AgentWorkflow> {
+    if (isDefault) await this.clearDefault(agentId);
+    const existing = this.assignments.find((a) => a.agent_id === agentId && a.workflow_id === workflowId);
+    if (existing) {
+      existing.is_default = isDefault;
+      return existing;
+    }
+    const assignment: AgentWorkflow = {
+      id: this.id(),
+      agent_id: agentId,
+      workflow_id: workflowId,
+      is_default: isDefault,
+      created_at: new Date(),
+    };
+    this.assignments.push(assignment);
+    return assignment;
+  }
+
+  async unassignWorkflow(agentId: number, workflowId: number): Promise<void> {
+    this.assignments = this.assignments.filter((a) => !(a.agent_id === agentId && a.workflow_id === workflowId));
+  }
+
+  async setDefaultWorkflow(agentId: number, workflowId: number): Promise<void> {
+    await this.clearDefault(agentId);
+    const assignment = this.assignments.find((a) => a.agent_id === agentId && a.workflow_id === workflowId);
+    if (assignment) assignment.is_default = true;
+  }
+
+  private async clearDefault(agentId: number): Promise<void> {
+    for (const assignment of this.assignments) {
+      if (assignment.agent_id === agentId) assignment.is_default = false;
+    }
+  }
+
+  // ── Executions ──────────────────────────────────────────────────────────
+
+  async getActiveExecution(conversationId: number): Promise<WorkflowExecution | null> {
+    const active = [...this.executions.values()].filter(
+      (e) => e.conversation_id === conversationId && ACTIVE_STATUSES.includes(e.status)
+    );
+    return active[active.length - 1] ?? null;
+  }
+
+  async findExecutionById(executionId: number): Promise<WorkflowExecution | null> {
+    return this.executions.get(executionId) ?? null;
+  }
+
+  async listChildExecutions(parentExecutionId: number): Promise<WorkflowExecution[]> {
+    return [...this.executions.values()].filter((e) => e.parent_execution_id === parentExecutionId).reverse();
+  }
+
+  async listExecutionsByWorkflow(workflowId: number, limit = 50): Promise<WorkflowExecutionSummary[]> {
+    return [...this.executions.values()]
+      .filter((e) => e.workflow_id === workflowId)
+      .reverse()
+      .slice(0, limit)
+      .map((e) => ({ ...e, agent_id: 0, agent_slug: "", agent_name: "", conversation_title: null }));
+  }
+
+  async listActiveExecutionsByWorkflow(workflowId: number): Promise<WorkflowExecution[]> {
+    return [...this.executions.values()].filter(
+      (e) => e.workflow_id === workflowId && ACTIVE_STATUSES.includes(e.status)
+    );
+  }
+
+  async listOverdueExecutions(now: number, limit = 100): Promise<WorkflowExecution[]> {
+    return [...this.executions.values()]
+      .filter(
+        (e) =>
+          e.status === "in_progress" &&
+          ((e.deadline_at !== null && e.deadline_at < now) || (e.step_deadline_at !== null && e.step_deadline_at < now))
+      )
+      .slice(0, limit);
+  }
+
+  async createExecution(data: CreateWorkflowExecutionData): Promise<WorkflowExecution> {
+    const now = new Date();
+    const execution: WorkflowExecution = {
+      id: this.id(),
+      conversation_id: data.conversation_id,
+      workflow_id: data.workflow_id,
+      revision_id: data.revision_id,
+      current_step_index: 0,
+      current_step_id: data.current_step_id,
+      status: "in_progress",
+      started_at: data.started_at,
+      completed_at: null,
+      loop_counts: {},
+      deadline_at: data.deadline_at,
+      step_deadline_at: data.step_deadline_at,
+      parent_execution_id: data.parent_execution_id ?? null,
+      parent_step_id: data.parent_step_id ?? null,
+      created_at: now,
+      updated_at: now,
+    };
+    this.executions.set(execution.id, execution);
+    return execution;
+  }
+
+  async updateExecution(
+    executionId: number,
+    data: Parameters<WorkflowRepository["updateExecution"]>[1]
+  ): Promise<WorkflowExecution> {
+    const current = this.executions.get(executionId);
+    if (!current) throw new Error(`Workflow execution not found: ${executionId}`);
+
+    const updated: WorkflowExecution = { ...current, updated_at: new Date() };
+    for (const [key, value] of Object.entries(data)) {
+      if (value !== undefined) (updated as unknown as Record<string, unknown>)[key] = value;
+    }
+    this.executions.set(executionId, updated);
+    return updated;
+  }
+
+  // ── Facts ───────────────────────────────────────────────────────────────
+
+  async listFacts(executionId: number): Promise<WorkflowFact[]> {
+    return this.facts.filter((f) => f.execution_id === executionId);
+  }
+
+  async listFactsByStep(executionId: number, stepId: string): Promise<WorkflowFact[]> {
+    return this.facts.filter((f) => f.execution_id === executionId && f.step_id === stepId);
+  }
+
+  async setFact(data: SetFactData): Promise<WorkflowFact> {
+    this.facts = this.facts.filter(
+      (f) => !(f.execution_id === data.execution_id && f.step_id === data.step_id && f.fact_name === data.fact_name)
+    );
+    const fact: WorkflowFact = { id: this.id(), ...data, created_at: new Date() };
+    this.facts.push(fact);
+    return fact;
+  }
+
+  async clearStepFacts(executionId: number, stepId: string): Promise<void> {
+    this.facts = this.facts.filter((f) => !(f.execution_id === executionId && f.step_id === stepId));
+  }
+
+  async renameStepFacts(executionId: number, fromStepId: string, toStepId: string): Promise<void> {
+    const moving = this.facts.filter((f) => f.execution_id === executionId && f.step_id === fromStepId);
+    const names = new Set(moving.map((f) => f.fact_name));
+    this.facts = this.facts.filter(
+      (f) => !(f.execution_id === executionId && f.step_id === toStepId && names.has(f.fact_name))
+    );
+    for (const fact of moving) fact.step_id = toStepId;
+  }
+
+  // ── Step attempts ───────────────────────────────────────────────────────
+
+  async recordStepAttempt(data: RecordStepAttemptData): Promise<WorkflowStepAttempt> {
+    const attempt: WorkflowStepAttempt = { id: this.id(), ...data };
+    this.attempts.push(attempt);
+    return attempt;
+  }
+
+  async listStepAttempts(executionId: number): Promise<WorkflowStepAttempt[]> {
+    return this.attempts.filter((a) => a.execution_id === executionId);
+  }
+
+  // ── Approvals ───────────────────────────────────────────────────────────
+
+  async createApproval(data: CreateWorkflowApprovalData): Promise<WorkflowApproval> {
+    const execution = this.executions.get(data.execution_id);
+    if (!execution) throw new Error(`Workflow execution not found: ${data.execution_id}`);
+
+    const approval: WorkflowApproval = {
+      id: this.id(),
+      ...data,
+      user_id: this.workflows.get(execution.workflow_id)?.user_id ?? 0,
+      agent_id: 0,
+      conversation_id: execution.conversation_id,
+      status: "pending",
+      decided_by: null,
+      decided_via: null,
+      comment: null,
+      decided_at: null,
+      created_at: new Date(),
+    };
+    this.approvals.set(approval.id, approval);
+    return approval;
+  }
+
+  async findApprovalById(id: number): Promise<WorkflowApproval | null> {
+    return this.approvals.get(id) ?? null;
+  }
+
+  async listApprovalsByExecution(executionId: number): Promise<WorkflowApproval[]> {
+    return [...this.approvals.values()].filter((a) => a.execution_id === executionId);
+  }
+
+  async listExpiredApprovals(now: number, limit = 100): Promise<WorkflowApproval[]> {
+    return [...this.approvals.values()]
+      .filter((a) => a.status === "pending" && a.expires_at < now)
+      .slice(0, limit);
+  }
+
+  async listApprovalsByUser(
+    userId: number,
+    options: { status?: WorkflowApproval["status"]; limit?: number } = {}
+  ): Promise<(WorkflowApproval & { workflow_name: string })[]> {
+    return [...this.approvals.values()]
+      .filter((a) => a.user_id === userId && (!options.status || a.status === options.status))
+      .reverse()
+      .slice(0, options.limit ?? 50)
+      .map((a) => {
+        const execution = this.executions.get(a.execution_id);
+        const workflow = execution ? this.workflows.get(execution.workflow_id) : undefined;
+        return { ...a, workflow_name: workflow?.name ?? "" };
+      });
+  }
+
+  async decideApproval(id: number, data: DecideWorkflowApprovalData): Promise<WorkflowApproval | null> {
+    const approval = this.approvals.get(id);
+    if (!approval || approval.status !== "pending") return null;
+
+    const decided: WorkflowApproval = {
+      ...approval,
+      status: data.status,
+      decided_by: data.decided_by ?? null,
+      decided_via: data.decided_via ?? null,
+      comment: data.comment ?? null,
+      decided_at: data.decided_at,
+    };
+    this.approvals.set(id, decided);
+    return decided;
+  }
+}
@@ -57,7 +57,7 @@ export class PostgresAgentRepository implements AgentRepository {
   async create(data: CreateAgentData): Promise<Agent> {
     const poolType = data.pool_type || 'personal';
     const result = await sql`
-      INSERT INTO agents (user_id, slug, name, purpose, system_prompt, model, internet_search_enabled, pool_type, domain, default_notifier, default_notifier_destination)
+      INSERT INTO agents (user_id, slug, name, purpose, system_prompt, model, fallback_models, internet_search_enabled, pool_type, domain, default_notifier, default_notifier_destination)
       VALUES (
         ${data.user_id},
         ${data.slug},
@@ -65,6 +65,7 @@ export class PostgresAgentRepository implements AgentRepository {
         ${data.purpose || null},
         ${data.system_prompt},
         ${data.model || null},
+        ${sql.array(data.fallback_models ?? [], "TEXT")},
         ${data.internet_search_enabled ?? false},
         ${poolType},
         ${data.domain || null},
@@ -91,6 +92,9 @@ export class PostgresAgentRepository implements AgentRepository {
     if (data.model !== undefined) {
       await sql`UPDATE agents SET model = ${data.model} WHERE id = ${id}`;
     }
+    if (data.fallback_models !== undefined) {
+      await sql`UPDATE agents SET fallback_models = ${sql.array(data.fallback_models, "TEXT")} WHERE id = ${id}`;
+    }
     if (data.internet_search_enabled !== undefined) {
       await sql`UPDATE agents SET internet_search_enabled = ${data.internet_search_enabled} WHERE id = ${id}`;
     }
@@ -100,6 +104,9 @@ export class PostgresAgentRepository implements AgentRepository {
     if (data.default_notifier_destination !== undefined) {
       await sql`UPDATE agents SET default_notifier_destination = ${data.default_notifier_destination ?? null} WHERE id = ${id}`;
     }
+    if (data.memory_search_weights !== undefined) {
+      await sql`UPDATE agents SET memory_search_weights = ${data.memory_search_weights ? JSON.stringify(data.memory_search_weights) : null} WHERE id = ${id}`;
+    }
 
     await sql`UPDATE agents SET updated_at = CURRENT_TIMESTAMP WHERE id = ${id}`;
 
@@ -0,0 +1,82 @@
+import { sql } from "bun";
+import type { Budget } from "../../types/models";
+import type { BudgetLimits, BudgetRepository, BudgetTarget } from "../BudgetRepository";
+
+// NUMERIC and BIGINT columns come back as strings
+function toBudget(row: any): Budget {
+  return {
+    ...row,
+    monthly_cost_limit_usd: row.monthly_cost_limit_usd === null ? null : Number(row.monthly_cost_limit_usd),
+    monthly_token_limit: row.monthly_token_limit === null ? null : Number(row.monthly_token_limit),
+  };
+}
+
+function targetColumns(target: BudgetTarget) {
+  return {
+    user_id: target.scope === "user" ? target.user_id : null,
+    domain: target.scope === "team" ? target.domain : null,
+    agent_id: target.scope === "agent" ? target.agent_id : null,
+  };
+}
+
+export class PostgresBudgetRepository implements BudgetRepository {
+  async find(target: BudgetTarget): Promise<Budget | null> {
+    const { user_id, domain, agent_id } = targetColumns(target);
+    const rows = await sql`
+      SELECT * FROM budgets
+      WHERE scope = ${target.scope}
+        AND user_id IS NOT DISTINCT FROM ${user_id}::integer
+        AND domain IS NOT DISTINCT FROM ${domain}::varchar
+        AND agent_id IS NOT DISTINCT FROM ${agent_id}::integer
+    `;
+    return rows[0] ? toBudget(rows[0]) : null;
+  }
+
+  async listForAgents(agentIds: number[]): Promise<Budget[]> {
+    if (agentIds.length === 0) return [];
+    const rows = await sql`
+      SELECT * FROM budgets
+      WHERE scope = 'agent' AND agent_id = ANY(${sql.array(agentIds, "INT")})
+    `;
+    return rows.map(toBudget);
+  }
+
+  async upsert(target: BudgetTarget, limits: BudgetLimits): Promise<Budget> {
+    const existing = await this.find(target);
+    const softThreshold = limits.soft_threshold_percent ?? existing?.soft_threshold_percent ?? 80;
+
+    if (existing) {
+      // Changing the limits re-arms the soft-threshold notification
+      const rows = await sql`
+        UPDATE budgets
+        SET monthly_cost_limit_usd = ${limits.monthly_cost_limit_usd},
+            monthly_token_limit = ${limits.monthly_token_limit},
+            soft_threshold_percent = ${softThreshold},
+            soft_alerted_month = NULL,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${existing.id}
+        RETURNING *
+      `;
+      return toBudget(rows[0]);
+    }
+
+    const { user_id, domain, agent_id } = targetColumns(target);
+    const rows = await sql`
+      INSERT INTO budgets (scope, user_id, domain, agent_id, monthly_cost_limit_usd, monthly_token_limit, soft_threshold_percent)
+      VALUES (${target.scope}, ${user_id}, ${domain}, ${agent_id}, ${limits.monthly_cost_limit_usd}, ${limits.monthly_token_limit}, ${softThreshold})
+      RETURNING *
+    `;
+    return toBudget(rows[0]);
+  }
+
+  async delete(target: BudgetTarget): Promise<void> {
+    const existing = await this.find(target);
+    if (existing) {
+      await sql`DELETE FROM budgets WHERE id = ${existing.id}`;
+    }
+  }
+
+  async markSoftAlerted(id: number, month: string): Promise<void> {
+    await sql`UPDATE budgets SET soft_alerted_month = ${month} WHERE id = ${id}`;
+  }
+}
@@ -0,0 +1,106 @@
+import { sql } from "bun";
+import type { ChatChannel, ChatChannelRoute, ChatThread } from "../../types/models";
+import type { ChatChannelRepository, CreateChatChannelData, UpdateChatChannelData } from "../ChatChannelRepository";
+
+function parseJsonArray<T>(val: unknown): T[] {
+  if (Array.isArray(val)) return val as T[];
+  if (typeof val === "string") {
+    try {
+      const parsed = JSON.parse(val);
+      return Array.isArray(parsed) ? (parsed as T[]) : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+function parseChannel(row: any): ChatChannel | null {
+  if (!row) return null;
+  return {
+    ...row,
+    routes: parseJsonArray<ChatChannelRoute>(row.routes),
+    allowed_user_ids: parseJsonArray<string>(row.allowed_user_ids),
+  };
+}
+
+export class PostgresChatChannelRepository implements ChatChannelRepository {
+  async listByUser(userId: number): Promise<ChatChannel[]> {
+    const rows = await sql`
+      SELECT * FROM chat_channels WHERE user_id = ${userId} ORDER BY name ASC
+    `;
+    return rows.map((row: any) => parseChannel(row)!);
+  }
+
+  async findById(id: number): Promise<ChatChannel | null> {
+    const rows = await sql`SELECT * FROM chat_channels WHERE id = ${id}`;
+    return parseChannel(rows[0]);
+  }
+
+  async findByInboundToken(token: string): Promise<ChatChannel | null> {
+    const rows = await sql`SELECT * FROM chat_channels WHERE inbound_token = ${token}`;
+    return parseChannel(rows[0]);
+  }
+
+  async create(data: CreateChatChannelData): Promise<ChatChannel> {
+    const rows = await sql`
+      INSERT INTO chat_channels
+        (user_id, platform, name, agent_id, routes, allowed_user_ids, bot_token, signing_secret,
+         application_id, public_key, inbound_token, enabled)
+      VALUES (${data.user_id}, ${data.platform}, ${data.name}, ${data.agent_id},
+              ${JSON.stringify(data.routes ?? [])}, ${JSON.stringify(data.allowed_user_ids ?? [])},
+              ${data.bot_token ?? null}, ${data.signing_secret ?? null}, ${data.application_id ?? null},
+              ${data.public_key ?? null}, ${data.inbound_token}, ${data.enabled ?? true})
+      RETURNING *
+    `;
+    return parseChannel(rows[0])!;
+  }
+
+  async update(id: number, data: UpdateChatChannelData): Promise<ChatChannel | null> {
+    const current = await this.findById(id);
+    if (!current) return null;
+    const next = { ...current, ...data };
+
+    const rows = await sql`
+      UPDATE chat_channels SET
+        name = ${next.name},
+        agent_id = ${next.agent_id},
+        routes = ${JSON.stringify(next.routes)},
+        allowed_user_ids = ${JSON.stringify(next.allowed_user_ids)},
+        bot_token = ${next.bot_token},
+        signing_secret = ${next.signing_secret},
+        application_id = ${next.application_id},
+        public_key = ${next.public_key},
+        enabled = ${next.enabled},
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${id}
+      RETURNING *
+    `;
+    return parseChannel(rows[0]);
+  }
+
+  async delete(id: number): Promise<void> {
+    await sql`DELETE FROM chat_channels WHERE id = ${id}`;
+  }
+
+  async findThread(chatChannelId: number, platformChannelId: string, threadId: string): Promise<ChatThread | null> {
+    const rows = await sql`
+      SELECT * FROM chat_threads
+      WHERE chat_channel_id = ${chatChannelId}
+        AND platform_channel_id = ${platformChannelId}
+        AND thread_id = ${threadId}
+    `;
+    return rows[0] || null;
+  }
+
+  async saveThread(data: { chat_channel_id: number; platform_channel_id: string; thread_id: string; conversation_id: number }): Promise<ChatThread> {
+    const rows = await sql`
+      INSERT INTO chat_threads (chat_channel_id, platform_channel_id, thread_id, conversation_id)
+      VALUES (${data.chat_channel_id}, ${data.platform_channel_id}, ${data.thread_id}, ${data.conversation_id})
+      ON CONFLICT (chat_channel_id, platform_channel_id, thread_id)
+      DO UPDATE SET conversation_id = EXCLUDED.conversation_id
+      RETURNING *
+    `;
+    return rows[0];
+  }
+}
@@ -45,6 +45,23 @@ export class PostgresConversationRepository implements ConversationRepository {
     await sql`DELETE FROM conversations WHERE id = ${id}`;
   }
 
+  async listPendingConsolidation(idleBefore: Date, limit: number): Promise<Conversation[]> {
+    return await sql`
+      SELECT * FROM conversations
+      WHERE (consolidated_at IS NULL OR consolidated_at < updated_at)
+        AND updated_at < ${idleBefore}
+      ORDER BY updated_at ASC
+      LIMIT ${limit}
+    `;
+  }
+
+  async markConsolidated(id: number, upTo: Date): Promise<void> {
+    await sql`
+      UPDATE conversations SET consolidated_at = ${upTo}
+      WHERE id = ${id}
+    `;
+  }
+
   async listMessages(conversationId: number): Promise<Message[]> {
     return await sql`
       SELECT * FROM messages
@@ -53,29 +70,79 @@ export class PostgresConversationRepository implements ConversationRepository {
     `;
   }
 
-  async addMessage(data: CreateMessageData): Promise<Message> {
-    const result = await sql`
-      INSERT INTO messages (conversation_id, role, content, raw_data, agent_id)
-      VALUES (
-        ${data.conversation_id},
-        ${data.role},
-        ${data.content},
-        ${data.raw_data ? JSON.stringify(data.raw_data) : null},
-        ${data.agent_id || null}
+  async listActivePath(conversationId: number): Promise<Message[]> {
+    return await sql`
+      WITH RECURSIVE path AS (
+        SELECT m.*, 0 AS depth
+        FROM messages m
+        JOIN conversations c ON c.active_leaf_id = m.id
+        WHERE c.id = ${conversationId}
+        UNION ALL
+        SELECT m.*, p.depth + 1
+        FROM messages m
+        JOIN path p ON m.id = p.parent_id
       )
-      RETURNING *
+      SELECT id, conversation_id, role, content, raw_data, agent_id, model, parent_id, created_at
+      FROM path
+      ORDER BY depth DESC
     `;
+  }
 
-    // Update conversation's updated_at timestamp
+  async findMessageById(id: number): Promise<Message | null> {
+    const result = await sql`
+      SELECT * FROM messages WHERE id = ${id}
+    `;
+    return result[0] || null;
+  }
+
+  async addMessage(data: CreateMessageData): Promise<Message> {
+    // Without an explicit parent, append to the end of the active branch
+    const result = data.parent_id !== undefined
+      ? await sql`
+          INSERT INTO messages (conversation_id, role, content, raw_data, agent_id, model, parent_id)
+          VALUES (
+            ${data.conversation_id},
+            ${data.role},
+            ${data.content},
+            ${data.raw_data ? JSON.stringify(data.raw_data) : null},
+            ${data.agent_id || null},
+            ${data.model ?? null},
+            ${data.parent_id}
+          )
+          RETURNING *
+        `
+      : await sql`
+          INSERT INTO messages (conversation_id, role, content, raw_data, agent_id, model, parent_id)
+          VALUES (
+            ${data.conversation_id},
+            ${data.role},
+            ${data.content},
+            ${data.raw_data ? JSON.stringify(data.raw_data) : null},
+            ${data.agent_id || null},
+            ${data.model ?? null},
+            (SELECT active_leaf_id FROM conversations WHERE id = ${data.conversation_id})
+          )
+          RETURNING *
+        `;
+
+    // Move the active branch to the new message and bump updated_at
     await sql`
       UPDATE conversations
-      SET updated_at = CURRENT_TIMESTAMP
+      SET updated_at = CURRENT_TIMESTAMP, active_leaf_id = ${result[0].id}
       WHERE id = ${data.conversation_id}
     `;
 
     return result[0];
   }
 
+  async setActiveLeaf(conversationId: number, messageId: number | null): Promise<void> {
+    await sql`
+      UPDATE conversations
+      SET active_leaf_id = ${messageId}
+      WHERE id = ${conversationId}
+    `;
+  }
+
   async deleteMessage(id: number): Promise<void> {
     await sql`DELETE FROM messages WHERE id = ${id}`;
   }
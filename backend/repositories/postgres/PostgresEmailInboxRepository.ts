@@ -0,0 +1,70 @@
+import { sql } from "bun";
+import type { EmailInbox, EmailThread } from "../../types/models";
+import type { EmailInboxRepository, UpsertEmailInboxData } from "../EmailInboxRepository";
+
+function parseInbox(row: any): EmailInbox | null {
+  if (!row) return null;
+  let allowed = row.allowed_senders;
+  if (typeof allowed === "string") {
+    try {
+      allowed = JSON.parse(allowed);
+    } catch {
+      allowed = [];
+    }
+  }
+  return { ...row, allowed_senders: Array.isArray(allowed) ? allowed : [] };
+}
+
+export class PostgresEmailInboxRepository implements EmailInboxRepository {
+  async findByUser(userId: number): Promise<EmailInbox | null> {
+    const rows = await sql`SELECT * FROM email_inboxes WHERE user_id = ${userId}`;
+    return parseInbox(rows[0]);
+  }
+
+  async findByAlias(alias: string): Promise<EmailInbox | null> {
+    const rows = await sql`SELECT * FROM email_inboxes WHERE alias = ${alias.toLowerCase()}`;
+    return parseInbox(rows[0]);
+  }
+
+  async upsert(data: UpsertEmailInboxData): Promise<EmailInbox> {
+    const rows = await sql`
+      INSERT INTO email_inboxes (user_id, alias, agent_id, allowed_senders, enabled)
+      VALUES (${data.user_id}, ${data.alias.toLowerCase()}, ${data.agent_id},
+              ${JSON.stringify(data.allowed_senders ?? [])}, ${data.enabled ?? true})
+      ON CONFLICT (user_id) DO UPDATE SET
+        alias = EXCLUDED.alias,
+        agent_id = EXCLUDED.agent_id,
+        allowed_senders = EXCLUDED.allowed_senders,
+        enabled = EXCLUDED.enabled,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+    return parseInbox(rows[0])!;
+  }
+
+  async delete(userId: number): Promise<void> {
+    await sql`DELETE FROM email_inboxes WHERE user_id = ${userId}`;
+  }
+
+  async findThread(emailInboxId: number, messageIds: string[]): Promise<EmailThread | null> {
+    if (messageIds.length === 0) return null;
+    const rows = await sql`
+      SELECT * FROM email_threads
+      WHERE email_inbox_id = ${emailInboxId} AND message_id = ANY(${sql.array(messageIds, "text")})
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    `;
+    return rows[0] || null;
+  }
+
+  async saveThread(data: { email_inbox_id: number; message_id: string; conversation_id: number }): Promise<EmailThread> {
+    const rows = await sql`
+      INSERT INTO email_threads (email_inbox_id, message_id, conversation_id)
+      VALUES (${data.email_inbox_id}, ${data.message_id}, ${data.conversation_id})
+      ON CONFLICT (email_inbox_id, message_id)
+      DO UPDATE SET conversation_id = EXCLUDED.conversation_id
+      RETURNING *
+    `;
+    return rows[0];
+  }
+}
@@ -1,6 +1,11 @@
 import { sql } from "bun";
-import type { AgentMemory } from "../../types/models";
-import type { MemoryRepository, SetMemoryData } from "../MemoryRepository";
+import type { AgentMemory, MemoryChange } from "../../types/models";
+import type { CreateMemoryChangeData, KeywordMemoryMatch, MemoryRepository, SetMemoryData } from "../MemoryRepository";
+
+/** An ILIKE pattern matching text anywhere, with its own % and _ taken literally (for ESCAPE '\') */
+export function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+}
 
 export class PostgresMemoryRepository implements MemoryRepository {
   async set(agentId: number, data: SetMemoryData): Promise<AgentMemory> {
@@ -15,6 +20,7 @@ export class PostgresMemoryRepository implements MemoryRepository {
       DO UPDATE SET
         value = ${data.value},
         tier = COALESCE(${data.tier}::varchar, agent_memories.tier),
+        author = CASE WHEN ${author} = 'consolidator' THEN ${author} ELSE agent_memories.author END,
         access_count = agent_memories.access_count + 1,
         last_accessed_at = ${now},
         updated_at = CURRENT_TIMESTAMP
@@ -108,32 +114,123 @@ export class PostgresMemoryRepository implements MemoryRepository {
   }
 
   async search(agentId: number, pattern: string): Promise<AgentMemory[]> {
-    const likePattern = `%${pattern}%`;
+    const likePattern = containsPattern(pattern);
     return await sql`
       SELECT * FROM agent_memories
-      WHERE agent_id = ${agentId} AND (key ILIKE ${likePattern} OR value ILIKE ${likePattern})
+      WHERE agent_id = ${agentId} AND (key ILIKE ${likePattern} ESCAPE '\\' OR value ILIKE ${likePattern} ESCAPE '\\')
       ORDER BY last_accessed_at DESC
       LIMIT 10
     `;
   }
 
-  async semanticSearch(agentId: number, embedding: number[], limit: number = 5): Promise<(AgentMemory & { similarity: number })[]> {
+  async keywordSearch(agentId: number, query: string, limit: number): Promise<KeywordMemoryMatch[]> {
+    const likePattern = containsPattern(query);
+    return await sql`
+      SELECT *,
+        ts_rank_cd(search_vector, websearch_to_tsquery('simple', ${query}), 32)::float8 AS text_rank,
+        (key ILIKE ${likePattern} ESCAPE '\\' OR value ILIKE ${likePattern} ESCAPE '\\') AS substring_match,
+        lower(key) = lower(${query}) AS key_match
+      FROM agent_memories
+      WHERE agent_id = ${agentId}
+        AND (search_vector @@ websearch_to_tsquery('simple', ${query})
+          OR key ILIKE ${likePattern} ESCAPE '\\' OR value ILIKE ${likePattern} ESCAPE '\\')
+      ORDER BY text_rank DESC
+      LIMIT ${limit}
+    `;
+  }
+
+  async semanticSearch(agentId: number, embedding: number[], model: string, limit: number = 5): Promise<(AgentMemory & { similarity: number })[]> {
     const vectorStr = `[${embedding.join(",")}]`;
     return await sql`
       SELECT *,
         1 - (embedding <=> ${vectorStr}::vector) AS similarity
       FROM agent_memories
       WHERE agent_id = ${agentId} AND embedding IS NOT NULL
+        AND embedding_model = ${model} AND embedding_dimensions = ${embedding.length}
       ORDER BY embedding <=> ${vectorStr}::vector ASC
       LIMIT ${limit}
     `;
   }
 
-  async setEmbedding(agentId: number, key: string, embedding: number[]): Promise<void> {
+  async setEmbedding(agentId: number, key: string, embedding: number[], model: string): Promise<void> {
     const vectorStr = `[${embedding.join(",")}]`;
     await sql`
-      UPDATE agent_memories SET embedding = ${vectorStr}::vector
+      UPDATE agent_memories
+      SET embedding = ${vectorStr}::vector, embedding_model = ${model}, embedding_dimensions = ${embedding.length}
       WHERE agent_id = ${agentId} AND key = ${key}
     `;
   }
+
+  async listNeedingEmbedding(userId: number, model: string, afterId: number, limit: number): Promise<AgentMemory[]> {
+    return await sql`
+      SELECT m.* FROM agent_memories m
+      JOIN agents a ON a.id = m.agent_id
+      WHERE a.user_id = ${userId} AND m.id > ${afterId}
+        AND (m.embedding IS NULL OR m.embedding_model IS DISTINCT FROM ${model})
+      ORDER BY m.id ASC
+      LIMIT ${limit}
+    `;
+  }
+
+  async countNeedingEmbedding(userId: number, model: string): Promise<number> {
+    const result = await sql`
+      SELECT COUNT(*)::int AS count FROM agent_memories m
+      JOIN agents a ON a.id = m.agent_id
+      WHERE a.user_id = ${userId}
+        AND (m.embedding IS NULL OR m.embedding_model IS DISTINCT FROM ${model})
+    `;
+    return result[0].count;
+  }
+
+  async restore(agentId: number, key: string, snapshot: NonNullable<MemoryChange['previous']>): Promise<AgentMemory> {
+    const now = Date.now();
+    const result = await sql`
+      INSERT INTO agent_memories (agent_id, key, value, tier, author, access_count, last_accessed_at)
+      VALUES (${agentId}, ${key}, ${snapshot.value}, ${snapshot.tier}, ${snapshot.author}, 0, ${now})
+      ON CONFLICT (agent_id, key)
+      DO UPDATE SET
+        value = ${snapshot.value},
+        tier = ${snapshot.tier},
+        author = ${snapshot.author},
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+    return result[0];
+  }
+
+  async logChange(data: CreateMemoryChangeData): Promise<MemoryChange> {
+    const result = await sql`
+      INSERT INTO memory_changes (agent_id, conversation_id, action, memory_key, value, previous, merged_into, reason)
+      VALUES (
+        ${data.agent_id},
+        ${data.conversation_id},
+        ${data.action},
+        ${data.memory_key},
+        ${data.value},
+        ${data.previous ? JSON.stringify(data.previous) : null},
+        ${data.merged_into ?? null},
+        ${data.reason ?? null}
+      )
+      RETURNING *
+    `;
+    return result[0];
+  }
+
+  async listChanges(agentId: number, limit: number = 100): Promise<MemoryChange[]> {
+    return await sql`
+      SELECT * FROM memory_changes
+      WHERE agent_id = ${agentId}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ${limit}
+    `;
+  }
+
+  async findChange(id: number): Promise<MemoryChange | null> {
+    const result = await sql`SELECT * FROM memory_changes WHERE id = ${id}`;
+    return result[0] || null;
+  }
+
+  async markChangeReverted(id: number): Promise<void> {
+    await sql`UPDATE memory_changes SET reverted_at = CURRENT_TIMESTAMP WHERE id = ${id}`;
+  }
 }
@@ -0,0 +1,73 @@
+import { sql } from "bun";
+import type { ModelProvider } from "../../types/models";
+import type { ModelProviderData, ModelProviderOwner, ModelProviderRepository } from "../ModelProviderRepository";
+
+function toProvider(row: any): ModelProvider {
+  return {
+    ...row,
+    headers: typeof row.headers === "string" ? JSON.parse(row.headers) : row.headers,
+    models: row.models ?? [],
+  };
+}
+
+export class PostgresModelProviderRepository implements ModelProviderRepository {
+  async list(owner: ModelProviderOwner): Promise<ModelProvider[]> {
+    const rows = "user_id" in owner
+      ? await sql`SELECT * FROM model_providers WHERE user_id = ${owner.user_id} ORDER BY name`
+      : await sql`SELECT * FROM model_providers WHERE domain = ${owner.domain} ORDER BY name`;
+    return rows.map(toProvider);
+  }
+
+  async findById(id: number): Promise<ModelProvider | null> {
+    const rows = await sql`SELECT * FROM model_providers WHERE id = ${id}`;
+    return rows[0] ? toProvider(rows[0]) : null;
+  }
+
+  async create(owner: ModelProviderOwner, data: ModelProviderData): Promise<ModelProvider> {
+    const rows = await sql`
+      INSERT INTO model_providers (user_id, domain, name, base_url, api_key, api_key_header, headers, models)
+      VALUES (
+        ${"user_id" in owner ? owner.user_id : null},
+        ${"domain" in owner ? owner.domain : null},
+        ${data.name},
+        ${data.base_url},
+        ${data.api_key ?? null},
+        ${data.api_key_header || "Authorization"},
+        ${data.headers ? JSON.stringify(data.headers) : null},
+        ${sql.array(data.models ?? [], "TEXT")}
+      )
+      RETURNING *
+    `;
+    return toProvider(rows[0]);
+  }
+
+  async update(id: number, data: Partial<ModelProviderData>): Promise<ModelProvider> {
+    if (data.name !== undefined) {
+      await sql`UPDATE model_providers SET name = ${data.name} WHERE id = ${id}`;
+    }
+    if (data.base_url !== undefined) {
+      await sql`UPDATE model_providers SET base_url = ${data.base_url} WHERE id = ${id}`;
+    }
+    if (data.api_key !== undefined) {
+      await sql`UPDATE model_providers SET api_key = ${data.api_key} WHERE id = ${id}`;
+    }
+    if (data.api_key_header !== undefined) {
+      await sql`UPDATE model_providers SET api_key_header = ${data.api_key_header || "Authorization"} WHERE id = ${id}`;
+    }
+    if (data.headers !== undefined) {
+      await sql`UPDATE model_providers SET headers = ${data.headers ? JSON.stringify(data.headers) : null} WHERE id = ${id}`;
+    }
+    if (data.models !== undefined) {
+      await sql`UPDATE model_providers SET models = ${sql.array(data.models, "TEXT")} WHERE id = ${id}`;
+    }
+
+    const rows = await sql`
+      UPDATE model_providers SET updated_at = CURRENT_TIMESTAMP WHERE id = ${id} RETURNING *
+    `;
+    return toProvider(rows[0]);
+  }
+
+  async delete(id: number): Promise<void> {
+    await sql`DELETE FROM model_providers WHERE id = ${id}`;
+  }
+}
@@ -44,8 +44,8 @@ export class PostgresMqttRepository implements MqttRepository {
 
   async createSubscription(data: CreateSubscriptionData): Promise<MqttSubscription> {
     const result = await sql`
-      INSERT INTO mqtt_subscriptions (user_id, agent_id, topic, qos, prompt_template, conversation_mode, conversation_id, rate_limit_window_ms, rate_limit_max_triggers)
-      VALUES (${data.user_id}, ${data.agent_id}, ${data.topic}, ${data.qos ?? 0}, ${data.prompt_template}, ${data.conversation_mode ?? 'new'}, ${data.conversation_id ?? null}, ${data.rate_limit_window_ms ?? 60000}, ${data.rate_limit_max_triggers ?? 5})
+      INSERT INTO mqtt_subscriptions (user_id, agent_id, topic, qos, prompt_template, conversation_mode, conversation_id, rate_limit_window_ms, rate_limit_max_triggers, workflow_id, workflow_facts)
+      VALUES (${data.user_id}, ${data.agent_id}, ${data.topic}, ${data.qos ?? 0}, ${data.prompt_template}, ${data.conversation_mode ?? 'new'}, ${data.conversation_id ?? null}, ${data.rate_limit_window_ms ?? 60000}, ${data.rate_limit_max_triggers ?? 5}, ${data.workflow_id ?? null}, ${JSON.stringify(data.workflow_facts ?? {})})
       RETURNING *
     `;
     return result[0];
@@ -1,6 +1,6 @@
 import { sql } from "bun";
-import type { Notification, NotificationDelivery, UserNotificationSettings, EmailConfig, WebhookConfig } from "../../types/models";
-import type { NotificationRepository } from "../NotificationRepository";
+import type { DeliveryHoldReason, Notification, NotificationDelivery, NotificationDeliveryAttempt, NotificationRatePolicy, UserNotificationSettings, EmailConfig, WebhookConfig } from "../../types/models";
+import type { CreateDeliveryAttemptData, DeliveryLogEntry, NotificationRepository } from "../NotificationRepository";
 
 function parseJsonArray<T>(val: unknown, fallback: T[]): T[] {
   if (Array.isArray(val)) return val as T[];
@@ -15,12 +15,47 @@ function parseJsonArray<T>(val: unknown, fallback: T[]): T[] {
   return fallback;
 }
 
+/** A delivery row joined with its notification's columns (prefixed notification_) */
+function parseDeliveryRow(row: any): NotificationDelivery & { notification: Notification } {
+  return {
+    id: row.id,
+    notification_id: row.notification_id,
+    channel: row.channel,
+    destination: row.destination ?? null,
+    status: row.status,
+    held_reason: row.held_reason ?? null,
+    error_message: row.error_message,
+    attempts: row.attempts,
+    next_attempt_at: row.next_attempt_at ?? null,
+    created_at: row.created_at,
+    delivered_at: row.delivered_at,
+    notification: {
+      id: row.notification_id,
+      user_id: row.notification_user_id,
+      agent_id: row.notification_agent_id,
+      conversation_id: row.notification_conversation_id,
+      message: row.notification_message,
+      urgency: row.notification_urgency,
+      read: row.notification_read,
+      created_at: row.notification_created_at,
+    },
+  };
+}
+
+function parseJsonObject<T>(val: unknown): T | null {
+  return typeof val === "string" ? JSON.parse(val) : (val as T) ?? null;
+}
+
 function parseSettings(row: any): UserNotificationSettings | null {
   if (!row) return null;
   return {
     ...row,
     email_addresses: parseJsonArray<EmailConfig>(row.email_addresses, []),
     webhook_urls: parseJsonArray<WebhookConfig>(row.webhook_urls, []),
+    mail_transport: parseJsonObject(row.mail_transport),
+    quiet_hours: parseJsonObject(row.quiet_hours),
+    digest_schedule: parseJsonObject(row.digest_schedule) ?? {},
+    rate_policies: parseJsonArray<NotificationRatePolicy>(row.rate_policies, []),
   };
 }
 
@@ -91,14 +126,28 @@ export class PostgresNotificationRepository implements NotificationRepository {
   }
 
   async updateDelivery(id: number, data: {
-    status: 'sent' | 'failed';
+    status: 'pending' | 'held' | 'sent' | 'failed';
     error_message?: string;
+    next_attempt_at?: Date | null;
   }): Promise<void> {
     const deliveredAt = data.status === 'sent' ? new Date() : null;
     await sql`
       UPDATE notification_deliveries
       SET status = ${data.status}, error_message = ${data.error_message ?? null},
-          delivered_at = ${deliveredAt}, attempts = attempts + 1
+          delivered_at = ${deliveredAt}, next_attempt_at = ${data.next_attempt_at ?? null},
+          attempts = attempts + 1
+      WHERE id = ${id}
+    `;
+  }
+
+  async holdDelivery(id: number, data: {
+    status: 'pending' | 'held' | 'dropped';
+    held_reason: DeliveryHoldReason;
+    next_attempt_at: Date | null;
+  }): Promise<void> {
+    await sql`
+      UPDATE notification_deliveries
+      SET status = ${data.status}, held_reason = ${data.held_reason}, next_attempt_at = ${data.next_attempt_at}
       WHERE id = ${id}
     `;
   }
@@ -116,32 +165,104 @@ export class PostgresNotificationRepository implements NotificationRepository {
         n.created_at as "notification_created_at"
       FROM notification_deliveries nd
       JOIN notifications n ON n.id = nd.notification_id
-      WHERE nd.status = 'pending' AND nd.attempts < 3
+      WHERE nd.status = 'pending' AND (nd.next_attempt_at IS NULL OR nd.next_attempt_at <= NOW())
       ORDER BY nd.created_at ASC
       LIMIT 50
     `;
+    return result.map(parseDeliveryRow);
+  }
 
-    return result.map((row: any) => ({
-      id: row.id,
-      notification_id: row.notification_id,
-      channel: row.channel,
-      destination: row.destination ?? null,
-      status: row.status,
-      error_message: row.error_message,
-      attempts: row.attempts,
-      created_at: row.created_at,
-      delivered_at: row.delivered_at,
-      notification: {
-        id: row.notification_id,
-        user_id: row.notification_user_id,
-        agent_id: row.notification_agent_id,
-        conversation_id: row.notification_conversation_id,
-        message: row.notification_message,
-        urgency: row.notification_urgency,
-        read: row.notification_read,
-        created_at: row.notification_created_at,
-      },
-    }));
+  async listDueDigestDeliveries(): Promise<(NotificationDelivery & { notification: Notification })[]> {
+    const result = await sql`
+      SELECT
+        nd.*,
+        n.user_id as "notification_user_id",
+        n.agent_id as "notification_agent_id",
+        n.conversation_id as "notification_conversation_id",
+        n.message as "notification_message",
+        n.urgency as "notification_urgency",
+        n.read as "notification_read",
+        n.created_at as "notification_created_at"
+      FROM notification_deliveries nd
+      JOIN notifications n ON n.id = nd.notification_id
+      WHERE nd.status = 'held' AND nd.next_attempt_at <= NOW()
+      ORDER BY n.created_at ASC, nd.id ASC
+      LIMIT 500
+    `;
+    return result.map(parseDeliveryRow);
+  }
+
+  async findDeliveryById(id: number): Promise<(NotificationDelivery & { notification: Notification }) | null> {
+    const result = await sql`
+      SELECT
+        nd.*,
+        n.user_id as "notification_user_id",
+        n.agent_id as "notification_agent_id",
+        n.conversation_id as "notification_conversation_id",
+        n.message as "notification_message",
+        n.urgency as "notification_urgency",
+        n.read as "notification_read",
+        n.created_at as "notification_created_at"
+      FROM notification_deliveries nd
+      JOIN notifications n ON n.id = nd.notification_id
+      WHERE nd.id = ${id}
+    `;
+    return result[0] ? parseDeliveryRow(result[0]) : null;
+  }
+
+  async recordDeliveryAttempt(data: CreateDeliveryAttemptData): Promise<NotificationDeliveryAttempt> {
+    const result = await sql`
+      INSERT INTO notification_delivery_attempts
+        (delivery_id, attempt, destination, request_url, request_body, response_status, response_body, error_message, duration_ms)
+      VALUES (${data.delivery_id}, ${data.attempt}, ${data.destination}, ${data.request_url}, ${data.request_body},
+              ${data.response_status}, ${data.response_body}, ${data.error_message}, ${data.duration_ms})
+      RETURNING *
+    `;
+    return result[0];
+  }
+
+  async listDeliveries(userId: number, options?: {
+    channel?: NotificationDelivery['channel'];
+    limit?: number;
+    offset?: number;
+  }): Promise<DeliveryLogEntry[]> {
+    const limit = options?.limit ?? 50;
+    const offset = options?.offset ?? 0;
+    const channel = options?.channel ?? null;
+
+    const rows = await sql`
+      SELECT
+        nd.*,
+        n.user_id as "notification_user_id",
+        n.agent_id as "notification_agent_id",
+        n.conversation_id as "notification_conversation_id",
+        n.message as "notification_message",
+        n.urgency as "notification_urgency",
+        n.read as "notification_read",
+        n.created_at as "notification_created_at",
+        a.name as "notification_agent_name"
+      FROM notification_deliveries nd
+      JOIN notifications n ON n.id = nd.notification_id
+      LEFT JOIN agents a ON a.id = n.agent_id
+      WHERE n.user_id = ${userId} AND (${channel}::text IS NULL OR nd.channel = ${channel})
+      ORDER BY nd.created_at DESC, nd.id DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+    if (rows.length === 0) return [];
+
+    const attempts: NotificationDeliveryAttempt[] = await sql`
+      SELECT * FROM notification_delivery_attempts
+      WHERE delivery_id = ANY(${sql.array(rows.map((row: any) => row.id), "INT")})
+      ORDER BY created_at ASC, id ASC
+    `;
+    return rows.map((row: any) => {
+      const delivery = parseDeliveryRow(row);
+      return {
+        ...delivery,
+        notification: { ...delivery.notification, agent_name: row.notification_agent_name ?? null },
+        attempt_log: attempts.filter((attempt) => attempt.delivery_id === delivery.id),
+      };
+    });
   }
 
   async getSettings(userId: number): Promise<UserNotificationSettings | null> {
@@ -151,7 +272,7 @@ export class PostgresNotificationRepository implements NotificationRepository {
     return parseSettings(result[0]);
   }
 
-  async upsertSettings(userId: number, data: Partial<Pick<UserNotificationSettings, 'notification_email' | 'email_addresses' | 'webhook_urls' | 'email_enabled' | 'pushover_user_key' | 'pushover_api_token' | 'pushover_enabled'>>): Promise<UserNotificationSettings> {
+  async upsertSettings(userId: number, data: Partial<Pick<UserNotificationSettings, 'notification_email' | 'email_addresses' | 'webhook_urls' | 'email_enabled' | 'pushover_user_key' | 'pushover_api_token' | 'pushover_enabled' | 'mail_transport' | 'quiet_hours' | 'digest_schedule' | 'rate_policies'>>): Promise<UserNotificationSettings> {
     const current = await this.getSettings(userId);
 
     const email = data.notification_email ?? current?.notification_email ?? null;
@@ -161,17 +282,26 @@ export class PostgresNotificationRepository implements NotificationRepository {
     const pushoverUserKey = data.pushover_user_key ?? current?.pushover_user_key ?? null;
     const pushoverApiToken = data.pushover_api_token ?? current?.pushover_api_token ?? null;
     const pushoverEnabled = data.pushover_enabled ?? current?.pushover_enabled ?? false;
+    const mailTransport = data.mail_transport !== undefined ? data.mail_transport : current?.mail_transport ?? null;
+    const mailTransportJson = mailTransport ? JSON.stringify(mailTransport) : null;
+    const quietHours = data.quiet_hours !== undefined ? data.quiet_hours : current?.quiet_hours ?? null;
+    const quietHoursJson = quietHours ? JSON.stringify(quietHours) : null;
+    const digestSchedule = JSON.stringify(data.digest_schedule ?? current?.digest_schedule ?? {});
+    const ratePolicies = JSON.stringify(data.rate_policies ?? current?.rate_policies ?? []);
 
     const result = await sql`
-      INSERT INTO user_notification_settings (user_id, notification_email, email_addresses, webhook_urls, email_enabled, pushover_user_key, pushover_api_token, pushover_enabled)
-      VALUES (${userId}, ${email}, ${JSON.stringify(emailAddresses)}, ${JSON.stringify(webhookUrls)}, ${emailEnabled}, ${pushoverUserKey}, ${pushoverApiToken}, ${pushoverEnabled})
+      INSERT INTO user_notification_settings (user_id, notification_email, email_addresses, webhook_urls, email_enabled, pushover_user_key, pushover_api_token, pushover_enabled, mail_transport, quiet_hours, digest_schedule, rate_policies)
+      VALUES (${userId}, ${email}, ${JSON.stringify(emailAddresses)}, ${JSON.stringify(webhookUrls)}, ${emailEnabled}, ${pushoverUserKey}, ${pushoverApiToken}, ${pushoverEnabled}, ${mailTransportJson}, ${quietHoursJson}, ${digestSchedule}, ${ratePolicies})
       ON CONFLICT (user_id)
       DO UPDATE SET notification_email = ${email},
                     email_addresses = ${JSON.stringify(emailAddresses)},
                     webhook_urls = ${JSON.stringify(webhookUrls)},
                     email_enabled = ${emailEnabled}, pushover_user_key = ${pushoverUserKey},
                     pushover_api_token = ${pushoverApiToken},
-                    pushover_enabled = ${pushoverEnabled}, updated_at = CURRENT_TIMESTAMP
+                    pushover_enabled = ${pushoverEnabled},
+                    mail_transport = ${mailTransportJson}, quiet_hours = ${quietHoursJson},
+                    digest_schedule = ${digestSchedule}, rate_policies = ${ratePolicies},
+                    updated_at = CURRENT_TIMESTAMP
       RETURNING *
     `;
     return parseSettings(result[0])!;
@@ -203,14 +333,16 @@ export class PostgresNotificationRepository implements NotificationRepository {
     `;
   }
 
-  async countRecentByAgentAndChannel(agentId: number, channel: string, sinceMinutes: number): Promise<number> {
+  async countRecentByAgentAndChannel(userId: number, agentId: number, channel: string, sinceMinutes: number): Promise<number> {
     const result = await sql`
       SELECT COUNT(*)::int as count
       FROM notification_deliveries nd
       JOIN notifications n ON n.id = nd.notification_id
-      WHERE n.agent_id = ${agentId}
+      WHERE n.user_id = ${userId}
+        AND n.agent_id = ${agentId}
         AND nd.channel = ${channel}
         AND nd.status = 'sent'
+        AND nd.held_reason IS DISTINCT FROM 'digest'
         AND nd.delivered_at >= NOW() - INTERVAL '1 minute' * ${sinceMinutes}
     `;
     return result[0].count;
@@ -5,14 +5,14 @@ import type { ScheduleRepository, CreateScheduleData } from "../ScheduleReposito
 export class PostgresScheduleRepository implements ScheduleRepository {
   async create(data: CreateScheduleData): Promise<Schedule> {
     const result = await sql`
-      INSERT INTO schedules (user_id, agent_id, prompt, description, schedule_type, schedule_value, timezone, conversation_mode, conversation_id, author, next_run_at, notifier, notifier_destination)
-      VALUES (${data.user_id}, ${data.agent_id}, ${data.prompt}, ${data.description ?? null}, ${data.schedule_type}, ${data.schedule_value}, ${data.timezone}, ${data.conversation_mode}, ${data.conversation_id ?? null}, ${data.author}, ${data.next_run_at ?? null}, ${data.notifier ?? null}, ${data.notifier_destination ?? null})
+      INSERT INTO schedules (user_id, agent_id, prompt, description, schedule_type, schedule_value, timezone, conversation_mode, conversation_id, author, next_run_at, notifier, notifier_destination, workflow_id, workflow_facts)
+      VALUES (${data.user_id}, ${data.agent_id}, ${data.prompt}, ${data.description ?? null}, ${data.schedule_type}, ${data.schedule_value}, ${data.timezone}, ${data.conversation_mode}, ${data.conversation_id ?? null}, ${data.author}, ${data.next_run_at ?? null}, ${data.notifier ?? null}, ${data.notifier_destination ?? null}, ${data.workflow_id ?? null}, ${JSON.stringify(data.workflow_facts ?? {})})
       RETURNING *
     `;
     return result[0];
   }
 
-  async update(id: number, data: Partial<Pick<Schedule, 'prompt' | 'description' | 'enabled' | 'schedule_value' | 'schedule_type' | 'notifier' | 'notifier_destination'>>): Promise<Schedule> {
+  async update(id: number, data: Partial<Pick<Schedule, 'prompt' | 'description' | 'enabled' | 'schedule_value' | 'schedule_type' | 'notifier' | 'notifier_destination' | 'workflow_id' | 'workflow_facts'>>): Promise<Schedule> {
     const current = await this.findById(id);
     if (!current) throw new Error("Schedule not found");
 
@@ -25,12 +25,15 @@ export class PostgresScheduleRepository implements ScheduleRepository {
     const notifierDestination = data.notifier_destination !== undefined
       ? (data.notifier_destination ?? null)
       : current.notifier_destination;
+    const workflowId = data.workflow_id !== undefined ? (data.workflow_id ?? null) : current.workflow_id;
+    const workflowFacts = data.workflow_facts ?? current.workflow_facts;
 
     const result = await sql`
       UPDATE schedules
       SET prompt = ${prompt}, description = ${description}, enabled = ${enabled},
           schedule_value = ${scheduleValue}, schedule_type = ${scheduleType},
           notifier = ${notifier}, notifier_destination = ${notifierDestination},
+          workflow_id = ${workflowId}, workflow_facts = ${JSON.stringify(workflowFacts ?? {})},
           updated_at = CURRENT_TIMESTAMP
       WHERE id = ${id}
       RETURNING *
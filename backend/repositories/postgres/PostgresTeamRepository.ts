@@ -1,9 +1,13 @@
 import { sql } from "bun";
-import type { TeamSettings, TeamMcpServer, TeamUrlTool, TeamNotificationSettings } from "../../types/models";
-import type { TeamRepository } from "../TeamRepository";
+import type { TeamSettings, TeamMcpServer, TeamUrlTool, TeamNotificationSettings, UrlToolParameter, WebhookConfig } from "../../types/models";
+import type { TeamRepository, TeamUrlToolData, UpdateTeamUrlToolData } from "../TeamRepository";
 
 type McpRecord = Omit<TeamMcpServer, "headers"> & { headers: string | null };
-type UrlRecord = Omit<TeamUrlTool, "headers"> & { headers: string | null };
+type UrlRecord = Omit<TeamUrlTool, "headers" | "parameters" | "query_params"> & {
+  headers: string | null;
+  parameters: unknown;
+  query_params: unknown;
+};
 type NotifRecord = Omit<TeamNotificationSettings, "webhook_urls"> & { webhook_urls: string | null };
 
 function parseJson<T>(str: string | null, fallback: T): T {
@@ -22,15 +26,21 @@ function parseMcp(row: McpRecord | null | undefined): TeamMcpServer | null {
 
 function parseUrl(row: UrlRecord | null | undefined): TeamUrlTool | null {
   if (!row) return null;
-  return { ...row, headers: parseJson<Record<string, string> | null>(row.headers, null) };
+  return {
+    ...row,
+    headers: parseJson<Record<string, string> | null>(row.headers, null),
+    parameters: parseJsonField<UrlToolParameter[]>(row.parameters, []),
+    query_params: parseJsonField<Record<string, string> | null>(row.query_params, null),
+  };
 }
 
 function parseNotif(row: any | null | undefined): TeamNotificationSettings | null {
   if (!row) return null;
   return {
     ...row,
-    webhook_urls: parseJsonField<Array<{ name: string; url: string }>>(row.webhook_urls, []),
+    webhook_urls: parseJsonField<WebhookConfig[]>(row.webhook_urls, []),
     email_addresses: parseJsonField<Array<{ name: string; email: string }>>(row.email_addresses, []),
+    mail_transport: parseJsonField<TeamNotificationSettings["mail_transport"]>(row.mail_transport, null),
   };
 }
 
@@ -151,23 +161,26 @@ export class PostgresTeamRepository implements TeamRepository {
     return parseUrl(rows[0] as UrlRecord | undefined);
   }
 
-  async createUrlTool(domain: string, data: { name: string; description?: string; url: string; method: string; headers?: Record<string, string> }): Promise<TeamUrlTool> {
+  async createUrlTool(domain: string, data: TeamUrlToolData): Promise<TeamUrlTool> {
     const rows = await sql`
-      INSERT INTO team_url_tools (domain, name, description, url, method, headers)
+      INSERT INTO team_url_tools (domain, name, description, url, method, headers, parameters, query_params, body_template)
       VALUES (
         ${domain},
         ${data.name},
         ${data.description ?? null},
         ${data.url},
         ${data.method},
-        ${data.headers ? JSON.stringify(data.headers) : null}
+        ${data.headers ? JSON.stringify(data.headers) : null},
+        ${JSON.stringify(data.parameters ?? [])},
+        ${data.query_params ? JSON.stringify(data.query_params) : null},
+        ${data.body_template || null}
       )
       RETURNING *
     `;
     return parseUrl(rows[0] as UrlRecord)!;
   }
 
-  async updateUrlTool(id: number, data: { name?: string; description?: string; url?: string; method?: string; headers?: Record<string, string> | null }): Promise<TeamUrlTool> {
+  async updateUrlTool(id: number, data: UpdateTeamUrlToolData): Promise<TeamUrlTool> {
     const updates: string[] = [];
     const values: any[] = [];
     let idx = 1;
@@ -177,6 +190,9 @@ export class PostgresTeamRepository implements TeamRepository {
     if (data.url !== undefined) { updates.push(`url = $${idx++}`); values.push(data.url); }
     if (data.method !== undefined) { updates.push(`method = $${idx++}`); values.push(data.method); }
     if (data.headers !== undefined) { updates.push(`headers = $${idx++}`); values.push(data.headers === null ? null : JSON.stringify(data.headers)); }
+    if (data.parameters !== undefined) { updates.push(`parameters = $${idx++}`); values.push(JSON.stringify(data.parameters)); }
+    if (data.query_params !== undefined) { updates.push(`query_params = $${idx++}`); values.push(data.query_params === null ? null : JSON.stringify(data.query_params)); }
+    if (data.body_template !== undefined) { updates.push(`body_template = $${idx++}`); values.push(data.body_template || null); }
 
     if (updates.length > 0) {
       updates.push(`updated_at = CURRENT_TIMESTAMP`);
@@ -204,9 +220,9 @@ export class PostgresTeamRepository implements TeamRepository {
     return parseNotif(rows[0] as NotifRecord | undefined);
   }
 
-  async upsertNotificationSettings(domain: string, data: Partial<Pick<TeamNotificationSettings, 'notification_email' | 'email_addresses' | 'webhook_urls' | 'email_enabled' | 'pushover_user_key' | 'pushover_api_token' | 'pushover_enabled'>>): Promise<TeamNotificationSettings> {
+  async upsertNotificationSettings(domain: string, data: Partial<Pick<TeamNotificationSettings, 'notification_email' | 'email_addresses' | 'webhook_urls' | 'email_enabled' | 'pushover_user_key' | 'pushover_api_token' | 'pushover_enabled' | 'mail_transport'>>): Promise<TeamNotificationSettings> {
     const rows = await sql`
-      INSERT INTO team_notification_settings (domain, notification_email, email_addresses, webhook_urls, email_enabled, pushover_user_key, pushover_api_token, pushover_enabled)
+      INSERT INTO team_notification_settings (domain, notification_email, email_addresses, webhook_urls, email_enabled, pushover_user_key, pushover_api_token, pushover_enabled, mail_transport)
       VALUES (
         ${domain},
         ${data.notification_email ?? null},
@@ -215,7 +231,8 @@ export class PostgresTeamRepository implements TeamRepository {
         ${data.email_enabled ?? true},
         ${data.pushover_user_key ?? null},
         ${data.pushover_api_token ?? null},
-        ${data.pushover_enabled ?? false}
+        ${data.pushover_enabled ?? false},
+        ${data.mail_transport ? JSON.stringify(data.mail_transport) : null}
       )
       ON CONFLICT (domain) DO UPDATE SET
         notification_email  = COALESCE(EXCLUDED.notification_email, team_notification_settings.notification_email),
@@ -225,6 +242,9 @@ export class PostgresTeamRepository implements TeamRepository {
         pushover_user_key   = COALESCE(EXCLUDED.pushover_user_key, team_notification_settings.pushover_user_key),
         pushover_api_token  = COALESCE(EXCLUDED.pushover_api_token, team_notification_settings.pushover_api_token),
         pushover_enabled    = EXCLUDED.pushover_enabled,
+        mail_transport      = CASE WHEN ${data.mail_transport === undefined}
+                                THEN team_notification_settings.mail_transport
+                                ELSE EXCLUDED.mail_transport END,
         updated_at          = CURRENT_TIMESTAMP
       RETURNING *
     `;
@@ -1,42 +1,49 @@
 import { sql } from "bun";
-import type { UrlTool } from "../../types/models";
+import type { UrlTool, UrlToolParameter } from "../../types/models";
 import type {
   UrlToolRepository,
   CreateUrlToolData,
   UpdateUrlToolData,
 } from "../UrlToolRepository";
 
-type UrlToolRecord = Omit<UrlTool, "headers"> & { headers: string | null };
+type UrlToolRecord = Omit<UrlTool, "headers" | "parameters" | "query_params"> & {
+  headers: string | null;
+  parameters: unknown;
+  query_params: unknown;
+};
 
 export class PostgresUrlToolRepository implements UrlToolRepository {
   async listByUser(userId: number): Promise<UrlTool[]> {
     const rows = await sql`
       SELECT * FROM url_tools WHERE user_id = ${userId} ORDER BY created_at DESC
     `;
-    return rows.map(includeParsedHeaders);
+    return rows.map((row: UrlToolRecord) => parseUrlToolRecord(row)!);
   }
 
   async findById(id: number): Promise<UrlTool | null> {
     const result = await sql`
       SELECT * FROM url_tools WHERE id = ${id}
     `;
-    return includeParsedHeaders<UrlToolRecord>(result[0]);
+    return parseUrlToolRecord(result[0]);
   }
 
   async create(data: CreateUrlToolData): Promise<UrlTool> {
     const result = await sql`
-      INSERT INTO url_tools (user_id, name, description, url, method, headers)
+      INSERT INTO url_tools (user_id, name, description, url, method, headers, parameters, query_params, body_template)
       VALUES (
         ${data.user_id},
         ${data.name},
         ${data.description || null},
         ${data.url},
         ${data.method},
-        ${data.headers ? JSON.stringify(data.headers) : null}
+        ${data.headers ? JSON.stringify(data.headers) : null},
+        ${JSON.stringify(data.parameters ?? [])},
+        ${data.query_params ? JSON.stringify(data.query_params) : null},
+        ${data.body_template || null}
       )
       RETURNING *
     `;
-    return includeParsedHeaders<UrlToolRecord>(result[0])!;
+    return parseUrlToolRecord(result[0])!;
   }
 
   async update(id: number, data: UpdateUrlToolData): Promise<UrlTool> {
@@ -64,6 +71,18 @@ export class PostgresUrlToolRepository implements UrlToolRepository {
       updates.push(`headers = $${paramIndex++}`);
       values.push(data.headers === null ? null : JSON.stringify(data.headers));
     }
+    if (data.parameters !== undefined) {
+      updates.push(`parameters = $${paramIndex++}`);
+      values.push(JSON.stringify(data.parameters));
+    }
+    if (data.query_params !== undefined) {
+      updates.push(`query_params = $${paramIndex++}`);
+      values.push(data.query_params === null ? null : JSON.stringify(data.query_params));
+    }
+    if (data.body_template !== undefined) {
+      updates.push(`body_template = $${paramIndex++}`);
+      values.push(data.body_template || null);
+    }
 
     if (updates.length > 0) {
       updates.push(`updated_at = CURRENT_TIMESTAMP`);
@@ -72,7 +91,7 @@ export class PostgresUrlToolRepository implements UrlToolRepository {
     if (updates.length === 0) {
       // No updates, just return current record
       const result = await sql`SELECT * FROM url_tools WHERE id = ${id}`;
-      return includeParsedHeaders<UrlToolRecord>(result[0])!;
+      return parseUrlToolRecord(result[0])!;
     }
 
     values.push(id);
@@ -82,7 +101,7 @@ export class PostgresUrlToolRepository implements UrlToolRepository {
       )} WHERE id = $${paramIndex} RETURNING *`,
       values
     );
-    return includeParsedHeaders<UrlToolRecord>(result[0])!;
+    return parseUrlToolRecord(result[0])!;
   }
 
   async delete(id: number): Promise<void> {
@@ -90,26 +109,31 @@ export class PostgresUrlToolRepository implements UrlToolRepository {
   }
 }
 
-function includeParsedHeaders<T extends { headers: string | null }>(
-  item: T | undefined | null
-): Omit<T, "headers"> & { headers: Record<string, string> | null } | null {
+function parseUrlToolRecord(item: UrlToolRecord | undefined | null): UrlTool | null {
   if (!item) {
     return null;
   }
   return {
     ...item,
-    headers: parseHeaders(item.headers) || null,
+    headers: parseJsonColumn<Record<string, string>>(item.headers),
+    parameters: parseJsonColumn<UrlToolParameter[]>(item.parameters) ?? [],
+    query_params: parseJsonColumn<Record<string, string>>(item.query_params),
   };
 }
 
-function parseHeaders(
-  headersStr: string | null
-): Record<string, string> | null {
-  if (!headersStr) {
+/**
+ * JSONB columns come back either as parsed values or, when they were written
+ * as JSON-encoded strings, as strings that need a second parse.
+ */
+function parseJsonColumn<T>(value: unknown): T | null {
+  if (value === null || value === undefined) {
     return null;
   }
+  if (typeof value !== "string") {
+    return value as T;
+  }
   try {
-    return JSON.parse(headersStr);
+    return JSON.parse(value) as T;
   } catch {
     return null;
   }
@@ -0,0 +1,183 @@
+import { sql } from "bun";
+import type { UsageGroupBy, UsageRecord, UsageRollup } from "../../types/models";
+import type {
+  CreateUsageRecordData,
+  UsageQuery,
+  UsageRepository,
+  UsageSpend,
+  UsageSpendFilter,
+} from "../UsageRepository";
+
+// SUM/COUNT come back as bigint/numeric strings
+function toRollup(row: any): UsageRollup {
+  return {
+    key: String(row.key),
+    label: row.label ?? null,
+    steps: Number(row.steps ?? 0),
+    input_tokens: Number(row.input_tokens ?? 0),
+    output_tokens: Number(row.output_tokens ?? 0),
+    cached_input_tokens: Number(row.cached_input_tokens ?? 0),
+    cost_usd: Number(row.cost_usd ?? 0),
+  };
+}
+
+function toRecord(row: any): UsageRecord {
+  return {
+    ...row,
+    cost_usd: row.cost_usd === null ? null : Number(row.cost_usd),
+  };
+}
+
+export class PostgresUsageRepository implements UsageRepository {
+  async record(records: CreateUsageRecordData[]): Promise<void> {
+    for (const r of records) {
+      await sql`
+        INSERT INTO usage_records (
+          user_id, agent_id, conversation_id, source, model, step_index,
+          input_tokens, output_tokens, cached_input_tokens, cost_usd
+        )
+        VALUES (
+          ${r.user_id}, ${r.agent_id}, ${r.conversation_id}, ${r.source}, ${r.model}, ${r.step_index},
+          ${r.input_tokens}, ${r.output_tokens}, ${r.cached_input_tokens}, ${r.cost_usd}
+        )
+      `;
+    }
+  }
+
+  async summarize(userId: number, groupBy: UsageGroupBy, query: UsageQuery = {}): Promise<UsageRollup[]> {
+    const since = query.since ?? null;
+    const until = query.until ?? null;
+    const agentId = query.agent_id ?? null;
+    const conversationId = query.conversation_id ?? null;
+
+    let rows: any[];
+    switch (groupBy) {
+      case "agent":
+        rows = await sql`
+          SELECT COALESCE(u.agent_id::text, 'deleted') AS key, a.name AS label,
+            COUNT(*) AS steps, SUM(u.input_tokens) AS input_tokens, SUM(u.output_tokens) AS output_tokens,
+            SUM(u.cached_input_tokens) AS cached_input_tokens, COALESCE(SUM(u.cost_usd), 0) AS cost_usd
+          FROM usage_records u
+          LEFT JOIN agents a ON a.id = u.agent_id
+          WHERE u.user_id = ${userId}
+            AND (${since}::timestamp IS NULL OR u.created_at >= ${since}::timestamp)
+            AND (${until}::timestamp IS NULL OR u.created_at < ${until}::timestamp)
+            AND (${agentId}::integer IS NULL OR u.agent_id = ${agentId}::integer)
+            AND (${conversationId}::integer IS NULL OR u.conversation_id = ${conversationId}::integer)
+          GROUP BY u.agent_id, a.name
+          ORDER BY cost_usd DESC, input_tokens DESC
+        `;
+        break;
+      case "conversation":
+        rows = await sql`
+          SELECT COALESCE(u.conversation_id::text, 'deleted') AS key, c.title AS label,
+            COUNT(*) AS steps, SUM(u.input_tokens) AS input_tokens, SUM(u.output_tokens) AS output_tokens,
+            SUM(u.cached_input_tokens) AS cached_input_tokens, COALESCE(SUM(u.cost_usd), 0) AS cost_usd
+          FROM usage_records u
+          LEFT JOIN conversations c ON c.id = u.conversation_id
+          WHERE u.user_id = ${userId}
+            AND (${since}::timestamp IS NULL OR u.created_at >= ${since}::timestamp)
+            AND (${until}::timestamp IS NULL OR u.created_at < ${until}::timestamp)
+            AND (${agentId}::integer IS NULL OR u.agent_id = ${agentId}::integer)
+            AND (${conversationId}::integer IS NULL OR u.conversation_id = ${conversationId}::integer)
+          GROUP BY u.conversation_id, c.title
+          ORDER BY cost_usd DESC, input_tokens DESC
+          LIMIT 100
+        `;
+        break;
+      case "source":
+        rows = await sql`
+          SELECT u.source AS key, NULL AS label,
+            COUNT(*) AS steps, SUM(u.input_tokens) AS input_tokens, SUM(u.output_tokens) AS output_tokens,
+            SUM(u.cached_input_tokens) AS cached_input_tokens, COALESCE(SUM(u.cost_usd), 0) AS cost_usd
+          FROM usage_records u
+          WHERE u.user_id = ${userId}
+            AND (${since}::timestamp IS NULL OR u.created_at >= ${since}::timestamp)
+            AND (${until}::timestamp IS NULL OR u.created_at < ${until}::timestamp)
+            AND (${agentId}::integer IS NULL OR u.agent_id = ${agentId}::integer)
+            AND (${conversationId}::integer IS NULL OR u.conversation_id = ${conversationId}::integer)
+          GROUP BY u.source
+          ORDER BY cost_usd DESC, input_tokens DESC
+        `;
+        break;
+      case "day":
+        rows = await sql`
+          SELECT to_char(date_trunc('day', u.created_at), 'YYYY-MM-DD') AS key, NULL AS label,
+            COUNT(*) AS steps, SUM(u.input_tokens) AS input_tokens, SUM(u.output_tokens) AS output_tokens,
+            SUM(u.cached_input_tokens) AS cached_input_tokens, COALESCE(SUM(u.cost_usd), 0) AS cost_usd
+          FROM usage_records u
+          WHERE u.user_id = ${userId}
+            AND (${since}::timestamp IS NULL OR u.created_at >= ${since}::timestamp)
+            AND (${until}::timestamp IS NULL OR u.created_at < ${until}::timestamp)
+            AND (${agentId}::integer IS NULL OR u.agent_id = ${agentId}::integer)
+            AND (${conversationId}::integer IS NULL OR u.conversation_id = ${conversationId}::integer)
+          GROUP BY key
+          ORDER BY key DESC
+        `;
+        break;
+    }
+
+    return rows.map(toRollup);
+  }
+
+  async total(userId: number, query: UsageQuery = {}): Promise<Omit<UsageRollup, "key" | "label">> {
+    const since = query.since ?? null;
+    const until = query.until ?? null;
+    const agentId = query.agent_id ?? null;
+    const conversationId = query.conversation_id ?? null;
+
+    const rows = await sql`
+      SELECT 'total' AS key,
+        COUNT(*) AS steps, SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens,
+        SUM(cached_input_tokens) AS cached_input_tokens, COALESCE(SUM(cost_usd), 0) AS cost_usd
+      FROM usage_records
+      WHERE user_id = ${userId}
+        AND (${since}::timestamp IS NULL OR created_at >= ${since}::timestamp)
+        AND (${until}::timestamp IS NULL OR created_at < ${until}::timestamp)
+        AND (${agentId}::integer IS NULL OR agent_id = ${agentId}::integer)
+        AND (${conversationId}::integer IS NULL OR conversation_id = ${conversationId}::integer)
+    `;
+    const { key: _key, label: _label, ...totals } = toRollup(rows[0] ?? { key: "total" });
+    return totals;
+  }
+
+  async listByConversation(conversationId: number): Promise<UsageRecord[]> {
+    const rows = await sql`
+      SELECT * FROM usage_records
+      WHERE conversation_id = ${conversationId}
+      ORDER BY created_at, id
+    `;
+    return rows.map(toRecord);
+  }
+
+  async spendSince(filter: UsageSpendFilter, since: Date): Promise<UsageSpend> {
+    let rows: any[];
+    if ("domain" in filter) {
+      // Team spend covers every user whose email is on the domain, and the team's agents whoever ran them
+      rows = await sql`
+        SELECT COALESCE(SUM(u.input_tokens + u.output_tokens), 0) AS tokens, COALESCE(SUM(u.cost_usd), 0) AS cost_usd
+        FROM usage_records u
+        JOIN users ON users.id = u.user_id
+        LEFT JOIN agents a ON a.id = u.agent_id
+        WHERE u.created_at >= ${since}
+          AND (
+            lower(split_part(users.email, '@', 2)) = lower(${filter.domain})
+            OR (a.pool_type = 'team' AND lower(a.domain) = lower(${filter.domain}))
+          )
+      `;
+    } else if ("agent_id" in filter) {
+      rows = await sql`
+        SELECT COALESCE(SUM(input_tokens + output_tokens), 0) AS tokens, COALESCE(SUM(cost_usd), 0) AS cost_usd
+        FROM usage_records
+        WHERE agent_id = ${filter.agent_id} AND created_at >= ${since}
+      `;
+    } else {
+      rows = await sql`
+        SELECT COALESCE(SUM(input_tokens + output_tokens), 0) AS tokens, COALESCE(SUM(cost_usd), 0) AS cost_usd
+        FROM usage_records
+        WHERE user_id = ${filter.user_id} AND created_at >= ${since}
+      `;
+    }
+    return { tokens: Number(rows[0]?.tokens ?? 0), cost_usd: Number(rows[0]?.cost_usd ?? 0) };
+  }
+}
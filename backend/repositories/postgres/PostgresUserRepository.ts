@@ -60,6 +60,13 @@ export class PostgresUserRepository implements UserRepository {
         WHERE id = ${id}
       `;
     }
+    if (data.embedding_model !== undefined) {
+      await sql`
+        UPDATE users
+        SET embedding_model = ${data.embedding_model}, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${id}
+      `;
+    }
 
     const result = await this.findById(id);
     return result!;
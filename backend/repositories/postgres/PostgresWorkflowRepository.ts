@@ -4,6 +4,10 @@ import type {
   AgentWorkflow,
   WorkflowExecution,
   WorkflowFact,
+  WorkflowApproval,
+  WorkflowStepAttempt,
+  WorkflowRevision,
+  WorkflowStepTemplate,
 } from "../../types/models";
 import type {
   WorkflowRepository,
@@ -11,6 +15,12 @@ import type {
   UpdateWorkflowData,
   CreateWorkflowExecutionData,
   SetFactData,
+  CreateWorkflowApprovalData,
+  DecideWorkflowApprovalData,
+  RecordStepAttemptData,
+  WorkflowExecutionSummary,
+  CreateStepTemplateData,
+  UpdateStepTemplateData,
 } from "../WorkflowRepository";
 
 function parseJsonArray<T>(val: unknown, fallback: T[]): T[] {
@@ -33,6 +43,38 @@ function parseWorkflowRow(row: any): Workflow {
   };
 }
 
+/** BIGINT epoch-ms columns come back as strings */
+function parseExecutionRow<T extends WorkflowExecution>(row: any): T {
+  return {
+    ...row,
+    started_at: Number(row.started_at),
+    completed_at: row.completed_at === null ? null : Number(row.completed_at),
+    deadline_at: row.deadline_at === null ? null : Number(row.deadline_at),
+    step_deadline_at: row.step_deadline_at === null ? null : Number(row.step_deadline_at),
+  };
+}
+
+function parseFactRow(row: any): WorkflowFact {
+  return { ...row, collected_at: Number(row.collected_at) };
+}
+
+function parseAttemptRow(row: any): WorkflowStepAttempt {
+  return {
+    ...row,
+    gate_failures: parseJsonArray<string>(row.gate_failures, []),
+    gate_details: parseJsonArray<WorkflowStepAttempt["gate_details"][number]>(row.gate_details, []),
+    evaluated_at: Number(row.evaluated_at),
+  };
+}
+
+function parseApprovalRow<T extends WorkflowApproval>(row: any): T {
+  return {
+    ...row,
+    expires_at: Number(row.expires_at),
+    decided_at: row.decided_at === null ? null : Number(row.decided_at),
+  };
+}
+
 export class PostgresWorkflowRepository implements WorkflowRepository {
   // ── Workflows CRUD ──────────────────────────────────────────────────────
 
@@ -62,39 +104,141 @@ export class PostgresWorkflowRepository implements WorkflowRepository {
 
   async create(data: CreateWorkflowData): Promise<Workflow> {
     const result = await sql`
-      INSERT INTO workflows (user_id, name, description, yaml_content, version, tags, timeout_minutes)
-      VALUES (
-        ${data.user_id},
-        ${data.name},
-        ${data.description || null},
-        ${data.yaml_content},
-        ${data.version || '1.0.0'},
-        ${JSON.stringify(data.tags || [])},
-        ${data.timeout_minutes || 30}
+      WITH w AS (
+        INSERT INTO workflows (user_id, name, description, yaml_content, version, tags, timeout_minutes)
+        VALUES (
+          ${data.user_id},
+          ${data.name},
+          ${data.description || null},
+          ${data.yaml_content},
+          ${data.version || '1.0.0'},
+          ${JSON.stringify(data.tags || [])},
+          ${data.timeout_minutes || 30}
+        )
+        RETURNING *
+      ), r AS (
+        INSERT INTO workflow_revisions (workflow_id, revision, version, yaml_content)
+        SELECT id, revision, version, yaml_content FROM w
       )
-      RETURNING *
+      SELECT * FROM w
     `;
     return parseWorkflowRow(result[0]);
   }
 
   async update(id: number, data: UpdateWorkflowData): Promise<Workflow> {
+    // Bump the revision only when the YAML actually changes, and record the
+    // new revision in the same statement so the two can't drift apart
     const result = await sql`
-      UPDATE workflows SET
+      WITH w AS (
+        UPDATE workflows SET
+          name = COALESCE(${data.name ?? null}, name),
+          description = COALESCE(${data.description ?? null}, description),
+          revision = CASE
+            WHEN ${data.yaml_content ?? null}::text IS NOT NULL AND ${data.yaml_content ?? null}::text IS DISTINCT FROM yaml_content
+            THEN revision + 1
+            ELSE revision
+          END,
+          yaml_content = COALESCE(${data.yaml_content ?? null}, yaml_content),
+          version = COALESCE(${data.version ?? null}, version),
+          tags = COALESCE(${data.tags ? JSON.stringify(data.tags) : null}, tags),
+          timeout_minutes = COALESCE(${data.timeout_minutes ?? null}, timeout_minutes),
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${id}
+        RETURNING *
+      ), r AS (
+        INSERT INTO workflow_revisions (workflow_id, revision, version, yaml_content)
+        SELECT id, revision, version, yaml_content FROM w
+        ON CONFLICT (workflow_id, revision) DO NOTHING
+      )
+      SELECT * FROM w
+    `;
+    return parseWorkflowRow(result[0]);
+  }
+
+  async delete(id: number): Promise<void> {
+    await sql`DELETE FROM workflows WHERE id = ${id}`;
+  }
+
+  // ── Revisions ───────────────────────────────────────────────────────────
+
+  async listRevisions(workflowId: number): Promise<WorkflowRevision[]> {
+    return await sql`
+      SELECT * FROM workflow_revisions
+      WHERE workflow_id = ${workflowId}
+      ORDER BY revision DESC
+    `;
+  }
+
+  async findRevision(workflowId: number, revision: number): Promise<WorkflowRevision | null> {
+    const result = await sql`
+      SELECT * FROM workflow_revisions
+      WHERE workflow_id = ${workflowId} AND revision = ${revision}
+    `;
+    return result[0] || null;
+  }
+
+  async findRevisionById(id: number): Promise<WorkflowRevision | null> {
+    const result = await sql`SELECT * FROM workflow_revisions WHERE id = ${id}`;
+    return result[0] || null;
+  }
+
+  async findRevisionByVersion(workflowId: number, version: string): Promise<WorkflowRevision | null> {
+    const result = await sql`
+      SELECT * FROM workflow_revisions
+      WHERE workflow_id = ${workflowId} AND version = ${version}
+      ORDER BY revision DESC
+      LIMIT 1
+    `;
+    return result[0] || null;
+  }
+
+  // ── Step templates ──────────────────────────────────────────────────────
+
+  async listStepTemplates(userId: number): Promise<WorkflowStepTemplate[]> {
+    return await sql`
+      SELECT * FROM workflow_step_templates
+      WHERE user_id = ${userId}
+      ORDER BY name ASC
+    `;
+  }
+
+  async findStepTemplateById(id: number): Promise<WorkflowStepTemplate | null> {
+    const result = await sql`SELECT * FROM workflow_step_templates WHERE id = ${id}`;
+    return result[0] || null;
+  }
+
+  async findStepTemplateByName(userId: number, name: string): Promise<WorkflowStepTemplate | null> {
+    const result = await sql`
+      SELECT * FROM workflow_step_templates
+      WHERE user_id = ${userId} AND name = ${name}
+    `;
+    return result[0] || null;
+  }
+
+  async createStepTemplate(data: CreateStepTemplateData): Promise<WorkflowStepTemplate> {
+    const result = await sql`
+      INSERT INTO workflow_step_templates (user_id, name, description, yaml_content)
+      VALUES (${data.user_id}, ${data.name}, ${data.description ?? null}, ${data.yaml_content})
+      RETURNING *
+    `;
+    return result[0];
+  }
+
+  async updateStepTemplate(id: number, data: UpdateStepTemplateData): Promise<WorkflowStepTemplate> {
+    const result = await sql`
+      UPDATE workflow_step_templates SET
         name = COALESCE(${data.name ?? null}, name),
-        description = COALESCE(${data.description ?? null}, description),
+        description = CASE WHEN ${data.description !== undefined} THEN ${data.description ?? null} ELSE description END,
         yaml_content = COALESCE(${data.yaml_content ?? null}, yaml_content),
-        version = COALESCE(${data.version ?? null}, version),
-        tags = COALESCE(${data.tags ? JSON.stringify(data.tags) : null}, tags),
-        timeout_minutes = COALESCE(${data.timeout_minutes ?? null}, timeout_minutes),
         updated_at = CURRENT_TIMESTAMP
       WHERE id = ${id}
       RETURNING *
     `;
-    return parseWorkflowRow(result[0]);
+    return result[0];
   }
 
-  async delete(id: number): Promise<void> {
-    await sql`DELETE FROM workflows WHERE id = ${id}`;
+  async deleteStepTemplate(id: number): Promise<void> {
+    await sql`DELETE FROM workflow_step_templates WHERE id = ${id}`;
   }
 
   // ── Agent-workflow assignments ──────────────────────────────────────────
@@ -102,7 +246,7 @@ export class PostgresWorkflowRepository implements WorkflowRepository {
   async listAgentWorkflows(agentId: number): Promise<(AgentWorkflow & { workflow: Workflow })[]> {
     const rows = await sql`
       SELECT aw.*, w.name as w_name, w.description as w_description, w.yaml_content as w_yaml_content,
-             w.version as w_version, w.tags as w_tags, w.timeout_minutes as w_timeout_minutes,
+             w.version as w_version, w.revision as w_revision, w.tags as w_tags, w.timeout_minutes as w_timeout_minutes,
              w.user_id as w_user_id, w.created_at as w_created_at, w.updated_at as w_updated_at
       FROM agent_workflows aw
       JOIN workflows w ON w.id = aw.workflow_id
@@ -122,6 +266,7 @@ export class PostgresWorkflowRepository implements WorkflowRepository {
         description: row.w_description,
         yaml_content: row.w_yaml_content,
         version: row.w_version,
+        revision: row.w_revision,
         tags: parseJsonArray<string>(row.w_tags, []),
         timeout_minutes: row.w_timeout_minutes,
         created_at: row.w_created_at,
@@ -175,55 +320,133 @@ export class PostgresWorkflowRepository implements WorkflowRepository {
   async getActiveExecution(conversationId: number): Promise<WorkflowExecution | null> {
     const result = await sql`
       SELECT * FROM workflow_executions
-      WHERE conversation_id = ${conversationId} AND status = 'in_progress'
-      ORDER BY created_at DESC
+      WHERE conversation_id = ${conversationId} AND status IN ('in_progress', 'awaiting_approval')
+      ORDER BY created_at DESC, id DESC
       LIMIT 1
     `;
-    return result[0] || null;
+    return result[0] ? parseExecutionRow(result[0]) : null;
+  }
+
+  async findExecutionById(executionId: number): Promise<WorkflowExecution | null> {
+    const result = await sql`SELECT * FROM workflow_executions WHERE id = ${executionId}`;
+    return result[0] ? parseExecutionRow(result[0]) : null;
+  }
+
+  async listChildExecutions(parentExecutionId: number): Promise<WorkflowExecution[]> {
+    const rows = await sql`
+      SELECT * FROM workflow_executions
+      WHERE parent_execution_id = ${parentExecutionId}
+      ORDER BY created_at DESC, id DESC
+    `;
+    return rows.map((row: any) => parseExecutionRow(row));
+  }
+
+  async listExecutionsByWorkflow(workflowId: number, limit = 50): Promise<WorkflowExecutionSummary[]> {
+    const rows = await sql`
+      SELECT e.*, c.agent_id, a.slug AS agent_slug, a.name AS agent_name, c.title AS conversation_title
+      FROM workflow_executions e
+      JOIN conversations c ON c.id = e.conversation_id
+      JOIN agents a ON a.id = c.agent_id
+      WHERE e.workflow_id = ${workflowId}
+      ORDER BY e.started_at DESC
+      LIMIT ${limit}
+    `;
+    return rows.map((row: any) => parseExecutionRow<WorkflowExecutionSummary>(row));
+  }
+
+  async listActiveExecutionsByWorkflow(workflowId: number): Promise<WorkflowExecution[]> {
+    const rows = await sql`
+      SELECT * FROM workflow_executions
+      WHERE workflow_id = ${workflowId} AND status IN ('in_progress', 'awaiting_approval')
+      ORDER BY started_at ASC
+    `;
+    return rows.map((row: any) => parseExecutionRow(row));
+  }
+
+  async listOverdueExecutions(now: number, limit = 50): Promise<WorkflowExecution[]> {
+    const rows = await sql`
+      SELECT * FROM workflow_executions
+      WHERE status = 'in_progress' AND (deadline_at < ${now} OR step_deadline_at < ${now})
+      ORDER BY LEAST(deadline_at, step_deadline_at) ASC
+      LIMIT ${limit}
+    `;
+    return rows.map((row: any) => parseExecutionRow(row));
   }
 
   async createExecution(data: CreateWorkflowExecutionData): Promise<WorkflowExecution> {
     const result = await sql`
-      INSERT INTO workflow_executions (conversation_id, workflow_id, current_step_id, started_at)
-      VALUES (${data.conversation_id}, ${data.workflow_id}, ${data.current_step_id}, ${data.started_at})
+      INSERT INTO workflow_executions (
+        conversation_id, workflow_id, revision_id, current_step_id, started_at, deadline_at, step_deadline_at,
+        parent_execution_id, parent_step_id
+      )
+      VALUES (
+        ${data.conversation_id},
+        ${data.workflow_id},
+        ${data.revision_id},
+        ${data.current_step_id},
+        ${data.started_at},
+        ${data.deadline_at},
+        ${data.step_deadline_at},
+        ${data.parent_execution_id ?? null},
+        ${data.parent_step_id ?? null}
+      )
       RETURNING *
     `;
-    return result[0];
+    return parseExecutionRow(result[0]);
   }
 
   async updateExecution(
     executionId: number,
-    data: Partial<Pick<WorkflowExecution, 'current_step_index' | 'current_step_id' | 'status' | 'completed_at'>>
+    data: Partial<Pick<
+      WorkflowExecution,
+      | 'revision_id'
+      | 'current_step_index'
+      | 'current_step_id'
+      | 'status'
+      | 'completed_at'
+      | 'loop_counts'
+      | 'deadline_at'
+      | 'step_deadline_at'
+    >>
   ): Promise<WorkflowExecution> {
     const result = await sql`
       UPDATE workflow_executions SET
+        revision_id = COALESCE(${data.revision_id ?? null}, revision_id),
         current_step_index = COALESCE(${data.current_step_index ?? null}, current_step_index),
         current_step_id = COALESCE(${data.current_step_id ?? null}, current_step_id),
         status = COALESCE(${data.status ?? null}, status),
-        completed_at = COALESCE(${data.completed_at ?? null}, completed_at),
+        completed_at = CASE WHEN ${data.completed_at !== undefined} THEN ${data.completed_at ?? null}::bigint ELSE completed_at END,
+        loop_counts = COALESCE(${data.loop_counts ? JSON.stringify(data.loop_counts) : null}::jsonb, loop_counts),
+        deadline_at = CASE WHEN ${data.deadline_at !== undefined} THEN ${data.deadline_at ?? null}::bigint ELSE deadline_at END,
+        step_deadline_at = CASE
+          WHEN ${data.step_deadline_at !== undefined} THEN ${data.step_deadline_at ?? null}::bigint
+          ELSE step_deadline_at
+        END,
         updated_at = CURRENT_TIMESTAMP
       WHERE id = ${executionId}
       RETURNING *
     `;
-    return result[0];
+    return parseExecutionRow(result[0]);
   }
 
   // ── Workflow facts ──────────────────────────────────────────────────────
 
   async listFacts(executionId: number): Promise<WorkflowFact[]> {
-    return await sql`
+    const rows = await sql`
       SELECT * FROM workflow_facts
       WHERE execution_id = ${executionId}
       ORDER BY collected_at ASC
     `;
+    return rows.map(parseFactRow);
   }
 
   async listFactsByStep(executionId: number, stepId: string): Promise<WorkflowFact[]> {
-    return await sql`
+    const rows = await sql`
       SELECT * FROM workflow_facts
       WHERE execution_id = ${executionId} AND step_id = ${stepId}
       ORDER BY collected_at ASC
     `;
+    return rows.map(parseFactRow);
   }
 
   async setFact(data: SetFactData): Promise<WorkflowFact> {
@@ -243,6 +466,134 @@ export class PostgresWorkflowRepository implements WorkflowRepository {
         collected_at = ${data.collected_at}
       RETURNING *
     `;
-    return result[0];
+    return parseFactRow(result[0]);
+  }
+
+  async clearStepFacts(executionId: number, stepId: string): Promise<void> {
+    await sql`
+      DELETE FROM workflow_facts
+      WHERE execution_id = ${executionId} AND step_id = ${stepId}
+    `;
+  }
+
+  async renameStepFacts(executionId: number, fromStepId: string, toStepId: string): Promise<void> {
+    await sql`
+      DELETE FROM workflow_facts
+      WHERE execution_id = ${executionId} AND step_id = ${toStepId} AND fact_name IN (
+        SELECT fact_name FROM workflow_facts
+        WHERE execution_id = ${executionId} AND step_id = ${fromStepId}
+      )
+    `;
+    await sql`
+      UPDATE workflow_facts SET step_id = ${toStepId}
+      WHERE execution_id = ${executionId} AND step_id = ${fromStepId}
+    `;
+  }
+
+  // ── Step attempts ───────────────────────────────────────────────────────
+
+  async recordStepAttempt(data: RecordStepAttemptData): Promise<WorkflowStepAttempt> {
+    const result = await sql`
+      INSERT INTO workflow_step_attempts (
+        execution_id, step_id, outcome, gate_passed, gate_failures, gate_details,
+        verifier_approved, verifier_reasoning, evaluated_at
+      )
+      VALUES (
+        ${data.execution_id},
+        ${data.step_id},
+        ${data.outcome},
+        ${data.gate_passed},
+        ${JSON.stringify(data.gate_failures)},
+        ${JSON.stringify(data.gate_details)},
+        ${data.verifier_approved},
+        ${data.verifier_reasoning},
+        ${data.evaluated_at}
+      )
+      RETURNING *
+    `;
+    return parseAttemptRow(result[0]);
+  }
+
+  async listStepAttempts(executionId: number): Promise<WorkflowStepAttempt[]> {
+    const rows = await sql`
+      SELECT * FROM workflow_step_attempts
+      WHERE execution_id = ${executionId}
+      ORDER BY evaluated_at ASC, id ASC
+    `;
+    return rows.map(parseAttemptRow);
+  }
+
+  // ── Approvals ───────────────────────────────────────────────────────────
+
+  async createApproval(data: CreateWorkflowApprovalData): Promise<WorkflowApproval> {
+    const result = await sql`
+      INSERT INTO workflow_approvals (
+        execution_id, step_id, step_name, user_id, agent_id, conversation_id, message, expires_at
+      )
+      SELECT e.id, ${data.step_id}, ${data.step_name}, c.user_id, c.agent_id, c.id, ${data.message}, ${data.expires_at}
+      FROM workflow_executions e
+      JOIN conversations c ON c.id = e.conversation_id
+      WHERE e.id = ${data.execution_id}
+      RETURNING *
+    `;
+    if (!result[0]) {
+      throw new Error(`Workflow execution not found: ${data.execution_id}`);
+    }
+    return parseApprovalRow(result[0]);
+  }
+
+  async findApprovalById(id: number): Promise<WorkflowApproval | null> {
+    const result = await sql`SELECT * FROM workflow_approvals WHERE id = ${id}`;
+    return result[0] ? parseApprovalRow(result[0]) : null;
+  }
+
+  async listApprovalsByExecution(executionId: number): Promise<WorkflowApproval[]> {
+    const rows = await sql`
+      SELECT * FROM workflow_approvals
+      WHERE execution_id = ${executionId}
+      ORDER BY created_at ASC
+    `;
+    return rows.map((row: any) => parseApprovalRow(row));
+  }
+
+  async listExpiredApprovals(now: number, limit = 50): Promise<WorkflowApproval[]> {
+    const rows = await sql`
+      SELECT * FROM workflow_approvals
+      WHERE status = 'pending' AND expires_at < ${now}
+      ORDER BY expires_at ASC
+      LIMIT ${limit}
+    `;
+    return rows.map((row: any) => parseApprovalRow(row));
+  }
+
+  async listApprovalsByUser(
+    userId: number,
+    options: { status?: WorkflowApproval['status']; limit?: number } = {}
+  ): Promise<(WorkflowApproval & { workflow_name: string })[]> {
+    const rows = await sql`
+      SELECT a.*, w.name AS workflow_name
+      FROM workflow_approvals a
+      JOIN workflow_executions e ON e.id = a.execution_id
+      JOIN workflows w ON w.id = e.workflow_id
+      WHERE a.user_id = ${userId}
+        AND (${options.status ?? null}::text IS NULL OR a.status = ${options.status ?? null})
+      ORDER BY a.created_at DESC
+      LIMIT ${options.limit ?? 50}
+    `;
+    return rows.map((row: any) => parseApprovalRow<WorkflowApproval & { workflow_name: string }>(row));
+  }
+
+  async decideApproval(id: number, data: DecideWorkflowApprovalData): Promise<WorkflowApproval | null> {
+    const result = await sql`
+      UPDATE workflow_approvals SET
+        status = ${data.status},
+        decided_by = ${data.decided_by ?? null},
+        decided_via = ${data.decided_via ?? null},
+        comment = ${data.comment ?? null},
+        decided_at = ${data.decided_at}
+      WHERE id = ${id} AND status = 'pending'
+      RETURNING *
+    `;
+    return result[0] ? parseApprovalRow(result[0]) : null;
   }
 }
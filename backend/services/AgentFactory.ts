@@ -1,5 +1,5 @@
 import { tool, jsonSchema, ToolLoopAgent, stepCountIs } from "ai";
-import type { ToolSet } from "ai";
+import type { StopCondition, ToolSet } from "ai";
 import { getToolsCached, mcpCallTool } from "./McpClient";
 import type { McpTool } from "./McpClient";
 import type { Agent as AgentModel } from "../types/models";
@@ -14,6 +14,8 @@ import type { NotificationRepository } from "../repositories/NotificationReposit
 import type { MqttRepository } from "../repositories/MqttRepository";
 import type { MqttService } from "./MqttService";
 import type { TeamRepository } from "../repositories/TeamRepository";
+import type { WorkflowRepository } from "../repositories/WorkflowRepository";
+import type { EmbeddingService } from "./EmbeddingService";
 import { memoryTools } from "../tools/memoryTools";
 import { createUrlTool } from "../tools/urlTool";
 import { skillTools } from "../tools/skillTools";
@@ -24,7 +26,8 @@ import { webSearchTools } from "../tools/webSearchTool";
 import { googleSheetsTools } from "../tools/googleSheetsTools";
 import { workflowTools } from "../tools/workflowTools";
 import type { ToolStatusUpdate, AgentToolContext, WorkflowToolContext } from "../tools/context";
-import { resolveModel, DEFAULT_MODEL, type ApiKeys } from "./ModelResolver";
+import { resolveModelChain, DEFAULT_MODEL, type ApiKeys } from "./ModelResolver";
+import { searchWeightsFor } from "./MemorySearch";
 import type { WorkflowEngine } from "../workflows/WorkflowEngine";
 import type { WorkflowDefinition, WorkflowStep, CollectedFact } from "../workflows/types";
 import { z } from "zod";
@@ -41,11 +44,13 @@ export interface AgentFactoryDependencies {
   mqttRepository: MqttRepository | null;
   mqttService: MqttService | null;
   teamRepository: TeamRepository | null;
+  workflowRepository?: WorkflowRepository | null;
 }
 
 export interface CreateAgentOptions {
   conversationId?: number;
-  generateEmbedding?: (text: string) => Promise<number[]>;
+  /** Embeds memories for semantic recall; without it recall falls back to text search */
+  embeddingService?: EmbeddingService | null;
   /** Decrypted Google Custom Search API key for web search */
   googleSearchApiKey?: string;
   googleSearchEngineId?: string;
@@ -57,6 +62,8 @@ export interface CreateAgentOptions {
   notifierOverride?: 'email' | 'webhook' | 'pushover' | null;
   /** Override the notification destination (e.g., from a schedule's notifier_destination setting) */
   notifierDestinationOverride?: string | null;
+  /** Extra stop condition checked after each step (e.g., a budget guard) */
+  stopWhen?: StopCondition<ToolSet>;
   /** Workflow context for active workflow execution */
   workflowContext?: {
     engine: WorkflowEngine;
@@ -72,9 +79,16 @@ export interface CreateAgentOptions {
  * A ToolLoopAgent bundled with metadata needed by the chat handler.
  */
 export interface AgentInstance {
+  id: number;
   name: string;
   slug: string;
+  /** Primary model string, e.g. "openai:gpt-4.1-mini" (see getAnsweredModel for fallbacks) */
+  model: string;
   agent: ToolLoopAgent;
+  /** All of the agent's tools, before workflow step filtering (used to run workflow action steps) */
+  tools: ToolSet;
+  /** Context passed to tools as experimental_context */
+  toolContext: AgentToolContext;
 }
 
 /**
@@ -249,7 +263,7 @@ export class AgentFactory {
         console.warn(`URL tool config not found for tool ID ${urlToolId} on agent ${agentSlug}`);
         continue;
       }
-      Object.assign(tools, createUrlTool(urlToolConfig as any, updateStatus));
+      Object.assign(tools, createUrlTool(urlToolConfig, updateStatus));
     }
 
     // Agent-as-tool: recursively create sub-agents and wrap as tools
@@ -421,6 +435,8 @@ export class AgentFactory {
       }
     }
 
+    const allTools: ToolSet = { ...tools };
+
     // Inject workflow step instructions if a workflow is active
     let workflowToolCtx: WorkflowToolContext | undefined;
     if (options?.workflowContext) {
@@ -448,6 +464,7 @@ export class AgentFactory {
         workflowEngine: wf.engine,
         executionId: wf.executionId,
         currentStepId: wf.currentStep.id,
+        currentStep: wf.currentStep,
       };
     }
 
@@ -476,27 +493,34 @@ export class AgentFactory {
       notificationRepository: this.deps.notificationRepository,
       mqttRepository: this.deps.mqttRepository,
       mqttService: this.deps.mqttService,
+      workflowRepository: this.deps.workflowRepository,
       notifierOverride,
       notifierDestination,
-      generateEmbedding: options?.generateEmbedding,
+      embeddingService: options?.embeddingService ?? undefined,
+      memorySearchWeights: searchWeightsFor(agentData),
       googleSearchApiKey: options?.googleSearchApiKey,
       googleSearchEngineId: options?.googleSearchEngineId,
       googleServiceAccountKey: options?.googleServiceAccountKey,
       workflow: workflowToolCtx,
     };
 
-    const model = resolveModel(agentData.model || DEFAULT_MODEL, apiKeys);
+    const modelString = agentData.model || DEFAULT_MODEL;
+    const model = resolveModelChain([modelString, ...(agentData.fallback_models ?? [])], apiKeys);
 
     return {
+      id: agentData.id,
       name: agentData.name,
       slug: agentData.slug,
+      model: modelString,
       agent: new ToolLoopAgent({
         model,
         instructions: instructionsWithContext,
         tools,
-        stopWhen: stepCountIs(10),
+        stopWhen: options?.stopWhen ? [stepCountIs(10), options.stopWhen] : stepCountIs(10),
         experimental_context: toolContext,
       }),
+      tools: allTools,
+      toolContext,
     };
   }
 
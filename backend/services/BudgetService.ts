@@ -0,0 +1,194 @@
+import type { StopCondition, ToolSet } from "ai";
+import type { Agent, Budget, BudgetScope, User } from "../types/models";
+import type { BudgetRepository } from "../repositories/BudgetRepository";
+import type { UsageRepository, UsageSpend } from "../repositories/UsageRepository";
+import type { NotificationRepository } from "../repositories/NotificationRepository";
+import { DEFAULT_MODEL, estimateCost, getAnsweredModel } from "./ModelResolver";
+import { queueNotification } from "./NotificationService";
+import { getUserDomain, isPersonalDomain } from "../utils/domain";
+import type { UsageStep } from "../utils/usage";
+
+interface BudgetServiceDeps {
+  budgetRepository: BudgetRepository;
+  usageRepository: UsageRepository;
+  notificationRepository: NotificationRepository | null;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public scope: BudgetScope
+  ) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+export type BudgetLevel = "ok" | "soft" | "hard";
+
+/**
+ * Compare month-to-date spend against a budget. The percentage is the higher
+ * of the cost and token ratios; limits left null are ignored.
+ */
+export function evaluateBudget(budget: Budget, spend: UsageSpend): { level: BudgetLevel; percent: number } {
+  const ratios: number[] = [];
+  if (budget.monthly_cost_limit_usd !== null) {
+    ratios.push(budget.monthly_cost_limit_usd > 0 ? spend.cost_usd / budget.monthly_cost_limit_usd : Infinity);
+  }
+  if (budget.monthly_token_limit !== null) {
+    ratios.push(budget.monthly_token_limit > 0 ? spend.tokens / budget.monthly_token_limit : Infinity);
+  }
+  const percent = ratios.length > 0 ? Math.max(...ratios) * 100 : 0;
+  if (percent >= 100) return { level: "hard", percent };
+  if (percent >= budget.soft_threshold_percent) return { level: "soft", percent };
+  return { level: "ok", percent };
+}
+
+/** The current budget month ("YYYY-MM", UTC) and when it started and ends */
+export function currentBudgetMonth(now = new Date()): { month: string; start: Date; end: Date } {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { month: start.toISOString().slice(0, 7), start, end };
+}
+
+function budgetLabel(budget: Budget, agent: Agent): string {
+  switch (budget.scope) {
+    case "user":
+      return "Your monthly budget";
+    case "team":
+      return `The team budget for ${budget.domain}`;
+    case "agent":
+      return `The monthly budget for agent "${agent.name}"`;
+  }
+}
+
+function describeSpend(budget: Budget, spend: UsageSpend): string {
+  const parts: string[] = [];
+  if (budget.monthly_cost_limit_usd !== null) {
+    parts.push(`$${spend.cost_usd.toFixed(2)} of $${budget.monthly_cost_limit_usd.toFixed(2)}`);
+  }
+  if (budget.monthly_token_limit !== null) {
+    parts.push(`${spend.tokens.toLocaleString("en-US")} of ${budget.monthly_token_limit.toLocaleString("en-US")} tokens`);
+  }
+  return parts.join(", ");
+}
+
+function sumSteps(model: string, steps: ReadonlyArray<UsageStep>): UsageSpend {
+  let tokens = 0;
+  let cost_usd = 0;
+  for (const step of steps) {
+    const { usage } = step;
+    const inputTokens = usage.inputTokens ?? 0;
+    const outputTokens = usage.outputTokens ?? 0;
+    tokens += inputTokens + outputTokens;
+    cost_usd +=
+      estimateCost(getAnsweredModel(step, model), {
+        inputTokens,
+        outputTokens,
+        cachedInputTokens: usage.inputTokenDetails?.cacheReadTokens ?? usage.cachedInputTokens ?? 0,
+      }) ?? 0;
+  }
+  return { tokens, cost_usd };
+}
+
+/**
+ * Guards one agent run: pass stopWhen to the agent so it stops between steps
+ * once a hard limit is reached, then check exceeded after the run.
+ */
+export interface BudgetGuard {
+  stopWhen: StopCondition<ToolSet>;
+  /** Why the run was stopped early, or null if no limit was hit */
+  readonly exceeded: string | null;
+}
+
+/**
+ * Enforces monthly spend and token budgets at the user, team-domain and agent level.
+ */
+export class BudgetService {
+  constructor(private deps: BudgetServiceDeps) {}
+
+  /**
+   * Check the budgets that apply to a run before it starts. Throws
+   * BudgetExceededError when a hard limit is already reached, and sends a
+   * notification (once per month per budget) when a soft threshold is crossed.
+   */
+  async enforce(run: { user: User; agent: Agent }): Promise<BudgetGuard> {
+    const { month, start, end } = currentBudgetMonth();
+    const model = run.agent.model || DEFAULT_MODEL;
+    // Team agents count against their team's budget, whoever runs them
+    const domain = run.agent.pool_type === "team" && run.agent.domain ? run.agent.domain : getUserDomain(run.user.email);
+
+    const [userBudget, teamBudget, agentBudget] = await Promise.all([
+      this.deps.budgetRepository.find({ scope: "user", user_id: run.user.id }),
+      isPersonalDomain(domain) ? null : this.deps.budgetRepository.find({ scope: "team", domain }),
+      this.deps.budgetRepository.find({ scope: "agent", agent_id: run.agent.id }),
+    ]);
+
+    const checks: { budget: Budget; spend: UsageSpend }[] = [];
+    if (userBudget) {
+      checks.push({ budget: userBudget, spend: await this.deps.usageRepository.spendSince({ user_id: run.user.id }, start) });
+    }
+    if (teamBudget) {
+      checks.push({ budget: teamBudget, spend: await this.deps.usageRepository.spendSince({ domain }, start) });
+    }
+    if (agentBudget) {
+      checks.push({ budget: agentBudget, spend: await this.deps.usageRepository.spendSince({ agent_id: run.agent.id }, start) });
+    }
+
+    const resetsOn = end.toISOString().slice(0, 10);
+    const hardMessage = (budget: Budget, spend: UsageSpend) =>
+      `${budgetLabel(budget, run.agent)} has been reached (${describeSpend(budget, spend)}). ` +
+      `Raise the limit in settings or wait for it to reset on ${resetsOn}.`;
+
+    for (const { budget, spend } of checks) {
+      const { level, percent } = evaluateBudget(budget, spend);
+      if (level === "hard") {
+        throw new BudgetExceededError(hardMessage(budget, spend), budget.scope);
+      }
+      if (level === "soft" && budget.soft_alerted_month !== month) {
+        await this.notifySoftThreshold(run.user.id, run.agent, budget, spend, percent);
+        await this.deps.budgetRepository.markSoftAlerted(budget.id, month);
+      }
+    }
+
+    let exceeded: string | null = null;
+    return {
+      stopWhen: ({ steps }) => {
+        if (checks.length === 0) return false;
+        const runSpend = sumSteps(model, steps);
+        for (const { budget, spend } of checks) {
+          const total = { tokens: spend.tokens + runSpend.tokens, cost_usd: spend.cost_usd + runSpend.cost_usd };
+          if (evaluateBudget(budget, total).level === "hard") {
+            exceeded = `Stopped early: ${hardMessage(budget, total)}`;
+            return true;
+          }
+        }
+        return false;
+      },
+      get exceeded() {
+        return exceeded;
+      },
+    };
+  }
+
+  private async notifySoftThreshold(
+    userId: number,
+    agent: Agent,
+    budget: Budget,
+    spend: UsageSpend,
+    percent: number
+  ): Promise<void> {
+    if (!this.deps.notificationRepository) return;
+    try {
+      const label = budgetLabel(budget, agent);
+      await queueNotification(this.deps.notificationRepository, {
+        user_id: userId,
+        agent_id: agent.id,
+        message: `Budget alert: ${label.charAt(0).toLowerCase()}${label.slice(1)} is ${Math.floor(percent)}% used (${describeSpend(budget, spend)}).`,
+        urgency: "high",
+      });
+    } catch (err) {
+      console.error("Failed to send budget notification:", err);
+    }
+  }
+}
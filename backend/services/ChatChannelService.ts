@@ -0,0 +1,249 @@
+import type { ModelMessage } from "ai";
+import type { ChatChannel } from "../types/models";
+import type { ChatChannelRepository } from "../repositories/ChatChannelRepository";
+import type { ConversationRepository } from "../repositories/ConversationRepository";
+import type { UserRepository } from "../repositories/UserRepository";
+import type { UsageRepository } from "../repositories/UsageRepository";
+import type { ModelProviderRepository } from "../repositories/ModelProviderRepository";
+import type { TeamRepository } from "../repositories/TeamRepository";
+import { BudgetExceededError, type BudgetService } from "./BudgetService";
+import type { AgentFactory, CreateAgentOptions } from "./AgentFactory";
+import { DatabaseSession } from "./DatabaseSession";
+import { decrypt } from "../utils/encryption";
+import { createEmbeddingService } from "./EmbeddingService";
+import { recordUsage } from "../utils/usage";
+import { loadAgentApiKeys } from "../utils/modelProviders";
+import { getFinalModel } from "./ModelResolver";
+import {
+  createChatAdapters,
+  type ChatAdapters,
+  type InboundMessage,
+  type InboundRequest,
+  type PlatformCredentials,
+} from "../channels";
+
+interface ChatChannelServiceDeps {
+  chatChannelRepository: ChatChannelRepository;
+  agentFactory: AgentFactory;
+  conversationRepository: ConversationRepository;
+  userRepository: UserRepository;
+  usageRepository: UsageRepository | null;
+  budgetService: BudgetService | null;
+  modelProviderRepository: ModelProviderRepository | null;
+  teamRepository: TeamRepository | null;
+  encryptionSecret: string;
+  /** Platform adapters; defaults to the real platform APIs */
+  adapters?: ChatAdapters;
+}
+
+const PLATFORM_LABELS: Record<ChatChannel["platform"], string> = {
+  slack: "Slack",
+  discord: "Discord",
+  telegram: "Telegram",
+};
+
+const TITLE_PREVIEW_LENGTH = 50;
+
+/** The agent that answers in a platform channel: its route, else the channel's default */
+export function routeAgentId(channel: ChatChannel, platformChannelId: string): number {
+  return channel.routes.find((r) => r.platform_channel_id === platformChannelId)?.agent_id ?? channel.agent_id;
+}
+
+/**
+ * Answers messages sent to agents on chat platforms. Inbound requests are
+ * verified and acknowledged straight away; the agent runs afterwards (one
+ * message at a time per chat channel) and its answer is posted back in the
+ * thread the message came from.
+ */
+export class ChatChannelService {
+  private adapters: ChatAdapters;
+  private queues = new Map<number, Promise<void>>();
+
+  constructor(private deps: ChatChannelServiceDeps) {
+    this.adapters = deps.adapters ?? createChatAdapters();
+  }
+
+  /** Handle a request a platform sent to a chat channel's inbound URL */
+  async receive(inboundToken: string, request: InboundRequest): Promise<Response> {
+    const channel = await this.deps.chatChannelRepository.findByInboundToken(inboundToken);
+    if (!channel || !channel.enabled) {
+      return Response.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const adapter = this.adapters[channel.platform];
+    const credentials = await this.credentials(channel);
+    if (!adapter.verify(request, credentials)) {
+      return Response.json({ error: "Invalid signature" }, { status: 401 });
+    }
+
+    let event;
+    try {
+      event = adapter.parse(request);
+    } catch {
+      return Response.json({ error: "Invalid payload" }, { status: 400 });
+    }
+
+    const { message } = event;
+    if (message) {
+      this.enqueue(channel.id, () => this.answer(channel, credentials, message));
+    }
+    return event.response;
+  }
+
+  /** Resolves once every queued message has been answered */
+  async idle(): Promise<void> {
+    while (this.queues.size > 0) {
+      await Promise.all(this.queues.values());
+    }
+  }
+
+  async credentials(channel: ChatChannel): Promise<PlatformCredentials> {
+    return {
+      botToken: channel.bot_token ? await decrypt(channel.bot_token, this.deps.encryptionSecret) : null,
+      signingSecret: channel.signing_secret ? await decrypt(channel.signing_secret, this.deps.encryptionSecret) : null,
+      applicationId: channel.application_id,
+      publicKey: channel.public_key,
+    };
+  }
+
+  private enqueue(channelId: number, fn: () => Promise<void>): void {
+    const previous = this.queues.get(channelId) ?? Promise.resolve();
+    const next = previous.then(fn).catch((err) => {
+      console.error(`Chat channel ${channelId}: execution error:`, err);
+    });
+    this.queues.set(channelId, next);
+    void next.then(() => {
+      if (this.queues.get(channelId) === next) this.queues.delete(channelId);
+    });
+  }
+
+  private async answer(channel: ChatChannel, credentials: PlatformCredentials, message: InboundMessage): Promise<void> {
+    const adapter = this.adapters[channel.platform];
+
+    if (channel.allowed_user_ids.length > 0 && !channel.allowed_user_ids.includes(message.userId)) {
+      console.log(`Chat channel ${channel.id}: ignoring message from ${channel.platform} user ${message.userId}`);
+      await adapter.reply(message, "Sorry, you're not allowed to talk to this agent.", credentials);
+      return;
+    }
+
+    let text: string;
+    try {
+      text = await this.runAgent(channel, message);
+    } catch (err) {
+      console.error(`Chat channel ${channel.id}: agent run failed:`, err);
+      text = err instanceof BudgetExceededError ? err.message : "Sorry, I couldn't answer that right now.";
+    }
+    await adapter.reply(message, text || "(no response)", credentials);
+  }
+
+  private async runAgent(channel: ChatChannel, message: InboundMessage): Promise<string> {
+    // Load user for API keys
+    const user = await this.deps.userRepository.findById(channel.user_id);
+    if (!user) throw new Error("User not found");
+
+    // Resolve the agent routed to this platform channel
+    const agentConfig = await this.deps.agentFactory.getAgentConfigById(
+      channel.user_id,
+      routeAgentId(channel, message.platformChannelId)
+    );
+
+    // The team's keys for team agents, the user's own otherwise
+    const apiKeys = await loadAgentApiKeys(user, agentConfig, this.deps, this.deps.encryptionSecret);
+    if (
+      !apiKeys.openai && !apiKeys.anthropic && !apiKeys.google && !apiKeys.ollama_url &&
+      Object.keys(apiKeys.custom ?? {}).length === 0
+    ) {
+      throw new Error("No API keys configured");
+    }
+
+    const budgetGuard = this.deps.budgetService
+      ? await this.deps.budgetService.enforce({ user, agent: agentConfig })
+      : null;
+
+    const conversationId = await this.conversationFor(channel, message, agentConfig.id);
+
+    // Decrypt Google search credentials if available
+    let googleSearchApiKey: string | undefined;
+    if (user.google_search_api_key) {
+      googleSearchApiKey = await decrypt(user.google_search_api_key, this.deps.encryptionSecret);
+    }
+
+    const agentOptions: CreateAgentOptions = {
+      conversationId,
+      embeddingService: createEmbeddingService(user.embedding_model, apiKeys),
+      googleSearchApiKey,
+      googleSearchEngineId: user.google_search_engine_id,
+      domain: user.email.split("@")[1] || "",
+      stopWhen: budgetGuard?.stopWhen,
+    };
+
+    const agentInstance = await this.deps.agentFactory.createAgent(
+      user.id,
+      agentConfig.slug,
+      () => {},
+      apiKeys,
+      agentOptions
+    );
+
+    const session = new DatabaseSession(conversationId, this.deps.conversationRepository);
+    await session.addUserMessage(message.text);
+    const messages = await session.getMessages();
+
+    const result = await agentInstance.agent.generate({
+      messages,
+    });
+
+    await recordUsage(
+      this.deps.usageRepository,
+      {
+        user_id: user.id,
+        agent_id: agentInstance.id,
+        conversation_id: conversationId,
+        source: channel.platform,
+        model: agentInstance.model,
+      },
+      result.steps
+    );
+
+    await session.saveResponseMessages(
+      result.response.messages as ModelMessage[],
+      getFinalModel(result.steps, agentInstance.model)
+    );
+
+    // Stopped mid-run by a budget limit: post what the agent produced and the limit
+    if (budgetGuard?.exceeded) {
+      return result.text ? `${result.text}\n\n${budgetGuard.exceeded}` : budgetGuard.exceeded;
+    }
+
+    return result.text;
+  }
+
+  /** The thread's conversation, or a new one when there isn't one with this agent */
+  private async conversationFor(channel: ChatChannel, message: InboundMessage, agentId: number): Promise<number> {
+    const thread = await this.deps.chatChannelRepository.findThread(
+      channel.id,
+      message.platformChannelId,
+      message.threadId
+    );
+    if (thread) {
+      const conversation = await this.deps.conversationRepository.findById(thread.conversation_id);
+      if (conversation?.agent_id === agentId) return conversation.id;
+    }
+
+    const preview =
+      message.text.length > TITLE_PREVIEW_LENGTH ? `${message.text.slice(0, TITLE_PREVIEW_LENGTH)}...` : message.text;
+    const conversation = await this.deps.conversationRepository.create({
+      user_id: channel.user_id,
+      agent_id: agentId,
+      title: `[${PLATFORM_LABELS[channel.platform]}] ${message.userName ? `${message.userName}: ` : ""}${preview}`,
+      source: channel.platform,
+    });
+    await this.deps.chatChannelRepository.saveThread({
+      chat_channel_id: channel.id,
+      platform_channel_id: message.platformChannelId,
+      thread_id: message.threadId,
+      conversation_id: conversation.id,
+    });
+    return conversation.id;
+  }
+}
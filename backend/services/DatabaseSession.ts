@@ -2,13 +2,29 @@ import type { ModelMessage } from "ai";
 import type { ConversationRepository } from "../repositories/ConversationRepository";
 import type { Message } from "../types/models";
 
+/**
+ * Sibling information for a message on the active path, used by the chat UI
+ * to navigate between alternative branches.
+ */
+export interface MessageBranchInfo {
+  /** IDs of all messages sharing this message's parent, oldest first */
+  sibling_ids: number[];
+  /** Position of this message within sibling_ids */
+  index: number;
+}
+
 /**
  * Database-backed conversation history manager for Vercel AI SDK.
  * Converts between database messages and ModelMessage format.
+ *
+ * Messages form a tree (each message points at its parent); the session reads
+ * and appends to the conversation's active branch.
  */
 export class DatabaseSession {
   private conversationId: number;
   private conversationRepository: ConversationRepository;
+  /** Where the next saved reply starts a new branch (see branchFrom) */
+  private branchPoint: number | null = null;
 
   constructor(
     conversationId: number,
@@ -19,12 +35,12 @@ export class DatabaseSession {
   }
 
   /**
-   * Load conversation history as ModelMessage array for Vercel AI SDK
+   * Load the active branch as ModelMessage array for Vercel AI SDK
    */
   async getMessages(): Promise<ModelMessage[]> {
-    const messages = await this.conversationRepository.listMessages(
-      this.conversationId
-    );
+    const messages = this.branchPoint !== null
+      ? findPath(await this.conversationRepository.listMessages(this.conversationId), this.branchPoint)
+      : await this.conversationRepository.listActivePath(this.conversationId);
 
     return messages
       .map((msg) => messageToCore(msg))
@@ -32,22 +48,36 @@ export class DatabaseSession {
   }
 
   /**
-   * Save a user message to the database
+   * Save a user message to the database. By default it is appended to the
+   * active branch; pass parentId to start a new branch (null for a new root).
    */
-  async addUserMessage(content: string): Promise<void> {
+  async addUserMessage(content: string, parentId?: number | null): Promise<void> {
     await this.conversationRepository.addMessage({
       conversation_id: this.conversationId,
       role: "user",
       content,
       raw_data: { role: "user", content },
+      parent_id: parentId,
     });
   }
 
+  /**
+   * Answer from the given message rather than the end of the active branch:
+   * history is read up to it and the next saved reply starts a new branch
+   * after it. The active branch only moves once that reply is saved, so a
+   * failed run leaves it as it was. Used to regenerate a reply from an
+   * earlier user message.
+   */
+  branchFrom(messageId: number): void {
+    this.branchPoint = messageId;
+  }
+
   /**
    * Save response messages from a Vercel AI SDK result.
-   * Accepts the responseMessages from streamText/generateText results.
+   * Accepts the responseMessages from streamText/generateText results, and
+   * optionally the model that produced them (recorded on assistant messages).
    */
-  async saveResponseMessages(responseMessages: ModelMessage[]): Promise<void> {
+  async saveResponseMessages(responseMessages: ModelMessage[], model?: string): Promise<void> {
     for (const msg of responseMessages) {
       let contentText = "";
 
@@ -65,16 +95,87 @@ export class DatabaseSession {
           .join("\n");
       }
 
+      // The first reply after branchFrom starts the new branch; the rest follow it
+      const parentId = this.branchPoint ?? undefined;
+      this.branchPoint = null;
+
       await this.conversationRepository.addMessage({
         conversation_id: this.conversationId,
         role: msg.role === "tool" ? "assistant" : msg.role,
         content: contentText || "[non-text content]",
         raw_data: msg,
+        model: msg.role === "assistant" ? model : null,
+        parent_id: parentId,
       });
     }
   }
 }
 
+/**
+ * Follow the most recently created child from a message down to a leaf.
+ * Switching to a branch selects the latest continuation of that branch.
+ */
+export function findLatestLeaf(messages: Message[], messageId: number): number {
+  const children = new Map<number, Message[]>();
+  for (const msg of messages) {
+    if (msg.parent_id === null) continue;
+    const list = children.get(msg.parent_id) ?? [];
+    list.push(msg);
+    children.set(msg.parent_id, list);
+  }
+
+  let current = messageId;
+  const visited = new Set<number>();
+  while (!visited.has(current)) {
+    visited.add(current);
+    const next = children.get(current);
+    if (!next || next.length === 0) break;
+    current = next.reduce((latest, msg) => (compareMessages(msg, latest) > 0 ? msg : latest)).id;
+  }
+  return current;
+}
+
+/** Messages from the root down to the given message */
+export function findPath(messages: Message[], messageId: number): Message[] {
+  const byId = new Map(messages.map((msg) => [msg.id, msg]));
+  const path: Message[] = [];
+  const visited = new Set<number>();
+  let current = byId.get(messageId);
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.push(current);
+    current = current.parent_id !== null ? byId.get(current.parent_id) : undefined;
+  }
+  return path.reverse();
+}
+
+/**
+ * Branch information for each message on the active path that has siblings
+ */
+export function describeBranches(messages: Message[], path: Message[]): Map<number, MessageBranchInfo> {
+  const byParent = new Map<number | null, Message[]>();
+  for (const msg of messages) {
+    const list = byParent.get(msg.parent_id) ?? [];
+    list.push(msg);
+    byParent.set(msg.parent_id, list);
+  }
+
+  const branches = new Map<number, MessageBranchInfo>();
+  for (const msg of path) {
+    const siblings = (byParent.get(msg.parent_id) ?? []).sort(compareMessages);
+    if (siblings.length > 1) {
+      const siblingIds = siblings.map((s) => s.id);
+      branches.set(msg.id, { sibling_ids: siblingIds, index: siblingIds.indexOf(msg.id) });
+    }
+  }
+  return branches;
+}
+
+function compareMessages(a: Message, b: Message): number {
+  const diff = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  return diff !== 0 ? diff : a.id - b.id;
+}
+
 function messageToCore(msg: Message): ModelMessage | null {
   // If we have raw_data saved in Vercel AI SDK format, use it directly
   if (msg.raw_data) {
@@ -1,26 +1,102 @@
+import type { ApiKeys } from "./ModelResolver";
+
+/** Default embedding model for each built-in provider */
+export const DEFAULT_EMBEDDING_MODELS: Record<string, string> = {
+  openai: "openai:text-embedding-3-small",
+  google: "google:text-embedding-004",
+  ollama: "ollama:nomic-embed-text",
+};
+
 /**
- * Lightweight wrapper around OpenAI's embedding API.
- * Instantiated per-request with the user's decrypted API key.
+ * Generates embeddings for memory search with one configured model.
+ * Instantiated per-request with the user's decrypted credentials.
+ *
+ * Models use the same "provider:model-id" format as chat models. Supported
+ * providers: openai, google, ollama (/api/embeddings), plus any custom
+ * OpenAI-compatible provider in apiKeys.custom (/embeddings).
  */
 export class EmbeddingService {
-  private apiKey: string;
-  private model = "text-embedding-3-small";
+  /** Full "provider:model-id" string, stored alongside each vector */
+  readonly model: string;
+  private provider: string;
+  private modelId: string;
+  private apiKeys: ApiKeys;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(model: string, apiKeys: ApiKeys) {
+    const colonIndex = model.indexOf(":");
+    if (colonIndex === -1) {
+      throw new Error(
+        `Invalid embedding model format: "${model}". Expected "provider:model-id" (e.g., "ollama:nomic-embed-text")`
+      );
+    }
+    this.model = model;
+    this.provider = model.slice(0, colonIndex);
+    this.modelId = model.slice(colonIndex + 1);
+    this.apiKeys = apiKeys;
   }
 
   async generate(text: string): Promise<number[]> {
-    const response = await fetch("https://api.openai.com/v1/embeddings", {
+    switch (this.provider) {
+      case "openai":
+        if (!this.apiKeys.openai) throw new Error("OpenAI API key not configured");
+        return this.generateOpenAICompatible("https://api.openai.com/v1", {
+          Authorization: `Bearer ${this.apiKeys.openai}`,
+        }, text);
+      case "google":
+        return this.generateGoogle(text);
+      case "ollama":
+        return this.generateOllama(text);
+      default: {
+        const custom = this.apiKeys.custom?.[this.provider];
+        if (!custom) throw new Error(`Unknown embedding provider: "${this.provider}"`);
+
+        const headers: Record<string, string> = { ...custom.headers };
+        if (custom.api_key) {
+          headers[custom.api_key_header] = custom.api_key_header.toLowerCase() === "authorization"
+            ? `Bearer ${custom.api_key}`
+            : custom.api_key;
+        }
+        return this.generateOpenAICompatible(custom.base_url, headers, text);
+      }
+    }
+  }
+
+  private async generateOpenAICompatible(
+    baseUrl: string,
+    headers: Record<string, string>,
+    text: string
+  ): Promise<number[]> {
+    const data = await this.post(`${baseUrl.replace(/\/+$/, "")}/embeddings`, headers, {
+      model: this.modelId,
+      input: text,
+    });
+    return data.data[0].embedding;
+  }
+
+  private async generateGoogle(text: string): Promise<number[]> {
+    if (!this.apiKeys.google) throw new Error("Google AI API key not configured");
+    const data = await this.post(
+      `https://generativelanguage.googleapis.com/v1beta/models/${this.modelId}:embedContent`,
+      { "x-goog-api-key": this.apiKeys.google },
+      { content: { parts: [{ text }] } }
+    );
+    return data.embedding.values;
+  }
+
+  private async generateOllama(text: string): Promise<number[]> {
+    if (!this.apiKeys.ollama_url) throw new Error("Ollama URL not configured");
+    const data = await this.post(`${this.apiKeys.ollama_url.replace(/\/+$/, "")}/api/embeddings`, {}, {
+      model: this.modelId,
+      prompt: text,
+    });
+    return data.embedding;
+  }
+
+  private async post(url: string, headers: Record<string, string>, body: unknown): Promise<any> {
+    const response = await fetch(url, {
       method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: this.model,
-        input: text,
-      }),
+      headers: { ...headers, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
     });
 
     if (!response.ok) {
@@ -28,7 +104,42 @@ export class EmbeddingService {
       throw new Error(`Embedding API error ${response.status}: ${errorText}`);
     }
 
-    const data = await response.json();
-    return data.data[0].embedding;
+    return response.json();
+  }
+}
+
+/**
+ * Pick the embedding model for a set of credentials: the user's preferred
+ * model when its provider is configured, otherwise the first built-in
+ * provider with credentials (OpenAI, then Google, then Ollama).
+ * Returns null when no provider can embed.
+ */
+export function resolveEmbeddingModel(preferred: string | null | undefined, apiKeys: ApiKeys): string | null {
+  const available = (provider: string) => {
+    switch (provider) {
+      case "openai": return !!apiKeys.openai;
+      case "google": return !!apiKeys.google;
+      case "ollama": return !!apiKeys.ollama_url;
+      default: return !!apiKeys.custom?.[provider];
+    }
+  };
+
+  if (preferred) {
+    const provider = preferred.split(":")[0] ?? "";
+    if (available(provider)) return preferred;
   }
+
+  for (const [provider, model] of Object.entries(DEFAULT_EMBEDDING_MODELS)) {
+    if (available(provider)) return model;
+  }
+  return null;
+}
+
+/** Create the embedding service for a set of credentials, or null if none can embed */
+export function createEmbeddingService(
+  preferred: string | null | undefined,
+  apiKeys: ApiKeys
+): EmbeddingService | null {
+  const model = resolveEmbeddingModel(preferred, apiKeys);
+  return model ? new EmbeddingService(model, apiKeys) : null;
 }
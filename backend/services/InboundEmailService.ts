@@ -0,0 +1,351 @@
+import type { ModelMessage } from "ai";
+import type { EmailInbox, User } from "../types/models";
+import type { EmailInboxRepository } from "../repositories/EmailInboxRepository";
+import type { AgentRepository } from "../repositories/AgentRepository";
+import type { ConversationRepository } from "../repositories/ConversationRepository";
+import type { UserRepository } from "../repositories/UserRepository";
+import type { UsageRepository } from "../repositories/UsageRepository";
+import type { ModelProviderRepository } from "../repositories/ModelProviderRepository";
+import type { NotificationRepository } from "../repositories/NotificationRepository";
+import type { TeamRepository } from "../repositories/TeamRepository";
+import { BudgetExceededError, type BudgetService } from "./BudgetService";
+import type { AgentFactory, CreateAgentOptions } from "./AgentFactory";
+import { DatabaseSession } from "./DatabaseSession";
+import { DEFAULT_FROM, findTeamMailTransport } from "./NotificationService";
+import { decrypt } from "../utils/encryption";
+import { createEmbeddingService } from "./EmbeddingService";
+import { recordUsage } from "../utils/usage";
+import { loadAgentApiKeys } from "../utils/modelProviders";
+import { getFinalModel } from "./ModelResolver";
+import {
+  addressOf,
+  createMailTransport,
+  formatAddress,
+  isAutomatedEmail,
+  parseEmail,
+  parseInboundAddress,
+  renderReplyEmail,
+  senderRejection,
+  stripQuotedReply,
+  type EmailAttachment,
+  type InboundDelivery,
+  type ParsedEmail,
+} from "../mail";
+
+interface InboundEmailServiceDeps {
+  emailInboxRepository: EmailInboxRepository;
+  agentRepository: AgentRepository;
+  agentFactory: AgentFactory;
+  conversationRepository: ConversationRepository;
+  userRepository: UserRepository;
+  usageRepository: UsageRepository | null;
+  budgetService: BudgetService | null;
+  modelProviderRepository: ModelProviderRepository | null;
+  /** The user's notification mail transport sends the replies */
+  notificationRepository: NotificationRepository;
+  teamRepository: TeamRepository | null;
+  encryptionSecret: string;
+  /** Domain of the inbound addresses; null takes mail for any domain */
+  domain: string | null;
+  /** Public URL of the app, for links to the conversation */
+  frontendUrl: string;
+  /** Where the file mail transport writes its mailboxes */
+  mailDir: string;
+}
+
+export type InboundEmailResult =
+  | { status: "queued"; recipient: string }
+  | { status: "ignored" | "rejected"; reason: string };
+
+interface InboundRoute {
+  inbox: EmailInbox;
+  agentId: number;
+  /** The address the mail was sent to; replies come back to it */
+  address: string;
+}
+
+const TITLE_PREVIEW_LENGTH = 50;
+/** Text attachments are shown to the agent up to this many characters each */
+const ATTACHMENT_TEXT_LIMIT = 20_000;
+const TEXT_ATTACHMENT_TYPES = /^(text\/|application\/(json|xml|csv|x-yaml|yaml))/;
+
+/** What the agent is asked: the sender, subject, body and attachments */
+export function emailPrompt(email: ParsedEmail, body: string): string {
+  const from = email.from ? formatAddress(email.from.name, email.from.address) : "unknown sender";
+  const sections = [`Email from ${from}`, `Subject: ${email.subject || "(no subject)"}`, "", body || "(no text)"];
+
+  if (email.attachments.length > 0) {
+    sections.push("", "Attachments:");
+    for (const attachment of email.attachments) {
+      sections.push(`- ${attachment.filename} (${attachment.contentType}, ${formatSize(attachment)})`);
+    }
+    for (const attachment of email.attachments.filter((a) => TEXT_ATTACHMENT_TYPES.test(a.contentType))) {
+      const text = attachment.content.toString("utf8");
+      sections.push(
+        "",
+        `--- ${attachment.filename} ---`,
+        text.length > ATTACHMENT_TEXT_LIMIT ? `${text.slice(0, ATTACHMENT_TEXT_LIMIT)}\n[truncated]` : text
+      );
+    }
+  }
+  return sections.join("\n");
+}
+
+function formatSize(attachment: EmailAttachment): string {
+  const bytes = attachment.content.length;
+  return bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : bytes >= 1024 ? `${Math.round(bytes / 1024)} KB` : `${bytes} B`;
+}
+
+/**
+ * Turns email sent to users' inbox addresses into agent conversations.
+ * Mail is checked and accepted straight away; the agent runs afterwards
+ * (one message at a time per inbox) and its answer is emailed back through
+ * the user's notification mail transport, threaded onto the original.
+ */
+export class InboundEmailService {
+  private queues = new Map<number, Promise<void>>();
+
+  constructor(private deps: InboundEmailServiceDeps) {}
+
+  /** The inbox and agent an address reaches, if any (SMTP checks recipients with this) */
+  async resolve(address: string): Promise<InboundRoute | null> {
+    const recipient = parseInboundAddress(address, this.deps.domain);
+    if (!recipient) return null;
+    const inbox = await this.deps.emailInboxRepository.findByAlias(recipient.alias);
+    if (!inbox || !inbox.enabled) return null;
+
+    if (!recipient.agentSlug) return { inbox, agentId: inbox.agent_id, address: address.toLowerCase() };
+    const agent = await this.deps.agentRepository.findBySlug(inbox.user_id, recipient.agentSlug);
+    return agent ? { inbox, agentId: agent.id, address: address.toLowerCase() } : null;
+  }
+
+  /**
+   * Take a raw RFC 822 message with what is known of its delivery: the SMTP
+   * envelope, or what a mail provider's webhook reports.
+   */
+  async receive(raw: string | Uint8Array, delivery: InboundDelivery = {}): Promise<InboundEmailResult> {
+    const email = parseEmail(raw);
+
+    const candidates = delivery.to ?? [
+      ...email.to.map((a) => a.address),
+      ...email.cc.map((a) => a.address),
+      ...[email.headers["delivered-to"], email.headers["x-original-to"]]
+        .filter((a): a is string => !!a)
+        .map((a) => addressOf(a).toLowerCase()),
+    ];
+    let route: InboundRoute | null = null;
+    for (const address of candidates) {
+      route = await this.resolve(address);
+      if (route) break;
+    }
+    if (!route) return { status: "rejected", reason: "No inbox for the recipients" };
+
+    const sender = email.from;
+    if (!sender) return { status: "rejected", reason: "Message has no sender" };
+    if (isAutomatedEmail(email)) return { status: "ignored", reason: "Automated message" };
+
+    const user = await this.deps.userRepository.findById(route.inbox.user_id);
+    if (!user) return { status: "rejected", reason: "No inbox for the recipients" };
+    const rejection = senderRejection(route.inbox, sender.address, delivery, user.email);
+    if (rejection) {
+      console.log(`Email inbox ${route.inbox.id}: ignoring mail from ${sender.address}: ${rejection}`);
+      return { status: "ignored", reason: rejection };
+    }
+
+    // Mail APIs retry webhooks they think failed
+    if (email.messageId && (await this.deps.emailInboxRepository.findThread(route.inbox.id, [email.messageId]))) {
+      return { status: "ignored", reason: "Already received" };
+    }
+
+    const answering = route;
+    this.enqueue(route.inbox.id, () => this.answer(answering, user, email));
+    return { status: "queued", recipient: route.address };
+  }
+
+  /** Resolves once every queued email has been answered */
+  async idle(): Promise<void> {
+    while (this.queues.size > 0) {
+      await Promise.all(this.queues.values());
+    }
+  }
+
+  private enqueue(inboxId: number, fn: () => Promise<void>): void {
+    const previous = this.queues.get(inboxId) ?? Promise.resolve();
+    const next = previous.then(fn).catch((err) => {
+      console.error(`Email inbox ${inboxId}: execution error:`, err);
+    });
+    this.queues.set(inboxId, next);
+    void next.then(() => {
+      if (this.queues.get(inboxId) === next) this.queues.delete(inboxId);
+    });
+  }
+
+  private async answer(route: InboundRoute, user: User, email: ParsedEmail): Promise<void> {
+    const { conversationId, continued } = await this.conversationFor(route, email);
+    const agent = await this.deps.agentRepository.findById(route.agentId);
+
+    let text: string;
+    try {
+      text = await this.runAgent(user, route.agentId, conversationId, emailPrompt(email, continued ? stripQuotedReply(email.text) : email.text));
+    } catch (err) {
+      console.error(`Email inbox ${route.inbox.id}: agent run failed:`, err);
+      text = err instanceof BudgetExceededError ? err.message : "Sorry, I couldn't answer that right now.";
+    }
+
+    await this.reply(route, user, email, {
+      agentName: agent?.name ?? "Your assistant",
+      text: text || "(no response)",
+      link: agent ? `${this.deps.frontendUrl.replace(/\/$/, "")}/chat/${agent.slug}?conversation=${conversationId}` : this.deps.frontendUrl,
+      conversationId,
+    });
+  }
+
+  private async reply(
+    route: InboundRoute,
+    user: User,
+    email: ParsedEmail,
+    answer: { agentName: string; text: string; link: string; conversationId: number }
+  ): Promise<void> {
+    const settings = await this.deps.notificationRepository.getSettings(user.id);
+    const transportConfig = settings?.mail_transport ?? (await findTeamMailTransport(this.deps, user.id));
+    const transport = await createMailTransport(transportConfig, {
+      encryptionSecret: this.deps.encryptionSecret,
+      mailDir: this.deps.mailDir,
+    });
+
+    const from = transportConfig?.from ?? DEFAULT_FROM;
+    const domain = this.deps.domain ?? (addressOf(from).split("@")[1] || "localhost");
+    const messageId = `<${crypto.randomUUID()}@${domain}>`;
+    const rendered = renderReplyEmail({
+      agentName: answer.agentName,
+      message: answer.text,
+      subject: email.subject,
+      link: { url: answer.link, label: "Open the conversation" },
+    });
+
+    await transport.send({
+      from: formatAddress(answer.agentName, addressOf(from)),
+      to: [formatAddress(email.from!.name, email.from!.address)],
+      replyTo: route.address,
+      messageId,
+      inReplyTo: email.messageId ?? undefined,
+      references: [...email.references, ...(email.messageId ? [email.messageId] : [])],
+      ...rendered,
+    });
+
+    // Replies to the reply quote its Message-ID
+    await this.deps.emailInboxRepository.saveThread({
+      email_inbox_id: route.inbox.id,
+      message_id: messageId,
+      conversation_id: answer.conversationId,
+    });
+  }
+
+  /** The thread's conversation, or a new one when the mail doesn't continue one with this agent */
+  private async conversationFor(route: InboundRoute, email: ParsedEmail): Promise<{ conversationId: number; continued: boolean }> {
+    const earlier = [...(email.inReplyTo ? [email.inReplyTo] : []), ...email.references];
+    let conversationId: number | null = null;
+
+    const thread = await this.deps.emailInboxRepository.findThread(route.inbox.id, earlier);
+    if (thread) {
+      const conversation = await this.deps.conversationRepository.findById(thread.conversation_id);
+      if (conversation?.agent_id === route.agentId) conversationId = conversation.id;
+    }
+    const continued = conversationId !== null;
+
+    if (conversationId === null) {
+      const subject = email.subject || "(no subject)";
+      const preview = subject.length > TITLE_PREVIEW_LENGTH ? `${subject.slice(0, TITLE_PREVIEW_LENGTH)}...` : subject;
+      const conversation = await this.deps.conversationRepository.create({
+        user_id: route.inbox.user_id,
+        agent_id: route.agentId,
+        title: `[Email] ${preview}`,
+        source: "email",
+      });
+      conversationId = conversation.id;
+    }
+
+    if (email.messageId) {
+      await this.deps.emailInboxRepository.saveThread({
+        email_inbox_id: route.inbox.id,
+        message_id: email.messageId,
+        conversation_id: conversationId,
+      });
+    }
+    return { conversationId, continued };
+  }
+
+  private async runAgent(user: User, agentId: number, conversationId: number, prompt: string): Promise<string> {
+    const agentConfig = await this.deps.agentFactory.getAgentConfigById(user.id, agentId);
+
+    // The team's keys for team agents, the user's own otherwise
+    const apiKeys = await loadAgentApiKeys(user, agentConfig, this.deps, this.deps.encryptionSecret);
+    if (
+      !apiKeys.openai && !apiKeys.anthropic && !apiKeys.google && !apiKeys.ollama_url &&
+      Object.keys(apiKeys.custom ?? {}).length === 0
+    ) {
+      throw new Error("No API keys configured");
+    }
+
+    const budgetGuard = this.deps.budgetService
+      ? await this.deps.budgetService.enforce({ user, agent: agentConfig })
+      : null;
+
+    // Decrypt Google search credentials if available
+    let googleSearchApiKey: string | undefined;
+    if (user.google_search_api_key) {
+      googleSearchApiKey = await decrypt(user.google_search_api_key, this.deps.encryptionSecret);
+    }
+
+    const agentOptions: CreateAgentOptions = {
+      conversationId,
+      embeddingService: createEmbeddingService(user.embedding_model, apiKeys),
+      googleSearchApiKey,
+      googleSearchEngineId: user.google_search_engine_id,
+      domain: user.email.split("@")[1] || "",
+      stopWhen: budgetGuard?.stopWhen,
+    };
+
+    const agentInstance = await this.deps.agentFactory.createAgent(
+      user.id,
+      agentConfig.slug,
+      () => {},
+      apiKeys,
+      agentOptions
+    );
+
+    const session = new DatabaseSession(conversationId, this.deps.conversationRepository);
+    await session.addUserMessage(prompt);
+    const messages = await session.getMessages();
+
+    const result = await agentInstance.agent.generate({
+      messages,
+    });
+
+    await recordUsage(
+      this.deps.usageRepository,
+      {
+        user_id: user.id,
+        agent_id: agentInstance.id,
+        conversation_id: conversationId,
+        source: "email",
+        model: agentInstance.model,
+      },
+      result.steps
+    );
+
+    await session.saveResponseMessages(
+      result.response.messages as ModelMessage[],
+      getFinalModel(result.steps, agentInstance.model)
+    );
+
+    // Stopped mid-run by a budget limit: reply with what the agent produced and the limit
+    if (budgetGuard?.exceeded) {
+      return result.text ? `${result.text}\n\n${budgetGuard.exceeded}` : budgetGuard.exceeded;
+    }
+
+    return result.text;
+  }
+}
@@ -0,0 +1,359 @@
+import { generateText, Output } from "ai";
+import { z } from "zod";
+import type { AgentMemory, Conversation } from "../types/models";
+import type { AgentRepository } from "../repositories/AgentRepository";
+import type { ConversationRepository } from "../repositories/ConversationRepository";
+import type { MemoryRepository } from "../repositories/MemoryRepository";
+import type { UserRepository } from "../repositories/UserRepository";
+import type { UsageRepository } from "../repositories/UsageRepository";
+import type { ModelProviderRepository } from "../repositories/ModelProviderRepository";
+import type { TeamRepository } from "../repositories/TeamRepository";
+import type { BudgetService } from "./BudgetService";
+import { createEmbeddingService, type EmbeddingService } from "./EmbeddingService";
+import { DEFAULT_MODEL, resolveModelChain } from "./ModelResolver";
+import { CORE_LIMIT, WORKING_LIMIT } from "../tools/memoryTools";
+import { loadAgentApiKeys } from "../utils/modelProviders";
+import { recordUsage } from "../utils/usage";
+
+interface MemoryConsolidationServiceDeps {
+  conversationRepository: ConversationRepository;
+  agentRepository: AgentRepository;
+  memoryRepository: MemoryRepository;
+  userRepository: UserRepository;
+  usageRepository: UsageRepository | null;
+  budgetService: BudgetService | null;
+  modelProviderRepository: ModelProviderRepository | null;
+  teamRepository: TeamRepository | null;
+  encryptionSecret: string;
+}
+
+/** How long a conversation must be quiet before it is consolidated */
+const IDLE_MS = 15 * 60_000;
+
+/** Cosine similarity above which a proposed memory is treated as a duplicate of an existing one */
+export const NEAR_DUPLICATE_SIMILARITY = 0.9;
+
+const MAX_OPERATIONS = 10;
+const MAX_TRANSCRIPT_CHARS = 16_000;
+const MAX_MESSAGE_CHARS = 2_000;
+
+const operationSchema = z.object({
+  action: z.enum(["create", "update", "merge"]),
+  key: z.string().describe("Short snake_case key; for update/merge, the existing key to write"),
+  value: z.string().describe("The full memory text to store"),
+  tier: z.enum(["core", "working"]).describe("core = lasting identity-level facts; working = active context"),
+  merge_keys: z
+    .array(z.string())
+    .describe("For merge: other existing keys folded into `key` and removed. Empty otherwise."),
+  reason: z.string().describe("One sentence on why this change is worth keeping"),
+});
+
+const proposalSchema = z.object({
+  operations: z.array(operationSchema),
+});
+
+export type ConsolidationOperation = z.infer<typeof operationSchema>;
+
+/**
+ * Clean up the model's proposals against the agent's current memories:
+ * trims and drops empty entries, never touches memories the user wrote,
+ * turns creates of existing keys into updates (and vice versa), drops no-op
+ * updates, keeps only valid merge sources and caps the number of changes.
+ */
+export function normalizeOperations(
+  operations: ConsolidationOperation[],
+  existing: AgentMemory[]
+): ConsolidationOperation[] {
+  const byKey = new Map(existing.map((m) => [m.key, m]));
+  const seen = new Set<string>();
+  const result: ConsolidationOperation[] = [];
+
+  for (const op of operations) {
+    const key = op.key.trim().slice(0, 255);
+    const value = op.value.trim();
+    if (!key || !value || seen.has(key)) continue;
+
+    const target = byKey.get(key);
+    if (target?.author === "user") continue;
+
+    const mergeKeys = op.action === "merge"
+      ? [...new Set(op.merge_keys.map((k) => k.trim()))].filter((k) => {
+          const source = byKey.get(k);
+          return k !== key && !seen.has(k) && source !== undefined && source.author !== "user";
+        })
+      : [];
+
+    const action: ConsolidationOperation["action"] = mergeKeys.length > 0 ? "merge" : target ? "update" : "create";
+    if (action === "update" && target!.value === value) continue;
+
+    seen.add(key);
+    mergeKeys.forEach((k) => seen.add(k));
+    result.push({ action, key, value, tier: op.tier, merge_keys: mergeKeys, reason: op.reason.trim() });
+    if (result.length >= MAX_OPERATIONS) break;
+  }
+
+  return result;
+}
+
+function buildPrompt(memories: AgentMemory[], transcript: string): string {
+  const memoryList = memories.length > 0
+    ? memories.map((m) => `- [${m.tier}] ${m.key}: ${m.value}`).join("\n")
+    : "(none)";
+
+  return `## Existing Memories
+${memoryList}
+
+## New Conversation Messages
+${transcript}
+
+## Your Task
+Decide which durable facts from the new messages are worth remembering for future conversations:
+preferences, personal details, ongoing projects, decisions, names, IDs and deadlines.
+- "create" a memory for a new fact.
+- "update" an existing key when the conversation changes or extends it.
+- "merge" when several existing memories say overlapping things: write the combined value under \`key\` and list the others in \`merge_keys\`.
+Skip small talk, one-off requests and anything already captured. Return no operations if nothing is worth keeping.`;
+}
+
+/**
+ * Background job that extracts and consolidates agent memories from
+ * conversations, so facts are kept even when the agent forgets to call
+ * `remember`. Runs once a conversation has been idle for a while, and right
+ * after scheduled runs.
+ *
+ * The agent's own model proposes creates, updates and merges; near-duplicates
+ * are caught with embeddings; tier limits from the memory tools apply. Every
+ * change is written with author 'consolidator' and logged to memory_changes so
+ * users can review and revert it.
+ */
+export class MemoryConsolidationService {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private inProgress = new Set<number>();
+
+  constructor(private deps: MemoryConsolidationServiceDeps) {}
+
+  start(intervalMs = 60_000) {
+    console.log(`Memory consolidation started (polling every ${intervalMs / 1000}s)`);
+    this.tick(intervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    console.log("Memory consolidation stopped");
+  }
+
+  private tick(intervalMs: number) {
+    this.timer = setTimeout(async () => {
+      if (!this.running) {
+        this.running = true;
+        try {
+          await this.poll();
+        } catch (err) {
+          console.error("Memory consolidation poll error:", err);
+        } finally {
+          this.running = false;
+        }
+      }
+      this.tick(intervalMs);
+    }, intervalMs);
+  }
+
+  private async poll() {
+    const idle = await this.deps.conversationRepository.listPendingConsolidation(
+      new Date(Date.now() - IDLE_MS),
+      10
+    );
+    for (const conversation of idle) {
+      await this.consolidateConversation(conversation.id);
+    }
+  }
+
+  /**
+   * Consolidate messages added to a conversation since it was last
+   * consolidated. Errors are logged, not thrown.
+   */
+  async consolidateConversation(conversationId: number): Promise<void> {
+    if (this.inProgress.has(conversationId)) return;
+    this.inProgress.add(conversationId);
+
+    try {
+      const conversation = await this.deps.conversationRepository.findById(conversationId);
+      if (!conversation) return;
+
+      try {
+        await this.consolidate(conversation);
+      } finally {
+        // Mark even on failure so a broken conversation isn't retried every poll
+        await this.deps.conversationRepository.markConsolidated(conversation.id, conversation.updated_at);
+      }
+    } catch (err) {
+      console.error(`[consolidation] Conversation ${conversationId} failed:`, err);
+    } finally {
+      this.inProgress.delete(conversationId);
+    }
+  }
+
+  private async consolidate(conversation: Conversation): Promise<void> {
+    const agent = await this.deps.agentRepository.findById(conversation.agent_id);
+    if (!agent) return;
+    const builtInTools = await this.deps.agentRepository.listBuiltInTools(agent.id);
+    if (!builtInTools.includes("memory")) return;
+
+    const since = conversation.consolidated_at ? new Date(conversation.consolidated_at).getTime() : 0;
+    const messages = (await this.deps.conversationRepository.listActivePath(conversation.id)).filter(
+      (m) => (m.role === "user" || m.role === "assistant") && m.content.trim() &&
+        new Date(m.created_at).getTime() > since
+    );
+    if (!messages.some((m) => m.role === "user")) return;
+
+    const transcript = messages
+      .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content.slice(0, MAX_MESSAGE_CHARS)}`)
+      .join("\n\n")
+      .slice(-MAX_TRANSCRIPT_CHARS);
+
+    const user = await this.deps.userRepository.findById(conversation.user_id);
+    if (!user) return;
+
+    // Consolidation spends tokens too, so it stops with the agent's budget
+    if (this.deps.budgetService) {
+      try {
+        await this.deps.budgetService.enforce({ user, agent });
+      } catch (err) {
+        console.log(`[consolidation] Skipping conversation ${conversation.id}: ${err instanceof Error ? err.message : err}`);
+        return;
+      }
+    }
+
+    // Team agents run on the team's keys, as they do in chat
+    const apiKeys = await loadAgentApiKeys(user, agent, this.deps, this.deps.encryptionSecret);
+    const modelString = agent.model || DEFAULT_MODEL;
+    const model = resolveModelChain([modelString, ...(agent.fallback_models ?? [])], apiKeys);
+    const memories = await this.deps.memoryRepository.listByAgent(agent.id);
+
+    const result = await generateText({
+      model,
+      system: `You maintain the long-term memory of an AI assistant called "${agent.name}".`,
+      prompt: buildPrompt(memories, transcript),
+      output: Output.object({ schema: proposalSchema }),
+    });
+
+    await recordUsage(
+      this.deps.usageRepository,
+      {
+        user_id: user.id,
+        agent_id: agent.id,
+        conversation_id: conversation.id,
+        source: conversation.source,
+        model: modelString,
+      },
+      result.steps
+    );
+
+    const embeddingService = createEmbeddingService(user.embedding_model, apiKeys);
+    let operations = normalizeOperations(result.output.operations, memories);
+    if (embeddingService) {
+      operations = await this.resolveNearDuplicates(agent.id, operations, memories, embeddingService);
+    }
+
+    for (const op of operations) {
+      await this.apply(agent.id, conversation.id, op, embeddingService);
+    }
+
+    if (operations.length > 0) {
+      console.log(`[consolidation] Conversation ${conversation.id}: ${operations.length} memory change(s) for agent ${agent.slug}`);
+    }
+  }
+
+  /**
+   * Turn creates that are near-duplicates of an existing memory into updates
+   * of that memory, or drop them when the existing memory belongs to the user
+   */
+  private async resolveNearDuplicates(
+    agentId: number,
+    operations: ConsolidationOperation[],
+    memories: AgentMemory[],
+    embeddingService: EmbeddingService
+  ): Promise<ConsolidationOperation[]> {
+    const result: ConsolidationOperation[] = [];
+    const taken = new Set(operations.flatMap((op) => [op.key, ...op.merge_keys]));
+
+    for (const op of operations) {
+      if (op.action !== "create") {
+        result.push(op);
+        continue;
+      }
+      try {
+        const emb = await embeddingService.generate(`${op.key}: ${op.value}`);
+        const [match] = await this.deps.memoryRepository.semanticSearch(agentId, emb, embeddingService.model, 1);
+        if (!match || match.similarity < NEAR_DUPLICATE_SIMILARITY) {
+          result.push(op);
+          continue;
+        }
+        const existing = memories.find((m) => m.key === match.key);
+        if (!existing || existing.author === "user" || taken.has(match.key)) continue;
+        taken.add(match.key);
+        result.push({ ...op, action: "update", key: match.key });
+      } catch (err) {
+        console.error("[consolidation] Near-duplicate check failed:", err);
+        result.push(op);
+      }
+    }
+    return result;
+  }
+
+  private async apply(
+    agentId: number,
+    conversationId: number,
+    op: ConsolidationOperation,
+    embeddingService: EmbeddingService | null
+  ): Promise<void> {
+    const repo = this.deps.memoryRepository;
+    const existing = await repo.get(agentId, op.key);
+
+    // Respect tier limits: never demote core, fall back to working when core is full
+    let tier: AgentMemory["tier"] = existing?.tier === "core" ? "core" : op.tier;
+    if (tier === "core" && existing?.tier !== "core" && (await repo.countByTier(agentId, "core")) >= CORE_LIMIT) {
+      tier = "working";
+    }
+    if (tier === "working" && existing?.tier !== "working" && (await repo.countByTier(agentId, "working")) >= WORKING_LIMIT) {
+      await repo.demoteLRU(agentId, "working", 1);
+    }
+
+    await repo.set(agentId, { key: op.key, value: op.value, tier, author: "consolidator" });
+    await repo.logChange({
+      agent_id: agentId,
+      conversation_id: conversationId,
+      action: existing ? "updated" : "created",
+      memory_key: op.key,
+      value: op.value,
+      previous: existing ? { value: existing.value, tier: existing.tier, author: existing.author } : null,
+      reason: op.reason,
+    });
+
+    for (const mergeKey of op.merge_keys) {
+      const source = await repo.get(agentId, mergeKey);
+      if (!source) continue;
+      await repo.delete(agentId, mergeKey);
+      await repo.logChange({
+        agent_id: agentId,
+        conversation_id: conversationId,
+        action: "removed",
+        memory_key: mergeKey,
+        value: null,
+        previous: { value: source.value, tier: source.tier, author: source.author },
+        merged_into: op.key,
+        reason: op.reason,
+      });
+    }
+
+    if (embeddingService) {
+      embeddingService.generate(`${op.key}: ${op.value}`)
+        .then((emb) => repo.setEmbedding(agentId, op.key, emb, embeddingService.model))
+        .catch((err) => console.error("Embedding generation failed:", err));
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import type { Agent, AgentMemory, MemorySearchSettings } from "../types/models";
+import type { MemoryRepository, KeywordMemoryMatch } from "../repositories/MemoryRepository";
+import type { EmbeddingService } from "./EmbeddingService";
+
+/**
+ * Relative weight of each ranking signal. Weights need not sum to 1; scores
+ * are normalised by the total of the weights in play. Agents override them
+ * with their memory_search_weights setting.
+ */
+export interface MemorySearchWeights {
+  /** Full-text rank plus exact key/substring matches (names, IDs) */
+  keyword: number;
+  /** Cosine similarity to the query embedding */
+  vector: number;
+  /** How often the memory has been used (access_count) */
+  frequency: number;
+  /** How recently the memory was used (last_accessed_at) */
+  recency: number;
+  /** Days for the recency score to halve */
+  recencyHalfLifeDays: number;
+}
+
+export const DEFAULT_MEMORY_SEARCH_WEIGHTS: MemorySearchWeights = {
+  keyword: 0.4,
+  vector: 0.4,
+  frequency: 0.05,
+  recency: 0.15,
+  recencyHalfLifeDays: 30,
+};
+
+/** Bounds for an agent's memory_search_weights setting */
+export const MAX_MEMORY_SEARCH_WEIGHT = 10;
+export const MAX_RECENCY_HALF_LIFE_DAYS = 3650;
+
+/** An agent's memory_search_weights setting as ranking weights; unset fields keep the defaults */
+export function searchWeightsFor(agent: Pick<Agent, "memory_search_weights">): Partial<MemorySearchWeights> {
+  const raw = agent.memory_search_weights as MemorySearchSettings | string | null | undefined;
+  const settings: MemorySearchSettings | null = typeof raw === "string" ? JSON.parse(raw) : raw ?? null;
+  if (!settings) return {};
+
+  const weights: Partial<MemorySearchWeights> = {};
+  if (settings.keyword_weight !== undefined) weights.keyword = settings.keyword_weight;
+  if (settings.vector_weight !== undefined) weights.vector = settings.vector_weight;
+  if (settings.frequency_weight !== undefined) weights.frequency = settings.frequency_weight;
+  if (settings.recency_weight !== undefined) weights.recency = settings.recency_weight;
+  if (settings.recency_half_life_days !== undefined) weights.recencyHalfLifeDays = settings.recency_half_life_days;
+  return weights;
+}
+
+/** access_count at which the frequency score saturates */
+const FREQUENCY_SATURATION = 50;
+
+/** Candidates fetched from each source per requested result, before re-ranking */
+const CANDIDATE_FACTOR = 4;
+
+export interface RankedMemory extends AgentMemory {
+  score: number;
+  similarity: number | null;
+  keyword_score: number;
+}
+
+export interface RankMemoriesOptions {
+  limit: number;
+  weights?: Partial<MemorySearchWeights>;
+  /** Whether the query was embedded; when false the vector weight is left out entirely */
+  hasEmbedding: boolean;
+  now?: number;
+}
+
+/** Keyword signal in [0, 1]: an exact key match beats a substring match beats a full-text rank */
+export function keywordScore(match: Pick<KeywordMemoryMatch, "text_rank" | "substring_match" | "key_match">): number {
+  if (match.key_match) return 1;
+  const rank = Math.min(1, Math.max(0, match.text_rank));
+  return match.substring_match ? Math.max(0.75, rank) : rank;
+}
+
+/** Recency signal in [0, 1], halving every half-life */
+export function recencyScore(lastAccessedAt: number, now: number, halfLifeDays: number): number {
+  if (!lastAccessedAt) return 0;
+  const ageDays = Math.max(0, now - lastAccessedAt) / 86_400_000;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/** Frequency signal in [0, 1], logarithmic so a few uses count more than the hundredth */
+export function frequencyScore(accessCount: number): number {
+  return Math.min(1, Math.log1p(Math.max(0, accessCount)) / Math.log1p(FREQUENCY_SATURATION));
+}
+
+/**
+ * Merge keyword and vector candidates and order them by a weighted blend of
+ * keyword, vector, frequency and recency scores. Only memories that matched
+ * the query (by keyword or as a vector neighbour) are returned.
+ */
+export function rankMemories(
+  keywordHits: KeywordMemoryMatch[],
+  vectorHits: (AgentMemory & { similarity: number })[],
+  options: RankMemoriesOptions
+): RankedMemory[] {
+  const weights = { ...DEFAULT_MEMORY_SEARCH_WEIGHTS, ...options.weights };
+  const now = options.now ?? Date.now();
+  const vectorWeight = options.hasEmbedding ? weights.vector : 0;
+  const totalWeight = weights.keyword + vectorWeight + weights.frequency + weights.recency;
+
+  const candidates = new Map<number, { memory: AgentMemory; keyword: number; similarity: number | null }>();
+  for (const hit of keywordHits) {
+    const { text_rank, substring_match, key_match, ...memory } = hit;
+    candidates.set(hit.id, { memory, keyword: keywordScore(hit), similarity: null });
+  }
+  for (const hit of vectorHits) {
+    const { similarity, ...memory } = hit;
+    const existing = candidates.get(hit.id);
+    if (existing) existing.similarity = similarity;
+    else candidates.set(hit.id, { memory, keyword: 0, similarity });
+  }
+
+  const ranked: RankedMemory[] = [];
+  for (const { memory, keyword, similarity } of candidates.values()) {
+    const vector = Math.min(1, Math.max(0, similarity ?? 0));
+    const weighted =
+      weights.keyword * keyword +
+      vectorWeight * vector +
+      weights.frequency * frequencyScore(memory.access_count) +
+      weights.recency * recencyScore(Number(memory.last_accessed_at), now, weights.recencyHalfLifeDays);
+
+    ranked.push({
+      ...memory,
+      score: totalWeight > 0 ? weighted / totalWeight : 0,
+      similarity,
+      keyword_score: keyword,
+    });
+  }
+
+  return ranked.sort((a, b) => b.score - a.score).slice(0, options.limit);
+}
+
+/**
+ * Hybrid memory search for an agent: full-text and exact matches combined
+ * with vector similarity (when an embedding service is available), usage
+ * frequency and recency.
+ */
+export async function searchMemories(
+  memoryRepository: MemoryRepository,
+  agentId: number,
+  query: string,
+  options: {
+    limit: number;
+    embeddingService?: EmbeddingService | null;
+    weights?: Partial<MemorySearchWeights>;
+  }
+): Promise<RankedMemory[]> {
+  const candidateLimit = options.limit * CANDIDATE_FACTOR;
+  const { embeddingService } = options;
+
+  // An embedding failure degrades to keyword-only ranking rather than failing the search
+  const vectorSearch = async () => {
+    if (!embeddingService) return null;
+    try {
+      const emb = await embeddingService.generate(query);
+      return await memoryRepository.semanticSearch(agentId, emb, embeddingService.model, candidateLimit);
+    } catch (err) {
+      console.error("Embedding query failed, using keyword search only:", err);
+      return null;
+    }
+  };
+
+  const [keywordHits, vectorHits] = await Promise.all([
+    memoryRepository.keywordSearch(agentId, query, candidateLimit),
+    vectorSearch(),
+  ]);
+
+  return rankMemories(keywordHits, vectorHits ?? [], {
+    limit: options.limit,
+    weights: options.weights,
+    hasEmbedding: vectorHits !== null,
+  });
+}
@@ -2,24 +2,42 @@ import { createOpenAI } from "@ai-sdk/openai";
 import { createAnthropic } from "@ai-sdk/anthropic";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createOllama } from "ai-sdk-ollama";
-import type { LanguageModel } from "ai";
+import { APICallError, wrapLanguageModel } from "ai";
+import type { LanguageModel, LanguageModelMiddleware } from "ai";
+
+/** Connection details for a custom OpenAI-compatible provider (decrypted) */
+export interface CustomProviderConfig {
+  base_url: string;
+  api_key?: string;
+  /** "Authorization" sends "Bearer <key>"; any other header (e.g. Azure's "api-key") gets the raw key */
+  api_key_header: string;
+  headers?: Record<string, string>;
+}
 
 export interface ApiKeys {
   openai?: string;
   anthropic?: string;
   google?: string;
   ollama_url?: string;
+  /** Custom providers by name, e.g. { mygateway: {...} } for "mygateway:qwen2.5-72b" */
+  custom?: Record<string, CustomProviderConfig>;
 }
 
+/** Provider names handled natively; custom providers may not reuse them */
+export const BUILT_IN_PROVIDERS = ["openai", "anthropic", "google", "ollama"];
+
+/** A provider model instance (what the provider factories return) */
+type ProviderModel = Parameters<typeof wrapLanguageModel>[0]["model"];
 
 /**
  * Parse a model string like "openai:gpt-4.1-mini" into a Vercel AI SDK model instance.
- * Supported providers: openai, anthropic, google, ollama
+ * Supported providers: openai, anthropic, google, ollama, plus any custom
+ * OpenAI-compatible providers in apiKeys.custom
  */
 export function resolveModel(
   modelString: string,
   apiKeys: ApiKeys
-): LanguageModel {
+): ProviderModel {
   const colonIndex = modelString.indexOf(":");
   if (colonIndex === -1) {
     throw new Error(
@@ -69,9 +87,169 @@ export function resolveModel(
       });
       return ollama(modelId);
     }
-    default:
-      throw new Error(`Unknown model provider: "${provider}"`);
+    default: {
+      const custom = apiKeys.custom?.[provider];
+      if (!custom) {
+        throw new Error(`Unknown model provider: "${provider}"`);
+      }
+      return resolveCustomModel(provider, modelId, custom);
+    }
+  }
+}
+
+/**
+ * Custom providers speak the OpenAI chat completions protocol (vLLM, LiteLLM,
+ * Azure OpenAI v1, Bedrock gateways), so they use the OpenAI client with a
+ * different base URL and auth header.
+ */
+function resolveCustomModel(name: string, modelId: string, config: CustomProviderConfig): ProviderModel {
+  const bearer = config.api_key_header.toLowerCase() === "authorization";
+  const headers: Record<string, string | undefined> = { ...config.headers };
+  if (!bearer) {
+    // Drop the client's default Authorization header and send the key as-is
+    headers.Authorization = undefined;
+    if (config.api_key) headers[config.api_key_header] = config.api_key;
   }
+
+  const client = createOpenAI({
+    name,
+    baseURL: config.base_url,
+    apiKey: bearer ? config.api_key ?? "" : "",
+    headers: headers as Record<string, string>,
+  });
+  return client.chat(modelId);
+}
+
+/**
+ * Provider metadata key under which a fallback chain reports the model that
+ * answered each step
+ */
+export const FALLBACK_METADATA_KEY = "fallback";
+
+/**
+ * Whether a model call failed in a way another provider might not: rate limits,
+ * server errors, timeouts and connection failures. Bad requests and auth errors
+ * are not retried, since they usually mean the request itself is wrong.
+ */
+export function isRetryableModelError(error: unknown): boolean {
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable || (error.statusCode !== undefined && error.statusCode >= 500);
+  }
+  if (error instanceof Error) {
+    if (error.name === "TimeoutError" || error.name === "AbortError") return true;
+    return /fetch failed|ECONNREFUSED|ECONNRESET|ETIMEDOUT|socket hang up/i.test(error.message);
+  }
+  return false;
+}
+
+/**
+ * Resolve an ordered list of model strings into a single model. When a call to
+ * one model fails with a retryable error, the same call is made to the next.
+ * Models whose provider isn't configured are skipped; if none can be resolved,
+ * the first model's configuration error is thrown.
+ *
+ * Each step's providerMetadata.fallback.model records which model answered
+ * (see getAnsweredModel).
+ */
+export function resolveModelChain(modelStrings: string[], apiKeys: ApiKeys): LanguageModel {
+  const chain: { id: string; model: ProviderModel }[] = [];
+  let firstError: unknown = null;
+  for (const id of modelStrings) {
+    try {
+      chain.push({ id, model: resolveModel(id, apiKeys) });
+    } catch (err) {
+      firstError ??= err;
+      console.warn(`Skipping model "${id}" in fallback chain: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  if (chain.length === 0) {
+    throw firstError ?? new Error("No model configured");
+  }
+  if (chain.length === 1 && chain[0]!.id === modelStrings[0]) {
+    return chain[0]!.model;
+  }
+
+  /** Try each model in turn, moving on only after a retryable error */
+  async function attempt<T>(
+    abortSignal: AbortSignal | undefined,
+    call: (model: ProviderModel) => PromiseLike<T>
+  ): Promise<{ id: string; result: T }> {
+    let lastError: unknown;
+    for (const [index, { id, model }] of chain.entries()) {
+      try {
+        return { id, result: await call(model) };
+      } catch (err) {
+        lastError = err;
+        const next = chain[index + 1];
+        if (!next || abortSignal?.aborted || !isRetryableModelError(err)) throw err;
+        console.warn(
+          `Model "${id}" failed (${err instanceof Error ? err.message : err}), falling back to "${next.id}"`
+        );
+      }
+    }
+    throw lastError;
+  }
+
+  const middleware: LanguageModelMiddleware = {
+    specificationVersion: "v3",
+    wrapGenerate: async ({ params }) => {
+      const { id, result } = await attempt(params.abortSignal, (model) => model.doGenerate(params));
+      return {
+        ...result,
+        providerMetadata: { ...result.providerMetadata, [FALLBACK_METADATA_KEY]: { model: id } },
+      };
+    },
+    wrapStream: async ({ params }) => {
+      // Fallback only covers failures starting the stream; errors mid-stream
+      // are reported as-is since part of the answer has already been sent
+      const { id, result } = await attempt(params.abortSignal, (model) => model.doStream(params));
+      return {
+        ...result,
+        stream: result.stream.pipeThrough(
+          new TransformStream({
+            transform(part, controller) {
+              if (part.type === "finish") {
+                controller.enqueue({
+                  ...part,
+                  providerMetadata: { ...part.providerMetadata, [FALLBACK_METADATA_KEY]: { model: id } },
+                });
+              } else {
+                controller.enqueue(part);
+              }
+            },
+          })
+        ),
+      };
+    },
+  };
+
+  return wrapLanguageModel({
+    model: chain[0]!.model,
+    middleware,
+    modelId: modelStrings.join(" > "),
+  });
+}
+
+/**
+ * The model string that answered a step: the fallback chain's record if the
+ * step ran through one, otherwise the agent's configured model.
+ */
+export function getAnsweredModel(
+  step: { providerMetadata?: Record<string, Record<string, unknown>> | undefined },
+  defaultModel: string
+): string {
+  const answered = step.providerMetadata?.[FALLBACK_METADATA_KEY]?.model;
+  return typeof answered === "string" ? answered : defaultModel;
+}
+
+/** The model that produced a run's final answer (its last step) */
+export function getFinalModel(
+  steps: ReadonlyArray<{ providerMetadata?: Record<string, Record<string, unknown>> | undefined }>,
+  defaultModel: string
+): string {
+  const last = steps[steps.length - 1];
+  return last ? getAnsweredModel(last, defaultModel) : defaultModel;
 }
 
 /**
@@ -86,23 +264,60 @@ export function getProviderFromModel(modelString: string): string {
 /** Default model used for new agents */
 export const DEFAULT_MODEL = "openai:gpt-4.1-mini";
 
-/** Available models for the UI */
-export const AVAILABLE_MODELS = [
+/** USD prices per million tokens. Cached input is billed instead of input for cache reads. */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cached_input: number;
+}
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  provider: string;
+  pricing: ModelPricing;
+}
+
+/** Available models for the UI, with their list prices */
+export const AVAILABLE_MODELS: ModelInfo[] = [
   // OpenAI
-  { id: "openai:o3", name: "o3", provider: "openai" },
-  { id: "openai:o3-mini", name: "o3 Mini", provider: "openai" },
-  { id: "openai:o4-mini", name: "o4 Mini", provider: "openai" },
-  { id: "openai:gpt-4.1", name: "GPT-4.1", provider: "openai" },
-  { id: "openai:gpt-4.1-mini", name: "GPT-4.1 Mini", provider: "openai" },
-  { id: "openai:gpt-4.1-nano", name: "GPT-4.1 Nano", provider: "openai" },
-  { id: "openai:gpt-4o", name: "GPT-4o", provider: "openai" },
-  { id: "openai:gpt-4o-mini", name: "GPT-4o Mini", provider: "openai" },
+  { id: "openai:o3", name: "o3", provider: "openai", pricing: { input: 2, output: 8, cached_input: 0.5 } },
+  { id: "openai:o3-mini", name: "o3 Mini", provider: "openai", pricing: { input: 1.1, output: 4.4, cached_input: 0.55 } },
+  { id: "openai:o4-mini", name: "o4 Mini", provider: "openai", pricing: { input: 1.1, output: 4.4, cached_input: 0.275 } },
+  { id: "openai:gpt-4.1", name: "GPT-4.1", provider: "openai", pricing: { input: 2, output: 8, cached_input: 0.5 } },
+  { id: "openai:gpt-4.1-mini", name: "GPT-4.1 Mini", provider: "openai", pricing: { input: 0.4, output: 1.6, cached_input: 0.1 } },
+  { id: "openai:gpt-4.1-nano", name: "GPT-4.1 Nano", provider: "openai", pricing: { input: 0.1, output: 0.4, cached_input: 0.025 } },
+  { id: "openai:gpt-4o", name: "GPT-4o", provider: "openai", pricing: { input: 2.5, output: 10, cached_input: 1.25 } },
+  { id: "openai:gpt-4o-mini", name: "GPT-4o Mini", provider: "openai", pricing: { input: 0.15, output: 0.6, cached_input: 0.075 } },
   // Anthropic
-  { id: "anthropic:claude-opus-4-20250514", name: "Claude Opus 4", provider: "anthropic" },
-  { id: "anthropic:claude-sonnet-4-20250514", name: "Claude Sonnet 4", provider: "anthropic" },
-  { id: "anthropic:claude-haiku-4-5-20251001", name: "Claude Haiku 4.5", provider: "anthropic" },
+  { id: "anthropic:claude-opus-4-20250514", name: "Claude Opus 4", provider: "anthropic", pricing: { input: 15, output: 75, cached_input: 1.5 } },
+  { id: "anthropic:claude-sonnet-4-20250514", name: "Claude Sonnet 4", provider: "anthropic", pricing: { input: 3, output: 15, cached_input: 0.3 } },
+  { id: "anthropic:claude-haiku-4-5-20251001", name: "Claude Haiku 4.5", provider: "anthropic", pricing: { input: 1, output: 5, cached_input: 0.1 } },
   // Google
-  { id: "google:gemini-2.5-pro-preview-05-06", name: "Gemini 2.5 Pro", provider: "google" },
-  { id: "google:gemini-2.5-flash-preview-04-17", name: "Gemini 2.5 Flash", provider: "google" },
-  { id: "google:gemini-2.0-flash", name: "Gemini 2.0 Flash", provider: "google" },
+  { id: "google:gemini-2.5-pro-preview-05-06", name: "Gemini 2.5 Pro", provider: "google", pricing: { input: 1.25, output: 10, cached_input: 0.31 } },
+  { id: "google:gemini-2.5-flash-preview-04-17", name: "Gemini 2.5 Flash", provider: "google", pricing: { input: 0.15, output: 0.6, cached_input: 0.0375 } },
+  { id: "google:gemini-2.0-flash", name: "Gemini 2.0 Flash", provider: "google", pricing: { input: 0.1, output: 0.4, cached_input: 0.025 } },
 ];
+
+/** Look up the price table for a model string (null for unlisted models such as Ollama) */
+export function getModelPricing(modelString: string): ModelPricing | null {
+  return AVAILABLE_MODELS.find((m) => m.id === modelString)?.pricing ?? null;
+}
+
+/**
+ * Estimate the USD cost of a step. inputTokens includes cached tokens, which
+ * are billed at the cached rate. Returns null when the model has no known price.
+ */
+export function estimateCost(
+  modelString: string,
+  usage: { inputTokens: number; outputTokens: number; cachedInputTokens: number }
+): number | null {
+  const pricing = getModelPricing(modelString);
+  if (!pricing) return null;
+  const cached = Math.min(usage.cachedInputTokens, usage.inputTokens);
+  const cost =
+    (usage.inputTokens - cached) * pricing.input +
+    cached * pricing.cached_input +
+    usage.outputTokens * pricing.output;
+  return cost / 1_000_000;
+}
@@ -5,18 +5,35 @@ import type { MqttSubscription } from "../types/models";
 import type { MqttRepository } from "../repositories/MqttRepository";
 import type { ConversationRepository } from "../repositories/ConversationRepository";
 import type { UserRepository } from "../repositories/UserRepository";
-import type { AgentFactory } from "./AgentFactory";
+import type { UsageRepository } from "../repositories/UsageRepository";
+import type { ModelProviderRepository } from "../repositories/ModelProviderRepository";
+import type { WorkflowRepository } from "../repositories/WorkflowRepository";
+import type { NotificationRepository } from "../repositories/NotificationRepository";
+import type { BudgetService } from "./BudgetService";
+import type { AgentFactory, CreateAgentOptions } from "./AgentFactory";
 import { DatabaseSession } from "./DatabaseSession";
 import { decrypt } from "../utils/encryption";
-import { EmbeddingService } from "./EmbeddingService";
-import type { ApiKeys } from "./ModelResolver";
+import { createEmbeddingService } from "./EmbeddingService";
+import { recordUsage } from "../utils/usage";
+import { loadCustomProviders } from "../utils/modelProviders";
+import { getFinalModel, resolveModelChain, DEFAULT_MODEL, type ApiKeys } from "./ModelResolver";
+import { WorkflowRunner } from "./WorkflowRunner";
+import { parsePayload, renderTriggerFacts } from "../workflows/triggers";
 
 interface MqttServiceDeps {
   mqttRepository: MqttRepository;
   agentFactory: AgentFactory;
   conversationRepository: ConversationRepository;
   userRepository: UserRepository;
+  usageRepository: UsageRepository | null;
+  budgetService: BudgetService | null;
+  modelProviderRepository: ModelProviderRepository | null;
+  /** Lets subscriptions start workflows; without it they run the prompt only */
+  workflowRepository: WorkflowRepository | null;
+  notificationRepository: NotificationRepository | null;
   encryptionSecret: string;
+  /** Public URL of the app, used in workflow approve/reject links */
+  frontendUrl?: string;
 }
 
 interface ClientWrapper {
@@ -36,8 +53,21 @@ export class MqttService {
   private rateLimitWindows = new Map<number, number[]>();
   private userQueues = new Map<number, Array<() => Promise<void>>>();
   private userExecuting = new Map<number, boolean>();
-
-  constructor(private deps: MqttServiceDeps) {}
+  private workflowRunner: WorkflowRunner | null;
+
+  constructor(private deps: MqttServiceDeps) {
+    this.workflowRunner = deps.workflowRepository
+      ? new WorkflowRunner({
+          workflowRepository: deps.workflowRepository,
+          conversationRepository: deps.conversationRepository,
+          notificationRepository: deps.notificationRepository,
+          usageRepository: deps.usageRepository,
+          approvalLinks: deps.frontendUrl
+            ? { baseUrl: deps.frontendUrl, secret: deps.encryptionSecret }
+            : null,
+        })
+      : null;
+  }
 
   async start() {
     const configs = await this.deps.mqttRepository.listEnabledBrokerConfigs();
@@ -348,14 +378,27 @@ export class MqttService {
       if (user.ollama_url) {
         apiKeys.ollama_url = user.ollama_url;
       }
+      apiKeys.custom = await loadCustomProviders(
+        this.deps.modelProviderRepository,
+        { user_id: user.id },
+        this.deps.encryptionSecret
+      );
 
-      if (!apiKeys.openai && !apiKeys.anthropic && !apiKeys.google && !apiKeys.ollama_url) {
+      if (
+        !apiKeys.openai && !apiKeys.anthropic && !apiKeys.google && !apiKeys.ollama_url &&
+        Object.keys(apiKeys.custom).length === 0
+      ) {
         throw new Error("No API keys configured");
       }
 
       // Resolve agent
       const agentConfig = await this.deps.agentFactory.getAgentConfigById(sub.user_id, sub.agent_id);
 
+      // Refuse to run once a hard budget limit is reached (error lands in the execution log)
+      const budgetGuard = this.deps.budgetService
+        ? await this.deps.budgetService.enforce({ user, agent: agentConfig })
+        : null;
+
       // Get or create conversation
       let conversationId = sub.conversation_id;
       if (sub.conversation_mode === "new" || !conversationId) {
@@ -374,7 +417,7 @@ export class MqttService {
         .replace(/\{payload\}/g, payload);
 
       // Create agent config
-      const embeddingService = apiKeys.openai ? new EmbeddingService(apiKeys.openai) : null;
+      const embeddingService = createEmbeddingService(user.embedding_model, apiKeys);
 
       // Decrypt Google search credentials if available
       let googleSearchApiKey: string | undefined;
@@ -382,20 +425,52 @@ export class MqttService {
         googleSearchApiKey = await decrypt(user.google_search_api_key, this.deps.encryptionSecret);
       }
 
+      const agentOptions: CreateAgentOptions = {
+        conversationId,
+        embeddingService,
+        googleSearchApiKey,
+        googleSearchEngineId: user.google_search_engine_id,
+        domain: user.email.split("@")[1] || "",
+        stopWhen: budgetGuard?.stopWhen,
+      };
+
+      // Subscriptions with a workflow drive it unattended instead of a single agent run
+      if (sub.workflow_id && this.workflowRunner) {
+        const { error } = await this.workflowRunner.run({
+          userId: user.id,
+          conversationId,
+          workflowId: sub.workflow_id,
+          prompt,
+          initialFacts: renderTriggerFacts(sub.workflow_facts ?? {}, { topic, payload: parsePayload(payload) }),
+          createAgent: (workflowContext) =>
+            this.deps.agentFactory.createAgent(user.id, agentConfig.slug, () => {}, apiKeys, {
+              ...agentOptions,
+              workflowContext,
+            }),
+          verifierModel: resolveModelChain(
+            [agentConfig.model || DEFAULT_MODEL, ...(agentConfig.fallback_models ?? [])],
+            apiKeys
+          ),
+          source: "mqtt",
+          stopReason: () => budgetGuard?.exceeded ?? null,
+        });
+        if (error) throw new Error(error);
+
+        await this.deps.mqttRepository.updateExecution(execution.id, {
+          status: "success",
+          completed_at: Date.now(),
+          conversation_id: conversationId,
+        });
+        console.log(`MQTT: Subscription ${sub.id} ran its workflow successfully`);
+        return;
+      }
+
       const agentInstance = await this.deps.agentFactory.createAgent(
         user.id,
         agentConfig.slug,
         () => {},
         apiKeys,
-        {
-          conversationId,
-          generateEmbedding: embeddingService
-            ? (text) => embeddingService.generate(text)
-            : undefined,
-          googleSearchApiKey,
-          googleSearchEngineId: user.google_search_engine_id,
-          domain: user.email.split("@")[1] || "",
-        }
+        agentOptions
       );
 
       // Create session and run
@@ -407,8 +482,27 @@ export class MqttService {
         messages,
       });
 
+      await recordUsage(
+        this.deps.usageRepository,
+        {
+          user_id: user.id,
+          agent_id: agentInstance.id,
+          conversation_id: conversationId,
+          source: "mqtt",
+          model: agentInstance.model,
+        },
+        result.steps
+      );
+
       // Save response messages
-      await session.saveResponseMessages(result.response.messages as ModelMessage[]);
+      await session.saveResponseMessages(
+        result.response.messages as ModelMessage[],
+        getFinalModel(result.steps, agentInstance.model)
+      );
+
+      if (budgetGuard?.exceeded) {
+        throw new Error(budgetGuard.exceeded);
+      }
 
       // Success
       await this.deps.mqttRepository.updateExecution(execution.id, {
@@ -1,8 +1,115 @@
-import type { Notification, NotificationDelivery } from "../types/models";
-import type { NotificationRepository } from "../repositories/NotificationRepository";
+import type { MailTransportConfig, Notification, NotificationDelivery, UserNotificationSettings } from "../types/models";
+import type { CreateDeliveryAttemptData, NotificationRepository } from "../repositories/NotificationRepository";
+import type { AgentRepository } from "../repositories/AgentRepository";
+import type { UserRepository } from "../repositories/UserRepository";
+import type { TeamRepository } from "../repositories/TeamRepository";
+import { createMailTransport, formatAddress, renderDigestEmail, renderNotificationEmail } from "../mail";
+import { renderWebhookDigestPayload, renderWebhookPayload, webhookSignatureHeaders, type WebhookEventData } from "../webhooks";
+import { isQuietTime, nextDigestAt, nextLocalTime, planDelivery, rateLimitWaitMs, ratePolicyFor } from "../notifications";
+import { getUserDomain, isPersonalDomain } from "../utils/domain";
+
+export type NotificationChannel = "email" | "webhook" | "pushover";
+
+/** Delivery channels the user has enabled and configured */
+export function getEnabledChannels(settings: UserNotificationSettings | null): NotificationChannel[] {
+  const channels: NotificationChannel[] = [];
+  const hasEmailRecipients =
+    (settings?.email_addresses && settings.email_addresses.length > 0) ||
+    !!settings?.notification_email;
+  if (settings?.email_enabled && hasEmailRecipients) {
+    channels.push("email");
+  }
+  if (settings?.webhook_urls?.length) {
+    channels.push("webhook");
+  }
+  if (settings?.pushover_enabled && settings.pushover_user_key) {
+    channels.push("pushover");
+  }
+  return channels;
+}
+
+/**
+ * Record a notification and queue a delivery on each of the user's enabled
+ * channels (or only `options.channel`), skipping channels the agent is muted on.
+ */
+export async function queueNotification(
+  notificationRepository: NotificationRepository,
+  data: { user_id: number; agent_id: number; conversation_id?: number; message: string; urgency: Notification["urgency"] },
+  options: { channel?: NotificationChannel; destination?: string | null } = {}
+): Promise<Notification> {
+  const notification = await notificationRepository.create(data);
+
+  const enabled = getEnabledChannels(await notificationRepository.getSettings(data.user_id));
+  const channels = options.channel ? enabled.filter((ch) => ch === options.channel) : enabled;
+  for (const channel of channels) {
+    if (await notificationRepository.isAgentMuted(data.user_id, data.agent_id, channel)) continue;
+    await notificationRepository.createDelivery(notification.id, channel, options.destination ?? null);
+  }
+  return notification;
+}
+
+/** Sender for logged emails, when no transport (and so no from address) is configured */
+export const DEFAULT_FROM = "notifications@localhost";
+
+/** The mail transport of the user's team, for users without their own (none for personal domains) */
+export async function findTeamMailTransport(
+  repos: { userRepository?: UserRepository; teamRepository?: TeamRepository | null },
+  userId: number
+): Promise<MailTransportConfig | null> {
+  if (!repos.teamRepository || !repos.userRepository) return null;
+  const user = await repos.userRepository.findById(userId);
+  const domain = user ? getUserDomain(user.email) : "";
+  if (isPersonalDomain(domain)) return null;
+  const teamSettings = await repos.teamRepository.getNotificationSettings(domain);
+  return teamSettings?.mail_transport ?? null;
+}
+
+/** Tries per delivery before it is marked failed */
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 60_000;
+const HTTP_TIMEOUT_MS = 10_000;
+/** Response bodies are cut to this length in the attempt log */
+const LOGGED_BODY_LENGTH = 2_000;
+const PUSHOVER_MESSAGE_LIMIT = 1_024;
+
+/** Wait after failed attempt n (1-based) before the next: 1, 2, 4, 8… minutes */
+export function retryDelayMs(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+}
+
+type PendingDelivery = NotificationDelivery & { notification: Notification };
+
+/** Held deliveries by user, channel and destination: one digest each */
+function groupDigests(deliveries: PendingDelivery[]): PendingDelivery[][] {
+  const groups = new Map<string, PendingDelivery[]>();
+  for (const delivery of deliveries) {
+    const key = `${delivery.notification.user_id}:${delivery.channel}:${delivery.destination ?? ""}`;
+    groups.set(key, [...(groups.get(key) ?? []), delivery]);
+  }
+  return [...groups.values()];
+}
+
+function highestUrgency(deliveries: PendingDelivery[]): Notification["urgency"] {
+  const urgencies = deliveries.map((d) => d.notification.urgency);
+  return urgencies.includes("high") ? "high" : urgencies.includes("normal") ? "normal" : "low";
+}
 
 interface NotificationServiceDeps {
   notificationRepository: NotificationRepository;
+  /** Names the agent in emails */
+  agentRepository?: AgentRepository;
+  /**
+   * With teamRepository, finds the team mail transport for users without their own;
+   * also gives the user's timezone for quiet hours and digests (UTC without it)
+   */
+  userRepository?: UserRepository;
+  teamRepository?: TeamRepository | null;
+  /** Public URL of the app, for links back to the conversation */
+  frontendUrl: string;
+  /** Decrypts stored SMTP passwords and mail API keys */
+  encryptionSecret?: string;
+  /** Where the file mail transport writes its mailboxes */
+  mailDir: string;
 }
 
 export class NotificationService {
@@ -43,65 +150,225 @@ export class NotificationService {
   private async poll() {
     const pending =
       await this.deps.notificationRepository.listPendingDeliveries();
-    if (pending.length === 0) return;
+    const digests = groupDigests(
+      await this.deps.notificationRepository.listDueDigestDeliveries()
+    );
+    if (pending.length === 0 && digests.length === 0) return;
 
     console.log(
-      `Notification service: processing ${pending.length} pending deliveries`
+      `Notification service: processing ${pending.length} pending deliveries and ${digests.length} digests`
     );
 
     for (const delivery of pending) {
-      await this.processDelivery(delivery);
+      if (await this.hold(delivery)) continue;
+      await this.deliver([delivery]);
+    }
+    for (const digest of digests) {
+      await this.sendDigest(digest);
+    }
+  }
+
+  /** Quiet hours and digest times are in the user's timezone */
+  private async timezoneFor(userId: number): Promise<string> {
+    const user = await this.deps.userRepository?.findById(userId);
+    return user?.timezone || "UTC";
+  }
+
+  /**
+   * Park a delivery that shouldn't go out now: until quiet hours end, until
+   * the channel's next digest, or as the agent's rate policy says once it is
+   * over its limit. True when the delivery was parked (or dropped).
+   */
+  private async hold(delivery: PendingDelivery): Promise<boolean> {
+    const { notification } = delivery;
+    const repo = this.deps.notificationRepository;
+    const settings = await repo.getSettings(notification.user_id);
+    const timezone = await this.timezoneFor(notification.user_id);
+    const now = new Date();
+
+    const plan = planDelivery(notification.urgency, delivery.channel, settings, now, timezone);
+    if (plan.action === "wait") {
+      await repo.holdDelivery(delivery.id, { status: "pending", held_reason: "quiet_hours", next_attempt_at: plan.until });
+      return true;
+    }
+    if (plan.action === "digest") {
+      await repo.holdDelivery(delivery.id, { status: "held", held_reason: "digest", next_attempt_at: plan.until });
+      return true;
+    }
+
+    const policy = ratePolicyFor(settings?.rate_policies ?? [], notification.agent_id, delivery.channel);
+    if (!policy) return false;
+    const recent = await repo.countRecentByAgentAndChannel(notification.user_id, notification.agent_id, delivery.channel, 60);
+    if (recent < policy.max_per_hour) return false;
+
+    console.log(
+      `Notification delivery ${delivery.id} (${delivery.channel}): agent ${notification.agent_id} is over ${policy.max_per_hour}/hour (${policy.overflow})`
+    );
+    if (policy.overflow === "delay") {
+      await repo.holdDelivery(delivery.id, {
+        status: "pending",
+        held_reason: "rate_limit",
+        next_attempt_at: new Date(now.getTime() + rateLimitWaitMs(policy)),
+      });
+    } else if (policy.overflow === "digest") {
+      await repo.holdDelivery(delivery.id, {
+        status: "held",
+        held_reason: "digest",
+        next_attempt_at: nextDigestAt(settings, delivery.channel, now, timezone),
+      });
+    } else {
+      await repo.holdDelivery(delivery.id, { status: "dropped", held_reason: "rate_limit", next_attempt_at: null });
+    }
+    return true;
+  }
+
+  /** Held deliveries due together go out as one digest, unless quiet hours have started since */
+  private async sendDigest(digest: PendingDelivery[]) {
+    const { user_id } = digest[0]!.notification;
+    const settings = await this.deps.notificationRepository.getSettings(user_id);
+    const timezone = await this.timezoneFor(user_id);
+    const now = new Date();
+
+    if (settings?.quiet_hours && isQuietTime(settings.quiet_hours, now, timezone) && highestUrgency(digest) !== "high") {
+      const until = nextLocalTime([settings.quiet_hours.end], now, timezone);
+      for (const delivery of digest) {
+        await this.deps.notificationRepository.holdDelivery(delivery.id, {
+          status: "held",
+          held_reason: "digest",
+          next_attempt_at: until,
+        });
+      }
+      return;
     }
+    await this.deliver(digest);
   }
 
-  private async processDelivery(
-    delivery: NotificationDelivery & { notification: Notification }
-  ) {
+  /** Send one delivery, or several as a digest, and record the outcome on each */
+  private async deliver(deliveries: PendingDelivery[]) {
+    const delivery = deliveries[0]!;
+    const digest = deliveries.length > 1 ? deliveries : null;
+    const attempt = delivery.attempts + 1;
     try {
       if (delivery.channel === "email") {
-        await this.sendEmail(delivery);
+        await this.sendEmail(delivery, attempt, digest);
       } else if (delivery.channel === "webhook") {
-        await this.sendWebhook(delivery);
+        await this.sendWebhook(delivery, attempt, digest);
       } else if (delivery.channel === "pushover") {
-        await this.sendPushover(delivery);
+        await this.sendPushover(delivery, attempt, digest);
       }
 
-      await this.deps.notificationRepository.updateDelivery(delivery.id, {
-        status: "sent",
-      });
+      for (const sent of deliveries) {
+        await this.deps.notificationRepository.updateDelivery(sent.id, {
+          status: "sent",
+        });
+      }
     } catch (err) {
       console.error(
-        `Notification delivery ${delivery.id} (${delivery.channel}) failed:`,
+        `Notification delivery ${delivery.id} (${delivery.channel})${digest ? ` and ${digest.length - 1} more in a digest` : ""} failed:`,
         err
       );
 
-      const attempts = delivery.attempts + 1;
-      if (attempts >= 3) {
-        await this.deps.notificationRepository.updateDelivery(delivery.id, {
-          status: "failed",
-          error_message:
-            err instanceof Error ? err.message : String(err),
-        });
+      // Retry with exponential backoff until the attempts run out
+      // (updateDelivery increments attempts); digests stay held meanwhile
+      const error_message = err instanceof Error ? err.message : String(err);
+      for (const failed of deliveries) {
+        const tried = failed.attempts + 1;
+        if (tried >= MAX_DELIVERY_ATTEMPTS) {
+          await this.deps.notificationRepository.updateDelivery(failed.id, {
+            status: "failed",
+            error_message,
+          });
+        } else {
+          await this.deps.notificationRepository.updateDelivery(failed.id, {
+            status: failed.status === "held" ? "held" : "pending",
+            error_message,
+            next_attempt_at: new Date(Date.now() + retryDelayMs(tried)),
+          });
+        }
       }
-      // If under 3 attempts, stays pending for retry on next poll
-      // (updateDelivery increments attempts)
     }
   }
 
-  private async sendEmail(
-    delivery: NotificationDelivery & { notification: Notification }
-  ) {
-    // Rate limit: 5 per agent per hour
-    const recentCount =
-      await this.deps.notificationRepository.countRecentByAgentAndChannel(
-        delivery.notification.agent_id,
-        "email",
-        60
-      );
-    if (recentCount >= 5) {
-      throw new Error("Email rate limit exceeded (5/hour per agent)");
+  /** Each notification with its agent and a link, as messages and digests show them */
+  private async describe(deliveries: PendingDelivery[]): Promise<WebhookEventData[]> {
+    const agents = new Map<number, WebhookEventData["agent"]>();
+    const events: WebhookEventData[] = [];
+    for (const { notification } of deliveries) {
+      if (!agents.has(notification.agent_id)) {
+        const agent = await this.deps.agentRepository?.findById(notification.agent_id);
+        agents.set(notification.agent_id, agent ? { id: agent.id, name: agent.name, slug: agent.slug } : null);
+      }
+      const agent = agents.get(notification.agent_id) ?? null;
+      events.push({ notification, agent, link: this.notificationLink(agent?.slug, notification.conversation_id) });
+    }
+    return events;
+  }
+
+  /** Add to the delivery's attempt log (each one's, for a digest); a logging failure doesn't fail the delivery */
+  private async logAttempt(data: CreateDeliveryAttemptData, digest: PendingDelivery[] | null = null) {
+    for (const deliveryId of digest ? digest.map((d) => d.id) : [data.delivery_id]) {
+      try {
+        await this.deps.notificationRepository.recordDeliveryAttempt({ ...data, delivery_id: deliveryId });
+      } catch (err) {
+        console.error(`Failed to log attempt for notification delivery ${deliveryId}:`, err);
+      }
+    }
+  }
+
+  /**
+   * POST and log the attempt. Returns the response whatever its status;
+   * throws (after logging) when the request itself fails.
+   */
+  private async post(
+    delivery: PendingDelivery,
+    attempt: number,
+    request: {
+      destination: string | null;
+      url: string;
+      headers?: Record<string, string>;
+      body: string | URLSearchParams;
+      /** What to log as the request body; null when it holds credentials */
+      loggedBody: string | null;
+    },
+    digest: PendingDelivery[] | null
+  ): Promise<{ ok: boolean; status: number; text: string }> {
+    const started = Date.now();
+    const entry = {
+      delivery_id: delivery.id,
+      attempt,
+      destination: request.destination,
+      request_url: request.url,
+      request_body: request.loggedBody,
+    };
+    try {
+      const response = await fetch(request.url, {
+        method: "POST",
+        headers: request.headers,
+        body: request.body,
+        signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+      });
+      const text = await response.text();
+      await this.logAttempt({
+        ...entry,
+        response_status: response.status,
+        response_body: text.slice(0, LOGGED_BODY_LENGTH),
+        error_message: response.ok ? null : `HTTP ${response.status}`,
+        duration_ms: Date.now() - started,
+      }, digest);
+      return { ok: response.ok, status: response.status, text };
+    } catch (err) {
+      await this.logAttempt({
+        ...entry,
+        response_status: null,
+        response_body: null,
+        error_message: err instanceof Error ? err.message : String(err),
+        duration_ms: Date.now() - started,
+      }, digest);
+      throw err;
     }
+  }
 
+  private async sendEmail(delivery: PendingDelivery, attempt: number, digest: PendingDelivery[] | null) {
     const settings = await this.deps.notificationRepository.getSettings(
       delivery.notification.user_id
     );
@@ -130,20 +397,72 @@ export class NotificationService {
       throw new Error("No email recipients configured");
     }
 
-    // For V1: Log the emails that would be sent
-    // TODO: Integrate with a transactional email service (Resend, Mailgun, etc.)
-    for (const recipient of recipients) {
-      console.log(
-        `[EMAIL] To: ${recipient.name} <${recipient.email}>, ` +
-          `Urgency: ${delivery.notification.urgency}, ` +
-          `Message: ${delivery.notification.message.substring(0, 100)}`
-      );
+    // The user's own transport, else their team's; with neither the email is only logged
+    const { notification } = delivery;
+    const transportConfig =
+      settings.mail_transport ?? (await this.findTeamMailTransport(notification.user_id));
+    const transport = await createMailTransport(transportConfig, {
+      encryptionSecret: this.deps.encryptionSecret,
+      mailDir: this.deps.mailDir,
+    });
+
+    const events = await this.describe(digest ?? [delivery]);
+    const email = digest
+      ? renderDigestEmail({
+          notifications: events.map((event) => ({
+            agentName: event.agent?.name ?? "Your assistant",
+            message: event.notification.message,
+            urgency: event.notification.urgency,
+            created_at: event.notification.created_at,
+            link: event.link,
+          })),
+          timezone: await this.timezoneFor(notification.user_id),
+          link: this.notificationLink(undefined, null),
+        })
+      : renderNotificationEmail({
+          agentName: events[0]!.agent?.name ?? "Your assistant",
+          message: notification.message,
+          urgency: notification.urgency,
+          link: events[0]!.link,
+        });
+
+    const to = recipients.map((r) => formatAddress(r.name, r.email));
+    const started = Date.now();
+    let error_message: string | null = null;
+    try {
+      await transport.send({ from: transportConfig?.from ?? DEFAULT_FROM, to, ...email });
+    } catch (err) {
+      error_message = err instanceof Error ? err.message : String(err);
+      throw err;
+    } finally {
+      await this.logAttempt({
+        delivery_id: delivery.id,
+        attempt,
+        destination: to.join(", "),
+        request_url: null,
+        request_body: email.text,
+        response_status: null,
+        response_body: null,
+        error_message,
+        duration_ms: Date.now() - started,
+      }, digest);
     }
   }
 
-  private async sendWebhook(
-    delivery: NotificationDelivery & { notification: Notification }
-  ) {
+  private async findTeamMailTransport(userId: number): Promise<MailTransportConfig | null> {
+    return findTeamMailTransport(this.deps, userId);
+  }
+
+  /** The notification's conversation, or the notifications page when there isn't one */
+  private notificationLink(agentSlug: string | undefined, conversationId: number | null): { url: string; label: string } {
+    const base = this.deps.frontendUrl.replace(/\/$/, "");
+    if (agentSlug && conversationId) {
+      return { url: `${base}/chat/${agentSlug}?conversation=${conversationId}`, label: "Open the conversation" };
+    }
+    return { url: `${base}/notifications`, label: "View notifications" };
+  }
+
+  private async sendWebhook(delivery: PendingDelivery, attempt: number, digest: PendingDelivery[] | null) {
     const settings = await this.deps.notificationRepository.getSettings(
       delivery.notification.user_id
     );
@@ -162,23 +481,25 @@ export class NotificationService {
       }
     }
 
-    const payload = {
-      agent_id: delivery.notification.agent_id,
-      message: delivery.notification.message,
-      urgency: delivery.notification.urgency,
-      conversation_id: delivery.notification.conversation_id,
-      timestamp: delivery.notification.created_at,
-    };
+    const events = await this.describe(digest ?? [delivery]);
 
-    // Fire to the selected webhooks
+    // Fire to the selected webhooks, each in its own format and signed with its own secret
     const errors: string[] = [];
     for (const webhook of webhooks) {
+      const request = digest
+        ? renderWebhookDigestPayload(webhook.template, { notifications: events, link: this.notificationLink(undefined, null) })
+        : renderWebhookPayload(webhook.template, events[0]!);
+      const signature = webhook.secret
+        ? webhookSignatureHeaders(webhook.secret, request.body, { id: String(delivery.id) })
+        : {};
       try {
-        const response = await fetch(webhook.url, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(payload),
-        });
+        const response = await this.post(delivery, attempt, {
+          destination: webhook.name,
+          url: webhook.url,
+          headers: { ...request.headers, ...signature },
+          body: request.body,
+          loggedBody: request.body,
+        }, digest);
 
         if (!response.ok) {
           errors.push(
@@ -198,9 +519,7 @@ export class NotificationService {
     }
   }
 
-  private async sendPushover(
-    delivery: NotificationDelivery & { notification: Notification }
-  ) {
+  private async sendPushover(delivery: PendingDelivery, attempt: number, digest: PendingDelivery[] | null) {
     const settings = await this.deps.notificationRepository.getSettings(
       delivery.notification.user_id
     );
@@ -215,24 +534,34 @@ export class NotificationService {
       normal: 0,
       high: 1,
     };
-    const priority = priorityMap[delivery.notification.urgency] ?? 0;
+    const priority = priorityMap[digest ? highestUrgency(digest) : delivery.notification.urgency] ?? 0;
+
+    let message = delivery.notification.message;
+    let title = "Assistant Army";
+    if (digest) {
+      const events = await this.describe(digest);
+      message = events.map((e) => `${e.agent?.name ?? "Your assistant"}: ${e.notification.message}`).join("\n");
+      if (message.length > PUSHOVER_MESSAGE_LIMIT) message = `${message.slice(0, PUSHOVER_MESSAGE_LIMIT - 1)}…`;
+      title = `Assistant Army: ${digest.length} notifications`;
+    }
 
     const body = new URLSearchParams({
       token: settings.pushover_api_token,
       user: settings.pushover_user_key,
-      message: delivery.notification.message,
+      message,
       priority: String(priority),
-      title: "Assistant Army",
+      title,
     });
 
-    const response = await fetch("https://api.pushover.net/1/messages.json", {
-      method: "POST",
+    const response = await this.post(delivery, attempt, {
+      destination: null,
+      url: "https://api.pushover.net/1/messages.json",
       body,
-    });
+      loggedBody: null,
+    }, digest);
 
     if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Pushover API error ${response.status}: ${text}`);
+      throw new Error(`Pushover API error ${response.status}: ${response.text}`);
     }
   }
 }
@@ -0,0 +1,89 @@
+import type { MemoryRepository } from "../repositories/MemoryRepository";
+import type { EmbeddingService } from "./EmbeddingService";
+
+interface ReembedServiceDeps {
+  memoryRepository: MemoryRepository;
+}
+
+export interface ReembedStatus {
+  model: string;
+  running: boolean;
+  processed: number;
+  failed: number;
+  started_at: Date;
+  finished_at: Date | null;
+  last_error: string | null;
+}
+
+const BATCH_SIZE = 50;
+
+/**
+ * Background job that re-embeds a user's memories after their embedding
+ * model changes. Vectors from different models can't be compared, so until a
+ * memory is re-embedded it is only found by text search.
+ *
+ * One job runs per user at a time; status is kept in memory for the UI.
+ */
+export class ReembedService {
+  private jobs = new Map<number, ReembedStatus>();
+
+  constructor(private deps: ReembedServiceDeps) {}
+
+  getStatus(userId: number): ReembedStatus | null {
+    return this.jobs.get(userId) ?? null;
+  }
+
+  /**
+   * Start re-embedding every memory of the user's agents that has no vector
+   * from the service's model. Returns false if a job is already running.
+   */
+  start(userId: number, embeddingService: EmbeddingService): boolean {
+    if (this.jobs.get(userId)?.running) return false;
+
+    const status: ReembedStatus = {
+      model: embeddingService.model,
+      running: true,
+      processed: 0,
+      failed: 0,
+      started_at: new Date(),
+      finished_at: null,
+      last_error: null,
+    };
+    this.jobs.set(userId, status);
+
+    this.run(userId, embeddingService, status)
+      .catch((err) => {
+        console.error(`[reembed] Job for user ${userId} failed:`, err);
+        status.last_error = err instanceof Error ? err.message : String(err);
+      })
+      .finally(() => {
+        status.running = false;
+        status.finished_at = new Date();
+      });
+    return true;
+  }
+
+  private async run(userId: number, embeddingService: EmbeddingService, status: ReembedStatus): Promise<void> {
+    const { model } = embeddingService;
+    let afterId = 0;
+
+    while (true) {
+      const memories = await this.deps.memoryRepository.listNeedingEmbedding(userId, model, afterId, BATCH_SIZE);
+      if (memories.length === 0) break;
+
+      for (const memory of memories) {
+        try {
+          const emb = await embeddingService.generate(`${memory.key}: ${memory.value}`);
+          await this.deps.memoryRepository.setEmbedding(memory.agent_id, memory.key, emb, model);
+          status.processed++;
+        } catch (err) {
+          status.failed++;
+          status.last_error = err instanceof Error ? err.message : String(err);
+        }
+      }
+      afterId = memories[memories.length - 1]!.id;
+    }
+
+    console.log(`[reembed] User ${userId}: ${status.processed} re-embedded with ${model}, ${status.failed} failed`);
+  }
+}
@@ -3,26 +3,58 @@ import type { Schedule } from "../types/models";
 import type { ScheduleRepository } from "../repositories/ScheduleRepository";
 import type { ConversationRepository } from "../repositories/ConversationRepository";
 import type { UserRepository } from "../repositories/UserRepository";
-import type { AgentFactory } from "./AgentFactory";
+import type { UsageRepository } from "../repositories/UsageRepository";
+import type { ModelProviderRepository } from "../repositories/ModelProviderRepository";
+import type { WorkflowRepository } from "../repositories/WorkflowRepository";
+import type { NotificationRepository } from "../repositories/NotificationRepository";
+import type { BudgetService } from "./BudgetService";
+import type { MemoryConsolidationService } from "./MemoryConsolidationService";
+import type { AgentFactory, CreateAgentOptions } from "./AgentFactory";
 import { DatabaseSession } from "./DatabaseSession";
 import { decrypt } from "../utils/encryption";
 import { computeNextRun } from "../utils/schedule";
-import { EmbeddingService } from "./EmbeddingService";
-import type { ApiKeys } from "./ModelResolver";
+import { createEmbeddingService } from "./EmbeddingService";
+import { recordUsage } from "../utils/usage";
+import { loadCustomProviders } from "../utils/modelProviders";
+import { getFinalModel, resolveModelChain, DEFAULT_MODEL, type ApiKeys } from "./ModelResolver";
+import { WorkflowRunner } from "./WorkflowRunner";
+import { renderTriggerFacts } from "../workflows/triggers";
 
 interface SchedulerServiceDeps {
   scheduleRepository: ScheduleRepository;
   agentFactory: AgentFactory;
   conversationRepository: ConversationRepository;
   userRepository: UserRepository;
+  usageRepository: UsageRepository | null;
+  budgetService: BudgetService | null;
+  modelProviderRepository: ModelProviderRepository | null;
+  memoryConsolidationService: MemoryConsolidationService | null;
+  /** Lets schedules start workflows; without it they run the prompt only */
+  workflowRepository: WorkflowRepository | null;
+  notificationRepository: NotificationRepository | null;
   encryptionSecret: string;
+  /** Public URL of the app, used in workflow approve/reject links */
+  frontendUrl?: string;
 }
 
 export class SchedulerService {
   private timer: ReturnType<typeof setTimeout> | null = null;
   private running = false;
+  private workflowRunner: WorkflowRunner | null;
 
-  constructor(private deps: SchedulerServiceDeps) {}
+  constructor(private deps: SchedulerServiceDeps) {
+    this.workflowRunner = deps.workflowRepository
+      ? new WorkflowRunner({
+          workflowRepository: deps.workflowRepository,
+          conversationRepository: deps.conversationRepository,
+          notificationRepository: deps.notificationRepository,
+          usageRepository: deps.usageRepository,
+          approvalLinks: deps.frontendUrl
+            ? { baseUrl: deps.frontendUrl, secret: deps.encryptionSecret }
+            : null,
+        })
+      : null;
+  }
 
   start(intervalMs = 30_000) {
     console.log(`Scheduler started (polling every ${intervalMs / 1000}s)`);
@@ -162,8 +194,16 @@ export class SchedulerService {
       if (user.ollama_url) {
         apiKeys.ollama_url = user.ollama_url;
       }
+      apiKeys.custom = await loadCustomProviders(
+        this.deps.modelProviderRepository,
+        { user_id: user.id },
+        this.deps.encryptionSecret
+      );
 
-      if (!apiKeys.openai && !apiKeys.anthropic && !apiKeys.google && !apiKeys.ollama_url) {
+      if (
+        !apiKeys.openai && !apiKeys.anthropic && !apiKeys.google && !apiKeys.ollama_url &&
+        Object.keys(apiKeys.custom).length === 0
+      ) {
         throw new Error("No API keys configured");
       }
 
@@ -173,6 +213,11 @@ export class SchedulerService {
         schedule.agent_id
       );
 
+      // Refuse to run once a hard budget limit is reached (error lands in the execution log)
+      const budgetGuard = this.deps.budgetService
+        ? await this.deps.budgetService.enforce({ user, agent: agentConfig })
+        : null;
+
       // Get or create conversation
       conversationId = schedule.conversation_id;
       if (schedule.conversation_mode === "new" || !conversationId) {
@@ -186,7 +231,7 @@ export class SchedulerService {
       }
 
       // Create agent config
-      const embeddingService = apiKeys.openai ? new EmbeddingService(apiKeys.openai) : null;
+      const embeddingService = createEmbeddingService(user.embedding_model, apiKeys);
 
       // Decrypt Google search credentials if available
       let googleSearchApiKey: string | undefined;
@@ -194,22 +239,55 @@ export class SchedulerService {
         googleSearchApiKey = await decrypt(user.google_search_api_key, this.deps.encryptionSecret);
       }
 
+      const agentOptions: CreateAgentOptions = {
+        conversationId,
+        embeddingService,
+        googleSearchApiKey,
+        googleSearchEngineId: user.google_search_engine_id,
+        domain: user.email.split("@")[1] || "",
+        stopWhen: budgetGuard?.stopWhen,
+        notifierOverride: schedule.notifier ?? undefined,
+        notifierDestinationOverride: schedule.notifier_destination ?? undefined,
+      };
+
+      // Schedules with a workflow drive it unattended instead of a single agent run
+      if (schedule.workflow_id && this.workflowRunner) {
+        const { error } = await this.workflowRunner.run({
+          userId: user.id,
+          conversationId,
+          workflowId: schedule.workflow_id,
+          prompt: schedule.prompt,
+          initialFacts: renderTriggerFacts(schedule.workflow_facts ?? {}, { prompt: schedule.prompt }),
+          createAgent: (workflowContext) =>
+            this.deps.agentFactory.createAgent(user.id, agentConfig.slug, () => {}, apiKeys, {
+              ...agentOptions,
+              workflowContext,
+            }),
+          verifierModel: resolveModelChain(
+            [agentConfig.model || DEFAULT_MODEL, ...(agentConfig.fallback_models ?? [])],
+            apiKeys
+          ),
+          source: "scheduled",
+          stopReason: () => budgetGuard?.exceeded ?? null,
+        });
+        if (error) throw new Error(error);
+
+        await this.deps.scheduleRepository.updateExecution(execution.id, {
+          status: "success",
+          completed_at: Date.now(),
+          conversation_id: conversationId,
+        });
+        console.log(`Schedule ${schedule.id} ran its workflow successfully`);
+        void this.deps.memoryConsolidationService?.consolidateConversation(conversationId);
+        return;
+      }
+
       const agentInstance = await this.deps.agentFactory.createAgent(
         user.id,
         agentConfig.slug,
         () => {}, // no-op status for scheduled execution
         apiKeys,
-        {
-          conversationId,
-          generateEmbedding: embeddingService
-            ? (text) => embeddingService.generate(text)
-            : undefined,
-          googleSearchApiKey,
-          googleSearchEngineId: user.google_search_engine_id,
-          domain: user.email.split("@")[1] || "",
-          notifierOverride: schedule.notifier ?? undefined,
-          notifierDestinationOverride: schedule.notifier_destination ?? undefined,
-        }
+        agentOptions
       );
 
       // Create session and add user message
@@ -222,8 +300,27 @@ export class SchedulerService {
         messages,
       });
 
+      await recordUsage(
+        this.deps.usageRepository,
+        {
+          user_id: user.id,
+          agent_id: agentInstance.id,
+          conversation_id: conversationId,
+          source: "scheduled",
+          model: agentInstance.model,
+        },
+        result.steps
+      );
+
       // Save response messages
-      await session.saveResponseMessages(result.response.messages as ModelMessage[]);
+      await session.saveResponseMessages(
+        result.response.messages as ModelMessage[],
+        getFinalModel(result.steps, agentInstance.model)
+      );
+
+      if (budgetGuard?.exceeded) {
+        throw new Error(budgetGuard.exceeded);
+      }
 
       // Success
       await this.deps.scheduleRepository.updateExecution(execution.id, {
@@ -233,6 +330,9 @@ export class SchedulerService {
       });
 
       console.log(`Schedule ${schedule.id} executed successfully`);
+
+      // Extract memories from the run in the background
+      void this.deps.memoryConsolidationService?.consolidateConversation(conversationId);
     } catch (err) {
       console.error(`Schedule ${schedule.id} execution failed:`, err);
 
@@ -0,0 +1,186 @@
+import type { LanguageModel, ModelMessage } from "ai";
+import type { ConversationSource, WorkflowExecution } from "../types/models";
+import type { WorkflowRepository } from "../repositories/WorkflowRepository";
+import type { ConversationRepository } from "../repositories/ConversationRepository";
+import type { NotificationRepository } from "../repositories/NotificationRepository";
+import type { UsageRepository } from "../repositories/UsageRepository";
+import type { AgentInstance, CreateAgentOptions } from "./AgentFactory";
+import { WorkflowEngine } from "../workflows/WorkflowEngine";
+import { DatabaseSession } from "./DatabaseSession";
+import { recordUsage } from "../utils/usage";
+import { getFinalModel } from "./ModelResolver";
+
+/** Agent turns a single unattended run may take, across all steps */
+const MAX_TURNS = 25;
+/** Agent turns a conversation step gets to pass its gate before the run gives up */
+const MAX_STEP_ATTEMPTS = 3;
+
+const UNATTENDED_NOTE =
+  "This workflow is running unattended — nobody is here to answer questions. " +
+  "Work out each step's facts from this message and your tools, and record them; don't ask for input.";
+
+interface WorkflowRunnerDeps {
+  workflowRepository: WorkflowRepository;
+  conversationRepository: ConversationRepository;
+  notificationRepository: NotificationRepository | null;
+  usageRepository: UsageRepository | null;
+  /** Signs the approve/reject links in approval requests */
+  approvalLinks?: { baseUrl: string; secret: string } | null;
+}
+
+export type WorkflowContext = NonNullable<CreateAgentOptions["workflowContext"]>;
+
+export interface UnattendedRunOptions {
+  userId: number;
+  conversationId: number;
+  workflowId: number;
+  /** Recorded as the user message that kicks off the run */
+  prompt: string;
+  /** Facts seeded into the new execution (see WorkflowEngine.startWorkflow) */
+  initialFacts: Record<string, unknown>;
+  /** Builds the agent for the step the workflow is on */
+  createAgent: (workflowContext: WorkflowContext) => Promise<AgentInstance>;
+  /** Checks gates the way interactive chat does, when set */
+  verifierModel?: LanguageModel;
+  source: ConversationSource;
+  /** Checked after each agent turn; a message stops the run (e.g. a budget limit) */
+  stopReason?: () => string | null;
+}
+
+export interface UnattendedRunResult {
+  execution: WorkflowExecution;
+  /** Why the run didn't finish cleanly; null when it completed or is waiting on an approval */
+  error: string | null;
+}
+
+/**
+ * Drives a workflow without a user present, for schedules and MQTT
+ * triggers: starts it with seeded facts, runs action steps, and gives the
+ * agent a turn on each conversation step until the gate passes. The run
+ * ends when the workflow completes or fails, pauses for an approval (the
+ * decision resumes it in the conversation), or a step can't be finished —
+ * in which case the execution is left running for someone to pick up, and
+ * the timeout service ends it if nobody does.
+ */
+export class WorkflowRunner {
+  private engine: WorkflowEngine;
+
+  constructor(private deps: WorkflowRunnerDeps) {
+    this.engine = new WorkflowEngine({
+      workflowRepository: deps.workflowRepository,
+      notificationRepository: deps.notificationRepository,
+      approvalLinks: deps.approvalLinks,
+    });
+  }
+
+  async run(options: UnattendedRunOptions): Promise<UnattendedRunResult> {
+    const { conversationId } = options;
+    const repo = this.deps.workflowRepository;
+
+    if (await repo.getActiveExecution(conversationId)) {
+      throw new Error("A workflow is already running in this conversation");
+    }
+
+    const { execution, definition, rejectedFacts } = await this.engine.startWorkflow(
+      conversationId,
+      options.workflowId,
+      options.initialFacts
+    );
+    console.log(`[workflows] Running "${definition.name}" unattended (execution ${execution.id})`);
+
+    const session = new DatabaseSession(conversationId, this.deps.conversationRepository);
+    let kickoff = `${options.prompt}\n\n${UNATTENDED_NOTE}`;
+    if (rejectedFacts.length > 0) {
+      kickoff += `\n\nThese starting values were rejected and still need to be found:\n${rejectedFacts.map((r) => `- ${r}`).join("\n")}`;
+    }
+    await session.addUserMessage(kickoff);
+
+    let attempts = 0;
+    let stopped: string | null = null;
+
+    for (let turn = 0; turn < MAX_TURNS && attempts < MAX_STEP_ATTEMPTS; turn++) {
+      // The innermost execution: a sub-workflow step runs the turns of the workflow it uses
+      const active = await this.engine.getActiveWorkflow(conversationId);
+      if (!active || active.execution.status !== "in_progress") break;
+      const executionId = active.execution.id;
+
+      const stepIndex = active.execution.current_step_index;
+      const step = active.definition.steps[stepIndex];
+      if (!step) break;
+
+      const instance = await options.createAgent({
+        engine: this.engine,
+        definition: active.definition,
+        executionId,
+        currentStep: step,
+        currentStepIndex: stepIndex,
+        facts: active.state.facts,
+      });
+
+      if (step.type === "action") {
+        const result = await this.engine.runActionSteps(
+          executionId,
+          stepIndex,
+          active.definition,
+          instance.tools,
+          instance.toolContext
+        );
+        attempts = result?.advanced || result?.completed || result?.failed ? 0 : attempts + 1;
+        continue;
+      }
+
+      const result = await instance.agent.generate({ messages: await session.getMessages() });
+      await recordUsage(
+        this.deps.usageRepository,
+        {
+          user_id: options.userId,
+          agent_id: instance.id,
+          conversation_id: conversationId,
+          source: options.source,
+          model: instance.model,
+        },
+        result.steps
+      );
+      await session.saveResponseMessages(
+        result.response.messages as ModelMessage[],
+        getFinalModel(result.steps, instance.model)
+      );
+
+      stopped = options.stopReason?.() ?? null;
+      if (stopped) break;
+
+      const turnResult = await this.engine.tryAdvance(
+        executionId,
+        stepIndex,
+        active.definition,
+        options.verifierModel
+      );
+      if (turnResult.advanced || turnResult.completed || turnResult.failed) {
+        attempts = 0;
+      } else {
+        attempts++;
+        // Nudge the agent with what the gate still needs
+        await session.addUserMessage(
+          `${turnResult.systemMessage || `Step "${step.name}" isn't complete yet.`}\n\n${UNATTENDED_NOTE}`
+        );
+      }
+    }
+
+    const final = (await repo.findExecutionById(execution.id)) ?? execution;
+    // A run still in progress may be stopped (or waiting on an approval) inside a sub-workflow
+    const innermost = final.status === "in_progress" ? await repo.getActiveExecution(conversationId) : null;
+    return { execution: final, error: stopped ?? this.describeOutcome(innermost ?? final, definition.name) };
+  }
+
+  private describeOutcome(execution: WorkflowExecution, name: string): string | null {
+    switch (execution.status) {
+      case "completed":
+      case "awaiting_approval":
+        return null;
+      case "in_progress":
+        return `Workflow "${name}" couldn't finish step "${execution.current_step_id}" unattended; it can be continued in the conversation`;
+      default:
+        return `Workflow "${name}" ended ${execution.status.replace("_", " ")} at step "${execution.current_step_id}"`;
+    }
+  }
+}
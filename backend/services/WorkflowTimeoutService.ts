@@ -0,0 +1,93 @@
+import type { WorkflowExecution } from "../types/models";
+import type { WorkflowRepository } from "../repositories/WorkflowRepository";
+import type { ConversationRepository } from "../repositories/ConversationRepository";
+import type { NotificationRepository } from "../repositories/NotificationRepository";
+import { WorkflowEngine } from "../workflows/WorkflowEngine";
+import { queueNotification } from "./NotificationService";
+
+interface WorkflowTimeoutServiceDeps {
+  workflowRepository: WorkflowRepository;
+  conversationRepository: ConversationRepository;
+  notificationRepository: NotificationRepository | null;
+}
+
+/**
+ * Background sweeper that times out workflow executions past their workflow
+ * or step timeout, or waiting on an expired approval request. The user is
+ * told in the conversation and through a notification, and can resume the
+ * execution from the Workflows page.
+ */
+export class WorkflowTimeoutService {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private engine: WorkflowEngine;
+
+  constructor(private deps: WorkflowTimeoutServiceDeps) {
+    this.engine = new WorkflowEngine({ workflowRepository: deps.workflowRepository });
+  }
+
+  start(intervalMs = 60_000) {
+    console.log(`Workflow timeout service started (polling every ${intervalMs / 1000}s)`);
+    this.tick(intervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    console.log("Workflow timeout service stopped");
+  }
+
+  private tick(intervalMs: number) {
+    this.timer = setTimeout(async () => {
+      if (!this.running) {
+        this.running = true;
+        try {
+          await this.poll();
+        } catch (err) {
+          console.error("Workflow timeout poll error:", err);
+        } finally {
+          this.running = false;
+        }
+      }
+      this.tick(intervalMs);
+    }, intervalMs);
+  }
+
+  private async poll() {
+    const timedOut = await this.engine.enforceTimeouts();
+    for (const { execution, reason } of timedOut) {
+      await this.report(execution, reason);
+    }
+  }
+
+  private async report(execution: WorkflowExecution, reason: string) {
+    try {
+      const conversation = await this.deps.conversationRepository.findById(execution.conversation_id);
+      if (!conversation) return;
+
+      const content = `${reason}. It can be resumed from the Workflows page.`;
+      await this.deps.conversationRepository.addMessage({
+        conversation_id: conversation.id,
+        role: "assistant",
+        content,
+        raw_data: { role: "assistant", content },
+        agent_id: conversation.agent_id,
+      });
+
+      if (this.deps.notificationRepository) {
+        await queueNotification(this.deps.notificationRepository, {
+          user_id: conversation.user_id,
+          agent_id: conversation.agent_id,
+          conversation_id: conversation.id,
+          message: content,
+          urgency: "normal",
+        });
+      }
+      console.log(`[workflows] Execution ${execution.id} timed out: ${reason}`);
+    } catch (err) {
+      console.error(`[workflows] Failed to report timeout of execution ${execution.id}:`, err);
+    }
+  }
+}
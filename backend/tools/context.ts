@@ -3,9 +3,13 @@ import type { SkillRepository } from "../repositories/SkillRepository";
 import type { ScheduleRepository } from "../repositories/ScheduleRepository";
 import type { NotificationRepository } from "../repositories/NotificationRepository";
 import type { MqttRepository } from "../repositories/MqttRepository";
+import type { WorkflowRepository } from "../repositories/WorkflowRepository";
 import type { MqttService } from "../services/MqttService";
 import type { NotifierChannel } from "../types/models";
 import type { WorkflowEngine } from "../workflows/WorkflowEngine";
+import type { WorkflowStep } from "../workflows/types";
+import type { EmbeddingService } from "../services/EmbeddingService";
+import type { MemorySearchWeights } from "../services/MemorySearch";
 
 export type ToolStatusUpdate = (
   /** Message to display to the user as the status update */
@@ -21,6 +25,8 @@ export interface WorkflowToolContext {
   workflowEngine: WorkflowEngine;
   executionId: number;
   currentStepId: string;
+  /** Definition of the current step, used to validate reported facts */
+  currentStep: WorkflowStep;
 }
 
 /**
@@ -41,6 +47,8 @@ export interface AgentToolContext {
   notificationRepository: NotificationRepository;
   mqttRepository: MqttRepository | null;
   mqttService: MqttService | null;
+  /** Resolves workflows that schedules and subscriptions start */
+  workflowRepository?: WorkflowRepository | null;
 
   // Notifier override: schedule.notifier > agent.default_notifier > all channels
   notifierOverride?: NotifierChannel | null;
@@ -49,7 +57,9 @@ export interface AgentToolContext {
   notifierDestination?: string | null;
 
   // Optional capabilities
-  generateEmbedding?: (text: string) => Promise<number[]>;
+  embeddingService?: EmbeddingService;
+  /** The agent's memory search ranking overrides, for recall */
+  memorySearchWeights?: Partial<MemorySearchWeights>;
   googleSearchApiKey?: string;
   googleSearchEngineId?: string;
   googleServiceAccountKey?: string; // Decrypted Google service account JSON
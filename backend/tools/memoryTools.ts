@@ -2,9 +2,10 @@ import { tool } from "ai";
 import type { Tool as AiTool } from "ai";
 import { z } from "zod";
 import { getContext } from "./context";
+import { searchMemories } from "../services/MemorySearch";
 
-const CORE_LIMIT = 10;
-const WORKING_LIMIT = 30;
+export const CORE_LIMIT = 10;
+export const WORKING_LIMIT = 30;
 
 // ---------- remember ----------
 const rememberParams = z.object({
@@ -20,7 +21,7 @@ const remember = tool({
     "Store important information for future conversations. Core memories are permanent identity-level facts. Working memories are active context that auto-archives when unused. Use 'recall' to search archived memories.",
   inputSchema: rememberParams,
   execute: async (params, options) => {
-    const { updateStatus, agentId, memoryRepository, generateEmbedding } = getContext(options);
+    const { updateStatus, agentId, memoryRepository, embeddingService } = getContext(options);
     updateStatus("Storing memory...");
     const tier = params.tier || "working";
 
@@ -55,9 +56,9 @@ const remember = tool({
       });
 
       // Fire-and-forget embedding generation
-      if (generateEmbedding) {
-        generateEmbedding(`${params.key}: ${params.value}`)
-          .then((emb) => memoryRepository.setEmbedding(agentId, params.key, emb))
+      if (embeddingService) {
+        embeddingService.generate(`${params.key}: ${params.value}`)
+          .then((emb) => memoryRepository.setEmbedding(agentId, params.key, emb, embeddingService.model))
           .catch((err) => console.error("Embedding generation failed:", err));
       }
 
@@ -81,22 +82,19 @@ const recallParams = z.object({
 
 const recall = tool({
   description:
-    "Search your memory archive using semantic similarity. Returns matching memories from all tiers. Referenced archived memories are automatically promoted to Working memory.",
+    "Search your memory archive by keywords and meaning. Exact names and IDs match directly, and recently used memories rank higher. Returns matching memories from all tiers. Referenced archived memories are automatically promoted to Working memory.",
   inputSchema: recallParams,
   execute: async (params, options) => {
-    const { updateStatus, agentId, memoryRepository, generateEmbedding } = getContext(options);
+    const { updateStatus, agentId, memoryRepository, embeddingService, memorySearchWeights } = getContext(options);
     updateStatus("Searching memories...");
     const limit = Math.min(Math.max(params.limit || 5, 1), 10);
 
     try {
-      let results: Array<{ key: string; value: string; tier: string; access_count: number; similarity?: number }>;
-
-      if (generateEmbedding) {
-        const emb = await generateEmbedding(params.query);
-        results = await memoryRepository.semanticSearch(agentId, emb, limit);
-      } else {
-        results = (await memoryRepository.search(agentId, params.query)).slice(0, limit);
-      }
+      const results = await searchMemories(memoryRepository, agentId, params.query, {
+        limit,
+        embeddingService,
+        weights: memorySearchWeights,
+      });
 
       if (results.length === 0) {
         return JSON.stringify({ results: [], message: "No matching memories found." });
@@ -122,7 +120,8 @@ const recall = tool({
           value: r.value,
           tier: r.tier,
           access_count: r.access_count,
-          similarity: (r as any).similarity ?? null,
+          score: Math.round(r.score * 1000) / 1000,
+          similarity: r.similarity,
         })),
       });
     } catch (error) {
@@ -2,6 +2,8 @@ import { tool } from "ai";
 import type { Tool as AiTool } from "ai";
 import { z } from "zod";
 import { getContext } from "./context";
+import { resolveWorkflowTrigger } from "./workflowTrigger";
+import { MQTT_TRIGGER_VARIABLES } from "../workflows/triggers";
 
 const MAX_SUBSCRIPTIONS_PER_USER = 50;
 
@@ -44,6 +46,18 @@ const subscribeParams = z.object({
   ),
   rate_limit_max: z.number().describe("Maximum trigger executions within the rate limit window. Default: 5"),
   rate_limit_window_minutes: z.number().describe("Rate limit window in minutes. Default: 1"),
+  workflow: z
+    .string()
+    .optional()
+    .describe(
+      "Name of a workflow to start for each message instead of a plain run. The workflow is driven to completion without a user present."
+    ),
+  workflow_facts: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe(
+      "Facts to seed the workflow with: keys are 'fact_name' (first step) or 'step_id.fact_name', values are templates using {topic}, {payload} or {payload.field} for JSON payloads (e.g. {'sensor': '{topic}', 'level': '{payload.level}'})."
+    ),
 });
 
 const mqtt_subscribe = tool({
@@ -51,7 +65,8 @@ const mqtt_subscribe = tool({
     "Subscribe to an MQTT topic. When messages arrive, this agent will be triggered with the prompt template. Supports MQTT wildcards: '+' (single level) and '#' (multi-level).",
   inputSchema: subscribeParams,
   execute: async (params, options) => {
-    const { updateStatus, userId, agentId, conversationId, mqttRepository, mqttService } = getContext(options);
+    const ctx = getContext(options);
+    const { updateStatus, userId, agentId, conversationId, mqttRepository, mqttService } = ctx;
     updateStatus(`Subscribing to ${params.topic}...`);
     try {
       if (!mqttRepository || !mqttService) {
@@ -72,6 +87,9 @@ const mqtt_subscribe = tool({
         });
       }
 
+      const trigger = await resolveWorkflowTrigger(ctx, params.workflow, params.workflow_facts, MQTT_TRIGGER_VARIABLES);
+      if ("error" in trigger) return JSON.stringify({ error: trigger.error });
+
       const windowMs = (params.rate_limit_window_minutes ?? 1) * 60 * 1000;
 
       const sub = await mqttRepository.createSubscription({
@@ -84,6 +102,8 @@ const mqtt_subscribe = tool({
         conversation_id: params.conversation_mode === "continue" && conversationId ? conversationId : undefined,
         rate_limit_window_ms: windowMs,
         rate_limit_max_triggers: params.rate_limit_max ?? 5,
+        workflow_id: trigger.workflow_id,
+        workflow_facts: trigger.workflow_facts,
       });
 
       await mqttService.refreshSubscriptions(userId);
@@ -154,6 +174,7 @@ const mqtt_list_subscriptions = tool({
           conversation_mode: s.conversation_mode,
           rate_limit: `${s.rate_limit_max_triggers} per ${Number(s.rate_limit_window_ms) / 60000}min`,
           enabled: s.enabled,
+          workflow_id: s.workflow_id,
         }))
       );
     } catch (err) {
@@ -2,6 +2,7 @@ import { tool } from "ai";
 import type { Tool as AiTool } from "ai";
 import { z } from "zod";
 import { getContext } from "./context";
+import { getEnabledChannels } from "../services/NotificationService";
 
 const notifyParams = z.object({
   message: z.string().describe("The notification message"),
@@ -26,21 +27,8 @@ const notify_user = tool({
       urgency: params.urgency,
     });
 
-    const settings = await notificationRepository.getSettings(userId);
     // Determine which channels are enabled based on user settings
-    const enabledChannels: ('email' | 'webhook' | 'pushover')[] = [];
-    const hasEmailRecipients =
-      (settings?.email_addresses && settings.email_addresses.length > 0) ||
-      !!settings?.notification_email;
-    if (settings?.email_enabled && hasEmailRecipients) {
-      enabledChannels.push("email");
-    }
-    if (settings?.webhook_urls?.length) {
-      enabledChannels.push("webhook");
-    }
-    if (settings?.pushover_enabled && settings.pushover_user_key) {
-      enabledChannels.push("pushover");
-    }
+    const enabledChannels = getEnabledChannels(await notificationRepository.getSettings(userId));
 
     // Apply notifier override: schedule.notifier > agent.default_notifier > all channels
     const channels = notifierOverride
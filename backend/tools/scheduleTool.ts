@@ -3,6 +3,8 @@ import type { Tool as AiTool } from "ai";
 import { z } from "zod";
 import { computeFirstRun } from "../utils/schedule";
 import { getContext } from "./context";
+import { resolveWorkflowTrigger } from "./workflowTrigger";
+import { SCHEDULE_TRIGGER_VARIABLES } from "../workflows/triggers";
 
 const schedulePromptParams = z.object({
   prompt: z.string().describe("The message to send to yourself later"),
@@ -36,6 +38,18 @@ const schedulePromptParams = z.object({
     .describe(
       "Optional named destination within the notifier channel (e.g. a specific webhook name or email address name). Only meaningful when 'notifier' is also set."
     ),
+  workflow: z
+    .string()
+    .optional()
+    .describe(
+      "Name of a workflow to start each time the schedule runs instead of a plain run. The workflow is driven to completion without a user present."
+    ),
+  workflow_facts: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe(
+      "Facts to seed the workflow with: keys are 'fact_name' (first step) or 'step_id.fact_name', values are templates using {prompt} (e.g. {'report_week': '{prompt}'})."
+    ),
 });
 
 const listSchedulesParams = z.object({});
@@ -49,7 +63,8 @@ const schedule_prompt = tool({
     "Schedule a message to be sent to yourself in the future. Use for follow-ups, recurring checks, or delayed tasks.",
   inputSchema: schedulePromptParams,
   execute: async (params, options) => {
-    const { updateStatus, userId, agentId, conversationId, timezone, scheduleRepository } = getContext(options);
+    const ctx = getContext(options);
+    const { updateStatus, userId, agentId, conversationId, timezone, scheduleRepository } = ctx;
     updateStatus("Creating schedule...");
 
     if (params.schedule_type === "interval") {
@@ -59,6 +74,9 @@ const schedule_prompt = tool({
       }
     }
 
+    const trigger = await resolveWorkflowTrigger(ctx, params.workflow, params.workflow_facts, SCHEDULE_TRIGGER_VARIABLES);
+    if ("error" in trigger) return JSON.stringify({ error: trigger.error });
+
     const count = await scheduleRepository.countByUser(userId);
     if (count >= 50) {
       return JSON.stringify({ error: "Schedule limit reached (50). Delete unused schedules first." });
@@ -83,6 +101,8 @@ const schedule_prompt = tool({
       next_run_at: nextRunAt ?? undefined,
       notifier: params.notifier ?? null,
       notifier_destination: params.notifier_destination ?? null,
+      workflow_id: trigger.workflow_id,
+      workflow_facts: trigger.workflow_facts,
     });
 
     console.log(
@@ -115,6 +135,7 @@ const list_schedules = tool({
         type: s.schedule_type,
         value: s.schedule_value,
         enabled: s.enabled,
+        workflow_id: s.workflow_id,
         next_run: s.next_run_at,
         last_run: s.last_run_at,
       }))
@@ -1,14 +1,251 @@
 import { tool } from "ai";
 import type { Tool as AiTool } from "ai";
-import type { UrlTool as UrlToolModel } from "../types/models";
+import type { UrlTool as UrlToolModel, UrlToolParameter, UrlToolParameterType } from "../types/models";
 import { z } from "zod";
 import type { ToolStatusUpdate } from "./context";
 
+/**
+ * The subset of a personal or team URL tool needed to build and run requests.
+ */
+export type UrlToolDefinition = Pick<
+  UrlToolModel,
+  "name" | "description" | "url" | "method" | "headers" | "parameters" | "query_params" | "body_template"
+>;
+
+export type UrlToolArgs = Record<string, string | number | boolean | undefined>;
+
+export interface RenderedUrlToolRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export const URL_TOOL_PARAMETER_TYPES: UrlToolParameterType[] = ["string", "number", "integer", "boolean"];
+
+const PARAMETER_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const PLACEHOLDER_PATTERN = /\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g;
+/** A placeholder that is a whole JSON string ("{name}"), or one inside other text */
+const BODY_PLACEHOLDER_PATTERN = /"\{([a-zA-Z_][a-zA-Z0-9_]*)\}"|\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g;
+const METHODS_WITH_BODY = ["POST", "PUT", "PATCH"];
+
+/**
+ * Validate a URL tool's parameter list and make sure every {placeholder} used in
+ * its templates refers to a declared parameter. Returns an error message or null.
+ */
+export function validateUrlToolDefinition(definition: {
+  url: string;
+  headers?: Record<string, string> | null;
+  parameters?: UrlToolParameter[];
+  query_params?: Record<string, string> | null;
+  body_template?: string | null;
+}): string | null {
+  const parameters = definition.parameters ?? [];
+  if (!Array.isArray(parameters)) {
+    return "Parameters must be an array";
+  }
+
+  const names = new Set<string>();
+  for (const param of parameters) {
+    if (!param || typeof param.name !== "string" || !PARAMETER_NAME_PATTERN.test(param.name)) {
+      return `Invalid parameter name: "${param?.name ?? ""}". Use letters, numbers and underscores.`;
+    }
+    if (names.has(param.name)) {
+      return `Duplicate parameter name: "${param.name}"`;
+    }
+    if (!URL_TOOL_PARAMETER_TYPES.includes(param.type)) {
+      return `Invalid type for parameter "${param.name}". Must be one of: ${URL_TOOL_PARAMETER_TYPES.join(", ")}`;
+    }
+    names.add(param.name);
+  }
+
+  const templates: Array<[string, string]> = [["URL", definition.url]];
+  for (const [key, value] of Object.entries(definition.headers ?? {})) {
+    templates.push([`header "${key}"`, value]);
+  }
+  for (const [key, value] of Object.entries(definition.query_params ?? {})) {
+    templates.push([`query parameter "${key}"`, value]);
+  }
+  if (definition.body_template) {
+    templates.push(["body template", definition.body_template]);
+  }
+
+  for (const [label, template] of templates) {
+    for (const placeholder of extractPlaceholders(template)) {
+      if (!names.has(placeholder)) {
+        return `The ${label} references {${placeholder}}, which is not a declared parameter`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * List the {placeholder} names referenced in a template string
+ */
+export function extractPlaceholders(template: string): string[] {
+  return Array.from(template.matchAll(PLACEHOLDER_PATTERN), (m) => m[1]!);
+}
+
+/**
+ * Names of required parameters that have no value in args
+ */
+export function findMissingUrlToolArgs(parameters: UrlToolParameter[], args: UrlToolArgs): string[] {
+  return parameters
+    .filter((p) => p.required && (args[p.name] === undefined || args[p.name] === ""))
+    .map((p) => p.name);
+}
+
+/**
+ * Build the zod input schema the agent sees for a URL tool
+ */
+export function buildUrlToolInputSchema(parameters: UrlToolParameter[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const param of parameters) {
+    let field: z.ZodTypeAny;
+    switch (param.type) {
+      case "number":
+        field = z.number();
+        break;
+      case "integer":
+        field = z.number().int();
+        break;
+      case "boolean":
+        field = z.boolean();
+        break;
+      default:
+        field = z.string();
+    }
+    if (param.description) {
+      field = field.describe(param.description);
+    }
+    shape[param.name] = param.required ? field : field.optional();
+  }
+
+  return z.object(shape);
+}
+
+/**
+ * Substitute {param} placeholders in the tool's URL, query, header and body
+ * templates. Parameters not consumed by any template are sent as a JSON body
+ * for POST/PUT/PATCH requests when no body template is configured.
+ */
+export function renderUrlToolRequest(
+  definition: UrlToolDefinition,
+  args: UrlToolArgs
+): RenderedUrlToolRequest {
+  const declared = new Set((definition.parameters ?? []).map((p) => p.name));
+  const used = new Set<string>();
+
+  const substitute = (template: string, encode: (value: string) => string) =>
+    template.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+      if (!declared.has(name)) return match;
+      used.add(name);
+      const value = args[name];
+      return value === undefined || value === null ? "" : encode(String(value));
+    });
+
+  const url = new URL(substitute(definition.url, encodeURIComponent));
+
+  for (const [key, template] of Object.entries(definition.query_params ?? {})) {
+    const value = substitute(template, (v) => v);
+    if (value !== "") {
+      url.searchParams.set(key, value);
+    }
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [key, template] of Object.entries(definition.headers ?? {})) {
+    headers[key] = substitute(template, (v) => v);
+  }
+
+  const method = definition.method.toUpperCase();
+  let body: string | undefined;
+
+  if (definition.body_template) {
+    // "{param}" as a whole JSON string becomes the typed JSON value;
+    // placeholders embedded in other text are escaped as JSON string content.
+    // One pass over the template, so values are never substituted into again.
+    body = definition.body_template.replace(BODY_PLACEHOLDER_PATTERN, (match, whole?: string, embedded?: string) => {
+      const name = (whole ?? embedded)!;
+      if (!declared.has(name)) return match;
+      used.add(name);
+      const value = args[name];
+      if (whole !== undefined) return value === undefined ? "null" : JSON.stringify(value);
+      return value === undefined || value === null ? "" : JSON.stringify(String(value)).slice(1, -1);
+    });
+  } else if (METHODS_WITH_BODY.includes(method)) {
+    const remaining: Record<string, unknown> = {};
+    for (const name of declared) {
+      if (!used.has(name) && args[name] !== undefined) {
+        remaining[name] = args[name];
+      }
+    }
+    if (Object.keys(remaining).length > 0) {
+      body = JSON.stringify(remaining);
+    }
+  }
+
+  if (body !== undefined && !Object.keys(headers).some((h) => h.toLowerCase() === "content-type")) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  return { url: url.toString(), method, headers, body };
+}
+
+/**
+ * Execute a URL tool with the given arguments and return a JSON-serialisable result
+ */
+export async function executeUrlTool(
+  definition: UrlToolDefinition,
+  args: UrlToolArgs
+): Promise<{ success: boolean; status?: number; data?: unknown; error?: string }> {
+  try {
+    const request = renderUrlToolRequest(definition, args);
+
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+    });
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: `HTTP ${response.status}: ${response.statusText}`,
+        status: response.status,
+      };
+    }
+
+    const contentType = response.headers.get("content-type");
+    let data: any;
+
+    if (contentType?.includes("application/json")) {
+      data = await response.json();
+    } else {
+      data = await response.text();
+    }
+
+    return {
+      success: true,
+      status: response.status,
+      data,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
 /**
  * Creates a tool that makes HTTP requests to a configured URL
  */
 export function createUrlTool(
-  urlToolConfig: UrlToolModel,
+  urlToolConfig: UrlToolDefinition,
   updateStatus: ToolStatusUpdate
 ): Record<string, AiTool> {
   const name = urlToolConfig.name.replace(/[^a-z0-9_]/gi, "_").toLowerCase();
@@ -17,50 +254,17 @@ export function createUrlTool(
     description:
       urlToolConfig.description ||
       `Make a ${urlToolConfig.method} request to ${urlToolConfig.url}`,
-    inputSchema: z.object({}),
-    execute: async () => {
+    inputSchema: buildUrlToolInputSchema(urlToolConfig.parameters ?? []),
+    execute: async (args: UrlToolArgs) => {
       updateStatus(`Loading data from ${urlToolConfig.name}...`);
 
-      try {
-        const headers: HeadersInit = {
-          ...(urlToolConfig.headers || {}),
-        };
-
-        const response = await fetch(urlToolConfig.url, {
-          method: urlToolConfig.method,
-          headers,
-        });
-
-        if (!response.ok) {
-          return JSON.stringify({
-            success: false,
-            error: `HTTP ${response.status}: ${response.statusText}`,
-            status: response.status,
-          });
-        }
-
-        const contentType = response.headers.get("content-type");
-        let data: any;
-
-        if (contentType?.includes("application/json")) {
-          data = await response.json();
-        } else {
-          data = await response.text();
-        }
+      const result = await executeUrlTool(urlToolConfig, args);
 
+      if (result.success) {
         updateStatus(`Loaded data from ${urlToolConfig.name} successfully.`);
-
-        return JSON.stringify({
-          success: true,
-          status: response.status,
-          data,
-        });
-      } catch (error) {
-        return JSON.stringify({
-          success: false,
-          error: error instanceof Error ? error.message : String(error),
-        });
       }
+
+      return JSON.stringify(result);
     },
   });
 
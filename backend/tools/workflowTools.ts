@@ -8,6 +8,7 @@
 import { tool } from "ai";
 import { z } from "zod";
 import { getWorkflowContext } from "./context";
+import type { FactValidationError } from "../workflows/types";
 
 /**
  * Tool for agents to report facts they've collected during a workflow step.
@@ -19,7 +20,9 @@ export const workflowTools = {
       "Report one or more facts collected during the current workflow step. " +
       "Call this whenever you gather a piece of required information, whether from the user, " +
       "a tool result, or your own reasoning. Each fact should match one of the required_facts " +
-      "listed in the current step. Report facts incrementally as you collect them.",
+      "listed in the current step and its declared type (dates as YYYY-MM-DD, enums as one of the " +
+      "allowed values, lists as arrays). Report facts incrementally as you collect them. Invalid " +
+      "facts are not recorded; the result lists what to fix.",
     inputSchema: z.object({
       facts: z.array(
         z.object({
@@ -37,33 +40,37 @@ export const workflowTools = {
         return "No active workflow. Facts not recorded.";
       }
 
-      const { workflowEngine, executionId, currentStepId } = ctx;
-      const recorded: string[] = [];
-      const errors: string[] = [];
+      const { workflowEngine, executionId, currentStep } = ctx;
+      const recorded: Record<string, unknown> = {};
+      const errors: FactValidationError[] = [];
 
       for (const fact of params.facts) {
         try {
-          await workflowEngine.setFact(
+          const result = await workflowEngine.setFact(
             executionId,
-            currentStepId,
+            currentStep,
             fact.name,
             fact.value,
             fact.source
           );
-          recorded.push(`${fact.name} = ${JSON.stringify(fact.value)}`);
+          if (result.ok) {
+            recorded[fact.name] = result.value;
+          } else {
+            errors.push(...result.errors);
+          }
         } catch (err) {
-          errors.push(`Failed to record ${fact.name}: ${err instanceof Error ? err.message : String(err)}`);
+          errors.push({
+            fact: fact.name,
+            path: fact.name,
+            message: `Failed to record ${fact.name}: ${err instanceof Error ? err.message : String(err)}`,
+          });
         }
       }
 
-      let result = "";
-      if (recorded.length > 0) {
-        result += `Recorded ${recorded.length} fact(s): ${recorded.join(", ")}`;
-      }
-      if (errors.length > 0) {
-        result += `\nErrors: ${errors.join(", ")}`;
-      }
-      return result || "No facts to record.";
+      return JSON.stringify({
+        recorded,
+        ...(errors.length > 0 ? { errors } : {}),
+      });
     },
   }),
 };
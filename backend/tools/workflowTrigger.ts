@@ -0,0 +1,39 @@
+import type { AgentToolContext } from "./context";
+import { WorkflowParseError } from "../workflows/parser";
+import { loadWorkflowDefinition } from "../workflows/references";
+import { validateTriggerFacts } from "../workflows/triggers";
+
+/**
+ * Look up the workflow a schedule or subscription should start, by name,
+ * and check its fact mapping. Shared by schedule_prompt and mqtt_subscribe.
+ */
+export async function resolveWorkflowTrigger(
+  ctx: AgentToolContext,
+  workflowName: string | undefined,
+  workflowFacts: Record<string, string> | undefined,
+  variables: string[]
+): Promise<{ workflow_id: number | null; workflow_facts: Record<string, string> } | { error: string }> {
+  if (!workflowName) {
+    return workflowFacts && Object.keys(workflowFacts).length > 0
+      ? { error: "workflow_facts needs a workflow to seed" }
+      : { workflow_id: null, workflow_facts: {} };
+  }
+  if (!ctx.workflowRepository) return { error: "Workflows are not available" };
+
+  const workflow = await ctx.workflowRepository.findByName(ctx.userId, workflowName);
+  if (!workflow) return { error: `Workflow "${workflowName}" not found` };
+
+  try {
+    const error = validateTriggerFacts(
+      workflowFacts ?? {},
+      await loadWorkflowDefinition(ctx.workflowRepository, ctx.userId, workflow.yaml_content, { name: workflow.name }),
+      variables
+    );
+    if (error) return { error };
+  } catch (err) {
+    if (err instanceof WorkflowParseError) return { error: `Workflow "${workflowName}" is invalid: ${err.message}` };
+    throw err;
+  }
+
+  return { workflow_id: workflow.id, workflow_facts: workflowFacts ?? {} };
+}
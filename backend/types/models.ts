@@ -13,6 +13,7 @@ export interface User {
   google_search_engine_id?: string;
   google_service_account_key?: string; // Encrypted JSON (Google service account credentials)
   ollama_url?: string; // Base URL of user's Ollama instance
+  embedding_model?: string | null; // "provider:model-id" for memory search; null = first configured provider
   timezone?: string; // IANA timezone format (e.g., 'America/New_York')
   created_at: Date;
   updated_at: Date;
@@ -30,16 +31,27 @@ export interface Agent {
   purpose?: string;
   system_prompt: string;
   model?: string; // "provider:model-id" e.g. "openai:gpt-4.1-mini"
+  fallback_models: string[]; // Tried in order when the model fails with a retryable error
   internet_search_enabled: boolean;
   is_favorite: boolean;
   pool_type: PoolType;
   domain?: string; // email domain for team agents
   default_notifier?: NotifierChannel | null; // restrict notifications to this channel
   default_notifier_destination?: string | null; // specific named destination (e.g. webhook name, email name)
+  memory_search_weights?: MemorySearchSettings | null; // null = default memory search ranking
   created_at: Date;
   updated_at: Date;
 }
 
+/** An agent's memory search ranking; fields left out keep their defaults */
+export interface MemorySearchSettings {
+  keyword_weight?: number;
+  vector_weight?: number;
+  frequency_weight?: number;
+  recency_weight?: number;
+  recency_half_life_days?: number;
+}
+
 export interface McpServer {
   id: number;
   user_id: number;
@@ -49,14 +61,26 @@ export interface McpServer {
   created_at: Date;
 }
 
+export type UrlToolParameterType = 'string' | 'number' | 'integer' | 'boolean';
+
+export interface UrlToolParameter {
+  name: string; // referenced as {name} in URL/query/header/body templates
+  type: UrlToolParameterType;
+  description?: string;
+  required: boolean;
+}
+
 export interface UrlTool {
   id: number;
   user_id: number;
   name: string;
   description?: string;
-  url: string;
+  url: string; // may contain {param} placeholders in the path
   method: string; // GET, POST, PUT, DELETE, PATCH
-  headers: Record<string, string> | null; // Custom HTTP headers
+  headers: Record<string, string> | null; // Custom HTTP headers (values may contain {param} placeholders)
+  parameters: UrlToolParameter[]; // Input schema exposed to the agent
+  query_params: Record<string, string> | null; // Query string templates, e.g. { q: "{city}" }
+  body_template: string | null; // Request body template (JSON by default)
   created_at: Date;
   updated_at: Date;
 }
@@ -68,7 +92,7 @@ export interface BuiltInTool {
   type: 'memory' | 'internet_search' | 'mqtt' | 'google_sheets';
 }
 
-export type ConversationSource = 'manual' | 'scheduled' | 'mqtt';
+export type ConversationSource = 'manual' | 'scheduled' | 'mqtt' | 'email' | ChatPlatform;
 
 export interface Conversation {
   id: number;
@@ -76,6 +100,8 @@ export interface Conversation {
   agent_id: number;
   title?: string;
   source: ConversationSource;
+  active_leaf_id: number | null; // Last message of the currently selected branch
+  consolidated_at: Date | null; // Memories extracted from messages up to this time
   created_at: Date;
   updated_at: Date;
 }
@@ -87,7 +113,70 @@ export interface Message {
   content: string;
   raw_data?: any; // Full message object from AI SDK
   agent_id?: number;
+  model?: string | null; // Model that produced an assistant message ("provider:model-id")
+  parent_id: number | null; // Previous message in this branch (null for the first message)
+  created_at: Date;
+}
+
+/** Token usage for a single agent step */
+export interface UsageRecord {
+  id: number;
+  user_id: number;
+  agent_id: number | null;
+  conversation_id: number | null;
+  source: ConversationSource;
+  model: string; // "provider:model-id"
+  step_index: number;
+  input_tokens: number; // Includes cached input tokens
+  output_tokens: number;
+  cached_input_tokens: number;
+  cost_usd: number | null; // Null when the model has no known price
+  created_at: Date;
+}
+
+/** A custom OpenAI-compatible endpoint, owned by a user or a team domain */
+export interface ModelProvider {
+  id: number;
+  user_id: number | null; // Set for personal providers
+  domain: string | null; // Set for team providers
+  name: string; // Prefix in model strings, e.g. "mygateway" in "mygateway:qwen2.5-72b"
+  base_url: string;
+  api_key: string | null; // Encrypted
+  api_key_header: string; // "Authorization" sends "Bearer <key>"; any other header gets the raw key
+  headers: Record<string, string> | null;
+  models: string[]; // Model IDs offered by the endpoint, listed in /api/models
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type BudgetScope = 'user' | 'team' | 'agent';
+
+/** Monthly spend/token limit for a user, team domain or agent */
+export interface Budget {
+  id: number;
+  scope: BudgetScope;
+  user_id: number | null; // Set for 'user' budgets
+  domain: string | null; // Set for 'team' budgets
+  agent_id: number | null; // Set for 'agent' budgets
+  monthly_cost_limit_usd: number | null; // Null = no cost limit
+  monthly_token_limit: number | null; // Null = no token limit (input + output)
+  soft_threshold_percent: number; // Notify once per month when this share of a limit is used
+  soft_alerted_month: string | null; // "YYYY-MM" of the last soft-threshold notification
   created_at: Date;
+  updated_at: Date;
+}
+
+export type UsageGroupBy = 'agent' | 'conversation' | 'source' | 'day';
+
+/** Usage totals for one group (agent, conversation, source or day) */
+export interface UsageRollup {
+  key: string;
+  label: string | null;
+  steps: number;
+  input_tokens: number;
+  output_tokens: number;
+  cached_input_tokens: number;
+  cost_usd: number;
 }
 
 export interface Session {
@@ -97,19 +186,38 @@ export interface Session {
   created_at: Date;
 }
 
+export type MemoryAuthor = 'user' | 'agent' | 'consolidator';
+
 export interface AgentMemory {
   id: number;
   agent_id: number;
   key: string;
   value: string;
   tier: 'core' | 'working' | 'reference';
-  author: 'user' | 'agent';
+  author: MemoryAuthor;
   access_count: number;
   last_accessed_at: number; // epoch ms
+  embedding_model: string | null; // "provider:model-id" that produced the stored vector
+  embedding_dimensions: number | null;
   created_at: Date;
   updated_at: Date;
 }
 
+/** A change made to an agent's memories by background consolidation */
+export interface MemoryChange {
+  id: number;
+  agent_id: number;
+  conversation_id: number | null;
+  action: 'created' | 'updated' | 'removed';
+  memory_key: string;
+  value: string | null;
+  previous: { value: string; tier: AgentMemory['tier']; author: MemoryAuthor } | null;
+  merged_into: string | null;
+  reason: string | null;
+  reverted_at: Date | null;
+  created_at: Date;
+}
+
 export interface Skill {
   id: number;
   user_id: number;
@@ -146,6 +254,8 @@ export interface Schedule {
   author: 'user' | 'agent';
   notifier: NotifierChannel | null; // override agent's default notifier for this schedule
   notifier_destination: string | null; // specific named destination (e.g. webhook name, email name)
+  workflow_id: number | null; // workflow to start on each run, driven without a user present
+  workflow_facts: Record<string, string>; // fact ("fact" or "step_id.fact") -> template over {prompt}
   enabled: boolean;
   next_run_at: number | null; // epoch ms
   last_run_at: number | null; // epoch ms
@@ -175,21 +285,46 @@ export interface Notification {
   created_at: Date;
 }
 
+export type DeliveryHoldReason = 'quiet_hours' | 'digest' | 'rate_limit';
+
 export interface NotificationDelivery {
   id: number;
   notification_id: number;
   channel: 'email' | 'webhook' | 'pushover';
   destination: string | null; // specific named destination; null = all destinations for channel
-  status: 'pending' | 'sent' | 'failed';
+  status: 'pending' | 'held' | 'sent' | 'failed' | 'dropped'; // held = waiting for a digest
+  held_reason: DeliveryHoldReason | null; // why it waited (or was dropped) instead of going out straight away
   error_message: string | null;
   attempts: number;
+  next_attempt_at: Date | null; // when a pending retry, a wait or a digest is due; null = on the next poll
   created_at: Date;
   delivered_at: Date | null;
 }
 
+/** One try at sending a delivery; webhook deliveries log one per endpoint */
+export interface NotificationDeliveryAttempt {
+  id: number;
+  delivery_id: number;
+  attempt: number;
+  destination: string | null; // webhook name, when the delivery went to several
+  request_url: string | null;
+  request_body: string | null;
+  response_status: number | null;
+  response_body: string | null; // truncated
+  error_message: string | null;
+  duration_ms: number;
+  created_at: Date;
+}
+
+export type WebhookTemplate = 'generic' | 'slack' | 'discord' | 'ntfy';
+
 export interface WebhookConfig {
   url: string;
   name: string;
+  /** Payload format; generic JSON when unset */
+  template?: WebhookTemplate;
+  /** Signs each request (HMAC-SHA256); generated when the webhook is saved */
+  secret?: string;
 }
 
 export interface EmailConfig {
@@ -197,6 +332,47 @@ export interface EmailConfig {
   name: string;
 }
 
+/** How notification emails are sent; without one they are only logged */
+export type MailTransportConfig =
+  | {
+      type: "smtp";
+      host: string;
+      port: number;
+      /** "starttls" upgrades a plain connection, "tls" connects over TLS (usually port 465) */
+      security: "starttls" | "tls" | "none";
+      username: string | null;
+      password: string | null; // Encrypted
+      from: string;
+    }
+  | {
+      /** POSTs {from, to, subject, text, html} as JSON to a mail API */
+      type: "http";
+      url: string;
+      api_key: string | null; // Encrypted; sent as a bearer token
+      from: string;
+    }
+  | {
+      /** Appends to an mbox file in the server's mail directory, for development and tests */
+      type: "file";
+      mailbox: string;
+      from: string;
+    };
+
+/** Local times ("HH:MM", in the user's timezone); the window may cross midnight */
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+/** Caps how many notifications an agent sends on each channel per hour */
+export interface NotificationRatePolicy {
+  agent_id: number | null; // null = agents without a policy of their own
+  channels: Array<NotificationDelivery['channel']>;
+  max_per_hour: number;
+  /** Over the limit: wait for room, go into the channel's next digest, or drop */
+  overflow: 'delay' | 'digest' | 'drop';
+}
+
 export interface UserNotificationSettings {
   id: number;
   user_id: number;
@@ -207,6 +383,12 @@ export interface UserNotificationSettings {
   pushover_user_key: string | null;
   pushover_api_token: string | null;
   pushover_enabled: boolean;
+  mail_transport: MailTransportConfig | null;
+  /** Only high urgency notifications go out during these hours */
+  quiet_hours: QuietHours | null;
+  /** Local times each channel's digest goes out; low and normal urgency notifications wait for them */
+  digest_schedule: Partial<Record<NotificationDelivery['channel'], string[]>>;
+  rate_policies: NotificationRatePolicy[];
   created_at: Date;
   updated_at: Date;
 }
@@ -236,6 +418,8 @@ export interface MqttSubscription {
   conversation_id: number | null;
   rate_limit_window_ms: number;
   rate_limit_max_triggers: number;
+  workflow_id: number | null; // workflow to start on each message, driven without a user present
+  workflow_facts: Record<string, string>; // fact ("fact" or "step_id.fact") -> template over {topic}, {payload}
   enabled: boolean;
   created_at: Date;
   updated_at: Date;
@@ -262,6 +446,64 @@ export interface MqttEventExecution {
   completed_at: number | null; // epoch ms
 }
 
+export type ChatPlatform = 'slack' | 'discord' | 'telegram';
+
+/** Which agent answers in one platform channel (Slack channel, Discord channel, Telegram chat) */
+export interface ChatChannelRoute {
+  platform_channel_id: string;
+  agent_id: number;
+}
+
+/** A bot on a chat platform whose messages are answered by agents */
+export interface ChatChannel {
+  id: number;
+  user_id: number;
+  platform: ChatPlatform;
+  name: string;
+  agent_id: number; // answers where no route matches
+  routes: ChatChannelRoute[];
+  allowed_user_ids: string[]; // platform user IDs; empty = anyone who can reach the bot
+  bot_token: string | null; // Encrypted
+  signing_secret: string | null; // Encrypted; Slack signing secret or the Telegram webhook secret token
+  application_id: string | null; // Discord
+  public_key: string | null; // Discord, verifies interaction signatures
+  inbound_token: string; // identifies the channel in its inbound URL
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/** A platform thread (or a chat without threads) and the conversation it continues */
+export interface ChatThread {
+  id: number;
+  chat_channel_id: number;
+  platform_channel_id: string;
+  thread_id: string; // '' when the platform message isn't in a thread
+  conversation_id: number;
+  created_at: Date;
+}
+
+/** A user's inbound email address: <alias>@ or <agent-slug>+<alias>@ the inbound domain */
+export interface EmailInbox {
+  id: number;
+  user_id: number;
+  alias: string;
+  agent_id: number; // answers mail without an agent slug
+  allowed_senders: string[]; // addresses or @domains; empty = the account's own address
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/** A Message-ID seen in an inbox (received or sent) and its conversation */
+export interface EmailThread {
+  id: number;
+  email_inbox_id: number;
+  message_id: string;
+  conversation_id: number;
+  created_at: Date;
+}
+
 export interface TeamSettings {
   id: number;
   domain: string;
@@ -294,6 +536,9 @@ export interface TeamUrlTool {
   url: string;
   method: string;
   headers: Record<string, string> | null;
+  parameters: UrlToolParameter[];
+  query_params: Record<string, string> | null;
+  body_template: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -303,11 +548,13 @@ export interface TeamNotificationSettings {
   domain: string;
   notification_email?: string;
   email_addresses: EmailConfig[];
-  webhook_urls: Array<{ name: string; url: string }>;
+  webhook_urls: WebhookConfig[];
   email_enabled: boolean;
   pushover_user_key?: string;
   pushover_api_token?: string;
   pushover_enabled: boolean;
+  /** Used for members who haven't configured their own */
+  mail_transport: MailTransportConfig | null;
   created_at: string;
   updated_at: string;
 }
@@ -323,10 +570,31 @@ export interface Workflow {
   version: string;
   tags: string[];
   timeout_minutes: number;
+  revision: number; // current revision number; each saved change to yaml_content adds one
   created_at: Date;
   updated_at: Date;
 }
 
+/** Shared workflow steps that definitions pull in with `- include: name` */
+export interface WorkflowStepTemplate {
+  id: number;
+  user_id: number;
+  name: string;
+  description: string | null;
+  yaml_content: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface WorkflowRevision {
+  id: number;
+  workflow_id: number;
+  revision: number;
+  version: string;
+  yaml_content: string;
+  created_at: Date;
+}
+
 export interface AgentWorkflow {
   id: number;
   agent_id: number;
@@ -339,11 +607,17 @@ export interface WorkflowExecution {
   id: number;
   conversation_id: number;
   workflow_id: number;
+  revision_id: number | null; // the revision the execution runs against; null only for executions older than revisions
   current_step_index: number;
   current_step_id: string;
-  status: 'in_progress' | 'completed' | 'failed' | 'timed_out';
+  status: 'in_progress' | 'awaiting_approval' | 'completed' | 'failed' | 'timed_out' | 'cancelled';
   started_at: number; // epoch ms
   completed_at: number | null; // epoch ms
+  loop_counts: Record<string, number>; // loop-back transitions taken, keyed "from_step->to_step"
+  deadline_at: number | null; // epoch ms; workflow timeout, pushed back by time spent awaiting approval
+  step_deadline_at: number | null; // epoch ms; null when the current step has no timeout
+  parent_execution_id: number | null; // the execution whose workflow step started this one as a sub-workflow
+  parent_step_id: string | null; // that workflow step's id
   created_at: Date;
   updated_at: Date;
 }
@@ -354,7 +628,44 @@ export interface WorkflowFact {
   step_id: string;
   fact_name: string;
   fact_value: unknown; // JSON-encoded
-  source: 'conversation' | 'tool' | 'default' | 'verifier';
+  source: 'conversation' | 'tool' | 'default' | 'verifier' | 'approval' | 'trigger' | 'workflow';
   collected_at: number; // epoch ms
   created_at: Date;
 }
+
+/** One gate evaluation of a workflow step, kept for execution history */
+export interface WorkflowStepAttempt {
+  id: number;
+  execution_id: number;
+  step_id: string;
+  outcome: 'advanced' | 'retry' | 'skipped' | 'aborted';
+  gate_passed: boolean;
+  gate_failures: string[];
+  gate_details: Array<{
+    condition: { fact: string; operator: string; value?: unknown; message?: string };
+    passed: boolean;
+    actual_value?: unknown;
+    message: string;
+  }>;
+  verifier_approved: boolean | null; // null when no verifier ran
+  verifier_reasoning: string | null;
+  evaluated_at: number; // epoch ms
+}
+
+export interface WorkflowApproval {
+  id: number;
+  execution_id: number;
+  step_id: string;
+  step_name: string;
+  user_id: number;
+  agent_id: number;
+  conversation_id: number;
+  message: string;
+  status: 'pending' | 'approved' | 'rejected' | 'expired' | 'cancelled';
+  decided_by: string | null; // user email, or who the link was sent to when decided through a signed link
+  decided_via: 'app' | 'link' | null; // Approvals inbox, or a signed approve/reject link
+  comment: string | null;
+  expires_at: number; // epoch ms
+  decided_at: number | null; // epoch ms
+  created_at: Date;
+}
@@ -0,0 +1,16 @@
+const PERSONAL_DOMAINS = new Set([
+  "gmail.com", "yahoo.com", "hotmail.com", "outlook.com", "icloud.com",
+  "me.com", "mac.com", "aol.com", "protonmail.com", "proton.me",
+  "live.com", "msn.com", "mail.com", "ymail.com", "googlemail.com",
+]);
+
+export function getUserDomain(email: string): string {
+  return email.split("@")[1] ?? "";
+}
+
+/** Personal email domains (and local/demo accounts) don't form a team */
+export function isPersonalDomain(domain: string): boolean {
+  if (!domain || domain === "localhost") return true;
+  if (domain.startsWith("demo-")) return true;
+  return PERSONAL_DOMAINS.has(domain.toLowerCase());
+}
@@ -0,0 +1,68 @@
+import type { ModelProviderOwner, ModelProviderRepository } from "../repositories/ModelProviderRepository";
+import type { TeamRepository } from "../repositories/TeamRepository";
+import type { ApiKeys, CustomProviderConfig } from "../services/ModelResolver";
+import type { Agent, User } from "../types/models";
+import { decrypt } from "./encryption";
+
+/**
+ * Load and decrypt a user's or team's custom providers, keyed by name, for
+ * ApiKeys.custom
+ */
+export async function loadCustomProviders(
+  repository: ModelProviderRepository | null | undefined,
+  owner: ModelProviderOwner,
+  encryptionSecret: string
+): Promise<Record<string, CustomProviderConfig>> {
+  if (!repository) return {};
+
+  const providers = await repository.list(owner);
+  const custom: Record<string, CustomProviderConfig> = {};
+  for (const provider of providers) {
+    custom[provider.name] = {
+      base_url: provider.base_url,
+      api_key: provider.api_key ? await decrypt(provider.api_key, encryptionSecret) : undefined,
+      api_key_header: provider.api_key_header,
+      headers: provider.headers ?? undefined,
+    };
+  }
+  return custom;
+}
+
+/** Decrypt a user's own provider keys and custom providers */
+export async function loadUserApiKeys(
+  user: User,
+  repository: ModelProviderRepository | null | undefined,
+  encryptionSecret: string
+): Promise<ApiKeys> {
+  const keys: ApiKeys = {};
+  if (user.openai_api_key) keys.openai = await decrypt(user.openai_api_key, encryptionSecret);
+  if (user.anthropic_api_key) keys.anthropic = await decrypt(user.anthropic_api_key, encryptionSecret);
+  if (user.google_ai_api_key) keys.google = await decrypt(user.google_ai_api_key, encryptionSecret);
+  if (user.ollama_url) keys.ollama_url = user.ollama_url;
+  keys.custom = await loadCustomProviders(repository, { user_id: user.id }, encryptionSecret);
+  return keys;
+}
+
+/**
+ * Decrypt the provider keys and custom providers an agent runs on: the
+ * team's for team agents, the user's own otherwise
+ */
+export async function loadAgentApiKeys(
+  user: User,
+  agent: Pick<Agent, "pool_type" | "domain">,
+  repositories: { teamRepository: TeamRepository | null; modelProviderRepository: ModelProviderRepository | null },
+  encryptionSecret: string
+): Promise<ApiKeys> {
+  if (agent.pool_type !== "team" || !agent.domain || !repositories.teamRepository) {
+    return loadUserApiKeys(user, repositories.modelProviderRepository, encryptionSecret);
+  }
+
+  const keys: ApiKeys = {};
+  const teamSettings = await repositories.teamRepository.getSettings(agent.domain);
+  if (teamSettings?.openai_api_key) keys.openai = await decrypt(teamSettings.openai_api_key, encryptionSecret);
+  if (teamSettings?.anthropic_api_key) keys.anthropic = await decrypt(teamSettings.anthropic_api_key, encryptionSecret);
+  if (teamSettings?.google_ai_api_key) keys.google = await decrypt(teamSettings.google_ai_api_key, encryptionSecret);
+  if (teamSettings?.ollama_url) keys.ollama_url = teamSettings.ollama_url;
+  keys.custom = await loadCustomProviders(repositories.modelProviderRepository, { domain: agent.domain }, encryptionSecret);
+  return keys;
+}
@@ -0,0 +1,420 @@
+import yaml from "js-yaml";
+import type { UrlToolParameter, UrlToolParameterType } from "../types/models";
+import { validateUrlToolDefinition } from "../tools/urlTool";
+
+/**
+ * Helpers for turning an OpenAPI 3 document into URL tool definitions.
+ * Only the subset of the spec that maps onto URL tools is understood:
+ * path/query/header parameters with primitive schemas and flat JSON request bodies.
+ */
+
+type JsonObject = Record<string, any>;
+
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete"] as const;
+
+export interface OpenApiSecurityScheme {
+  name: string;
+  type: "apiKey" | "http" | "oauth2" | "openIdConnect";
+  /** For apiKey schemes: where the key is sent */
+  in?: "header" | "query" | "cookie";
+  /** For apiKey schemes: the header or query parameter name */
+  param_name?: string;
+  /** For http schemes: "bearer" or "basic" */
+  scheme?: string;
+  description?: string;
+}
+
+/** A URL tool definition generated from a single operation */
+export interface OpenApiToolDraft {
+  name: string;
+  description?: string;
+  url: string;
+  method: string;
+  headers: Record<string, string> | null;
+  parameters: UrlToolParameter[];
+  query_params: Record<string, string> | null;
+  body_template: string | null;
+}
+
+export interface OpenApiOperationPreview {
+  operation_id: string;
+  method: string;
+  path: string;
+  summary?: string;
+  /** Security scheme names this operation accepts */
+  security: string[];
+  tool: OpenApiToolDraft;
+  /** Parts of the operation that could not be represented and were skipped */
+  warnings: string[];
+  /** Set when the generated definition is not a valid URL tool */
+  error?: string;
+  /** Set by the import handlers when a URL tool with the same name already exists */
+  exists?: boolean;
+}
+
+export interface OpenApiImportPreview {
+  title: string;
+  version?: string;
+  base_url: string;
+  security_schemes: OpenApiSecurityScheme[];
+  operations: OpenApiOperationPreview[];
+}
+
+export interface OpenApiAuth {
+  scheme: string;
+  secret: string;
+}
+
+export interface OpenApiImportSelection {
+  tools: OpenApiToolDraft[];
+  skipped: Array<{ operation_id: string; reason: string }>;
+}
+
+/**
+ * Parse an OpenAPI document from JSON or YAML text. Throws on invalid input
+ * or documents that are not OpenAPI 3.
+ */
+export function parseOpenApiDocument(text: string): JsonObject {
+  let doc: unknown;
+  try {
+    doc = text.trim().startsWith("{") ? JSON.parse(text) : yaml.load(text);
+  } catch (err) {
+    throw new Error(`Could not parse document: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (!doc || typeof doc !== "object" || Array.isArray(doc)) {
+    throw new Error("Document must be a JSON or YAML object");
+  }
+
+  const openapi = (doc as JsonObject).openapi;
+  if (typeof openapi !== "string" || !openapi.startsWith("3.")) {
+    throw new Error("Only OpenAPI 3.x documents are supported");
+  }
+  if (!(doc as JsonObject).paths || typeof (doc as JsonObject).paths !== "object") {
+    throw new Error("Document has no paths");
+  }
+
+  return doc as JsonObject;
+}
+
+/**
+ * Build a preview of the URL tools an OpenAPI document would produce.
+ * baseUrl overrides the document's first server entry.
+ */
+export function previewOpenApiImport(doc: JsonObject, baseUrl?: string): OpenApiImportPreview {
+  const resolvedBase = (baseUrl?.trim() || resolveServerUrl(doc)).replace(/\/+$/, "");
+  if (!resolvedBase) {
+    throw new Error("The document does not declare an absolute server URL. Provide a base URL.");
+  }
+  try {
+    new URL(resolvedBase);
+  } catch {
+    throw new Error(`Invalid base URL: ${resolvedBase}`);
+  }
+
+  const operations: OpenApiOperationPreview[] = [];
+  const usedNames = new Set<string>();
+
+  for (const [path, rawPathItem] of Object.entries<any>(doc.paths)) {
+    const pathItem = resolveRef(doc, rawPathItem);
+    if (!pathItem || typeof pathItem !== "object") continue;
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation || typeof operation !== "object") continue;
+
+      const preview = convertOperation(doc, resolvedBase, path, method, pathItem, operation);
+
+      // Operation IDs should be unique, but generated fallbacks may not be
+      let name = preview.tool.name;
+      for (let i = 2; usedNames.has(name); i++) {
+        name = `${preview.tool.name}_${i}`;
+      }
+      usedNames.add(name);
+      preview.tool.name = name;
+
+      operations.push(preview);
+    }
+  }
+
+  return {
+    title: doc.info?.title ?? "Untitled API",
+    version: doc.info?.version,
+    base_url: resolvedBase,
+    security_schemes: listSecuritySchemes(doc),
+    operations,
+  };
+}
+
+/**
+ * Apply a secret to a tool draft using the named security scheme.
+ * API keys go into a header or query parameter; http/oauth schemes become an
+ * Authorization header. Basic auth secrets are given as "username:password".
+ */
+export function applyOpenApiAuth(
+  tool: OpenApiToolDraft,
+  schemes: OpenApiSecurityScheme[],
+  auth: OpenApiAuth
+): OpenApiToolDraft {
+  const scheme = schemes.find((s) => s.name === auth.scheme);
+  if (!scheme) {
+    throw new Error(`Unknown security scheme: ${auth.scheme}`);
+  }
+
+  const headers = { ...(tool.headers ?? {}) };
+  const queryParams = { ...(tool.query_params ?? {}) };
+
+  if (scheme.type === "apiKey") {
+    if (!scheme.param_name) {
+      throw new Error(`Security scheme ${scheme.name} has no parameter name`);
+    }
+    if (scheme.in === "query") {
+      queryParams[scheme.param_name] = auth.secret;
+    } else if (scheme.in === "header") {
+      headers[scheme.param_name] = auth.secret;
+    } else {
+      throw new Error(`Security scheme ${scheme.name} uses cookies, which URL tools do not support`);
+    }
+  } else if (scheme.type === "http" && scheme.scheme?.toLowerCase() === "basic") {
+    headers["Authorization"] = `Basic ${Buffer.from(auth.secret).toString("base64")}`;
+  } else {
+    headers["Authorization"] = `Bearer ${auth.secret}`;
+  }
+
+  return {
+    ...tool,
+    headers: Object.keys(headers).length > 0 ? headers : null,
+    query_params: Object.keys(queryParams).length > 0 ? queryParams : null,
+  };
+}
+
+/**
+ * Pick the operations to import from a preview, applying auth and skipping
+ * operations that are invalid or whose tool name is already taken.
+ */
+export function selectOpenApiTools(
+  preview: OpenApiImportPreview,
+  operationIds: string[],
+  existingNames: Set<string>,
+  auth?: OpenApiAuth | null
+): OpenApiImportSelection {
+  const selection: OpenApiImportSelection = { tools: [], skipped: [] };
+  const wanted = new Set(operationIds);
+
+  for (const id of wanted) {
+    if (!preview.operations.some((op) => op.operation_id === id)) {
+      selection.skipped.push({ operation_id: id, reason: "Operation not found in document" });
+    }
+  }
+
+  for (const op of preview.operations) {
+    if (!wanted.has(op.operation_id)) continue;
+    if (op.error) {
+      selection.skipped.push({ operation_id: op.operation_id, reason: op.error });
+      continue;
+    }
+    if (existingNames.has(op.tool.name)) {
+      selection.skipped.push({ operation_id: op.operation_id, reason: `A URL tool named "${op.tool.name}" already exists` });
+      continue;
+    }
+    const tool = auth?.secret ? applyOpenApiAuth(op.tool, preview.security_schemes, auth) : op.tool;
+    selection.tools.push(tool);
+    existingNames.add(tool.name);
+  }
+
+  return selection;
+}
+
+function convertOperation(
+  doc: JsonObject,
+  baseUrl: string,
+  path: string,
+  method: string,
+  pathItem: JsonObject,
+  operation: JsonObject
+): OpenApiOperationPreview {
+  const warnings: string[] = [];
+  const parameters: UrlToolParameter[] = [];
+  const headers: Record<string, string> = {};
+  const queryParams: Record<string, string> = {};
+  const paramNames = new Set<string>();
+  let url = baseUrl + path;
+
+  const addParameter = (originalName: string, schema: JsonObject | undefined, required: boolean, description?: string) => {
+    let name = toParameterName(originalName);
+    if (paramNames.has(name)) name = `${name}_${parameters.length}`;
+    paramNames.add(name);
+    parameters.push({
+      name,
+      type: toParameterType(schema),
+      description: description ? truncate(description, 300) : undefined,
+      required,
+    });
+    return name;
+  };
+
+  // Operation-level parameters override path-level ones with the same name and location
+  const merged = new Map<string, JsonObject>();
+  for (const raw of [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]) {
+    const param = resolveRef(doc, raw);
+    if (!param?.name || !param.in) continue;
+    merged.set(`${param.in}:${param.name}`, param);
+  }
+
+  for (const param of merged.values()) {
+    const schema = resolveRef(doc, param.schema);
+    if (isComplexSchema(schema)) {
+      warnings.push(`Parameter "${param.name}" has a ${schema?.type ?? "complex"} schema and is passed as a string`);
+    }
+
+    switch (param.in) {
+      case "path": {
+        const name = addParameter(param.name, schema, true, param.description);
+        url = url.split(`{${param.name}}`).join(`{${name}}`);
+        break;
+      }
+      case "query": {
+        const name = addParameter(param.name, schema, !!param.required, param.description);
+        queryParams[param.name] = `{${name}}`;
+        break;
+      }
+      case "header": {
+        const name = addParameter(param.name, schema, !!param.required, param.description);
+        headers[param.name] = `{${name}}`;
+        break;
+      }
+      default:
+        warnings.push(`Parameter "${param.name}" in ${param.in} is not supported and was skipped`);
+    }
+  }
+
+  let bodyTemplate: string | null = null;
+  const requestBody = resolveRef(doc, operation.requestBody);
+  if (requestBody?.content) {
+    const jsonContent = Object.entries<any>(requestBody.content).find(([type]) => type.includes("json"))?.[1];
+    const schema = resolveRef(doc, jsonContent?.schema);
+
+    if (!jsonContent) {
+      warnings.push("Request body is not JSON and was skipped");
+    } else if (schema?.type !== "object" && !schema?.properties) {
+      warnings.push("Request body is not a JSON object and was skipped");
+    } else {
+      const required = new Set<string>(schema.required ?? []);
+      const template: Record<string, string> = {};
+      for (const [prop, rawPropSchema] of Object.entries<any>(schema.properties ?? {})) {
+        const propSchema = resolveRef(doc, rawPropSchema);
+        if (propSchema?.readOnly) continue;
+        if (isComplexSchema(propSchema)) {
+          warnings.push(`Body property "${prop}" has a ${propSchema?.type ?? "complex"} schema and was skipped`);
+          continue;
+        }
+        const name = addParameter(prop, propSchema, required.has(prop) && !!requestBody.required, propSchema?.description);
+        template[prop] = `{${name}}`;
+      }
+      if (Object.keys(template).length > 0) {
+        bodyTemplate = JSON.stringify(template, null, 2);
+      }
+    }
+  }
+
+  const operationId = typeof operation.operationId === "string" && operation.operationId
+    ? operation.operationId
+    : `${method}${path}`;
+
+  const tool: OpenApiToolDraft = {
+    name: toToolName(operationId),
+    description: truncate(operation.summary || operation.description || `${method.toUpperCase()} ${path}`, 500),
+    url,
+    method: method.toUpperCase(),
+    headers: Object.keys(headers).length > 0 ? headers : null,
+    parameters,
+    query_params: Object.keys(queryParams).length > 0 ? queryParams : null,
+    body_template: bodyTemplate,
+  };
+
+  const security: JsonObject[] = operation.security ?? doc.security ?? [];
+
+  return {
+    operation_id: operationId,
+    method: tool.method,
+    path,
+    summary: operation.summary,
+    security: Array.from(new Set(security.flatMap((req) => Object.keys(req ?? {})))),
+    tool,
+    warnings,
+    error: validateUrlToolDefinition(tool) ?? undefined,
+  };
+}
+
+function listSecuritySchemes(doc: JsonObject): OpenApiSecurityScheme[] {
+  const schemes: OpenApiSecurityScheme[] = [];
+  for (const [name, raw] of Object.entries<any>(doc.components?.securitySchemes ?? {})) {
+    const scheme = resolveRef(doc, raw);
+    if (!scheme?.type) continue;
+    schemes.push({
+      name,
+      type: scheme.type,
+      in: scheme.in,
+      param_name: scheme.name,
+      scheme: scheme.scheme,
+      description: scheme.description,
+    });
+  }
+  return schemes;
+}
+
+/** First server URL with variables replaced by their defaults, or "" if it is relative */
+function resolveServerUrl(doc: JsonObject): string {
+  const server = doc.servers?.[0];
+  if (!server?.url) return "";
+  const url = String(server.url).replace(/\{([^}]+)\}/g, (_, name: string) =>
+    String(server.variables?.[name]?.default ?? "")
+  );
+  return /^https?:\/\//i.test(url) ? url : "";
+}
+
+/** Follow local "#/..." references, guarding against cycles */
+function resolveRef(doc: JsonObject, value: any, depth = 0): any {
+  if (!value || typeof value !== "object" || typeof value.$ref !== "string") return value;
+  if (depth > 10 || !value.$ref.startsWith("#/")) return undefined;
+
+  let target: any = doc;
+  for (const segment of value.$ref.slice(2).split("/")) {
+    target = target?.[segment.replace(/~1/g, "/").replace(/~0/g, "~")];
+  }
+  return resolveRef(doc, target, depth + 1);
+}
+
+function toParameterType(schema: JsonObject | undefined): UrlToolParameterType {
+  switch (schema?.type) {
+    case "integer":
+      return "integer";
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    default:
+      return "string";
+  }
+}
+
+function isComplexSchema(schema: JsonObject | undefined): boolean {
+  return schema?.type === "object" || schema?.type === "array" || !!schema?.properties;
+}
+
+/** URL tool parameter names must be identifiers usable in {placeholders} */
+function toParameterName(name: string): string {
+  const cleaned = name.replace(/[^a-zA-Z0-9_]/g, "_");
+  return /^[a-zA-Z_]/.test(cleaned) ? cleaned : `_${cleaned}`;
+}
+
+function toToolName(operationId: string): string {
+  return operationId
+    .replace(/[^a-zA-Z0-9_]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 64) || "operation";
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 3) + "..." : text;
+}
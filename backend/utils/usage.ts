@@ -0,0 +1,64 @@
+import type { LanguageModelUsage } from "ai";
+import type { ConversationSource } from "../types/models";
+import type { CreateUsageRecordData, UsageRepository } from "../repositories/UsageRepository";
+import { estimateCost, getAnsweredModel } from "../services/ModelResolver";
+
+/** Who and what a run's token usage is attributed to */
+export interface UsageContext {
+  user_id: number;
+  agent_id: number | null;
+  conversation_id: number | null;
+  source: ConversationSource;
+  model: string; // "provider:model-id", unless a fallback model answered the step
+}
+
+/** The parts of an AI SDK step result that usage is computed from */
+export type UsageStep = {
+  usage: LanguageModelUsage;
+  providerMetadata?: Record<string, Record<string, unknown>> | undefined;
+};
+
+/** Convert AI SDK step results into one usage record per step */
+export function buildUsageRecords(
+  context: UsageContext,
+  steps: ReadonlyArray<UsageStep>
+): CreateUsageRecordData[] {
+  return steps.map((step, index) => {
+    const model = getAnsweredModel(step, context.model);
+    const input_tokens = step.usage.inputTokens ?? 0;
+    const output_tokens = step.usage.outputTokens ?? 0;
+    const cached_input_tokens =
+      step.usage.inputTokenDetails?.cacheReadTokens ?? step.usage.cachedInputTokens ?? 0;
+
+    return {
+      ...context,
+      model,
+      step_index: index,
+      input_tokens,
+      output_tokens,
+      cached_input_tokens,
+      cost_usd: estimateCost(model, {
+        inputTokens: input_tokens,
+        outputTokens: output_tokens,
+        cachedInputTokens: cached_input_tokens,
+      }),
+    };
+  });
+}
+
+/**
+ * Record usage for a finished run. Failures are logged rather than thrown so
+ * accounting never breaks the conversation it is measuring.
+ */
+export async function recordUsage(
+  repository: UsageRepository | null | undefined,
+  context: UsageContext,
+  steps: ReadonlyArray<UsageStep>
+): Promise<void> {
+  if (!repository || steps.length === 0) return;
+  try {
+    await repository.record(buildUsageRecords(context, steps));
+  } catch (err) {
+    console.error("Failed to record token usage:", err);
+  }
+}
@@ -0,0 +1,13 @@
+export {
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  generateWebhookSecret,
+  signWebhookPayload,
+  webhookSignatureHeaders,
+  verifyWebhookSignature,
+} from "./signature";
+export { WEBHOOK_TEMPLATES, renderWebhookPayload, renderWebhookDigestPayload } from "./payloads";
+export type { WebhookEventData, WebhookDigestData, WebhookRequest } from "./payloads";
+export { parseWebhooksInput } from "./settings";
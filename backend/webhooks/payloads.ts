@@ -0,0 +1,161 @@
+/**
+ * Webhook payload templates. The generic template is our own JSON event;
+ * the others shape the notification the way Slack and Discord incoming
+ * webhooks and ntfy topics expect, so those URLs can be used directly.
+ * Digests put several notifications in one request, in the same formats.
+ */
+
+import type { Notification, WebhookTemplate } from "../types/models";
+import { encodeHeader } from "../mail";
+
+export const WEBHOOK_TEMPLATES: WebhookTemplate[] = ["generic", "slack", "discord", "ntfy"];
+
+export interface WebhookEventData {
+  notification: Notification;
+  agent: { id: number; name: string; slug: string } | null;
+  /** The conversation, or the notifications page when there isn't one */
+  link: { url: string; label: string };
+}
+
+export interface WebhookDigestData {
+  notifications: WebhookEventData[];
+  /** The notifications page */
+  link: { url: string; label: string };
+}
+
+export interface WebhookRequest {
+  body: string;
+  headers: Record<string, string>;
+}
+
+const DISCORD_CONTENT_LIMIT = 2000;
+const DISCORD_USERNAME_LIMIT = 80;
+
+const NTFY_PRIORITIES: Record<Notification["urgency"], string> = {
+  low: "2",
+  normal: "3",
+  high: "5",
+};
+
+function truncate(value: string, limit: number): string {
+  return value.length > limit ? `${value.slice(0, limit - 1)}…` : value;
+}
+
+/** Slack treats &, < and > as control characters in message text */
+function escapeSlack(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function json(payload: unknown): WebhookRequest {
+  return {
+    body: JSON.stringify(payload),
+    headers: { "Content-Type": "application/json" },
+  };
+}
+
+/** The generic template's fields for one notification */
+function genericFields({ notification, agent, link }: WebhookEventData) {
+  return {
+    notification_id: notification.id,
+    // Flat fields kept from the original payload
+    agent_id: notification.agent_id,
+    message: notification.message,
+    urgency: notification.urgency,
+    conversation_id: notification.conversation_id,
+    timestamp: notification.created_at,
+    agent: agent ? { id: agent.id, name: agent.name, slug: agent.slug } : null,
+    url: link.url,
+  };
+}
+
+export function renderWebhookPayload(template: WebhookTemplate | undefined, data: WebhookEventData): WebhookRequest {
+  const { notification, agent, link } = data;
+  const agentName = agent?.name ?? "Your assistant";
+
+  switch (template ?? "generic") {
+    case "slack": {
+      const urgent = notification.urgency === "high" ? " :rotating_light: *Urgent*" : "";
+      return json({
+        text: `*${escapeSlack(agentName)}*${urgent}\n${escapeSlack(notification.message)}\n<${link.url}|${escapeSlack(link.label)}>`,
+      });
+    }
+
+    case "discord": {
+      const urgent = notification.urgency === "high" ? "🚨 **Urgent** " : "";
+      const footer = `\n${link.label}: <${link.url}>`;
+      return json({
+        username: truncate(agentName, DISCORD_USERNAME_LIMIT),
+        content: truncate(`${urgent}${notification.message}`, DISCORD_CONTENT_LIMIT - footer.length) + footer,
+        allowed_mentions: { parse: [] },
+      });
+    }
+
+    case "ntfy":
+      return {
+        body: notification.message,
+        headers: {
+          "Content-Type": "text/plain; charset=utf-8",
+          Title: encodeHeader(agentName),
+          Priority: NTFY_PRIORITIES[notification.urgency],
+          Click: link.url,
+          ...(notification.urgency === "high" ? { Tags: "rotating_light" } : {}),
+        },
+      };
+
+    default:
+      return json({ event: "notification.created", ...genericFields(data) });
+  }
+}
+
+export function renderWebhookDigestPayload(template: WebhookTemplate | undefined, data: WebhookDigestData): WebhookRequest {
+  const { notifications, link } = data;
+  const title = `${notifications.length} notification${notifications.length === 1 ? "" : "s"}`;
+  const agentName = (event: WebhookEventData) => event.agent?.name ?? "Your assistant";
+  const urgent = (event: WebhookEventData) => event.notification.urgency === "high";
+
+  switch (template ?? "generic") {
+    case "slack":
+      return json({
+        text: [
+          `*${title}*`,
+          ...notifications.map(
+            (event) =>
+              `• *${escapeSlack(agentName(event))}*${urgent(event) ? " :rotating_light:" : ""}: ${escapeSlack(event.notification.message)} <${event.link.url}|${escapeSlack(event.link.label)}>`
+          ),
+          `<${link.url}|${escapeSlack(link.label)}>`,
+        ].join("\n"),
+      });
+
+    case "discord": {
+      const footer = `\n${link.label}: <${link.url}>`;
+      const lines = notifications.map(
+        (event) => `${urgent(event) ? "🚨 " : ""}**${agentName(event)}**: ${event.notification.message}`
+      );
+      return json({
+        username: "Notification digest",
+        content: truncate(`**${title}**\n${lines.join("\n")}`, DISCORD_CONTENT_LIMIT - footer.length) + footer,
+        allowed_mentions: { parse: [] },
+      });
+    }
+
+    case "ntfy": {
+      const highest = notifications.some(urgent) ? "high" : notifications.some((e) => e.notification.urgency === "normal") ? "normal" : "low";
+      return {
+        body: notifications.map((event) => `${agentName(event)}: ${event.notification.message}`).join("\n"),
+        headers: {
+          "Content-Type": "text/plain; charset=utf-8",
+          Title: encodeHeader(`Digest: ${title}`),
+          Priority: NTFY_PRIORITIES[highest],
+          Click: link.url,
+        },
+      };
+    }
+
+    default:
+      return json({
+        event: "notification.digest",
+        notifications: notifications.map(genericFields),
+        url: link.url,
+      });
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Webhook endpoints as the user and team notification settings APIs accept
+ * them. Secrets are generated here, never taken from the client: a saved
+ * endpoint keeps its secret, a new one (or one whose URL changed) gets a
+ * fresh one, and sending an empty secret rotates it.
+ */
+
+import type { WebhookConfig, WebhookTemplate } from "../types/models";
+import { WEBHOOK_TEMPLATES } from "./payloads";
+import { generateWebhookSecret } from "./signature";
+
+export function parseWebhooksInput(
+  input: unknown,
+  current: WebhookConfig[]
+): { webhooks: WebhookConfig[] } | { error: string } {
+  if (!Array.isArray(input)) return { error: "webhook_urls must be an array" };
+
+  const webhooks: WebhookConfig[] = [];
+  for (const raw of input as Array<Partial<WebhookConfig>>) {
+    if (!raw?.url || typeof raw.url !== "string" || !raw.url.startsWith("https://")) {
+      return { error: `Webhook URL must use HTTPS: ${raw?.url}` };
+    }
+    if (!raw.name || typeof raw.name !== "string") {
+      return { error: "Webhook must have a name" };
+    }
+    const template = (raw.template ?? "generic") as WebhookTemplate;
+    if (!WEBHOOK_TEMPLATES.includes(template)) {
+      return { error: `Webhook template must be one of: ${WEBHOOK_TEMPLATES.join(", ")}` };
+    }
+
+    const stored = current.find((w) => w.name === raw.name && w.url === raw.url);
+    const secret = stored?.secret && raw.secret !== "" ? stored.secret : generateWebhookSecret();
+    webhooks.push({ name: raw.name, url: raw.url, template, secret });
+  }
+  return { webhooks };
+}
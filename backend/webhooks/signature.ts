@@ -0,0 +1,61 @@
+/**
+ * Webhook request signing. Each request carries the unix time it was sent
+ * and an HMAC-SHA256 of `<timestamp>.<body>` keyed with the webhook's
+ * secret, so receivers can check it came from us and reject replays of an
+ * old request.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+export const WEBHOOK_ID_HEADER = "X-Webhook-Id";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+/** How old a signed request may be before receivers should reject it */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/** `sha256=<hex>` for the given timestamp (unix seconds) and raw body */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+/** Headers that identify and sign one request */
+export function webhookSignatureHeaders(
+  secret: string,
+  body: string,
+  options: { id: string; now?: Date }
+): Record<string, string> {
+  const timestamp = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  return {
+    [WEBHOOK_ID_HEADER]: options.id,
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+    [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+  };
+}
+
+/**
+ * What a receiver does: recompute the signature and check the timestamp is
+ * recent. Exported for tests and for anyone wiring up their own endpoint.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  request: { timestamp: string | null; body: string; signature: string | null },
+  options: { now?: Date; toleranceSeconds?: number } = {}
+): boolean {
+  if (!request.timestamp || !request.signature) return false;
+  const timestamp = Number(request.timestamp);
+  if (!Number.isInteger(timestamp)) return false;
+
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  if (Math.abs(now - timestamp) > tolerance) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, request.body));
+  const actual = Buffer.from(request.signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
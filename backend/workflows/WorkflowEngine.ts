@@ -3,28 +3,48 @@
  *
  * Manages the lifecycle of a workflow execution within a conversation:
  * - Starting workflows (from agent default or explicit assignment)
- * - Tracking step progression
+ * - Tracking step progression, following `next` branches and bounded loops
  * - Evaluating gates (programmatic + verifier agent)
+ * - Running action steps (direct tool calls, no model involved)
+ * - Pausing at approval steps until someone approves or rejects
+ * - Running workflow steps' sub-workflows as nested executions, returning
+ *   their output facts to the parent when they complete
  * - Generating system prompt augmentations for the current step
  * - Filtering tools based on step's allowed_tools
  */
 
 import type { ToolSet, LanguageModel } from "ai";
+import type { AgentToolContext } from "../tools/context";
 import { generateText } from "ai";
 import type { WorkflowRepository } from "../repositories/WorkflowRepository";
-import type { WorkflowExecution, Workflow } from "../types/models";
+import type { NotificationRepository } from "../repositories/NotificationRepository";
+import type { WorkflowExecution, Workflow, WorkflowApproval, WorkflowStepAttempt } from "../types/models";
 import type {
   WorkflowDefinition,
   WorkflowStep,
   CollectedFact,
   GateEvaluationResult,
   WorkflowExecutionState,
+  FactValidationResult,
+  FactValueDefinition,
 } from "./types";
-import { parseWorkflow } from "./parser";
+import { formatWorkflowRef } from "./parser";
+import { findSubWorkflow, loadWorkflowDefinition } from "./references";
 import { evaluateGate, getMissingFacts } from "./gate-evaluator";
+import { resolveTransition } from "./transitions";
+import { executeAction, renderTemplate } from "./actions";
+import { validateFactValue } from "./fact-validator";
+import { approverFor, buildApprovalLinks, DEFAULT_APPROVAL_EXPIRY_HOURS, type ApprovalDecision } from "./approvals";
+import { buildStepStatuses } from "./history";
+import { resolveTriggerFact } from "./triggers";
+import { queueNotification } from "../services/NotificationService";
 
 export interface WorkflowEngineDependencies {
   workflowRepository: WorkflowRepository;
+  /** Sends approval requests; without it they only appear in the approvals inbox */
+  notificationRepository?: NotificationRepository | null;
+  /** Signs the approve/reject links included in approval requests */
+  approvalLinks?: { baseUrl: string; secret: string } | null;
 }
 
 /**
@@ -45,6 +65,66 @@ export interface WorkflowTurnResult {
   currentStep: WorkflowStep;
   /** The new step (if advanced) */
   nextStep?: WorkflowStep;
+  /** Index of the new step in the definition (if advanced) */
+  nextStepIndex?: number;
+  /** Whether the workflow is now paused waiting for an approval decision */
+  awaitingApproval?: boolean;
+  /**
+   * Set when the turn moved into or out of a sub-workflow: the execution the
+   * conversation now continues in. nextStep and nextStepIndex belong to its definition
+   */
+  executionId?: number;
+}
+
+export interface StartWorkflowOptions {
+  /** Run this revision instead of the latest (a sub-workflow pinned to a version) */
+  revisionId?: number | null;
+  /** The execution and workflow step running this one as a sub-workflow */
+  parent?: { executionId: number; stepId: string };
+}
+
+/** Outcome of deciding an approval request */
+export type ApprovalDecisionOutcome =
+  | { ok: true; approval: WorkflowApproval; definition: WorkflowDefinition; turn: WorkflowTurnResult }
+  | { ok: false; reason: "not_found" | "already_decided" | "expired"; approval?: WorkflowApproval };
+
+/** Outcome of cancelling, restarting or resuming an execution; `message` says what happened */
+export type ExecutionControlOutcome =
+  | { ok: true; execution: WorkflowExecution; message: string }
+  | { ok: false; reason: "not_found" | "invalid_state" | "unknown_step" | "conflict"; message: string };
+
+const isActive = (execution: WorkflowExecution): boolean =>
+  execution.status === "in_progress" || execution.status === "awaiting_approval";
+
+/** An execution timed out by enforceTimeouts, and why */
+export interface TimedOutExecution {
+  execution: WorkflowExecution;
+  reason: string;
+}
+
+/** When an execution starting now must finish by */
+function workflowDeadline(definition: WorkflowDefinition, now: number): number {
+  return now + (definition.timeout_minutes ?? 30) * 60_000;
+}
+
+/** When an execution entering `step` now must move on by, if the step has a timeout */
+function stepDeadline(step: WorkflowStep, now: number): number | null {
+  return step.timeout_minutes ? now + step.timeout_minutes * 60_000 : null;
+}
+
+/** Type and constraints of a fact as shown to the agent, e.g. "number, min 0" */
+function describeFactType(def: FactValueDefinition): string {
+  const parts: string[] = [def.type];
+  if (def.enum_values) parts.push(`one of: ${def.enum_values.join(", ")}`);
+  if (def.min !== undefined) parts.push(`min ${def.min}`);
+  if (def.max !== undefined) parts.push(`max ${def.max}`);
+  if (def.pattern) parts.push(`matching /${def.pattern}/`);
+  if (Array.isArray(def.items)) {
+    parts.push(`items: {${def.items.map((f) => `${f.name}: ${describeFactType(f)}`).join("; ")}}`);
+  } else if (def.items) {
+    parts.push(`items: ${describeFactType(def.items)}`);
+  }
+  return parts.join(", ");
 }
 
 export class WorkflowEngine {
@@ -53,24 +133,41 @@ export class WorkflowEngine {
   /**
    * Start a workflow execution for a conversation.
    * Returns the execution record and the parsed workflow definition.
+   *
+   * @param initialFacts - Facts to seed, keyed "fact_name" (first step) or
+   *   "step_id.fact_name", e.g. from a schedule or MQTT trigger. Values are
+   *   validated like any reported fact; rejected ones are listed in
+   *   `rejectedFacts` and left for the agent to collect.
    */
   async startWorkflow(
     conversationId: number,
-    workflowId: number
-  ): Promise<{ execution: WorkflowExecution; definition: WorkflowDefinition }> {
+    workflowId: number,
+    initialFacts: Record<string, unknown> = {},
+    options: StartWorkflowOptions = {}
+  ): Promise<{ execution: WorkflowExecution; definition: WorkflowDefinition; rejectedFacts: string[] }> {
     const workflow = await this.deps.workflowRepository.findById(workflowId);
     if (!workflow) {
       throw new Error(`Workflow not found: ${workflowId}`);
     }
 
-    const definition = parseWorkflow(workflow.yaml_content);
+    // New executions are pinned to the latest revision, sub-workflows to the one their step asked for
+    const revision = options.revisionId
+      ? await this.deps.workflowRepository.findRevisionById(options.revisionId)
+      : await this.deps.workflowRepository.findRevision(workflow.id, workflow.revision);
+    const definition = await this.parse(workflow, revision?.yaml_content ?? workflow.yaml_content);
     const firstStep = definition.steps[0]!;
 
+    const now = Date.now();
     const execution = await this.deps.workflowRepository.createExecution({
       conversation_id: conversationId,
       workflow_id: workflowId,
+      revision_id: revision?.id ?? null,
       current_step_id: firstStep.id,
-      started_at: Date.now(),
+      started_at: now,
+      deadline_at: workflowDeadline(definition, now),
+      step_deadline_at: stepDeadline(firstStep, now),
+      parent_execution_id: options.parent?.executionId ?? null,
+      parent_step_id: options.parent?.stepId ?? null,
     });
 
     // Set defaults for facts that have default values
@@ -87,11 +184,31 @@ export class WorkflowEngine {
       }
     }
 
-    return { execution, definition };
+    const rejectedFacts: string[] = [];
+    for (const [key, value] of Object.entries(initialFacts)) {
+      const target = resolveTriggerFact(definition, key);
+      if (!target) {
+        rejectedFacts.push(`${key}: not a fact of this workflow`);
+        continue;
+      }
+      const result = await this.setFact(execution.id, target.step, target.factName, value, "trigger");
+      if (!result.ok) {
+        rejectedFacts.push(...result.errors.map((e) => `${key}: ${e.message}`));
+      }
+    }
+
+    if (firstStep.type === "approval") {
+      await this.requestApproval(execution.id, firstStep);
+    } else if (firstStep.type === "workflow") {
+      await this.startSubWorkflow(execution.id, definition, 0);
+    }
+
+    return { execution, definition, rejectedFacts };
   }
 
   /**
-   * Get the active workflow execution for a conversation, if any.
+   * Get the active workflow execution for a conversation, if any — while a
+   * sub-workflow runs, that's the sub-workflow's execution.
    * Returns the execution, parsed definition, and current state.
    */
   async getActiveWorkflow(conversationId: number): Promise<{
@@ -106,40 +223,79 @@ export class WorkflowEngine {
     const workflow = await this.deps.workflowRepository.findById(execution.workflow_id);
     if (!workflow) return null;
 
-    const definition = parseWorkflow(workflow.yaml_content);
-    const facts = await this.loadFacts(execution.id);
+    const definition = await this.definitionFor(execution, workflow);
+    const [facts, attempts] = await Promise.all([
+      this.loadFacts(execution.id),
+      this.deps.workflowRepository.listStepAttempts(execution.id),
+    ]);
 
     const state: WorkflowExecutionState = {
       current_step_index: execution.current_step_index,
       current_step_id: execution.current_step_id,
       facts,
-      step_statuses: this.buildStepStatuses(definition, execution),
+      step_statuses: buildStepStatuses(definition, execution, facts, attempts),
       status: execution.status,
       started_at: execution.started_at,
       completed_at: execution.completed_at,
+      loop_counts: execution.loop_counts ?? {},
     };
 
     return { execution, definition, workflow, state };
   }
 
   /**
-   * Record a fact collected during the current step.
+   * Record a fact collected during a step. The value is checked and coerced
+   * against the step's fact definition and only stored if valid; the errors
+   * are returned otherwise. Facts the step doesn't declare are rejected,
+   * except on action steps, whose result facts are free-form, and outputs
+   * a sub-workflow returns to its workflow step. Approval step facts only
+   * come from the decision.
    */
   async setFact(
     executionId: number,
-    stepId: string,
+    step: WorkflowStep,
     factName: string,
     factValue: unknown,
-    source: 'conversation' | 'tool' | 'default' | 'verifier' = 'conversation'
-  ): Promise<void> {
+    source: 'conversation' | 'tool' | 'default' | 'verifier' | 'approval' | 'trigger' | 'workflow' = 'conversation'
+  ): Promise<FactValidationResult> {
+    const factDef = step.required_facts.find((f) => f.name === factName);
+    let result: FactValidationResult;
+    if (step.type === "approval" && source !== "approval") {
+      // Only the approver's decision can complete an approval step
+      result = {
+        ok: false,
+        errors: [{
+          fact: factName,
+          path: factName,
+          message: `"${factName}" is recorded when the approver decides and can't be reported`,
+        }],
+      };
+    } else if (factDef) {
+      result = validateFactValue(factDef, factValue);
+    } else if (step.type === "action" || (step.type === "workflow" && source === "workflow")) {
+      result = { ok: true, value: factValue };
+    } else {
+      result = {
+        ok: false,
+        errors: [{
+          fact: factName,
+          path: factName,
+          message: `"${factName}" is not a fact of step "${step.id}"`,
+          expected: `one of: ${step.required_facts.map((f) => f.name).join(", ")}`,
+        }],
+      };
+    }
+    if (!result.ok) return result;
+
     await this.deps.workflowRepository.setFact({
       execution_id: executionId,
-      step_id: stepId,
+      step_id: step.id,
       fact_name: factName,
-      fact_value: factValue,
+      fact_value: result.value,
       source,
       collected_at: Date.now(),
     });
+    return result;
   }
 
   /**
@@ -169,42 +325,24 @@ export class WorkflowEngine {
       };
     }
 
+    // Action steps advance when their tool call runs (see runActionSteps), approval
+    // steps when a decision arrives (see decideApproval) and workflow steps when
+    // their sub-workflow ends, not after a turn
+    if (currentStep.type === "action" || currentStep.type === "approval" || currentStep.type === "workflow") {
+      return { advanced: false, completed: false, failed: false, currentStep };
+    }
+
     // Step 1: Programmatic gate evaluation
     const gateResult = evaluateGate(currentStep.gate, currentStep.id, facts);
 
     if (!gateResult.passed) {
-      // Gate failed — check on_fail strategy
-      const onFail = currentStep.gate.on_fail || "retry";
-
-      if (onFail === "abort") {
-        await this.deps.workflowRepository.updateExecution(executionId, {
-          status: "failed",
-          completed_at: Date.now(),
-        });
-        return {
-          advanced: false,
-          completed: false,
-          failed: true,
-          gateResult,
-          currentStep,
-          systemMessage: `Workflow aborted. Gate conditions not met:\n${gateResult.failures.map(f => `- ${f}`).join("\n")}`,
-        };
-      }
-
-      if (onFail === "skip") {
-        // Skip to next step
-        return await this.advanceToNextStep(executionId, definition, currentStepIndex, currentStep, gateResult);
-      }
-
-      // Default: retry — stay on current step
-      return {
-        advanced: false,
-        completed: false,
-        failed: false,
+      return await this.handleGateFailure(
+        executionId,
+        definition,
+        currentStepIndex,
         gateResult,
-        currentStep,
-        systemMessage: this.buildRetryMessage(currentStep, gateResult, facts),
-      };
+        this.buildRetryMessage(currentStep, gateResult, facts)
+      );
     }
 
     // Step 2: If programmatic gate passes and we have a verifier model, run verification
@@ -217,6 +355,7 @@ export class WorkflowEngine {
       );
 
       if (!verifierResult.approved) {
+        await this.recordAttempt(executionId, currentStep.id, gateResult, "retry", verifierResult);
         return {
           advanced: false,
           completed: false,
@@ -230,15 +369,327 @@ export class WorkflowEngine {
       // Apply any facts the verifier extracted
       if (verifierResult.extractedFacts) {
         for (const [key, value] of Object.entries(verifierResult.extractedFacts)) {
-          await this.setFact(executionId, currentStep.id, key, value, "verifier");
+          const result = await this.setFact(executionId, currentStep, key, value, "verifier");
+          if (!result.ok) {
+            console.warn(`Ignoring invalid verifier fact ${key}:`, result.errors.map((e) => e.message).join("; "));
+          }
         }
       }
+      await this.recordAttempt(executionId, currentStep.id, gateResult, "advanced", verifierResult);
+    } else {
+      await this.recordAttempt(executionId, currentStep.id, gateResult, "advanced");
     }
 
     // Gate passed — advance
     return await this.advanceToNextStep(executionId, definition, currentStepIndex, currentStep, gateResult);
   }
 
+  /**
+   * Run the action step at `stepIndex`, and any action steps it leads to, by
+   * calling their tools directly. Stops at the first conversation step, when
+   * the workflow ends or moves into or out of a sub-workflow, or when an
+   * action fails and its step is retried.
+   * Returns null when the step at `stepIndex` isn't an action step.
+   *
+   * @param tools - The agent's tools before step filtering
+   * @param toolContext - The agent's tool context (experimental_context)
+   */
+  async runActionSteps(
+    executionId: number,
+    stepIndex: number,
+    definition: WorkflowDefinition,
+    tools: ToolSet,
+    toolContext: AgentToolContext
+  ): Promise<WorkflowTurnResult | null> {
+    const startStep = definition.steps[stepIndex];
+    if (!startStep || startStep.type !== "action") return null;
+
+    const messages: string[] = [];
+    let index = stepIndex;
+    let last: WorkflowTurnResult;
+
+    // Terminates: loops are bounded by max_iterations, so a chain of actions is finite
+    while (true) {
+      const step = definition.steps[index]!;
+      last = await this.runActionStep(executionId, index, step, definition, tools, toolContext);
+      if (last.systemMessage) messages.push(last.systemMessage);
+
+      if (!last.advanced || last.completed || last.nextStepIndex === undefined) break;
+      // Moved into or out of a sub-workflow: the next step belongs to another definition
+      if (last.executionId !== undefined && last.executionId !== executionId) break;
+      index = last.nextStepIndex;
+      if (definition.steps[index]!.type !== "action") break;
+    }
+
+    const moved = index !== stepIndex;
+    return {
+      ...last,
+      advanced: moved || last.advanced,
+      currentStep: startStep,
+      nextStep: moved ? definition.steps[index] : last.nextStep,
+      nextStepIndex: moved ? index : last.nextStepIndex,
+      systemMessage: messages.join("\n"),
+    };
+  }
+
+  /**
+   * Record an approve/reject decision on a pending approval request and resume
+   * the paused workflow: the decision is stored as the approval step's facts,
+   * its gate (if any) is checked and the workflow moves on. Requests past their
+   * expiry time the workflow out instead. Decisions from the approvals inbox
+   * are made by the signed-in user; through a signed link, by the approver the
+   * link was sent to.
+   */
+  async decideApproval(
+    approvalId: number,
+    decision: ApprovalDecision,
+    options: { via: "app"; decidedBy: string; comment?: string | null } | { via: "link"; comment?: string | null }
+  ): Promise<ApprovalDecisionOutcome> {
+    const repo = this.deps.workflowRepository;
+    const approval = await repo.findApprovalById(approvalId);
+    if (!approval) return { ok: false, reason: "not_found" };
+    if (approval.status !== "pending") return { ok: false, reason: "already_decided", approval };
+
+    const now = Date.now();
+    const execution = await repo.findExecutionById(approval.execution_id);
+    const stillWaiting =
+      execution?.status === "awaiting_approval" && execution.current_step_id === approval.step_id;
+
+    if (now > approval.expires_at || !stillWaiting) {
+      const expired = await this.expireApproval(approval, now);
+      return { ok: false, reason: "expired", approval: expired.approval };
+    }
+
+    const workflow = await repo.findById(execution!.workflow_id);
+    const definition = workflow ? await this.definitionFor(execution!, workflow) : null;
+    const stepIndex = definition ? definition.steps.findIndex((s) => s.id === approval.step_id) : -1;
+
+    const decidedBy = options.via === "app"
+      ? options.decidedBy
+      : await this.linkApprover(approval, definition?.steps[stepIndex]);
+    const decided = await repo.decideApproval(approvalId, {
+      status: decision,
+      decided_by: decidedBy,
+      decided_via: options.via,
+      comment: options.comment?.trim() || null,
+      decided_at: now,
+    });
+    // Someone else decided first
+    if (!decided) return { ok: false, reason: "already_decided", approval };
+
+    if (!definition || stepIndex === -1) {
+      await repo.updateExecution(execution!.id, { status: "failed", completed_at: now });
+      return { ok: false, reason: "expired", approval: decided };
+    }
+
+    const step = definition.steps[stepIndex]!;
+    const decisionFacts: Record<string, unknown> = {
+      decision,
+      decided_by: decidedBy,
+      decided_at: new Date(now).toISOString(),
+      comment: decided.comment ?? "",
+    };
+    for (const [name, value] of Object.entries(decisionFacts)) {
+      await this.setFact(execution!.id, step, name, value, "approval");
+    }
+    // Time spent waiting for the decision doesn't count towards the workflow timeout
+    await repo.updateExecution(execution!.id, {
+      status: "in_progress",
+      ...(execution!.deadline_at !== null
+        ? { deadline_at: execution!.deadline_at + (now - new Date(approval.created_at).getTime()) }
+        : {}),
+    });
+
+    const facts = await this.loadFacts(execution!.id);
+    const gateResult = evaluateGate(step.gate, step.id, facts);
+    if (gateResult.passed) await this.recordAttempt(execution!.id, step.id, gateResult, "advanced");
+    const turn = gateResult.passed
+      ? await this.advanceToNextStep(execution!.id, definition, stepIndex, step, gateResult)
+      : await this.handleGateFailure(
+          execution!.id,
+          definition,
+          stepIndex,
+          gateResult,
+          `Step "${step.name}": the decision did not pass the gate.`
+        );
+
+    return { ok: true, approval: decided, definition, turn };
+  }
+
+  /**
+   * Move running executions onto a workflow's latest revision when the step
+   * they're on was removed from it, following a mapping of old step ids to
+   * new ones. Facts collected on removed steps move along with them; any
+   * other execution stays pinned to the revision it started with. Returns
+   * the number of executions moved.
+   */
+  async migrateExecutions(workflow: Workflow, stepMigrations: Record<string, string>): Promise<number> {
+    const repo = this.deps.workflowRepository;
+    const revision = await repo.findRevision(workflow.id, workflow.revision);
+    if (!revision) return 0;
+
+    const definition = await this.parse(workflow, revision.yaml_content);
+    const stepIds = new Set(definition.steps.map((s) => s.id));
+    const now = Date.now();
+    let migrated = 0;
+
+    for (const execution of await repo.listActiveExecutionsByWorkflow(workflow.id)) {
+      const target = stepMigrations[execution.current_step_id];
+      if (execution.revision_id === revision.id || stepIds.has(execution.current_step_id) || !target) continue;
+      const stepIndex = definition.steps.findIndex((s) => s.id === target);
+      if (stepIndex === -1) continue;
+
+      for (const [from, to] of Object.entries(stepMigrations)) {
+        if (!stepIds.has(from)) await repo.renameStepFacts(execution.id, from, to);
+      }
+      if (execution.status === "awaiting_approval") await this.cancelPendingApprovals(execution.id, now);
+      await this.endSubWorkflows(execution, "cancelled", now);
+
+      const step = definition.steps[stepIndex]!;
+      await repo.updateExecution(execution.id, {
+        revision_id: revision.id,
+        current_step_index: stepIndex,
+        current_step_id: step.id,
+        status: "in_progress",
+        step_deadline_at: stepDeadline(step, now),
+      });
+      if (step.type === "approval") await this.requestApproval(execution.id, step);
+      if (step.type === "workflow") await this.startSubWorkflow(execution.id, definition, stepIndex);
+      migrated++;
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Time out executions that ran past their deadlines: running ones past the
+   * workflow's or current step's timeout, and paused ones whose approval
+   * request expired. Sub-workflows and the workflows waiting on them time
+   * out together. Returns what was timed out and why.
+   */
+  async enforceTimeouts(now = Date.now()): Promise<TimedOutExecution[]> {
+    const repo = this.deps.workflowRepository;
+    const timedOut: TimedOutExecution[] = [];
+
+    for (const overdue of await repo.listOverdueExecutions(now)) {
+      // Already timed out along with a sub-workflow or parent earlier in this pass
+      if ((await repo.findExecutionById(overdue.id))?.status !== "in_progress") continue;
+      const workflow = await repo.findById(overdue.workflow_id);
+      const execution = await repo.updateExecution(overdue.id, { status: "timed_out", completed_at: now });
+      await this.endStack(execution, "timed_out", now);
+      const name = workflow?.name ?? "Workflow";
+      let stepName = overdue.current_step_id;
+      try {
+        stepName = workflow
+          ? (await this.definitionFor(overdue, workflow)).steps[overdue.current_step_index]?.name ?? stepName
+          : stepName;
+      } catch {
+        // An invalid definition still times out; the step id will do
+      }
+      const reason = overdue.step_deadline_at !== null && overdue.step_deadline_at < now
+        ? `Workflow "${name}" timed out: step "${stepName}" wasn't finished in time`
+        : `Workflow "${name}" timed out at step "${stepName}"`;
+      timedOut.push({ execution, reason });
+    }
+
+    for (const approval of await repo.listExpiredApprovals(now)) {
+      const { execution } = await this.expireApproval(approval, now);
+      if (execution) {
+        timedOut.push({ execution, reason: `Approval "${approval.step_name}" expired without a decision` });
+      }
+    }
+
+    return timedOut;
+  }
+
+  /**
+   * Stop a running or paused execution, along with its sub-workflows and the
+   * workflows waiting on it. Pending approval requests are cancelled.
+   */
+  async cancelExecution(executionId: number): Promise<ExecutionControlOutcome> {
+    const repo = this.deps.workflowRepository;
+    const current = await repo.findExecutionById(executionId);
+    if (!current) return { ok: false, reason: "not_found", message: "Execution not found" };
+    if (current.status !== "in_progress" && current.status !== "awaiting_approval") {
+      return { ok: false, reason: "invalid_state", message: `Execution is already ${current.status.replace("_", " ")}` };
+    }
+
+    const now = Date.now();
+    await this.endStack(current, "cancelled", now);
+    const execution = (await repo.findExecutionById(executionId))!;
+    const workflow = await repo.findById(execution.workflow_id);
+    return { ok: true, execution, message: `Workflow "${workflow?.name ?? "Workflow"}" was cancelled.` };
+  }
+
+  /**
+   * Go back to `stepId` and continue from there in the same conversation.
+   * Facts from steps before it are kept; its own and later steps' facts are
+   * cleared, loop counts reset and the timeouts start again. Sub-workflows
+   * are restarted from the workflow that started them.
+   */
+  async restartExecution(executionId: number, stepId: string): Promise<ExecutionControlOutcome> {
+    const repo = this.deps.workflowRepository;
+    const loaded = await this.loadExecution(executionId);
+    if (!loaded) return { ok: false, reason: "not_found", message: "Execution not found" };
+    const { execution, workflow, definition } = loaded;
+
+    if (execution.parent_execution_id !== null) return this.nestedControl(workflow, "restart");
+    const stepIndex = definition.steps.findIndex((s) => s.id === stepId);
+    if (stepIndex === -1) {
+      return { ok: false, reason: "unknown_step", message: `Workflow "${workflow.name}" has no step "${stepId}"` };
+    }
+    const conflict = await this.findConflict(execution);
+    if (conflict) return conflict;
+
+    const now = Date.now();
+    await this.cancelPendingApprovals(executionId, now);
+    await this.endSubWorkflows(execution, "cancelled", now);
+    for (const step of definition.steps.slice(stepIndex)) {
+      await repo.clearStepFacts(executionId, step.id);
+    }
+    const step = definition.steps[stepIndex]!;
+    for (const factDef of step.required_facts) {
+      if (factDef.default !== undefined) {
+        await this.setFact(executionId, step, factDef.name, factDef.default, "default");
+      }
+    }
+
+    const reopened = await this.reopenAt(executionId, definition, stepIndex, now, { loop_counts: {} });
+    return { ok: true, execution: reopened, message: `Workflow "${workflow.name}" restarted from step "${step.name}".` };
+  }
+
+  /**
+   * Pick a timed-out execution back up at the step it stopped on, with fresh
+   * timeouts. A sub-workflow that timed out with it is resumed too.
+   */
+  async resumeExecution(executionId: number): Promise<ExecutionControlOutcome> {
+    const loaded = await this.loadExecution(executionId);
+    if (!loaded) return { ok: false, reason: "not_found", message: "Execution not found" };
+    const { execution, workflow, definition } = loaded;
+
+    if (execution.parent_execution_id !== null) return this.nestedControl(workflow, "resume");
+    if (execution.status !== "timed_out") {
+      return { ok: false, reason: "invalid_state", message: "Only timed-out executions can be resumed" };
+    }
+    const stepIndex = definition.steps.findIndex((s) => s.id === execution.current_step_id);
+    if (stepIndex === -1) {
+      return {
+        ok: false,
+        reason: "unknown_step",
+        message: `Workflow "${workflow.name}" no longer has step "${execution.current_step_id}"; restart it from another step`,
+      };
+    }
+    const conflict = await this.findConflict(execution);
+    if (conflict) return conflict;
+
+    const reopened = await this.reopenAt(executionId, definition, stepIndex, Date.now(), {}, true);
+    return {
+      ok: true,
+      execution: reopened,
+      message: `Workflow "${workflow.name}" resumed at step "${definition.steps[stepIndex]!.name}".`,
+    };
+  }
+
   /**
    * Build the system prompt augmentation for the current workflow step.
    * This gets appended to the agent's system prompt.
@@ -256,6 +707,24 @@ export class WorkflowEngine {
     prompt += `Step ${stepIndex + 1} of ${totalSteps}: **${currentStep.name}**\n\n`;
     prompt += `## Instructions\n${currentStep.description}\n\n`;
 
+    // Action steps run their tool automatically; the agent only sees them while a failed call awaits retry
+    if (currentStep.type === "action" && currentStep.action) {
+      prompt += `## Automatic Action\n`;
+      prompt += `This step calls the **${currentStep.action.tool}** tool automatically. Its last attempt did not succeed `;
+      prompt += `and it will be retried after your reply. Help the user resolve whatever is blocking it `;
+      prompt += `(for example, missing or invalid information from earlier steps). Do not call the tool yourself.\n`;
+      return prompt;
+    }
+
+    // Approval steps wait for a human decision made outside the conversation
+    if (currentStep.type === "approval") {
+      prompt += `## Awaiting Approval\n`;
+      prompt += `The workflow is paused until the approval request for this step is approved or rejected. `;
+      prompt += `The approver decides from the links in the request or the approvals inbox; you cannot decide for them. `;
+      prompt += `Let the user know the workflow is waiting and answer questions, but do not try to continue the workflow.\n`;
+      return prompt;
+    }
+
     // Show required facts as a checklist
     prompt += `## Required Information\n`;
     prompt += `Collect the following facts before this step can be completed:\n\n`;
@@ -263,7 +732,7 @@ export class WorkflowEngine {
       const key = `${currentStep.id}.${factDef.name}`;
       const collected = facts[key];
       const check = collected ? "[x]" : "[ ]";
-      prompt += `- ${check} **${factDef.name}** (${factDef.type}): ${factDef.description}`;
+      prompt += `- ${check} **${factDef.name}** (${describeFactType(factDef)}): ${factDef.description}`;
       if (collected) {
         prompt += ` = \`${JSON.stringify(collected.value)}\``;
       }
@@ -315,7 +784,11 @@ export class WorkflowEngine {
    * Filter agent tools based on the current step's allowed_tools constraint.
    */
   filterTools(tools: ToolSet, currentStep: WorkflowStep): ToolSet {
-    const allowed = currentStep.allowed_tools;
+    // The engine makes an action step's tool call itself and approval steps wait
+    // for a decision; the agent only talks to the user
+    const allowed = currentStep.type === "action" || currentStep.type === "approval"
+      ? "conversation"
+      : currentStep.allowed_tools;
 
     // "any" means no filtering
     if (allowed === "any") {
@@ -371,6 +844,293 @@ export class WorkflowEngine {
     return facts;
   }
 
+  /** Call an action step's tool, record the mapped facts, then check its gate */
+  private async runActionStep(
+    executionId: number,
+    stepIndex: number,
+    step: WorkflowStep,
+    definition: WorkflowDefinition,
+    tools: ToolSet,
+    toolContext: AgentToolContext
+  ): Promise<WorkflowTurnResult> {
+    const action = step.action!;
+    toolContext.updateStatus(`Workflow action: running ${action.tool}...`);
+
+    const outcome = await executeAction(
+      action,
+      tools,
+      { ...toolContext, workflow: { workflowEngine: this, executionId, currentStepId: step.id, currentStep: step } },
+      await this.loadFacts(executionId),
+      `workflow-${executionId}-${step.id}-${Date.now()}`
+    );
+
+    if (!outcome.ok) {
+      const message = `Action "${action.tool}" failed: ${outcome.error}`;
+      const gateResult: GateEvaluationResult = { passed: false, failures: [message], details: [] };
+      return await this.handleGateFailure(
+        executionId,
+        definition,
+        stepIndex,
+        gateResult,
+        `Step "${step.name}": ${message}\nThe action will be retried after the next message.`
+      );
+    }
+
+    const invalid: string[] = [];
+    for (const [name, value] of Object.entries(outcome.facts)) {
+      const result = await this.setFact(executionId, step, name, value, "tool");
+      if (!result.ok) invalid.push(...result.errors.map((e) => e.message));
+    }
+    if (invalid.length > 0) {
+      const gateResult: GateEvaluationResult = { passed: false, failures: invalid, details: [] };
+      return await this.handleGateFailure(
+        executionId,
+        definition,
+        stepIndex,
+        gateResult,
+        `Step "${step.name}": action result facts are invalid:\n${invalid.map((f) => `- ${f}`).join("\n")}\nThe action will be retried after the next message.`
+      );
+    }
+
+    const facts = await this.loadFacts(executionId);
+    const gateResult = evaluateGate(step.gate, step.id, facts);
+    if (!gateResult.passed) {
+      return await this.handleGateFailure(
+        executionId,
+        definition,
+        stepIndex,
+        gateResult,
+        `Step "${step.name}": action result did not pass the gate:\n${gateResult.failures.map((f) => `- ${f}`).join("\n")}\nThe action will be retried after the next message.`
+      );
+    }
+
+    await this.recordAttempt(executionId, step.id, gateResult, "advanced");
+    return await this.advanceToNextStep(executionId, definition, stepIndex, step, gateResult);
+  }
+
+  /**
+   * Apply the step's on_fail strategy after its gate (or action) failed:
+   * abort fails the workflow, skip moves on, retry stays on the step.
+   */
+  private async handleGateFailure(
+    executionId: number,
+    definition: WorkflowDefinition,
+    stepIndex: number,
+    gateResult: GateEvaluationResult,
+    retryMessage: string
+  ): Promise<WorkflowTurnResult> {
+    const step = definition.steps[stepIndex]!;
+    const onFail = step.gate.on_fail || "retry";
+    await this.recordAttempt(
+      executionId,
+      step.id,
+      gateResult,
+      onFail === "abort" ? "aborted" : onFail === "skip" ? "skipped" : "retry"
+    );
+
+    if (onFail === "abort") {
+      const execution = await this.deps.workflowRepository.updateExecution(executionId, {
+        status: "failed",
+        completed_at: Date.now(),
+      });
+      const turn: WorkflowTurnResult = {
+        advanced: false,
+        completed: false,
+        failed: true,
+        gateResult,
+        currentStep: step,
+        systemMessage: `Workflow aborted. Gate conditions not met:\n${gateResult.failures.map(f => `- ${f}`).join("\n")}`,
+      };
+      return execution.parent_execution_id !== null ? await this.returnToParent(execution, definition, turn) : turn;
+    }
+
+    if (onFail === "skip") {
+      // Skip to next step
+      return await this.advanceToNextStep(executionId, definition, stepIndex, step, gateResult);
+    }
+
+    // Default: retry — stay on current step
+    return {
+      advanced: false,
+      completed: false,
+      failed: false,
+      gateResult,
+      currentStep: step,
+      systemMessage: retryMessage,
+    };
+  }
+
+  private async loadExecution(
+    executionId: number
+  ): Promise<{ execution: WorkflowExecution; workflow: Workflow; definition: WorkflowDefinition } | null> {
+    const execution = await this.deps.workflowRepository.findExecutionById(executionId);
+    const workflow = execution ? await this.deps.workflowRepository.findById(execution.workflow_id) : null;
+    if (!execution || !workflow) return null;
+    return { execution, workflow, definition: await this.definitionFor(execution, workflow) };
+  }
+
+  /** The definition an execution runs against: the revision it's pinned to, or the workflow as it is now */
+  private async definitionFor(execution: WorkflowExecution, workflow: Workflow): Promise<WorkflowDefinition> {
+    const revision = execution.revision_id !== null
+      ? await this.deps.workflowRepository.findRevisionById(execution.revision_id)
+      : null;
+    return await this.parse(workflow, revision?.yaml_content ?? workflow.yaml_content);
+  }
+
+  /** Parse a definition of `workflow`, resolving includes and sub-workflows from its owner's */
+  private async parse(workflow: Workflow, yamlContent: string): Promise<WorkflowDefinition> {
+    return await loadWorkflowDefinition(this.deps.workflowRepository, workflow.user_id, yamlContent, {
+      name: workflow.name,
+    });
+  }
+
+  /** A conversation runs one workflow at a time (with its sub-workflows) */
+  private async findConflict(execution: WorkflowExecution): Promise<ExecutionControlOutcome | null> {
+    const repo = this.deps.workflowRepository;
+    let active = await repo.getActiveExecution(execution.conversation_id);
+    while (active && active.id !== execution.id && active.parent_execution_id !== null) {
+      active = await repo.findExecutionById(active.parent_execution_id);
+    }
+    return active && active.id !== execution.id
+      ? { ok: false, reason: "conflict", message: "Another workflow is running in this conversation" }
+      : null;
+  }
+
+  /** Sub-workflows are controlled through the workflow that started them */
+  private nestedControl(workflow: Workflow, action: "restart" | "resume"): ExecutionControlOutcome {
+    return {
+      ok: false,
+      reason: "invalid_state",
+      message: `Workflow "${workflow.name}" is running as a sub-workflow; ${action} the workflow that started it`,
+    };
+  }
+
+  /**
+   * Set an execution working on a step again, with fresh deadlines
+   * (re-requesting approval on approval steps). A workflow step starts its
+   * sub-workflow over, or with `resume`, picks up the one that timed out there.
+   */
+  private async reopenAt(
+    executionId: number,
+    definition: WorkflowDefinition,
+    stepIndex: number,
+    now: number,
+    extra: Partial<Pick<WorkflowExecution, "loop_counts">> = {},
+    resume = false
+  ): Promise<WorkflowExecution> {
+    const step = definition.steps[stepIndex]!;
+    const execution = await this.deps.workflowRepository.updateExecution(executionId, {
+      ...extra,
+      current_step_index: stepIndex,
+      current_step_id: step.id,
+      status: "in_progress",
+      completed_at: null,
+      deadline_at: workflowDeadline(definition, now),
+      step_deadline_at: stepDeadline(step, now),
+    });
+    if (step.type === "workflow") {
+      const [latest] = resume ? await this.deps.workflowRepository.listChildExecutions(executionId) : [];
+      const child = latest?.parent_step_id === step.id && latest.status === "timed_out"
+        ? await this.loadExecution(latest.id)
+        : null;
+      const childIndex = child ? child.definition.steps.findIndex((s) => s.id === child.execution.current_step_id) : -1;
+      if (child && childIndex !== -1) {
+        await this.reopenAt(child.execution.id, child.definition, childIndex, now, {}, true);
+      } else {
+        await this.startSubWorkflow(executionId, definition, stepIndex);
+      }
+      return (await this.deps.workflowRepository.findExecutionById(executionId))!;
+    }
+    if (step.type !== "approval") return execution;
+
+    await this.requestApproval(executionId, step);
+    return { ...execution, status: "awaiting_approval" };
+  }
+
+  private async cancelPendingApprovals(executionId: number, now: number): Promise<void> {
+    for (const approval of await this.deps.workflowRepository.listApprovalsByExecution(executionId)) {
+      if (approval.status === "pending") {
+        await this.deps.workflowRepository.decideApproval(approval.id, { status: "cancelled", decided_at: now });
+      }
+    }
+  }
+
+  /** Mark an approval request expired; the execution waiting on it (if still waiting) times out */
+  private async expireApproval(
+    approval: WorkflowApproval,
+    now: number
+  ): Promise<{ approval: WorkflowApproval; execution: WorkflowExecution | null }> {
+    const repo = this.deps.workflowRepository;
+    const expired = await repo.decideApproval(approval.id, { status: "expired", decided_at: now });
+    const execution = await repo.findExecutionById(approval.execution_id);
+    const waiting = execution?.status === "awaiting_approval" && execution.current_step_id === approval.step_id;
+    if (!waiting) return { approval: expired ?? approval, execution: null };
+
+    const timedOut = await repo.updateExecution(execution!.id, { status: "timed_out", completed_at: now });
+    await this.endStack(timedOut, "timed_out", now);
+    return { approval: expired ?? approval, execution: timedOut };
+  }
+
+  /** End the running sub-workflows below `execution`: the one its workflow step waits on, and so on down */
+  private async endSubWorkflows(
+    execution: WorkflowExecution,
+    status: "cancelled" | "timed_out",
+    now: number
+  ): Promise<void> {
+    const repo = this.deps.workflowRepository;
+    for (
+      let child = (await repo.listChildExecutions(execution.id)).find(isActive);
+      child;
+      child = (await repo.listChildExecutions(child.id)).find(isActive)
+    ) {
+      await this.cancelPendingApprovals(child.id, now);
+      await repo.updateExecution(child.id, { status, completed_at: now });
+    }
+  }
+
+  /**
+   * End the whole stack `execution` belongs to: its running sub-workflows,
+   * itself if still running, and the workflows waiting on it.
+   */
+  private async endStack(
+    execution: WorkflowExecution,
+    status: "cancelled" | "timed_out",
+    now: number
+  ): Promise<void> {
+    const repo = this.deps.workflowRepository;
+    await this.endSubWorkflows(execution, status, now);
+    for (
+      let current: WorkflowExecution | null = execution;
+      current;
+      current = current.parent_execution_id !== null ? await repo.findExecutionById(current.parent_execution_id) : null
+    ) {
+      if (!isActive(current)) continue;
+      await this.cancelPendingApprovals(current.id, now);
+      await repo.updateExecution(current.id, { status, completed_at: now });
+    }
+  }
+
+  /** Keep the outcome of a gate evaluation (and verifier, if one ran) for the execution history */
+  private async recordAttempt(
+    executionId: number,
+    stepId: string,
+    gateResult: GateEvaluationResult,
+    outcome: WorkflowStepAttempt["outcome"],
+    verifier?: { approved: boolean; reasoning: string }
+  ): Promise<void> {
+    await this.deps.workflowRepository.recordStepAttempt({
+      execution_id: executionId,
+      step_id: stepId,
+      outcome,
+      gate_passed: gateResult.passed,
+      gate_failures: gateResult.failures,
+      gate_details: gateResult.details,
+      verifier_approved: verifier?.approved ?? null,
+      verifier_reasoning: verifier?.reasoning ?? null,
+      evaluated_at: Date.now(),
+    });
+  }
+
   private async advanceToNextStep(
     executionId: number,
     definition: WorkflowDefinition,
@@ -378,15 +1138,21 @@ export class WorkflowEngine {
     currentStep: WorkflowStep,
     gateResult: GateEvaluationResult
   ): Promise<WorkflowTurnResult> {
-    const nextStepIndex = currentStepIndex + 1;
-
-    if (nextStepIndex >= definition.steps.length) {
+    // Reload facts so any the verifier extracted can drive the branch
+    const [facts, execution] = await Promise.all([
+      this.loadFacts(executionId),
+      this.deps.workflowRepository.findExecutionById(executionId),
+    ]);
+    const loopCounts = execution?.loop_counts ?? {};
+    const transition = resolveTransition(definition, currentStepIndex, facts, loopCounts);
+
+    if (!transition.step) {
       // Workflow complete!
-      await this.deps.workflowRepository.updateExecution(executionId, {
+      const completed = await this.deps.workflowRepository.updateExecution(executionId, {
         status: "completed",
         completed_at: Date.now(),
       });
-      return {
+      const turn: WorkflowTurnResult = {
         advanced: true,
         completed: true,
         failed: false,
@@ -394,23 +1160,65 @@ export class WorkflowEngine {
         currentStep,
         systemMessage: `Workflow "${definition.name}" completed successfully!`,
       };
+      return completed.parent_execution_id !== null ? await this.returnToParent(completed, definition, turn) : turn;
     }
 
-    const nextStep = definition.steps[nextStepIndex]!;
+    const nextStep = transition.step;
+    const nextStepIndex = transition.index;
 
-    // Update execution to point to next step
+    // Update execution to point to next step, counting the loop if one was taken
     await this.deps.workflowRepository.updateExecution(executionId, {
       current_step_index: nextStepIndex,
       current_step_id: nextStep.id,
+      step_deadline_at: stepDeadline(nextStep, Date.now()),
+      ...(transition.loopKey
+        ? { loop_counts: { ...loopCounts, [transition.loopKey]: (loopCounts[transition.loopKey] ?? 0) + 1 } }
+        : {}),
     });
 
+    // A revisited step starts over so its gate isn't passed by the previous visit's facts
+    if (Object.keys(facts).some((key) => key.startsWith(`${nextStep.id}.`))) {
+      await this.deps.workflowRepository.clearStepFacts(executionId, nextStep.id);
+    }
+
     // Set defaults for the new step
     for (const factDef of nextStep.required_facts) {
       if (factDef.default !== undefined) {
-        await this.setFact(executionId, nextStep.id, factDef.name, factDef.default, "default");
+        await this.setFact(executionId, nextStep, factDef.name, factDef.default, "default");
       }
     }
 
+    if (nextStep.type === "workflow") {
+      const { child, failure } = await this.startSubWorkflow(executionId, definition, nextStepIndex);
+      if (failure) return failure;
+      return {
+        advanced: true,
+        completed: false,
+        failed: false,
+        gateResult,
+        currentStep,
+        nextStep,
+        nextStepIndex,
+        executionId: child!.id,
+        systemMessage: `Step "${currentStep.name}" complete. Starting "${nextStep.name}".`,
+      };
+    }
+
+    if (nextStep.type === "approval") {
+      await this.requestApproval(executionId, nextStep);
+      return {
+        advanced: true,
+        completed: false,
+        failed: false,
+        gateResult,
+        currentStep,
+        nextStep,
+        nextStepIndex,
+        awaitingApproval: true,
+        systemMessage: `Step "${currentStep.name}" complete. Waiting for approval: "${nextStep.name}".`,
+      };
+    }
+
     return {
       advanced: true,
       completed: false,
@@ -418,10 +1226,169 @@ export class WorkflowEngine {
       gateResult,
       currentStep,
       nextStep,
-      systemMessage: `Step "${currentStep.name}" complete. Moving to step "${nextStep.name}".`,
+      nextStepIndex,
+      systemMessage: transition.loopKey
+        ? `Step "${currentStep.name}" complete. Returning to step "${nextStep.name}".`
+        : `Step "${currentStep.name}" complete. Moving to step "${nextStep.name}".`,
     };
   }
 
+  /**
+   * Start the sub-workflow the workflow step at `stepIndex` runs, seeded with
+   * the step's inputs, in the same conversation. When the workflow it uses
+   * can't be found the step fails instead, as if its gate had.
+   */
+  private async startSubWorkflow(
+    executionId: number,
+    definition: WorkflowDefinition,
+    stepIndex: number
+  ): Promise<{ child?: WorkflowExecution; failure?: WorkflowTurnResult }> {
+    const repo = this.deps.workflowRepository;
+    const step = definition.steps[stepIndex]!;
+    const subworkflow = step.subworkflow!;
+    const parent = (await repo.findExecutionById(executionId))!;
+    const owner = await repo.findById(parent.workflow_id);
+    const target = owner ? await findSubWorkflow(repo, owner.user_id, subworkflow) : null;
+
+    if (!target) {
+      const message = `Workflow "${formatWorkflowRef(subworkflow)}" was not found`;
+      const gateResult: GateEvaluationResult = { passed: false, failures: [message], details: [] };
+      return {
+        failure: await this.handleGateFailure(executionId, definition, stepIndex, gateResult, `Step "${step.name}": ${message}.`),
+      };
+    }
+
+    const facts = await this.loadFacts(executionId);
+    const inputs: Record<string, unknown> = {};
+    for (const [key, template] of Object.entries(subworkflow.inputs)) {
+      const value = renderTemplate(template, facts);
+      if (value !== null && value !== undefined) inputs[key] = value;
+    }
+
+    const { execution, rejectedFacts } = await this.startWorkflow(parent.conversation_id, target.workflow.id, inputs, {
+      revisionId: target.revision?.id ?? null,
+      parent: { executionId, stepId: step.id },
+    });
+    if (rejectedFacts.length > 0) {
+      console.warn(`[workflows] Sub-workflow inputs rejected for step "${step.id}":`, rejectedFacts.join("; "));
+    }
+    return { child: execution };
+  }
+
+  /**
+   * A sub-workflow ended (`turn` is how): copy its outputs to the workflow
+   * step that started it and carry on with the parent from there. A failed
+   * sub-workflow fails that step; a step that retries runs its workflow again.
+   */
+  private async returnToParent(
+    child: WorkflowExecution,
+    childDefinition: WorkflowDefinition,
+    turn: WorkflowTurnResult
+  ): Promise<WorkflowTurnResult> {
+    const loaded = await this.loadExecution(child.parent_execution_id!);
+    if (!loaded || loaded.execution.status !== "in_progress") return turn;
+    const { execution: parent, definition } = loaded;
+    const stepIndex = definition.steps.findIndex((s) => s.id === child.parent_step_id);
+    const step = definition.steps[stepIndex];
+    if (!step?.subworkflow || parent.current_step_id !== step.id) return turn;
+
+    let gateResult: GateEvaluationResult;
+    if (turn.completed) {
+      const childFacts = await this.loadFacts(child.id);
+      const invalid: string[] = [];
+      for (const [name, ref] of Object.entries(step.subworkflow.outputs)) {
+        if (!(ref in childFacts)) continue;
+        const result = await this.setFact(parent.id, step, name, childFacts[ref]!.value, "workflow");
+        if (!result.ok) invalid.push(...result.errors.map((e) => e.message));
+      }
+      gateResult = invalid.length > 0
+        ? { passed: false, failures: invalid, details: [] }
+        : evaluateGate(step.gate, step.id, await this.loadFacts(parent.id));
+    } else {
+      gateResult = { passed: false, failures: [`Workflow "${childDefinition.name}" failed`], details: [] };
+    }
+
+    let parentTurn: WorkflowTurnResult;
+    if (gateResult.passed) {
+      await this.recordAttempt(parent.id, step.id, gateResult, "advanced");
+      parentTurn = await this.advanceToNextStep(parent.id, definition, stepIndex, step, gateResult);
+    } else {
+      parentTurn = await this.handleGateFailure(
+        parent.id,
+        definition,
+        stepIndex,
+        gateResult,
+        `Step "${step.name}" didn't complete:\n${gateResult.failures.map((f) => `- ${f}`).join("\n")}\nRunning it again.`
+      );
+      if (!parentTurn.advanced && !parentTurn.failed) {
+        const { failure } = await this.startSubWorkflow(parent.id, definition, stepIndex);
+        if (failure) parentTurn = failure;
+      }
+    }
+
+    return {
+      ...parentTurn,
+      executionId: parentTurn.executionId ?? parent.id,
+      systemMessage: [turn.systemMessage, parentTurn.systemMessage].filter(Boolean).join("\n"),
+    };
+  }
+
+  /**
+   * Who an approval step's signed links went to; "link" when that can't be
+   * told, e.g. the request only went to webhooks
+   */
+  private async linkApprover(approval: WorkflowApproval, step: WorkflowStep | undefined): Promise<string> {
+    if (!step?.approval) return "link";
+    const settings = this.deps.notificationRepository
+      ? await this.deps.notificationRepository.getSettings(approval.user_id)
+      : null;
+    return approverFor(step.approval, settings) ?? "link";
+  }
+
+  /**
+   * Pause the execution at an approval step, record the approval request and
+   * notify the user through their enabled channels with approve/reject links.
+   */
+  private async requestApproval(executionId: number, step: WorkflowStep): Promise<WorkflowApproval> {
+    const definition = step.approval!;
+    const rendered = renderTemplate(definition.message, await this.loadFacts(executionId));
+    const message = (typeof rendered === "string" ? rendered : JSON.stringify(rendered)).trim();
+    const hours = definition.expires_in_hours ?? DEFAULT_APPROVAL_EXPIRY_HOURS;
+
+    await this.deps.workflowRepository.updateExecution(executionId, { status: "awaiting_approval" });
+    const approval = await this.deps.workflowRepository.createApproval({
+      execution_id: executionId,
+      step_id: step.id,
+      step_name: step.name,
+      message,
+      expires_at: Date.now() + hours * 3_600_000,
+    });
+
+    const notificationRepository = this.deps.notificationRepository;
+    if (!notificationRepository) return approval;
+
+    let text = `Approval needed — ${step.name}: ${message}`;
+    if (this.deps.approvalLinks) {
+      const { baseUrl, secret } = this.deps.approvalLinks;
+      const links = await buildApprovalLinks(approval.id, baseUrl, secret);
+      text += `\n\nApprove: ${links.approve}\nReject: ${links.reject}`;
+    }
+
+    await queueNotification(
+      notificationRepository,
+      {
+        user_id: approval.user_id,
+        agent_id: approval.agent_id,
+        conversation_id: approval.conversation_id,
+        message: text,
+        urgency: "high",
+      },
+      { channel: definition.channel, destination: definition.destination }
+    );
+
+    return approval;
+  }
+
   private buildRetryMessage(
     step: WorkflowStep,
     gateResult: GateEvaluationResult,
@@ -526,22 +1493,4 @@ Respond with a JSON object (and nothing else):
       };
     }
   }
-
-  private buildStepStatuses(
-    definition: WorkflowDefinition,
-    execution: WorkflowExecution
-  ): Record<string, 'pending' | 'in_progress' | 'completed' | 'skipped' | 'failed'> {
-    const statuses: Record<string, string> = {};
-    for (let i = 0; i < definition.steps.length; i++) {
-      const step = definition.steps[i]!;
-      if (i < execution.current_step_index) {
-        statuses[step.id] = "completed";
-      } else if (i === execution.current_step_index) {
-        statuses[step.id] = execution.status === "failed" ? "failed" : "in_progress";
-      } else {
-        statuses[step.id] = "pending";
-      }
-    }
-    return statuses as any;
-  }
 }
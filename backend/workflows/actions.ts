@@ -0,0 +1,159 @@
+/**
+ * Action Steps
+ *
+ * Runs a workflow action step: a single tool call whose arguments are
+ * templated from collected facts and whose result is mapped back into facts.
+ * No model is involved.
+ */
+
+import { asSchema, type ToolSet } from "ai";
+import type { ActionDefinition, CollectedFact } from "./types";
+
+/** Matches a {{ fact_ref }} placeholder */
+const TEMPLATE_PATTERN = /\{\{\s*([a-z][a-z0-9_]*(?:\.[a-z][a-z0-9_]*)?)\s*\}\}/g;
+const WHOLE_TEMPLATE_PATTERN = /^\{\{\s*([a-z][a-z0-9_]*(?:\.[a-z][a-z0-9_]*)?)\s*\}\}$/;
+
+export type ActionOutcome =
+  | { ok: true; result: unknown; facts: Record<string, unknown> }
+  | { ok: false; error: string };
+
+/**
+ * Look up a fact by reference. "step_id.fact_name" is exact; a bare
+ * "fact_name" resolves to the most recently collected fact of that name.
+ */
+export function resolveFactRef(ref: string, facts: Record<string, CollectedFact>): unknown {
+  if (ref.includes(".")) return facts[ref]?.value;
+
+  let latest: CollectedFact | undefined;
+  for (const [key, fact] of Object.entries(facts)) {
+    if (key.split(".")[1] !== ref) continue;
+    if (!latest || fact.collected_at >= latest.collected_at) latest = fact;
+  }
+  return latest?.value;
+}
+
+/**
+ * Substitute {{ fact_ref }} placeholders throughout an argument value.
+ * A string that is exactly one placeholder takes the fact's value as-is
+ * (keeping numbers, lists, etc.); placeholders inside longer strings are
+ * interpolated as text. Missing facts render as null / empty text.
+ */
+export function renderTemplate(value: unknown, facts: Record<string, CollectedFact>): unknown {
+  if (typeof value === "string") {
+    const whole = value.match(WHOLE_TEMPLATE_PATTERN);
+    if (whole) return resolveFactRef(whole[1]!, facts) ?? null;
+
+    return value.replace(TEMPLATE_PATTERN, (_, ref: string) => {
+      const resolved = resolveFactRef(ref, facts);
+      if (resolved === undefined || resolved === null) return "";
+      return typeof resolved === "string" ? resolved : JSON.stringify(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => renderTemplate(v, facts));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, renderTemplate(v, facts)])
+    );
+  }
+  return value;
+}
+
+/** Every fact reference used in placeholders within an argument value */
+export function findTemplateRefs(value: unknown): string[] {
+  if (typeof value === "string") {
+    return Array.from(value.matchAll(TEMPLATE_PATTERN), (m) => m[1]!);
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(findTemplateRefs);
+  }
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap(findTemplateRefs);
+  }
+  return [];
+}
+
+/**
+ * Read a dot-separated path ("data.items.0.id") from a tool result.
+ * An empty path or "$" returns the whole result.
+ */
+export function extractPath(result: unknown, path: string): unknown {
+  if (path === "" || path === "$") return result;
+
+  let current: unknown = result;
+  for (const segment of path.split(".")) {
+    if (current === null || current === undefined || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Tools report failures in their result rather than throwing: an `error`
+ * field, `success: false`, or an MCP `isError` flag.
+ */
+export function getToolError(result: unknown): string | null {
+  if (!result || typeof result !== "object" || Array.isArray(result)) return null;
+  const obj = result as Record<string, unknown>;
+  if (obj.error) return typeof obj.error === "string" ? obj.error : JSON.stringify(obj.error);
+  if (obj.success === false) return "Tool reported failure";
+  if (obj.isError === true) return "Tool reported an error";
+  return null;
+}
+
+/**
+ * Call the action's tool with templated arguments and map its result into
+ * facts. `toolContext` is passed as the tool's experimental_context.
+ */
+export async function executeAction(
+  action: ActionDefinition,
+  tools: ToolSet,
+  toolContext: unknown,
+  facts: Record<string, CollectedFact>,
+  toolCallId: string
+): Promise<ActionOutcome> {
+  const tool = tools[action.tool];
+  if (!tool?.execute) {
+    return { ok: false, error: `Tool "${action.tool}" is not available to this agent` };
+  }
+
+  const args = renderTemplate(action.args ?? {}, facts);
+  const schema = asSchema(tool.inputSchema);
+  const validation = schema.validate ? await schema.validate(args) : { success: true as const, value: args };
+  if (!validation.success) {
+    return { ok: false, error: `Invalid arguments for "${action.tool}": ${validation.error.message}` };
+  }
+
+  let raw: unknown;
+  try {
+    raw = await tool.execute(validation.value, {
+      toolCallId,
+      messages: [],
+      experimental_context: toolContext,
+    });
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+
+  // Most tools return JSON-encoded strings
+  let result = raw;
+  if (typeof raw === "string") {
+    try {
+      result = JSON.parse(raw);
+    } catch {
+      // plain text result
+    }
+  }
+
+  const error = getToolError(result);
+  if (error) return { ok: false, error };
+
+  const mapped: Record<string, unknown> = {};
+  for (const [factName, path] of Object.entries(action.result_facts ?? {})) {
+    const value = extractPath(result, path);
+    if (value !== undefined) mapped[factName] = value;
+  }
+
+  return { ok: true, result, facts: mapped };
+}
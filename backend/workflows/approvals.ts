@@ -0,0 +1,115 @@
+/**
+ * Approval Steps
+ *
+ * Helpers for workflow approval steps: the facts a decision is recorded as,
+ * and the signed tokens behind the approve/reject links sent to approvers.
+ * A token names one approval and one decision, so a link can't be altered to
+ * decide anything else; whether the approval is still pending is checked
+ * against the database when the link is used.
+ */
+
+import type { UserNotificationSettings } from "../types/models";
+import type { ApprovalDefinition, FactDefinition } from "./types";
+
+export type ApprovalDecision = "approved" | "rejected";
+
+export const APPROVAL_DECISIONS: ApprovalDecision[] = ["approved", "rejected"];
+
+/** How long approve/reject links stay valid when the step doesn't say */
+export const DEFAULT_APPROVAL_EXPIRY_HOURS = 72;
+
+/** The facts every approval step records once a decision arrives */
+export const APPROVAL_FACTS: FactDefinition[] = [
+  {
+    name: "decision",
+    description: "Whether the request was approved or rejected",
+    type: "enum",
+    enum_values: APPROVAL_DECISIONS,
+  },
+  { name: "decided_by", description: "Who made the decision", type: "string" },
+  { name: "decided_at", description: "When the decision was made", type: "date" },
+  { name: "comment", description: "Comment left by the approver (empty if none)", type: "string" },
+];
+
+const encoder = new TextEncoder();
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+function payload(approvalId: number, decision: ApprovalDecision): Uint8Array<ArrayBuffer> {
+  return encoder.encode(`workflow-approval:${approvalId}:${decision}`);
+}
+
+/** Create the token for an approve or reject link: "<approval id>.<decision>.<signature>" */
+export async function signApprovalToken(
+  approvalId: number,
+  decision: ApprovalDecision,
+  secret: string
+): Promise<string> {
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(secret), payload(approvalId, decision));
+  return `${approvalId}.${decision}.${Buffer.from(signature).toString("base64url")}`;
+}
+
+/** Check a link token's signature. Returns what it authorises, or null if it is malformed or forged */
+export async function verifyApprovalToken(
+  token: string,
+  secret: string
+): Promise<{ approvalId: number; decision: ApprovalDecision } | null> {
+  const [id, decision, signature, ...rest] = token.split(".");
+  if (rest.length > 0 || !id || !signature || !/^\d+$/.test(id)) return null;
+  if (!APPROVAL_DECISIONS.includes(decision as ApprovalDecision)) return null;
+
+  const approvalId = Number(id);
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    await hmacKey(secret),
+    Buffer.from(signature, "base64url"),
+    payload(approvalId, decision as ApprovalDecision)
+  );
+  return valid ? { approvalId, decision: decision as ApprovalDecision } : null;
+}
+
+/** Approve and reject links for an approval request, served from `baseUrl` */
+export async function buildApprovalLinks(
+  approvalId: number,
+  baseUrl: string,
+  secret: string
+): Promise<{ approve: string; reject: string }> {
+  const link = async (decision: ApprovalDecision) => {
+    const token = await signApprovalToken(approvalId, decision, secret);
+    return `${baseUrl.replace(/\/+$/, "")}/api/workflows/approvals/respond?token=${encodeURIComponent(token)}`;
+  };
+  return { approve: await link("approved"), reject: await link("rejected") };
+}
+
+/**
+ * Who an approval step's links are sent to, recorded as `decided_by` when
+ * one is used: the named email recipient's address, the destination name on
+ * other channels, or the email recipients when the step names none. Null
+ * when the request only goes to webhooks or Pushover without a destination.
+ */
+export function approverFor(
+  definition: Pick<ApprovalDefinition, "channel" | "destination">,
+  settings: Pick<UserNotificationSettings, "email_addresses" | "notification_email"> | null
+): string | null {
+  const emailAddresses = settings?.email_addresses ?? [];
+  const usesEmail = !definition.channel || definition.channel === "email";
+
+  if (definition.destination) {
+    const named = usesEmail ? emailAddresses.find((entry) => entry.name === definition.destination) : undefined;
+    return named?.email ?? definition.destination;
+  }
+  if (!usesEmail) return null;
+
+  const recipients = emailAddresses.length > 0
+    ? emailAddresses.map((entry) => entry.email)
+    : settings?.notification_email ? [settings.notification_email] : [];
+  return recipients.length > 0 ? recipients.join(", ") : null;
+}
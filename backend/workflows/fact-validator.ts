@@ -0,0 +1,173 @@
+/**
+ * Fact Validator
+ *
+ * Checks reported fact values against their definitions and coerces them to
+ * the declared type ("42" → 42, "yes" → true, "March 3 2025" → ISO date).
+ * All evaluation is deterministic — no AI involved.
+ */
+
+import type {
+  FactDefinition,
+  FactValidationError,
+  FactValidationResult,
+  FactValueDefinition,
+} from "./types";
+
+const BOOLEAN_WORDS: Record<string, boolean> = {
+  true: true, yes: true, y: true, "1": true,
+  false: false, no: false, n: false, "0": false,
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate and coerce a value for a fact. On success the coerced value is
+ * returned; otherwise every problem found, with its path within the value.
+ */
+export function validateFactValue(def: FactDefinition, value: unknown): FactValidationResult {
+  const errors: FactValidationError[] = [];
+  const coerced = check(def, value, def.name, def.name, errors);
+  return errors.length === 0 ? { ok: true, value: coerced } : { ok: false, errors };
+}
+
+/** Parse a date (ISO or any format Date understands) to epoch ms, or NaN */
+export function parseDate(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || !value.trim()) return NaN;
+  const text = value.trim();
+  return Date.parse(DATE_ONLY.test(text) ? `${text}T00:00:00Z` : text);
+}
+
+function check(
+  def: FactValueDefinition,
+  value: unknown,
+  fact: string,
+  path: string,
+  errors: FactValidationError[]
+): unknown {
+  const fail = (message: string, expected: string) => {
+    errors.push({ fact, path, message: `${path} ${message}`, expected, received: value });
+    return value;
+  };
+
+  switch (def.type) {
+    case "string": {
+      if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+        return fail("must be text", "string");
+      }
+      const text = String(value);
+      if (typeof def.min === "number" && text.length < def.min) {
+        return fail(`must be at least ${def.min} characters`, `string of length >= ${def.min}`);
+      }
+      if (typeof def.max === "number" && text.length > def.max) {
+        return fail(`must be at most ${def.max} characters`, `string of length <= ${def.max}`);
+      }
+      if (def.pattern && !new RegExp(def.pattern).test(text)) {
+        return fail(`must match the pattern ${def.pattern}`, `string matching ${def.pattern}`);
+      }
+      return text;
+    }
+
+    case "number": {
+      let n = NaN;
+      if (typeof value === "number") {
+        n = value;
+      } else if (typeof value === "string" && value.trim()) {
+        // Tolerate currency symbols and thousands separators ("$1,250.50")
+        n = Number(value.trim().replace(/^[$€£¥]/, "").replace(/,/g, ""));
+      }
+      if (!Number.isFinite(n)) return fail("must be a number", "number");
+      if (typeof def.min === "number" && n < def.min) return fail(`must be at least ${def.min}`, `number >= ${def.min}`);
+      if (typeof def.max === "number" && n > def.max) return fail(`must be at most ${def.max}`, `number <= ${def.max}`);
+      return n;
+    }
+
+    case "boolean": {
+      if (typeof value === "boolean") return value;
+      const word = typeof value === "string" || typeof value === "number" ? String(value).trim().toLowerCase() : "";
+      if (word in BOOLEAN_WORDS) return BOOLEAN_WORDS[word];
+      return fail("must be true or false", "boolean");
+    }
+
+    case "date": {
+      const ms = parseDate(value);
+      if (Number.isNaN(ms)) return fail("must be a date", "date (YYYY-MM-DD or ISO 8601)");
+      if (def.min !== undefined && ms < parseDate(def.min)) return fail(`must be on or after ${def.min}`, `date >= ${def.min}`);
+      if (def.max !== undefined && ms > parseDate(def.max)) return fail(`must be on or before ${def.max}`, `date <= ${def.max}`);
+      // Keep plain dates as dates; anything with a time becomes a full ISO timestamp
+      const text = typeof value === "string" ? value.trim() : "";
+      return DATE_ONLY.test(text) ? text : new Date(ms).toISOString();
+    }
+
+    case "enum": {
+      const allowed = def.enum_values ?? [];
+      const expected = `one of: ${allowed.join(", ")}`;
+      if (typeof value !== "string" && typeof value !== "number") return fail(`must be ${expected}`, expected);
+      const text = String(value).trim();
+      const match = allowed.find((v) => v === text) ?? allowed.find((v) => v.toLowerCase() === text.toLowerCase());
+      return match !== undefined ? match : fail(`must be ${expected}`, expected);
+    }
+
+    case "list": {
+      let list = value;
+      if (typeof value === "string") {
+        try {
+          list = JSON.parse(value);
+        } catch {
+          // reported below
+        }
+      }
+      if (!Array.isArray(list)) return fail("must be a list", "list");
+      if (typeof def.min === "number" && list.length < def.min) {
+        return fail(`must have at least ${def.min} item(s)`, `list of >= ${def.min} items`);
+      }
+      if (typeof def.max === "number" && list.length > def.max) {
+        return fail(`must have at most ${def.max} item(s)`, `list of <= ${def.max} items`);
+      }
+      if (!def.items) return list;
+
+      const itemDef = def.items;
+      return list.map((item, i) =>
+        Array.isArray(itemDef)
+          ? checkObject(itemDef, item, fact, `${path}[${i}]`, errors)
+          : check(itemDef, item, fact, `${path}[${i}]`, errors)
+      );
+    }
+  }
+}
+
+function checkObject(
+  fields: FactDefinition[],
+  value: unknown,
+  fact: string,
+  path: string,
+  errors: FactValidationError[]
+): unknown {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    errors.push({
+      fact,
+      path,
+      message: `${path} must be an object with: ${fields.map((f) => f.name).join(", ")}`,
+      expected: "object",
+      received: value,
+    });
+    return value;
+  }
+
+  // Fields not in the schema are kept as reported
+  const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+  for (const field of fields) {
+    const fieldPath = `${path}.${field.name}`;
+    const fieldValue = result[field.name];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (field.default !== undefined) {
+        result[field.name] = field.default;
+      } else {
+        errors.push({ fact, path: fieldPath, message: `${fieldPath} is required`, expected: field.type });
+      }
+      continue;
+    }
+    result[field.name] = check(field, fieldValue, fact, fieldPath, errors);
+  }
+  return result;
+}
@@ -0,0 +1,495 @@
+/**
+ * Workflow Test Harness
+ *
+ * Plays a scripted conversation against a workflow definition to check how
+ * it behaves before it's rolled out. The run uses the real WorkflowEngine
+ * (gates, branches, loops, actions and approvals) over an in-memory
+ * repository, so nothing is persisted. Each user turn comes from the script,
+ * or from a model playing a simulated user once the script runs out.
+ *
+ * Without an agent model, a mock model plays the agent: for each turn it
+ * reports the facts the script lists for that turn through the
+ * report_workflow_facts tool, the same way a real agent would. Action steps
+ * call scripted tools that return canned results, and approval steps are
+ * decided from the script.
+ */
+
+import { generateText, stepCountIs, tool, type LanguageModel, type ModelMessage, type ToolSet } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { z } from "zod";
+import type { WorkflowExecution } from "../types/models";
+import type { AgentToolContext } from "../tools/context";
+import { workflowTools } from "../tools/workflowTools";
+import { InMemoryWorkflowRepository } from "../repositories/memory/InMemoryWorkflowRepository";
+import { WorkflowEngine } from "./WorkflowEngine";
+import { parseWorkflow, parseWorkflowRef, type WorkflowReferences } from "./parser";
+import { evaluateGate, getMissingFacts } from "./gate-evaluator";
+import { buildExecutionHistory, type StepHistory } from "./history";
+import { APPROVAL_DECISIONS, type ApprovalDecision } from "./approvals";
+
+const CONVERSATION_ID = 1;
+/** Stands in for the approver when the script decides an approval */
+const TEST_APPROVER = "workflow test";
+/** Tool-call rounds the agent gets per turn, as in chat */
+const MAX_AGENT_STEPS = 10;
+/** Upper bound on engine rounds, so a misbehaving run can't spin forever */
+const MAX_ROUNDS = 200;
+const DEFAULT_SIMULATED_TURNS = 10;
+/** What the simulated user says when it has nothing more to add */
+const SIMULATED_USER_DONE = "[DONE]";
+
+/** One scripted user turn */
+export interface WorkflowTestTurn {
+  /** What the user says */
+  user: string;
+  /**
+   * Facts the mock agent reports in reply, by fact name on the current step.
+   * Ignored when a real agent model plays the agent.
+   */
+  facts?: Record<string, unknown>;
+  /** What the mock agent says back */
+  reply?: string;
+}
+
+export interface WorkflowTestScript {
+  /** Scripted user turns, played in order */
+  turns?: WorkflowTestTurn[];
+  /** A model-played user that takes over once the scripted turns run out */
+  simulated_user?: {
+    /** Who the simulated user is and what they want, e.g. "You are filing a taxi receipt for 42 EUR" */
+    instructions: string;
+    max_turns?: number;
+  };
+  /** Facts seeded when the workflow starts, keyed "fact_name" (first step) or "step_id.fact_name" */
+  initial_facts?: Record<string, unknown>;
+  /** What each tool returns when an action step (or the agent) calls it, by tool name */
+  tool_results?: Record<string, unknown>;
+  /** Decisions for approval steps, by step id */
+  approvals?: Record<string, ApprovalDecision>;
+  /** How the run should end; without it the workflow is expected to complete */
+  expect?: {
+    status?: WorkflowExecution["status"];
+    /** The step the run should end on */
+    step?: string;
+    /** Facts the run should have collected, keyed "step_id.fact_name" */
+    facts?: Record<string, unknown>;
+  };
+}
+
+export interface WorkflowTestOptions {
+  /** Plays the agent; without it a mock model reports each turn's scripted facts */
+  agentModel?: LanguageModel;
+  /** Plays the simulated user; needed when the script has simulated_user */
+  userModel?: LanguageModel;
+  /** Checks gates after they pass, as in chat */
+  verifierModel?: LanguageModel;
+  /** Step templates and workflows the definition includes or uses, as loadWorkflowReferences returns them */
+  references?: WorkflowReferences;
+}
+
+export interface WorkflowTestTurnReport {
+  source: "script" | "simulated";
+  step_id: string;
+  user: string;
+  reply: string;
+  /** Facts recorded during the turn, keyed "step_id.fact_name" */
+  facts: Record<string, unknown>;
+  /** Reported facts the engine rejected, with why */
+  rejected_facts: string[];
+  gate: { passed: boolean; failures: string[] } | null;
+  advanced: boolean;
+  /** Where the workflow went after the turn, if it moved */
+  next_step_id: string | null;
+}
+
+export interface WorkflowTestReport {
+  workflow: string;
+  /** Whether the run ended the way the script expects */
+  passed: boolean;
+  /** Expectations the run didn't meet */
+  failures: string[];
+  status: WorkflowExecution["status"];
+  current_step_id: string;
+  /** Why the run stopped short, when it ended with the workflow still running */
+  stuck: { step_id: string; reason: string; gate_failures: string[]; missing_facts: string[] } | null;
+  /** Facts held at the end, keyed "step_id.fact_name" */
+  facts: Record<string, unknown>;
+  /** Initial facts the engine rejected */
+  rejected_initial_facts: string[];
+  turns: WorkflowTestTurnReport[];
+  /** Scripted turns left unplayed because the run ended first */
+  unused_turns: number;
+  /** Tool calls made by action steps and the agent, in order */
+  tool_calls: Array<{ tool: string; args: unknown }>;
+  steps: StepHistory[];
+}
+
+/**
+ * Check a test script's shape. Returns a message describing the first
+ * problem, or null if the script can be run.
+ */
+export function validateTestScript(script: unknown): string | null {
+  if (!script || typeof script !== "object" || Array.isArray(script)) {
+    return "script must be an object";
+  }
+  const s = script as Record<string, unknown>;
+
+  if (s.turns !== undefined) {
+    if (!Array.isArray(s.turns)) return "script.turns must be an array";
+    for (const [i, turn] of s.turns.entries()) {
+      if (!turn || typeof turn !== "object" || typeof (turn as WorkflowTestTurn).user !== "string") {
+        return `script.turns[${i}].user must be a string`;
+      }
+      const facts = (turn as WorkflowTestTurn).facts;
+      if (facts !== undefined && (!facts || typeof facts !== "object" || Array.isArray(facts))) {
+        return `script.turns[${i}].facts must be an object`;
+      }
+    }
+  }
+
+  if (s.simulated_user !== undefined) {
+    const sim = s.simulated_user as WorkflowTestScript["simulated_user"];
+    if (!sim || typeof sim.instructions !== "string" || !sim.instructions.trim()) {
+      return "script.simulated_user.instructions must be a non-empty string";
+    }
+    if (sim.max_turns !== undefined && (!Number.isInteger(sim.max_turns) || sim.max_turns < 1)) {
+      return "script.simulated_user.max_turns must be a positive integer";
+    }
+  }
+
+  for (const key of ["initial_facts", "tool_results", "approvals", "expect"] as const) {
+    const value = s[key];
+    if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+      return `script.${key} must be an object`;
+    }
+  }
+
+  for (const [stepId, decision] of Object.entries((s.approvals as Record<string, unknown>) ?? {})) {
+    if (!APPROVAL_DECISIONS.includes(decision as ApprovalDecision)) {
+      return `script.approvals.${stepId} must be one of: ${APPROVAL_DECISIONS.join(", ")}`;
+    }
+  }
+
+  if (!s.turns && !s.simulated_user && !s.initial_facts) {
+    return "script needs turns, a simulated_user or initial_facts to drive the workflow";
+  }
+  return null;
+}
+
+/**
+ * Store the referenced templates and workflows so the engine finds them as
+ * it would the user's own. Pinned versions become earlier revisions, with
+ * the unpinned reference saved last as the current one.
+ */
+async function seedReferences(repo: InMemoryWorkflowRepository, references: WorkflowReferences): Promise<void> {
+  for (const [name, templateYaml] of Object.entries(references.templates ?? {})) {
+    await repo.createStepTemplate({ user_id: 0, name, yaml_content: templateYaml });
+  }
+
+  const refs = Object.entries(references.workflows ?? {})
+    .sort(([a], [b]) => Number(!a.includes("@")) - Number(!b.includes("@")));
+  for (const [ref, workflowYaml] of refs) {
+    const name = parseWorkflowRef(ref).workflow;
+    const definition = parseWorkflow(workflowYaml, { references, name });
+    const existing = await repo.findByName(0, name);
+    if (existing) {
+      await repo.update(existing.id, { yaml_content: workflowYaml, version: definition.version });
+    } else {
+      await repo.create({ user_id: 0, name, yaml_content: workflowYaml, version: definition.version });
+    }
+  }
+}
+
+/**
+ * Run a test script against a workflow definition and report which gates
+ * passed, which facts were collected and where the run got stuck. Throws
+ * WorkflowParseError if the YAML is invalid.
+ */
+export async function runWorkflowTest(
+  yaml: string,
+  script: WorkflowTestScript,
+  options: WorkflowTestOptions = {}
+): Promise<WorkflowTestReport> {
+  const references = options.references ?? {};
+  const parsed = parseWorkflow(yaml, { references });
+  if (script.simulated_user && !options.userModel) {
+    throw new Error("A simulated user needs a model to play it");
+  }
+
+  const repo = new InMemoryWorkflowRepository();
+  await seedReferences(repo, references);
+  const workflow = await repo.create({ user_id: 0, name: parsed.name, yaml_content: yaml, version: parsed.version });
+  const engine = new WorkflowEngine({ workflowRepository: repo });
+  const { execution, rejectedFacts } = await engine.startWorkflow(
+    CONVERSATION_ID,
+    workflow.id,
+    script.initial_facts ?? {}
+  );
+
+  const toolCalls: WorkflowTestReport["tool_calls"] = [];
+  const tools: ToolSet = { ...workflowTools, ...scriptedTools(script.tool_results ?? {}, toolCalls) };
+  // Scripted tools don't use the agent's repositories; only what the engine reads is filled in
+  const toolContext = {
+    updateStatus: () => {},
+    userId: 0,
+    agentId: 0,
+    conversationId: CONVERSATION_ID,
+    timezone: "UTC",
+  } as unknown as AgentToolContext;
+
+  const scriptedTurns = script.turns ?? [];
+  const maxSimulated = script.simulated_user?.max_turns ?? DEFAULT_SIMULATED_TURNS;
+  const messages: ModelMessage[] = [];
+  const turns: WorkflowTestTurnReport[] = [];
+  let nextScripted = 0;
+  let simulated = 0;
+  let stuckReason: string | null = null;
+
+  for (let round = 0; round < MAX_ROUNDS && !stuckReason; round++) {
+    const active = await engine.getActiveWorkflow(CONVERSATION_ID);
+    if (!active) break;
+
+    const { definition, state } = active;
+    const current = active.execution;
+    const stepIndex = current.current_step_index;
+    const step = definition.steps[stepIndex]!;
+
+    if (current.status === "awaiting_approval") {
+      const decision = script.approvals?.[step.id];
+      const pending = (await repo.listApprovalsByExecution(current.id)).find((a) => a.status === "pending");
+      if (!decision || !pending) {
+        stuckReason = `Waiting for approval at "${step.name}"; the script has no decision for step "${step.id}"`;
+        break;
+      }
+      await engine.decideApproval(pending.id, decision, { via: "app", decidedBy: TEST_APPROVER });
+      continue;
+    }
+
+    if (step.type === "action") {
+      const result = await engine.runActionSteps(current.id, stepIndex, definition, tools, toolContext);
+      if (!result?.advanced && !result?.completed && !result?.failed) {
+        stuckReason = result?.systemMessage || `Action step "${step.name}" did not run`;
+      }
+      continue;
+    }
+
+    // Conversation steps move on a user turn and the agent's reply
+    let source: WorkflowTestTurnReport["source"];
+    let turn: WorkflowTestTurn | null = null;
+    if (nextScripted < scriptedTurns.length) {
+      source = "script";
+      turn = scriptedTurns[nextScripted++]!;
+    } else if (script.simulated_user && simulated < maxSimulated) {
+      source = "simulated";
+      simulated++;
+      const text = await simulateUser(options.userModel!, script.simulated_user.instructions, messages);
+      if (text) turn = { user: text };
+    }
+    if (!turn) {
+      stuckReason = `Ran out of user turns at step "${step.name}"`;
+      break;
+    }
+
+    const factsBefore = new Set((await repo.listFacts(current.id)).map((f) => f.id));
+    messages.push({ role: "user", content: turn.user });
+    const result = await generateText({
+      model: options.agentModel ?? scriptedAgent(turn),
+      system: engine.buildStepPrompt(definition, step, state.facts, stepIndex),
+      messages,
+      tools: engine.filterTools(tools, step),
+      stopWhen: stepCountIs(MAX_AGENT_STEPS),
+      experimental_context: {
+        ...toolContext,
+        workflow: { workflowEngine: engine, executionId: current.id, currentStepId: step.id, currentStep: step },
+      },
+    });
+    messages.push(...result.response.messages);
+
+    const advance = await engine.tryAdvance(current.id, stepIndex, definition, options.verifierModel);
+    const recorded = (await repo.listFacts(current.id)).filter((f) => !factsBefore.has(f.id));
+    turns.push({
+      source: source!,
+      step_id: step.id,
+      user: turn.user,
+      reply: result.text,
+      facts: Object.fromEntries(recorded.map((f) => [`${f.step_id}.${f.fact_name}`, f.fact_value])),
+      rejected_facts: rejectedReports(result.steps),
+      gate: advance.gateResult ? { passed: advance.gateResult.passed, failures: advance.gateResult.failures } : null,
+      advanced: advance.advanced,
+      next_step_id: advance.nextStep?.id ?? null,
+    });
+  }
+
+  const final = (await repo.findExecutionById(execution.id))!;
+  const [facts, attempts, approvals] = await Promise.all([
+    repo.listFacts(execution.id),
+    repo.listStepAttempts(execution.id),
+    repo.listApprovalsByExecution(execution.id),
+  ]);
+  const running = final.status === "in_progress" || final.status === "awaiting_approval";
+  const finalState = running ? await engine.getActiveWorkflow(CONVERSATION_ID) : null;
+  const collected = Object.fromEntries(facts.map((f) => [`${f.step_id}.${f.fact_name}`, f.fact_value]));
+
+  let stuck: WorkflowTestReport["stuck"] = null;
+  if (finalState) {
+    // The innermost execution, when the run stopped inside a sub-workflow
+    const step = finalState.definition.steps[finalState.execution.current_step_index]!;
+    stuck = {
+      step_id: step.id,
+      reason: stuckReason ?? "The run stopped before the workflow finished",
+      gate_failures: evaluateGate(step.gate, step.id, finalState.state.facts).failures,
+      missing_facts: getMissingFacts(step, finalState.state.facts),
+    };
+  }
+
+  const failures = checkExpectations(script.expect ?? { status: "completed" }, final, collected);
+  return {
+    workflow: parsed.name,
+    passed: failures.length === 0,
+    failures,
+    status: final.status,
+    current_step_id: final.current_step_id,
+    stuck,
+    facts: collected,
+    rejected_initial_facts: rejectedFacts,
+    turns,
+    unused_turns: scriptedTurns.length - nextScripted,
+    tool_calls: toolCalls,
+    steps: buildExecutionHistory(parsed, final, facts, attempts, approvals).steps,
+  };
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+/** Tools that return the script's canned results, logging each call */
+function scriptedTools(
+  results: Record<string, unknown>,
+  calls: WorkflowTestReport["tool_calls"]
+): ToolSet {
+  const tools: ToolSet = {};
+  for (const [name, result] of Object.entries(results)) {
+    tools[name] = tool({
+      description: `${name} (scripted for this test)`,
+      inputSchema: z.record(z.string(), z.unknown()),
+      execute: async (args) => {
+        calls.push({ tool: name, args });
+        return result;
+      },
+    });
+  }
+  return tools;
+}
+
+const NO_USAGE = {
+  inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+  outputTokens: { total: 0, text: 0, reasoning: 0 },
+};
+
+/**
+ * A mock agent for one scripted turn: it reports the turn's facts, then
+ * replies once the tool result comes back.
+ */
+function scriptedAgent(turn: WorkflowTestTurn): LanguageModel {
+  const facts = Object.entries(turn.facts ?? {}).map(([name, value]) => ({ name, value, source: "conversation" }));
+  return new MockLanguageModelV3({
+    modelId: "workflow-test",
+    doGenerate: async ({ prompt }) => {
+      const reported = prompt[prompt.length - 1]?.role === "tool";
+      if (facts.length > 0 && !reported) {
+        return {
+          content: [{
+            type: "tool-call",
+            toolCallId: `report-${Date.now()}`,
+            toolName: "report_workflow_facts",
+            input: JSON.stringify({ facts }),
+          }],
+          finishReason: { unified: "tool-calls", raw: undefined },
+          usage: NO_USAGE,
+          warnings: [],
+        };
+      }
+      return {
+        content: [{ type: "text", text: turn.reply ?? "Got it." }],
+        finishReason: { unified: "stop", raw: undefined },
+        usage: NO_USAGE,
+        warnings: [],
+      };
+    },
+  });
+}
+
+/** Facts the engine refused in this turn's report_workflow_facts calls */
+function rejectedReports(steps: Array<{ toolResults: Array<{ toolName: string; output: unknown }> }>): string[] {
+  const rejected: string[] = [];
+  for (const result of steps.flatMap((s) => s.toolResults)) {
+    if (result.toolName !== "report_workflow_facts" || typeof result.output !== "string") continue;
+    try {
+      const parsed = JSON.parse(result.output) as { errors?: Array<{ fact: string; message: string }> };
+      rejected.push(...(parsed.errors ?? []).map((e) => `${e.fact}: ${e.message}`));
+    } catch {
+      // Not a report result (e.g. "No active workflow")
+    }
+  }
+  return rejected;
+}
+
+/**
+ * Ask the user model for the simulated user's next message. The transcript
+ * is shown with roles swapped, so the model speaks as the user. Returns
+ * null when it has nothing more to say.
+ */
+async function simulateUser(
+  model: LanguageModel,
+  instructions: string,
+  messages: ModelMessage[]
+): Promise<string | null> {
+  const swapped: ModelMessage[] = [{ role: "user", content: "(The assistant is ready. Start the conversation.)" }];
+  for (const message of messages) {
+    const text = messageText(message);
+    if (!text) continue;
+    if (message.role === "user") swapped.push({ role: "assistant", content: text });
+    if (message.role === "assistant") swapped.push({ role: "user", content: text });
+  }
+
+  const result = await generateText({
+    model,
+    system:
+      `You are role-playing a user talking to an AI assistant, to test a workflow.\n\n${instructions}\n\n` +
+      `Reply with only your next message to the assistant. If you have nothing more to say, reply with ${SIMULATED_USER_DONE}.`,
+    messages: swapped,
+    maxOutputTokens: 500,
+  });
+  const text = result.text.trim();
+  return !text || text.includes(SIMULATED_USER_DONE) ? null : text;
+}
+
+function messageText(message: ModelMessage): string {
+  if (typeof message.content === "string") return message.content;
+  if (message.role !== "user" && message.role !== "assistant") return "";
+  return message.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("")
+    .trim();
+}
+
+function checkExpectations(
+  expect: NonNullable<WorkflowTestScript["expect"]>,
+  execution: WorkflowExecution,
+  facts: Record<string, unknown>
+): string[] {
+  const failures: string[] = [];
+  if (expect.status && execution.status !== expect.status) {
+    failures.push(`Expected status "${expect.status}", got "${execution.status}" at step "${execution.current_step_id}"`);
+  }
+  if (expect.step && execution.current_step_id !== expect.step) {
+    failures.push(`Expected to end at step "${expect.step}", ended at "${execution.current_step_id}"`);
+  }
+  for (const [key, expected] of Object.entries(expect.facts ?? {})) {
+    if (!(key in facts)) {
+      failures.push(`Expected fact "${key}" to be collected`);
+    } else if (JSON.stringify(facts[key]) !== JSON.stringify(expected)) {
+      failures.push(`Expected fact "${key}" to be ${JSON.stringify(expected)}, got ${JSON.stringify(facts[key])}`);
+    }
+  }
+  return failures;
+}
@@ -0,0 +1,163 @@
+/**
+ * Execution History
+ *
+ * Assembles what happened during a workflow execution — step statuses, facts
+ * with their provenance, gate and verifier outcomes, and approvals — into
+ * per-step summaries and a single timeline.
+ */
+
+import type {
+  WorkflowApproval,
+  WorkflowExecution,
+  WorkflowFact,
+  WorkflowStepAttempt,
+} from "../types/models";
+import type { CollectedFact, StepStatus, StepType, WorkflowDefinition } from "./types";
+
+const OUTCOME_STATUS: Record<WorkflowStepAttempt["outcome"], StepStatus | null> = {
+  advanced: "completed",
+  skipped: "skipped",
+  aborted: "failed",
+  retry: null,
+};
+
+export interface StepHistory {
+  id: string;
+  name: string;
+  type: StepType;
+  status: StepStatus;
+  /** Facts the step holds now (a loop that revisits a step replaces them) */
+  facts: Array<Pick<WorkflowFact, "fact_name" | "fact_value" | "source" | "collected_at">>;
+  attempts: WorkflowStepAttempt[];
+  approvals: WorkflowApproval[];
+}
+
+export type TimelineEvent =
+  | { type: "started"; at: number; step_id: string }
+  | { type: "fact"; at: number; step_id: string; name: string; value: unknown; source: WorkflowFact["source"] }
+  | { type: "gate"; at: number; step_id: string; attempt: WorkflowStepAttempt }
+  | { type: "approval_requested"; at: number; step_id: string; approval_id: number; message: string }
+  | {
+      type: "approval_decided";
+      at: number;
+      step_id: string;
+      approval_id: number;
+      status: WorkflowApproval["status"];
+      decided_by: string | null;
+      decided_via: WorkflowApproval["decided_via"];
+      comment: string | null;
+    }
+  | { type: "finished"; at: number; step_id: string; status: WorkflowExecution["status"] };
+
+export interface ExecutionHistory {
+  steps: StepHistory[];
+  timeline: TimelineEvent[];
+}
+
+/**
+ * Status of each step. Steps before the current one were completed, or
+ * skipped when a branch passed them by; recorded attempts take precedence
+ * since they say how each visit actually ended.
+ */
+export function buildStepStatuses(
+  definition: WorkflowDefinition,
+  execution: Pick<WorkflowExecution, "current_step_index" | "status">,
+  facts: Record<string, CollectedFact>,
+  attempts: Pick<WorkflowStepAttempt, "step_id" | "outcome">[] = []
+): Record<string, StepStatus> {
+  const lastOutcome = new Map<string, StepStatus>();
+  for (const attempt of attempts) {
+    const status = OUTCOME_STATUS[attempt.outcome];
+    if (status) lastOutcome.set(attempt.step_id, status);
+  }
+
+  const statuses: Record<string, StepStatus> = {};
+  const stepsWithFacts = new Set(Object.values(facts).map((f) => f.step_id));
+  for (let i = 0; i < definition.steps.length; i++) {
+    const step = definition.steps[i]!;
+    if (i === execution.current_step_index) {
+      statuses[step.id] =
+        execution.status === "completed" ? "completed"
+        : execution.status === "failed" || execution.status === "timed_out" || execution.status === "cancelled" ? "failed"
+        : "in_progress";
+    } else if (lastOutcome.has(step.id)) {
+      statuses[step.id] = lastOutcome.get(step.id)!;
+    } else if (i < execution.current_step_index) {
+      // Earlier steps without facts were branched past
+      statuses[step.id] = stepsWithFacts.has(step.id) || step.required_facts.length === 0 ? "completed" : "skipped";
+    } else {
+      statuses[step.id] = "pending";
+    }
+  }
+  return statuses;
+}
+
+/** Per-step history and a chronological timeline for an execution */
+export function buildExecutionHistory(
+  definition: WorkflowDefinition,
+  execution: WorkflowExecution,
+  facts: WorkflowFact[],
+  attempts: WorkflowStepAttempt[],
+  approvals: WorkflowApproval[]
+): ExecutionHistory {
+  const collected: Record<string, CollectedFact> = {};
+  for (const f of facts) {
+    collected[`${f.step_id}.${f.fact_name}`] = {
+      value: f.fact_value,
+      step_id: f.step_id,
+      collected_at: f.collected_at,
+      source: f.source,
+    };
+  }
+  const statuses = buildStepStatuses(definition, execution, collected, attempts);
+
+  const steps: StepHistory[] = definition.steps.map((step) => ({
+    id: step.id,
+    name: step.name,
+    type: step.type ?? "conversation",
+    status: statuses[step.id]!,
+    facts: facts
+      .filter((f) => f.step_id === step.id)
+      .map(({ fact_name, fact_value, source, collected_at }) => ({ fact_name, fact_value, source, collected_at })),
+    attempts: attempts.filter((a) => a.step_id === step.id),
+    approvals: approvals.filter((a) => a.step_id === step.id),
+  }));
+
+  const timeline: TimelineEvent[] = [
+    { type: "started", at: execution.started_at, step_id: definition.steps[0]?.id ?? execution.current_step_id },
+  ];
+  for (const f of facts) {
+    timeline.push({ type: "fact", at: f.collected_at, step_id: f.step_id, name: f.fact_name, value: f.fact_value, source: f.source });
+  }
+  for (const attempt of attempts) {
+    timeline.push({ type: "gate", at: attempt.evaluated_at, step_id: attempt.step_id, attempt });
+  }
+  for (const approval of approvals) {
+    timeline.push({
+      type: "approval_requested",
+      at: new Date(approval.created_at).getTime(),
+      step_id: approval.step_id,
+      approval_id: approval.id,
+      message: approval.message,
+    });
+    if (approval.decided_at !== null) {
+      timeline.push({
+        type: "approval_decided",
+        at: approval.decided_at,
+        step_id: approval.step_id,
+        approval_id: approval.id,
+        status: approval.status,
+        decided_by: approval.decided_by,
+        decided_via: approval.decided_via,
+        comment: approval.comment,
+      });
+    }
+  }
+  // Stable sort keeps facts ahead of the gate evaluation that used them when times tie
+  timeline.sort((a, b) => a.at - b.at);
+  if (execution.completed_at !== null) {
+    timeline.push({ type: "finished", at: execution.completed_at, step_id: execution.current_step_id, status: execution.status });
+  }
+
+  return { steps, timeline };
+}
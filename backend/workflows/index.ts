@@ -1,14 +1,70 @@
 export { WorkflowEngine } from "./WorkflowEngine";
-export type { WorkflowEngineDependencies, WorkflowTurnResult } from "./WorkflowEngine";
-export { parseWorkflow, WorkflowParseError } from "./parser";
+export type {
+  WorkflowEngineDependencies,
+  WorkflowTurnResult,
+  ApprovalDecisionOutcome,
+  ExecutionControlOutcome,
+  TimedOutExecution,
+} from "./WorkflowEngine";
+export {
+  parseWorkflow,
+  parseStepTemplate,
+  parseWorkflowRef,
+  formatWorkflowRef,
+  listWorkflowReferences,
+  WorkflowParseError,
+} from "./parser";
+export type { ParseWorkflowOptions, WorkflowReferences } from "./parser";
+export { findSubWorkflow, loadWorkflowReferences, loadWorkflowDefinition } from "./references";
 export { evaluateGate, getMissingFacts } from "./gate-evaluator";
+export { resolveTransition, findUnreachableSteps, getSuccessors, isLoopBack, loopKey, END_STEP } from "./transitions";
+export type { ResolvedTransition } from "./transitions";
+export { executeAction, renderTemplate, resolveFactRef, extractPath, getToolError } from "./actions";
+export type { ActionOutcome } from "./actions";
+export { validateFactValue } from "./fact-validator";
+export {
+  signApprovalToken,
+  verifyApprovalToken,
+  buildApprovalLinks,
+  APPROVAL_FACTS,
+  APPROVAL_DECISIONS,
+  DEFAULT_APPROVAL_EXPIRY_HOURS,
+} from "./approvals";
+export type { ApprovalDecision } from "./approvals";
+export { buildStepStatuses, buildExecutionHistory } from "./history";
+export type { StepHistory, TimelineEvent, ExecutionHistory } from "./history";
+export { runWorkflowTest, validateTestScript } from "./harness";
+export type {
+  WorkflowTestScript,
+  WorkflowTestTurn,
+  WorkflowTestOptions,
+  WorkflowTestReport,
+  WorkflowTestTurnReport,
+} from "./harness";
+export {
+  renderTriggerFacts,
+  resolveTriggerFact,
+  validateTriggerFacts,
+  parsePayload,
+  SCHEDULE_TRIGGER_VARIABLES,
+  MQTT_TRIGGER_VARIABLES,
+} from "./triggers";
 export type {
   WorkflowDefinition,
   WorkflowStep,
   FactDefinition,
+  FactValueDefinition,
+  FactValidationError,
+  FactValidationResult,
   Gate,
   GateCondition,
   GateOperator,
+  StepTransition,
+  StepType,
+  ActionDefinition,
+  ApprovalDefinition,
+  SubWorkflowDefinition,
+  StepTemplateDefinition,
   FactType,
   CollectedFact,
   WorkflowExecutionState,
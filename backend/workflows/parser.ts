@@ -14,7 +14,19 @@ import type {
   GateCondition,
   GateOperator,
   FactType,
+  StepTransition,
+  StepType,
+  ActionDefinition,
+  ApprovalDefinition,
+  FactValueDefinition,
+  SubWorkflowDefinition,
+  StepTemplateDefinition,
 } from "./types";
+import { END_STEP, findUnreachableSteps, isLoopBack } from "./transitions";
+import { findTemplateRefs } from "./actions";
+import { parseDate, validateFactValue } from "./fact-validator";
+import { APPROVAL_FACTS } from "./approvals";
+import { resolveTriggerFact } from "./triggers";
 
 const VALID_OPERATORS: GateOperator[] = [
   "exists", "not_exists",
@@ -32,6 +44,39 @@ const VALID_FACT_TYPES: FactType[] = [
 
 const VALID_ON_FAIL = ["retry", "abort", "skip"];
 
+const VALID_STEP_TYPES: StepType[] = ["conversation", "action", "approval", "workflow"];
+
+const VALID_APPROVAL_CHANNELS = ["email", "webhook", "pushover"];
+
+/**
+ * The step templates and workflows a definition refers to, loaded ahead of
+ * parsing (see loadWorkflowReferences) so the parser can stay synchronous.
+ */
+export interface WorkflowReferences {
+  /** Step template YAML by template name */
+  templates?: Record<string, string>;
+  /** Workflow YAML by reference as written after `uses:` ("name" or "name@version") */
+  workflows?: Record<string, string>;
+}
+
+export interface ParseWorkflowOptions {
+  /** Step ids that running executions are on; removing one requires a migration */
+  lockedStepIds?: string[];
+  /** Removed step id -> step id in this definition where executions on it continue */
+  stepMigrations?: Record<string, string>;
+  /** Step templates and workflows that `include` and `uses` refer to */
+  references?: WorkflowReferences;
+  /** The name the workflow is saved under (`uses` goes by saved names), so using itself is caught */
+  name?: string;
+}
+
+/** Templates and workflows being expanded, outermost first, to catch cycles */
+interface ResolveContext {
+  references: WorkflowReferences;
+  templates: string[];
+  workflows: string[];
+}
+
 export class WorkflowParseError extends Error {
   constructor(
     message: string,
@@ -46,24 +91,19 @@ export class WorkflowParseError extends Error {
 /**
  * Parse a YAML string into a validated WorkflowDefinition.
  * Throws WorkflowParseError on invalid input.
+ *
+ * `include` entries are replaced by the steps of the named template and
+ * `uses` steps are checked against the workflow they run, both looked up in
+ * `options.references`; a template or workflow that (indirectly) refers to
+ * itself is rejected.
  */
-export function parseWorkflow(yamlContent: string): WorkflowDefinition {
-  let raw: unknown;
-  try {
-    raw = yaml.load(yamlContent);
-  } catch (err) {
-    throw new WorkflowParseError(
-      "Invalid YAML syntax",
-      "root",
-      err instanceof Error ? err.message : String(err)
-    );
-  }
-
-  if (!raw || typeof raw !== "object") {
-    throw new WorkflowParseError("Workflow must be a YAML object", "root");
-  }
+export function parseWorkflow(yamlContent: string, options: ParseWorkflowOptions = {}): WorkflowDefinition {
+  return parseDefinition(yamlContent, options, []);
+}
 
-  const doc = raw as Record<string, unknown>;
+/** parseWorkflow for a workflow reached through the `uses` chain in `using` */
+function parseDefinition(yamlContent: string, options: ParseWorkflowOptions, using: string[]): WorkflowDefinition {
+  const doc = loadDocument(yamlContent);
 
   // Validate top-level required fields
   requireString(doc, "name", "root");
@@ -87,46 +127,373 @@ export function parseWorkflow(yamlContent: string): WorkflowDefinition {
     }
   }
 
-  if (!Array.isArray(doc.steps) || doc.steps.length === 0) {
+  const context: ResolveContext = {
+    references: options.references ?? {},
+    templates: [],
+    workflows: [...using, options.name ?? (doc.name as string)],
+  };
+  const { steps, stepIds } = parseSteps(doc.steps, context);
+
+  const unreachable = findUnreachableSteps(steps);
+  if (unreachable.length > 0) {
+    throw new WorkflowParseError(
+      `Unreachable step${unreachable.length > 1 ? "s" : ""}: ${unreachable.map((id) => `"${id}"`).join(", ")}`,
+      "steps",
+      "no path from the first step leads to them"
+    );
+  }
+
+  validateStepMigrations(options, stepIds);
+
+  return {
+    name: doc.name as string,
+    description: doc.description as string,
+    version: doc.version as string,
+    tags: (doc.tags as string[]) || [],
+    timeout_minutes: (doc.timeout_minutes as number) || 30,
+    steps,
+  };
+}
+
+/**
+ * Parse a step template: a name, a description and the steps it adds where
+ * it's included. Its steps may only reference each other (and "end").
+ * Throws WorkflowParseError on invalid input.
+ */
+export function parseStepTemplate(
+  yamlContent: string,
+  options: Pick<ParseWorkflowOptions, "references"> = {}
+): StepTemplateDefinition {
+  return parseTemplate(yamlContent, { references: options.references ?? {}, templates: [], workflows: [] });
+}
+
+/** Split a `uses` reference ("name" or "name@version") into the workflow name and version */
+export function parseWorkflowRef(ref: string): { workflow: string; version?: string } {
+  const at = ref.lastIndexOf("@");
+  return at > 0
+    ? { workflow: ref.slice(0, at).trim(), version: ref.slice(at + 1).trim() }
+    : { workflow: ref.trim() };
+}
+
+/** The `uses` reference for a sub-workflow, as keyed in WorkflowReferences.workflows */
+export function formatWorkflowRef(subworkflow: Pick<SubWorkflowDefinition, "workflow" | "version">): string {
+  return subworkflow.version ? `${subworkflow.workflow}@${subworkflow.version}` : subworkflow.workflow;
+}
+
+/**
+ * The template names a definition (or template) includes and the workflow
+ * references its steps use, without validating anything else. Unparseable
+ * YAML has no references; parsing it reports the problem.
+ */
+export function listWorkflowReferences(yamlContent: string): { templates: string[]; workflows: string[] } {
+  const templates = new Set<string>();
+  const workflows = new Set<string>();
+  let doc: unknown;
+  try {
+    doc = yaml.load(yamlContent);
+  } catch {
+    doc = null;
+  }
+  const steps = doc && typeof doc === "object" ? (doc as Record<string, unknown>).steps : undefined;
+  for (const entry of Array.isArray(steps) ? steps : []) {
+    if (!entry || typeof entry !== "object") continue;
+    const { include, uses } = entry as Record<string, unknown>;
+    if (typeof include === "string" && include.trim()) templates.add(include.trim());
+    if (typeof uses === "string" && uses.trim()) workflows.add(formatWorkflowRef(parseWorkflowRef(uses)));
+  }
+  return { templates: [...templates], workflows: [...workflows] };
+}
+
+function loadDocument(yamlContent: string): Record<string, unknown> {
+  let raw: unknown;
+  try {
+    raw = yaml.load(yamlContent);
+  } catch (err) {
+    throw new WorkflowParseError(
+      "Invalid YAML syntax",
+      "root",
+      err instanceof Error ? err.message : String(err)
+    );
+  }
+
+  if (!raw || typeof raw !== "object") {
+    throw new WorkflowParseError("Workflow must be a YAML object", "root");
+  }
+  return raw as Record<string, unknown>;
+}
+
+function parseTemplate(yamlContent: string, context: ResolveContext): StepTemplateDefinition {
+  const doc = loadDocument(yamlContent);
+  requireString(doc, "name", "root");
+  requireString(doc, "description", "root");
+
+  const { steps } = parseSteps(doc.steps, {
+    ...context,
+    templates: [...context.templates, doc.name as string],
+  });
+
+  const unreachable = findUnreachableSteps(steps);
+  if (unreachable.length > 0) {
+    throw new WorkflowParseError(
+      `Unreachable step${unreachable.length > 1 ? "s" : ""}: ${unreachable.map((id) => `"${id}"`).join(", ")}`,
+      "steps",
+      "no path from the first step leads to them"
+    );
+  }
+
+  return { name: doc.name as string, description: doc.description as string, steps };
+}
+
+/**
+ * Validate a list of steps, expanding `include` entries and checking `uses`
+ * steps against the workflows they run, then the references between steps.
+ */
+function parseSteps(
+  rawSteps: unknown,
+  context: ResolveContext
+): { steps: WorkflowStep[]; stepIds: Set<string> } {
+  if (!Array.isArray(rawSteps) || rawSteps.length === 0) {
     throw new WorkflowParseError("steps must be a non-empty array", "steps");
   }
 
-  // Validate steps
   const stepIds = new Set<string>();
   const steps: WorkflowStep[] = [];
+  // Where each step was written, for errors found once all steps are known
+  const paths: string[] = [];
 
-  for (let i = 0; i < doc.steps.length; i++) {
+  for (let i = 0; i < rawSteps.length; i++) {
     const stepPath = `steps[${i}]`;
-    const step = validateStep(doc.steps[i], stepPath, stepIds);
-    stepIds.add(step.id);
-    steps.push(step);
-  }
+    const raw = rawSteps[i];
 
-  // Validate cross-step fact references in gate conditions
-  for (const step of steps) {
-    for (let i = 0; i < step.gate.conditions.length; i++) {
-      const cond = step.gate.conditions[i]!;
-      const factRef = cond.fact;
-      if (factRef.includes(".")) {
-        const refStepId = factRef.split(".")[0]!;
-        if (!stepIds.has(refStepId)) {
+    if (raw && typeof raw === "object" && "include" in raw) {
+      const template = resolveInclude(raw as Record<string, unknown>, stepPath, context);
+      template.steps.forEach((step, t) => {
+        if (stepIds.has(step.id)) {
           throw new WorkflowParseError(
-            `Gate condition references unknown step "${refStepId}"`,
-            `steps[${steps.indexOf(step)}].gate.conditions[${i}].fact`
+            `Duplicate step id: "${step.id}" (from step template "${template.name}")`,
+            `${stepPath}.include`
           );
         }
+        stepIds.add(step.id);
+        steps.push(step);
+        paths.push(`${stepPath}.include.steps[${t}]`);
+      });
+      continue;
+    }
+
+    const step = validateStep(raw, stepPath, stepIds);
+    stepIds.add(step.id);
+    steps.push(step);
+    paths.push(stepPath);
+  }
+
+  validateStepReferences(steps, paths, stepIds);
+
+  for (let s = 0; s < steps.length; s++) {
+    if (steps[s]!.subworkflow) resolveSubWorkflow(steps[s]!, paths[s]!, context);
+  }
+
+  return { steps, stepIds };
+}
+
+/** Look up and parse the template an `include` entry names */
+function resolveInclude(
+  entry: Record<string, unknown>,
+  path: string,
+  context: ResolveContext
+): StepTemplateDefinition {
+  requireString(entry, "include", path);
+  const extra = Object.keys(entry).filter((key) => key !== "include");
+  if (extra.length > 0) {
+    throw new WorkflowParseError(
+      `An include entry only names a step template; remove ${extra.map((k) => `"${k}"`).join(", ")}`,
+      path
+    );
+  }
+
+  const name = (entry.include as string).trim();
+  if (context.templates.includes(name)) {
+    throw new WorkflowParseError(
+      `Step template "${name}" includes itself`,
+      `${path}.include`,
+      [...context.templates, name].join(" → ")
+    );
+  }
+  const templateYaml = context.references.templates?.[name];
+  if (templateYaml === undefined) {
+    throw new WorkflowParseError(`Unknown step template "${name}"`, `${path}.include`);
+  }
+
+  try {
+    return parseTemplate(templateYaml, context);
+  } catch (err) {
+    if (err instanceof WorkflowParseError) {
+      throw new WorkflowParseError(`Step template "${name}" is invalid`, `${path}.include`, err.message);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Check a workflow step against the workflow it runs: the reference must
+ * resolve (without coming back to a workflow already being resolved), its
+ * inputs must name facts of that workflow and its outputs facts it collects.
+ */
+function resolveSubWorkflow(step: WorkflowStep, path: string, context: ResolveContext): void {
+  const subworkflow = step.subworkflow!;
+  const ref = formatWorkflowRef(subworkflow);
+
+  if (context.workflows.includes(subworkflow.workflow)) {
+    throw new WorkflowParseError(
+      `Workflow "${subworkflow.workflow}" uses itself`,
+      `${path}.uses`,
+      [...context.workflows, subworkflow.workflow].join(" → ")
+    );
+  }
+  const childYaml = context.references.workflows?.[ref];
+  if (childYaml === undefined) {
+    throw new WorkflowParseError(
+      `Unknown workflow "${ref}"`,
+      `${path}.uses`,
+      subworkflow.version ? "no revision of it has that version" : undefined
+    );
+  }
+
+  let child: WorkflowDefinition;
+  try {
+    child = parseDefinition(childYaml, { references: context.references, name: subworkflow.workflow }, context.workflows);
+  } catch (err) {
+    if (err instanceof WorkflowParseError) {
+      throw new WorkflowParseError(`Workflow "${ref}" is invalid`, `${path}.uses`, err.message);
+    }
+    throw err;
+  }
+
+  for (const key of Object.keys(subworkflow.inputs)) {
+    const target = resolveTriggerFact(child, key);
+    if (!target) {
+      throw new WorkflowParseError(
+        `"${key}" is not a fact of workflow "${ref}"`,
+        `${path}.with.${key}`,
+        'use "fact_name" for its first step or "step_id.fact_name"'
+      );
+    }
+    if (target.step.type === "approval") {
+      throw new WorkflowParseError(
+        `Step "${target.step.id}" of workflow "${ref}" is an approval step; its facts come from the decision`,
+        `${path}.with.${key}`
+      );
+    }
+  }
+
+  for (const [name, factRef] of Object.entries(subworkflow.outputs)) {
+    const [childStepId, factName] = factRef.split(".", 2);
+    const childStep = child.steps.find((s) => s.id === childStepId);
+    if (!childStep || !factName) {
+      throw new WorkflowParseError(
+        `Output "${factRef}" doesn't name a step of workflow "${ref}"`,
+        `${path}.outputs.${name}`,
+        'use "step_id.fact_name"'
+      );
+    }
+    const freeForm = childStep.type === "action" || childStep.type === "workflow";
+    if (!freeForm && !childStep.required_facts.some((f) => f.name === factName)) {
+      throw new WorkflowParseError(
+        `Step "${childStepId}" of workflow "${ref}" has no fact "${factName}"`,
+        `${path}.outputs.${name}`
+      );
+    }
+  }
+}
+
+/** Cross-step references: fact refs in conditions and templates, transition targets and loop bounds */
+function validateStepReferences(steps: WorkflowStep[], paths: string[], stepIds: Set<string>): void {
+  for (let s = 0; s < steps.length; s++) {
+    const step = steps[s]!;
+    const path = paths[s]!;
+    validateFactRefs(step.gate.conditions, `${path}.gate.conditions`, stepIds);
+    (step.next ?? []).forEach((transition, t) =>
+      validateFactRefs(transition.when ?? [], `${path}.next[${t}].when`, stepIds)
+    );
+    for (const ref of findTemplateRefs(step.action?.args ?? {})) {
+      const refStepId = ref.split(".")[0]!;
+      if (ref.includes(".") && !stepIds.has(refStepId)) {
+        throw new WorkflowParseError(
+          `Action argument references unknown step "${refStepId}"`,
+          `${path}.action.args`
+        );
+      }
+    }
+    for (const ref of findTemplateRefs(step.approval?.message ?? "")) {
+      const refStepId = ref.split(".")[0]!;
+      if (ref.includes(".") && !stepIds.has(refStepId)) {
+        throw new WorkflowParseError(
+          `Approval message references unknown step "${refStepId}"`,
+          `${path}.approval.message`
+        );
+      }
+    }
+    for (const ref of findTemplateRefs(step.subworkflow?.inputs ?? {})) {
+      const refStepId = ref.split(".")[0]!;
+      if (ref.includes(".") && !stepIds.has(refStepId)) {
+        throw new WorkflowParseError(
+          `Sub-workflow input references unknown step "${refStepId}"`,
+          `${path}.with`
+        );
       }
     }
   }
 
-  return {
-    name: doc.name as string,
-    description: doc.description as string,
-    version: doc.version as string,
-    tags: (doc.tags as string[]) || [],
-    timeout_minutes: (doc.timeout_minutes as number) || 30,
-    steps,
-  };
+  // Validate transition targets: every goto must exist and every loop must be bounded
+  for (let s = 0; s < steps.length; s++) {
+    const next = steps[s]!.next ?? [];
+    for (let t = 0; t < next.length; t++) {
+      const transition = next[t]!;
+      const path = `${paths[s]}.next[${t}]`;
+      if (transition.goto !== END_STEP && !stepIds.has(transition.goto)) {
+        throw new WorkflowParseError(
+          `Transition targets unknown step "${transition.goto}"`,
+          `${path}.goto`
+        );
+      }
+      const loops = isLoopBack(steps, s, transition.goto);
+      if (loops && transition.max_iterations === undefined) {
+        throw new WorkflowParseError(
+          `Transition loops back to "${transition.goto}" without max_iterations`,
+          `${path}.max_iterations`,
+          "loops must be bounded"
+        );
+      }
+      if (!loops && transition.max_iterations !== undefined) {
+        throw new WorkflowParseError(
+          "max_iterations only applies to transitions that loop back to this or an earlier step",
+          `${path}.max_iterations`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Steps that running executions are on can only be removed when a migration
+ * says where those executions continue in the new definition.
+ */
+function validateStepMigrations(options: ParseWorkflowOptions, stepIds: Set<string>): void {
+  const migrations = options.stepMigrations ?? {};
+  for (const [from, to] of Object.entries(migrations)) {
+    if (!stepIds.has(to)) {
+      throw new WorkflowParseError(`step_migrations maps "${from}" to unknown step "${to}"`, `step_migrations.${from}`);
+    }
+  }
+
+  const unmapped = [...new Set(options.lockedStepIds ?? [])].filter((id) => !stepIds.has(id) && !migrations[id]);
+  if (unmapped.length > 0) {
+    throw new WorkflowParseError(
+      `Step${unmapped.length > 1 ? "s" : ""} ${unmapped.map((id) => `"${id}"`).join(", ")} ${unmapped.length > 1 ? "are" : "is"} in use by running executions`,
+      "step_migrations",
+      "keep the step, wait for those executions to finish, or map it to a step in this version"
+    );
+  }
 }
 
 function validateStep(
@@ -150,18 +517,64 @@ function validateStep(
       `${path}.id`
     );
   }
+  if (id === END_STEP) {
+    throw new WorkflowParseError(`"${END_STEP}" is reserved and can't be used as a step id`, `${path}.id`);
+  }
   if (existingIds.has(id)) {
     throw new WorkflowParseError(`Duplicate step id: "${id}"`, `${path}.id`);
   }
 
+  // Validate type, action, approval and sub-workflow (a step that `uses` a workflow is a workflow step)
+  const type = (step.type ?? (step.uses !== undefined ? "workflow" : "conversation")) as StepType;
+  if (!VALID_STEP_TYPES.includes(type)) {
+    throw new WorkflowParseError(
+      `Invalid step type "${String(step.type)}". Must be one of: ${VALID_STEP_TYPES.join(", ")}`,
+      `${path}.type`
+    );
+  }
+  let action: ActionDefinition | undefined;
+  if (type === "action") {
+    action = validateAction(step.action, `${path}.action`);
+  } else if (step.action !== undefined) {
+    throw new WorkflowParseError("action is only allowed on steps with type: action", `${path}.action`);
+  }
+  let approval: ApprovalDefinition | undefined;
+  if (type === "approval") {
+    approval = validateApproval(step.approval, `${path}.approval`);
+    if (step.required_facts !== undefined) {
+      throw new WorkflowParseError(
+        "Approval steps record their decision facts (decision, decided_by, decided_at, comment) and can't declare required_facts",
+        `${path}.required_facts`
+      );
+    }
+  } else if (step.approval !== undefined) {
+    throw new WorkflowParseError("approval is only allowed on steps with type: approval", `${path}.approval`);
+  }
+  let subworkflow: SubWorkflowDefinition | undefined;
+  if (type === "workflow") {
+    subworkflow = validateSubWorkflow(step, path);
+  } else {
+    for (const field of ["uses", "with", "outputs"]) {
+      if (step[field] !== undefined) {
+        throw new WorkflowParseError(`${field} is only allowed on steps with type: workflow`, `${path}.${field}`);
+      }
+    }
+  }
+
+  // Action steps collect facts from the tool result, approval steps from the
+  // decision and workflow steps from the sub-workflow's outputs, so these default for them
+  const rawFacts = step.required_facts ?? (action || subworkflow ? [] : approval ? APPROVAL_FACTS : undefined);
+  const rawTools = step.allowed_tools ?? (action ? [action.tool] : approval || subworkflow ? "conversation" : undefined);
+  const rawGate = step.gate ?? (action || approval || subworkflow ? { conditions: [] } : undefined);
+
   // Validate required_facts
-  if (!Array.isArray(step.required_facts)) {
+  if (!Array.isArray(rawFacts)) {
     throw new WorkflowParseError("required_facts must be an array", `${path}.required_facts`);
   }
   const facts: FactDefinition[] = [];
   const factNames = new Set<string>();
-  for (let i = 0; i < step.required_facts.length; i++) {
-    const fact = validateFact(step.required_facts[i], `${path}.required_facts[${i}]`);
+  for (let i = 0; i < rawFacts.length; i++) {
+    const fact = validateFact(rawFacts[i], `${path}.required_facts[${i}]`);
     if (factNames.has(fact.name)) {
       throw new WorkflowParseError(`Duplicate fact name: "${fact.name}"`, `${path}.required_facts[${i}]`);
     }
@@ -170,22 +583,22 @@ function validateStep(
   }
 
   // Validate allowed_tools
-  if (step.allowed_tools === undefined) {
+  if (rawTools === undefined) {
     throw new WorkflowParseError("allowed_tools is required", `${path}.allowed_tools`);
   }
   let allowedTools: string | string[];
-  if (typeof step.allowed_tools === "string") {
-    allowedTools = step.allowed_tools;
-  } else if (Array.isArray(step.allowed_tools)) {
-    for (let i = 0; i < step.allowed_tools.length; i++) {
-      if (typeof step.allowed_tools[i] !== "string") {
+  if (typeof rawTools === "string") {
+    allowedTools = rawTools;
+  } else if (Array.isArray(rawTools)) {
+    for (let i = 0; i < rawTools.length; i++) {
+      if (typeof rawTools[i] !== "string") {
         throw new WorkflowParseError(
           "allowed_tools array items must be strings",
           `${path}.allowed_tools[${i}]`
         );
       }
     }
-    allowedTools = step.allowed_tools as string[];
+    allowedTools = rawTools as string[];
   } else {
     throw new WorkflowParseError(
       "allowed_tools must be a string or array of strings",
@@ -194,21 +607,234 @@ function validateStep(
   }
 
   // Validate gate
-  if (!step.gate || typeof step.gate !== "object") {
+  if (!rawGate || typeof rawGate !== "object") {
     throw new WorkflowParseError("gate is required and must be an object", `${path}.gate`);
   }
-  const gate = validateGate(step.gate as Record<string, unknown>, `${path}.gate`);
+  const gate = validateGate(rawGate as Record<string, unknown>, `${path}.gate`, type !== "conversation");
+
+  // A decision can't be retried, so a failed approval gate aborts unless told to skip
+  if (approval && gate.conditions.length > 0) {
+    const onFail = (rawGate as Record<string, unknown>).on_fail;
+    if (onFail === "retry") {
+      throw new WorkflowParseError(
+        "Approval steps can't retry",
+        `${path}.gate.on_fail`,
+        "use abort or skip, or a next rule that loops back to an earlier step"
+      );
+    }
+    gate.on_fail = onFail === "skip" ? "skip" : "abort";
+  }
+
+  // A failed sub-workflow fails its step, which aborts the parent unless the gate says otherwise
+  if (subworkflow && (rawGate as Record<string, unknown>).on_fail === undefined) {
+    gate.on_fail = "abort";
+  }
+
+  // Validate timeout (approval requests have their own expiry)
+  if (step.timeout_minutes !== undefined) {
+    if (approval) {
+      throw new WorkflowParseError(
+        "Approval steps can't set timeout_minutes",
+        `${path}.timeout_minutes`,
+        "use approval.expires_in_hours"
+      );
+    }
+    if (typeof step.timeout_minutes !== "number" || step.timeout_minutes <= 0) {
+      throw new WorkflowParseError("timeout_minutes must be a positive number", `${path}.timeout_minutes`);
+    }
+  }
+
+  // Validate next (targets are checked once all step ids are known)
+  let next: StepTransition[] | undefined;
+  if (step.next !== undefined) {
+    if (!Array.isArray(step.next)) {
+      throw new WorkflowParseError("next must be an array", `${path}.next`);
+    }
+    next = step.next.map((t, i) => validateTransition(t, `${path}.next[${i}]`));
+  }
 
   return {
     id,
+    ...(action ? { type, action } : {}),
+    ...(approval ? { type, approval } : {}),
+    ...(subworkflow ? { type, subworkflow } : {}),
     name: step.name as string,
     description: step.description as string,
     required_facts: facts,
     allowed_tools: allowedTools,
     gate,
+    ...(next ? { next } : {}),
+    ...(step.timeout_minutes !== undefined ? { timeout_minutes: step.timeout_minutes as number } : {}),
+  };
+}
+
+function validateAction(raw: unknown, path: string): ActionDefinition {
+  if (!raw || typeof raw !== "object") {
+    throw new WorkflowParseError("action is required and must be an object for action steps", path);
+  }
+  const action = raw as Record<string, unknown>;
+
+  requireString(action, "tool", path);
+
+  if (action.args !== undefined && (!action.args || typeof action.args !== "object" || Array.isArray(action.args))) {
+    throw new WorkflowParseError("args must be an object", `${path}.args`);
+  }
+
+  if (action.result_facts !== undefined) {
+    if (!action.result_facts || typeof action.result_facts !== "object" || Array.isArray(action.result_facts)) {
+      throw new WorkflowParseError("result_facts must map fact names to result paths", `${path}.result_facts`);
+    }
+    for (const [name, resultPath] of Object.entries(action.result_facts)) {
+      if (!/^[a-z][a-z0-9_]*$/.test(name)) {
+        throw new WorkflowParseError("Fact names must be snake_case", `${path}.result_facts.${name}`);
+      }
+      if (typeof resultPath !== "string") {
+        throw new WorkflowParseError(
+          'Result path must be a string (e.g. "data.id", or "" for the whole result)',
+          `${path}.result_facts.${name}`
+        );
+      }
+    }
+  }
+
+  return {
+    tool: action.tool as string,
+    args: (action.args as Record<string, unknown>) ?? {},
+    result_facts: (action.result_facts as Record<string, string>) ?? {},
+  };
+}
+
+/** `uses`, `with` and `outputs` of a workflow step; the workflow itself is resolved once all steps are known */
+function validateSubWorkflow(step: Record<string, unknown>, path: string): SubWorkflowDefinition {
+  if (typeof step.uses !== "string" || !step.uses.trim()) {
+    throw new WorkflowParseError(
+      "uses is required for workflow steps and must name a workflow (name@version)",
+      `${path}.uses`
+    );
+  }
+  const { workflow, version } = parseWorkflowRef(step.uses);
+  if (!workflow || version === "") {
+    throw new WorkflowParseError('uses must be "workflow_name" or "workflow_name@version"', `${path}.uses`);
+  }
+
+  if (step.with !== undefined && (!step.with || typeof step.with !== "object" || Array.isArray(step.with))) {
+    throw new WorkflowParseError("with must map sub-workflow facts to values", `${path}.with`);
+  }
+
+  if (step.outputs !== undefined) {
+    if (!step.outputs || typeof step.outputs !== "object" || Array.isArray(step.outputs)) {
+      throw new WorkflowParseError(
+        "outputs must map fact names to sub-workflow facts (step_id.fact_name)",
+        `${path}.outputs`
+      );
+    }
+    for (const [name, ref] of Object.entries(step.outputs)) {
+      if (!/^[a-z][a-z0-9_]*$/.test(name)) {
+        throw new WorkflowParseError("Fact names must be snake_case", `${path}.outputs.${name}`);
+      }
+      if (typeof ref !== "string" || !ref.includes(".")) {
+        throw new WorkflowParseError(
+          'Output must name a sub-workflow fact as "step_id.fact_name"',
+          `${path}.outputs.${name}`
+        );
+      }
+    }
+  }
+
+  return {
+    workflow,
+    ...(version ? { version } : {}),
+    inputs: (step.with as Record<string, unknown>) ?? {},
+    outputs: (step.outputs as Record<string, string>) ?? {},
   };
 }
 
+function validateApproval(raw: unknown, path: string): ApprovalDefinition {
+  if (!raw || typeof raw !== "object") {
+    throw new WorkflowParseError("approval is required and must be an object for approval steps", path);
+  }
+  const approval = raw as Record<string, unknown>;
+
+  requireString(approval, "message", path);
+
+  if (approval.channel !== undefined) {
+    if (typeof approval.channel !== "string" || !VALID_APPROVAL_CHANNELS.includes(approval.channel)) {
+      throw new WorkflowParseError(
+        `channel must be one of: ${VALID_APPROVAL_CHANNELS.join(", ")}`,
+        `${path}.channel`
+      );
+    }
+  }
+
+  if (approval.destination !== undefined) {
+    if (typeof approval.destination !== "string" || !approval.destination.trim()) {
+      throw new WorkflowParseError("destination must be a non-empty string", `${path}.destination`);
+    }
+    if (approval.channel === undefined) {
+      throw new WorkflowParseError("destination requires a channel", `${path}.destination`);
+    }
+  }
+
+  if (approval.expires_in_hours !== undefined) {
+    const hours = approval.expires_in_hours;
+    if (typeof hours !== "number" || !Number.isFinite(hours) || hours <= 0) {
+      throw new WorkflowParseError("expires_in_hours must be a positive number", `${path}.expires_in_hours`);
+    }
+  }
+
+  return {
+    message: approval.message as string,
+    ...(approval.channel !== undefined ? { channel: approval.channel as ApprovalDefinition["channel"] } : {}),
+    ...(approval.destination !== undefined ? { destination: approval.destination as string } : {}),
+    ...(approval.expires_in_hours !== undefined ? { expires_in_hours: approval.expires_in_hours as number } : {}),
+  };
+}
+
+function validateTransition(raw: unknown, path: string): StepTransition {
+  if (!raw || typeof raw !== "object") {
+    throw new WorkflowParseError("Transition must be an object", path);
+  }
+  const transition = raw as Record<string, unknown>;
+
+  requireString(transition, "goto", path);
+
+  let when: GateCondition[] | undefined;
+  if (transition.when !== undefined) {
+    if (!Array.isArray(transition.when)) {
+      throw new WorkflowParseError("when must be an array of conditions", `${path}.when`);
+    }
+    when = transition.when.map((c, i) => validateCondition(c, `${path}.when[${i}]`));
+  }
+
+  if (transition.max_iterations !== undefined) {
+    const max = transition.max_iterations;
+    if (typeof max !== "number" || !Number.isInteger(max) || max < 1) {
+      throw new WorkflowParseError("max_iterations must be a positive integer", `${path}.max_iterations`);
+    }
+  }
+
+  return {
+    goto: transition.goto as string,
+    ...(when ? { when } : {}),
+    ...(transition.max_iterations !== undefined ? { max_iterations: transition.max_iterations as number } : {}),
+  };
+}
+
+function validateFactRefs(conditions: GateCondition[], path: string, stepIds: Set<string>): void {
+  for (let i = 0; i < conditions.length; i++) {
+    const factRef = conditions[i]!.fact;
+    if (factRef.includes(".")) {
+      const refStepId = factRef.split(".")[0]!;
+      if (!stepIds.has(refStepId)) {
+        throw new WorkflowParseError(
+          `Condition references unknown step "${refStepId}"`,
+          `${path}[${i}].fact`
+        );
+      }
+    }
+  }
+}
+
 function validateFact(raw: unknown, path: string): FactDefinition {
   if (!raw || typeof raw !== "object") {
     throw new WorkflowParseError("Fact must be an object", path);
@@ -216,9 +842,29 @@ function validateFact(raw: unknown, path: string): FactDefinition {
   const fact = raw as Record<string, unknown>;
 
   requireString(fact, "name", path);
-  requireString(fact, "type", path);
   requireString(fact, "description", path);
 
+  const def: FactDefinition = {
+    name: fact.name as string,
+    description: fact.description as string,
+    ...validateFactValueDefinition(fact, path),
+    ask: fact.ask as string | undefined,
+  };
+
+  if (def.default !== undefined) {
+    const result = validateFactValue(def, def.default);
+    if (!result.ok) {
+      throw new WorkflowParseError("Invalid default", `${path}.default`, result.errors[0]!.message);
+    }
+  }
+
+  return def;
+}
+
+/** Type, constraints and item schema of a fact (or of a list's scalar items) */
+function validateFactValueDefinition(fact: Record<string, unknown>, path: string): FactValueDefinition {
+  requireString(fact, "type", path);
+
   const factType = fact.type as string;
   if (!VALID_FACT_TYPES.includes(factType as FactType)) {
     throw new WorkflowParseError(
@@ -234,26 +880,106 @@ function validateFact(raw: unknown, path: string): FactDefinition {
         `${path}.enum_values`
       );
     }
+    if (fact.enum_values.some((v) => typeof v !== "string")) {
+      throw new WorkflowParseError("enum_values must be strings", `${path}.enum_values`);
+    }
+  }
+
+  // min / max: numbers for number, lengths for string and list, ISO dates for date
+  for (const bound of ["min", "max"] as const) {
+    const value = fact[bound];
+    if (value === undefined) continue;
+    const boundPath = `${path}.${bound}`;
+    if (factType === "boolean" || factType === "enum") {
+      throw new WorkflowParseError(`${bound} doesn't apply to ${factType} facts`, boundPath);
+    }
+    if (factType === "date") {
+      if (typeof value !== "string" || Number.isNaN(parseDate(value))) {
+        throw new WorkflowParseError(`${bound} must be a date (YYYY-MM-DD) for date facts`, boundPath);
+      }
+    } else if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new WorkflowParseError(`${bound} must be a number`, boundPath);
+    } else if (factType !== "number" && (!Number.isInteger(value) || value < 0)) {
+      throw new WorkflowParseError(
+        `${bound} must be a non-negative integer (a ${factType === "list" ? "item count" : "length"})`,
+        boundPath
+      );
+    }
+  }
+  if (fact.min !== undefined && fact.max !== undefined) {
+    const [min, max] = factType === "date"
+      ? [parseDate(fact.min), parseDate(fact.max)]
+      : [fact.min as number, fact.max as number];
+    if (min > max) {
+      throw new WorkflowParseError("min must not be greater than max", `${path}.min`);
+    }
+  }
+
+  if (fact.pattern !== undefined) {
+    if (factType !== "string") {
+      throw new WorkflowParseError("pattern only applies to string facts", `${path}.pattern`);
+    }
+    if (typeof fact.pattern !== "string") {
+      throw new WorkflowParseError("pattern must be a regular expression string", `${path}.pattern`);
+    }
+    try {
+      new RegExp(fact.pattern);
+    } catch (err) {
+      throw new WorkflowParseError(
+        "Invalid pattern",
+        `${path}.pattern`,
+        err instanceof Error ? err.message : String(err)
+      );
+    }
+  }
+
+  let items: FactValueDefinition["items"];
+  if (fact.items !== undefined) {
+    if (factType !== "list") {
+      throw new WorkflowParseError("items only applies to list facts", `${path}.items`);
+    }
+    if (Array.isArray(fact.items)) {
+      // Object items: one definition per field
+      const fieldNames = new Set<string>();
+      items = fact.items.map((field, i) => {
+        const def = validateFact(field, `${path}.items[${i}]`);
+        if (fieldNames.has(def.name)) {
+          throw new WorkflowParseError(`Duplicate field name: "${def.name}"`, `${path}.items[${i}]`);
+        }
+        fieldNames.add(def.name);
+        return def;
+      });
+    } else if (fact.items && typeof fact.items === "object") {
+      // Scalar items: a single value definition
+      items = validateFactValueDefinition(fact.items as Record<string, unknown>, `${path}.items`);
+    } else {
+      throw new WorkflowParseError(
+        "items must be a list of field definitions or a single type definition",
+        `${path}.items`
+      );
+    }
   }
 
   return {
-    name: fact.name as string,
     type: factType as FactType,
-    description: fact.description as string,
     enum_values: fact.enum_values as string[] | undefined,
-    ask: fact.ask as string | undefined,
+    ...(fact.min !== undefined ? { min: fact.min as number | string } : {}),
+    ...(fact.max !== undefined ? { max: fact.max as number | string } : {}),
+    ...(fact.pattern !== undefined ? { pattern: fact.pattern as string } : {}),
+    ...(items ? { items } : {}),
     default: fact.default,
   };
 }
 
-function validateGate(raw: Record<string, unknown>, path: string): Gate {
-  if (!Array.isArray(raw.conditions) || raw.conditions.length === 0) {
+function validateGate(raw: Record<string, unknown>, path: string, allowEmpty = false): Gate {
+  const conditionsRaw = raw.conditions ?? (allowEmpty ? [] : undefined);
+  if (!Array.isArray(conditionsRaw) || (conditionsRaw.length === 0 && !allowEmpty)) {
     throw new WorkflowParseError("gate.conditions must be a non-empty array", `${path}.conditions`);
   }
 
   const conditions: GateCondition[] = [];
-  for (let i = 0; i < raw.conditions.length; i++) {
-    conditions.push(validateCondition(raw.conditions[i], `${path}.conditions[${i}]`));
+  for (let i = 0; i < conditionsRaw.length; i++) {
+    conditions.push(validateCondition(conditionsRaw[i], `${path}.conditions[${i}]`));
   }
 
   if (raw.on_fail !== undefined) {
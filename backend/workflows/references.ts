@@ -0,0 +1,82 @@
+/**
+ * Workflow References
+ *
+ * Definitions can pull in shared step templates (`- include: name`) and run
+ * other workflows from a step (`uses: name@version`). The parser resolves
+ * both from a WorkflowReferences map so it can stay synchronous; this loads
+ * that map for a user, following references from templates and used
+ * workflows in turn. Anything that can't be found is left out for the
+ * parser to report.
+ */
+
+import type { WorkflowRepository } from "../repositories/WorkflowRepository";
+import type { Workflow, WorkflowRevision } from "../types/models";
+import type { SubWorkflowDefinition, WorkflowDefinition } from "./types";
+import {
+  parseWorkflow,
+  parseWorkflowRef,
+  listWorkflowReferences,
+  type ParseWorkflowOptions,
+  type WorkflowReferences,
+} from "./parser";
+
+/**
+ * The workflow and revision a `uses` reference runs: the newest revision
+ * with the requested version, or the latest revision when none is given.
+ */
+export async function findSubWorkflow(
+  repo: WorkflowRepository,
+  userId: number,
+  subworkflow: Pick<SubWorkflowDefinition, "workflow" | "version">
+): Promise<{ workflow: Workflow; revision: WorkflowRevision | null } | null> {
+  const workflow = await repo.findByName(userId, subworkflow.workflow);
+  if (!workflow) return null;
+  if (subworkflow.version) {
+    const revision = await repo.findRevisionByVersion(workflow.id, subworkflow.version);
+    return revision ? { workflow, revision } : null;
+  }
+  return { workflow, revision: await repo.findRevision(workflow.id, workflow.revision) };
+}
+
+/** Load the step templates and workflows a definition refers to, directly or through each other */
+export async function loadWorkflowReferences(
+  repo: WorkflowRepository,
+  userId: number,
+  yamlContent: string
+): Promise<WorkflowReferences> {
+  const templates: Record<string, string> = {};
+  const workflows: Record<string, string> = {};
+  const pending = [yamlContent];
+
+  // Each template and workflow is loaded once, so reference cycles end here and the parser reports them
+  while (pending.length > 0) {
+    const refs = listWorkflowReferences(pending.pop()!);
+    for (const name of refs.templates) {
+      if (name in templates) continue;
+      const template = await repo.findStepTemplateByName(userId, name);
+      if (!template) continue;
+      templates[name] = template.yaml_content;
+      pending.push(template.yaml_content);
+    }
+    for (const ref of refs.workflows) {
+      if (ref in workflows) continue;
+      const found = await findSubWorkflow(repo, userId, parseWorkflowRef(ref));
+      if (!found) continue;
+      workflows[ref] = found.revision?.yaml_content ?? found.workflow.yaml_content;
+      pending.push(workflows[ref]!);
+    }
+  }
+
+  return { templates, workflows };
+}
+
+/** parseWorkflow with the user's step templates and workflows loaded for `include` and `uses` */
+export async function loadWorkflowDefinition(
+  repo: WorkflowRepository,
+  userId: number,
+  yamlContent: string,
+  options: Omit<ParseWorkflowOptions, "references"> = {}
+): Promise<WorkflowDefinition> {
+  const references = await loadWorkflowReferences(repo, userId, yamlContent);
+  return parseWorkflow(yamlContent, { ...options, references });
+}
@@ -0,0 +1,131 @@
+/**
+ * Step Transitions
+ *
+ * Chooses the step that follows a completed step from its `next` rules and
+ * the collected facts, and analyses the step graph for the parser.
+ * All evaluation is deterministic — no AI involved.
+ */
+
+import type {
+  CollectedFact,
+  StepTransition,
+  WorkflowDefinition,
+  WorkflowStep,
+} from "./types";
+import { evaluateGate } from "./gate-evaluator";
+
+/** Reserved `goto` target that completes the workflow */
+export const END_STEP = "end";
+
+export interface ResolvedTransition {
+  /** The step to continue with, or null when the workflow is complete */
+  step: WorkflowStep | null;
+  /** Index of that step in the definition (-1 when complete) */
+  index: number;
+  /** The rule that matched, if any (undefined = fell through to the next step in the list) */
+  transition?: StepTransition;
+  /** Loop counter key when the matched rule loops back */
+  loopKey?: string;
+}
+
+/** Key under which a loop-back transition's iteration count is stored */
+export function loopKey(fromStepId: string, toStepId: string): string {
+  return `${fromStepId}->${toStepId}`;
+}
+
+/** Whether a transition from the step at `fromIndex` to `goto` returns to the same or an earlier step */
+export function isLoopBack(steps: WorkflowStep[], fromIndex: number, goto: string): boolean {
+  if (goto === END_STEP) return false;
+  const targetIndex = steps.findIndex((s) => s.id === goto);
+  return targetIndex !== -1 && targetIndex <= fromIndex;
+}
+
+/**
+ * Pick the step that follows the step at `stepIndex`. The first `next` rule
+ * whose conditions all pass wins; loop-backs that have used up their
+ * max_iterations are passed over. Unqualified fact references in `when`
+ * resolve against the completed step.
+ */
+export function resolveTransition(
+  definition: WorkflowDefinition,
+  stepIndex: number,
+  facts: Record<string, CollectedFact>,
+  loopCounts: Record<string, number>
+): ResolvedTransition {
+  const { steps } = definition;
+  const step = steps[stepIndex]!;
+
+  for (const transition of step.next ?? []) {
+    if (transition.when && transition.when.length > 0) {
+      const result = evaluateGate({ conditions: transition.when }, step.id, facts);
+      if (!result.passed) continue;
+    }
+
+    if (transition.goto === END_STEP) {
+      return { step: null, index: -1, transition };
+    }
+
+    const index = steps.findIndex((s) => s.id === transition.goto);
+    if (index === -1) continue;
+
+    if (index <= stepIndex) {
+      const key = loopKey(step.id, transition.goto);
+      if ((loopCounts[key] ?? 0) >= (transition.max_iterations ?? 0)) continue;
+      return { step: steps[index]!, index, transition, loopKey: key };
+    }
+
+    return { step: steps[index]!, index, transition };
+  }
+
+  const nextIndex = stepIndex + 1;
+  if (nextIndex >= steps.length) {
+    return { step: null, index: -1 };
+  }
+  return { step: steps[nextIndex]!, index: nextIndex };
+}
+
+/**
+ * Step ids a step can continue with ("end" included). The next step in the
+ * list is a successor unless an unconditional rule always takes precedence.
+ */
+export function getSuccessors(steps: WorkflowStep[], stepIndex: number): string[] {
+  const step = steps[stepIndex]!;
+  const successors = new Set<string>();
+  let fallsThrough = true;
+
+  for (const transition of step.next ?? []) {
+    successors.add(transition.goto);
+    // A bounded loop stops matching once exhausted, so it never blocks fall-through
+    const unconditional = !transition.when || transition.when.length === 0;
+    if (unconditional && !isLoopBack(steps, stepIndex, transition.goto)) {
+      fallsThrough = false;
+      break;
+    }
+  }
+
+  if (fallsThrough) {
+    successors.add(stepIndex + 1 < steps.length ? steps[stepIndex + 1]!.id : END_STEP);
+  }
+  return [...successors];
+}
+
+/** Step ids that can't be reached from the first step */
+export function findUnreachableSteps(steps: WorkflowStep[]): string[] {
+  if (steps.length === 0) return [];
+
+  const indexById = new Map(steps.map((s, i) => [s.id, i]));
+  const reached = new Set<string>([steps[0]!.id]);
+  const queue = [0];
+
+  while (queue.length > 0) {
+    const index = queue.shift()!;
+    for (const id of getSuccessors(steps, index)) {
+      const target = indexById.get(id);
+      if (target === undefined || reached.has(id)) continue;
+      reached.add(id);
+      queue.push(target);
+    }
+  }
+
+  return steps.filter((s) => !reached.has(s.id)).map((s) => s.id);
+}
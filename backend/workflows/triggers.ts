@@ -0,0 +1,112 @@
+/**
+ * Workflow Triggers
+ *
+ * Schedules and MQTT subscriptions can start a workflow instead of a plain
+ * agent run. Their fact mapping seeds the new execution: each entry names a
+ * fact — "fact_name" on the first step, or "step_id.fact_name" — and gives a
+ * template over the trigger: the schedule's {prompt}, or the message's
+ * {topic} and {payload}, where {payload.path.to.field} reads from a JSON
+ * payload. Placeholders use the same single braces as MQTT prompt templates.
+ */
+
+import { extractPath } from "./actions";
+import type { WorkflowDefinition, WorkflowStep } from "./types";
+
+/** Matches a {variable} or {variable.path} placeholder */
+const PLACEHOLDER_PATTERN = /\{\s*([a-z][a-z0-9_]*(?:\.[A-Za-z0-9_-]+)*)\s*\}/g;
+const WHOLE_PLACEHOLDER_PATTERN = /^\{\s*([a-z][a-z0-9_]*(?:\.[A-Za-z0-9_-]+)*)\s*\}$/;
+
+/** Variables available to schedule fact mappings */
+export const SCHEDULE_TRIGGER_VARIABLES = ["prompt"];
+/** Variables available to MQTT subscription fact mappings */
+export const MQTT_TRIGGER_VARIABLES = ["topic", "payload"];
+
+/** MQTT payloads are used as JSON when they parse, so their fields can be mapped */
+export function parsePayload(payload: string): unknown {
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return payload;
+  }
+}
+
+function resolvePlaceholder(ref: string, context: Record<string, unknown>): unknown {
+  const [root, ...path] = ref.split(".");
+  return extractPath(context[root!], path.join("."));
+}
+
+/**
+ * Render a fact mapping against a trigger. A template that is exactly one
+ * placeholder takes the value as-is (so numbers and objects from a JSON
+ * payload keep their type); placeholders inside longer text are
+ * interpolated. Facts whose placeholder resolves to nothing are left out,
+ * so the fact's default (or the agent) fills them instead.
+ */
+export function renderTriggerFacts(
+  mapping: Record<string, string>,
+  context: Record<string, unknown>
+): Record<string, unknown> {
+  const facts: Record<string, unknown> = {};
+  for (const [key, template] of Object.entries(mapping)) {
+    const whole = template.match(WHOLE_PLACEHOLDER_PATTERN);
+    const value = whole
+      ? resolvePlaceholder(whole[1]!, context)
+      : template.replace(PLACEHOLDER_PATTERN, (_, ref: string) => {
+          const resolved = resolvePlaceholder(ref, context);
+          if (resolved === undefined || resolved === null) return "";
+          return typeof resolved === "string" ? resolved : JSON.stringify(resolved);
+        });
+    if (value !== undefined && value !== null) facts[key] = value;
+  }
+  return facts;
+}
+
+/** The step and fact a mapping key seeds: "fact_name" is on the first step */
+export function resolveTriggerFact(
+  definition: WorkflowDefinition,
+  key: string
+): { step: WorkflowStep; factName: string } | null {
+  const [stepId, factName] = key.includes(".") ? key.split(".", 2) : [definition.steps[0]?.id, key];
+  const step = definition.steps.find((s) => s.id === stepId);
+  return step && factName ? { step, factName } : null;
+}
+
+/**
+ * Check a fact mapping against the workflow it seeds. Returns a message
+ * describing the first problem, or null if the mapping is usable.
+ */
+export function validateTriggerFacts(
+  mapping: unknown,
+  definition: WorkflowDefinition,
+  variables: string[]
+): string | null {
+  if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+    return "workflow_facts must be an object mapping fact names to templates";
+  }
+
+  for (const [key, template] of Object.entries(mapping)) {
+    if (typeof template !== "string") {
+      return `workflow_facts.${key} must be a template string`;
+    }
+
+    const target = resolveTriggerFact(definition, key);
+    if (!target) {
+      return `workflow_facts.${key} doesn't name a fact of this workflow (use "fact_name" for the first step or "step_id.fact_name")`;
+    }
+    const { step, factName } = target;
+    if (step.type === "approval") {
+      return `workflow_facts.${key}: step "${step.id}" is an approval step; its facts come from the decision`;
+    }
+    if (step.type !== "action" && !step.required_facts.some((f) => f.name === factName)) {
+      return `workflow_facts.${key}: step "${step.id}" has no fact "${factName}"`;
+    }
+
+    for (const [, ref] of template.matchAll(PLACEHOLDER_PATTERN)) {
+      const root = ref!.split(".")[0]!;
+      if (!variables.includes(root)) {
+        return `workflow_facts.${key} uses unknown placeholder {${ref}} (available: ${variables.map((v) => `{${v}}`).join(", ")})`;
+      }
+    }
+  }
+  return null;
+}
@@ -6,9 +6,13 @@
  *
  * Core concepts:
  * - Workflow: A named, versioned sequence of steps
- * - Step: A unit of work with required facts to collect
+ * - Step: A unit of work with required facts to collect (conversation), a
+ *   single deterministic tool call (action), a human sign-off (approval), or
+ *   another workflow run as a nested execution (workflow)
+ * - Step template: Shared steps that definitions pull in with `include`
  * - Fact: A named piece of data the agent must gather
  * - Gate: Conditions that must be satisfied before a step is complete
+ * - Transition: A `next` rule choosing the following step from collected facts
  */
 
 // ── Gate condition operators ──────────────────────────────────────────────
@@ -53,26 +57,141 @@ export interface Gate {
   on_fail?: "retry" | "abort" | "skip";
 }
 
+/**
+ * A rule choosing the step that follows once a step's gate passes. Rules are
+ * tried in order; the first whose conditions all pass is taken. When none
+ * match, the workflow continues with the next step in the list.
+ */
+export interface StepTransition {
+  /** Conditions over collected facts (same syntax as gate conditions). Omit to always match */
+  when?: GateCondition[];
+  /** Step id to continue with, or "end" to complete the workflow */
+  goto: string;
+  /**
+   * Required when `goto` points back to this or an earlier step (a loop):
+   * how many times the loop may be taken before the rule is ignored.
+   */
+  max_iterations?: number;
+}
+
 export type FactType = "string" | "number" | "boolean" | "date" | "enum" | "list";
 
-export interface FactDefinition {
-  /** Identifier (snake_case), used in gate references */
-  name: string;
+/**
+ * Type and constraints for a value. Reported values are checked and coerced
+ * against these (e.g. "42" becomes 42 for a number, "yes" becomes true).
+ */
+export interface FactValueDefinition {
   /** Data type for validation */
   type: FactType;
-  /** What this fact represents (shown to the agent) */
-  description: string;
   /** Allowed values when type is "enum" */
   enum_values?: string[];
+  /**
+   * Lower bound: the value for numbers, length for strings, item count for
+   * lists, earliest date (ISO string) for dates
+   */
+  min?: number | string;
+  /** Upper bound, with the same meaning per type as min */
+  max?: number | string;
+  /** Regular expression a string value must match */
+  pattern?: string;
+  /**
+   * Schema for each item of a list: field definitions for object items
+   * (as in expense line items), or a single value definition for scalar items
+   */
+  items?: FactDefinition[] | FactValueDefinition;
+  /** Default value if user declines to provide (for list item fields: when the field is missing) */
+  default?: unknown;
+}
+
+export interface FactDefinition extends FactValueDefinition {
+  /** Identifier (snake_case), used in gate references */
+  name: string;
+  /** What this fact represents (shown to the agent) */
+  description: string;
   /** Suggested phrasing for asking the user */
   ask?: string;
-  /** Default value if user declines to provide */
-  default?: unknown;
+}
+
+/** A reported value that doesn't fit its fact definition */
+export interface FactValidationError {
+  /** The fact name */
+  fact: string;
+  /** Location of the problem, e.g. "line_items[2].amount" */
+  path: string;
+  message: string;
+  /** What was expected, e.g. "number >= 0" or "one of: meals, lodging" */
+  expected?: string;
+  /** The value that was received */
+  received?: unknown;
+}
+
+export type FactValidationResult =
+  | { ok: true; value: unknown }
+  | { ok: false; errors: FactValidationError[] };
+
+export type StepType = "conversation" | "action" | "approval" | "workflow";
+
+/**
+ * The tool call made by an action step. Argument strings may contain
+ * {{ fact_ref }} placeholders ("step_id.fact_name", or a bare "fact_name" for
+ * the latest fact of that name); a string that is only a placeholder takes
+ * the fact's value unchanged.
+ */
+export interface ActionDefinition {
+  /** Tool name as the agent sees it (e.g., "notify_user", "mcp_github__create_issue") */
+  tool: string;
+  /** Tool arguments, templated from collected facts */
+  args?: Record<string, unknown>;
+  /** Facts to record from the result: fact name → dot path into the result ("" for all of it) */
+  result_facts?: Record<string, string>;
+}
+
+/**
+ * The sign-off requested by an approval step. The workflow pauses until the
+ * request is approved or rejected; the decision is recorded as the step's
+ * facts (decision, decided_by, decided_at, comment).
+ */
+export interface ApprovalDefinition {
+  /** What is being approved, with {{ fact_ref }} placeholders as in action args */
+  message: string;
+  /** Only notify through this channel (default: every channel the user has enabled) */
+  channel?: "email" | "webhook" | "pushover";
+  /** Named destination on that channel, e.g. an email recipient named "Manager" */
+  destination?: string;
+  /** Hours before the approve/reject links stop working (default: 72) */
+  expires_in_hours?: number;
+}
+
+/**
+ * The workflow a workflow step runs, written `uses: name@version` (or just
+ * the name for its latest revision). It runs as a nested execution in the
+ * same conversation; when it completes, its output facts are copied to the
+ * calling step and the parent moves on.
+ */
+export interface SubWorkflowDefinition {
+  /** Name of the workflow to run */
+  workflow: string;
+  /** Version to pin (the newest revision with that version); latest revision when omitted */
+  version?: string;
+  /**
+   * Facts seeded into the sub-workflow, keyed "fact_name" (its first step)
+   * or "step_id.fact_name", with {{ fact_ref }} placeholders over the
+   * parent's facts as in action args
+   */
+  inputs: Record<string, unknown>;
+  /** Facts recorded on the calling step: fact name → "step_id.fact_name" in the sub-workflow */
+  outputs: Record<string, string>;
 }
 
 export interface WorkflowStep {
   /** Unique identifier (snake_case) */
   id: string;
+  /**
+   * "conversation" (default): the agent works with the user; "action": the
+   * engine calls a tool directly; "approval": the workflow waits for a human
+   * decision; "workflow": another workflow runs as a nested execution
+   */
+  type?: StepType;
   /** Human-readable step name */
   name: string;
   /** Instructions for the agent — what to accomplish in this step */
@@ -81,8 +200,24 @@ export interface WorkflowStep {
   required_facts: FactDefinition[];
   /** What tools the agent may use: "conversation", "any", or specific tool names */
   allowed_tools: string | string[];
-  /** Gate conditions to pass before moving to next step */
+  /** The tool call to make (action steps only) */
+  action?: ActionDefinition;
+  /** The sign-off to request (approval steps only) */
+  approval?: ApprovalDefinition;
+  /** The workflow to run (workflow steps only) */
+  subworkflow?: SubWorkflowDefinition;
+  /**
+   * Gate conditions to pass before moving to next step. For action steps the
+   * gate is optional and a failed tool call counts as a failed gate. For
+   * approval steps it is optional and checked once the decision arrives.
+   * For workflow steps it is optional and checked once the sub-workflow
+   * completes; a failed sub-workflow counts as a failed gate.
+   */
   gate: Gate;
+  /** Branching rules evaluated after the gate passes (default: the next step in the list) */
+  next?: StepTransition[];
+  /** Max minutes the execution may stay on this step before timing out (default: no limit) */
+  timeout_minutes?: number;
 }
 
 export interface WorkflowDefinition {
@@ -94,9 +229,23 @@ export interface WorkflowDefinition {
   version: string;
   /** Categorization tags */
   tags?: string[];
-  /** Max wall-clock time in minutes (default: 30) */
+  /** Max wall-clock time in minutes, not counting time spent awaiting approval (default: 30) */
   timeout_minutes?: number;
-  /** Ordered list of steps executed sequentially */
+  /** Ordered list of steps, executed in order unless a step's `next` rules branch */
+  steps: WorkflowStep[];
+}
+
+/**
+ * Shared steps that workflow definitions pull in with `- include: name`. The
+ * steps are inserted where the include appears and run as if written there;
+ * they may only reference each other, so the template stands on its own.
+ */
+export interface StepTemplateDefinition {
+  /** Name definitions include the template by */
+  name: string;
+  /** What the steps do */
+  description: string;
+  /** The steps, after expanding any includes of their own */
   steps: WorkflowStep[];
 }
 
@@ -111,7 +260,7 @@ export interface CollectedFact {
   /** When the fact was collected (epoch ms) */
   collected_at: number;
   /** How the fact was collected */
-  source: "conversation" | "tool" | "default" | "verifier";
+  source: "conversation" | "tool" | "default" | "verifier" | "approval" | "trigger" | "workflow";
 }
 
 /** Current state of a workflow execution */
@@ -125,11 +274,13 @@ export interface WorkflowExecutionState {
   /** Status of each step */
   step_statuses: Record<string, StepStatus>;
   /** Overall workflow status */
-  status: "in_progress" | "completed" | "failed" | "timed_out";
+  status: "in_progress" | "awaiting_approval" | "completed" | "failed" | "timed_out" | "cancelled";
   /** When the workflow started (epoch ms) */
   started_at: number;
   /** When the workflow ended (epoch ms), null if still running */
   completed_at: number | null;
+  /** Times each loop-back transition has been taken, keyed as "from_step->to_step" */
+  loop_counts: Record<string, number>;
 }
 
 export type StepStatus = "pending" | "in_progress" | "completed" | "skipped" | "failed";
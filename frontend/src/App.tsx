@@ -9,10 +9,12 @@ import AgentsPage from "./pages/AgentsPage";
 import ChatPage from "./pages/ChatPage";
 import SkillsPage from "./pages/SkillsPage";
 import SchedulesPage from "./pages/SchedulesPage";
+import ChatChannelsPage from "./pages/ChatChannelsPage";
 import NotificationsPage from "./pages/NotificationsPage";
 import TeamPage from "./pages/TeamPage";
 import WorkflowsPage from "./pages/WorkflowsPage";
 import WorkflowBuilderPage from "./pages/WorkflowBuilderPage";
+import ApprovalsPage from "./pages/ApprovalsPage";
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
@@ -64,10 +66,12 @@ function AppRoutes() {
         <Route path="/chat/:slug" element={<ChatPage />} />
         <Route path="/skills" element={<SkillsPage />} />
         <Route path="/schedules" element={<SchedulesPage />} />
+        <Route path="/channels" element={<ChatChannelsPage />} />
         <Route path="/notifications" element={<NotificationsPage />} />
         <Route path="/team" element={<TeamPage />} />
         <Route path="/workflows" element={<WorkflowsPage />} />
         <Route path="/workflow-builder" element={<WorkflowBuilderPage />} />
+        <Route path="/approvals" element={<ApprovalsPage />} />
       </Route>
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
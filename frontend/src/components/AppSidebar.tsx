@@ -16,6 +16,8 @@ import {
   Workflow,
   Plus,
   Settings2,
+  ClipboardCheck,
+  MessagesSquare,
 } from "lucide-react";
 import {
   Sidebar,
@@ -62,7 +64,9 @@ const NAV_ITEMS = [
   { label: "Skills", path: "/skills", icon: Sparkles },
   { label: "Workflows", path: "/workflows", icon: Workflow },
   { label: "Workflow Builder", path: "/workflow-builder", icon: Wand2 },
+  { label: "Approvals", path: "/approvals", icon: ClipboardCheck },
   { label: "Schedules", path: "/schedules", icon: Clock },
+  { label: "Chat Channels", path: "/channels", icon: MessagesSquare },
   { label: "Team", path: "/team", icon: Users },
 ];
 
@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { api, type BudgetLimits, type BudgetOverview, type BudgetStatus } from "../lib/api";
+
+const inputClass =
+  "w-full px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm";
+
+interface BudgetEditorProps {
+  budget: BudgetStatus | null;
+  onSave: (limits: BudgetLimits) => Promise<void>;
+  onRemove: () => Promise<void>;
+}
+
+/** Limit fields and month-to-date progress for one budget */
+function BudgetEditor({ budget, onSave, onRemove }: BudgetEditorProps) {
+  const [cost, setCost] = useState(budget?.monthly_cost_limit_usd?.toString() ?? "");
+  const [tokens, setTokens] = useState(budget?.monthly_token_limit?.toString() ?? "");
+  const [soft, setSoft] = useState(String(budget?.soft_threshold_percent ?? 80));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        monthly_cost_limit_usd: cost.trim() ? Number(cost) : null,
+        monthly_token_limit: tokens.trim() ? parseInt(tokens) : null,
+        soft_threshold_percent: parseInt(soft),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save budget");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const percent = Math.min(100, budget?.percent_used ?? 0);
+
+  return (
+    <form onSubmit={handleSave} className="space-y-3">
+      {budget && (
+        <div>
+          <div className="flex justify-between text-xs text-muted-foreground mb-1">
+            <span>
+              ${budget.spent_usd.toFixed(2)}
+              {budget.monthly_cost_limit_usd !== null && ` of $${budget.monthly_cost_limit_usd.toFixed(2)}`}
+              {" · "}
+              {budget.spent_tokens.toLocaleString()}
+              {budget.monthly_token_limit !== null && ` of ${budget.monthly_token_limit.toLocaleString()}`} tokens
+            </span>
+            <span>{budget.percent_used}% used</span>
+          </div>
+          <div className="h-2 bg-muted rounded">
+            <div
+              className={`h-2 rounded ${
+                percent >= 100 ? "bg-destructive" : percent >= budget.soft_threshold_percent ? "bg-amber-500" : "bg-primary"
+              }`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        </div>
+      )}
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-card-foreground mb-1">Monthly cost limit (USD)</label>
+          <input type="number" min="0" step="0.01" value={cost} onChange={(e) => setCost(e.target.value)} placeholder="No limit" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-card-foreground mb-1">Monthly token limit</label>
+          <input type="number" min="0" step="1" value={tokens} onChange={(e) => setTokens(e.target.value)} placeholder="No limit" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-card-foreground mb-1">Warn at (%)</label>
+          <input type="number" min="1" max="100" value={soft} onChange={(e) => setSoft(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={saving || (!cost.trim() && !tokens.trim())}>
+          {budget ? "Update Budget" : "Set Budget"}
+        </Button>
+        {budget && (
+          <Button type="button" size="sm" variant="outline" onClick={onRemove} disabled={saving}>
+            Remove
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+interface BudgetSettingsProps {
+  /** "personal" shows the user's own and per-agent budgets; "team" shows the team-domain budget */
+  scope: "personal" | "team";
+}
+
+/**
+ * Monthly spend/token budgets. Runs are refused once a limit is reached and a
+ * notification is sent when the warning threshold is crossed.
+ */
+export function BudgetSettings({ scope }: BudgetSettingsProps) {
+  const [overview, setOverview] = useState<BudgetOverview | null>(null);
+  const [agents, setAgents] = useState<{ slug: string; name: string }[]>([]);
+  const [newAgentSlug, setNewAgentSlug] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      setOverview(await api.budgets.list());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load budgets");
+    }
+  };
+
+  useEffect(() => {
+    load();
+    if (scope === "personal") {
+      api.agents.list().then(setAgents).catch(() => setAgents([]));
+    }
+  }, [scope]);
+
+  if (error) return <p className="text-sm text-muted-foreground">{error}</p>;
+  if (!overview) return <p className="text-sm text-muted-foreground">Loading budgets...</p>;
+
+  if (scope === "team") {
+    return (
+      <BudgetEditor
+        key={overview.team?.id ?? "new"}
+        budget={overview.team}
+        onSave={async (limits) => {
+          await api.budgets.updateTeam(limits);
+          await load();
+        }}
+        onRemove={async () => {
+          await api.budgets.deleteTeam();
+          await load();
+        }}
+      />
+    );
+  }
+
+  const budgetedSlugs = new Set(overview.agents.map((a) => a.agent_slug));
+  const unbudgetedAgents = agents.filter((a) => !budgetedSlugs.has(a.slug));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-medium text-card-foreground mb-2">All agents</h3>
+        <BudgetEditor
+          key={overview.user?.id ?? "new"}
+          budget={overview.user}
+          onSave={async (limits) => {
+            await api.budgets.updateUser(limits);
+            await load();
+          }}
+          onRemove={async () => {
+            await api.budgets.deleteUser();
+            await load();
+          }}
+        />
+      </div>
+
+      {overview.agents.map((agentBudget) => (
+        <div key={agentBudget.id}>
+          <h3 className="text-sm font-medium text-card-foreground mb-2">{agentBudget.agent_name}</h3>
+          <BudgetEditor
+            budget={agentBudget}
+            onSave={async (limits) => {
+              await api.budgets.updateAgent(agentBudget.agent_slug, limits);
+              await load();
+            }}
+            onRemove={async () => {
+              await api.budgets.deleteAgent(agentBudget.agent_slug);
+              await load();
+            }}
+          />
+        </div>
+      ))}
+
+      {newAgentSlug ? (
+        <div>
+          <h3 className="text-sm font-medium text-card-foreground mb-2">
+            {agents.find((a) => a.slug === newAgentSlug)?.name}
+          </h3>
+          <BudgetEditor
+            budget={null}
+            onSave={async (limits) => {
+              await api.budgets.updateAgent(newAgentSlug, limits);
+              setNewAgentSlug("");
+              await load();
+            }}
+            onRemove={async () => setNewAgentSlug("")}
+          />
+        </div>
+      ) : (
+        unbudgetedAgents.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => setNewAgentSlug(e.target.value)}
+            className="px-3 py-2 border border-input rounded-md bg-background text-foreground text-sm"
+          >
+            <option value="">+ Add a budget for an agent...</option>
+            {unbudgetedAgents.map((a) => (
+              <option key={a.slug} value={a.slug}>{a.name}</option>
+            ))}
+          </select>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { api, type NotificationDelivery } from "../lib/api";
+
+const LIMIT = 20;
+
+const statusVariant: Record<NotificationDelivery["status"], "default" | "secondary" | "destructive"> = {
+  sent: "default",
+  pending: "secondary",
+  held: "secondary",
+  failed: "destructive",
+  dropped: "secondary",
+};
+
+function formatTime(dateStr: string) {
+  return new Date(dateStr).toLocaleString();
+}
+
+/** Why a delivery is waiting, or how it went out, when quiet hours, a digest or a rate limit stepped in */
+function holdNote(delivery: NotificationDelivery): string | null {
+  const next = delivery.next_attempt_at ? formatTime(delivery.next_attempt_at) : null;
+  if (delivery.status === "held") return next ? `In the digest at ${next}` : "Waiting for the digest";
+  if (delivery.status === "dropped") return "Dropped: the agent was over its rate limit";
+  if (delivery.status === "sent" && delivery.held_reason === "digest") return "Sent in a digest";
+  if (delivery.status === "pending" && next) {
+    if (delivery.held_reason === "quiet_hours") return `Held for quiet hours until ${next}`;
+    if (delivery.held_reason === "rate_limit") return `Over the agent's rate limit; next attempt ${next}`;
+    return `Next attempt ${next}`;
+  }
+  return null;
+}
+
+/** Notification deliveries with their attempts, and a way to send one again */
+export default function DeliveryLog() {
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [channel, setChannel] = useState<NotificationDelivery["channel"] | "all">("all");
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [redelivering, setRedelivering] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+
+  useEffect(() => {
+    loadDeliveries(true);
+  }, [channel]);
+
+  const loadDeliveries = async (reset = false) => {
+    try {
+      setLoading(true);
+      const offset = reset ? 0 : deliveries.length;
+      const data = await api.notifications.listDeliveries({
+        channel: channel === "all" ? undefined : channel,
+        limit: LIMIT,
+        offset,
+      });
+      setDeliveries((prev) => (reset ? data.deliveries : [...prev, ...data.deliveries]));
+      setHasMore(data.deliveries.length === LIMIT);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load deliveries");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRedeliver = async (delivery: NotificationDelivery) => {
+    try {
+      setRedelivering(delivery.id);
+      await api.notifications.redeliver(delivery.id);
+      await loadDeliveries(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to redeliver");
+    } finally {
+      setRedelivering(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 px-6 pt-4">
+        <label className="text-sm text-muted-foreground">Channel</label>
+        <select
+          value={channel}
+          onChange={(e) => setChannel(e.target.value as typeof channel)}
+          className="px-2 py-1 border border-input rounded-md bg-background text-foreground text-sm"
+        >
+          <option value="all">All</option>
+          <option value="webhook">Webhook</option>
+          <option value="email">Email</option>
+          <option value="pushover">Pushover</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mx-6 mt-4">
+          <p className="text-red-800 dark:text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading && deliveries.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">Loading deliveries...</p>
+        </div>
+      ) : deliveries.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">No deliveries yet</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-border mt-4">
+          {deliveries.map((delivery) => (
+            <div key={delivery.id} className="px-6 py-4">
+              <div className="flex items-start gap-3">
+                <div
+                  className="flex-1 min-w-0 cursor-pointer"
+                  onClick={() => setExpanded(expanded === delivery.id ? null : delivery.id)}
+                >
+                  <div className="flex items-center gap-2 mb-0.5">
+                    <Badge variant={statusVariant[delivery.status]}>{delivery.status}</Badge>
+                    <span className="text-sm font-medium text-foreground">
+                      {delivery.channel}
+                      {delivery.destination ? ` → ${delivery.destination}` : ""}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatTime(delivery.created_at)} · {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {delivery.notification.agent_name ? `${delivery.notification.agent_name}: ` : ""}
+                    {delivery.notification.message}
+                  </p>
+                  {delivery.error_message && (
+                    <p className="text-xs text-red-600 dark:text-red-400 mt-1">{delivery.error_message}</p>
+                  )}
+                  {holdNote(delivery) && (
+                    <p className="text-xs text-muted-foreground mt-1">{holdNote(delivery)}</p>
+                  )}
+                </div>
+                {delivery.status !== "pending" && delivery.status !== "held" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRedeliver(delivery)}
+                    disabled={redelivering === delivery.id}
+                  >
+                    {redelivering === delivery.id ? "Queuing..." : "Redeliver"}
+                  </Button>
+                )}
+              </div>
+
+              {expanded === delivery.id && (
+                <div className="mt-3 space-y-2">
+                  {delivery.attempt_log.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No attempts logged</p>
+                  ) : (
+                    delivery.attempt_log.map((attempt) => (
+                      <div key={attempt.id} className="rounded-md border border-border p-3 text-xs space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-foreground">Attempt {attempt.attempt}</span>
+                          {attempt.destination && <span className="text-muted-foreground">{attempt.destination}</span>}
+                          {attempt.response_status !== null && (
+                            <Badge variant={attempt.response_status < 300 ? "default" : "destructive"}>
+                              {attempt.response_status}
+                            </Badge>
+                          )}
+                          <span className="text-muted-foreground">
+                            {formatTime(attempt.created_at)} · {attempt.duration_ms}ms
+                          </span>
+                        </div>
+                        {attempt.request_url && (
+                          <p className="font-mono text-muted-foreground break-all">POST {attempt.request_url}</p>
+                        )}
+                        {attempt.error_message && (
+                          <p className="text-red-600 dark:text-red-400">{attempt.error_message}</p>
+                        )}
+                        {attempt.request_body && (
+                          <details>
+                            <summary className="cursor-pointer text-muted-foreground">Request body</summary>
+                            <pre className="mt-1 p-2 bg-muted rounded whitespace-pre-wrap break-all">{attempt.request_body}</pre>
+                          </details>
+                        )}
+                        {attempt.response_body && (
+                          <details>
+                            <summary className="cursor-pointer text-muted-foreground">Response body</summary>
+                            <pre className="mt-1 p-2 bg-muted rounded whitespace-pre-wrap break-all">{attempt.response_body}</pre>
+                          </details>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hasMore && deliveries.length > 0 && (
+        <div className="px-6 py-4 text-center">
+          <Button variant="outline" size="sm" onClick={() => loadDeliveries(false)} disabled={loading}>
+            {loading ? "Loading..." : "Load More"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
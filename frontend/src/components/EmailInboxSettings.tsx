@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { api, type EmailInbox } from "../lib/api";
+
+const inputClass =
+  "w-full px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm";
+
+interface Agent {
+  id: number;
+  slug: string;
+  name: string;
+}
+
+/**
+ * The user's inbound email address. Mail to it (or to <agent-slug>+ it) starts
+ * a conversation with the agent, and the answer is emailed back through the
+ * notification mail transport.
+ */
+export function EmailInboxSettings() {
+  const [inbox, setInbox] = useState<EmailInbox | null>(null);
+  const [domain, setDomain] = useState<string | null>(null);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [alias, setAlias] = useState("");
+  const [agentId, setAgentId] = useState<number | "">("");
+  const [allowedSenders, setAllowedSenders] = useState("");
+  const [enabled, setEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = (data: { inbox: EmailInbox | null; domain: string | null }) => {
+    setInbox(data.inbox);
+    setDomain(data.domain);
+    setAlias(data.inbox?.alias ?? "");
+    setAgentId(data.inbox?.agent_id ?? "");
+    setAllowedSenders(data.inbox?.allowed_senders.join("\n") ?? "");
+    setEnabled(data.inbox?.enabled ?? true);
+  };
+
+  useEffect(() => {
+    api.emailInbox
+      .get()
+      .then(apply)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load email inbox"))
+      .finally(() => setLoaded(true));
+    api.agents.list().then(setAgents).catch(() => {
+      // Agents list is supplementary
+    });
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (agentId === "") return;
+    setSaving(true);
+    setError(null);
+    try {
+      apply(
+        await api.emailInbox.update({
+          alias,
+          agent_id: agentId,
+          allowed_senders: allowedSenders.split(/[\s,]+/).filter(Boolean),
+          enabled,
+        })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save email inbox");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm("Remove your email inbox? Mail to its address will be refused.")) return;
+    setError(null);
+    try {
+      await api.emailInbox.delete();
+      apply({ inbox: null, domain });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove email inbox");
+    }
+  };
+
+  if (!loaded) {
+    return <p className="text-sm text-muted-foreground">Loading email inbox...</p>;
+  }
+
+  const address = (slug?: string) =>
+    `${slug ? `${slug}+` : ""}${alias || "alias"}@${domain ?? "your-inbound-domain"}`;
+
+  return (
+    <form onSubmit={handleSave} className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Forward or send email to an agent. Mail to <code className="text-xs">{address()}</code> goes to the
+        default agent; <code className="text-xs">{address("agent-slug")}</code> reaches any of your agents.
+        Replies are sent with your notification email settings.
+      </p>
+      {!domain && (
+        <p className="text-sm text-amber-700 dark:text-amber-400">
+          The server has no inbound email domain configured yet.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-card-foreground mb-1">Alias</label>
+          <input
+            value={alias}
+            onChange={(e) => setAlias(e.target.value)}
+            placeholder="e.g., alice"
+            required
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-card-foreground mb-1">Default agent</label>
+          <select
+            value={agentId}
+            onChange={(e) => setAgentId(Number(e.target.value))}
+            required
+            className={inputClass}
+          >
+            <option value="" disabled>Select an agent</option>
+            {agents.map((agent) => (
+              <option key={agent.id} value={agent.id}>{agent.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-card-foreground mb-1">Allowed senders</label>
+        <textarea
+          value={allowedSenders}
+          onChange={(e) => setAllowedSenders(e.target.value)}
+          placeholder="Addresses or @domains, one per line. Leave empty to accept only your account's address."
+          rows={3}
+          className={`${inputClass} font-mono`}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          A sender's address can be forged, so treat the alias like a password: share it only with people
+          you want your agents to act for.
+        </p>
+      </div>
+
+      {inbox && agents.length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-muted-foreground">Agent addresses</summary>
+          <ul className="mt-2 space-y-1">
+            {agents.map((agent) => (
+              <li key={agent.id}>
+                <span className="text-muted-foreground">{agent.name}:</span>{" "}
+                <code className="text-xs">{address(agent.slug)}</code>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Switch checked={enabled} onCheckedChange={setEnabled} />
+          <span className="text-sm">Enabled</span>
+        </div>
+        <div className="ml-auto flex gap-2">
+          {inbox && (
+            <Button type="button" variant="outline" size="sm" onClick={handleDelete}>
+              Remove
+            </Button>
+          )}
+          <Button type="submit" size="sm" disabled={saving}>
+            {saving ? "Saving..." : inbox ? "Save" : "Create Inbox"}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
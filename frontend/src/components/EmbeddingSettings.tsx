@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { api, type EmbeddingSettings as EmbeddingSettingsData } from "../lib/api";
+
+const inputClass =
+  "w-full px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm";
+
+/**
+ * Embedding model used for semantic memory recall. Changing it re-embeds
+ * existing memories in the background.
+ */
+export function EmbeddingSettings() {
+  const [settings, setSettings] = useState<EmbeddingSettingsData | null>(null);
+  const [model, setModel] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const data = await api.embeddings.get();
+      setSettings(data);
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load embedding settings");
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    load().then((data) => setModel(data?.embedding_model ?? ""));
+  }, []);
+
+  // Poll while a re-embed job is running
+  useEffect(() => {
+    if (!settings?.job?.running) return;
+    const timer = setTimeout(load, 3000);
+    return () => clearTimeout(timer);
+  }, [settings]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await api.embeddings.update(model.trim() || null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save embedding model");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReembed = async () => {
+    setError(null);
+    try {
+      await api.embeddings.reembed();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start re-embed");
+    }
+  };
+
+  if (!settings) {
+    return <p className="text-sm text-muted-foreground">{error ?? "Loading embedding settings..."}</p>;
+  }
+
+  const { job } = settings;
+
+  return (
+    <form onSubmit={handleSave} className="space-y-3">
+      <div>
+        <label className="block text-xs font-medium text-card-foreground mb-1">Embedding model</label>
+        <input
+          value={model}
+          onChange={(e) => setModel(e.target.value)}
+          placeholder="Automatic (first configured provider)"
+          list="embedding-model-defaults"
+          className={`${inputClass} font-mono`}
+        />
+        <datalist id="embedding-model-defaults">
+          {Object.values(settings.defaults).map((m) => (
+            <option key={m} value={m} />
+          ))}
+        </datalist>
+        <p className="mt-1 text-xs text-muted-foreground">
+          <code>provider:model-id</code> — OpenAI, Google, Ollama or one of your custom providers.
+          Leave empty to use the first configured of {Object.values(settings.defaults).join(", ")}.
+        </p>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {settings.active_model ? (
+          <>
+            Using <code>{settings.active_model}</code>
+            {settings.pending > 0 && ` · ${settings.pending} memories not yet embedded with this model`}
+          </>
+        ) : (
+          "No embedding provider configured — memory recall uses text search."
+        )}
+      </p>
+
+      {job && (
+        <p className="text-xs text-muted-foreground">
+          {job.running ? "Re-embedding" : "Last re-embed"} with <code>{job.model}</code>: {job.processed} done
+          {job.failed > 0 && `, ${job.failed} failed`}
+          {job.last_error && ` (${job.last_error})`}
+        </p>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={saving}>
+          {saving ? "Saving..." : "Save"}
+        </Button>
+        {settings.active_model && settings.pending > 0 && (
+          <Button type="button" size="sm" variant="outline" onClick={handleReembed} disabled={job?.running}>
+            Re-embed now
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
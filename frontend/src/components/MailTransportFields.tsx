@@ -0,0 +1,188 @@
+import React from "react";
+import type { MailTransport, MailTransportInput } from "../lib/api";
+
+export interface MailTransportForm {
+  type: MailTransport["type"] | "none";
+  from: string;
+  host: string;
+  port: string;
+  security: "starttls" | "tls" | "none";
+  username: string;
+  password: string;
+  hasPassword: boolean;
+  url: string;
+  apiKey: string;
+  hasApiKey: boolean;
+  mailbox: string;
+}
+
+/** Form state for a stored transport (or none) */
+export function mailTransportForm(transport: MailTransport | null | undefined): MailTransportForm {
+  return {
+    type: transport?.type ?? "none",
+    from: transport?.from ?? "",
+    host: transport?.type === "smtp" ? transport.host : "",
+    port: transport?.type === "smtp" ? String(transport.port) : "",
+    security: transport?.type === "smtp" ? transport.security : "starttls",
+    username: transport?.type === "smtp" ? transport.username ?? "" : "",
+    password: "",
+    hasPassword: transport?.type === "smtp" && transport.has_password,
+    url: transport?.type === "http" ? transport.url : "",
+    apiKey: "",
+    hasApiKey: transport?.type === "http" && transport.has_api_key,
+    mailbox: transport?.type === "file" ? transport.mailbox : "",
+  };
+}
+
+/** What to send as mail_transport; empty secret fields keep the stored ones */
+export function mailTransportInput(form: MailTransportForm): MailTransportInput | null {
+  switch (form.type) {
+    case "none":
+      return null;
+    case "smtp":
+      return {
+        type: "smtp",
+        from: form.from,
+        host: form.host,
+        port: form.port ? Number(form.port) : undefined,
+        security: form.security,
+        username: form.username || null,
+        password: form.password || undefined,
+      };
+    case "http":
+      return { type: "http", from: form.from, url: form.url, api_key: form.apiKey || undefined };
+    case "file":
+      return { type: "file", from: form.from, mailbox: form.mailbox };
+  }
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm";
+
+/** Choose and configure how notification emails are sent */
+export default function MailTransportFields({
+  value,
+  onChange,
+  noneLabel = "Log only (no emails sent)",
+}: {
+  value: MailTransportForm;
+  onChange: (value: MailTransportForm) => void;
+  /** What happens without a transport, e.g. falling back to the team's */
+  noneLabel?: string;
+}) {
+  const set = (changes: Partial<MailTransportForm>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-card-foreground mb-2">Delivery</label>
+        <select
+          value={value.type}
+          onChange={(e) => set({ type: e.target.value as MailTransportForm["type"] })}
+          className={inputClass}
+        >
+          <option value="none">{noneLabel}</option>
+          <option value="smtp">SMTP server</option>
+          <option value="http">Mail API (HTTP)</option>
+          <option value="file">Local mailbox file (development)</option>
+        </select>
+      </div>
+
+      {value.type !== "none" && (
+        <div>
+          <label className="block text-sm font-medium text-card-foreground mb-2">From address</label>
+          <input
+            type="text"
+            value={value.from}
+            onChange={(e) => set({ from: e.target.value })}
+            placeholder="Assistant <assistant@example.com>"
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {value.type === "smtp" && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="text"
+              value={value.host}
+              onChange={(e) => set({ host: e.target.value })}
+              placeholder="smtp.example.com"
+              className={`${inputClass} col-span-2`}
+            />
+            <input
+              type="number"
+              value={value.port}
+              onChange={(e) => set({ port: e.target.value })}
+              placeholder={value.security === "tls" ? "465" : value.security === "none" ? "25" : "587"}
+              className={inputClass}
+            />
+          </div>
+          <select
+            value={value.security}
+            onChange={(e) => set({ security: e.target.value as MailTransportForm["security"] })}
+            className={inputClass}
+          >
+            <option value="starttls">STARTTLS</option>
+            <option value="tls">TLS</option>
+            <option value="none">None (unencrypted)</option>
+          </select>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={value.username}
+              onChange={(e) => set({ username: e.target.value })}
+              placeholder="Username (optional)"
+              className={inputClass}
+            />
+            <input
+              type="password"
+              value={value.password}
+              onChange={(e) => set({ password: e.target.value })}
+              placeholder={value.hasPassword ? "(unchanged)" : "Password"}
+              className={inputClass}
+            />
+          </div>
+        </>
+      )}
+
+      {value.type === "http" && (
+        <>
+          <input
+            type="url"
+            value={value.url}
+            onChange={(e) => set({ url: e.target.value })}
+            placeholder="https://mail.example.com/send"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={value.apiKey}
+            onChange={(e) => set({ apiKey: e.target.value })}
+            placeholder={value.hasApiKey ? "(unchanged)" : "API key (sent as a bearer token)"}
+            className={inputClass}
+          />
+          <p className="text-xs text-muted-foreground">
+            Each email is POSTed as JSON with from, to, subject, text and html.
+          </p>
+        </>
+      )}
+
+      {value.type === "file" && (
+        <>
+          <input
+            type="text"
+            value={value.mailbox}
+            onChange={(e) => set({ mailbox: e.target.value })}
+            placeholder="dev"
+            className={inputClass}
+          />
+          <p className="text-xs text-muted-foreground">
+            Emails are appended to <code>&lt;mailbox&gt;.mbox</code> in the server's mail directory.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
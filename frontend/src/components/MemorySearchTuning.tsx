@@ -0,0 +1,94 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { api, type MemorySearchSettings } from "../lib/api";
+
+const inputClass =
+  "w-full px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm";
+
+const FIELDS: Array<{ key: keyof MemorySearchSettings; label: string; defaultValue: number; step: number }> = [
+  { key: "keyword_weight", label: "Keywords", defaultValue: 0.4, step: 0.05 },
+  { key: "vector_weight", label: "Meaning", defaultValue: 0.4, step: 0.05 },
+  { key: "frequency_weight", label: "Frequency", defaultValue: 0.05, step: 0.05 },
+  { key: "recency_weight", label: "Recency", defaultValue: 0.15, step: 0.05 },
+  { key: "recency_half_life_days", label: "Recency half-life (days)", defaultValue: 30, step: 1 },
+];
+
+function toForm(settings: MemorySearchSettings | null | undefined): Record<keyof MemorySearchSettings, string> {
+  return Object.fromEntries(
+    FIELDS.map(({ key }) => [key, settings?.[key] !== undefined ? String(settings[key]) : ""])
+  ) as Record<keyof MemorySearchSettings, string>;
+}
+
+/**
+ * How an agent ranks memory search results, for both its recall tool and
+ * searches here. Empty fields keep the default weight.
+ */
+export function MemorySearchTuning({
+  slug,
+  settings,
+  onSaved,
+}: {
+  slug: string;
+  settings: MemorySearchSettings | null | undefined;
+  onSaved: (settings: MemorySearchSettings | null) => void;
+}) {
+  const [form, setForm] = useState(() => toForm(settings));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (next: MemorySearchSettings | null) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await api.agents.update(slug, { memory_search_weights: next });
+      setForm(toForm(next));
+      onSaved(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save search ranking");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next: MemorySearchSettings = {};
+    for (const { key } of FIELDS) {
+      if (form[key].trim()) next[key] = Number(form[key]);
+    }
+    save(Object.keys(next).length > 0 ? next : null);
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        How much each signal counts when this agent recalls memories. Weights are relative to each other.
+      </p>
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+        {FIELDS.map(({ key, label, defaultValue, step }) => (
+          <div key={key}>
+            <label className="block text-xs font-medium text-card-foreground mb-1">{label}</label>
+            <input
+              type="number"
+              min={0}
+              step={step}
+              value={form[key]}
+              onChange={(e) => setForm((prev) => ({ ...prev, [key]: e.target.value }))}
+              placeholder={String(defaultValue)}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={saving}>
+          {saving ? "Saving..." : "Save Ranking"}
+        </Button>
+        <Button type="button" size="sm" variant="ghost" disabled={saving} onClick={() => save(null)}>
+          Reset to defaults
+        </Button>
+      </div>
+    </form>
+  );
+}
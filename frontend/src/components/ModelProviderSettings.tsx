@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { api, type ModelProvider } from "../lib/api";
+import { pairsToRecord, recordToPairs, type KeyValuePair } from "./UrlToolEditor";
+
+const inputClass =
+  "w-full px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm";
+
+interface ProviderForm {
+  name: string;
+  base_url: string;
+  api_key: string;
+  api_key_header: string;
+  headers: KeyValuePair[];
+  models: string;
+}
+
+const emptyForm: ProviderForm = {
+  name: "",
+  base_url: "",
+  api_key: "",
+  api_key_header: "Authorization",
+  headers: [],
+  models: "",
+};
+
+interface ModelProviderSettingsProps {
+  /** "user" manages personal providers; "team" manages the email domain's providers */
+  scope: "user" | "team";
+}
+
+/**
+ * Custom OpenAI-compatible endpoints (vLLM, LiteLLM, Azure OpenAI, Bedrock
+ * gateways). Their models are used as "name:model-id".
+ */
+export function ModelProviderSettings({ scope }: ModelProviderSettingsProps) {
+  const [providers, setProviders] = useState<ModelProvider[]>([]);
+  const [editing, setEditing] = useState<ModelProvider | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ProviderForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      setProviders(await api.modelProviders.list(scope));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load providers");
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [scope]);
+
+  const startCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const startEdit = (provider: ModelProvider) => {
+    setEditing(provider);
+    setForm({
+      name: provider.name,
+      base_url: provider.base_url,
+      api_key: "",
+      api_key_header: provider.api_key_header,
+      headers: recordToPairs(provider.headers),
+      models: provider.models.join("\n"),
+    });
+    setShowForm(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const data = {
+        name: form.name.trim(),
+        base_url: form.base_url.trim(),
+        api_key_header: form.api_key_header.trim() || "Authorization",
+        headers: pairsToRecord(form.headers),
+        models: form.models.split(/[\n,]/).map((m) => m.trim()).filter(Boolean),
+        // Leave the stored key alone unless a new one was typed
+        ...(form.api_key ? { api_key: form.api_key } : {}),
+      };
+      if (editing) {
+        await api.modelProviders.update(scope, editing.id, data);
+      } else {
+        await api.modelProviders.create(scope, data);
+      }
+      setShowForm(false);
+      setEditing(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save provider");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (provider: ModelProvider) => {
+    if (!confirm(`Delete provider "${provider.name}"? Agents using its models will stop working.`)) return;
+    try {
+      await api.modelProviders.delete(scope, provider.id);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete provider");
+    }
+  };
+
+  const handleClearKey = async () => {
+    if (!editing) return;
+    try {
+      setEditing(await api.modelProviders.update(scope, editing.id, { api_key: "" }));
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to clear API key");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {providers.length === 0 && !showForm && (
+        <p className="text-sm text-muted-foreground">No custom providers configured.</p>
+      )}
+
+      {providers.map((provider) => (
+        <div key={provider.id} className="flex items-start justify-between gap-4 p-3 border border-border rounded-md">
+          <div className="min-w-0">
+            <div className="font-medium text-sm text-card-foreground">{provider.name}</div>
+            <div className="text-xs text-muted-foreground truncate">{provider.base_url}</div>
+            <div className="text-xs text-muted-foreground mt-1">
+              {provider.models.length > 0
+                ? provider.models.map((m) => `${provider.name}:${m}`).join(", ")
+                : "No models listed"}
+              {provider.has_api_key && " · API key set"}
+            </div>
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            <Button size="sm" variant="outline" onClick={() => startEdit(provider)}>
+              Edit
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => handleDelete(provider)}>
+              Delete
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {showForm ? (
+        <form onSubmit={handleSave} className="space-y-3 p-4 border border-border rounded-md">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-card-foreground mb-1">Name</label>
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="mygateway"
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-card-foreground mb-1">Base URL</label>
+              <input
+                type="url"
+                value={form.base_url}
+                onChange={(e) => setForm({ ...form, base_url: e.target.value })}
+                placeholder="https://llm.example.com/v1"
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-card-foreground mb-1">API Key</label>
+              <input
+                type="password"
+                value={form.api_key}
+                onChange={(e) => setForm({ ...form, api_key: e.target.value })}
+                placeholder={editing?.has_api_key ? "•••••••• (unchanged)" : "Optional"}
+                className={inputClass}
+              />
+              {editing?.has_api_key && (
+                <button type="button" onClick={handleClearKey} className="mt-1 text-xs text-muted-foreground hover:text-foreground">
+                  Clear stored key
+                </button>
+              )}
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-card-foreground mb-1">API Key Header</label>
+              <input
+                value={form.api_key_header}
+                onChange={(e) => setForm({ ...form, api_key_header: e.target.value })}
+                placeholder="Authorization"
+                className={inputClass}
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                "Authorization" sends a Bearer token; use "api-key" for Azure OpenAI.
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-card-foreground mb-1">Models</label>
+            <textarea
+              value={form.models}
+              onChange={(e) => setForm({ ...form, models: e.target.value })}
+              placeholder={"qwen2.5-72b\nllama-3.3-70b"}
+              rows={3}
+              className={`${inputClass} font-mono`}
+            />
+            <p className="mt-1 text-xs text-muted-foreground">
+              One model ID per line. Use them in agents as <code>{form.name || "name"}:model-id</code>.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-card-foreground mb-1">Extra Headers</label>
+            {form.headers.map((pair, i) => (
+              <div key={i} className="flex gap-2 mb-2">
+                <input
+                  value={pair.key}
+                  onChange={(e) => {
+                    const headers = [...form.headers];
+                    headers[i] = { ...pair, key: e.target.value };
+                    setForm({ ...form, headers });
+                  }}
+                  placeholder="Header"
+                  className={inputClass}
+                />
+                <input
+                  value={pair.value}
+                  onChange={(e) => {
+                    const headers = [...form.headers];
+                    headers[i] = { ...pair, value: e.target.value };
+                    setForm({ ...form, headers });
+                  }}
+                  placeholder="Value"
+                  className={inputClass}
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setForm({ ...form, headers: form.headers.filter((_, j) => j !== i) })}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setForm({ ...form, headers: [...form.headers, { key: "", value: "" }] })}
+            >
+              Add Header
+            </Button>
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={saving}>
+              {saving ? "Saving..." : editing ? "Update Provider" : "Add Provider"}
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button size="sm" variant="outline" onClick={startCreate}>
+          Add Provider
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  api,
+  RATE_OVERFLOW_LABELS,
+  type NotificationDelivery,
+  type NotificationRatePolicy,
+  type UserNotificationSettings,
+} from "../lib/api";
+
+const inputClass =
+  "px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm";
+
+const CHANNELS: Array<{ value: NotificationDelivery["channel"]; label: string }> = [
+  { value: "email", label: "Email" },
+  { value: "webhook", label: "Webhook" },
+  { value: "pushover", label: "Pushover" },
+];
+
+interface Agent {
+  id: number;
+  name: string;
+}
+
+/** Digest times as typed: "08:00, 18:00" */
+function parseTimes(value: string): string[] {
+  return value.split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Quiet hours, digests and per-agent rate policies. Saved on their own,
+ * apart from the channel settings above them.
+ */
+export function NotificationPolicySettings() {
+  const { user } = useAuth();
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [quietEnabled, setQuietEnabled] = useState(false);
+  const [quietStart, setQuietStart] = useState("22:00");
+  const [quietEnd, setQuietEnd] = useState("07:00");
+  const [digestTimes, setDigestTimes] = useState<Record<NotificationDelivery["channel"], string>>({
+    email: "",
+    webhook: "",
+    pushover: "",
+  });
+  const [policies, setPolicies] = useState<NotificationRatePolicy[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = (settings: UserNotificationSettings) => {
+    setQuietEnabled(!!settings.quiet_hours);
+    if (settings.quiet_hours) {
+      setQuietStart(settings.quiet_hours.start);
+      setQuietEnd(settings.quiet_hours.end);
+    }
+    setDigestTimes({
+      email: settings.digest_schedule.email?.join(", ") ?? "",
+      webhook: settings.digest_schedule.webhook?.join(", ") ?? "",
+      pushover: settings.digest_schedule.pushover?.join(", ") ?? "",
+    });
+    setPolicies(settings.rate_policies);
+  };
+
+  useEffect(() => {
+    api.notifications
+      .getSettings()
+      .then(apply)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load notification settings"))
+      .finally(() => setLoaded(true));
+    api.agents.list().then(setAgents).catch(() => {
+      // Agents list is supplementary
+    });
+  }, []);
+
+  const updatePolicy = (index: number, changes: Partial<NotificationRatePolicy>) => {
+    setPolicies((prev) => prev.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  const toggleChannel = (index: number, channel: NotificationDelivery["channel"], on: boolean) => {
+    const channels = policies[index]!.channels;
+    updatePolicy(index, { channels: on ? [...channels, channel] : channels.filter((c) => c !== channel) });
+  };
+
+  const addPolicy = () => {
+    const used = new Set(policies.map((p) => p.agent_id));
+    const agentId = used.has(null) ? agents.find((a) => !used.has(a.id))?.id : null;
+    if (agentId === undefined) return;
+    setPolicies((prev) => [...prev, { agent_id: agentId, channels: ["email"], max_per_hour: 5, overflow: "delay" }]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+    try {
+      const { settings } = await api.notifications.updateSettings({
+        quiet_hours: quietEnabled ? { start: quietStart, end: quietEnd } : null,
+        digest_schedule: Object.fromEntries(
+          CHANNELS.map(({ value }) => [value, parseTimes(digestTimes[value])])
+        ),
+        rate_policies: policies,
+      });
+      apply(settings);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!loaded) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Times are in your timezone ({user?.timezone || "UTC"}). Urgent notifications always go out straight away.
+      </p>
+
+      {/* Quiet Hours */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-card-foreground">Quiet Hours</label>
+          <Switch checked={quietEnabled} onCheckedChange={setQuietEnabled} />
+        </div>
+        {quietEnabled && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Hold notifications from</span>
+            <input type="time" value={quietStart} onChange={(e) => setQuietStart(e.target.value)} className={inputClass} />
+            <span className="text-muted-foreground">to</span>
+            <input type="time" value={quietEnd} onChange={(e) => setQuietEnd(e.target.value)} className={inputClass} />
+          </div>
+        )}
+      </div>
+
+      {/* Digests */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium text-card-foreground">Digests</h3>
+        <p className="text-xs text-muted-foreground">
+          Low and normal urgency notifications on a channel with digest times are collected and sent together at
+          those times. Leave empty to send them as they come.
+        </p>
+        {CHANNELS.map(({ value, label }) => (
+          <div key={value} className="flex items-center gap-2">
+            <label className="w-20 text-sm text-muted-foreground">{label}</label>
+            <input
+              value={digestTimes[value]}
+              onChange={(e) => setDigestTimes((prev) => ({ ...prev, [value]: e.target.value }))}
+              placeholder="e.g., 08:00, 18:00"
+              className={`flex-1 font-mono ${inputClass}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Rate Policies */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium text-card-foreground">Rate Limits</h3>
+        <p className="text-xs text-muted-foreground">
+          How many notifications an agent may send on each channel per hour, and what happens to the rest. Without a
+          default, each agent may send 5 emails an hour.
+        </p>
+        {policies.map((policy, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2 rounded-md border border-border p-3">
+            <select
+              value={policy.agent_id ?? ""}
+              onChange={(e) => updatePolicy(index, { agent_id: e.target.value ? Number(e.target.value) : null })}
+              className={inputClass}
+            >
+              <option value="" disabled={policies.some((p, i) => i !== index && p.agent_id === null)}>
+                Default (all agents)
+              </option>
+              {agents.map((agent) => (
+                <option
+                  key={agent.id}
+                  value={agent.id}
+                  disabled={policies.some((p, i) => i !== index && p.agent_id === agent.id)}
+                >
+                  {agent.name}
+                </option>
+              ))}
+            </select>
+            {CHANNELS.map(({ value, label }) => (
+              <label key={value} className="flex items-center gap-1 text-xs text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={policy.channels.includes(value)}
+                  onChange={(e) => toggleChannel(index, value, e.target.checked)}
+                />
+                {label}
+              </label>
+            ))}
+            <input
+              type="number"
+              min={1}
+              max={1000}
+              value={policy.max_per_hour}
+              onChange={(e) => updatePolicy(index, { max_per_hour: Number(e.target.value) })}
+              className={`w-20 ${inputClass}`}
+            />
+            <span className="text-xs text-muted-foreground">per hour, then</span>
+            <select
+              value={policy.overflow}
+              onChange={(e) => updatePolicy(index, { overflow: e.target.value as NotificationRatePolicy["overflow"] })}
+              className={inputClass}
+            >
+              {Object.entries(RATE_OVERFLOW_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setPolicies((prev) => prev.filter((_, i) => i !== index))}
+              className="ml-auto px-3 py-2 text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 text-sm"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" onClick={addPolicy}>
+          Add Rate Limit
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex items-center gap-3">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? "Saving..." : "Save Delivery Rules"}
+        </Button>
+        {saved && <span className="text-sm text-muted-foreground">Saved</span>}
+      </div>
+    </div>
+  );
+}
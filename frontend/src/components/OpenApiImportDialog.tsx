@@ -0,0 +1,260 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { OpenApiImportPreview, OpenApiImportRequest, OpenApiImportResult } from "../lib/api";
+
+interface OpenApiImportDialogProps {
+  onPreview: (data: OpenApiImportRequest) => Promise<OpenApiImportPreview>;
+  onImport: (data: OpenApiImportRequest) => Promise<OpenApiImportResult>;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm";
+
+/**
+ * Modal for importing URL tools from an OpenAPI 3 document: paste the spec,
+ * preview the generated tools, pick the operations and an auth secret, then import.
+ */
+export function OpenApiImportDialog({ onPreview, onImport, onImported, onClose }: OpenApiImportDialogProps) {
+  const [spec, setSpec] = useState("");
+  const [baseUrl, setBaseUrl] = useState("");
+  const [preview, setPreview] = useState<OpenApiImportPreview | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [authScheme, setAuthScheme] = useState("");
+  const [secret, setSecret] = useState("");
+  const [result, setResult] = useState<OpenApiImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setSpec(await file.text());
+  };
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    try {
+      const data = await onPreview({ spec, base_url: baseUrl || undefined });
+      setPreview(data);
+      setBaseUrl(data.base_url);
+      setSelected(new Set(data.operations.filter((op) => !op.error && !op.exists).map((op) => op.operation_id)));
+      setAuthScheme(data.security_schemes[0]?.name ?? "");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read document");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await onImport({
+        spec,
+        base_url: baseUrl || undefined,
+        operation_ids: Array.from(selected),
+        auth: authScheme && secret ? { scheme: authScheme, secret } : null,
+      });
+      setResult(data);
+      if (data.created.length > 0) onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import tools");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (operationId: string) => {
+    const next = new Set(selected);
+    if (next.has(operationId)) next.delete(operationId);
+    else next.add(operationId);
+    setSelected(next);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-card rounded-lg shadow-xl max-w-3xl w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h3 className="font-semibold text-card-foreground">Import from OpenAPI</h3>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground text-lg leading-none"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1 space-y-4">
+          <form onSubmit={handlePreview} className="space-y-3">
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-card-foreground">
+                  OpenAPI 3 document (JSON or YAML)
+                </label>
+                <input type="file" accept=".json,.yaml,.yml" onChange={handleFile} className="text-xs" />
+              </div>
+              <textarea
+                value={spec}
+                onChange={(e) => setSpec(e.target.value)}
+                rows={preview ? 4 : 10}
+                placeholder="openapi: 3.0.0"
+                required
+                className={`font-mono ${inputClass}`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-card-foreground mb-2">
+                Base URL (optional, defaults to the document's first server)
+              </label>
+              <input
+                type="url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder="https://api.example.com/v1"
+                className={inputClass}
+              />
+            </div>
+            <Button type="submit" size="sm" variant="outline" disabled={loading || !spec.trim()}>
+              {preview ? "Refresh Preview" : "Preview"}
+            </Button>
+          </form>
+
+          {error && (
+            <p className="text-sm text-muted-foreground bg-destructive/10 rounded p-3 font-mono">{error}</p>
+          )}
+
+          {preview && (
+            <div className="space-y-3">
+              <p className="text-sm text-card-foreground">
+                <span className="font-medium">{preview.title}</span>
+                {preview.version && <span className="text-muted-foreground"> v{preview.version}</span>}
+                <span className="text-muted-foreground"> — {preview.operations.length} operation{preview.operations.length !== 1 ? "s" : ""}</span>
+              </p>
+
+              {preview.security_schemes.length > 0 && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-card-foreground mb-2">Auth scheme</label>
+                    <select value={authScheme} onChange={(e) => setAuthScheme(e.target.value)} className={inputClass}>
+                      <option value="">None</option>
+                      {preview.security_schemes.map((s) => (
+                        <option key={s.name} value={s.name}>
+                          {s.name} ({s.type === "apiKey" ? `${s.in} ${s.param_name}` : s.scheme || s.type})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-card-foreground mb-2">Secret</label>
+                    <input
+                      type="password"
+                      value={secret}
+                      onChange={(e) => setSecret(e.target.value)}
+                      placeholder={
+                        preview.security_schemes.find((s) => s.name === authScheme)?.scheme === "basic"
+                          ? "username:password"
+                          : "API key or token"
+                      }
+                      disabled={!authScheme}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">{selected.size} selected</span>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setSelected(new Set(preview.operations.filter((op) => !op.error).map((op) => op.operation_id)))}
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+                  >
+                    Select all
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(new Set())}
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+                  >
+                    Select none
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                {preview.operations.map((op) => (
+                  <label
+                    key={op.operation_id}
+                    className={`flex gap-3 p-2 bg-muted rounded text-sm ${op.error ? "opacity-60" : "cursor-pointer"}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(op.operation_id)}
+                      onChange={() => toggle(op.operation_id)}
+                      disabled={!!op.error}
+                      className="mt-1"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-card-foreground">{op.tool.name}</span>
+                        <span className="px-2 py-0.5 text-xs font-mono bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded">
+                          {op.method}
+                        </span>
+                        <span className="text-xs font-mono text-muted-foreground truncate">{op.path}</span>
+                        {op.exists && (
+                          <span className="text-xs text-amber-600 dark:text-amber-400">already exists</span>
+                        )}
+                      </div>
+                      {op.tool.description && (
+                        <p className="text-xs text-muted-foreground mt-0.5">{op.tool.description}</p>
+                      )}
+                      {op.tool.parameters.length > 0 && (
+                        <p className="text-xs text-muted-foreground mt-0.5 font-mono">
+                          ({op.tool.parameters.map((p) => `${p.name}${p.required ? "" : "?"}: ${p.type}`).join(", ")})
+                        </p>
+                      )}
+                      {op.warnings.map((w, i) => (
+                        <p key={i} className="text-xs text-amber-600 dark:text-amber-400 mt-0.5">{w}</p>
+                      ))}
+                      {op.error && <p className="text-xs text-destructive mt-0.5">{op.error}</p>}
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-1 text-sm">
+              <p className="font-medium text-green-600 dark:text-green-400">
+                Imported {result.created.length} tool{result.created.length !== 1 ? "s" : ""}
+              </p>
+              {result.skipped.map((s) => (
+                <p key={s.operation_id} className="text-xs text-muted-foreground">
+                  Skipped {s.operation_id}: {s.reason}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-border flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={onClose}>
+            Close
+          </Button>
+          {preview && (
+            <Button size="sm" onClick={handleImport} disabled={loading || selected.size === 0}>
+              Import {selected.size} Tool{selected.size !== 1 ? "s" : ""}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import React from "react";
+import yaml from "js-yaml";
+
+/** Step ids declared in workflow YAML (empty if it doesn't parse) */
+export function stepIdsOf(yamlContent: string): string[] {
+  try {
+    const raw = yaml.load(yamlContent) as { steps?: Array<{ id?: unknown }> } | null;
+    return (raw?.steps ?? []).map((s) => s?.id).filter((id): id is string => typeof id === "string");
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Pick where running executions go when the step they're on is removed:
+ * one select per removed step, offering the steps of the new YAML.
+ */
+export default function StepMigrationFields({
+  removedStepIds,
+  stepIds,
+  value,
+  onChange,
+}: {
+  removedStepIds: string[];
+  stepIds: string[];
+  value: Record<string, string>;
+  onChange: (value: Record<string, string>) => void;
+}) {
+  return (
+    <div className="rounded-md border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-950/20 p-3 space-y-2">
+      <p className="text-sm text-amber-900 dark:text-amber-300">
+        Running executions are on steps this version removes. Choose where each one should continue:
+      </p>
+      {removedStepIds.map((from) => (
+        <div key={from} className="flex items-center gap-2 text-sm">
+          <code className="font-mono text-xs">{from}</code>
+          <span className="text-muted-foreground">→</span>
+          <select
+            value={value[from] ?? ""}
+            onChange={(e) => {
+              const { [from]: _, ...rest } = value;
+              onChange(e.target.value ? { ...rest, [from]: e.target.value } : rest);
+            }}
+            className="px-2 py-1 text-sm border border-input rounded-md bg-background text-foreground"
+          >
+            <option value="">Choose a step...</option>
+            {stepIds.map((id) => (
+              <option key={id} value={id}>
+                {id}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,341 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { UrlToolArgs, UrlToolParameter, UrlToolParameterType, UrlToolTestResult } from "../lib/api";
+
+// Shared editors for URL tool parameters and request templates, used by both
+// the personal (Profile) and team URL tool forms.
+
+export interface KeyValuePair {
+  key: string;
+  value: string;
+}
+
+const PARAMETER_TYPES: UrlToolParameterType[] = ["string", "number", "integer", "boolean"];
+
+const inputClass =
+  "px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm";
+
+/** Convert key/value rows into a record, dropping blank keys */
+export function pairsToRecord(pairs: KeyValuePair[]): Record<string, string> | null {
+  const entries = pairs.filter((p) => p.key.trim()).map((p) => [p.key.trim(), p.value] as const);
+  return entries.length > 0 ? Object.fromEntries(entries) : null;
+}
+
+export function recordToPairs(record: Record<string, string> | null | undefined): KeyValuePair[] {
+  return record ? Object.entries(record).map(([key, value]) => ({ key, value })) : [];
+}
+
+interface UrlToolTemplateFieldsProps {
+  method: string;
+  parameters: UrlToolParameter[];
+  onParametersChange: (parameters: UrlToolParameter[]) => void;
+  queryParams: KeyValuePair[];
+  onQueryParamsChange: (pairs: KeyValuePair[]) => void;
+  bodyTemplate: string;
+  onBodyTemplateChange: (template: string) => void;
+}
+
+/**
+ * Form fields for a URL tool's typed parameters, query string templates and body template.
+ * Parameters are referenced in the URL, headers, query values and body as {name}.
+ */
+export function UrlToolTemplateFields({
+  method,
+  parameters,
+  onParametersChange,
+  queryParams,
+  onQueryParamsChange,
+  bodyTemplate,
+  onBodyTemplateChange,
+}: UrlToolTemplateFieldsProps) {
+  const updateParameter = (index: number, changes: Partial<UrlToolParameter>) => {
+    onParametersChange(parameters.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  const updateQueryParam = (index: number, field: "key" | "value", value: string) => {
+    onQueryParamsChange(queryParams.map((p, i) => (i === index ? { ...p, [field]: value } : p)));
+  };
+
+  const allowsBody = ["POST", "PUT", "PATCH"].includes(method.toUpperCase());
+
+  return (
+    <>
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-card-foreground">
+            Parameters (optional)
+          </label>
+          <button
+            type="button"
+            onClick={() => onParametersChange([...parameters, { name: "", type: "string", required: false }])}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+          >
+            + Add Parameter
+          </button>
+        </div>
+        <p className="text-xs text-muted-foreground mb-2">
+          Inputs the agent supplies when calling the tool. Reference them as{" "}
+          <code className="font-mono">{"{name}"}</code> in the URL, headers, query values or body.
+        </p>
+        {parameters.length > 0 && (
+          <div className="space-y-2">
+            {parameters.map((param, index) => (
+              <div key={index} className="flex gap-2 items-center">
+                <input
+                  type="text"
+                  value={param.name}
+                  onChange={(e) => updateParameter(index, { name: e.target.value })}
+                  placeholder="name"
+                  className={`w-32 font-mono ${inputClass}`}
+                />
+                <select
+                  value={param.type}
+                  onChange={(e) => updateParameter(index, { type: e.target.value as UrlToolParameterType })}
+                  className={inputClass}
+                >
+                  {PARAMETER_TYPES.map((t) => (
+                    <option key={t} value={t}>{t}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={param.description || ""}
+                  onChange={(e) => updateParameter(index, { description: e.target.value || undefined })}
+                  placeholder="Description for the agent"
+                  className={`flex-1 ${inputClass}`}
+                />
+                <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={param.required}
+                    onChange={(e) => updateParameter(index, { required: e.target.checked })}
+                  />
+                  Required
+                </label>
+                <button
+                  type="button"
+                  onClick={() => onParametersChange(parameters.filter((_, i) => i !== index))}
+                  className="px-3 py-2 text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 text-sm"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-card-foreground">
+            Query Parameters (optional)
+          </label>
+          <button
+            type="button"
+            onClick={() => onQueryParamsChange([...queryParams, { key: "", value: "" }])}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+          >
+            + Add Query Parameter
+          </button>
+        </div>
+        {queryParams.length > 0 && (
+          <div className="space-y-2">
+            {queryParams.map((pair, index) => (
+              <div key={index} className="flex gap-2">
+                <input
+                  type="text"
+                  value={pair.key}
+                  onChange={(e) => updateQueryParam(index, "key", e.target.value)}
+                  placeholder="Query key (e.g., q)"
+                  className={`flex-1 ${inputClass}`}
+                />
+                <input
+                  type="text"
+                  value={pair.value}
+                  onChange={(e) => updateQueryParam(index, "value", e.target.value)}
+                  placeholder="Value (e.g., {query})"
+                  className={`flex-1 font-mono ${inputClass}`}
+                />
+                <button
+                  type="button"
+                  onClick={() => onQueryParamsChange(queryParams.filter((_, i) => i !== index))}
+                  className="px-3 py-2 text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 text-sm"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {allowsBody && (
+        <div>
+          <label className="block text-sm font-medium text-card-foreground mb-2">
+            Body Template (optional)
+          </label>
+          <textarea
+            value={bodyTemplate}
+            onChange={(e) => onBodyTemplateChange(e.target.value)}
+            placeholder={'{"title": "{title}", "count": "{count}"}'}
+            rows={4}
+            className={`w-full font-mono ${inputClass}`}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            A quoted <code className="font-mono">"{"{name}"}"</code> is replaced with the typed JSON value.
+            Leave empty to send unused parameters as a JSON object.
+          </p>
+        </div>
+      )}
+    </>
+  );
+}
+
+/** Convert raw form input into a typed argument, or undefined when left blank */
+function coerceArg(type: UrlToolParameterType, raw: string): string | number | boolean | undefined {
+  if (raw === "") return undefined;
+  switch (type) {
+    case "number":
+    case "integer":
+      return Number(raw);
+    case "boolean":
+      return raw === "true";
+    default:
+      return raw;
+  }
+}
+
+interface UrlToolTestDialogProps {
+  tool: { name: string; parameters: UrlToolParameter[] };
+  onRun: (args: UrlToolArgs) => Promise<UrlToolTestResult>;
+  onClose: () => void;
+}
+
+/**
+ * Modal that collects sample arguments, runs the tool on the server and shows
+ * the rendered request alongside the response.
+ */
+export function UrlToolTestDialog({ tool, onRun, onClose }: UrlToolTestDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [running, setRunning] = useState(false);
+  const [outcome, setOutcome] = useState<UrlToolTestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setRunning(true);
+    setError(null);
+    setOutcome(null);
+
+    const args: UrlToolArgs = {};
+    for (const param of tool.parameters) {
+      const value = coerceArg(param.type, values[param.name] ?? "");
+      if (value !== undefined) args[param.name] = value;
+    }
+
+    try {
+      setOutcome(await onRun(args));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to run tool");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-card rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h3 className="font-semibold text-card-foreground">Test {tool.name}</h3>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground text-lg leading-none"
+          >
+            &times;
+          </button>
+        </div>
+        <form onSubmit={handleRun} className="p-4 overflow-y-auto flex-1 space-y-4">
+          {tool.parameters.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This tool takes no parameters.</p>
+          ) : (
+            <div className="space-y-2">
+              {tool.parameters.map((param) => (
+                <div key={param.name}>
+                  <label className="block text-sm font-medium text-card-foreground mb-1">
+                    <span className="font-mono">{param.name}</span>
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {param.type}{param.required ? ", required" : ""}
+                    </span>
+                  </label>
+                  {param.type === "boolean" ? (
+                    <select
+                      value={values[param.name] ?? ""}
+                      onChange={(e) => setValues({ ...values, [param.name]: e.target.value })}
+                      className={`w-full ${inputClass}`}
+                    >
+                      <option value="">(not set)</option>
+                      <option value="true">true</option>
+                      <option value="false">false</option>
+                    </select>
+                  ) : (
+                    <input
+                      type={param.type === "string" ? "text" : "number"}
+                      step={param.type === "integer" ? 1 : "any"}
+                      value={values[param.name] ?? ""}
+                      onChange={(e) => setValues({ ...values, [param.name]: e.target.value })}
+                      placeholder={param.description}
+                      required={param.required}
+                      className={`w-full ${inputClass}`}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Button type="submit" size="sm" disabled={running}>
+            {running ? "Running..." : "Run"}
+          </Button>
+
+          {error && (
+            <p className="text-sm text-muted-foreground bg-destructive/10 rounded p-3 font-mono">{error}</p>
+          )}
+
+          {outcome && (
+            <div className="space-y-3">
+              <div>
+                <p className="text-sm font-medium text-card-foreground mb-1">Request</p>
+                <pre className="text-xs bg-muted rounded p-3 overflow-x-auto whitespace-pre-wrap break-all">
+                  {`${outcome.request.method} ${outcome.request.url}`}
+                  {Object.entries(outcome.request.headers).map(([k, v]) => `\n${k}: ${v}`).join("")}
+                  {outcome.request.body ? `\n\n${outcome.request.body}` : ""}
+                </pre>
+              </div>
+              <div>
+                <p
+                  className={`text-sm font-medium mb-1 ${
+                    outcome.result.success ? "text-green-600 dark:text-green-400" : "text-destructive"
+                  }`}
+                >
+                  Response{outcome.result.status ? ` (HTTP ${outcome.result.status})` : ""}
+                </p>
+                <pre className="text-xs bg-muted rounded p-3 overflow-x-auto whitespace-pre-wrap break-all max-h-64">
+                  {outcome.result.success
+                    ? typeof outcome.result.data === "string"
+                      ? outcome.result.data
+                      : JSON.stringify(outcome.result.data, null, 2)
+                    : outcome.result.error}
+                </pre>
+              </div>
+            </div>
+          )}
+        </form>
+        <div className="p-4 border-t border-border flex justify-end">
+          <Button variant="outline" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from "react";
+import { api, type UsageRollup, type UsageSummary } from "../lib/api";
+
+type UsageTab = "agent" | "conversation" | "source" | "day";
+
+const TABS: { id: UsageTab; label: string }[] = [
+  { id: "agent", label: "By agent" },
+  { id: "conversation", label: "By conversation" },
+  { id: "source", label: "By source" },
+  { id: "day", label: "By day" },
+];
+
+const PERIODS = [7, 30, 90];
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "Chat",
+  scheduled: "Schedules",
+  mqtt: "MQTT",
+  email: "Email",
+  slack: "Slack",
+  discord: "Discord",
+  telegram: "Telegram",
+};
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? "<$0.01" : `$${usd.toFixed(2)}`;
+}
+
+function rollupLabel(tab: UsageTab, row: UsageRollup): string {
+  switch (tab) {
+    case "source":
+      return SOURCE_LABELS[row.key] ?? row.key;
+    case "conversation":
+      return row.label || (row.key === "deleted" ? "Deleted conversation" : `Conversation #${row.key}`);
+    case "agent":
+      return row.label || "Deleted agent";
+    default:
+      return row.key;
+  }
+}
+
+/**
+ * Dashboard card showing token usage and estimated cost, with rollups by
+ * agent, conversation, source and day.
+ */
+export function UsageWidget() {
+  const [days, setDays] = useState(30);
+  const [tab, setTab] = useState<UsageTab>("agent");
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [conversations, setConversations] = useState<UsageRollup[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    setConversations(null);
+    api.usage
+      .summary(days)
+      .then(setSummary)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load usage"));
+  }, [days]);
+
+  useEffect(() => {
+    if (tab !== "conversation" || conversations) return;
+    api.usage
+      .rollup("conversation", { days })
+      .then(setConversations)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load usage"));
+  }, [tab, days, conversations]);
+
+  const rows: UsageRollup[] =
+    tab === "conversation"
+      ? (conversations ?? []).slice(0, 10)
+      : tab === "agent"
+        ? summary?.by_agent ?? []
+        : tab === "source"
+          ? summary?.by_source ?? []
+          : (summary?.by_day ?? []).slice(0, 14);
+  const maxTokens = Math.max(1, ...rows.map((r) => r.input_tokens + r.output_tokens));
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-foreground">Usage</h2>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="px-2 py-1 border border-input rounded-md bg-background text-foreground text-sm"
+        >
+          {PERIODS.map((p) => (
+            <option key={p} value={p}>Last {p} days</option>
+          ))}
+          <option value={0}>All time</option>
+        </select>
+      </div>
+
+      <div className="bg-card rounded-lg shadow p-6 space-y-4">
+        {error ? (
+          <p className="text-sm text-muted-foreground">{error}</p>
+        ) : !summary ? (
+          <p className="text-sm text-muted-foreground">Loading usage...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-xs text-muted-foreground">Estimated cost</p>
+                <p className="text-2xl font-semibold text-card-foreground">{formatCost(summary.total.cost_usd)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Input tokens</p>
+                <p className="text-2xl font-semibold text-card-foreground">{formatTokens(summary.total.input_tokens)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Cached input</p>
+                <p className="text-2xl font-semibold text-card-foreground">{formatTokens(summary.total.cached_input_tokens)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Output tokens</p>
+                <p className="text-2xl font-semibold text-card-foreground">{formatTokens(summary.total.output_tokens)}</p>
+              </div>
+            </div>
+
+            <div className="flex gap-1 border-b border-border">
+              {TABS.map((t) => (
+                <button
+                  key={t.id}
+                  onClick={() => setTab(t.id)}
+                  className={`px-3 py-1.5 text-sm -mb-px border-b-2 ${
+                    tab === t.id
+                      ? "border-primary text-foreground"
+                      : "border-transparent text-muted-foreground hover:text-foreground"
+                  }`}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+
+            {rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No usage recorded in this period.</p>
+            ) : (
+              <div className="space-y-2">
+                {rows.map((row) => (
+                  <div key={row.key} className="text-sm">
+                    <div className="flex justify-between gap-4">
+                      <span className="truncate text-card-foreground">{rollupLabel(tab, row)}</span>
+                      <span className="shrink-0 text-muted-foreground">
+                        {formatTokens(row.input_tokens)} in / {formatTokens(row.output_tokens)} out · {formatCost(row.cost_usd)}
+                      </span>
+                    </div>
+                    <div className="h-1.5 bg-muted rounded mt-1">
+                      <div
+                        className="h-1.5 bg-primary rounded"
+                        style={{ width: `${((row.input_tokens + row.output_tokens) / maxTokens) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Costs are estimated from list prices; models without a known price (e.g. Ollama) count as $0.
+            </p>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
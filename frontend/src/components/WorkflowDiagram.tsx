@@ -25,15 +25,40 @@ interface FactDefinition {
   default?: unknown;
 }
 
+interface StepTransition {
+  when?: GateCondition[];
+  goto: string;
+  max_iterations?: number;
+}
+
+interface ActionDefinition {
+  tool: string;
+  args?: Record<string, unknown>;
+  result_facts?: Record<string, string>;
+}
+
+interface ApprovalDefinition {
+  message: string;
+  channel?: string;
+  destination?: string;
+  expires_in_hours?: number;
+}
+
 interface WorkflowStep {
   id: string;
+  type?: "conversation" | "action" | "approval";
+  action?: ActionDefinition;
+  approval?: ApprovalDefinition;
   name: string;
   description?: string;
   required_facts?: FactDefinition[];
   allowed_tools?: string | string[];
   gate?: Gate;
+  next?: StepTransition[];
 }
 
+type StepStatus = "pending" | "in_progress" | "completed" | "skipped" | "failed";
+
 interface WorkflowDef {
   name?: string;
   steps?: WorkflowStep[];
@@ -107,6 +132,29 @@ function isCrossStepRef(factRef: string): boolean {
   return factRef.includes(".");
 }
 
+/** Where a step goes when no rule matches: the next step in the list, or End */
+function fallThroughTarget(steps: WorkflowStep[], index: number): string {
+  return index + 1 < steps.length ? steps[index + 1]!.id : "end";
+}
+
+/** False when an unconditional, non-loop rule means the fall-through is never taken */
+function fallsThrough(steps: WorkflowStep[], index: number): boolean {
+  for (const t of steps[index]!.next ?? []) {
+    const targetIndex = steps.findIndex((s) => s.id === t.goto);
+    const loops = targetIndex !== -1 && targetIndex <= index;
+    if ((!t.when || t.when.length === 0) && !loops) return false;
+  }
+  return true;
+}
+
+const STATUS_BADGE: Record<StepStatus, string> = {
+  pending: "border-border text-muted-foreground",
+  in_progress: "border-blue-300 text-blue-600 dark:border-blue-700 dark:text-blue-400",
+  completed: "border-green-300 text-green-700 dark:border-green-700 dark:text-green-400",
+  skipped: "border-border text-muted-foreground line-through",
+  failed: "border-red-300 text-red-600 dark:border-red-700 dark:text-red-400",
+};
+
 // ── Sub-components ──────────────────────────────────────────────────────
 
 function Connector({ children }: { children?: React.ReactNode }) {
@@ -176,20 +224,111 @@ function GateNode({ gate }: { gate: Gate }) {
   );
 }
 
+function TargetLabel({ target, steps }: { target: string; steps: WorkflowStep[] }) {
+  if (target === "end") {
+    return <span className="font-semibold uppercase tracking-wider text-primary/70">End</span>;
+  }
+  const index = steps.findIndex((s) => s.id === target);
+  return (
+    <span className="font-medium text-foreground/90">
+      {index !== -1 && <span className="text-muted-foreground">{index + 1}. </span>}
+      {steps[index]?.name ?? target}
+    </span>
+  );
+}
+
+function BranchNode({ steps, index }: { steps: WorkflowStep[]; index: number }) {
+  const rules = steps[index]!.next ?? [];
+  return (
+    <div className="w-[340px] border border-dashed border-sky-400 dark:border-sky-500/60 rounded-lg bg-sky-50/60 dark:bg-sky-950/20 px-3 py-2">
+      <div className="text-[10px] font-semibold uppercase tracking-wider text-sky-700 dark:text-sky-400 mb-1">
+        Next
+      </div>
+      <ul className="space-y-1">
+        {rules.map((rule, i) => {
+          const targetIndex = steps.findIndex((s) => s.id === rule.goto);
+          const loops = targetIndex !== -1 && targetIndex <= index;
+          return (
+            <li key={i} className="text-[11px] text-muted-foreground">
+              <span>
+                {rule.when && rule.when.length > 0 ? (
+                  <>
+                    if{" "}
+                    {rule.when.map((cond, j) => (
+                      <React.Fragment key={j}>
+                        {j > 0 && " and "}
+                        <code
+                          className={
+                            isCrossStepRef(cond.fact)
+                              ? "text-purple-600 dark:text-purple-400 font-medium"
+                              : "text-foreground/80 font-medium"
+                          }
+                        >
+                          {cond.fact}
+                        </code>{" "}
+                        {formatOperator(cond.operator, cond.value)}
+                      </React.Fragment>
+                    ))}
+                  </>
+                ) : (
+                  "always"
+                )}
+              </span>{" "}
+              <span className={loops ? "text-sky-600 dark:text-sky-400" : ""}>{loops ? "↺" : "→"}</span>{" "}
+              <TargetLabel target={rule.goto} steps={steps} />
+              {loops && (
+                <Badge
+                  variant="outline"
+                  className="ml-1.5 text-[9px] px-1 py-0 border-sky-300 text-sky-600 dark:border-sky-700 dark:text-sky-400"
+                >
+                  max {rule.max_iterations ?? "?"}×
+                </Badge>
+              )}
+            </li>
+          );
+        })}
+        {fallsThrough(steps, index) && (
+          <li className="text-[11px] text-muted-foreground">
+            otherwise → <TargetLabel target={fallThroughTarget(steps, index)} steps={steps} />
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
 function StepNode({
   step,
   index,
   total,
+  status,
+  active,
 }: {
   step: WorkflowStep;
   index: number;
   total: number;
+  status?: StepStatus;
+  active?: boolean;
 }) {
   const facts = step.required_facts ?? [];
+  const action = step.type === "action" ? step.action : undefined;
+  const approval = step.type === "approval" ? step.approval : undefined;
   return (
-    <div className="relative w-[340px] border rounded-lg bg-card shadow-sm overflow-hidden">
+    <div
+      className={`relative w-[340px] border rounded-lg bg-card shadow-sm overflow-hidden ${
+        active ? "ring-2 ring-blue-500 ring-offset-2 ring-offset-background" : ""
+      } ${status === "pending" || status === "skipped" ? "opacity-60" : ""}`}
+    >
       {/* Step header */}
-      <div className="px-4 py-2.5 border-b bg-muted/40 flex items-center gap-2">
+      <div
+        className={
+          action
+            ? "px-4 py-2.5 border-b bg-emerald-50 dark:bg-emerald-950/30 flex items-center gap-2"
+            : approval
+              ? "px-4 py-2.5 border-b bg-amber-50 dark:bg-amber-950/30 flex items-center gap-2"
+              : "px-4 py-2.5 border-b bg-muted/40 flex items-center gap-2"
+        }
+      >
         <span className="inline-flex items-center justify-center w-5 h-5 rounded-full bg-primary text-primary-foreground text-[10px] font-bold shrink-0">
           {index + 1}
         </span>
@@ -201,6 +340,27 @@ function StepNode({
             {step.id}
           </div>
         </div>
+        {action && (
+          <Badge
+            variant="outline"
+            className="text-[9px] px-1 py-0 border-emerald-300 text-emerald-700 dark:border-emerald-700 dark:text-emerald-400"
+          >
+            action
+          </Badge>
+        )}
+        {approval && (
+          <Badge
+            variant="outline"
+            className="text-[9px] px-1 py-0 border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-400"
+          >
+            approval
+          </Badge>
+        )}
+        {status && (
+          <Badge variant="outline" className={`text-[9px] px-1 py-0 ${STATUS_BADGE[status]}`}>
+            {status.replace("_", " ")}
+          </Badge>
+        )}
       </div>
 
       {/* Step body */}
@@ -211,6 +371,46 @@ function StepNode({
           </p>
         )}
 
+        {/* Tool call (action steps) */}
+        {action && (
+          <div className="space-y-1">
+            <div className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">
+              Calls
+            </div>
+            <code className="text-xs font-medium text-emerald-700 dark:text-emerald-400">{action.tool}</code>
+            {Object.entries(action.args ?? {}).map(([name, value]) => (
+              <div key={name} className="text-[11px] text-muted-foreground truncate">
+                <code className="text-foreground/80">{name}</code>: {typeof value === "string" ? value : JSON.stringify(value)}
+              </div>
+            ))}
+            {Object.entries(action.result_facts ?? {}).map(([fact, path]) => (
+              <div key={fact} className="flex items-center gap-1.5 text-xs">
+                <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 dark:bg-emerald-500 shrink-0" />
+                <code className="font-medium text-foreground/90">{fact}</code>
+                <span className="text-[10px] text-muted-foreground">← result{path ? `.${path}` : ""}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Sign-off (approval steps) */}
+        {approval && (
+          <div className="space-y-1">
+            <div className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">
+              Waits for sign-off
+            </div>
+            <p className="text-[11px] text-muted-foreground line-clamp-2">{approval.message}</p>
+            <div className="text-[10px] text-muted-foreground">
+              via {approval.channel ? `${approval.channel}${approval.destination ? ` (${approval.destination})` : ""}` : "all channels"}
+              {" · "}expires after {approval.expires_in_hours ?? 72}h
+            </div>
+            <div className="flex items-center gap-1.5 text-xs">
+              <span className="w-1.5 h-1.5 rounded-full bg-amber-400 dark:bg-amber-500 shrink-0" />
+              <span className="text-[10px] text-muted-foreground">records decision, decided_by, decided_at, comment</span>
+            </div>
+          </div>
+        )}
+
         {/* Facts */}
         {facts.length > 0 && (
           <div>
@@ -245,10 +445,12 @@ function StepNode({
         )}
 
         {/* Tools */}
-        <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
-          <span className="font-semibold uppercase tracking-wider">Tools:</span>
-          <span>{formatTools(step.allowed_tools)}</span>
-        </div>
+        {!action && !approval && (
+          <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+            <span className="font-semibold uppercase tracking-wider">Tools:</span>
+            <span>{formatTools(step.allowed_tools)}</span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -266,9 +468,13 @@ function TerminalNode({ label }: { label: string }) {
 
 interface WorkflowDiagramProps {
   yamlContent: string;
+  /** Status of each step in an execution, shown as a badge on its card */
+  stepStatuses?: Record<string, StepStatus>;
+  /** Step to highlight, e.g. where an execution currently is */
+  activeStepId?: string;
 }
 
-export default function WorkflowDiagram({ yamlContent }: WorkflowDiagramProps) {
+export default function WorkflowDiagram({ yamlContent, stepStatuses, activeStepId }: WorkflowDiagramProps) {
   const def = parseYaml(yamlContent);
 
   if (!def || !def.steps || def.steps.length === 0) {
@@ -296,7 +502,13 @@ export default function WorkflowDiagram({ yamlContent }: WorkflowDiagramProps) {
             <Connector />
 
             {/* Step card */}
-            <StepNode step={step} index={idx} total={steps.length} />
+            <StepNode
+              step={step}
+              index={idx}
+              total={steps.length}
+              status={stepStatuses?.[step.id]}
+              active={step.id === activeStepId}
+            />
 
             {/* Gate between steps (or before end) */}
             {step.gate && step.gate.conditions.length > 0 && (
@@ -305,6 +517,14 @@ export default function WorkflowDiagram({ yamlContent }: WorkflowDiagramProps) {
                 <GateNode gate={step.gate} />
               </>
             )}
+
+            {/* Branching rules */}
+            {step.next && step.next.length > 0 && (
+              <>
+                <div className="w-px h-6 bg-border" />
+                <BranchNode steps={steps} index={idx} />
+              </>
+            )}
           </React.Fragment>
         ))}
 
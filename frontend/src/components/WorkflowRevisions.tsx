@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { api, ApiError, type Workflow, type WorkflowRevision } from "../lib/api";
+import { diffLines } from "../lib/diff";
+import StepMigrationFields, { stepIdsOf } from "./StepMigrationFields";
+
+const LINE_CLASS = {
+  same: "text-muted-foreground",
+  added: "bg-green-50 dark:bg-green-950/30 text-green-800 dark:text-green-300",
+  removed: "bg-red-50 dark:bg-red-950/30 text-red-800 dark:text-red-300",
+};
+
+const LINE_PREFIX = { same: " ", added: "+", removed: "-" };
+
+/** Saved revisions of a workflow, a diff between any two, and rollback to an earlier one */
+export default function WorkflowRevisions({
+  workflow,
+  onRolledBack,
+}: {
+  workflow: Workflow;
+  onRolledBack: () => void;
+}) {
+  const [revisions, setRevisions] = useState<WorkflowRevision[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [base, setBase] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+  const [removedStepIds, setRemovedStepIds] = useState<string[]>([]);
+  const [stepMigrations, setStepMigrations] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadRevisions();
+  }, [workflow.id, workflow.revision]);
+
+  const loadRevisions = async () => {
+    try {
+      setLoading(true);
+      const data = await api.workflows.listRevisions(workflow.id);
+      setRevisions(data);
+      selectRevision(data, data[0]?.revision ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Compare against the revision before it by default
+  const selectRevision = (list: WorkflowRevision[], revision: number | null) => {
+    setSelected(revision);
+    setBase(list.find((r) => revision !== null && r.revision < revision)?.revision ?? null);
+    setRemovedStepIds([]);
+    setStepMigrations({});
+    setError(null);
+  };
+
+  const handleRollback = async (revision: WorkflowRevision) => {
+    if (!removedStepIds.length && !confirm(`Roll back to revision ${revision.revision}? It will be saved as a new revision.`)) {
+      return;
+    }
+    try {
+      setRollingBack(true);
+      setError(null);
+      await api.workflows.rollback(
+        workflow.id,
+        revision.revision,
+        removedStepIds.length ? stepMigrations : undefined
+      );
+      onRolledBack();
+    } catch (err) {
+      if (err instanceof ApiError && Array.isArray(err.data.removed_step_ids)) {
+        setRemovedStepIds(err.data.removed_step_ids as string[]);
+        setError(String(err.data.details ?? err.message));
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to roll back");
+      }
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  if (loading && revisions.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">Loading history...</p>;
+  }
+
+  const current = revisions.find((r) => r.revision === selected);
+  const compared = revisions.find((r) => r.revision === base);
+  const lines = current ? diffLines(compared?.yaml_content ?? "", current.yaml_content) : [];
+
+  return (
+    <div className="space-y-4 mt-2">
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="divide-y divide-border rounded-md border border-border">
+        {revisions.map((revision) => (
+          <button
+            key={revision.id}
+            className={`w-full flex items-center gap-2 px-3 py-2 text-left text-sm transition-colors hover:bg-muted ${
+              selected === revision.revision ? "bg-muted" : ""
+            }`}
+            onClick={() => selectRevision(revisions, revision.revision)}
+          >
+            <span className="font-medium">Revision {revision.revision}</span>
+            <Badge variant="secondary">v{revision.version}</Badge>
+            {revision.revision === workflow.revision && <Badge>Current</Badge>}
+            <span className="ml-auto text-xs text-muted-foreground">
+              {new Date(revision.created_at).toLocaleString()}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {current && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span>Compare with</span>
+            <select
+              value={base ?? ""}
+              onChange={(e) => setBase(e.target.value ? parseInt(e.target.value) : null)}
+              className="px-2 py-1 text-sm border border-input rounded-md bg-background text-foreground"
+            >
+              <option value="">(nothing)</option>
+              {revisions
+                .filter((r) => r.revision !== current.revision)
+                .map((r) => (
+                  <option key={r.id} value={r.revision}>
+                    Revision {r.revision}
+                  </option>
+                ))}
+            </select>
+            {current.revision !== workflow.revision && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="ml-auto"
+                disabled={rollingBack || removedStepIds.some((id) => !stepMigrations[id])}
+                onClick={() => handleRollback(current)}
+              >
+                {rollingBack ? "Rolling back..." : `Roll back to revision ${current.revision}`}
+              </Button>
+            )}
+          </div>
+
+          {removedStepIds.length > 0 && (
+            <StepMigrationFields
+              removedStepIds={removedStepIds}
+              stepIds={stepIdsOf(current.yaml_content)}
+              value={stepMigrations}
+              onChange={setStepMigrations}
+            />
+          )}
+
+          <pre className="text-xs font-mono bg-muted rounded overflow-x-auto py-2">
+            {lines.map((line, i) => (
+              <div key={i} className={`px-3 whitespace-pre-wrap ${LINE_CLASS[line.type]}`}>
+                {LINE_PREFIX[line.type]} {line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
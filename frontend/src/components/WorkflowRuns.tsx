@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  api,
+  type Workflow,
+  type WorkflowExecutionDetail,
+  type WorkflowExecutionStatus,
+  type WorkflowExecutionSummary,
+  type WorkflowTimelineEvent,
+} from "../lib/api";
+import WorkflowDiagram from "./WorkflowDiagram";
+
+function statusVariant(status: WorkflowExecutionStatus) {
+  switch (status) {
+    case "completed": return "default" as const;
+    case "failed":
+    case "timed_out": return "destructive" as const;
+    case "cancelled": return "outline" as const;
+    default: return "secondary" as const;
+  }
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function TimelineEntry({ event, stepName }: { event: WorkflowTimelineEvent; stepName: string }) {
+  switch (event.type) {
+    case "started":
+      return <span className="font-medium">Started</span>;
+
+    case "finished":
+      return <span className="font-medium">Finished: {event.status.replace("_", " ")}</span>;
+
+    case "fact":
+      return (
+        <span>
+          <code className="font-medium text-foreground/90">{stepName}.{event.name}</code>
+          {" = "}
+          <span className="break-all">{formatValue(event.value)}</span>{" "}
+          <Badge variant="outline" className="text-[9px] px-1 py-0 font-normal">
+            {event.source}
+          </Badge>
+        </span>
+      );
+
+    case "gate": {
+      const { attempt } = event;
+      return (
+        <div className="space-y-1">
+          <div>
+            Gate for <span className="font-medium">{stepName}</span>{" "}
+            <Badge
+              variant={attempt.outcome === "advanced" ? "default" : attempt.outcome === "aborted" ? "destructive" : "secondary"}
+              className="text-[9px] px-1 py-0"
+            >
+              {attempt.outcome}
+            </Badge>
+          </div>
+          {attempt.gate_details.length > 0 ? (
+            <ul className="space-y-0.5">
+              {attempt.gate_details.map((detail, i) => (
+                <li key={i} className="text-xs text-muted-foreground flex items-start gap-1">
+                  <span className={detail.passed ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}>
+                    {detail.passed ? "✓" : "✗"}
+                  </span>
+                  <span>
+                    {detail.message}
+                    {detail.actual_value !== undefined && <> (was {formatValue(detail.actual_value)})</>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            attempt.gate_failures.map((failure, i) => (
+              <p key={i} className="text-xs text-red-600 dark:text-red-400">{failure}</p>
+            ))
+          )}
+          {attempt.verifier_approved !== null && (
+            <p className="text-xs text-muted-foreground">
+              Verifier {attempt.verifier_approved ? "approved" : "rejected"}: {attempt.verifier_reasoning}
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    case "approval_requested":
+      return (
+        <span>
+          Approval requested for <span className="font-medium">{stepName}</span>
+          <span className="block text-xs text-muted-foreground whitespace-pre-wrap">{event.message}</span>
+        </span>
+      );
+
+    case "approval_decided":
+      return (
+        <span>
+          Approval {event.status}
+          {event.decided_by && <> by {event.decided_by}</>}
+          {event.decided_via === "link" && <> via link</>}
+          {event.comment && <span className="text-muted-foreground"> — “{event.comment}”</span>}
+        </span>
+      );
+  }
+}
+
+/** Past and current executions of a workflow, with a timeline of each */
+export default function WorkflowRuns({ workflow }: { workflow: Workflow }) {
+  const [executions, setExecutions] = useState<WorkflowExecutionSummary[]>([]);
+  const [selected, setSelected] = useState<WorkflowExecutionDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [acting, setActing] = useState(false);
+  const [restartStep, setRestartStep] = useState("");
+
+  useEffect(() => {
+    loadExecutions();
+  }, [workflow.id]);
+
+  const loadExecutions = async () => {
+    try {
+      setLoading(true);
+      setExecutions(await api.workflows.listExecutions(workflow.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load runs");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectExecution = async (id: number) => {
+    if (selected?.execution.id === id) {
+      setSelected(null);
+      return;
+    }
+    try {
+      setError(null);
+      setNotice(null);
+      setRestartStep("");
+      setSelected(await api.workflows.getExecution(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load run");
+    }
+  };
+
+  const runAction = async (action: (id: number) => Promise<{ message: string }>) => {
+    if (!selected) return;
+    const id = selected.execution.id;
+    try {
+      setActing(true);
+      setError(null);
+      const result = await action(id);
+      setNotice(result.message);
+      setSelected(await api.workflows.getExecution(id));
+      await loadExecutions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update run");
+    } finally {
+      setActing(false);
+    }
+  };
+
+  if (loading && executions.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">Loading runs...</p>;
+  }
+
+  const stepNames = Object.fromEntries((selected?.steps ?? []).map((s) => [s.id, s.name]));
+  const running = selected && (selected.execution.status === "in_progress" || selected.execution.status === "awaiting_approval");
+
+  return (
+    <div className="space-y-4 mt-2">
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
+
+      {executions.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">This workflow hasn't run yet</p>
+      ) : (
+        <div className="divide-y divide-border rounded-md border border-border">
+          {executions.map((execution) => (
+            <button
+              key={execution.id}
+              className={`w-full flex items-center gap-2 px-3 py-2 text-left text-sm transition-colors hover:bg-muted ${
+                selected?.execution.id === execution.id ? "bg-muted" : ""
+              }`}
+              onClick={() => selectExecution(execution.id)}
+            >
+              <Badge variant={statusVariant(execution.status)}>{execution.status.replace("_", " ")}</Badge>
+              <span className="font-medium">{execution.agent_name}</span>
+              <span className="text-muted-foreground truncate">
+                {execution.conversation_title || `Conversation #${execution.conversation_id}`}
+              </span>
+              <span className="ml-auto text-xs text-muted-foreground shrink-0">
+                {new Date(execution.started_at).toLocaleString()}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="flex flex-wrap items-center gap-2">
+          {running && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={acting}
+              onClick={() => runAction((id) => api.workflows.cancelExecution(id))}
+            >
+              Cancel run
+            </Button>
+          )}
+          {selected.execution.status === "timed_out" && (
+            <Button size="sm" disabled={acting} onClick={() => runAction((id) => api.workflows.resumeExecution(id))}>
+              Resume
+            </Button>
+          )}
+          <select
+            value={restartStep}
+            onChange={(e) => setRestartStep(e.target.value)}
+            className="px-2 py-1 text-sm border border-input rounded-md bg-background text-foreground"
+          >
+            <option value="">Restart from step...</option>
+            {selected.steps.map((step, i) => (
+              <option key={step.id} value={step.id}>
+                {i + 1}. {step.name}
+              </option>
+            ))}
+          </select>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={acting || !restartStep}
+            onClick={() => runAction((id) => api.workflows.restartExecution(id, restartStep))}
+          >
+            Restart
+          </Button>
+        </div>
+      )}
+
+      {selected && (
+        <div className="grid gap-4 lg:grid-cols-2">
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Timeline</h3>
+            <ol className="border-l border-border ml-1.5 space-y-3">
+              {selected.timeline.map((event, i) => (
+                <li key={i} className="relative pl-4 text-sm">
+                  <span className="absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full bg-border" />
+                  <div className="text-[10px] text-muted-foreground">{new Date(event.at).toLocaleString()}</div>
+                  <TimelineEntry event={event} stepName={stepNames[event.step_id] ?? event.step_id} />
+                </li>
+              ))}
+            </ol>
+          </div>
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Steps</h3>
+            <WorkflowDiagram
+              yamlContent={selected.revision?.yaml_content ?? selected.workflow.yaml_content}
+              stepStatuses={Object.fromEntries(selected.steps.map((s) => [s.id, s.status]))}
+              activeStepId={running ? selected.execution.current_step_id : undefined}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
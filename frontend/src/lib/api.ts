@@ -12,11 +12,27 @@ export interface AgentMemory {
   key: string;
   value: string;
   tier: "core" | "working" | "reference";
-  author: "user" | "agent";
+  author: "user" | "agent" | "consolidator";
   access_count: number;
   last_accessed_at: number;
   created_at: string;
   updated_at: string;
+  /** Hybrid search relevance in [0, 1] (search results only) */
+  score?: number;
+}
+
+/** A change made by background memory consolidation */
+export interface MemoryChange {
+  id: number;
+  conversation_id: number | null;
+  action: "created" | "updated" | "removed";
+  memory_key: string;
+  value: string | null;
+  previous: { value: string; tier: string; author: string } | null;
+  merged_into: string | null;
+  reason: string | null;
+  reverted_at: string | null;
+  created_at: string;
 }
 
 export interface MemoryCounts {
@@ -25,6 +41,15 @@ export interface MemoryCounts {
   reference: number;
 }
 
+/** How an agent ranks memory search results; fields left out keep their defaults */
+export interface MemorySearchSettings {
+  keyword_weight?: number;
+  vector_weight?: number;
+  frequency_weight?: number;
+  recency_weight?: number;
+  recency_half_life_days?: number;
+}
+
 // Skills types
 export interface Skill {
   id: number;
@@ -59,6 +84,8 @@ export interface Schedule {
   author: "user" | "agent";
   notifier: NotifierChannel | null;
   notifier_destination: string | null;
+  workflow_id: number | null;
+  workflow_facts: Record<string, string>;
   enabled: boolean;
   next_run_at: number | null;
   last_run_at: number | null;
@@ -90,9 +117,52 @@ export interface AppNotification {
   created_at: string;
 }
 
+export type WebhookTemplate = "generic" | "slack" | "discord" | "ntfy";
+
+export const WEBHOOK_TEMPLATE_LABELS: Record<WebhookTemplate, string> = {
+  generic: "Generic JSON",
+  slack: "Slack",
+  discord: "Discord",
+  ntfy: "ntfy",
+};
+
 export interface WebhookConfig {
   url: string;
   name: string;
+  template?: WebhookTemplate;
+  /** Set by the server; send "" to rotate it */
+  secret?: string;
+}
+
+export interface NotificationDeliveryAttempt {
+  id: number;
+  delivery_id: number;
+  attempt: number;
+  destination: string | null;
+  request_url: string | null;
+  request_body: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  error_message: string | null;
+  duration_ms: number;
+  created_at: string;
+}
+
+export interface NotificationDelivery {
+  id: number;
+  notification_id: number;
+  channel: "email" | "webhook" | "pushover";
+  destination: string | null;
+  /** held = waiting for a digest */
+  status: "pending" | "held" | "sent" | "failed" | "dropped";
+  held_reason: "quiet_hours" | "digest" | "rate_limit" | null;
+  error_message: string | null;
+  attempts: number;
+  next_attempt_at: string | null;
+  created_at: string;
+  delivered_at: string | null;
+  notification: AppNotification;
+  attempt_log: NotificationDeliveryAttempt[];
 }
 
 // Workflows types
@@ -103,12 +173,40 @@ export interface Workflow {
   description: string | null;
   yaml_content: string;
   version: string;
+  revision: number;
   tags: string[];
   timeout_minutes: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface WorkflowRevision {
+  id: number;
+  workflow_id: number;
+  revision: number;
+  version: string;
+  yaml_content: string;
+  created_at: string;
+}
+
+/** Result of saving a workflow's YAML (an edit or a rollback) */
+export interface SaveWorkflowResult {
+  workflow: Workflow;
+  /** Running executions moved onto the new revision by step_migrations */
+  migrated_executions: number;
+}
+
+/** Shared steps that workflow definitions pull in with `- include: name` */
+export interface WorkflowStepTemplate {
+  id: number;
+  user_id: number;
+  name: string;
+  description: string | null;
+  yaml_content: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface WorkflowDefinitionSummary {
   name: string;
   description: string;
@@ -138,6 +236,110 @@ export interface AgentWorkflowAssignment {
   workflow: Workflow;
 }
 
+export type WorkflowApprovalStatus = "pending" | "approved" | "rejected" | "expired" | "cancelled";
+
+export interface WorkflowApproval {
+  id: number;
+  execution_id: number;
+  step_id: string;
+  step_name: string;
+  workflow_name: string;
+  agent_id: number;
+  conversation_id: number;
+  message: string;
+  status: WorkflowApprovalStatus;
+  decided_by: string | null;
+  decided_via: "app" | "link" | null;
+  comment: string | null;
+  expires_at: number;
+  decided_at: number | null;
+  created_at: string;
+}
+
+export type WorkflowExecutionStatus =
+  | "in_progress"
+  | "awaiting_approval"
+  | "completed"
+  | "failed"
+  | "timed_out"
+  | "cancelled";
+export type WorkflowStepStatus = "pending" | "in_progress" | "completed" | "skipped" | "failed";
+export type WorkflowFactSource = "conversation" | "tool" | "default" | "verifier" | "approval" | "trigger" | "workflow";
+
+export interface WorkflowExecutionSummary {
+  id: number;
+  workflow_id: number;
+  conversation_id: number;
+  current_step_index: number;
+  current_step_id: string;
+  status: WorkflowExecutionStatus;
+  started_at: number;
+  completed_at: number | null;
+  deadline_at: number | null;
+  step_deadline_at: number | null;
+  /** Set on executions a `uses` step started, pointing at the step that runs them */
+  parent_execution_id: number | null;
+  parent_step_id: string | null;
+  agent_slug: string;
+  agent_name: string;
+  conversation_title: string | null;
+}
+
+export interface WorkflowStepAttempt {
+  id: number;
+  step_id: string;
+  outcome: "advanced" | "retry" | "skipped" | "aborted";
+  gate_passed: boolean;
+  gate_failures: string[];
+  gate_details: Array<{
+    condition: { fact: string; operator: string; value?: unknown; message?: string };
+    passed: boolean;
+    actual_value?: unknown;
+    message: string;
+  }>;
+  verifier_approved: boolean | null;
+  verifier_reasoning: string | null;
+  evaluated_at: number;
+}
+
+export type WorkflowExecutionApproval = Omit<WorkflowApproval, "workflow_name">;
+
+export interface WorkflowStepHistory {
+  id: string;
+  name: string;
+  type: "conversation" | "action" | "approval";
+  status: WorkflowStepStatus;
+  facts: Array<{ fact_name: string; fact_value: unknown; source: WorkflowFactSource; collected_at: number }>;
+  attempts: WorkflowStepAttempt[];
+  approvals: WorkflowExecutionApproval[];
+}
+
+export type WorkflowTimelineEvent =
+  | { type: "started"; at: number; step_id: string }
+  | { type: "fact"; at: number; step_id: string; name: string; value: unknown; source: WorkflowFactSource }
+  | { type: "gate"; at: number; step_id: string; attempt: WorkflowStepAttempt }
+  | { type: "approval_requested"; at: number; step_id: string; approval_id: number; message: string }
+  | {
+      type: "approval_decided";
+      at: number;
+      step_id: string;
+      approval_id: number;
+      status: WorkflowApprovalStatus;
+      decided_by: string | null;
+      decided_via: "app" | "link" | null;
+      comment: string | null;
+    }
+  | { type: "finished"; at: number; step_id: string; status: WorkflowExecutionStatus };
+
+export interface WorkflowExecutionDetail {
+  execution: Omit<WorkflowExecutionSummary, "agent_slug" | "agent_name" | "conversation_title">;
+  workflow: Workflow;
+  /** The revision the execution is pinned to */
+  revision: WorkflowRevision | null;
+  steps: WorkflowStepHistory[];
+  timeline: WorkflowTimelineEvent[];
+}
+
 export interface WorkflowBuilderMessage {
   role: "user" | "assistant";
   content: string;
@@ -152,11 +354,122 @@ export interface GenerateWorkflowResult {
   model?: string;
 }
 
+export type UrlToolParameterType = "string" | "number" | "integer" | "boolean";
+
+export interface UrlToolParameter {
+  name: string;
+  type: UrlToolParameterType;
+  description?: string;
+  required: boolean;
+}
+
+/** Parameter and request template fields shared by personal and team URL tools */
+export interface UrlToolTemplateFields {
+  parameters?: UrlToolParameter[];
+  query_params?: Record<string, string> | null;
+  body_template?: string | null;
+}
+
+export interface UrlToolTestResult {
+  request: {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  result: {
+    success: boolean;
+    status?: number;
+    data?: unknown;
+    error?: string;
+  };
+}
+
+export type UrlToolArgs = Record<string, string | number | boolean>;
+
+export interface OpenApiSecurityScheme {
+  name: string;
+  type: "apiKey" | "http" | "oauth2" | "openIdConnect";
+  in?: "header" | "query" | "cookie";
+  param_name?: string;
+  scheme?: string;
+  description?: string;
+}
+
+export interface OpenApiOperationPreview {
+  operation_id: string;
+  method: string;
+  path: string;
+  summary?: string;
+  security: string[];
+  tool: {
+    name: string;
+    description?: string;
+    url: string;
+    method: string;
+    headers: Record<string, string> | null;
+    parameters: UrlToolParameter[];
+    query_params: Record<string, string> | null;
+    body_template: string | null;
+  };
+  warnings: string[];
+  error?: string;
+  exists?: boolean;
+}
+
+export interface OpenApiImportPreview {
+  title: string;
+  version?: string;
+  base_url: string;
+  security_schemes: OpenApiSecurityScheme[];
+  operations: OpenApiOperationPreview[];
+}
+
+export interface OpenApiImportRequest {
+  spec: string;
+  base_url?: string;
+  operation_ids?: string[];
+  auth?: { scheme: string; secret: string } | null;
+}
+
+export interface OpenApiImportResult {
+  created: Array<{ id: number; name: string }>;
+  skipped: Array<{ operation_id: string; reason: string }>;
+}
+
 export interface EmailConfig {
   name: string;
   email: string;
 }
 
+/** How notification emails are sent, as the settings API returns it (secrets masked) */
+export type MailTransport =
+  | {
+      type: "smtp";
+      host: string;
+      port: number;
+      security: "starttls" | "tls" | "none";
+      username: string | null;
+      has_password: boolean;
+      from: string;
+    }
+  | { type: "http"; url: string; has_api_key: boolean; from: string }
+  | { type: "file"; mailbox: string; from: string };
+
+/** A mail transport to save; a password or API key left out keeps the stored one */
+export interface MailTransportInput {
+  type: MailTransport["type"];
+  from: string;
+  host?: string;
+  port?: number;
+  security?: "starttls" | "tls" | "none";
+  username?: string | null;
+  password?: string;
+  url?: string;
+  api_key?: string;
+  mailbox?: string;
+}
+
 export interface NotificationSettings {
   id: number;
   user_id: number;
@@ -167,17 +480,270 @@ export interface NotificationSettings {
   pushover_user_key: string | null;
   pushover_api_token: string | null;
   pushover_enabled: boolean;
+  mail_transport: MailTransport | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Local "HH:MM" times in the user's timezone */
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+export interface NotificationRatePolicy {
+  /** null = agents without a policy of their own */
+  agent_id: number | null;
+  channels: NotificationDelivery["channel"][];
+  max_per_hour: number;
+  overflow: "delay" | "digest" | "drop";
+}
+
+export const RATE_OVERFLOW_LABELS: Record<NotificationRatePolicy["overflow"], string> = {
+  delay: "Wait",
+  digest: "Add to digest",
+  drop: "Drop",
+};
+
+/** The user's own settings also hold quiet hours, digests and rate policies */
+export interface UserNotificationSettings extends NotificationSettings {
+  quiet_hours: QuietHours | null;
+  digest_schedule: Partial<Record<NotificationDelivery["channel"], string[]>>;
+  rate_policies: NotificationRatePolicy[];
+}
+
+export type ChatPlatform = "slack" | "discord" | "telegram";
+
+export const CHAT_PLATFORM_LABELS: Record<ChatPlatform, string> = {
+  slack: "Slack",
+  discord: "Discord",
+  telegram: "Telegram",
+};
+
+export interface ChatChannelRoute {
+  platform_channel_id: string;
+  agent_id: number;
+}
+
+export interface ChatChannel {
+  id: number;
+  user_id: number;
+  platform: ChatPlatform;
+  name: string;
+  agent_id: number;
+  routes: ChatChannelRoute[];
+  allowed_user_ids: string[];
+  has_bot_token: boolean;
+  has_signing_secret: boolean;
+  application_id: string | null;
+  public_key: string | null;
+  enabled: boolean;
+  inbound_url: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChatChannelInput {
+  platform?: ChatPlatform;
+  name?: string;
+  agent_id?: number;
+  routes?: ChatChannelRoute[];
+  allowed_user_ids?: string[];
+  bot_token?: string;
+  signing_secret?: string;
+  application_id?: string;
+  public_key?: string;
+  enabled?: boolean;
+}
+
+export interface EmailInbox {
+  id: number;
+  user_id: number;
+  alias: string;
+  agent_id: number;
+  allowed_senders: string[];
+  enabled: boolean;
+  /** Null until the server has an inbound email domain */
+  address: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChatConversation {
+  id: number;
+  user_id: number;
+  agent_id: number;
+  title?: string;
+  source: "manual" | "scheduled" | "mqtt" | "email" | ChatPlatform;
+  active_leaf_id: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChatMessage {
+  id: number;
+  conversation_id: number;
+  role: "user" | "assistant" | "system";
+  content: string;
+  agent_id?: number;
+  /** Model that produced an assistant message, including fallbacks ("provider:model-id") */
+  model?: string | null;
+  parent_id: number | null;
+  /** Present when this message has alternative versions (edits or regenerations) */
+  branch: { sibling_ids: number[]; index: number } | null;
+  created_at: string;
+}
+
+export type UsageGroupBy = "agent" | "conversation" | "source" | "day";
+
+export interface UsageTotals {
+  steps: number;
+  input_tokens: number;
+  output_tokens: number;
+  cached_input_tokens: number;
+  cost_usd: number;
+}
+
+export interface UsageRollup extends UsageTotals {
+  key: string;
+  label: string | null;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  by_agent: UsageRollup[];
+  by_source: UsageRollup[];
+  by_day: UsageRollup[];
+}
+
+export interface BudgetLimits {
+  monthly_cost_limit_usd: number | null;
+  monthly_token_limit: number | null;
+  soft_threshold_percent?: number;
+}
+
+export interface BudgetStatus extends BudgetLimits {
+  id: number;
+  scope: "user" | "team" | "agent";
+  soft_threshold_percent: number;
+  spent_usd: number;
+  spent_tokens: number;
+  percent_used: number;
+}
+
+export interface BudgetOverview {
+  month: string;
+  domain: string | null;
+  user: BudgetStatus | null;
+  team: BudgetStatus | null;
+  agents: (BudgetStatus & { agent_slug: string; agent_name: string })[];
+}
+
+export interface ModelProvider {
+  id: number;
+  name: string;
+  base_url: string;
+  has_api_key: boolean;
+  api_key_header: string;
+  headers: Record<string, string> | null;
+  models: string[];
   created_at: string;
   updated_at: string;
 }
 
+export interface ModelProviderInput {
+  name?: string;
+  base_url?: string;
+  /** Omit to keep the stored key; empty string clears it */
+  api_key?: string;
+  api_key_header?: string;
+  headers?: Record<string, string> | null;
+  models?: string[];
+}
+
+export interface ReembedJob {
+  model: string;
+  running: boolean;
+  processed: number;
+  failed: number;
+  started_at: string;
+  finished_at: string | null;
+  last_error: string | null;
+}
+
+export interface EmbeddingSettings {
+  /** Preferred "provider:model-id"; null uses the first configured provider */
+  embedding_model: string | null;
+  /** The model actually used, or null when no provider can embed */
+  active_model: string | null;
+  defaults: Record<string, string>;
+  /** Memories with no vector from the active model */
+  pending: number;
+  job: ReembedJob | null;
+}
+
+export type ChatStreamChunk = { type: string; content?: string; conversation_id?: number } & Record<string, any>;
+
 interface ApiRequestOptions extends RequestInit {
   body?: any;
 }
 
+/**
+ * POST to a chat endpoint and feed each Server-Sent Event to onChunk
+ */
+async function streamChatRequest(
+  url: string,
+  body: unknown,
+  onChunk: (chunk: ChatStreamChunk) => void
+): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "same-origin",
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Stream failed");
+  }
+
+  const reader = response.body?.getReader();
+  const decoder = new TextDecoder();
+
+  if (!reader) {
+    throw new Error("No response body");
+  }
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const chunk = decoder.decode(value);
+    const lines = chunk.split("\n");
+
+    for (const line of lines) {
+      if (line.startsWith("data: ")) {
+        const data = JSON.parse(line.slice(6));
+        onChunk(data);
+      }
+    }
+  }
+}
+
 /**
  * Make an authenticated API request
  */
+/** A failed API request, with the response body for errors that carry more than a message */
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public data: Record<string, unknown>) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
 async function apiRequest<T>(
   endpoint: string,
   options: ApiRequestOptions = {}
@@ -205,7 +771,7 @@ async function apiRequest<T>(
 
   if (!response.ok) {
     const error = isJson ? await response.json() : { error: response.statusText };
-    throw new Error(error.error || "Request failed");
+    throw new ApiError(error.error || "Request failed", response.status, error);
   }
 
   return isJson ? await response.json() : ({} as T);
@@ -318,18 +884,21 @@ export const api = {
           url: string;
           method: string;
           headers?: Record<string, string>;
+          parameters: UrlToolParameter[];
+          query_params: Record<string, string> | null;
+          body_template: string | null;
           created_at: string;
           updated_at: string;
         }>
       >("/api/user/url-tools"),
 
-    create: (data: { name: string; description?: string; url: string; method: string; headers?: Record<string, string> }) =>
+    create: (data: { name: string; description?: string; url: string; method: string; headers?: Record<string, string> } & UrlToolTemplateFields) =>
       apiRequest("/api/user/url-tools", {
         method: "POST",
         body: data,
       }),
 
-    update: (id: number, data: { name?: string; description?: string; url?: string; method?: string; headers?: Record<string, string> }) =>
+    update: (id: number, data: { name?: string; description?: string; url?: string; method?: string; headers?: Record<string, string> } & UrlToolTemplateFields) =>
       apiRequest(`/api/user/url-tools/${id}`, {
         method: "PUT",
         body: data,
@@ -339,6 +908,24 @@ export const api = {
       apiRequest(`/api/user/url-tools/${id}`, {
         method: "DELETE",
       }),
+
+    test: (id: number, args: UrlToolArgs) =>
+      apiRequest<UrlToolTestResult>(`/api/user/url-tools/${id}/test`, {
+        method: "POST",
+        body: { args },
+      }),
+
+    previewImport: (data: OpenApiImportRequest) =>
+      apiRequest<OpenApiImportPreview>("/api/user/url-tools/import/preview", {
+        method: "POST",
+        body: data,
+      }),
+
+    importOpenApi: (data: OpenApiImportRequest) =>
+      apiRequest<OpenApiImportResult>("/api/user/url-tools/import", {
+        method: "POST",
+        body: data,
+      }),
   },
 
   // Agents
@@ -353,12 +940,14 @@ export const api = {
           purpose?: string;
           system_prompt: string;
           model?: string;
+          fallback_models: string[];
           internet_search_enabled: boolean;
           is_favorite: boolean;
           pool_type: "personal" | "team";
           domain?: string;
           default_notifier?: "email" | "webhook" | "pushover" | null;
           default_notifier_destination?: string | null;
+          memory_search_weights?: MemorySearchSettings | null;
           created_at: string;
           updated_at: string;
         }>
@@ -373,11 +962,13 @@ export const api = {
         purpose?: string;
         system_prompt: string;
         model?: string;
+        fallback_models: string[];
         internet_search_enabled: boolean;
         pool_type: "personal" | "team";
         domain?: string;
         default_notifier?: "email" | "webhook" | "pushover" | null;
         default_notifier_destination?: string | null;
+        memory_search_weights?: MemorySearchSettings | null;
         created_at: string;
         updated_at: string;
       }>(`/api/agents/${slug}`),
@@ -388,6 +979,7 @@ export const api = {
       purpose?: string;
       system_prompt: string;
       model?: string;
+      fallback_models?: string[];
       internet_search_enabled?: boolean;
       pool_type?: "personal" | "team";
       default_notifier?: "email" | "webhook" | "pushover" | null;
@@ -405,9 +997,11 @@ export const api = {
         purpose?: string;
         system_prompt?: string;
         model?: string;
+        fallback_models?: string[];
         internet_search_enabled?: boolean;
         default_notifier?: "email" | "webhook" | "pushover" | null;
         default_notifier_destination?: string | null;
+        memory_search_weights?: MemorySearchSettings | null;
       }
     ) =>
       apiRequest(`/api/agents/${slug}`, {
@@ -502,9 +1096,9 @@ export const api = {
       }),
 
     // Memories
-    getMemories: (slug: string) =>
+    getMemories: (slug: string, query?: string) =>
       apiRequest<{ memories: AgentMemory[]; counts: MemoryCounts }>(
-        `/api/agents/${slug}/memories`
+        `/api/agents/${slug}/memories${query ? `?q=${encodeURIComponent(query)}` : ""}`
       ),
 
     createMemory: (slug: string, data: { key: string; value: string; tier?: string }) =>
@@ -529,6 +1123,12 @@ export const api = {
         `/api/agents/${slug}/memories/${encodeURIComponent(key)}/tier`,
         { method: "PATCH", body: { tier } }
       ),
+
+    getMemoryChanges: (slug: string) =>
+      apiRequest<{ changes: MemoryChange[] }>(`/api/agents/${slug}/memory-changes`),
+
+    revertMemoryChange: (slug: string, id: number) =>
+      apiRequest(`/api/agents/${slug}/memory-changes/${id}/revert`, { method: "POST" }),
   },
 
   // Chat
@@ -549,48 +1149,50 @@ export const api = {
     /**
      * Send a message with streaming response using Server-Sent Events
      */
-    sendMessageStream: async (
+    sendMessageStream: (
       slug: string,
       message: string,
       conversationId: number | undefined,
-      onChunk: (chunk: { type: string; content?: string; conversation_id?: number }) => void
-    ): Promise<void> => {
-      const response = await fetch(`/api/chat/${slug}/stream`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        credentials: "same-origin",
-        body: JSON.stringify({ message, conversation_id: conversationId }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || "Stream failed");
-      }
-
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
-        throw new Error("No response body");
-      }
+      onChunk: (chunk: ChatStreamChunk) => void
+    ): Promise<void> =>
+      streamChatRequest(`/api/chat/${slug}/stream`, { message, conversation_id: conversationId }, onChunk),
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+    /**
+     * Edit an earlier user message, creating a new branch, and stream the reply
+     */
+    editMessageStream: (
+      slug: string,
+      conversationId: number,
+      messageId: number,
+      message: string,
+      onChunk: (chunk: ChatStreamChunk) => void
+    ): Promise<void> =>
+      streamChatRequest(
+        `/api/chat/${slug}/conversation/${conversationId}/edit`,
+        { message_id: messageId, message },
+        onChunk
+      ),
 
-        const chunk = decoder.decode(value);
-        const lines = chunk.split("\n");
+    /**
+     * Regenerate the reply containing messageId as a new branch and stream it
+     */
+    regenerateStream: (
+      slug: string,
+      conversationId: number,
+      messageId: number,
+      onChunk: (chunk: ChatStreamChunk) => void
+    ): Promise<void> =>
+      streamChatRequest(
+        `/api/chat/${slug}/conversation/${conversationId}/regenerate`,
+        { message_id: messageId },
+        onChunk
+      ),
 
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            const data = JSON.parse(line.slice(6));
-            onChunk(data);
-          }
-        }
-      }
-    },
+    switchBranch: (slug: string, conversationId: number, messageId: number) =>
+      apiRequest<{ conversation: ChatConversation; messages: ChatMessage[] }>(
+        `/api/chat/${slug}/conversation/${conversationId}/branch`,
+        { method: "POST", body: { message_id: messageId } }
+      ),
 
     getHistory: (slug: string) =>
       apiRequest<{
@@ -606,23 +1208,8 @@ export const api = {
 
     getConversation: (slug: string, id: number) =>
       apiRequest<{
-        conversation: {
-          id: number;
-          user_id: number;
-          agent_id: number;
-          title?: string;
-          source: "manual" | "scheduled" | "mqtt";
-          created_at: string;
-          updated_at: string;
-        };
-        messages: Array<{
-          id: number;
-          conversation_id: number;
-          role: "user" | "assistant" | "system";
-          content: string;
-          agent_id?: number;
-          created_at: string;
-        }>;
+        conversation: ChatConversation;
+        messages: ChatMessage[];
       }>(`/api/chat/${slug}/conversation/${id}`),
   },
 
@@ -684,6 +1271,8 @@ export const api = {
       conversation_id?: number;
       notifier?: NotifierChannel | null;
       notifier_destination?: string | null;
+      workflow_id?: number | null;
+      workflow_facts?: Record<string, string>;
     }) =>
       apiRequest<{ schedule: Schedule }>(`/api/agents/${slug}/schedules`, {
         method: "POST",
@@ -697,6 +1286,8 @@ export const api = {
       schedule_value?: string;
       notifier?: NotifierChannel | null;
       notifier_destination?: string | null;
+      workflow_id?: number | null;
+      workflow_facts?: Record<string, string>;
     }) =>
       apiRequest<{ schedule: Schedule }>(`/api/schedules/${id}`, {
         method: "PUT",
@@ -741,8 +1332,24 @@ export const api = {
     markAllRead: () =>
       apiRequest("/api/notifications/read-all", { method: "POST" }),
 
+    listDeliveries: (params?: { channel?: NotificationDelivery["channel"]; limit?: number; offset?: number }) => {
+      const searchParams = new URLSearchParams();
+      if (params?.channel) searchParams.set("channel", params.channel);
+      if (params?.limit) searchParams.set("limit", String(params.limit));
+      if (params?.offset) searchParams.set("offset", String(params.offset));
+      const qs = searchParams.toString();
+      return apiRequest<{ deliveries: NotificationDelivery[] }>(
+        `/api/notifications/deliveries${qs ? `?${qs}` : ""}`
+      );
+    },
+
+    redeliver: (deliveryId: number) =>
+      apiRequest<{ delivery: NotificationDelivery }>(`/api/notifications/deliveries/${deliveryId}/redeliver`, {
+        method: "POST",
+      }),
+
     getSettings: () =>
-      apiRequest<{ settings: NotificationSettings }>("/api/user/notification-settings").then((r) => r.settings),
+      apiRequest<{ settings: UserNotificationSettings }>("/api/user/notification-settings").then((r) => r.settings),
 
     updateSettings: (data: {
       notification_email?: string;
@@ -752,8 +1359,12 @@ export const api = {
       pushover_user_key?: string;
       pushover_api_token?: string;
       pushover_enabled?: boolean;
+      mail_transport?: MailTransportInput | null;
+      quiet_hours?: QuietHours | null;
+      digest_schedule?: UserNotificationSettings["digest_schedule"];
+      rate_policies?: NotificationRatePolicy[];
     }) =>
-      apiRequest<{ settings: NotificationSettings }>("/api/user/notification-settings", {
+      apiRequest<{ settings: UserNotificationSettings }>("/api/user/notification-settings", {
         method: "PUT",
         body: data,
       }),
@@ -770,6 +1381,69 @@ export const api = {
       }),
   },
 
+  usage: {
+    /** days=0 covers all time */
+    summary: (days = 30) =>
+      apiRequest<UsageSummary>(`/api/usage?days=${days}`),
+
+    rollup: (groupBy: UsageGroupBy, params?: { days?: number; agent_id?: number; conversation_id?: number }) => {
+      const searchParams = new URLSearchParams();
+      if (params?.days !== undefined) searchParams.set("days", String(params.days));
+      if (params?.agent_id) searchParams.set("agent_id", String(params.agent_id));
+      if (params?.conversation_id) searchParams.set("conversation_id", String(params.conversation_id));
+      const qs = searchParams.toString();
+      return apiRequest<{ group_by: UsageGroupBy; rollups: UsageRollup[] }>(
+        `/api/usage/${groupBy}${qs ? `?${qs}` : ""}`
+      ).then((r) => r.rollups);
+    },
+  },
+
+  budgets: {
+    list: () => apiRequest<BudgetOverview>("/api/budgets"),
+
+    updateUser: (limits: BudgetLimits) =>
+      apiRequest<{ budget: BudgetStatus }>("/api/user/budget", { method: "PUT", body: limits }).then((r) => r.budget),
+
+    deleteUser: () => apiRequest("/api/user/budget", { method: "DELETE" }),
+
+    updateTeam: (limits: BudgetLimits) =>
+      apiRequest<{ budget: BudgetStatus }>("/api/team/budget", { method: "PUT", body: limits }).then((r) => r.budget),
+
+    deleteTeam: () => apiRequest("/api/team/budget", { method: "DELETE" }),
+
+    updateAgent: (slug: string, limits: BudgetLimits) =>
+      apiRequest<{ budget: BudgetStatus }>(`/api/agents/${slug}/budget`, { method: "PUT", body: limits }).then((r) => r.budget),
+
+    deleteAgent: (slug: string) => apiRequest(`/api/agents/${slug}/budget`, { method: "DELETE" }),
+  },
+
+  // Custom OpenAI-compatible providers ("user" for personal, "team" for the email domain)
+  modelProviders: {
+    list: (scope: "user" | "team") => apiRequest<ModelProvider[]>(`/api/${scope}/model-providers`),
+
+    create: (scope: "user" | "team", data: ModelProviderInput) =>
+      apiRequest<ModelProvider>(`/api/${scope}/model-providers`, { method: "POST", body: data }),
+
+    update: (scope: "user" | "team", id: number, data: ModelProviderInput) =>
+      apiRequest<ModelProvider>(`/api/${scope}/model-providers/${id}`, { method: "PUT", body: data }),
+
+    delete: (scope: "user" | "team", id: number) =>
+      apiRequest(`/api/${scope}/model-providers/${id}`, { method: "DELETE" }),
+  },
+
+  // Embedding model for memory search
+  embeddings: {
+    get: () => apiRequest<EmbeddingSettings>("/api/user/embeddings"),
+
+    update: (embedding_model: string | null) =>
+      apiRequest<{ embedding_model: string | null; active_model: string | null; reembed_started: boolean }>(
+        "/api/user/embeddings",
+        { method: "PUT", body: { embedding_model } }
+      ),
+
+    reembed: () => apiRequest<{ job: ReembedJob }>("/api/user/embeddings/reembed", { method: "POST" }),
+  },
+
   // Team settings
   team: {
     getSettings: () =>
@@ -829,19 +1503,31 @@ export const api = {
         url: string;
         method: string;
         headers?: Record<string, string>;
+        parameters: UrlToolParameter[];
+        query_params: Record<string, string> | null;
+        body_template: string | null;
         created_at: string;
         updated_at: string;
       }>>("/api/team/url-tools"),
 
-    createUrlTool: (data: { name: string; description?: string; url: string; method: string; headers?: Record<string, string> }) =>
+    createUrlTool: (data: { name: string; description?: string; url: string; method: string; headers?: Record<string, string> } & UrlToolTemplateFields) =>
       apiRequest("/api/team/url-tools", { method: "POST", body: data }),
 
-    updateUrlTool: (id: number, data: { name?: string; description?: string; url?: string; method?: string; headers?: Record<string, string> }) =>
+    updateUrlTool: (id: number, data: { name?: string; description?: string; url?: string; method?: string; headers?: Record<string, string> } & UrlToolTemplateFields) =>
       apiRequest(`/api/team/url-tools/${id}`, { method: "PUT", body: data }),
 
     deleteUrlTool: (id: number) =>
       apiRequest(`/api/team/url-tools/${id}`, { method: "DELETE" }),
 
+    testUrlTool: (id: number, args: UrlToolArgs) =>
+      apiRequest<UrlToolTestResult>(`/api/team/url-tools/${id}/test`, { method: "POST", body: { args } }),
+
+    previewUrlToolImport: (data: OpenApiImportRequest) =>
+      apiRequest<OpenApiImportPreview>("/api/team/url-tools/import/preview", { method: "POST", body: data }),
+
+    importUrlTools: (data: OpenApiImportRequest) =>
+      apiRequest<OpenApiImportResult>("/api/team/url-tools/import", { method: "POST", body: data }),
+
     getNotificationSettings: () =>
       apiRequest<{ settings: NotificationSettings }>("/api/team/notification-settings").then((r) => r.settings),
 
@@ -853,6 +1539,7 @@ export const api = {
       pushover_user_key?: string;
       pushover_api_token?: string;
       pushover_enabled?: boolean;
+      mail_transport?: MailTransportInput | null;
     }) =>
       apiRequest<{ settings: NotificationSettings }>("/api/team/notification-settings", {
         method: "PUT",
@@ -876,8 +1563,16 @@ export const api = {
         body: data,
       }),
 
-    update: (id: number, data: { name?: string; description?: string; yaml_content?: string }) =>
-      apiRequest<{ workflow: Workflow }>(`/api/workflows/${id}`, {
+    update: (
+      id: number,
+      data: {
+        name?: string;
+        description?: string;
+        yaml_content?: string;
+        step_migrations?: Record<string, string>;
+      }
+    ) =>
+      apiRequest<SaveWorkflowResult>(`/api/workflows/${id}`, {
         method: "PUT",
         body: data,
       }),
@@ -891,6 +1586,37 @@ export const api = {
         body: { yaml_content },
       }),
 
+    // Revisions
+    listRevisions: (id: number) =>
+      apiRequest<{ revisions: WorkflowRevision[] }>(`/api/workflows/${id}/revisions`).then(
+        (r) => r.revisions
+      ),
+
+    rollback: (id: number, revision: number, step_migrations?: Record<string, string>) =>
+      apiRequest<SaveWorkflowResult>(`/api/workflows/${id}/revisions/${revision}/rollback`, {
+        method: "POST",
+        body: { step_migrations },
+      }),
+
+    // Step templates
+    listTemplates: () =>
+      apiRequest<{ templates: WorkflowStepTemplate[] }>("/api/workflow-templates").then((r) => r.templates),
+
+    createTemplate: (yaml_content: string) =>
+      apiRequest<{ template: WorkflowStepTemplate }>("/api/workflow-templates", {
+        method: "POST",
+        body: { yaml_content },
+      }),
+
+    updateTemplate: (id: number, yaml_content: string) =>
+      apiRequest<{ template: WorkflowStepTemplate }>(`/api/workflow-templates/${id}`, {
+        method: "PUT",
+        body: { yaml_content },
+      }),
+
+    deleteTemplate: (id: number) =>
+      apiRequest(`/api/workflow-templates/${id}`, { method: "DELETE" }),
+
     // Agent-workflow assignments
     listForAgent: (slug: string) =>
       apiRequest<{ workflows: AgentWorkflowAssignment[] }>(
@@ -912,6 +1638,45 @@ export const api = {
       apiRequest(`/api/agents/${slug}/workflows/${workflowId}/default`, {
         method: "PATCH",
       }),
+
+    // Execution history
+    listExecutions: (workflowId: number) =>
+      apiRequest<{ executions: WorkflowExecutionSummary[] }>(
+        `/api/workflows/${workflowId}/executions`
+      ).then((r) => r.executions),
+
+    getExecution: (id: number) =>
+      apiRequest<WorkflowExecutionDetail>(`/api/workflow-executions/${id}`),
+
+    cancelExecution: (id: number) =>
+      apiRequest<{ execution: WorkflowExecutionDetail["execution"]; message: string }>(
+        `/api/workflow-executions/${id}/cancel`,
+        { method: "POST" }
+      ),
+
+    restartExecution: (id: number, step_id: string) =>
+      apiRequest<{ execution: WorkflowExecutionDetail["execution"]; message: string }>(
+        `/api/workflow-executions/${id}/restart`,
+        { method: "POST", body: { step_id } }
+      ),
+
+    resumeExecution: (id: number) =>
+      apiRequest<{ execution: WorkflowExecutionDetail["execution"]; message: string }>(
+        `/api/workflow-executions/${id}/resume`,
+        { method: "POST" }
+      ),
+
+    // Approval steps
+    listApprovals: (status?: WorkflowApprovalStatus) =>
+      apiRequest<{ approvals: WorkflowApproval[] }>(
+        `/api/workflows/approvals${status ? `?status=${status}` : ""}`
+      ).then((r) => r.approvals),
+
+    decideApproval: (id: number, decision: "approved" | "rejected", comment?: string) =>
+      apiRequest<{ approval: WorkflowApproval; message?: string }>(
+        `/api/workflows/approvals/${id}/decision`,
+        { method: "POST", body: { decision, comment } }
+      ),
   },
 
   // Workflow Builder (LLM-powered YAML generation)
@@ -979,4 +1744,43 @@ export const api = {
     reconnect: () =>
       apiRequest("/api/user/mqtt/reconnect", { method: "POST" }),
   },
+
+  // Inbound email
+  emailInbox: {
+    get: () =>
+      apiRequest<{ inbox: EmailInbox | null; domain: string | null }>("/api/user/email-inbox"),
+
+    update: (data: { alias: string; agent_id: number; allowed_senders: string[]; enabled: boolean }) =>
+      apiRequest<{ inbox: EmailInbox; domain: string | null }>("/api/user/email-inbox", {
+        method: "PUT",
+        body: data,
+      }),
+
+    delete: () =>
+      apiRequest("/api/user/email-inbox", { method: "DELETE" }),
+  },
+
+  // Chat platform channels
+  chatChannels: {
+    list: () =>
+      apiRequest<{ channels: ChatChannel[] }>("/api/chat-channels").then((r) => r.channels),
+
+    create: (data: ChatChannelInput & { platform: ChatPlatform; name: string; agent_id: number }) =>
+      apiRequest<{ channel: ChatChannel }>("/api/chat-channels", {
+        method: "POST",
+        body: data,
+      }),
+
+    update: (id: number, data: ChatChannelInput) =>
+      apiRequest<{ channel: ChatChannel }>(`/api/chat-channels/${id}`, {
+        method: "PUT",
+        body: data,
+      }),
+
+    delete: (id: number) =>
+      apiRequest(`/api/chat-channels/${id}`, { method: "DELETE" }),
+
+    register: (id: number) =>
+      apiRequest<{ success: boolean; result: string }>(`/api/chat-channels/${id}/register`, { method: "POST" }),
+  },
 };
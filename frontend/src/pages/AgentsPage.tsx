@@ -7,6 +7,8 @@ import {
   api,
   type AgentMemory,
   type MemoryCounts,
+  type MemoryChange,
+  type MemorySearchSettings,
   type EmailConfig,
   type WebhookConfig,
   type Workflow,
@@ -21,6 +23,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { MemorySearchTuning } from "../components/MemorySearchTuning";
 
 type NotifierChannel = "email" | "webhook" | "pushover";
 
@@ -32,16 +35,26 @@ interface Agent {
   purpose?: string;
   system_prompt: string;
   model?: string;
+  fallback_models: string[];
   internet_search_enabled: boolean;
   is_favorite: boolean;
   pool_type: "personal" | "team";
   domain?: string;
   default_notifier?: NotifierChannel | null;
   default_notifier_destination?: string | null;
+  memory_search_weights?: MemorySearchSettings | null;
   created_at: string;
   updated_at: string;
 }
 
+/** Split a textarea of model strings (one per line or comma-separated) into a list */
+function parseModelList(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map((m) => m.trim())
+    .filter(Boolean);
+}
+
 interface McpServer {
   id: number;
   name: string;
@@ -81,6 +94,7 @@ export default function AgentsPage() {
     purpose: "",
     system_prompt: "",
     model: "openai:gpt-4.1-mini",
+    fallback_models: "",
     internet_search_enabled: false,
     pool_type: "personal" as "personal" | "team",
     default_notifier: "" as "" | NotifierChannel,
@@ -112,6 +126,9 @@ export default function AgentsPage() {
   const [memories, setMemories] = useState<AgentMemory[]>([]);
   const [memoryCounts, setMemoryCounts] = useState<MemoryCounts>({ core: 0, working: 0, reference: 0 });
   const [memoryTab, setMemoryTab] = useState<"core" | "working" | "reference">("core");
+  const [memoryQuery, setMemoryQuery] = useState("");
+  const [memorySearchResults, setMemorySearchResults] = useState<AgentMemory[] | null>(null);
+  const [memoryChanges, setMemoryChanges] = useState<MemoryChange[] | null>(null);
 
   useEffect(() => {
     loadAgents();
@@ -294,6 +311,7 @@ export default function AgentsPage() {
     try {
       await api.agents.create({
         ...formData,
+        fallback_models: parseModelList(formData.fallback_models),
         default_notifier: formData.default_notifier || null,
         default_notifier_destination: formData.default_notifier_destination || null,
       });
@@ -303,6 +321,7 @@ export default function AgentsPage() {
         purpose: "",
         system_prompt: "",
         model: "openai:gpt-4.1-mini",
+        fallback_models: "",
         internet_search_enabled: false,
         pool_type: "personal",
         default_notifier: "",
@@ -330,6 +349,7 @@ export default function AgentsPage() {
         purpose: formData.purpose,
         system_prompt: formData.system_prompt,
         model: formData.model,
+        fallback_models: parseModelList(formData.fallback_models),
         internet_search_enabled: formData.internet_search_enabled,
         default_notifier: formData.default_notifier || null,
         default_notifier_destination: formData.default_notifier_destination || null,
@@ -341,6 +361,7 @@ export default function AgentsPage() {
         purpose: "",
         system_prompt: "",
         model: "openai:gpt-4.1-mini",
+        fallback_models: "",
         internet_search_enabled: false,
         pool_type: "personal",
         default_notifier: "",
@@ -451,6 +472,7 @@ export default function AgentsPage() {
       purpose: agent.purpose || "",
       system_prompt: agent.system_prompt,
       model: agent.model || "openai:gpt-4.1-mini",
+      fallback_models: (agent.fallback_models ?? []).join("\n"),
       internet_search_enabled: agent.internet_search_enabled,
       pool_type: agent.pool_type,
       default_notifier: agent.default_notifier || "",
@@ -467,6 +489,7 @@ export default function AgentsPage() {
       purpose: "",
       system_prompt: "",
       model: "openai:gpt-4.1-mini",
+      fallback_models: "",
       internet_search_enabled: false,
       pool_type: "personal",
       default_notifier: "",
@@ -480,6 +503,13 @@ export default function AgentsPage() {
       const data = await api.agents.getMemories(slug);
       setMemories(data.memories);
       setMemoryCounts(data.counts);
+      if (slug !== memoriesAgentSlug) {
+        setMemoryQuery("");
+        setMemorySearchResults(null);
+        setMemoryChanges(null);
+      } else if (memorySearchResults && memoryQuery.trim()) {
+        setMemorySearchResults((await api.agents.getMemories(slug, memoryQuery.trim())).memories);
+      }
       setMemoriesAgentSlug(slug);
       setShowMemories(true);
     } catch (err) {
@@ -487,6 +517,45 @@ export default function AgentsPage() {
     }
   };
 
+  const handleToggleMemoryChanges = async () => {
+    if (!memoriesAgentSlug) return;
+    if (memoryChanges) {
+      setMemoryChanges(null);
+      return;
+    }
+    try {
+      setMemoryChanges((await api.agents.getMemoryChanges(memoriesAgentSlug)).changes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load memory changes");
+    }
+  };
+
+  const handleRevertMemoryChange = async (change: MemoryChange) => {
+    if (!memoriesAgentSlug) return;
+    try {
+      await api.agents.revertMemoryChange(memoriesAgentSlug, change.id);
+      setMemoryChanges((await api.agents.getMemoryChanges(memoriesAgentSlug)).changes);
+      await handleViewMemories(memoriesAgentSlug);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revert change");
+    }
+  };
+
+  const handleSearchMemories = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!memoriesAgentSlug) return;
+    if (!memoryQuery.trim()) {
+      setMemorySearchResults(null);
+      return;
+    }
+    try {
+      const data = await api.agents.getMemories(memoriesAgentSlug, memoryQuery.trim());
+      setMemorySearchResults(data.memories);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to search memories");
+    }
+  };
+
   const handleDeleteMemory = async (key: string) => {
     if (!memoriesAgentSlug) return;
     if (!confirm(`Delete memory "${key}"?`)) return;
@@ -684,6 +753,24 @@ export default function AgentsPage() {
                 </p>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-card-foreground mb-2">
+                  Fallback Models
+                </label>
+                <textarea
+                  value={formData.fallback_models}
+                  onChange={(e) =>
+                    setFormData({ ...formData, fallback_models: e.target.value })
+                  }
+                  placeholder={"anthropic:claude-sonnet-4-20250514\nollama:llama3"}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground font-mono text-sm"
+                />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  One per line, tried in order when the model above is rate-limited, erroring or timing out.
+                </p>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-card-foreground mb-2">
                   Default Notifier
@@ -1311,41 +1398,139 @@ export default function AgentsPage() {
             <div className="bg-card rounded-lg shadow-xl max-w-3xl w-full max-h-[80vh] overflow-hidden flex flex-col">
               <div className="p-6 border-b border-border flex items-center justify-between">
                 <h3 className="text-lg font-semibold text-card-foreground">Agent Memories</h3>
-                <button
-                  onClick={() => setShowMemories(false)}
-                  className="text-muted-foreground hover:text-foreground"
-                >
-                  ✕
-                </button>
-              </div>
-
-              {/* Tier tabs */}
-              <div className="flex border-b border-border px-6">
-                {(["core", "working", "reference"] as const).map((tier) => (
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={handleToggleMemoryChanges}>
+                    {memoryChanges ? "Back to memories" : "Consolidation log"}
+                  </Button>
                   <button
-                    key={tier}
-                    onClick={() => setMemoryTab(tier)}
-                    className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
-                      memoryTab === tier
-                        ? "border-primary text-foreground"
-                        : "border-transparent text-muted-foreground hover:text-foreground"
-                    }`}
+                    onClick={() => setShowMemories(false)}
+                    className="text-muted-foreground hover:text-foreground"
                   >
-                    {tier === "core" ? "Core" : tier === "working" ? "Working" : "Reference"}{" "}
-                    <span className="text-xs text-muted-foreground">
-                      ({memoryCounts[tier]}{tier === "core" ? "/10" : tier === "working" ? "/30" : ""})
-                    </span>
+                    ✕
                   </button>
-                ))}
+                </div>
               </div>
 
+              {/* Consolidation log */}
+              {memoryChanges && (
+                <div className="p-6 overflow-y-auto flex-1">
+                  {memoryChanges.length === 0 ? (
+                    <p className="text-muted-foreground text-center py-8">
+                      No changes from memory consolidation yet
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      {memoryChanges.map((change) => (
+                        <div key={change.id} className="border border-border rounded-lg p-4">
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="flex-1 min-w-0 text-sm">
+                              <div className="flex items-center gap-2 mb-1">
+                                <Badge variant="secondary" className="text-xs">{change.action}</Badge>
+                                <span className="font-medium text-card-foreground">{change.memory_key}</span>
+                                {change.merged_into && (
+                                  <span className="text-xs text-muted-foreground">merged into {change.merged_into}</span>
+                                )}
+                                <span className="text-xs text-muted-foreground">
+                                  {new Date(change.created_at).toLocaleString()}
+                                </span>
+                              </div>
+                              {change.value && <div className="text-muted-foreground break-words">{change.value}</div>}
+                              {change.previous && (
+                                <div className="text-xs text-muted-foreground break-words mt-1">
+                                  Was: {change.previous.value}
+                                </div>
+                              )}
+                              {change.reason && (
+                                <div className="text-xs text-muted-foreground italic mt-1">{change.reason}</div>
+                              )}
+                            </div>
+                            {change.reverted_at ? (
+                              <span className="text-xs text-muted-foreground shrink-0">Reverted</span>
+                            ) : (
+                              <Button variant="outline" size="sm" onClick={() => handleRevertMemoryChange(change)}>
+                                Revert
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {!memoryChanges && (
+              <>
+              {/* Search */}
+              <form onSubmit={handleSearchMemories} className="flex gap-2 px-6 pt-4">
+                <input
+                  value={memoryQuery}
+                  onChange={(e) => setMemoryQuery(e.target.value)}
+                  placeholder="Search memories by keyword or meaning..."
+                  className="flex-1 px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm"
+                />
+                <Button type="submit" size="sm" variant="outline">Search</Button>
+                {memorySearchResults && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => {
+                      setMemoryQuery("");
+                      setMemorySearchResults(null);
+                    }}
+                  >
+                    Clear
+                  </Button>
+                )}
+              </form>
+              {memoriesAgentSlug && (
+                <details className="px-6 pt-2">
+                  <summary className="text-xs text-muted-foreground cursor-pointer">Search ranking</summary>
+                  <div className="pt-2">
+                    <MemorySearchTuning
+                      key={memoriesAgentSlug}
+                      slug={memoriesAgentSlug}
+                      settings={agents.find((a) => a.slug === memoriesAgentSlug)?.memory_search_weights}
+                      onSaved={(settings) =>
+                        setAgents((prev) =>
+                          prev.map((a) => (a.slug === memoriesAgentSlug ? { ...a, memory_search_weights: settings } : a))
+                        )
+                      }
+                    />
+                  </div>
+                </details>
+              )}
+
+              {/* Tier tabs */}
+              {!memorySearchResults && (
+                <div className="flex border-b border-border px-6">
+                  {(["core", "working", "reference"] as const).map((tier) => (
+                    <button
+                      key={tier}
+                      onClick={() => setMemoryTab(tier)}
+                      className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                        memoryTab === tier
+                          ? "border-primary text-foreground"
+                          : "border-transparent text-muted-foreground hover:text-foreground"
+                      }`}
+                    >
+                      {tier === "core" ? "Core" : tier === "working" ? "Working" : "Reference"}{" "}
+                      <span className="text-xs text-muted-foreground">
+                        ({memoryCounts[tier]}{tier === "core" ? "/10" : tier === "working" ? "/30" : ""})
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
               <div className="p-6 overflow-y-auto flex-1">
                 {(() => {
-                  const filtered = memories.filter((m) => m.tier === memoryTab);
+                  const filtered = memorySearchResults ?? memories.filter((m) => m.tier === memoryTab);
                   if (filtered.length === 0) {
                     return (
                       <p className="text-muted-foreground text-center py-8">
-                        No {memoryTab} memories yet
+                        {memorySearchResults ? "No matching memories" : `No ${memoryTab} memories yet`}
                       </p>
                     );
                   }
@@ -1363,11 +1548,21 @@ export default function AgentsPage() {
                                 <Badge variant="secondary" className="text-xs">
                                   {memory.author}
                                 </Badge>
+                                {memorySearchResults && (
+                                  <Badge variant="outline" className="text-xs">
+                                    {memory.tier}
+                                  </Badge>
+                                )}
                                 {memory.access_count > 0 && (
                                   <span className="text-xs text-muted-foreground">
                                     {memory.access_count}x accessed
                                   </span>
                                 )}
+                                {memory.score !== undefined && (
+                                  <span className="text-xs text-muted-foreground">
+                                    score {memory.score.toFixed(2)}
+                                  </span>
+                                )}
                               </div>
                               <div className="text-sm text-muted-foreground break-words">{memory.value}</div>
                             </div>
@@ -1418,6 +1613,8 @@ export default function AgentsPage() {
                   );
                 })()}
               </div>
+              </>
+              )}
               <div className="p-4 border-t border-border flex justify-end">
                 <Button onClick={() => setShowMemories(false)}>Close</Button>
               </div>
@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { api, type WorkflowApproval } from "../lib/api";
+
+export default function ApprovalsPage() {
+  const [approvals, setApprovals] = useState<WorkflowApproval[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<"pending" | "all">("pending");
+  const [comments, setComments] = useState<Record<number, string>>({});
+  const [deciding, setDeciding] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadApprovals();
+  }, [filter]);
+
+  const loadApprovals = async () => {
+    try {
+      setLoading(true);
+      setApprovals(await api.workflows.listApprovals(filter === "pending" ? "pending" : undefined));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load approvals");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDecide = async (approval: WorkflowApproval, decision: "approved" | "rejected") => {
+    try {
+      setDeciding(approval.id);
+      setError(null);
+      const result = await api.workflows.decideApproval(approval.id, decision, comments[approval.id]);
+      setApprovals((prev) =>
+        filter === "pending"
+          ? prev.filter((a) => a.id !== approval.id)
+          : prev.map((a) => (a.id === approval.id ? { ...a, ...result.approval } : a))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to record decision");
+      loadApprovals();
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const statusVariant = (status: WorkflowApproval["status"]) => {
+    switch (status) {
+      case "approved": return "default" as const;
+      case "rejected": return "destructive" as const;
+      default: return "secondary" as const;
+    }
+  };
+
+  const timeAgo = (dateStr: string) => {
+    const diff = Date.now() - new Date(dateStr).getTime();
+    const minutes = Math.floor(diff / 60000);
+    if (minutes < 1) return "just now";
+    if (minutes < 60) return `${minutes}m ago`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ago`;
+    const days = Math.floor(hours / 24);
+    return `${days}d ago`;
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <header className="flex items-center gap-2 border-b px-6 py-3">
+        <SidebarTrigger />
+        <h1 className="text-lg font-semibold">Approvals</h1>
+        <div className="ml-auto flex items-center gap-2">
+          <div className="flex rounded-md border border-input">
+            <button
+              className={`px-3 py-1 text-sm rounded-l-md transition-colors ${
+                filter === "pending"
+                  ? "bg-primary text-primary-foreground"
+                  : "hover:bg-muted"
+              }`}
+              onClick={() => setFilter("pending")}
+            >
+              Pending
+            </button>
+            <button
+              className={`px-3 py-1 text-sm rounded-r-md transition-colors ${
+                filter === "all"
+                  ? "bg-primary text-primary-foreground"
+                  : "hover:bg-muted"
+              }`}
+              onClick={() => setFilter("all")}
+            >
+              All
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto">
+        {error && (
+          <div className="bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mx-6 mt-6">
+            <p className="text-red-800 dark:text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        {loading && approvals.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Loading approvals...</p>
+          </div>
+        ) : approvals.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">
+              {filter === "pending" ? "Nothing is waiting for approval" : "No approval requests yet"}
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y divide-border">
+            {approvals.map((approval) => {
+              const expired = approval.status === "pending" && approval.expires_at < Date.now();
+              return (
+                <div key={approval.id} className="px-6 py-4 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-foreground">{approval.step_name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {approval.workflow_name} · {timeAgo(approval.created_at)}
+                    </span>
+                    <Badge variant={statusVariant(approval.status)} className="ml-auto">
+                      {expired ? "expired" : approval.status}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">{approval.message}</p>
+
+                  {approval.status === "pending" && !expired ? (
+                    <div className="space-y-2 max-w-xl">
+                      <Textarea
+                        placeholder="Comment (optional)"
+                        value={comments[approval.id] ?? ""}
+                        onChange={(e) => setComments((prev) => ({ ...prev, [approval.id]: e.target.value }))}
+                        rows={2}
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleDecide(approval, "approved")}
+                          disabled={deciding === approval.id}
+                        >
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDecide(approval, "rejected")}
+                          disabled={deciding === approval.id}
+                        >
+                          Reject
+                        </Button>
+                      </div>
+                    </div>
+                  ) : approval.decided_at ? (
+                    <p className="text-xs text-muted-foreground">
+                      {approval.status === "expired"
+                        ? "Expired"
+                        : approval.status === "cancelled"
+                          ? "Cancelled"
+                          : `Decided by ${approval.decided_by}${approval.decided_via === "link" ? " via link" : ""}`}{" "}
+                      on {new Date(approval.decided_at).toLocaleString()}
+                      {approval.comment && <> — “{approval.comment}”</>}
+                    </p>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
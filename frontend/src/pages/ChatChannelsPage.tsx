@@ -0,0 +1,440 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  api,
+  CHAT_PLATFORM_LABELS,
+  type ChatChannel,
+  type ChatChannelInput,
+  type ChatChannelRoute,
+  type ChatPlatform,
+} from "../lib/api";
+
+const INPUT_CLASS =
+  "w-full px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground";
+
+const SETUP_HINTS: Record<ChatPlatform, string> = {
+  slack:
+    "Subscribe the Slack app to app_mention and message.im events, with the inbound URL as its Request URL.",
+  discord:
+    "Register to add the /ask command and point the application's interactions endpoint at the inbound URL.",
+  telegram: "Register to set the bot's webhook to the inbound URL.",
+};
+
+interface Agent {
+  id: number;
+  name: string;
+}
+
+export default function ChatChannelsPage() {
+  const [channels, setChannels] = useState<ChatChannel[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ChatChannel | null>(null);
+  const [formPlatform, setFormPlatform] = useState<ChatPlatform>("slack");
+  const [formName, setFormName] = useState("");
+  const [formAgentId, setFormAgentId] = useState<number | "">("");
+  const [formBotToken, setFormBotToken] = useState("");
+  const [formSigningSecret, setFormSigningSecret] = useState("");
+  const [formApplicationId, setFormApplicationId] = useState("");
+  const [formPublicKey, setFormPublicKey] = useState("");
+  const [formRoutes, setFormRoutes] = useState<ChatChannelRoute[]>([]);
+  const [formAllowedUsers, setFormAllowedUsers] = useState("");
+
+  useEffect(() => {
+    loadChannels();
+    loadAgents();
+  }, []);
+
+  const loadChannels = async () => {
+    try {
+      setLoading(true);
+      setChannels(await api.chatChannels.list());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load chat channels");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadAgents = async () => {
+    try {
+      const data = await api.agents.list();
+      setAgents(data);
+    } catch {
+      // Agents list is supplementary
+    }
+  };
+
+  const getAgentName = (agentId: number) => {
+    const agent = agents.find((a) => a.id === agentId);
+    return agent?.name || `Agent #${agentId}`;
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormPlatform("slack");
+    setFormName("");
+    setFormAgentId(agents[0]?.id ?? "");
+    setFormBotToken("");
+    setFormSigningSecret("");
+    setFormApplicationId("");
+    setFormPublicKey("");
+    setFormRoutes([]);
+    setFormAllowedUsers("");
+    setDialogOpen(true);
+  };
+
+  const openEdit = (channel: ChatChannel) => {
+    setEditing(channel);
+    setFormPlatform(channel.platform);
+    setFormName(channel.name);
+    setFormAgentId(channel.agent_id);
+    setFormBotToken("");
+    setFormSigningSecret("");
+    setFormApplicationId(channel.application_id ?? "");
+    setFormPublicKey(channel.public_key ?? "");
+    setFormRoutes(channel.routes);
+    setFormAllowedUsers(channel.allowed_user_ids.join("\n"));
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (formAgentId === "") return;
+
+    const data: ChatChannelInput = {
+      name: formName,
+      agent_id: formAgentId,
+      routes: formRoutes.filter((r) => r.platform_channel_id.trim()),
+      allowed_user_ids: formAllowedUsers.split(/[\s,]+/).filter(Boolean),
+    };
+    // Blank secrets keep the stored ones
+    if (formBotToken) data.bot_token = formBotToken;
+    if (formSigningSecret) data.signing_secret = formSigningSecret;
+    if (formPlatform === "discord") {
+      data.application_id = formApplicationId.trim();
+      data.public_key = formPublicKey.trim();
+    }
+
+    try {
+      if (editing) {
+        await api.chatChannels.update(editing.id, data);
+      } else {
+        await api.chatChannels.create({ ...data, platform: formPlatform, name: formName, agent_id: formAgentId });
+      }
+      setDialogOpen(false);
+      await loadChannels();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save chat channel");
+    }
+  };
+
+  const handleToggle = async (channel: ChatChannel) => {
+    try {
+      await api.chatChannels.update(channel.id, { enabled: !channel.enabled });
+      await loadChannels();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update chat channel");
+    }
+  };
+
+  const handleDelete = async (channel: ChatChannel) => {
+    if (!confirm(`Delete chat channel "${channel.name}"?`)) return;
+    try {
+      await api.chatChannels.delete(channel.id);
+      await loadChannels();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete chat channel");
+    }
+  };
+
+  const handleRegister = async (channel: ChatChannel) => {
+    setError(null);
+    setMessage(null);
+    try {
+      const { result } = await api.chatChannels.register(channel.id);
+      setMessage(`${channel.name}: ${result}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to register chat channel");
+    }
+  };
+
+  const updateRoute = (index: number, changes: Partial<ChatChannelRoute>) => {
+    setFormRoutes((routes) => routes.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <header className="flex items-center gap-2 border-b px-6 py-3">
+        <SidebarTrigger />
+        <h1 className="text-lg font-semibold">Chat Channels</h1>
+        <div className="ml-auto">
+          <Button size="sm" onClick={openCreate}>New Channel</Button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-6 py-8">
+        {error && (
+          <div className="bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mb-6">
+            <p className="text-red-800 dark:text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 dark:bg-green-950/20 border border-green-200 dark:border-green-800 rounded-lg p-4 mb-6">
+            <p className="text-green-800 dark:text-green-400 text-sm">{message}</p>
+          </div>
+        )}
+
+        {loading && channels.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Loading chat channels...</p>
+          </div>
+        ) : channels.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground mb-4">
+              Connect a Slack, Discord or Telegram bot to talk to your agents there
+            </p>
+            <Button onClick={openCreate}>Create Your First Channel</Button>
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            {channels.map((channel) => (
+              <div key={channel.id} className="bg-card rounded-lg border border-border p-5">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <h3 className="font-semibold text-card-foreground">{channel.name}</h3>
+                      <Badge variant="outline">{CHAT_PLATFORM_LABELS[channel.platform]}</Badge>
+                      {!channel.enabled && <Badge variant="secondary">Disabled</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Answered by {getAgentName(channel.agent_id)}
+                      {channel.routes.length > 0 &&
+                        ` (${channel.routes.length} routed channel${channel.routes.length === 1 ? "" : "s"})`}
+                      {channel.allowed_user_ids.length > 0 &&
+                        ` · ${channel.allowed_user_ids.length} allowed user${channel.allowed_user_ids.length === 1 ? "" : "s"}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground mb-1">{SETUP_HINTS[channel.platform]}</p>
+                    <code className="text-xs break-all bg-muted px-2 py-1 rounded">{channel.inbound_url}</code>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    {channel.platform !== "slack" && (
+                      <Button variant="outline" size="sm" onClick={() => handleRegister(channel)}>
+                        Register
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => handleToggle(channel)}>
+                      {channel.enabled ? "Disable" : "Enable"}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => openEdit(channel)}>
+                      Edit
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleDelete(channel)}>
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>{editing ? "Edit Chat Channel" : "New Chat Channel"}</DialogTitle>
+              <DialogDescription>
+                Messages sent to the bot are answered by an agent, in the thread they came from.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Platform</label>
+                  <select
+                    value={formPlatform}
+                    onChange={(e) => setFormPlatform(e.target.value as ChatPlatform)}
+                    disabled={!!editing}
+                    className={INPUT_CLASS}
+                  >
+                    {(Object.keys(CHAT_PLATFORM_LABELS) as ChatPlatform[]).map((platform) => (
+                      <option key={platform} value={platform}>
+                        {CHAT_PLATFORM_LABELS[platform]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={formName}
+                    onChange={(e) => setFormName(e.target.value)}
+                    placeholder="e.g., Team Slack"
+                    required
+                    className={INPUT_CLASS}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Default Agent</label>
+                <select
+                  value={formAgentId}
+                  onChange={(e) => setFormAgentId(Number(e.target.value))}
+                  required
+                  className={INPUT_CLASS}
+                >
+                  <option value="" disabled>Select an agent</option>
+                  {agents.map((agent) => (
+                    <option key={agent.id} value={agent.id}>{agent.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Bot Token{formPlatform === "discord" && " (needed to register)"}
+                </label>
+                <input
+                  type="password"
+                  value={formBotToken}
+                  onChange={(e) => setFormBotToken(e.target.value)}
+                  placeholder={editing?.has_bot_token ? "Leave blank to keep the current token" : ""}
+                  required={formPlatform !== "discord" && !editing?.has_bot_token}
+                  className={INPUT_CLASS}
+                />
+              </div>
+
+              {formPlatform === "slack" && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Signing Secret</label>
+                  <input
+                    type="password"
+                    value={formSigningSecret}
+                    onChange={(e) => setFormSigningSecret(e.target.value)}
+                    placeholder={editing?.has_signing_secret ? "Leave blank to keep the current secret" : ""}
+                    required={!editing?.has_signing_secret}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+              )}
+
+              {formPlatform === "discord" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Application ID</label>
+                    <input
+                      type="text"
+                      value={formApplicationId}
+                      onChange={(e) => setFormApplicationId(e.target.value)}
+                      required
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Public Key</label>
+                    <input
+                      type="text"
+                      value={formPublicKey}
+                      onChange={(e) => setFormPublicKey(e.target.value)}
+                      required
+                      className={`${INPUT_CLASS} font-mono text-sm`}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium">Channel Routes</label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setFormRoutes((routes) => [...routes, { platform_channel_id: "", agent_id: agents[0]?.id ?? 0 }])
+                    }
+                  >
+                    Add Route
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Send messages from specific {CHAT_PLATFORM_LABELS[formPlatform]} channels to a different agent.
+                </p>
+                <div className="space-y-2">
+                  {formRoutes.map((route, index) => (
+                    <div key={index} className="flex gap-2">
+                      <input
+                        type="text"
+                        value={route.platform_channel_id}
+                        onChange={(e) => updateRoute(index, { platform_channel_id: e.target.value })}
+                        placeholder="Channel ID"
+                        className={`${INPUT_CLASS} font-mono text-sm`}
+                      />
+                      <select
+                        value={route.agent_id}
+                        onChange={(e) => updateRoute(index, { agent_id: Number(e.target.value) })}
+                        className={INPUT_CLASS}
+                      >
+                        {agents.map((agent) => (
+                          <option key={agent.id} value={agent.id}>{agent.name}</option>
+                        ))}
+                      </select>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setFormRoutes((routes) => routes.filter((_, i) => i !== index))}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Allowed Users</label>
+                <textarea
+                  value={formAllowedUsers}
+                  onChange={(e) => setFormAllowedUsers(e.target.value)}
+                  placeholder="Platform user IDs, one per line. Leave empty to allow everyone."
+                  rows={3}
+                  className={`${INPUT_CLASS} font-mono text-sm`}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editing ? "Save Changes" : "Create Channel"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
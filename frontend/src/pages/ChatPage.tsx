@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "../contexts/AuthContext";
-import { api } from "../lib/api";
+import { api, type ChatConversation, type ChatMessage, type ChatStreamChunk } from "../lib/api";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 
@@ -16,7 +16,23 @@ interface Message {
   created_at: string;
   isStreaming?: boolean;
   agentName?: string;
+  model?: string | null; // Model that answered (assistant messages)
   toolName?: string; // For tool role messages
+  dbId?: number; // Set once the message is persisted
+  branch?: ChatMessage["branch"];
+}
+
+function toDisplayMessages(messages: ChatMessage[]): Message[] {
+  return messages.map((m) => ({
+    id: String(m.id),
+    role: m.role,
+    content: m.content,
+    agent_id: m.agent_id,
+    model: m.model,
+    created_at: m.created_at,
+    dbId: m.id,
+    branch: m.branch,
+  }));
 }
 
 interface Agent {
@@ -26,7 +42,16 @@ interface Agent {
   purpose?: string;
 }
 
-type ConversationSource = "manual" | "scheduled" | "mqtt";
+type ConversationSource = ChatConversation["source"];
+
+const SOURCE_LABELS: Record<Exclude<ConversationSource, "manual">, string> = {
+  scheduled: "Scheduled",
+  mqtt: "MQTT",
+  email: "Email",
+  slack: "Slack",
+  discord: "Discord",
+  telegram: "Telegram",
+};
 
 export default function ChatPage() {
   const { slug } = useParams<{ slug: string }>();
@@ -42,6 +67,8 @@ export default function ChatPage() {
   const [error, setError] = useState<string | null>(null);
   const [conversationId, setConversationId] = useState<number | undefined>(initialConversationId);
   const [conversationSource, setConversationSource] = useState<ConversationSource | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -67,15 +94,7 @@ export default function ChatPage() {
         );
         if (cancelled) return;
         setConversationSource(conversation.source);
-        setMessages(
-          existing.map((m) => ({
-            id: String(m.id),
-            role: m.role,
-            content: m.content,
-            agent_id: m.agent_id,
-            created_at: m.created_at,
-          }))
-        );
+        setMessages(toDisplayMessages(existing));
       } catch (err) {
         if (!cancelled) {
           setError(err instanceof Error ? err.message : "Failed to load conversation");
@@ -108,19 +127,14 @@ export default function ChatPage() {
     }
   };
 
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || !agent || !slug) return;
-
-    const userMessage: Message = {
-      id: crypto.randomUUID(),
-      role: "user",
-      content: input.trim(),
-      created_at: new Date().toISOString(),
-    };
-
-    setMessages((prev) => [...prev, userMessage]);
-    setInput("");
+  /**
+   * Stream an agent reply into a placeholder message. Once the turn is saved,
+   * reload the active branch so messages get their IDs and branch info.
+   */
+  const streamTurn = async (
+    start: (onChunk: (chunk: ChatStreamChunk) => void) => Promise<void>
+  ) => {
+    if (!agent || !slug) return;
     setLoading(true);
 
     // Create placeholder for assistant message
@@ -135,89 +149,195 @@ export default function ChatPage() {
 
     setMessages((prev) => [...prev, assistantMessage]);
 
+    let activeConversationId = conversationId;
+    let failed = false;
+
     try {
-      await api.chat.sendMessageStream(
-        slug,
-        userMessage.content,
-        conversationId,
-        (chunk) => {
-          if (chunk.type === "init" && chunk.conversation_id) {
-            setConversationId(chunk.conversation_id);
-          } else if (chunk.type === "started") {
-            // Agent started processing
-            setMessages((prev) =>
-              prev.map((msg) =>
-                msg.id === assistantMessageId
-                  ? { ...msg, isStreaming: true }
-                  : msg
-              )
-            );
-          } else if (chunk.type === "text" && chunk.content) {
-            // Append text to assistant message
-            setMessages((prev) =>
-              prev.map((msg) =>
-                msg.id === assistantMessageId
-                  ? { ...msg, content: msg.content + chunk.content, isStreaming: true }
-                  : msg
-              )
-            );
-          } else if (chunk.type === "tool_call") {
-            console.log("🔧 Tool call received:", chunk);
-
-            // Backend sends 'name' field, not 'content'
-            const toolName = (chunk as any).name || chunk.content;
-            if (toolName) {
-              // Add a tool call status message before the assistant message
-              const toolMessage: Message = {
-                id: crypto.randomUUID(),
-                role: "tool",
-                content: "",
-                toolName: toolName,
-                created_at: new Date().toISOString(),
-              };
-
-              setMessages((prev) => {
-                // Find the assistant message and insert tool message before it
-                const assistantIndex = prev.findIndex(msg => msg.id === assistantMessageId);
-                if (assistantIndex !== -1) {
-                  const newMessages = [...prev];
-                  newMessages.splice(assistantIndex, 0, toolMessage);
-                  return newMessages;
-                }
-                return prev;
-              });
-            }
-          } else if (chunk.type === "agent_update" && (chunk as any).agent) {
-            // Show agent handoff
-            setMessages((prev) =>
-              prev.map((msg) =>
-                msg.id === assistantMessageId
-                  ? { ...msg, agentName: (chunk as any).agent.name, isStreaming: true }
-                  : msg
-              )
-            );
-          } else if (chunk.type === "stopped") {
-            // Stream finished
-            setMessages((prev) =>
-              prev.map((msg) =>
-                msg.id === assistantMessageId
-                  ? { ...msg, isStreaming: false }
-                  : msg
-              )
-            );
-            setLoading(false);
-          } else if (chunk.type === "error") {
-            setError("Failed to send message");
-            setLoading(false);
+      await start((chunk) => {
+        if (chunk.type === "init" && chunk.conversation_id) {
+          activeConversationId = chunk.conversation_id;
+          setConversationId(chunk.conversation_id);
+        } else if (chunk.type === "started") {
+          // Agent started processing
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === assistantMessageId
+                ? { ...msg, isStreaming: true }
+                : msg
+            )
+          );
+        } else if (chunk.type === "text" && chunk.content) {
+          // Append text to assistant message
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === assistantMessageId
+                ? { ...msg, content: msg.content + chunk.content, isStreaming: true }
+                : msg
+            )
+          );
+        } else if (chunk.type === "tool_call") {
+          // Backend sends 'name' field, not 'content'
+          const toolName = chunk.name || chunk.content;
+          if (toolName) {
+            // Add a tool call status message before the assistant message
+            const toolMessage: Message = {
+              id: crypto.randomUUID(),
+              role: "tool",
+              content: "",
+              toolName: toolName,
+              created_at: new Date().toISOString(),
+            };
+
+            setMessages((prev) => {
+              // Find the assistant message and insert tool message before it
+              const assistantIndex = prev.findIndex(msg => msg.id === assistantMessageId);
+              if (assistantIndex !== -1) {
+                const newMessages = [...prev];
+                newMessages.splice(assistantIndex, 0, toolMessage);
+                return newMessages;
+              }
+              return prev;
+            });
           }
+        } else if (chunk.type === "agent_update" && chunk.agent) {
+          // Show agent handoff
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === assistantMessageId
+                ? { ...msg, agentName: chunk.agent.name, isStreaming: true }
+                : msg
+            )
+          );
+        } else if (chunk.type === "stopped") {
+          // Stream finished
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === assistantMessageId
+                ? { ...msg, isStreaming: false }
+                : msg
+            )
+          );
+        } else if (chunk.type === "error") {
+          failed = true;
+          setError(chunk.error || "Failed to send message");
         }
-      );
+      });
+
+      if (!failed && activeConversationId) {
+        const { messages: saved } = await api.chat.getConversation(slug, activeConversationId);
+        setMessages(toDisplayMessages(saved));
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to send message");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || !agent || !slug) return;
+
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      role: "user",
+      content: input.trim(),
+      created_at: new Date().toISOString(),
+    };
+
+    setMessages((prev) => [...prev, userMessage]);
+    setInput("");
+
+    await streamTurn((onChunk) =>
+      api.chat.sendMessageStream(slug, userMessage.content, conversationId, onChunk)
+    );
+  };
+
+  const startEdit = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditText(message.content);
+  };
+
+  const handleSaveEdit = async (message: Message) => {
+    if (!slug || !conversationId || !message.dbId || !editText.trim()) return;
+    const content = editText.trim();
+    setEditingMessageId(null);
+
+    // Show the edited message in place of the original and drop everything after it
+    setMessages((prev) => {
+      const index = prev.findIndex((m) => m.id === message.id);
+      return [
+        ...prev.slice(0, index),
+        { id: crypto.randomUUID(), role: "user", content, created_at: new Date().toISOString() },
+      ];
+    });
+
+    await streamTurn((onChunk) =>
+      api.chat.editMessageStream(slug, conversationId, message.dbId!, content, onChunk)
+    );
+  };
+
+  const handleRegenerate = async (message: Message) => {
+    if (!slug || !conversationId || !message.dbId) return;
+
+    // Keep history up to the user message this reply answers
+    setMessages((prev) => {
+      const index = prev.findIndex((m) => m.id === message.id);
+      let cut = index;
+      while (cut > 0 && prev[cut - 1]!.role !== "user") cut--;
+      return prev.slice(0, cut);
+    });
+
+    await streamTurn((onChunk) =>
+      api.chat.regenerateStream(slug, conversationId, message.dbId!, onChunk)
+    );
+  };
+
+  const handleSwitchBranch = async (message: Message, direction: -1 | 1) => {
+    if (!slug || !conversationId || !message.branch) return;
+    const targetId = message.branch.sibling_ids[message.branch.index + direction];
+    if (targetId === undefined) return;
+
+    try {
+      setLoading(true);
+      const { messages: branch } = await api.chat.switchBranch(slug, conversationId, targetId);
+      setMessages(toDisplayMessages(branch));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to switch branch");
+    } finally {
       setLoading(false);
     }
   };
 
+  /** Previous/next controls for messages that have alternative versions */
+  const renderBranchControls = (message: Message) => {
+    if (!message.branch) return null;
+    const { index, sibling_ids } = message.branch;
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+        <button
+          type="button"
+          onClick={() => handleSwitchBranch(message, -1)}
+          disabled={loading || index === 0}
+          className="px-1 hover:text-foreground disabled:opacity-40"
+          aria-label="Previous version"
+        >
+          ‹
+        </button>
+        {index + 1} / {sibling_ids.length}
+        <button
+          type="button"
+          onClick={() => handleSwitchBranch(message, 1)}
+          disabled={loading || index === sibling_ids.length - 1}
+          className="px-1 hover:text-foreground disabled:opacity-40"
+          aria-label="Next version"
+        >
+          ›
+        </button>
+      </span>
+    );
+  };
+
   if (error) {
     return (
       <div className="flex flex-col h-full">
@@ -263,7 +383,7 @@ export default function ChatPage() {
         <h1 className="text-lg font-semibold">{agent.name}</h1>
         {conversationSource && conversationSource !== "manual" && (
           <Badge variant="outline" className="ml-1">
-            {conversationSource === "scheduled" ? "Scheduled" : "MQTT"}
+            {SOURCE_LABELS[conversationSource]}
           </Badge>
         )}
         {agent.purpose && (
@@ -286,16 +406,50 @@ export default function ChatPage() {
             </div>
           ) : (
             <div className="space-y-6">
-              {messages.map((message) => (
+              {messages.map((message, index) => (
                 <div
                   key={message.id}
                   className={message.role === "user" ? "flex justify-end" : ""}
                 >
                   {message.role === "user" ? (
-                    // User message - compact bubble on right
-                    <div className="max-w-2xl rounded-2xl px-4 py-2.5 bg-muted text-foreground">
-                      <div className="whitespace-pre-wrap text-sm">{message.content}</div>
-                    </div>
+                    editingMessageId === message.id ? (
+                      // Inline editor - saving creates a new branch
+                      <div className="w-full max-w-2xl space-y-2">
+                        <textarea
+                          value={editText}
+                          onChange={(e) => setEditText(e.target.value)}
+                          rows={3}
+                          className="w-full px-4 py-2 border border-input rounded-lg focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm"
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setEditingMessageId(null)}>
+                            Cancel
+                          </Button>
+                          <Button size="sm" onClick={() => handleSaveEdit(message)} disabled={!editText.trim()}>
+                            Save & Submit
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      // User message - compact bubble on right
+                      <div className="group max-w-2xl flex flex-col items-end gap-1">
+                        <div className="rounded-2xl px-4 py-2.5 bg-muted text-foreground">
+                          <div className="whitespace-pre-wrap text-sm">{message.content}</div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {renderBranchControls(message)}
+                          {message.dbId && !loading && (
+                            <button
+                              type="button"
+                              onClick={() => startEdit(message)}
+                              className="text-xs text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100"
+                            >
+                              Edit
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )
                   ) : message.role === "tool" ? (
                     // Tool call status message
                     <div className="text-xs text-muted-foreground italic py-2">
@@ -306,6 +460,9 @@ export default function ChatPage() {
                     <div className="w-full">
                       <div className="text-xs font-medium text-muted-foreground mb-2">
                         {message.agentName || agent.name}
+                        {message.model && (
+                          <span className="font-normal"> · {message.model}</span>
+                        )}
                       </div>
                       <div className="prose prose-slate dark:prose-invert max-w-none">
                         <ReactMarkdown remarkPlugins={[remarkGfm]}>
@@ -315,6 +472,20 @@ export default function ChatPage() {
                           <span className="inline-block w-1.5 h-5 bg-muted-foreground animate-pulse ml-0.5 align-middle"></span>
                         )}
                       </div>
+                      {message.dbId && (
+                        <div className="flex items-center gap-2 mt-1">
+                          {renderBranchControls(message)}
+                          {!loading && messages[index + 1]?.role !== "assistant" && (
+                            <button
+                              type="button"
+                              onClick={() => handleRegenerate(message)}
+                              className="text-xs text-muted-foreground hover:text-foreground"
+                            >
+                              Regenerate
+                            </button>
+                          )}
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import { useAuth } from "../contexts/AuthContext";
 import { api } from "../lib/api";
+import { UsageWidget } from "../components/UsageWidget";
 
 interface Agent {
   id: number;
@@ -138,6 +139,9 @@ export default function DashboardPage() {
           )}
         </section>
 
+        {/* Token usage and cost */}
+        <UsageWidget />
+
         {/* Quick Actions */}
         <section>
           <h2 className="text-xl font-semibold text-foreground mb-4">Quick Actions</h2>
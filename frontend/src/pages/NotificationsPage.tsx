@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import { Badge } from "@/components/ui/badge";
 import { api, type AppNotification } from "../lib/api";
+import DeliveryLog from "../components/DeliveryLog";
 
 export default function NotificationsPage() {
   const navigate = useNavigate();
@@ -11,6 +12,7 @@ export default function NotificationsPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [filter, setFilter] = useState<"all" | "unread">("all");
+  const [view, setView] = useState<"notifications" | "deliveries">("notifications");
   const [offset, setOffset] = useState(0);
   const [hasMore, setHasMore] = useState(true);
   const LIMIT = 20;
@@ -101,99 +103,131 @@ export default function NotificationsPage() {
           <div className="flex rounded-md border border-input">
             <button
               className={`px-3 py-1 text-sm rounded-l-md transition-colors ${
-                filter === "all"
+                view === "notifications"
                   ? "bg-primary text-primary-foreground"
                   : "hover:bg-muted"
               }`}
-              onClick={() => setFilter("all")}
+              onClick={() => setView("notifications")}
             >
-              All
+              Inbox
             </button>
             <button
               className={`px-3 py-1 text-sm rounded-r-md transition-colors ${
-                filter === "unread"
+                view === "deliveries"
                   ? "bg-primary text-primary-foreground"
                   : "hover:bg-muted"
               }`}
-              onClick={() => setFilter("unread")}
+              onClick={() => setView("deliveries")}
             >
-              Unread
+              Deliveries
             </button>
           </div>
-          <Button variant="outline" size="sm" onClick={handleMarkAllRead}>
-            Mark All Read
-          </Button>
+          {view === "notifications" && (
+            <>
+              <div className="flex rounded-md border border-input">
+                <button
+                  className={`px-3 py-1 text-sm rounded-l-md transition-colors ${
+                    filter === "all"
+                      ? "bg-primary text-primary-foreground"
+                      : "hover:bg-muted"
+                  }`}
+                  onClick={() => setFilter("all")}
+                >
+                  All
+                </button>
+                <button
+                  className={`px-3 py-1 text-sm rounded-r-md transition-colors ${
+                    filter === "unread"
+                      ? "bg-primary text-primary-foreground"
+                      : "hover:bg-muted"
+                  }`}
+                  onClick={() => setFilter("unread")}
+                >
+                  Unread
+                </button>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleMarkAllRead}>
+                Mark All Read
+              </Button>
+            </>
+          )}
         </div>
       </header>
 
-      <main className="flex-1 overflow-y-auto">
-        {error && (
-          <div className="bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mx-6 mt-6">
-            <p className="text-red-800 dark:text-red-400 text-sm">{error}</p>
-          </div>
-        )}
+      {view === "deliveries" ? (
+        <main className="flex-1 overflow-y-auto">
+          <DeliveryLog />
+        </main>
+      ) : (
+        <main className="flex-1 overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mx-6 mt-6">
+              <p className="text-red-800 dark:text-red-400 text-sm">{error}</p>
+            </div>
+          )}
 
-        {loading && notifications.length === 0 ? (
-          <div className="text-center py-12">
-            <p className="text-muted-foreground">Loading notifications...</p>
-          </div>
-        ) : notifications.length === 0 ? (
-          <div className="text-center py-12">
-            <p className="text-muted-foreground">
-              {filter === "unread" ? "No unread notifications" : "No notifications yet"}
-            </p>
-          </div>
-        ) : (
-          <div className="divide-y divide-border">
-            {notifications.map((notification) => (
-              <div
-                key={notification.id}
-                className={`px-6 py-4 hover:bg-muted/50 cursor-pointer transition-colors ${
-                  !notification.read ? "bg-accent/30" : ""
-                }`}
-                onClick={() => handleClick(notification)}
-              >
-                <div className="flex items-start gap-3">
-                  <div
-                    className={`w-2 h-2 rounded-full mt-2 flex-shrink-0 ${urgencyDot(
-                      notification.urgency
-                    )}`}
-                  />
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 mb-0.5">
-                      {notification.agent_name && (
-                        <span className="text-sm font-medium text-foreground">
-                          {notification.agent_name}
+          {loading && notifications.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">Loading notifications...</p>
+            </div>
+          ) : notifications.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">
+                {filter === "unread" ? "No unread notifications" : "No notifications yet"}
+              </p>
+            </div>
+          ) : (
+            <div className="divide-y divide-border">
+              {notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={`px-6 py-4 hover:bg-muted/50 cursor-pointer transition-colors ${
+                    !notification.read ? "bg-accent/30" : ""
+                  }`}
+                  onClick={() => handleClick(notification)}
+                >
+                  <div className="flex items-start gap-3">
+                    <div
+                      className={`w-2 h-2 rounded-full mt-2 flex-shrink-0 ${urgencyDot(
+                        notification.urgency
+                      )}`}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-0.5">
+                        {notification.agent_name && (
+                          <span className="text-sm font-medium text-foreground">
+                            {notification.agent_name}
+                          </span>
+                        )}
+                        <span className="text-xs text-muted-foreground">
+                          {timeAgo(notification.created_at)}
                         </span>
-                      )}
-                      <span className="text-xs text-muted-foreground">
-                        {timeAgo(notification.created_at)}
-                      </span>
-                      {!notification.read && (
-                        <div className="w-1.5 h-1.5 rounded-full bg-primary" />
-                      )}
+                        {!notification.read && (
+                          <div className="w-1.5 h-1.5 rounded-full bg-primary" />
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{notification.message}</p>
                     </div>
-                    <p className="text-sm text-muted-foreground">{notification.message}</p>
                   </div>
                 </div>
-              </div>
-            ))}
-          </div>
-        )}
+              ))}
+            </div>
+          )}
 
-        {hasMore && notifications.length > 0 && (
-          <div className="px-6 py-4 text-center">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => loadNotifications(false)}
-              disabled={loading}
-            >
-              {loading ? "Loading..." : "Load More"}
-            </Button>
-          </div>
-        )}
-      </main>
+          {hasMore && notifications.length > 0 && (
+            <div className="px-6 py-4 text-center">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => loadNotifications(false)}
+                disabled={loading}
+              >
+                {loading ? "Loading..." : "Load More"}
+              </Button>
+            </div>
+          )}
+        </main>
+      )}
     </div>
   );
 }
@@ -3,7 +3,15 @@ import { Button } from "@/components/ui/button";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import { Switch } from "@/components/ui/switch";
 import { useAuth } from "../contexts/AuthContext";
-import { api, type WebhookConfig, type EmailConfig, type NotificationSettings } from "../lib/api";
+import { api, WEBHOOK_TEMPLATE_LABELS, type WebhookConfig, type WebhookTemplate, type EmailConfig, type NotificationSettings, type UrlToolParameter } from "../lib/api";
+import { UrlToolTemplateFields, UrlToolTestDialog, pairsToRecord, recordToPairs, type KeyValuePair } from "../components/UrlToolEditor";
+import { OpenApiImportDialog } from "../components/OpenApiImportDialog";
+import { BudgetSettings } from "../components/BudgetSettings";
+import { ModelProviderSettings } from "../components/ModelProviderSettings";
+import { EmbeddingSettings } from "../components/EmbeddingSettings";
+import { EmailInboxSettings } from "../components/EmailInboxSettings";
+import { NotificationPolicySettings } from "../components/NotificationPolicySettings";
+import MailTransportFields, { mailTransportForm, mailTransportInput, type MailTransportForm } from "../components/MailTransportFields";
 
 interface McpServer {
   id: number;
@@ -20,6 +28,9 @@ interface UrlTool {
   url: string;
   method: string;
   headers?: Record<string, string>;
+  parameters: UrlToolParameter[];
+  query_params: Record<string, string> | null;
+  body_template: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -37,6 +48,8 @@ export default function ProfilePage() {
   const [error, setError] = useState<string | null>(null);
   const [editingMcp, setEditingMcp] = useState<McpServer | null>(null);
   const [editingUrlTool, setEditingUrlTool] = useState<UrlTool | null>(null);
+  const [testingUrlTool, setTestingUrlTool] = useState<UrlTool | null>(null);
+  const [importingOpenApi, setImportingOpenApi] = useState(false);
   const [testingMcp, setTestingMcp] = useState<{
     server: McpServer;
     loading: boolean;
@@ -61,6 +74,9 @@ export default function ProfilePage() {
   const [newUrlToolUrl, setNewUrlToolUrl] = useState("");
   const [newUrlToolMethod, setNewUrlToolMethod] = useState("GET");
   const [newUrlToolHeaders, setNewUrlToolHeaders] = useState<HeaderPair[]>([]);
+  const [newUrlToolParameters, setNewUrlToolParameters] = useState<UrlToolParameter[]>([]);
+  const [newUrlToolQueryParams, setNewUrlToolQueryParams] = useState<KeyValuePair[]>([]);
+  const [newUrlToolBodyTemplate, setNewUrlToolBodyTemplate] = useState("");
 
   // Notification settings
   const [notifEmailEnabled, setNotifEmailEnabled] = useState(true);
@@ -70,9 +86,11 @@ export default function ProfilePage() {
   const [webhooks, setWebhooks] = useState<WebhookConfig[]>([]);
   const [newWebhookName, setNewWebhookName] = useState("");
   const [newWebhookUrl, setNewWebhookUrl] = useState("");
+  const [newWebhookTemplate, setNewWebhookTemplate] = useState<WebhookTemplate>("generic");
   const [pushoverEnabled, setPushoverEnabled] = useState(false);
   const [pushoverUserKey, setPushoverUserKey] = useState("");
   const [pushoverApiToken, setPushoverApiToken] = useState("");
+  const [mailTransport, setMailTransport] = useState<MailTransportForm>(mailTransportForm(null));
   const [notifLoading, setNotifLoading] = useState(false);
 
   // MQTT broker settings
@@ -144,6 +162,7 @@ export default function ProfilePage() {
       setPushoverEnabled(settings.pushover_enabled);
       setPushoverUserKey(settings.pushover_user_key || "");
       setPushoverApiToken(settings.pushover_api_token || "");
+      setMailTransport(mailTransportForm(settings.mail_transport));
     } catch {
       // Settings may not exist yet
     }
@@ -236,14 +255,17 @@ export default function ProfilePage() {
     setNotifLoading(true);
     setError(null);
     try {
-      await api.notifications.updateSettings({
+      const { settings } = await api.notifications.updateSettings({
         email_enabled: notifEmailEnabled,
         email_addresses: emailAddresses,
         webhook_urls: webhooks,
         pushover_enabled: pushoverEnabled,
         pushover_user_key: pushoverUserKey || undefined,
         pushover_api_token: pushoverApiToken || undefined,
+        mail_transport: mailTransportInput(mailTransport),
       });
+      setMailTransport(mailTransportForm(settings.mail_transport));
+      setWebhooks(settings.webhook_urls);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to save notification settings");
     } finally {
@@ -276,15 +298,21 @@ export default function ProfilePage() {
       setError("A webhook with that name already exists");
       return;
     }
-    setWebhooks([...webhooks, { name: newWebhookName.trim(), url: newWebhookUrl.trim() }]);
+    setWebhooks([...webhooks, { name: newWebhookName.trim(), url: newWebhookUrl.trim(), template: newWebhookTemplate }]);
     setNewWebhookName("");
     setNewWebhookUrl("");
+    setNewWebhookTemplate("generic");
   };
 
   const removeWebhook = (index: number) => {
     setWebhooks(webhooks.filter((_, i) => i !== index));
   };
 
+  /** An empty secret is replaced with a new one on save */
+  const rotateWebhookSecret = (index: number) => {
+    setWebhooks(webhooks.map((w, i) => (i === index ? { ...w, secret: "" } : w)));
+  };
+
   const handleUpdateCredentials = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -447,6 +475,9 @@ export default function ProfilePage() {
         url: newUrlToolUrl,
         method: newUrlToolMethod,
         headers: Object.keys(headers).length > 0 ? headers : undefined,
+        parameters: newUrlToolParameters,
+        query_params: pairsToRecord(newUrlToolQueryParams),
+        body_template: newUrlToolBodyTemplate.trim() || null,
       });
 
       setNewUrlToolName("");
@@ -454,6 +485,9 @@ export default function ProfilePage() {
       setNewUrlToolUrl("");
       setNewUrlToolMethod("GET");
       setNewUrlToolHeaders([]);
+      setNewUrlToolParameters([]);
+      setNewUrlToolQueryParams([]);
+      setNewUrlToolBodyTemplate("");
       await loadUrlTools();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to add URL tool");
@@ -473,6 +507,9 @@ export default function ProfilePage() {
         ? Object.entries(tool.headers).map(([key, value]) => ({ key, value }))
         : []
     );
+    setNewUrlToolParameters(tool.parameters ?? []);
+    setNewUrlToolQueryParams(recordToPairs(tool.query_params));
+    setNewUrlToolBodyTemplate(tool.body_template || "");
   };
 
   const cancelEditUrlTool = () => {
@@ -482,6 +519,9 @@ export default function ProfilePage() {
     setNewUrlToolUrl("");
     setNewUrlToolMethod("GET");
     setNewUrlToolHeaders([]);
+    setNewUrlToolParameters([]);
+    setNewUrlToolQueryParams([]);
+    setNewUrlToolBodyTemplate("");
   };
 
   const handleUpdateUrlTool = async (e: React.FormEvent) => {
@@ -502,6 +542,9 @@ export default function ProfilePage() {
         url: newUrlToolUrl,
         method: newUrlToolMethod,
         headers: Object.keys(headers).length > 0 ? headers : undefined,
+        parameters: newUrlToolParameters,
+        query_params: pairsToRecord(newUrlToolQueryParams),
+        body_template: newUrlToolBodyTemplate.trim() || null,
       });
 
       cancelEditUrlTool();
@@ -789,6 +832,21 @@ export default function ProfilePage() {
           </form>
         </section>
 
+        {/* Custom Model Providers */}
+        <section className="bg-card rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-card-foreground mb-4">Custom Model Providers</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            OpenAI-compatible endpoints such as vLLM or LiteLLM gateways. Their models appear in the agent model list as <code>name:model-id</code>.
+          </p>
+          <ModelProviderSettings scope="user" />
+        </section>
+
+        {/* Memory Search */}
+        <section className="bg-card rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-card-foreground mb-4">Memory Search</h2>
+          <EmbeddingSettings />
+        </section>
+
         {/* MCP Servers */}
         <section className="bg-card rounded-lg shadow p-6">
           <h2 className="text-lg font-semibold text-card-foreground mb-4">MCP Servers</h2>
@@ -1001,7 +1059,12 @@ export default function ProfilePage() {
 
         {/* URL Tools */}
         <section className="bg-card rounded-lg shadow p-6">
-          <h2 className="text-lg font-semibold text-card-foreground mb-4">URL Tools</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-card-foreground">URL Tools</h2>
+            <Button variant="outline" size="sm" onClick={() => setImportingOpenApi(true)}>
+              Import OpenAPI
+            </Button>
+          </div>
           <p className="text-sm text-muted-foreground mb-4">
             Configure simple HTTP-based tools for your agents
           </p>
@@ -1060,7 +1123,7 @@ export default function ProfilePage() {
                 type="url"
                 value={newUrlToolUrl}
                 onChange={(e) => setNewUrlToolUrl(e.target.value)}
-                placeholder="https://api.example.com/endpoint"
+                placeholder="https://api.example.com/items/{id}"
                 required
                 className="w-full px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground"
               />
@@ -1110,6 +1173,16 @@ export default function ProfilePage() {
               )}
             </div>
 
+            <UrlToolTemplateFields
+              method={newUrlToolMethod}
+              parameters={newUrlToolParameters}
+              onParametersChange={setNewUrlToolParameters}
+              queryParams={newUrlToolQueryParams}
+              onQueryParamsChange={setNewUrlToolQueryParams}
+              bodyTemplate={newUrlToolBodyTemplate}
+              onBodyTemplateChange={setNewUrlToolBodyTemplate}
+            />
+
             <div className="flex gap-2">
               <Button type="submit" disabled={loading}>
                 {editingUrlTool ? "Update Tool" : "Add URL Tool"}
@@ -1145,8 +1218,21 @@ export default function ProfilePage() {
                         {Object.keys(tool.headers).length} custom header{Object.keys(tool.headers).length !== 1 ? 's' : ''}
                       </p>
                     )}
+                    {tool.parameters?.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1 font-mono">
+                        ({tool.parameters.map((p) => `${p.name}${p.required ? "" : "?"}: ${p.type}`).join(", ")})
+                      </p>
+                    )}
                   </div>
                   <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setTestingUrlTool(tool)}
+                      disabled={loading}
+                    >
+                      Test
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -1172,6 +1258,23 @@ export default function ProfilePage() {
               No URL tools configured
             </p>
           )}
+
+          {testingUrlTool && (
+            <UrlToolTestDialog
+              tool={testingUrlTool}
+              onRun={(args) => api.urlTools.test(testingUrlTool.id, args)}
+              onClose={() => setTestingUrlTool(null)}
+            />
+          )}
+
+          {importingOpenApi && (
+            <OpenApiImportDialog
+              onPreview={api.urlTools.previewImport}
+              onImport={api.urlTools.importOpenApi}
+              onImported={loadUrlTools}
+              onClose={() => setImportingOpenApi(false)}
+            />
+          )}
         </section>
 
         {/* MQTT Broker */}
@@ -1296,6 +1399,12 @@ export default function ProfilePage() {
           </form>
         </section>
 
+        {/* Inbound Email */}
+        <section className="bg-card rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-card-foreground mb-4">Email Inbox</h2>
+          <EmailInboxSettings />
+        </section>
+
         {/* Notification Settings */}
         <section className="bg-card rounded-lg shadow p-6">
           <h2 className="text-lg font-semibold text-card-foreground mb-4">Notification Settings</h2>
@@ -1359,6 +1468,11 @@ export default function ProfilePage() {
                   <p className="text-xs text-muted-foreground">
                     Add one or more named email destinations. Agents and schedules can target a specific destination by name.
                   </p>
+                  <MailTransportFields
+                    value={mailTransport}
+                    onChange={setMailTransport}
+                    noneLabel="Team's mail settings (or log only)"
+                  />
                 </div>
               )}
             </div>
@@ -1422,23 +1536,42 @@ export default function ProfilePage() {
                       key={index}
                       className="flex items-center justify-between p-3 bg-muted rounded-md"
                     >
-                      <div>
-                        <p className="font-medium text-sm text-foreground">{webhook.name}</p>
+                      <div className="min-w-0">
+                        <p className="font-medium text-sm text-foreground">
+                          {webhook.name}
+                          <span className="ml-2 text-xs font-normal text-muted-foreground">
+                            {WEBHOOK_TEMPLATE_LABELS[webhook.template ?? "generic"]}
+                          </span>
+                        </p>
                         <p className="text-xs text-muted-foreground font-mono">{webhook.url}</p>
+                        <p className="text-xs text-muted-foreground font-mono break-all">
+                          {webhook.secret ? `Signing secret: ${webhook.secret}` : "Signing secret generated on save"}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        {webhook.secret && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => rotateWebhookSecret(index)}
+                          >
+                            Rotate Secret
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => removeWebhook(index)}
+                        >
+                          Remove
+                        </Button>
                       </div>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => removeWebhook(index)}
-                      >
-                        Remove
-                      </Button>
                     </div>
                   ))}
                 </div>
               )}
 
-              <div className="grid grid-cols-[1fr_2fr_auto] gap-2">
+              <div className="grid grid-cols-[1fr_2fr_auto_auto] gap-2">
                 <input
                   type="text"
                   value={newWebhookName}
@@ -1453,6 +1586,15 @@ export default function ProfilePage() {
                   placeholder="https://..."
                   className="px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm"
                 />
+                <select
+                  value={newWebhookTemplate}
+                  onChange={(e) => setNewWebhookTemplate(e.target.value as WebhookTemplate)}
+                  className="px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm"
+                >
+                  {Object.entries(WEBHOOK_TEMPLATE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
                 <Button variant="outline" size="sm" onClick={addWebhook}>
                   Add
                 </Button>
@@ -1464,6 +1606,21 @@ export default function ProfilePage() {
             </Button>
           </div>
         </section>
+
+        {/* Quiet Hours, Digests and Rate Limits */}
+        <section className="bg-card rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-card-foreground mb-4">Delivery Rules</h2>
+          <NotificationPolicySettings />
+        </section>
+
+        {/* Budgets */}
+        <section className="bg-card rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-card-foreground mb-4">Budgets</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Monthly limits on model spend and tokens. Agents stop running once a limit is reached, and you're notified when usage crosses the warning threshold.
+          </p>
+          <BudgetSettings scope="personal" />
+        </section>
       </main>
     </div>
   );
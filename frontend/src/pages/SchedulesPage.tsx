@@ -12,7 +12,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { api, type Schedule, type ScheduleExecution, type NotifierChannel, type EmailConfig, type WebhookConfig } from "../lib/api";
+import { api, type Schedule, type ScheduleExecution, type NotifierChannel, type EmailConfig, type WebhookConfig, type Workflow } from "../lib/api";
 
 interface Agent {
   id: number;
@@ -20,6 +20,24 @@ interface Agent {
   name: string;
 }
 
+/** Fact mappings are edited as one "fact = template" line per fact */
+function formatFactMapping(mapping: Record<string, string>): string {
+  return Object.entries(mapping)
+    .map(([fact, template]) => `${fact} = ${template}`)
+    .join("\n");
+}
+
+function parseFactMapping(text: string): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const eq = line.indexOf("=");
+    if (eq === -1) continue;
+    const fact = line.slice(0, eq).trim();
+    if (fact) mapping[fact] = line.slice(eq + 1).trim();
+  }
+  return mapping;
+}
+
 export default function SchedulesPage() {
   const [schedules, setSchedules] = useState<Schedule[]>([]);
   const [agents, setAgents] = useState<Agent[]>([]);
@@ -39,6 +57,9 @@ export default function SchedulesPage() {
   const [formConversationMode, setFormConversationMode] = useState<"new" | "continue">("new");
   const [formNotifier, setFormNotifier] = useState<"" | NotifierChannel>("");
   const [formNotifierDestination, setFormNotifierDestination] = useState("");
+  const [formWorkflowId, setFormWorkflowId] = useState("");
+  const [formWorkflowFacts, setFormWorkflowFacts] = useState("");
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
 
   // Available notification destinations (for dropdowns)
   const [availableEmails, setAvailableEmails] = useState<EmailConfig[]>([]);
@@ -48,8 +69,17 @@ export default function SchedulesPage() {
     loadSchedules();
     loadAgents();
     loadNotificationDestinations();
+    loadWorkflows();
   }, []);
 
+  const loadWorkflows = async () => {
+    try {
+      setWorkflows(await api.workflows.list());
+    } catch {
+      // Workflows are optional for schedules
+    }
+  };
+
   const loadNotificationDestinations = async () => {
     try {
       const settings = await api.notifications.getSettings();
@@ -115,6 +145,8 @@ export default function SchedulesPage() {
     setFormConversationMode("new");
     setFormNotifier("");
     setFormNotifierDestination("");
+    setFormWorkflowId("");
+    setFormWorkflowFacts("");
     setDialogOpen(true);
   };
 
@@ -128,12 +160,16 @@ export default function SchedulesPage() {
     setFormConversationMode(schedule.conversation_mode);
     setFormNotifier(schedule.notifier || "");
     setFormNotifierDestination(schedule.notifier_destination || "");
+    setFormWorkflowId(schedule.workflow_id ? String(schedule.workflow_id) : "");
+    setFormWorkflowFacts(formatFactMapping(schedule.workflow_facts ?? {}));
     setDialogOpen(true);
   };
 
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    const workflowId = formWorkflowId ? parseInt(formWorkflowId) : null;
+    const workflowFacts = workflowId ? parseFactMapping(formWorkflowFacts) : {};
 
     try {
       if (editingSchedule) {
@@ -144,6 +180,8 @@ export default function SchedulesPage() {
           schedule_value: formValue,
           notifier: formNotifier || null,
           notifier_destination: formNotifierDestination || null,
+          workflow_id: workflowId,
+          workflow_facts: workflowFacts,
         });
       } else {
         await api.schedules.create(formAgentSlug, {
@@ -154,6 +192,8 @@ export default function SchedulesPage() {
           conversation_mode: formConversationMode,
           notifier: formNotifier || null,
           notifier_destination: formNotifierDestination || null,
+          workflow_id: workflowId,
+          workflow_facts: workflowFacts,
         });
       }
       setDialogOpen(false);
@@ -283,6 +323,11 @@ export default function SchedulesPage() {
                               {schedule.notifier_destination ? `: ${schedule.notifier_destination}` : ""}
                             </Badge>
                           )}
+                          {schedule.workflow_id && (
+                            <Badge variant="outline">
+                              Workflow: {workflows.find((w) => w.id === schedule.workflow_id)?.name ?? `#${schedule.workflow_id}`}
+                            </Badge>
+                          )}
                           {!schedule.enabled && (
                             <Badge variant="secondary">Paused</Badge>
                           )}
@@ -493,6 +538,39 @@ export default function SchedulesPage() {
                 </div>
               )}
 
+              <div>
+                <label className="block text-sm font-medium mb-2">Workflow</label>
+                <select
+                  value={formWorkflowId}
+                  onChange={(e) => setFormWorkflowId(e.target.value)}
+                  className="w-full px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground"
+                >
+                  <option value="">None (just send the prompt)</option>
+                  {workflows.map((w) => (
+                    <option key={w.id} value={w.id}>{w.name}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Start this workflow on each run and drive it to completion without anyone present.
+                </p>
+              </div>
+
+              {formWorkflowId && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Starting Facts (optional)</label>
+                  <textarea
+                    value={formWorkflowFacts}
+                    onChange={(e) => setFormWorkflowFacts(e.target.value)}
+                    placeholder={"report_period = last week\nreview.notes = {prompt}"}
+                    rows={3}
+                    className="w-full px-3 py-2 font-mono text-sm border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground"
+                  />
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    One <code>fact = value</code> per line. Use <code>step_id.fact</code> for facts after the first step; <code>{"{prompt}"}</code> inserts the prompt.
+                  </p>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium mb-2">Notifier Override</label>
                 <select
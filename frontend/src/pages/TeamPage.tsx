@@ -3,7 +3,12 @@ import { Button } from "@/components/ui/button";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import { Switch } from "@/components/ui/switch";
 import { useAuth } from "../contexts/AuthContext";
-import { api, type WebhookConfig, type EmailConfig } from "../lib/api";
+import { api, WEBHOOK_TEMPLATE_LABELS, type WebhookConfig, type WebhookTemplate, type EmailConfig, type UrlToolParameter } from "../lib/api";
+import MailTransportFields, { mailTransportForm, mailTransportInput, type MailTransportForm } from "../components/MailTransportFields";
+import { UrlToolTemplateFields, UrlToolTestDialog, pairsToRecord, recordToPairs, type KeyValuePair } from "../components/UrlToolEditor";
+import { OpenApiImportDialog } from "../components/OpenApiImportDialog";
+import { BudgetSettings } from "../components/BudgetSettings";
+import { ModelProviderSettings } from "../components/ModelProviderSettings";
 
 interface McpServer {
   id: number;
@@ -22,6 +27,9 @@ interface UrlTool {
   url: string;
   method: string;
   headers?: Record<string, string>;
+  parameters: UrlToolParameter[];
+  query_params: Record<string, string> | null;
+  body_template: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -66,6 +74,8 @@ export default function TeamPage() {
   const [error, setError] = useState<string | null>(null);
   const [editingMcp, setEditingMcp] = useState<McpServer | null>(null);
   const [editingUrlTool, setEditingUrlTool] = useState<UrlTool | null>(null);
+  const [testingUrlTool, setTestingUrlTool] = useState<UrlTool | null>(null);
+  const [importingOpenApi, setImportingOpenApi] = useState(false);
 
   // Credentials form
   const [openaiKey, setOpenaiKey] = useState("");
@@ -89,6 +99,9 @@ export default function TeamPage() {
   const [newUrlToolUrl, setNewUrlToolUrl] = useState("");
   const [newUrlToolMethod, setNewUrlToolMethod] = useState("GET");
   const [newUrlToolHeaders, setNewUrlToolHeaders] = useState<HeaderPair[]>([]);
+  const [newUrlToolParameters, setNewUrlToolParameters] = useState<UrlToolParameter[]>([]);
+  const [newUrlToolQueryParams, setNewUrlToolQueryParams] = useState<KeyValuePair[]>([]);
+  const [newUrlToolBodyTemplate, setNewUrlToolBodyTemplate] = useState("");
 
   // Notification settings
   const [notifEmailEnabled, setNotifEmailEnabled] = useState(true);
@@ -98,9 +111,11 @@ export default function TeamPage() {
   const [webhooks, setWebhooks] = useState<WebhookConfig[]>([]);
   const [newWebhookName, setNewWebhookName] = useState("");
   const [newWebhookUrl, setNewWebhookUrl] = useState("");
+  const [newWebhookTemplate, setNewWebhookTemplate] = useState<WebhookTemplate>("generic");
   const [pushoverEnabled, setPushoverEnabled] = useState(false);
   const [pushoverUserKey, setPushoverUserKey] = useState("");
   const [pushoverApiToken, setPushoverApiToken] = useState("");
+  const [mailTransport, setMailTransport] = useState<MailTransportForm>(mailTransportForm(null));
   const [notifLoading, setNotifLoading] = useState(false);
 
   useEffect(() => {
@@ -160,6 +175,7 @@ export default function TeamPage() {
       setPushoverEnabled(s.pushover_enabled);
       setPushoverUserKey(s.pushover_user_key ?? "");
       setPushoverApiToken(s.pushover_api_token ?? "");
+      setMailTransport(mailTransportForm(s.mail_transport));
     } catch {
       // settings may not exist yet
     }
@@ -290,8 +306,12 @@ export default function TeamPage() {
         url: newUrlToolUrl,
         method: newUrlToolMethod,
         headers: Object.keys(headers).length > 0 ? headers : undefined,
+        parameters: newUrlToolParameters,
+        query_params: pairsToRecord(newUrlToolQueryParams),
+        body_template: newUrlToolBodyTemplate.trim() || null,
       });
       setNewUrlToolName(""); setNewUrlToolDescription(""); setNewUrlToolUrl(""); setNewUrlToolMethod("GET"); setNewUrlToolHeaders([]);
+      setNewUrlToolParameters([]); setNewUrlToolQueryParams([]); setNewUrlToolBodyTemplate("");
       await loadUrlTools();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to add URL tool");
@@ -307,11 +327,15 @@ export default function TeamPage() {
     setNewUrlToolUrl(tool.url);
     setNewUrlToolMethod(tool.method);
     setNewUrlToolHeaders(tool.headers ? Object.entries(tool.headers).map(([key, value]) => ({ key, value })) : []);
+    setNewUrlToolParameters(tool.parameters ?? []);
+    setNewUrlToolQueryParams(recordToPairs(tool.query_params));
+    setNewUrlToolBodyTemplate(tool.body_template || "");
   };
 
   const cancelEditUrlTool = () => {
     setEditingUrlTool(null);
     setNewUrlToolName(""); setNewUrlToolDescription(""); setNewUrlToolUrl(""); setNewUrlToolMethod("GET"); setNewUrlToolHeaders([]);
+    setNewUrlToolParameters([]); setNewUrlToolQueryParams([]); setNewUrlToolBodyTemplate("");
   };
 
   const handleUpdateUrlTool = async (e: React.FormEvent) => {
@@ -329,6 +353,9 @@ export default function TeamPage() {
         url: newUrlToolUrl,
         method: newUrlToolMethod,
         headers: Object.keys(headers).length > 0 ? headers : undefined,
+        parameters: newUrlToolParameters,
+        query_params: pairsToRecord(newUrlToolQueryParams),
+        body_template: newUrlToolBodyTemplate.trim() || null,
       });
       cancelEditUrlTool();
       await loadUrlTools();
@@ -356,14 +383,17 @@ export default function TeamPage() {
     setNotifLoading(true);
     setError(null);
     try {
-      await api.team.updateNotificationSettings({
+      const { settings } = await api.team.updateNotificationSettings({
         email_enabled: notifEmailEnabled,
         email_addresses: emailAddresses,
         webhook_urls: webhooks,
         pushover_enabled: pushoverEnabled,
         pushover_user_key: pushoverUserKey || undefined,
         pushover_api_token: pushoverApiToken || undefined,
+        mail_transport: mailTransportInput(mailTransport),
       });
+      setMailTransport(mailTransportForm(settings.mail_transport));
+      setWebhooks(settings.webhook_urls);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to save notification settings");
     } finally {
@@ -381,14 +411,19 @@ export default function TeamPage() {
       setError("A webhook with that name already exists");
       return;
     }
-    setWebhooks([...webhooks, { name: newWebhookName.trim(), url: newWebhookUrl.trim() }]);
-    setNewWebhookName(""); setNewWebhookUrl("");
+    setWebhooks([...webhooks, { name: newWebhookName.trim(), url: newWebhookUrl.trim(), template: newWebhookTemplate }]);
+    setNewWebhookName(""); setNewWebhookUrl(""); setNewWebhookTemplate("generic");
   };
 
   const removeWebhook = (index: number) => {
     setWebhooks(webhooks.filter((_, i) => i !== index));
   };
 
+  /** An empty secret is replaced with a new one on save */
+  const rotateWebhookSecret = (index: number) => {
+    setWebhooks(webhooks.map((w, i) => (i === index ? { ...w, secret: "" } : w)));
+  };
+
   const addEmailAddress = () => {
     if (!newEmailName.trim() || !newEmailAddress.trim()) return;
     if (emailAddresses.some((e) => e.name === newEmailName.trim())) {
@@ -532,6 +567,15 @@ export default function TeamPage() {
               </form>
             </section>
 
+            {/* Custom Model Providers */}
+            <section className="bg-card border rounded-lg p-6 space-y-4">
+              <h2 className="text-base font-semibold">Custom Model Providers</h2>
+              <p className="text-sm text-muted-foreground">
+                OpenAI-compatible endpoints shared by team agents. Their models are used as <code>name:model-id</code>.
+              </p>
+              <ModelProviderSettings scope="team" />
+            </section>
+
             {/* Timezone */}
             <section className="bg-card border rounded-lg p-6 space-y-4">
               <h2 className="text-base font-semibold">Timezone</h2>
@@ -643,7 +687,10 @@ export default function TeamPage() {
 
             {/* URL Tools */}
             <section className="bg-card border rounded-lg p-6 space-y-4">
-              <h2 className="text-base font-semibold">URL Tools</h2>
+              <div className="flex items-center justify-between">
+                <h2 className="text-base font-semibold">URL Tools</h2>
+                <Button variant="outline" size="sm" onClick={() => setImportingOpenApi(true)}>Import OpenAPI</Button>
+              </div>
               <p className="text-sm text-muted-foreground">URL tools available to all team agents.</p>
 
               {urlTools.length > 0 && (
@@ -665,6 +712,15 @@ export default function TeamPage() {
                               <Button type="button" variant="ghost" size="sm" onClick={() => removeUrlHeader(i)}>Remove</Button>
                             </div>
                           ))}
+                          <UrlToolTemplateFields
+                            method={newUrlToolMethod}
+                            parameters={newUrlToolParameters}
+                            onParametersChange={setNewUrlToolParameters}
+                            queryParams={newUrlToolQueryParams}
+                            onQueryParamsChange={setNewUrlToolQueryParams}
+                            bodyTemplate={newUrlToolBodyTemplate}
+                            onBodyTemplateChange={setNewUrlToolBodyTemplate}
+                          />
                           <div className="flex gap-2">
                             <Button type="button" variant="outline" size="sm" onClick={addUrlHeader}>Add Header</Button>
                             <Button type="submit" size="sm" disabled={loading}>Save</Button>
@@ -677,7 +733,13 @@ export default function TeamPage() {
                             <p className="font-medium text-sm">{tool.name}</p>
                             <p className="text-xs text-muted-foreground">{tool.method} {tool.url}</p>
                             {tool.description && <p className="text-xs text-muted-foreground">{tool.description}</p>}
+                            {tool.parameters?.length > 0 && (
+                              <p className="text-xs text-muted-foreground font-mono">
+                                ({tool.parameters.map(p => `${p.name}${p.required ? "" : "?"}: ${p.type}`).join(", ")})
+                              </p>
+                            )}
                           </div>
+                          <Button variant="ghost" size="sm" onClick={() => setTestingUrlTool(tool)}>Test</Button>
                           <Button variant="ghost" size="sm" onClick={() => startEditUrlTool(tool)}>Edit</Button>
                           <Button variant="ghost" size="sm" onClick={() => handleDeleteUrlTool(tool.id)} className="text-destructive hover:text-destructive">Delete</Button>
                         </>
@@ -703,12 +765,38 @@ export default function TeamPage() {
                       <Button type="button" variant="ghost" size="sm" onClick={() => removeUrlHeader(i)}>Remove</Button>
                     </div>
                   ))}
+                  <UrlToolTemplateFields
+                    method={newUrlToolMethod}
+                    parameters={newUrlToolParameters}
+                    onParametersChange={setNewUrlToolParameters}
+                    queryParams={newUrlToolQueryParams}
+                    onQueryParamsChange={setNewUrlToolQueryParams}
+                    bodyTemplate={newUrlToolBodyTemplate}
+                    onBodyTemplateChange={setNewUrlToolBodyTemplate}
+                  />
                   <div className="flex gap-2">
                     <Button type="button" variant="outline" size="sm" onClick={addUrlHeader}>Add Header</Button>
                     <Button type="submit" disabled={loading}>Add Tool</Button>
                   </div>
                 </form>
               )}
+
+              {testingUrlTool && (
+                <UrlToolTestDialog
+                  tool={testingUrlTool}
+                  onRun={args => api.team.testUrlTool(testingUrlTool.id, args)}
+                  onClose={() => setTestingUrlTool(null)}
+                />
+              )}
+
+              {importingOpenApi && (
+                <OpenApiImportDialog
+                  onPreview={api.team.previewUrlToolImport}
+                  onImport={api.team.importUrlTools}
+                  onImported={loadUrlTools}
+                  onClose={() => setImportingOpenApi(false)}
+                />
+              )}
             </section>
 
             {/* Notification Settings */}
@@ -768,6 +856,10 @@ export default function TeamPage() {
                     <p className="text-xs text-muted-foreground">
                       Add one or more named email destinations. Agents and schedules can target a specific destination by name.
                     </p>
+                    <MailTransportFields value={mailTransport} onChange={setMailTransport} />
+                    <p className="text-xs text-muted-foreground">
+                      Members who haven't set up their own mail delivery use this.
+                    </p>
                   </div>
                 )}
 
@@ -775,13 +867,22 @@ export default function TeamPage() {
                   <label className="block text-sm font-medium mb-2">Webhook URLs</label>
                   {webhooks.map((wh, i) => (
                     <div key={i} className="flex items-center gap-2 mb-2">
-                      <span className="text-sm flex-1">{wh.name}: {wh.url}</span>
+                      <div className="flex-1 min-w-0">
+                        <span className="text-sm">{wh.name}: {wh.url} ({WEBHOOK_TEMPLATE_LABELS[wh.template ?? "generic"]})</span>
+                        <p className="text-xs text-muted-foreground font-mono break-all">
+                          {wh.secret ? `Signing secret: ${wh.secret}` : "Signing secret generated on save"}
+                        </p>
+                      </div>
+                      {wh.secret && <Button type="button" variant="ghost" size="sm" onClick={() => rotateWebhookSecret(i)}>Rotate Secret</Button>}
                       <Button type="button" variant="ghost" size="sm" onClick={() => removeWebhook(i)} className="text-destructive hover:text-destructive">Remove</Button>
                     </div>
                   ))}
                   <div className="flex gap-2">
                     <input type="text" value={newWebhookName} onChange={e => setNewWebhookName(e.target.value)} placeholder="Name" className="flex-1 border rounded px-3 py-2 text-sm bg-background" />
                     <input type="url" value={newWebhookUrl} onChange={e => setNewWebhookUrl(e.target.value)} placeholder="https://..." className="flex-1 border rounded px-3 py-2 text-sm bg-background" />
+                    <select value={newWebhookTemplate} onChange={e => setNewWebhookTemplate(e.target.value as WebhookTemplate)} className="border rounded px-3 py-2 text-sm bg-background">
+                      {Object.entries(WEBHOOK_TEMPLATE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
                     <Button type="button" variant="outline" size="sm" onClick={addWebhook}>Add</Button>
                   </div>
                 </div>
@@ -810,6 +911,15 @@ export default function TeamPage() {
                 </Button>
               </div>
             </section>
+
+            <section className="bg-card border rounded-lg p-6 space-y-4">
+              <h2 className="text-base font-semibold">Team Budget</h2>
+              <p className="text-sm text-muted-foreground">
+                A monthly limit shared by everyone on @{domain} and the team's agents. Agent runs are refused once the
+                team has reached it.
+              </p>
+              <BudgetSettings scope="team" />
+            </section>
           </>
         )}
       </main>
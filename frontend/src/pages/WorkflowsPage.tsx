@@ -13,10 +13,14 @@ import {
 } from "@/components/ui/dialog";
 import {
   api,
+  ApiError,
   type Workflow,
   type ValidateWorkflowResult,
 } from "../lib/api";
 import WorkflowDiagram from "../components/WorkflowDiagram";
+import WorkflowRuns from "../components/WorkflowRuns";
+import WorkflowRevisions from "../components/WorkflowRevisions";
+import StepMigrationFields, { stepIdsOf } from "../components/StepMigrationFields";
 
 const EXAMPLE_YAML = `name: My Workflow
 description: >
@@ -59,6 +63,9 @@ export default function WorkflowsPage() {
   const [validationResult, setValidationResult] =
     useState<ValidateWorkflowResult | null>(null);
   const [validating, setValidating] = useState(false);
+  // Steps running executions are on that the edited YAML removes
+  const [removedStepIds, setRemovedStepIds] = useState<string[]>([]);
+  const [stepMigrations, setStepMigrations] = useState<Record<string, string>>({});
 
   useEffect(() => {
     loadWorkflows();
@@ -82,6 +89,8 @@ export default function WorkflowsPage() {
     setFormDescription("");
     setFormYaml(EXAMPLE_YAML);
     setValidationResult(null);
+    setRemovedStepIds([]);
+    setStepMigrations({});
     setDialogOpen(true);
   };
 
@@ -91,6 +100,8 @@ export default function WorkflowsPage() {
     setFormDescription(workflow.description || "");
     setFormYaml(workflow.yaml_content);
     setValidationResult(null);
+    setRemovedStepIds([]);
+    setStepMigrations({});
     setDialogOpen(true);
   };
 
@@ -121,6 +132,7 @@ export default function WorkflowsPage() {
           name: formName,
           description: formDescription || undefined,
           yaml_content: formYaml,
+          step_migrations: removedStepIds.length ? stepMigrations : undefined,
         });
       } else {
         await api.workflows.create({
@@ -132,7 +144,11 @@ export default function WorkflowsPage() {
       setDialogOpen(false);
       await loadWorkflows();
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to save workflow");
+      if (err instanceof ApiError && Array.isArray(err.data.removed_step_ids)) {
+        setRemovedStepIds(err.data.removed_step_ids as string[]);
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to save workflow");
+      }
     } finally {
       setSaving(false);
     }
@@ -256,6 +272,8 @@ export default function WorkflowsPage() {
                         <TabsList>
                           <TabsTrigger value="diagram">Diagram</TabsTrigger>
                           <TabsTrigger value="yaml">YAML</TabsTrigger>
+                          <TabsTrigger value="runs">Runs</TabsTrigger>
+                          <TabsTrigger value="history">History</TabsTrigger>
                         </TabsList>
                         <TabsContent value="diagram">
                           <WorkflowDiagram yamlContent={workflow.yaml_content} />
@@ -265,6 +283,12 @@ export default function WorkflowsPage() {
                             {workflow.yaml_content}
                           </pre>
                         </TabsContent>
+                        <TabsContent value="runs">
+                          <WorkflowRuns workflow={workflow} />
+                        </TabsContent>
+                        <TabsContent value="history">
+                          <WorkflowRevisions workflow={workflow} onRolledBack={loadWorkflows} />
+                        </TabsContent>
                       </Tabs>
                     </div>
                   )}
@@ -338,6 +362,8 @@ export default function WorkflowsPage() {
                   onChange={(e) => {
                     setFormYaml(e.target.value);
                     setValidationResult(null);
+                    setRemovedStepIds([]);
+                    setStepMigrations({});
                   }}
                   rows={18}
                   required
@@ -346,6 +372,15 @@ export default function WorkflowsPage() {
                 />
               </div>
 
+              {removedStepIds.length > 0 && (
+                <StepMigrationFields
+                  removedStepIds={removedStepIds}
+                  stepIds={stepIdsOf(formYaml)}
+                  value={stepMigrations}
+                  onChange={setStepMigrations}
+                />
+              )}
+
               {validationResult && (
                 <div
                   className={
@@ -408,7 +443,10 @@ export default function WorkflowsPage() {
               >
                 Cancel
               </Button>
-              <Button type="submit" disabled={saving}>
+              <Button
+                type="submit"
+                disabled={saving || removedStepIds.some((id) => !stepMigrations[id])}
+              >
                 {saving
                   ? "Saving..."
                   : editingWorkflow
@@ -40,10 +40,16 @@ import { createSkillsHandlers } from "./backend/handlers/skills";
 import { createScheduleHandlers } from "./backend/handlers/schedules";
 import { createNotificationHandlers } from "./backend/handlers/notifications";
 import { createMqttHandlers } from "./backend/handlers/mqtt";
+import { createChatChannelHandlers } from "./backend/handlers/chat-channels";
+import { createInboundEmailHandlers } from "./backend/handlers/inbound-email";
 import { createChatHandlers } from "./backend/handlers/chat";
 import { createTeamHandlers } from "./backend/handlers/team";
 import { createWorkflowHandlers } from "./backend/handlers/workflows";
 import { createWorkflowBuilderHandlers } from "./backend/handlers/workflow-builder";
+import { createUsageHandlers } from "./backend/handlers/usage";
+import { createBudgetHandlers } from "./backend/handlers/budgets";
+import { createModelProviderHandlers } from "./backend/handlers/model-providers";
+import { createEmbeddingHandlers } from "./backend/handlers/embeddings";
 import { createAuthMiddleware } from "./backend/middleware/auth";
 import { GoogleOAuthService } from "./backend/auth/google-oauth";
 import { PostgresUserRepository } from "./backend/repositories/postgres/PostgresUserRepository";
@@ -57,13 +63,26 @@ import { PostgresSkillRepository } from "./backend/repositories/postgres/Postgre
 import { PostgresScheduleRepository } from "./backend/repositories/postgres/PostgresScheduleRepository";
 import { PostgresNotificationRepository } from "./backend/repositories/postgres/PostgresNotificationRepository";
 import { PostgresMqttRepository } from "./backend/repositories/postgres/PostgresMqttRepository";
+import { PostgresChatChannelRepository } from "./backend/repositories/postgres/PostgresChatChannelRepository";
+import { PostgresEmailInboxRepository } from "./backend/repositories/postgres/PostgresEmailInboxRepository";
 import { PostgresTeamRepository } from "./backend/repositories/postgres/PostgresTeamRepository";
 import { PostgresWorkflowRepository } from "./backend/repositories/postgres/PostgresWorkflowRepository";
+import { PostgresUsageRepository } from "./backend/repositories/postgres/PostgresUsageRepository";
+import { PostgresBudgetRepository } from "./backend/repositories/postgres/PostgresBudgetRepository";
+import { PostgresModelProviderRepository } from "./backend/repositories/postgres/PostgresModelProviderRepository";
 import { AgentFactory } from "./backend/services/AgentFactory";
 import { AVAILABLE_MODELS } from "./backend/services/ModelResolver";
 import { SchedulerService } from "./backend/services/SchedulerService";
+import { BudgetService } from "./backend/services/BudgetService";
+import { ReembedService } from "./backend/services/ReembedService";
+import { MemoryConsolidationService } from "./backend/services/MemoryConsolidationService";
+import { WorkflowTimeoutService } from "./backend/services/WorkflowTimeoutService";
 import { NotificationService } from "./backend/services/NotificationService";
 import { MqttService } from "./backend/services/MqttService";
+import { ChatChannelService } from "./backend/services/ChatChannelService";
+import { InboundEmailService } from "./backend/services/InboundEmailService";
+import { createChatAdapters } from "./backend/channels";
+import { InboundSmtpServer } from "./backend/mail";
 import type { SqlClient } from "./backend/types/sql";
 import type { UserRepository } from "./backend/repositories/UserRepository";
 import type { SessionRepository } from "./backend/repositories/SessionRepository";
@@ -76,8 +95,13 @@ import type { SkillRepository } from "./backend/repositories/SkillRepository";
 import type { ScheduleRepository } from "./backend/repositories/ScheduleRepository";
 import type { NotificationRepository } from "./backend/repositories/NotificationRepository";
 import type { MqttRepository } from "./backend/repositories/MqttRepository";
+import type { ChatChannelRepository } from "./backend/repositories/ChatChannelRepository";
+import type { EmailInboxRepository } from "./backend/repositories/EmailInboxRepository";
 import type { TeamRepository } from "./backend/repositories/TeamRepository";
 import type { WorkflowRepository } from "./backend/repositories/WorkflowRepository";
+import type { UsageRepository } from "./backend/repositories/UsageRepository";
+import type { BudgetRepository } from "./backend/repositories/BudgetRepository";
+import type { ModelProviderRepository } from "./backend/repositories/ModelProviderRepository";
 
 interface Config {
   port: number;
@@ -88,6 +112,15 @@ interface Config {
   googleRedirectUri?: string;
   frontendUrl: string;
   encryptionSecret?: string;
+  /** Where the file mail transport writes mailboxes */
+  mailDir: string;
+  /** Domain of users' inbound email addresses */
+  inboundEmailDomain?: string;
+  /** Shared secret for the inbound email webhook */
+  inboundEmailSecret?: string;
+  /** Port for the inbound SMTP listener; off when unset */
+  inboundSmtpPort?: number;
+  inboundSmtpHost: string;
 }
 
 interface Dependencies {
@@ -103,13 +136,24 @@ interface Dependencies {
   scheduleRepository: ScheduleRepository | null;
   notificationRepository: NotificationRepository | null;
   mqttRepository: MqttRepository | null;
+  chatChannelRepository: ChatChannelRepository | null;
+  emailInboxRepository: EmailInboxRepository | null;
   teamRepository: TeamRepository | null;
   workflowRepository: WorkflowRepository | null;
+  usageRepository: UsageRepository | null;
+  budgetRepository: BudgetRepository | null;
+  modelProviderRepository: ModelProviderRepository | null;
   googleOAuth: GoogleOAuthService | null;
   agentFactory: AgentFactory | null;
+  budgetService: BudgetService | null;
+  reembedService: ReembedService | null;
+  memoryConsolidationService: MemoryConsolidationService | null;
   schedulerService: SchedulerService | null;
+  workflowTimeoutService: WorkflowTimeoutService | null;
   notificationService: NotificationService | null;
   mqttService: MqttService | null;
+  chatChannelService: ChatChannelService | null;
+  inboundEmailService: InboundEmailService | null;
 }
 
 function loadConfig(): Config {
@@ -122,6 +166,11 @@ function loadConfig(): Config {
     googleRedirectUri: process.env.GOOGLE_REDIRECT_URI,
     frontendUrl: process.env.FRONTEND_URL || "http://localhost:3000",
     encryptionSecret: process.env.ENCRYPTION_SECRET,
+    mailDir: process.env.MAIL_DIR || "./mail",
+    inboundEmailDomain: process.env.INBOUND_EMAIL_DOMAIN,
+    inboundEmailSecret: process.env.INBOUND_EMAIL_SECRET,
+    inboundSmtpPort: process.env.INBOUND_SMTP_PORT ? Number(process.env.INBOUND_SMTP_PORT) : undefined,
+    inboundSmtpHost: process.env.INBOUND_SMTP_HOST || "127.0.0.1",
   };
 }
 
@@ -139,8 +188,10 @@ async function startServer(config: Config, deps: Dependencies) {
     "/skills": indexHtml,
     "/schedules": indexHtml,
     "/notifications": indexHtml,
+    "/channels": indexHtml,
     "/team": indexHtml,
     "/workflows": indexHtml,
+    "/approvals": indexHtml,
     "/workflow-builder": indexHtml,
     "/api/health": {
       GET: healthHandler,
@@ -243,6 +294,15 @@ async function startServer(config: Config, deps: Dependencies) {
         PUT: urlToolHandlers.update,
         DELETE: urlToolHandlers.remove,
       };
+      routes["/api/user/url-tools/:id/test"] = {
+        POST: urlToolHandlers.test,
+      };
+      routes["/api/user/url-tools/import/preview"] = {
+        POST: urlToolHandlers.importPreview,
+      };
+      routes["/api/user/url-tools/import"] = {
+        POST: urlToolHandlers.importOpenApi,
+      };
     }
 
     // Add agent routes
@@ -316,6 +376,7 @@ async function startServer(config: Config, deps: Dependencies) {
             agentRepository: deps.agentRepository,
             memoryRepository: deps.memoryRepository,
             userRepository: deps.userRepository,
+            modelProviderRepository: deps.modelProviderRepository,
             authenticate,
             encryptionSecret: config.encryptionSecret,
           });
@@ -331,6 +392,12 @@ async function startServer(config: Config, deps: Dependencies) {
           routes["/api/agents/:slug/memories/:key/tier"] = {
             PATCH: agentMemoriesHandlers.changeTier,
           };
+          routes["/api/agents/:slug/memory-changes"] = {
+            GET: agentMemoriesHandlers.listChanges,
+          };
+          routes["/api/agents/:slug/memory-changes/:id/revert"] = {
+            POST: agentMemoriesHandlers.revertChange,
+          };
         }
 
         // Add skills routes
@@ -369,6 +436,7 @@ async function startServer(config: Config, deps: Dependencies) {
           const scheduleHandlers = createScheduleHandlers({
             agentRepository: deps.agentRepository,
             scheduleRepository: deps.scheduleRepository,
+            workflowRepository: deps.workflowRepository,
             authenticate,
           });
 
@@ -400,6 +468,7 @@ async function startServer(config: Config, deps: Dependencies) {
             agentRepository: deps.agentRepository,
             notificationRepository: deps.notificationRepository,
             authenticate,
+            encryptionSecret: config.encryptionSecret,
           });
 
           routes["/api/notifications"] = {
@@ -414,6 +483,12 @@ async function startServer(config: Config, deps: Dependencies) {
           routes["/api/notifications/read-all"] = {
             POST: notificationHandlers.markAllRead,
           };
+          routes["/api/notifications/deliveries"] = {
+            GET: notificationHandlers.listDeliveries,
+          };
+          routes["/api/notifications/deliveries/:id/redeliver"] = {
+            POST: notificationHandlers.redeliver,
+          };
           routes["/api/user/notification-settings"] = {
             GET: notificationHandlers.getSettings,
             PUT: notificationHandlers.updateSettings,
@@ -424,6 +499,96 @@ async function startServer(config: Config, deps: Dependencies) {
           };
         }
 
+        // Add usage routes
+        if (deps.usageRepository) {
+          const usageHandlers = createUsageHandlers({
+            usageRepository: deps.usageRepository,
+            authenticate,
+          });
+
+          routes["/api/usage"] = {
+            GET: usageHandlers.getSummary,
+          };
+          routes["/api/usage/:group"] = {
+            GET: usageHandlers.getRollup,
+          };
+        }
+
+        // Add budget routes
+        if (deps.budgetRepository && deps.usageRepository) {
+          const budgetHandlers = createBudgetHandlers({
+            budgetRepository: deps.budgetRepository,
+            usageRepository: deps.usageRepository,
+            agentRepository: deps.agentRepository,
+            authenticate,
+          });
+
+          routes["/api/budgets"] = {
+            GET: budgetHandlers.listBudgets,
+          };
+          routes["/api/user/budget"] = {
+            PUT: budgetHandlers.updateUserBudget,
+            DELETE: budgetHandlers.deleteUserBudget,
+          };
+          routes["/api/team/budget"] = {
+            PUT: budgetHandlers.updateTeamBudget,
+            DELETE: budgetHandlers.deleteTeamBudget,
+          };
+          routes["/api/agents/:slug/budget"] = {
+            PUT: budgetHandlers.updateAgentBudget,
+            DELETE: budgetHandlers.deleteAgentBudget,
+          };
+        }
+
+        // Add custom model provider routes (also extends /api/models with their models)
+        if (deps.modelProviderRepository && config.encryptionSecret) {
+          const modelProviderHandlers = createModelProviderHandlers({
+            modelProviderRepository: deps.modelProviderRepository,
+            authenticate,
+            encryptionSecret: config.encryptionSecret,
+          });
+
+          routes["/api/models"] = {
+            GET: modelProviderHandlers.listModels,
+          };
+          routes["/api/user/model-providers"] = {
+            GET: modelProviderHandlers.listUserProviders,
+            POST: modelProviderHandlers.createUserProvider,
+          };
+          routes["/api/user/model-providers/:id"] = {
+            PUT: modelProviderHandlers.updateUserProvider,
+            DELETE: modelProviderHandlers.deleteUserProvider,
+          };
+          routes["/api/team/model-providers"] = {
+            GET: modelProviderHandlers.listTeamProviders,
+            POST: modelProviderHandlers.createTeamProvider,
+          };
+          routes["/api/team/model-providers/:id"] = {
+            PUT: modelProviderHandlers.updateTeamProvider,
+            DELETE: modelProviderHandlers.deleteTeamProvider,
+          };
+        }
+
+        // Add embedding settings routes
+        if (deps.userRepository && deps.memoryRepository && deps.reembedService && config.encryptionSecret) {
+          const embeddingHandlers = createEmbeddingHandlers({
+            userRepository: deps.userRepository,
+            memoryRepository: deps.memoryRepository,
+            modelProviderRepository: deps.modelProviderRepository,
+            reembedService: deps.reembedService,
+            authenticate,
+            encryptionSecret: config.encryptionSecret,
+          });
+
+          routes["/api/user/embeddings"] = {
+            GET: embeddingHandlers.getSettings,
+            PUT: embeddingHandlers.updateSettings,
+          };
+          routes["/api/user/embeddings/reembed"] = {
+            POST: embeddingHandlers.reembed,
+          };
+        }
+
         // Add MQTT routes
         if (deps.mqttRepository && config.encryptionSecret) {
           const mqttHandlers = createMqttHandlers({
@@ -453,6 +618,59 @@ async function startServer(config: Config, deps: Dependencies) {
             POST: mqttHandlers.reconnect,
           };
         }
+
+        // Add chat platform channel routes
+        if (deps.chatChannelRepository && config.encryptionSecret) {
+          const chatChannelHandlers = createChatChannelHandlers({
+            chatChannelRepository: deps.chatChannelRepository,
+            agentRepository: deps.agentRepository,
+            authenticate,
+            encryptionSecret: config.encryptionSecret,
+            frontendUrl: config.frontendUrl,
+            adapters: createChatAdapters(),
+            // Late-bind to deps.chatChannelService since it's created after server starts
+            getChatChannelService: () => deps.chatChannelService,
+          });
+
+          routes["/api/chat-channels"] = {
+            GET: chatChannelHandlers.listChannels,
+            POST: chatChannelHandlers.createChannel,
+          };
+          routes["/api/chat-channels/:id"] = {
+            PUT: chatChannelHandlers.updateChannel,
+            DELETE: chatChannelHandlers.deleteChannel,
+          };
+          routes["/api/chat-channels/:id/register"] = {
+            POST: chatChannelHandlers.registerChannel,
+          };
+          // Platforms authenticate with their own signatures, not a session
+          routes["/api/chat-inbound/:token"] = {
+            POST: chatChannelHandlers.receiveInbound,
+          };
+        }
+
+        // Add inbound email routes
+        if (deps.emailInboxRepository) {
+          const inboundEmailHandlers = createInboundEmailHandlers({
+            emailInboxRepository: deps.emailInboxRepository,
+            agentRepository: deps.agentRepository,
+            authenticate,
+            domain: config.inboundEmailDomain ?? null,
+            webhookSecret: config.inboundEmailSecret ?? null,
+            // Late-bind to deps.inboundEmailService since it's created after server starts
+            getInboundEmailService: () => deps.inboundEmailService,
+          });
+
+          routes["/api/user/email-inbox"] = {
+            GET: inboundEmailHandlers.getInbox,
+            PUT: inboundEmailHandlers.upsertInbox,
+            DELETE: inboundEmailHandlers.deleteInbox,
+          };
+          // Mail providers authenticate with the webhook secret, not a session
+          routes["/api/inbound-email"] = {
+            POST: inboundEmailHandlers.receive,
+          };
+        }
       }
 
       // Add chat routes
@@ -462,8 +680,13 @@ async function startServer(config: Config, deps: Dependencies) {
           conversationRepository: deps.conversationRepository,
           teamRepository: deps.teamRepository,
           workflowRepository: deps.workflowRepository,
+          notificationRepository: deps.notificationRepository,
+          usageRepository: deps.usageRepository,
+          budgetService: deps.budgetService,
+          modelProviderRepository: deps.modelProviderRepository,
           authenticate,
           encryptionSecret: config.encryptionSecret,
+          frontendUrl: config.frontendUrl,
         });
 
         routes["/api/chat/:slug"] = {
@@ -478,6 +701,15 @@ async function startServer(config: Config, deps: Dependencies) {
         routes["/api/chat/:slug/conversation/:id"] = {
           GET: chatHandlers.getConversation,
         };
+        routes["/api/chat/:slug/conversation/:id/edit"] = {
+          POST: chatHandlers.editMessage,
+        };
+        routes["/api/chat/:slug/conversation/:id/regenerate"] = {
+          POST: chatHandlers.regenerate,
+        };
+        routes["/api/chat/:slug/conversation/:id/branch"] = {
+          POST: chatHandlers.switchBranch,
+        };
       }
 
       // Add workflow routes
@@ -485,6 +717,11 @@ async function startServer(config: Config, deps: Dependencies) {
         const workflowHandlers = createWorkflowHandlers({
           workflowRepository: deps.workflowRepository,
           agentRepository: deps.agentRepository,
+          conversationRepository: deps.conversationRepository,
+          notificationRepository: deps.notificationRepository,
+          encryptionSecret: config.encryptionSecret,
+          frontendUrl: config.frontendUrl,
+          modelProviderRepository: deps.modelProviderRepository,
           authenticate,
         });
 
@@ -497,9 +734,51 @@ async function startServer(config: Config, deps: Dependencies) {
           PUT: workflowHandlers.updateWorkflow,
           DELETE: workflowHandlers.deleteWorkflow,
         };
+        routes["/api/workflows/:id/executions"] = {
+          GET: workflowHandlers.listWorkflowExecutions,
+        };
+        routes["/api/workflows/:id/test"] = {
+          POST: workflowHandlers.testWorkflow,
+        };
+        routes["/api/workflows/:id/revisions"] = {
+          GET: workflowHandlers.listWorkflowRevisions,
+        };
+        routes["/api/workflows/:id/revisions/:revision/rollback"] = {
+          POST: workflowHandlers.rollbackWorkflow,
+        };
+        routes["/api/workflow-templates"] = {
+          GET: workflowHandlers.listStepTemplates,
+          POST: workflowHandlers.createStepTemplate,
+        };
+        routes["/api/workflow-templates/:id"] = {
+          PUT: workflowHandlers.updateStepTemplate,
+          DELETE: workflowHandlers.deleteStepTemplate,
+        };
+        routes["/api/workflow-executions/:id"] = {
+          GET: workflowHandlers.getWorkflowExecution,
+        };
+        routes["/api/workflow-executions/:id/cancel"] = {
+          POST: workflowHandlers.cancelWorkflowExecution,
+        };
+        routes["/api/workflow-executions/:id/restart"] = {
+          POST: workflowHandlers.restartWorkflowExecution,
+        };
+        routes["/api/workflow-executions/:id/resume"] = {
+          POST: workflowHandlers.resumeWorkflowExecution,
+        };
         routes["/api/workflows/validate"] = {
           POST: workflowHandlers.validateWorkflow,
         };
+        routes["/api/workflows/approvals"] = {
+          GET: workflowHandlers.listApprovals,
+        };
+        routes["/api/workflows/approvals/:id/decision"] = {
+          POST: workflowHandlers.decideApproval,
+        };
+        routes["/api/workflows/approvals/respond"] = {
+          GET: workflowHandlers.showApprovalLink,
+          POST: workflowHandlers.respondToApprovalLink,
+        };
         routes["/api/agents/:slug/workflows"] = {
           GET: workflowHandlers.listAgentWorkflows,
           POST: workflowHandlers.assignAgentWorkflow,
@@ -557,6 +836,15 @@ async function startServer(config: Config, deps: Dependencies) {
           PUT: teamHandlers.updateUrlTool,
           DELETE: teamHandlers.deleteUrlTool,
         };
+        routes["/api/team/url-tools/:id/test"] = {
+          POST: teamHandlers.testUrlTool,
+        };
+        routes["/api/team/url-tools/import/preview"] = {
+          POST: teamHandlers.previewUrlToolImport,
+        };
+        routes["/api/team/url-tools/import"] = {
+          POST: teamHandlers.importUrlTools,
+        };
         routes["/api/team/notification-settings"] = {
           GET: teamHandlers.getNotificationSettings,
           PUT: teamHandlers.updateNotificationSettings,
@@ -630,13 +918,24 @@ async function main() {
     scheduleRepository: null,
     notificationRepository: null,
     mqttRepository: null,
+    chatChannelRepository: null,
+    emailInboxRepository: null,
     teamRepository: null,
     workflowRepository: null,
+    usageRepository: null,
+    budgetRepository: null,
+    modelProviderRepository: null,
     googleOAuth: null,
     agentFactory: null,
+    budgetService: null,
+    reembedService: null,
+    memoryConsolidationService: null,
     schedulerService: null,
+    workflowTimeoutService: null,
     notificationService: null,
     mqttService: null,
+    chatChannelService: null,
+    inboundEmailService: null,
   };
 
 
@@ -663,8 +962,13 @@ async function main() {
     deps.scheduleRepository = new PostgresScheduleRepository();
     deps.notificationRepository = new PostgresNotificationRepository();
     deps.mqttRepository = new PostgresMqttRepository();
+    deps.chatChannelRepository = new PostgresChatChannelRepository();
+    deps.emailInboxRepository = new PostgresEmailInboxRepository();
     deps.teamRepository = new PostgresTeamRepository();
     deps.workflowRepository = new PostgresWorkflowRepository();
+    deps.usageRepository = new PostgresUsageRepository();
+    deps.budgetRepository = new PostgresBudgetRepository();
+    deps.modelProviderRepository = new PostgresModelProviderRepository();
 
 
     // Create AgentFactory
@@ -682,9 +986,20 @@ async function main() {
         mqttRepository: deps.mqttRepository,
         mqttService: null, // Will be set after MqttService is created
         teamRepository: deps.teamRepository,
+        workflowRepository: deps.workflowRepository,
       });
 
     }
+
+    deps.budgetService = new BudgetService({
+      budgetRepository: deps.budgetRepository,
+      usageRepository: deps.usageRepository,
+      notificationRepository: deps.notificationRepository,
+    });
+
+    deps.reembedService = new ReembedService({
+      memoryRepository: deps.memoryRepository,
+    });
   }
 
   // Create Google OAuth service if configured
@@ -706,6 +1021,22 @@ async function main() {
 
 
   // Start background services
+  if (deps.conversationRepository && deps.agentRepository && deps.memoryRepository && deps.userRepository && config.encryptionSecret) {
+    console.log('Starting memory consolidation service...');
+    deps.memoryConsolidationService = new MemoryConsolidationService({
+      conversationRepository: deps.conversationRepository,
+      agentRepository: deps.agentRepository,
+      memoryRepository: deps.memoryRepository,
+      userRepository: deps.userRepository,
+      usageRepository: deps.usageRepository,
+      budgetService: deps.budgetService,
+      modelProviderRepository: deps.modelProviderRepository,
+      teamRepository: deps.teamRepository,
+      encryptionSecret: config.encryptionSecret,
+    });
+    deps.memoryConsolidationService.start();
+  }
+
   if (deps.scheduleRepository && deps.agentFactory && deps.conversationRepository && deps.userRepository && config.encryptionSecret) {
     console.log('Starting scheduler service...');
     deps.schedulerService = new SchedulerService({
@@ -713,15 +1044,38 @@ async function main() {
       agentFactory: deps.agentFactory,
       conversationRepository: deps.conversationRepository,
       userRepository: deps.userRepository,
+      usageRepository: deps.usageRepository,
+      budgetService: deps.budgetService,
+      modelProviderRepository: deps.modelProviderRepository,
+      memoryConsolidationService: deps.memoryConsolidationService,
+      workflowRepository: deps.workflowRepository,
+      notificationRepository: deps.notificationRepository,
       encryptionSecret: config.encryptionSecret,
+      frontendUrl: config.frontendUrl,
     });
     deps.schedulerService.start();
   }
 
+  if (deps.workflowRepository && deps.conversationRepository) {
+    console.log('Starting workflow timeout service...');
+    deps.workflowTimeoutService = new WorkflowTimeoutService({
+      workflowRepository: deps.workflowRepository,
+      conversationRepository: deps.conversationRepository,
+      notificationRepository: deps.notificationRepository,
+    });
+    deps.workflowTimeoutService.start();
+  }
+
   if (deps.notificationRepository) {
     console.log('Starting notification service...');
     deps.notificationService = new NotificationService({
       notificationRepository: deps.notificationRepository,
+      agentRepository: deps.agentRepository ?? undefined,
+      userRepository: deps.userRepository ?? undefined,
+      teamRepository: deps.teamRepository,
+      frontendUrl: config.frontendUrl,
+      encryptionSecret: config.encryptionSecret,
+      mailDir: config.mailDir,
     });
     deps.notificationService.start();
   }
@@ -733,20 +1087,79 @@ async function main() {
       agentFactory: deps.agentFactory,
       conversationRepository: deps.conversationRepository,
       userRepository: deps.userRepository,
+      usageRepository: deps.usageRepository,
+      budgetService: deps.budgetService,
+      modelProviderRepository: deps.modelProviderRepository,
+      workflowRepository: deps.workflowRepository,
+      notificationRepository: deps.notificationRepository,
       encryptionSecret: config.encryptionSecret,
+      frontendUrl: config.frontendUrl,
     });
     // Wire MqttService back to AgentFactory so tools can reference it
     (deps.agentFactory as any).deps.mqttService = deps.mqttService;
     await deps.mqttService.start();
   }
 
+  if (deps.chatChannelRepository && deps.agentFactory && deps.conversationRepository && deps.userRepository && config.encryptionSecret) {
+    console.log('Starting chat channel service...');
+    deps.chatChannelService = new ChatChannelService({
+      chatChannelRepository: deps.chatChannelRepository,
+      agentFactory: deps.agentFactory,
+      conversationRepository: deps.conversationRepository,
+      userRepository: deps.userRepository,
+      usageRepository: deps.usageRepository,
+      budgetService: deps.budgetService,
+      modelProviderRepository: deps.modelProviderRepository,
+      teamRepository: deps.teamRepository,
+      encryptionSecret: config.encryptionSecret,
+    });
+  }
+
+  let inboundSmtp: InboundSmtpServer | null = null;
+  if (deps.emailInboxRepository && deps.agentRepository && deps.agentFactory && deps.conversationRepository && deps.userRepository && deps.notificationRepository && config.encryptionSecret) {
+    console.log('Starting inbound email service...');
+    const inboundEmailService = new InboundEmailService({
+      emailInboxRepository: deps.emailInboxRepository,
+      agentRepository: deps.agentRepository,
+      agentFactory: deps.agentFactory,
+      conversationRepository: deps.conversationRepository,
+      userRepository: deps.userRepository,
+      usageRepository: deps.usageRepository,
+      budgetService: deps.budgetService,
+      modelProviderRepository: deps.modelProviderRepository,
+      notificationRepository: deps.notificationRepository,
+      teamRepository: deps.teamRepository,
+      encryptionSecret: config.encryptionSecret,
+      domain: config.inboundEmailDomain ?? null,
+      frontendUrl: config.frontendUrl,
+      mailDir: config.mailDir,
+    });
+    deps.inboundEmailService = inboundEmailService;
+
+    if (config.inboundSmtpPort) {
+      inboundSmtp = new InboundSmtpServer({
+        serverName: config.inboundEmailDomain,
+        acceptRecipient: async (address) => !!(await inboundEmailService.resolve(address)),
+        onMessage: async (envelope, raw) => {
+          const result = await inboundEmailService.receive(raw, envelope);
+          if (result.status !== "queued") console.log(`Inbound SMTP: ${result.status} mail from ${envelope.from}: ${result.reason}`);
+        },
+      });
+      const port = await inboundSmtp.listen(config.inboundSmtpPort, config.inboundSmtpHost);
+      console.log(`Inbound SMTP listening on ${config.inboundSmtpHost}:${port}`);
+    }
+  }
+
   // Wait for interrupt signal
   await waitForShutdown();
 
   // Gracefully stop background services
   deps.schedulerService?.stop();
+  deps.workflowTimeoutService?.stop();
+  deps.memoryConsolidationService?.stop();
   deps.notificationService?.stop();
   deps.mqttService?.stop();
+  await inboundSmtp?.close();
 
   // Gracefully stop the server
   console.log('Stopping server...');
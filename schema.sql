@@ -858,7 +858,7 @@ CREATE TABLE IF NOT EXISTS workflow_executions (
     workflow_id INTEGER NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
     current_step_index INTEGER NOT NULL DEFAULT 0,
     current_step_id VARCHAR(100) NOT NULL,
-    status VARCHAR(20) NOT NULL DEFAULT 'in_progress', -- 'in_progress' | 'completed' | 'failed' | 'timed_out'
+    status VARCHAR(20) NOT NULL DEFAULT 'in_progress', -- 'in_progress' | 'awaiting_approval' | 'completed' | 'failed' | 'timed_out'
     started_at BIGINT NOT NULL, -- epoch ms
     completed_at BIGINT, -- epoch ms
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -873,7 +873,7 @@ CREATE TABLE IF NOT EXISTS workflow_facts (
     step_id VARCHAR(100) NOT NULL,
     fact_name VARCHAR(255) NOT NULL,
     fact_value JSONB NOT NULL, -- JSON-encoded value (supports any type)
-    source VARCHAR(20) NOT NULL DEFAULT 'conversation', -- 'conversation' | 'tool' | 'default' | 'verifier'
+    source VARCHAR(20) NOT NULL DEFAULT 'conversation', -- 'conversation' | 'tool' | 'default' | 'verifier' | 'approval'
     collected_at BIGINT NOT NULL, -- epoch ms
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     UNIQUE(execution_id, step_id, fact_name),
@@ -909,3 +909,594 @@ BEGIN
         ALTER TABLE team_settings ADD COLUMN ollama_url TEXT;
     END IF;
 END $$;
+
+-- Migration: Add parameter schema and request templates to url_tools
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'url_tools' AND column_name = 'parameters'
+    ) THEN
+        ALTER TABLE url_tools
+            ADD COLUMN parameters JSONB NOT NULL DEFAULT '[]', -- [{ name, type, description, required }]
+            ADD COLUMN query_params JSONB, -- { "q": "{city}" }
+            ADD COLUMN body_template TEXT; -- e.g. {"city": "{city}"}
+    END IF;
+END $$;
+
+-- Migration: Add parameter schema and request templates to team_url_tools
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'team_url_tools' AND column_name = 'parameters'
+    ) THEN
+        ALTER TABLE team_url_tools
+            ADD COLUMN parameters JSONB NOT NULL DEFAULT '[]',
+            ADD COLUMN query_params JSONB,
+            ADD COLUMN body_template TEXT;
+    END IF;
+END $$;
+
+-- Migration: Conversation branching. Messages form a tree via parent_id and the
+-- conversation tracks the leaf of the active branch.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'messages' AND column_name = 'parent_id'
+    ) THEN
+        ALTER TABLE messages ADD COLUMN parent_id INTEGER REFERENCES messages(id) ON DELETE CASCADE;
+
+        -- Existing conversations are linear: chain each message to the one before it
+        UPDATE messages m
+        SET parent_id = ordered.prev_id
+        FROM (
+            SELECT id, LAG(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS prev_id
+            FROM messages
+        ) ordered
+        WHERE m.id = ordered.id;
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'conversations' AND column_name = 'active_leaf_id'
+    ) THEN
+        ALTER TABLE conversations ADD COLUMN active_leaf_id INTEGER REFERENCES messages(id) ON DELETE SET NULL;
+
+        UPDATE conversations c
+        SET active_leaf_id = (
+            SELECT m.id FROM messages m
+            WHERE m.conversation_id = c.id
+            ORDER BY m.created_at DESC, m.id DESC
+            LIMIT 1
+        );
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON messages(parent_id);
+
+-- Token usage per agent step (chat, scheduled and MQTT runs)
+CREATE TABLE IF NOT EXISTS usage_records (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    agent_id INTEGER REFERENCES agents(id) ON DELETE SET NULL,
+    conversation_id INTEGER REFERENCES conversations(id) ON DELETE SET NULL,
+    source VARCHAR(20) NOT NULL DEFAULT 'manual', -- 'manual' | 'scheduled' | 'mqtt'
+    model VARCHAR(255) NOT NULL, -- "provider:model-id"
+    step_index INTEGER NOT NULL DEFAULT 0,
+    input_tokens INTEGER NOT NULL DEFAULT 0, -- includes cached input tokens
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cached_input_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd NUMERIC(12, 6), -- NULL when the model has no known price
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_records_user_created ON usage_records(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_records_conversation ON usage_records(conversation_id);
+
+-- Monthly spend/token budgets. Exactly one of user_id, domain or agent_id is set,
+-- matching the scope. A limit of NULL means unlimited.
+CREATE TABLE IF NOT EXISTS budgets (
+    id SERIAL PRIMARY KEY,
+    scope VARCHAR(10) NOT NULL, -- 'user' | 'team' | 'agent'
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    domain VARCHAR(255),
+    agent_id INTEGER REFERENCES agents(id) ON DELETE CASCADE,
+    monthly_cost_limit_usd NUMERIC(12, 2),
+    monthly_token_limit BIGINT,
+    soft_threshold_percent INTEGER NOT NULL DEFAULT 80,
+    soft_alerted_month VARCHAR(7), -- "YYYY-MM" of the last soft-threshold notification
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (scope IN ('user', 'team', 'agent')),
+    CHECK (soft_threshold_percent BETWEEN 1 AND 100)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_user ON budgets(user_id) WHERE scope = 'user';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_team ON budgets(domain) WHERE scope = 'team';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_agent ON budgets(agent_id) WHERE scope = 'agent';
+
+-- Migration: Fallback models for agents, and the model that answered each assistant message
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'agents' AND column_name = 'fallback_models'
+    ) THEN
+        ALTER TABLE agents ADD COLUMN fallback_models TEXT[] NOT NULL DEFAULT '{}'; -- "provider:model-id", in order
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'messages' AND column_name = 'model'
+    ) THEN
+        ALTER TABLE messages ADD COLUMN model VARCHAR(255);
+    END IF;
+END $$;
+
+-- Custom OpenAI-compatible model providers (vLLM, LiteLLM, Azure OpenAI, Bedrock gateways).
+-- Owned by a user (user_id) or a team domain (domain). The name is the prefix in
+-- model strings, e.g. "mygateway:qwen2.5-72b".
+CREATE TABLE IF NOT EXISTS model_providers (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    domain VARCHAR(255),
+    name VARCHAR(50) NOT NULL,
+    base_url TEXT NOT NULL,
+    api_key TEXT, -- Encrypted
+    api_key_header VARCHAR(100) NOT NULL DEFAULT 'Authorization', -- 'Authorization' sends "Bearer <key>", other headers get the raw key
+    headers JSONB,
+    models TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK ((user_id IS NULL) <> (domain IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_model_providers_user_name ON model_providers(user_id, name) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_model_providers_domain_name ON model_providers(domain, name) WHERE domain IS NOT NULL;
+
+-- Migration: Pluggable embeddings. Vectors may come from different providers and
+-- dimensions, so the embedding column is unsized and each vector records the
+-- "provider:model-id" that produced it. Search only compares vectors from the
+-- same model; memories from another model are re-embedded in the background.
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_attribute
+        WHERE attrelid = 'agent_memories'::regclass AND attname = 'embedding'
+          AND format_type(atttypid, atttypmod) = 'vector(1536)'
+    ) THEN
+        ALTER TABLE agent_memories ALTER COLUMN embedding TYPE vector;
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'agent_memories' AND column_name = 'embedding_model'
+    ) THEN
+        ALTER TABLE agent_memories
+            ADD COLUMN embedding_model VARCHAR(255),
+            ADD COLUMN embedding_dimensions INTEGER;
+        -- Every vector before this migration came from OpenAI
+        UPDATE agent_memories
+        SET embedding_model = 'openai:text-embedding-3-small', embedding_dimensions = 1536
+        WHERE embedding IS NOT NULL;
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'users' AND column_name = 'embedding_model'
+    ) THEN
+        ALTER TABLE users ADD COLUMN embedding_model VARCHAR(255); -- NULL = first configured provider
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_agent_memories_embedding_model ON agent_memories(agent_id, embedding_model);
+
+-- Migration: Full-text search vector for hybrid memory recall. The 'simple'
+-- configuration keeps names and IDs intact (no stemming or stop words).
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'agent_memories' AND column_name = 'search_vector'
+    ) THEN
+        ALTER TABLE agent_memories ADD COLUMN search_vector tsvector
+            GENERATED ALWAYS AS (to_tsvector('simple', key || ' ' || value)) STORED;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_agent_memories_search_vector ON agent_memories USING GIN (search_vector);
+
+-- Migration: Background memory consolidation. Consolidator-written memories are
+-- marked author = 'consolidator', and conversations record how far they have
+-- been consolidated.
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'agent_memories' AND column_name = 'author'
+          AND character_maximum_length < 20
+    ) THEN
+        ALTER TABLE agent_memories ALTER COLUMN author TYPE VARCHAR(20);
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'conversations' AND column_name = 'consolidated_at'
+    ) THEN
+        ALTER TABLE conversations ADD COLUMN consolidated_at TIMESTAMP;
+        -- Only conversations active after this migration are consolidated
+        UPDATE conversations SET consolidated_at = updated_at;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_consolidation ON conversations(updated_at)
+    WHERE consolidated_at IS NULL OR consolidated_at < updated_at;
+
+-- Changes made by memory consolidation, so users can review and revert them.
+-- previous holds {value, tier, author} from before the change (NULL when created).
+CREATE TABLE IF NOT EXISTS memory_changes (
+    id SERIAL PRIMARY KEY,
+    agent_id INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    conversation_id INTEGER REFERENCES conversations(id) ON DELETE SET NULL,
+    action VARCHAR(10) NOT NULL CHECK (action IN ('created', 'updated', 'removed')),
+    memory_key VARCHAR(255) NOT NULL,
+    value TEXT, -- Value written (NULL when removed)
+    previous JSONB,
+    merged_into VARCHAR(255), -- Set when removed by merging into another memory
+    reason TEXT,
+    reverted_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_changes_agent ON memory_changes(agent_id, created_at DESC);
+
+-- Migration: Track loop-back transitions taken by workflow executions
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'workflow_executions' AND column_name = 'loop_counts'
+    ) THEN
+        ALTER TABLE workflow_executions ADD COLUMN loop_counts JSONB NOT NULL DEFAULT '{}'; -- {"from_step->to_step": times taken}
+    END IF;
+END $$;
+
+-- Migration: Workflow approval steps (executions pause while awaiting a decision)
+DO $$
+BEGIN
+    ALTER TABLE workflow_executions DROP CONSTRAINT IF EXISTS workflow_executions_status_check;
+    ALTER TABLE workflow_executions ADD CONSTRAINT workflow_executions_status_check
+        CHECK (status IN ('in_progress', 'awaiting_approval', 'completed', 'failed', 'timed_out'));
+    ALTER TABLE workflow_facts DROP CONSTRAINT IF EXISTS workflow_facts_source_check;
+    ALTER TABLE workflow_facts ADD CONSTRAINT workflow_facts_source_check
+        CHECK (source IN ('conversation', 'tool', 'default', 'verifier', 'approval'));
+END $$;
+
+-- Approval requests sent when a workflow reaches an approval step
+CREATE TABLE IF NOT EXISTS workflow_approvals (
+    id SERIAL PRIMARY KEY,
+    execution_id INTEGER NOT NULL REFERENCES workflow_executions(id) ON DELETE CASCADE,
+    step_id VARCHAR(100) NOT NULL,
+    step_name VARCHAR(255) NOT NULL,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    agent_id INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    conversation_id INTEGER NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    message TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'expired')),
+    decided_by VARCHAR(255), -- User email, or who a signed approve/reject link was sent to
+    comment TEXT,
+    expires_at BIGINT NOT NULL, -- epoch ms
+    decided_at BIGINT, -- epoch ms
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_approvals_user ON workflow_approvals(user_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_approvals_execution ON workflow_approvals(execution_id);
+
+-- Gate evaluations for each attempt at a workflow step (execution history)
+CREATE TABLE IF NOT EXISTS workflow_step_attempts (
+    id SERIAL PRIMARY KEY,
+    execution_id INTEGER NOT NULL REFERENCES workflow_executions(id) ON DELETE CASCADE,
+    step_id VARCHAR(100) NOT NULL,
+    outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('advanced', 'retry', 'skipped', 'aborted')),
+    gate_passed BOOLEAN NOT NULL,
+    gate_failures JSONB NOT NULL DEFAULT '[]', -- failure messages
+    gate_details JSONB NOT NULL DEFAULT '[]', -- per-condition results (GateEvaluationResult.details)
+    verifier_approved BOOLEAN, -- NULL when no verifier ran
+    verifier_reasoning TEXT,
+    evaluated_at BIGINT NOT NULL -- epoch ms
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_step_attempts_execution ON workflow_step_attempts(execution_id, evaluated_at);
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_workflow ON workflow_executions(workflow_id, started_at DESC);
+
+-- Migration: Workflow timeouts, cancellation and restarts
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'workflow_executions' AND column_name = 'deadline_at'
+    ) THEN
+        ALTER TABLE workflow_executions ADD COLUMN deadline_at BIGINT; -- epoch ms; workflow timeout, pushed back by time spent awaiting approval
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'workflow_executions' AND column_name = 'step_deadline_at'
+    ) THEN
+        ALTER TABLE workflow_executions ADD COLUMN step_deadline_at BIGINT; -- epoch ms; NULL when the current step has no timeout
+    END IF;
+    ALTER TABLE workflow_executions DROP CONSTRAINT IF EXISTS workflow_executions_status_check;
+    ALTER TABLE workflow_executions ADD CONSTRAINT workflow_executions_status_check
+        CHECK (status IN ('in_progress', 'awaiting_approval', 'completed', 'failed', 'timed_out', 'cancelled'));
+    ALTER TABLE workflow_approvals DROP CONSTRAINT IF EXISTS workflow_approvals_status_check;
+    ALTER TABLE workflow_approvals ADD CONSTRAINT workflow_approvals_status_check
+        CHECK (status IN ('pending', 'approved', 'rejected', 'expired', 'cancelled'));
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_deadlines ON workflow_executions(deadline_at, step_deadline_at) WHERE status = 'in_progress';
+CREATE INDEX IF NOT EXISTS idx_workflow_approvals_expiry ON workflow_approvals(expires_at) WHERE status = 'pending';
+
+-- Immutable workflow revisions; executions run against the revision they started with
+CREATE TABLE IF NOT EXISTS workflow_revisions (
+    id SERIAL PRIMARY KEY,
+    workflow_id INTEGER NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+    revision INTEGER NOT NULL, -- 1, 2, 3... per workflow
+    version VARCHAR(20) NOT NULL, -- the definition's own version string
+    yaml_content TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(workflow_id, revision)
+);
+
+-- Migration: Workflow revisions
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'workflows' AND column_name = 'revision'
+    ) THEN
+        ALTER TABLE workflows ADD COLUMN revision INTEGER NOT NULL DEFAULT 1; -- current revision number
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'workflow_executions' AND column_name = 'revision_id'
+    ) THEN
+        ALTER TABLE workflow_executions ADD COLUMN revision_id INTEGER REFERENCES workflow_revisions(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+-- Existing workflows start at revision 1, which their executions are pinned to
+INSERT INTO workflow_revisions (workflow_id, revision, version, yaml_content, created_at)
+SELECT w.id, w.revision, w.version, w.yaml_content, w.updated_at
+FROM workflows w
+WHERE NOT EXISTS (SELECT 1 FROM workflow_revisions r WHERE r.workflow_id = w.id);
+
+UPDATE workflow_executions e SET revision_id = r.id
+FROM workflows w
+JOIN workflow_revisions r ON r.workflow_id = w.id AND r.revision = w.revision
+WHERE e.revision_id IS NULL AND e.workflow_id = w.id;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_revisions_workflow ON workflow_revisions(workflow_id, revision DESC);
+
+-- Migration: Schedules and MQTT subscriptions can start a workflow, seeding facts from the prompt or payload
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'schedules' AND column_name = 'workflow_id'
+    ) THEN
+        ALTER TABLE schedules ADD COLUMN workflow_id INTEGER REFERENCES workflows(id) ON DELETE SET NULL;
+        ALTER TABLE schedules ADD COLUMN workflow_facts JSONB NOT NULL DEFAULT '{}'; -- {"fact_name": "{prompt}"}
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'mqtt_subscriptions' AND column_name = 'workflow_id'
+    ) THEN
+        ALTER TABLE mqtt_subscriptions ADD COLUMN workflow_id INTEGER REFERENCES workflows(id) ON DELETE SET NULL;
+        ALTER TABLE mqtt_subscriptions ADD COLUMN workflow_facts JSONB NOT NULL DEFAULT '{}'; -- {"fact_name": "{payload.field}"}
+    END IF;
+    ALTER TABLE workflow_facts DROP CONSTRAINT IF EXISTS workflow_facts_source_check;
+    ALTER TABLE workflow_facts ADD CONSTRAINT workflow_facts_source_check
+        CHECK (source IN ('conversation', 'tool', 'default', 'verifier', 'approval', 'trigger'));
+END $$;
+
+-- Shared workflow steps that definitions pull in with `- include: name`
+CREATE TABLE IF NOT EXISTS workflow_step_templates (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    yaml_content TEXT NOT NULL, -- name, description and the steps to insert
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, name)
+);
+
+-- Migration: Workflow steps run other workflows as nested executions in the same conversation
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'workflow_executions' AND column_name = 'parent_execution_id'
+    ) THEN
+        ALTER TABLE workflow_executions ADD COLUMN parent_execution_id INTEGER REFERENCES workflow_executions(id) ON DELETE CASCADE;
+        ALTER TABLE workflow_executions ADD COLUMN parent_step_id TEXT; -- the parent's workflow step that started it
+    END IF;
+    ALTER TABLE workflow_facts DROP CONSTRAINT IF EXISTS workflow_facts_source_check;
+    ALTER TABLE workflow_facts ADD CONSTRAINT workflow_facts_source_check
+        CHECK (source IN ('conversation', 'tool', 'default', 'verifier', 'approval', 'trigger', 'workflow'));
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_parent ON workflow_executions(parent_execution_id) WHERE parent_execution_id IS NOT NULL;
+
+-- Migration: How notification emails are sent (SMTP relay, mail API or local mailbox), per user and per team
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'user_notification_settings' AND column_name = 'mail_transport'
+    ) THEN
+        ALTER TABLE user_notification_settings ADD COLUMN mail_transport JSONB; -- secrets inside are encrypted
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'team_notification_settings' AND column_name = 'mail_transport'
+    ) THEN
+        ALTER TABLE team_notification_settings ADD COLUMN mail_transport JSONB;
+    END IF;
+END $$;
+
+-- Migration: Notification deliveries retry with backoff and log every attempt
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'notification_deliveries' AND column_name = 'next_attempt_at'
+    ) THEN
+        ALTER TABLE notification_deliveries ADD COLUMN next_attempt_at TIMESTAMP; -- null = due on the next poll
+    END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS notification_delivery_attempts (
+    id SERIAL PRIMARY KEY,
+    delivery_id INTEGER NOT NULL REFERENCES notification_deliveries(id) ON DELETE CASCADE,
+    attempt INTEGER NOT NULL,
+    destination VARCHAR(255), -- webhook name, when a delivery fans out to several
+    request_url TEXT,
+    request_body TEXT,
+    response_status INTEGER,
+    response_body TEXT, -- truncated
+    error_message TEXT,
+    duration_ms INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_delivery_attempts_delivery ON notification_delivery_attempts(delivery_id);
+
+-- Chat platform channels: bots on Slack, Discord or Telegram that talk to agents
+CREATE TABLE IF NOT EXISTS chat_channels (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    platform VARCHAR(20) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    agent_id INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE, -- answers where no route matches
+    routes JSONB NOT NULL DEFAULT '[]', -- [{platform_channel_id, agent_id}]
+    allowed_user_ids JSONB NOT NULL DEFAULT '[]', -- platform user IDs; empty = anyone who can reach the bot
+    bot_token TEXT, -- Encrypted
+    signing_secret TEXT, -- Encrypted; Slack signing secret or the Telegram webhook secret token
+    application_id VARCHAR(64), -- Discord
+    public_key VARCHAR(128), -- Discord, verifies interaction signatures
+    inbound_token VARCHAR(64) NOT NULL UNIQUE, -- identifies the channel in its inbound URL
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, name),
+    CHECK (platform IN ('slack', 'discord', 'telegram'))
+);
+
+-- Platform threads (or chats without threads) and the conversation each one continues
+CREATE TABLE IF NOT EXISTS chat_threads (
+    id SERIAL PRIMARY KEY,
+    chat_channel_id INTEGER NOT NULL REFERENCES chat_channels(id) ON DELETE CASCADE,
+    platform_channel_id VARCHAR(255) NOT NULL,
+    thread_id VARCHAR(255) NOT NULL DEFAULT '', -- '' when the platform message isn't in a thread
+    conversation_id INTEGER NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(chat_channel_id, platform_channel_id, thread_id)
+);
+
+-- Migration: Conversations started from chat platforms
+DO $$
+BEGIN
+    ALTER TABLE conversations DROP CONSTRAINT IF EXISTS conversations_source_check;
+    ALTER TABLE conversations ADD CONSTRAINT conversations_source_check
+        CHECK (source IN ('manual', 'scheduled', 'mqtt', 'slack', 'discord', 'telegram'));
+END $$;
+
+-- Email inboxes: mail to <alias>@ (or <agent-slug>+<alias>@) the inbound domain starts agent conversations
+CREATE TABLE IF NOT EXISTS email_inboxes (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    alias VARCHAR(64) NOT NULL UNIQUE,
+    agent_id INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE, -- answers mail without an agent slug
+    allowed_senders JSONB NOT NULL DEFAULT '[]', -- addresses or @domains; empty = the account's own address
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Message-IDs of mail received and replies sent, so replies continue their conversation
+CREATE TABLE IF NOT EXISTS email_threads (
+    id SERIAL PRIMARY KEY,
+    email_inbox_id INTEGER NOT NULL REFERENCES email_inboxes(id) ON DELETE CASCADE,
+    message_id VARCHAR(998) NOT NULL,
+    conversation_id INTEGER NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(email_inbox_id, message_id)
+);
+
+-- Migration: Conversations started by email
+DO $$
+BEGIN
+    ALTER TABLE conversations DROP CONSTRAINT IF EXISTS conversations_source_check;
+    ALTER TABLE conversations ADD CONSTRAINT conversations_source_check
+        CHECK (source IN ('manual', 'scheduled', 'mqtt', 'slack', 'discord', 'telegram', 'email'));
+END $$;
+
+-- Migration: Quiet hours, digests and per-agent rate policies for notifications
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'user_notification_settings' AND column_name = 'quiet_hours'
+    ) THEN
+        ALTER TABLE user_notification_settings ADD COLUMN quiet_hours JSONB; -- {start, end} local "HH:MM"; null = none
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'user_notification_settings' AND column_name = 'digest_schedule'
+    ) THEN
+        ALTER TABLE user_notification_settings ADD COLUMN digest_schedule JSONB NOT NULL DEFAULT '{}'; -- channel -> local "HH:MM" times
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'user_notification_settings' AND column_name = 'rate_policies'
+    ) THEN
+        ALTER TABLE user_notification_settings ADD COLUMN rate_policies JSONB NOT NULL DEFAULT '[]';
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'notification_deliveries' AND column_name = 'held_reason'
+    ) THEN
+        ALTER TABLE notification_deliveries ADD COLUMN held_reason VARCHAR(20); -- 'quiet_hours' | 'digest' | 'rate_limit'
+    END IF;
+    ALTER TABLE notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_status_check;
+    ALTER TABLE notification_deliveries ADD CONSTRAINT notification_deliveries_status_check
+        CHECK (status IN ('pending', 'held', 'sent', 'failed', 'dropped'));
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_held ON notification_deliveries(status, next_attempt_at);
+
+-- Migration: Per-agent memory search ranking weights
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'agents' AND column_name = 'memory_search_weights'
+    ) THEN
+        ALTER TABLE agents ADD COLUMN memory_search_weights JSONB; -- {keyword_weight, vector_weight, ...}; null = defaults
+    END IF;
+END $$;
+
+-- Migration: Whether an approval was decided in the app or through a signed link
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'workflow_approvals' AND column_name = 'decided_via'
+    ) THEN
+        ALTER TABLE workflow_approvals ADD COLUMN decided_via VARCHAR(10); -- 'app' | 'link'
+        UPDATE workflow_approvals SET decided_via = 'link' WHERE decided_by = 'link';
+        UPDATE workflow_approvals SET decided_via = 'app' WHERE decided_by IS NOT NULL AND decided_by <> 'link';
+    END IF;
+END $$;
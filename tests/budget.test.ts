@@ -0,0 +1,112 @@
+import { describe, test, expect } from "bun:test";
+import { BudgetService, currentBudgetMonth, evaluateBudget } from "../backend/services/BudgetService";
+import type { Agent, Budget, User } from "../backend/types/models";
+
+function budget(overrides: Partial<Budget>): Budget {
+  return {
+    id: 1,
+    scope: "user",
+    user_id: 1,
+    domain: null,
+    agent_id: null,
+    monthly_cost_limit_usd: null,
+    monthly_token_limit: null,
+    soft_threshold_percent: 80,
+    soft_alerted_month: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+describe("evaluateBudget", () => {
+  test("is ok below the soft threshold", () => {
+    const result = evaluateBudget(budget({ monthly_cost_limit_usd: 10 }), { tokens: 0, cost_usd: 5 });
+    expect(result.level).toBe("ok");
+    expect(result.percent).toBe(50);
+  });
+
+  test("is soft at the threshold and hard at the limit", () => {
+    const b = budget({ monthly_cost_limit_usd: 10 });
+    expect(evaluateBudget(b, { tokens: 0, cost_usd: 8 }).level).toBe("soft");
+    expect(evaluateBudget(b, { tokens: 0, cost_usd: 10 }).level).toBe("hard");
+  });
+
+  test("uses the higher of the cost and token ratios", () => {
+    const b = budget({ monthly_cost_limit_usd: 10, monthly_token_limit: 1000 });
+    const result = evaluateBudget(b, { tokens: 950, cost_usd: 1 });
+    expect(result.level).toBe("soft");
+    expect(result.percent).toBe(95);
+  });
+
+  test("ignores null limits", () => {
+    const result = evaluateBudget(budget({ monthly_token_limit: 1000 }), { tokens: 100, cost_usd: 500 });
+    expect(result.level).toBe("ok");
+  });
+
+  test("treats a zero limit as already exceeded", () => {
+    expect(evaluateBudget(budget({ monthly_cost_limit_usd: 0 }), { tokens: 0, cost_usd: 0 }).level).toBe("hard");
+  });
+});
+
+describe("currentBudgetMonth", () => {
+  test("returns the UTC calendar month", () => {
+    const { month, start, end } = currentBudgetMonth(new Date("2025-12-31T23:30:00Z"));
+    expect(month).toBe("2025-12");
+    expect(start.toISOString()).toBe("2025-12-01T00:00:00.000Z");
+    expect(end.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+  });
+});
+
+describe("BudgetService.enforce", () => {
+  const teamBudget = budget({ id: 2, scope: "team", user_id: null, domain: "acme.com", monthly_cost_limit_usd: 10 });
+
+  function service(spent: number) {
+    const lookups: unknown[] = [];
+    const deliveries: string[] = [];
+    const budgets = new BudgetService({
+      budgetRepository: {
+        find: async (key: any) => {
+          lookups.push(key);
+          return key.scope === "team" && key.domain === "acme.com" ? teamBudget : null;
+        },
+        markSoftAlerted: async () => {},
+      } as any,
+      usageRepository: { spendSince: async () => ({ tokens: 0, cost_usd: spent }) } as any,
+      notificationRepository: {
+        create: async (data: any) => ({ id: 1, ...data }),
+        getSettings: async () => ({ email_enabled: true, notification_email: "sam@gmail.com", webhook_urls: [{ url: "https://hooks.example.com" }] }),
+        isAgentMuted: async (_userId: number, _agentId: number, channel: string) => channel === "webhook",
+        createDelivery: async (_id: number, channel: string) => {
+          deliveries.push(channel);
+        },
+      } as any,
+    });
+    return { budgets, lookups, deliveries };
+  }
+
+  const user = { id: 1, email: "sam@gmail.com" } as User;
+  const teamAgent = { id: 5, name: "Ops", pool_type: "team", domain: "acme.com" } as Agent;
+
+  test("charges team agents to their team, whoever runs them", async () => {
+    const { budgets, lookups } = service(10);
+    await expect(budgets.enforce({ user, agent: teamAgent })).rejects.toThrow("The team budget for acme.com has been reached");
+    expect(lookups).toContainEqual({ scope: "team", domain: "acme.com" });
+  });
+
+  test("leaves personal agents to the user's own team", async () => {
+    const { budgets, lookups } = service(0);
+    await budgets.enforce({ user: { id: 1, email: "sam@acme.com" } as User, agent: { ...teamAgent, pool_type: "personal", domain: undefined } });
+    expect(lookups).toContainEqual({ scope: "team", domain: "acme.com" });
+
+    const personal = service(0);
+    await personal.budgets.enforce({ user, agent: { ...teamAgent, pool_type: "personal", domain: undefined } });
+    expect(personal.lookups).not.toContainEqual(expect.objectContaining({ scope: "team" }));
+  });
+
+  test("sends soft threshold alerts like other notifications, skipping muted channels", async () => {
+    const { budgets, deliveries } = service(9);
+    await budgets.enforce({ user, agent: teamAgent });
+    expect(deliveries).toEqual(["email"]);
+  });
+});
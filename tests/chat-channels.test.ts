@@ -0,0 +1,366 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { createHmac, generateKeyPairSync, sign } from "node:crypto";
+import {
+  createChatAdapters,
+  parseChatChannelInput,
+  splitMessage,
+  type InboundRequest,
+  type PlatformCredentials,
+} from "../backend/channels";
+import { ChatChannelService, routeAgentId } from "../backend/services/ChatChannelService";
+import { BudgetExceededError } from "../backend/services/BudgetService";
+import { encrypt } from "../backend/utils/encryption";
+import type { ChatChannel, ChatThread } from "../backend/types/models";
+import { mockChatPlatforms } from "./fixtures/chat-platforms";
+
+const SECRET = "test-encryption-secret";
+
+const credentials: PlatformCredentials = {
+  botToken: "bot-token",
+  signingSecret: "signing-secret",
+  applicationId: "123",
+  publicKey: null,
+};
+
+function request(body: unknown, headers: Record<string, string> = {}): InboundRequest {
+  return { headers: new Headers(headers), body: JSON.stringify(body) };
+}
+
+function slackRequest(body: unknown, secret = "signing-secret", timestamp = Math.floor(Date.now() / 1000)): InboundRequest {
+  const raw = JSON.stringify(body);
+  const signature = `v0=${createHmac("sha256", secret).update(`v0:${timestamp}:${raw}`).digest("hex")}`;
+  return request(body, { "x-slack-request-timestamp": String(timestamp), "x-slack-signature": signature });
+}
+
+function slackMention(text: string, overrides: Record<string, unknown> = {}) {
+  return {
+    type: "event_callback",
+    event: { type: "app_mention", channel: "C1", user: "U1", text: `<@UBOT> ${text}`, ts: "1700000000.000100", ...overrides },
+  };
+}
+
+function discordKeys() {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  // The last 32 bytes of the SPKI encoding are the raw key Discord shows
+  const raw = publicKey.export({ format: "der", type: "spki" }).subarray(-32).toString("hex");
+  return {
+    publicKey: raw,
+    sign: (body: unknown, timestamp = String(Math.floor(Date.now() / 1000))) => {
+      const text = JSON.stringify(body);
+      const signature = sign(null, Buffer.from(timestamp + text), privateKey).toString("hex");
+      return request(body, { "x-signature-ed25519": signature, "x-signature-timestamp": timestamp });
+    },
+  };
+}
+
+describe("splitMessage", () => {
+  test("keeps short messages whole and breaks long ones at line ends", () => {
+    expect(splitMessage("hello", 10)).toEqual(["hello"]);
+    expect(splitMessage("first line\nsecond line", 15)).toEqual(["first line", "second line"]);
+    expect(splitMessage("x".repeat(25), 10)).toEqual(["x".repeat(10), "x".repeat(10), "x".repeat(5)]);
+  });
+});
+
+describe("Slack adapter", () => {
+  const slack = createChatAdapters().slack;
+
+  test("verifies the signing secret signature and timestamp", () => {
+    const body = slackMention("hi");
+    expect(slack.verify(slackRequest(body), credentials)).toBe(true);
+    expect(slack.verify(slackRequest(body, "other-secret"), credentials)).toBe(false);
+    expect(slack.verify(slackRequest(body, "signing-secret", Math.floor(Date.now() / 1000) - 600), credentials)).toBe(false);
+    expect(slack.verify(request(body), credentials)).toBe(false);
+  });
+
+  test("answers the URL verification handshake", async () => {
+    const event = slack.parse(request({ type: "url_verification", challenge: "abc" }));
+    expect(event.message).toBeNull();
+    expect(await event.response.json()).toEqual({ challenge: "abc" });
+  });
+
+  test("turns a mention into a threaded message without the mention", () => {
+    const { message } = slack.parse(request(slackMention("what's up?")));
+    expect(message).toMatchObject({
+      platformChannelId: "C1",
+      threadId: "1700000000.000100",
+      userId: "U1",
+      text: "what's up?",
+      replyTo: { thread_ts: "1700000000.000100" },
+    });
+  });
+
+  test("ignores bot messages and retried deliveries", () => {
+    expect(slack.parse(request(slackMention("hi", { bot_id: "B1" }))).message).toBeNull();
+    expect(slack.parse(request(slackMention("hi"), { "x-slack-retry-num": "1" })).message).toBeNull();
+  });
+});
+
+describe("Discord adapter", () => {
+  const discord = createChatAdapters().discord;
+  const keys = discordKeys();
+  const discordCredentials = { ...credentials, publicKey: keys.publicKey };
+
+  test("verifies Ed25519 interaction signatures", () => {
+    const signed = keys.sign({ type: 1 });
+    expect(discord.verify(signed, discordCredentials)).toBe(true);
+    expect(discord.verify({ ...signed, body: JSON.stringify({ type: 2 }) }, discordCredentials)).toBe(false);
+    expect(discord.verify(signed, { ...discordCredentials, publicKey: discordKeys().publicKey })).toBe(false);
+  });
+
+  test("answers PING and defers /ask", async () => {
+    expect(await discord.parse(request({ type: 1 })).response.json()).toEqual({ type: 1 });
+
+    const event = discord.parse(request({
+      type: 2,
+      application_id: "123",
+      token: "interaction-token",
+      channel_id: "D1",
+      member: { user: { id: "42", username: "sam" } },
+      data: { name: "ask", options: [{ name: "message", value: " hello " }] },
+    }));
+    expect(await event.response.json()).toEqual({ type: 5 });
+    expect(event.message).toMatchObject({ platformChannelId: "D1", userId: "42", userName: "sam", text: "hello" });
+  });
+});
+
+describe("Telegram adapter", () => {
+  const telegram = createChatAdapters().telegram;
+
+  test("checks the webhook secret token", () => {
+    const body = { update_id: 1 };
+    expect(telegram.verify(request(body, { "x-telegram-bot-api-secret-token": "signing-secret" }), credentials)).toBe(true);
+    expect(telegram.verify(request(body, { "x-telegram-bot-api-secret-token": "wrong" }), credentials)).toBe(false);
+  });
+
+  test("strips the /ask command and keeps forum topics apart", () => {
+    const { message } = telegram.parse(request({
+      message: {
+        message_id: 7,
+        message_thread_id: 3,
+        is_topic_message: true,
+        chat: { id: -100 },
+        from: { id: 9, username: "sam" },
+        text: "/ask@AgentBot how are you?",
+      },
+    }));
+    expect(message).toMatchObject({ platformChannelId: "-100", threadId: "3", text: "how are you?" });
+  });
+});
+
+describe("Platform replies", () => {
+  const platforms = mockChatPlatforms();
+  const adapters = createChatAdapters(platforms.urls);
+
+  beforeEach(() => {
+    platforms.requests.length = 0;
+  });
+
+  afterAll(() => platforms.stop());
+
+  test("Slack posts each chunk to the thread with the bot token", async () => {
+    const { message } = adapters.slack.parse(request(slackMention("hi")));
+    await adapters.slack.reply(message!, `${"a".repeat(3000)}\n\n${"b".repeat(3000)}`, credentials);
+
+    expect(platforms.requests.map((r) => r.path)).toEqual(["/chat.postMessage", "/chat.postMessage"]);
+    expect(platforms.requests[0]!.headers.get("authorization")).toBe("Bearer bot-token");
+    expect(platforms.requests[1]!.body).toMatchObject({ channel: "C1", thread_ts: "1700000000.000100", text: "b".repeat(3000) });
+  });
+
+  test("Discord edits the deferred response, then sends follow-ups", async () => {
+    const message = {
+      platformChannelId: "D1",
+      threadId: "",
+      userId: "42",
+      userName: null,
+      text: "hi",
+      replyTo: { application_id: "123", token: "tok" },
+    };
+    await adapters.discord.reply(message, "x".repeat(2500), credentials);
+
+    expect(platforms.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      "PATCH /webhooks/123/tok/messages/@original",
+      "POST /webhooks/123/tok",
+    ]);
+  });
+
+  test("Telegram replies to the message and registers its webhook", async () => {
+    const { message } = adapters.telegram.parse(request({
+      message: { message_id: 7, chat: { id: 5 }, from: { id: 9 }, text: "hello" },
+    }));
+    await adapters.telegram.reply(message!, "answer", credentials);
+    await adapters.telegram.register!("https://example.com/api/chat-inbound/abc", credentials);
+
+    expect(platforms.requests.map((r) => r.path)).toEqual(["/botbot-token/sendMessage", "/botbot-token/setWebhook"]);
+    expect(platforms.requests[0]!.body).toMatchObject({ chat_id: "5", text: "answer", reply_parameters: { message_id: 7 } });
+    expect(platforms.requests[1]!.body).toMatchObject({ secret_token: "signing-secret" });
+  });
+});
+
+describe("parseChatChannelInput", () => {
+  test("requires each platform's credentials", async () => {
+    expect(await parseChatChannelInput({ platform: "slack", name: "S", agent_id: 1, bot_token: "x" }, null, SECRET))
+      .toEqual({ error: "slack channels need: signing_secret" });
+    expect(await parseChatChannelInput({ platform: "discord", name: "D", agent_id: 1, public_key: "nope" }, null, SECRET))
+      .toEqual({ error: "public_key must be the application's 64-character hex public key" });
+  });
+
+  test("generates the Telegram secret token and encrypts secrets", async () => {
+    const result = await parseChatChannelInput({ platform: "telegram", name: "T", agent_id: 1, bot_token: "123:abc" }, null, SECRET);
+    if ("error" in result) throw new Error(result.error);
+    expect(result.data.bot_token).not.toBe("123:abc");
+    expect(result.data.signing_secret).toBeTruthy();
+  });
+});
+
+describe("ChatChannelService", () => {
+  const platforms = mockChatPlatforms();
+  let channel: ChatChannel;
+  let threads: ChatThread[];
+  let conversations: Array<{ id: number; agent_id: number; title: string; source: string }>;
+  let prompts: Array<{ agentId: number; messages: unknown[] }>;
+  let budgetError: BudgetExceededError | null;
+  let service: ChatChannelService;
+
+  beforeAll(async () => {
+    channel = {
+      id: 1,
+      user_id: 1,
+      platform: "slack",
+      name: "Workspace",
+      agent_id: 10,
+      routes: [{ platform_channel_id: "C2", agent_id: 20 }],
+      allowed_user_ids: [],
+      bot_token: await encrypt("bot-token", SECRET),
+      signing_secret: await encrypt("signing-secret", SECRET),
+      application_id: null,
+      public_key: null,
+      inbound_token: "inbound",
+      enabled: true,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+  });
+
+  beforeEach(() => {
+    platforms.requests.length = 0;
+    channel.allowed_user_ids = [];
+    threads = [];
+    conversations = [];
+    prompts = [];
+    budgetError = null;
+
+    const messages = new Map<number, any[]>();
+    const chatChannelRepository = {
+      findByInboundToken: async (token: string) => (token === channel.inbound_token ? channel : null),
+      findThread: async (channelId: number, platformChannelId: string, threadId: string) =>
+        threads.find((t) => t.chat_channel_id === channelId && t.platform_channel_id === platformChannelId && t.thread_id === threadId) ?? null,
+      saveThread: async (data: Omit<ChatThread, "id" | "created_at">) => {
+        const thread = { ...data, id: threads.length + 1, created_at: new Date() };
+        threads.push(thread);
+        return thread;
+      },
+    } as any;
+    const conversationRepository = {
+      create: async (data: { agent_id: number; title: string; source: string }) => {
+        const conversation = { ...data, id: conversations.length + 1 };
+        conversations.push(conversation);
+        return conversation;
+      },
+      findById: async (id: number) => conversations.find((c) => c.id === id) ?? null,
+      addMessage: async (data: any) => {
+        messages.set(data.conversation_id, [...(messages.get(data.conversation_id) ?? []), data]);
+        return { id: Math.random() };
+      },
+      listActivePath: async (conversationId: number) => messages.get(conversationId) ?? [],
+      setActiveLeaf: async () => {},
+    } as any;
+    const agentFactory = {
+      getAgentConfigById: async (_userId: number, agentId: number) => ({ id: agentId, slug: `agent-${agentId}` }),
+      createAgent: async (_userId: number, slug: string) => {
+        const agentId = Number(slug.split("-")[1]);
+        return {
+          id: agentId,
+          model: "test-model",
+          agent: {
+            generate: async ({ messages }: { messages: unknown[] }) => {
+              prompts.push({ agentId, messages });
+              const text = `Answer ${prompts.length} from agent ${agentId}`;
+              return { text, steps: [], response: { messages: [{ role: "assistant", content: text }] } };
+            },
+          },
+        };
+      },
+    } as any;
+
+    service = new ChatChannelService({
+      chatChannelRepository,
+      agentFactory,
+      conversationRepository,
+      userRepository: {
+        findById: async () => ({ id: 1, email: "sam@example.com", ollama_url: "http://127.0.0.1:1" }),
+      } as any,
+      usageRepository: null,
+      budgetService: {
+        enforce: async () => {
+          if (budgetError) throw budgetError;
+          return { stopWhen: () => false, exceeded: null };
+        },
+      } as any,
+      modelProviderRepository: null,
+      teamRepository: null,
+      encryptionSecret: SECRET,
+      adapters: createChatAdapters(platforms.urls),
+    });
+  });
+
+  afterAll(() => platforms.stop());
+
+  test("rejects unknown channels and bad signatures", async () => {
+    expect((await service.receive("missing", slackRequest(slackMention("hi")))).status).toBe(404);
+    expect((await service.receive("inbound", slackRequest(slackMention("hi"), "wrong"))).status).toBe(401);
+  });
+
+  test("answers in the thread and continues the thread's conversation", async () => {
+    const first = await service.receive("inbound", slackRequest(slackMention("hello")));
+    expect(first.status).toBe(200);
+    await service.idle();
+
+    await service.receive("inbound", slackRequest(slackMention("and again", { thread_ts: "1700000000.000100", ts: "1700000001.000100" })));
+    await service.idle();
+
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0]).toMatchObject({ agent_id: 10, source: "slack", title: "[Slack] hello" });
+    expect(prompts[1]!.messages).toHaveLength(3);
+    expect(platforms.requests.map((r) => r.body)).toEqual([
+      expect.objectContaining({ channel: "C1", thread_ts: "1700000000.000100", text: "Answer 1 from agent 10" }),
+      expect.objectContaining({ channel: "C1", thread_ts: "1700000000.000100", text: "Answer 2 from agent 10" }),
+    ]);
+  });
+
+  test("routes platform channels to their agent", async () => {
+    expect(routeAgentId(channel, "C2")).toBe(20);
+    expect(routeAgentId(channel, "C3")).toBe(10);
+
+    await service.receive("inbound", slackRequest(slackMention("hi", { channel: "C2" })));
+    await service.idle();
+    expect(prompts.map((p) => p.agentId)).toEqual([20]);
+  });
+
+  test("refuses users who aren't allowed without running the agent", async () => {
+    channel.allowed_user_ids = ["U2"];
+    await service.receive("inbound", slackRequest(slackMention("hi")));
+    await service.idle();
+
+    expect(prompts).toHaveLength(0);
+    expect(platforms.requests[0]!.body.text).toContain("not allowed");
+  });
+
+  test("tells the user when a budget limit stops the agent", async () => {
+    budgetError = new BudgetExceededError("Your monthly budget has been reached ($5.00 of $5.00).", "user");
+    await service.receive("inbound", slackRequest(slackMention("hi")));
+    await service.idle();
+
+    expect(prompts).toHaveLength(0);
+    expect(platforms.requests[0]!.body.text).toBe("Your monthly budget has been reached ($5.00 of $5.00).");
+  });
+});
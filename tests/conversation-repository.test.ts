@@ -0,0 +1,69 @@
+import { describe, test, expect, beforeAll } from "bun:test";
+import type { BunRequest } from "bun";
+
+// The repository queries through Bun's global `sql`; point it at an in-memory SQLite database
+process.env.DATABASE_URL = "sqlite://:memory:";
+
+const { sql } = await import("bun");
+const { PostgresConversationRepository } = await import("../backend/repositories/postgres/PostgresConversationRepository");
+const { createChatHandlers } = await import("../backend/handlers/chat");
+
+describe("PostgresConversationRepository", () => {
+  const repository = new PostgresConversationRepository();
+
+  beforeAll(async () => {
+    await sql`
+      CREATE TABLE conversations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        agent_id INTEGER NOT NULL,
+        title TEXT,
+        source TEXT DEFAULT 'manual',
+        active_leaf_id INTEGER,
+        consolidated_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+    await sql`
+      CREATE TABLE messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id INTEGER NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        raw_data TEXT,
+        agent_id INTEGER,
+        model TEXT,
+        parent_id INTEGER,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+  });
+
+  test("getConversation returns the model that answered each message", async () => {
+    const conversation = await repository.create({ user_id: 1, agent_id: 2, title: "Hello" });
+    await repository.addMessage({ conversation_id: conversation.id, role: "user", content: "Hi" });
+    await repository.addMessage({
+      conversation_id: conversation.id,
+      role: "assistant",
+      content: "Hello!",
+      agent_id: 2,
+      model: "anthropic:claude-haiku-4-5",
+    });
+
+    const handlers = createChatHandlers({
+      conversationRepository: repository,
+      authenticate: async () => ({ user: { id: 1 }, session: { id: "s", userId: 1 } }),
+    } as any);
+    const response = await handlers.getConversation(
+      new Request(`http://localhost/api/chat/helper/conversation/${conversation.id}`) as BunRequest
+    );
+
+    expect(response.status).toBe(200);
+    const { messages } = await response.json();
+    expect(messages.map((m: { role: string; model: string | null }) => [m.role, m.model])).toEqual([
+      ["user", null],
+      ["assistant", "anthropic:claude-haiku-4-5"],
+    ]);
+  });
+});
@@ -1,10 +1,10 @@
 import { describe, test, expect, mock } from "bun:test";
-import { DatabaseSession } from "../backend/services/DatabaseSession";
+import { DatabaseSession, describeBranches, findLatestLeaf, findPath } from "../backend/services/DatabaseSession";
 
 describe("DatabaseSession", () => {
   test("getMessages converts simple DB messages to ModelMessage format", async () => {
     const mockRepo = {
-      listMessages: mock(() => Promise.resolve([
+      listActivePath: mock(() => Promise.resolve([
         { id: 1, conversation_id: 1, role: "user", content: "Hello", created_at: new Date() },
         { id: 2, conversation_id: 1, role: "assistant", content: "Hi there!", created_at: new Date() },
       ])),
@@ -21,7 +21,7 @@ describe("DatabaseSession", () => {
   test("getMessages uses raw_data when available", async () => {
     const rawMessage = { role: "assistant", content: [{ type: "text", text: "Hello" }] };
     const mockRepo = {
-      listMessages: mock(() => Promise.resolve([
+      listActivePath: mock(() => Promise.resolve([
         { id: 1, conversation_id: 1, role: "assistant", content: "Hello", raw_data: rawMessage, created_at: new Date() },
       ])),
     } as any;
@@ -91,7 +91,7 @@ describe("DatabaseSession", () => {
 
   test("getMessages filters null results from unknown roles", async () => {
     const mockRepo = {
-      listMessages: mock(() => Promise.resolve([
+      listActivePath: mock(() => Promise.resolve([
         { id: 1, conversation_id: 1, role: "user", content: "Hi", created_at: new Date() },
         { id: 2, conversation_id: 1, role: "function", content: "result", created_at: new Date() }, // unknown role
         { id: 3, conversation_id: 1, role: "assistant", content: "Hello", created_at: new Date() },
@@ -104,3 +104,90 @@ describe("DatabaseSession", () => {
     expect(messages.length).toBe(2); // function role filtered out
   });
 });
+
+describe("Conversation branches", () => {
+  // 1 (user) -> 2 (assistant) -> 3 (user) -> 4 (assistant)
+  //          \-> 5 (assistant, regenerated) -> 6 (user)
+  // 7 (user, edited first message)
+  const msg = (id: number, parent_id: number | null, role: "user" | "assistant", minute: number) => ({
+    id,
+    conversation_id: 1,
+    role,
+    content: `m${id}`,
+    parent_id,
+    created_at: new Date(Date.UTC(2025, 0, 1, 0, minute)),
+  });
+  const messages = [
+    msg(1, null, "user", 0),
+    msg(2, 1, "assistant", 1),
+    msg(3, 2, "user", 2),
+    msg(4, 3, "assistant", 3),
+    msg(5, 1, "assistant", 4),
+    msg(6, 5, "user", 5),
+    msg(7, null, "user", 6),
+  ];
+
+  test("findLatestLeaf follows the most recent child", () => {
+    expect(findLatestLeaf(messages, 1)).toBe(6);
+    expect(findLatestLeaf(messages, 2)).toBe(4);
+    expect(findLatestLeaf(messages, 7)).toBe(7);
+  });
+
+  test("describeBranches reports siblings for branch points on the path", () => {
+    const path = [messages[0]!, messages[4]!, messages[5]!];
+    const branches = describeBranches(messages, path);
+
+    expect(branches.get(1)).toEqual({ sibling_ids: [1, 7], index: 0 });
+    expect(branches.get(5)).toEqual({ sibling_ids: [2, 5], index: 1 });
+    expect(branches.has(6)).toBe(false);
+  });
+
+  test("addUserMessage passes an explicit parent for edits", async () => {
+    const addedMessages: any[] = [];
+    const mockRepo = {
+      addMessage: mock((msg: any) => {
+        addedMessages.push(msg);
+        return Promise.resolve();
+      }),
+    } as any;
+
+    const session = new DatabaseSession(1, mockRepo);
+    await session.addUserMessage("edited", null);
+    await session.addUserMessage("appended");
+
+    expect(addedMessages[0].parent_id).toBeNull();
+    expect(addedMessages[1].parent_id).toBeUndefined();
+  });
+
+  test("findPath walks from the root to a message", () => {
+    expect(findPath(messages, 6).map((m) => m.id)).toEqual([1, 5, 6]);
+    expect(findPath(messages, 7).map((m) => m.id)).toEqual([7]);
+  });
+
+  test("branchFrom answers from an earlier message and only moves the branch when a reply is saved", async () => {
+    const addedMessages: any[] = [];
+    const mockRepo = {
+      listMessages: mock(() => Promise.resolve(messages)),
+      addMessage: mock((msg: any) => {
+        addedMessages.push(msg);
+        return Promise.resolve();
+      }),
+      setActiveLeaf: mock(() => Promise.resolve()),
+    } as any;
+
+    const session = new DatabaseSession(1, mockRepo);
+    session.branchFrom(3);
+    expect(await session.getMessages()).toEqual([
+      { role: "user", content: "m1" },
+      { role: "assistant", content: "m2" },
+      { role: "user", content: "m3" },
+    ]);
+    expect(mockRepo.setActiveLeaf).not.toHaveBeenCalled();
+
+    await session.saveResponseMessages([
+      { role: "assistant", content: "calling a tool" } as any,
+      { role: "tool", content: [{ type: "tool-result", toolName: "recall", result: "data" }] } as any,
+    ]);
+    expect(addedMessages.map((m) => m.parent_id)).toEqual([3, undefined]);
+  });
+});
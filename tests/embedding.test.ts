@@ -0,0 +1,31 @@
+import { describe, test, expect } from "bun:test";
+import { EmbeddingService, resolveEmbeddingModel } from "../backend/services/EmbeddingService";
+
+const custom = { mygateway: { base_url: "https://llm.example.com/v1", api_key_header: "Authorization" } };
+
+describe("resolveEmbeddingModel", () => {
+  test("prefers OpenAI, then Google, then Ollama when no model is set", () => {
+    expect(resolveEmbeddingModel(null, { openai: "sk", google: "g" })).toBe("openai:text-embedding-3-small");
+    expect(resolveEmbeddingModel(null, { google: "g", ollama_url: "http://localhost:11434" })).toBe("google:text-embedding-004");
+    expect(resolveEmbeddingModel(null, { ollama_url: "http://localhost:11434" })).toBe("ollama:nomic-embed-text");
+  });
+
+  test("uses the preferred model when its provider is configured", () => {
+    expect(resolveEmbeddingModel("ollama:mxbai-embed-large", { openai: "sk", ollama_url: "http://x" })).toBe("ollama:mxbai-embed-large");
+    expect(resolveEmbeddingModel("mygateway:bge-m3", { custom })).toBe("mygateway:bge-m3");
+  });
+
+  test("falls back when the preferred provider has no credentials", () => {
+    expect(resolveEmbeddingModel("google:text-embedding-004", { openai: "sk" })).toBe("openai:text-embedding-3-small");
+  });
+
+  test("returns null when nothing can embed", () => {
+    expect(resolveEmbeddingModel(null, { anthropic: "sk-ant" })).toBeNull();
+  });
+});
+
+describe("EmbeddingService", () => {
+  test("rejects models without a provider prefix", () => {
+    expect(() => new EmbeddingService("text-embedding-3-small", {})).toThrow("provider:model-id");
+  });
+});
@@ -0,0 +1,54 @@
+import type { ChatPlatform } from "../../backend/types/models";
+
+export interface RecordedPlatformRequest {
+  platform: ChatPlatform;
+  method: string;
+  /** Path below the platform's API root, e.g. "/chat.postMessage" */
+  path: string;
+  headers: Headers;
+  body: any;
+}
+
+/**
+ * One local server standing in for the Slack, Discord and Telegram APIs.
+ * Each platform lives under its own prefix; every call is recorded and
+ * answered the way the real API answers a successful one.
+ */
+export function mockChatPlatforms() {
+  const requests: RecordedPlatformRequest[] = [];
+
+  const server = Bun.serve({
+    port: 0,
+    hostname: "127.0.0.1",
+    async fetch(req) {
+      const url = new URL(req.url);
+      const [, platform, ...rest] = url.pathname.split("/");
+      const text = await req.text();
+      requests.push({
+        platform: platform as ChatPlatform,
+        method: req.method,
+        path: `/${rest.join("/")}`,
+        headers: req.headers,
+        body: text ? JSON.parse(text) : null,
+      });
+
+      switch (platform) {
+        case "slack":
+          return Response.json({ ok: true, ts: "1700000000.000200" });
+        case "telegram":
+          return Response.json({ ok: true, result: true });
+        case "discord":
+          return Response.json({ id: "1" });
+        default:
+          return new Response("Not found", { status: 404 });
+      }
+    },
+  });
+
+  const base = `http://127.0.0.1:${server.port}`;
+  return {
+    urls: { slack: `${base}/slack`, discord: `${base}/discord`, telegram: `${base}/telegram` },
+    requests,
+    stop: () => server.stop(true),
+  };
+}
@@ -0,0 +1,389 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  buildMimeMessage,
+  htmlToText,
+  InboundSmtpServer,
+  authVerdict,
+  isAllowedSender,
+  parseEmail,
+  parseInboundAddress,
+  senderRejection,
+  SmtpError,
+  SmtpTransport,
+  stripQuotedReply,
+  type InboundEnvelope,
+} from "../backend/mail";
+import { InboundEmailService } from "../backend/services/InboundEmailService";
+import { BudgetExceededError } from "../backend/services/BudgetService";
+import type { EmailInbox, EmailThread } from "../backend/types/models";
+
+const CRLF = "\r\n";
+
+const receipt = [
+  "From: =?UTF-8?B?U8OpYmFzdGllbg==?= <Seb@Example.com>",
+  "To: expenses+alice@agents.example.com, \"Doe, Jane\" <jane@example.com>",
+  "Subject: =?ISO-8859-1?Q?Re=E7u_de_caf=E9?=",
+  "Message-ID: <receipt-1@example.com>",
+  "Date: Mon, 19 Oct 2026 09:00:00 +0000",
+  "MIME-Version: 1.0",
+  'Content-Type: multipart/mixed; boundary="outer"',
+  "",
+  "This is a multi-part message in MIME format.",
+  "--outer",
+  'Content-Type: multipart/alternative; boundary="inner"',
+  "",
+  "--inner",
+  "Content-Type: text/plain; charset=ISO-8859-1",
+  "Content-Transfer-Encoding: quoted-printable",
+  "",
+  "Please file this caf=E9 receipt, it's a long line that was soft=",
+  " wrapped.",
+  "--inner",
+  "Content-Type: text/html; charset=UTF-8",
+  "Content-Transfer-Encoding: base64",
+  "",
+  Buffer.from("<p>Please file this café receipt</p>").toString("base64"),
+  "--inner--",
+  "--outer",
+  "Content-Type: text/csv",
+  "Content-Disposition: attachment; filename*=UTF-8''re%C3%A7u.csv",
+  "Content-Transfer-Encoding: base64",
+  "",
+  Buffer.from("item,amount\ncoffee,3.50\n").toString("base64"),
+  "--outer",
+  'Content-Type: application/pdf; name="scan.pdf"',
+  "Content-Transfer-Encoding: base64",
+  "",
+  Buffer.from("%PDF-1.4").toString("base64"),
+  "--outer--",
+  "",
+].join(CRLF);
+
+describe("parseEmail", () => {
+  test("decodes headers, nested parts, charsets and attachments", () => {
+    const email = parseEmail(receipt);
+    expect(email.from).toEqual({ name: "Sébastien", address: "seb@example.com" });
+    expect(email.to.map((a) => a.address)).toEqual(["expenses+alice@agents.example.com", "jane@example.com"]);
+    expect(email.to[1]!.name).toBe("Doe, Jane");
+    expect(email.subject).toBe("Reçu de café");
+    expect(email.messageId).toBe("<receipt-1@example.com>");
+    expect(email.text).toBe("Please file this café receipt, it's a long line that was soft wrapped.");
+    expect(email.html).toBe("<p>Please file this café receipt</p>");
+    expect(email.attachments.map((a) => [a.filename, a.contentType])).toEqual([
+      ["reçu.csv", "text/csv"],
+      ["scan.pdf", "application/pdf"],
+    ]);
+    expect(email.attachments[0]!.content.toString()).toContain("coffee,3.50");
+  });
+
+  test("makes text from an HTML-only body", () => {
+    const email = parseEmail(
+      ["From: a@example.com", "Content-Type: text/html", "", "<style>p{}</style><p>One &amp; two</p><p>Three<br>four</p>"].join(CRLF)
+    );
+    expect(email.text).toBe("One & two\nThree\nfour");
+    expect(htmlToText("<ul><li>a</li><li>b</li></ul>")).toBe("- a\n- b");
+  });
+
+  test("reads the threading headers buildMimeMessage writes", () => {
+    const raw = buildMimeMessage({
+      from: "Agent <agent@example.com>",
+      to: ["sam@example.com"],
+      replyTo: "alice@agents.example.com",
+      subject: "Re: Hello",
+      text: "Hi",
+      html: "<p>Hi</p>",
+      messageId: "<reply@agents.example.com>",
+      inReplyTo: "<b@example.com>",
+      references: ["<a@example.com>", "<b@example.com>"],
+    });
+    const email = parseEmail(raw);
+    expect(email.messageId).toBe("<reply@agents.example.com>");
+    expect(email.inReplyTo).toBe("<b@example.com>");
+    expect(email.references).toEqual(["<a@example.com>", "<b@example.com>"]);
+    expect(email.headers["reply-to"]).toBe("alice@agents.example.com");
+    expect(email.text).toBe("Hi");
+  });
+});
+
+describe("stripQuotedReply", () => {
+  test("keeps only the new text above the quote", () => {
+    expect(stripQuotedReply("Thanks!\n\nOn Mon, Oct 19, 2026 at 9:00 AM Agent <a@x.com> wrote:\n> Done.")).toBe("Thanks!");
+    expect(stripQuotedReply("Sounds good\n> earlier\n>\n> more")).toBe("Sounds good");
+    expect(stripQuotedReply("> only quoted")).toBe("> only quoted");
+  });
+});
+
+describe("inbound addresses", () => {
+  test("split the agent slug from the alias and check the domain", () => {
+    expect(parseInboundAddress("Expenses+Alice@agents.example.com", "agents.example.com")).toEqual({ alias: "alice", agentSlug: "expenses" });
+    expect(parseInboundAddress("alice@agents.example.com", "agents.example.com")).toEqual({ alias: "alice", agentSlug: null });
+    expect(parseInboundAddress("alice@elsewhere.com", "agents.example.com")).toBeNull();
+    expect(parseInboundAddress("alice@elsewhere.com", null)).toEqual({ alias: "alice", agentSlug: null });
+  });
+
+  test("accept the account's address, or the listed senders and domains", () => {
+    const inbox = { allowed_senders: [] } as unknown as EmailInbox;
+    expect(isAllowedSender(inbox, "Alice@Example.com", "alice@example.com")).toBe(true);
+    expect(isAllowedSender(inbox, "mallory@example.com", "alice@example.com")).toBe(false);
+
+    const listed = { allowed_senders: ["@example.org", "bob@example.net"] } as unknown as EmailInbox;
+    expect(isAllowedSender(listed, "carol@example.org", "alice@example.com")).toBe(true);
+    expect(isAllowedSender(listed, "carol@badexample.org", "alice@example.com")).toBe(false);
+    expect(isAllowedSender(listed, "alice@example.com", "alice@example.com")).toBe(false);
+  });
+
+  test("refuse forged senders the envelope or a provider's checks give away", () => {
+    const inbox = { allowed_senders: [] } as unknown as EmailInbox;
+    const from = "alice@example.com";
+    expect(senderRejection(inbox, from, {}, from)).toBeNull();
+    expect(senderRejection(inbox, from, { from, spf: "Pass", dkim: "{@example.com : pass}" }, from)).toBeNull();
+    expect(senderRejection(inbox, from, { from: "mallory@evil.test" }, from)).toBe("Envelope sender not allowed");
+    expect(senderRejection(inbox, from, { from: "" }, from)).toBe("Envelope sender not allowed");
+    expect(senderRejection(inbox, from, { spf: "softfail" }, from)).toBe("SPF check failed (softfail)");
+    expect(senderRejection(inbox, from, { dkim: "{@example.com : pass, @evil.test : fail}" }, from)).toBe(
+      "DKIM check failed (fail)"
+    );
+  });
+
+  test("read provider SPF and DKIM fields as one verdict", () => {
+    expect(authVerdict(undefined)).toBeNull();
+    expect(authVerdict(" ")).toBeNull();
+    expect(authVerdict("Pass")).toBe("pass");
+    expect(authVerdict("{@example.com : pass}")).toBe("pass");
+    expect(authVerdict("{@example.com : none}")).toBe("none");
+  });
+});
+
+describe("InboundSmtpServer", () => {
+  test("takes mail for accepted recipients and refuses others", async () => {
+    const received: Array<{ envelope: InboundEnvelope; raw: string }> = [];
+    const server = new InboundSmtpServer({
+      serverName: "agents.example.com",
+      acceptRecipient: async (address) => address.endsWith("@agents.example.com"),
+      onMessage: async (envelope, raw) => {
+        received.push({ envelope, raw: raw.toString("latin1") });
+      },
+    });
+    const port = await server.listen(0);
+
+    try {
+      const transport = new SmtpTransport({ host: "127.0.0.1", port, security: "none", timeoutMs: 5000 });
+      await transport.send({
+        from: "sam@example.com",
+        to: ["alice@agents.example.com"],
+        subject: "Hello",
+        text: ".leading dot\nbody",
+        html: "<p>body</p>",
+      });
+
+      expect(received).toHaveLength(1);
+      expect(received[0]!.envelope).toEqual({ from: "sam@example.com", to: ["alice@agents.example.com"] });
+      const email = parseEmail(received[0]!.raw);
+      expect(email.subject).toBe("Hello");
+      expect(email.text).toBe(".leading dot\nbody");
+
+      const error = await transport
+        .send({ from: "sam@example.com", to: ["nobody@elsewhere.com"], subject: "x", text: "x", html: "x" })
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(SmtpError);
+      expect((error as SmtpError).code).toBe(550);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("InboundEmailService", () => {
+  let mailDir: string;
+  let threads: EmailThread[];
+  let conversations: Array<{ id: number; agent_id: number; title: string; source: string }>;
+  let prompts: Array<{ agentId: number; messages: any[] }>;
+  let budgetError: BudgetExceededError | null;
+  let service: InboundEmailService;
+
+  const inbox: EmailInbox = {
+    id: 1,
+    user_id: 1,
+    alias: "alice",
+    agent_id: 10,
+    allowed_senders: [],
+    enabled: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+  const agents = [
+    { id: 10, user_id: 1, slug: "assistant", name: "Assistant" },
+    { id: 20, user_id: 1, slug: "expenses", name: "Expenses" },
+  ];
+
+  const mail = (headers: string[], body: string, to = "expenses+alice@agents.example.com") =>
+    ["From: Alice <alice@example.com>", `To: ${to}`, ...headers, "", body].join(CRLF);
+
+  const mbox = () => readFile(join(mailDir, "replies.mbox"), "utf8");
+
+  beforeEach(async () => {
+    mailDir = await mkdtemp(join(tmpdir(), "inbound-email-"));
+    threads = [];
+    conversations = [];
+    prompts = [];
+    budgetError = null;
+
+    const messages = new Map<number, any[]>();
+    service = new InboundEmailService({
+      emailInboxRepository: {
+        findByAlias: async (alias: string) => (alias === inbox.alias ? inbox : null),
+        findThread: async (inboxId: number, messageIds: string[]) =>
+          threads.filter((t) => t.email_inbox_id === inboxId && messageIds.includes(t.message_id)).at(-1) ?? null,
+        saveThread: async (data: Omit<EmailThread, "id" | "created_at">) => {
+          const thread = { ...data, id: threads.length + 1, created_at: new Date() };
+          threads.push(thread);
+          return thread;
+        },
+      } as any,
+      agentRepository: {
+        findById: async (id: number) => agents.find((a) => a.id === id) ?? null,
+        findBySlug: async (userId: number, slug: string) => agents.find((a) => a.user_id === userId && a.slug === slug) ?? null,
+      } as any,
+      agentFactory: {
+        getAgentConfigById: async (_userId: number, agentId: number) => agents.find((a) => a.id === agentId),
+        createAgent: async (_userId: number, slug: string) => {
+          const agentId = agents.find((a) => a.slug === slug)!.id;
+          return {
+            id: agentId,
+            model: "test-model",
+            agent: {
+              generate: async ({ messages }: { messages: any[] }) => {
+                prompts.push({ agentId, messages });
+                const text = `Filed (${prompts.length})`;
+                return { text, steps: [], response: { messages: [{ role: "assistant", content: text }] } };
+              },
+            },
+          };
+        },
+      } as any,
+      conversationRepository: {
+        create: async (data: { agent_id: number; title: string; source: string }) => {
+          const conversation = { ...data, id: conversations.length + 1 };
+          conversations.push(conversation);
+          return conversation;
+        },
+        findById: async (id: number) => conversations.find((c) => c.id === id) ?? null,
+        addMessage: async (data: any) => {
+          messages.set(data.conversation_id, [...(messages.get(data.conversation_id) ?? []), data]);
+          return { id: Math.random() };
+        },
+        listActivePath: async (conversationId: number) => messages.get(conversationId) ?? [],
+        setActiveLeaf: async () => {},
+      } as any,
+      userRepository: {
+        findById: async () => ({ id: 1, email: "alice@example.com", ollama_url: "http://127.0.0.1:1" }),
+      } as any,
+      usageRepository: null,
+      budgetService: {
+        enforce: async () => {
+          if (budgetError) throw budgetError;
+          return { stopWhen: () => false, exceeded: null };
+        },
+      } as any,
+      modelProviderRepository: null,
+      notificationRepository: {
+        getSettings: async () => ({ mail_transport: { type: "file", mailbox: "replies", from: "agents@agents.example.com" } }),
+      } as any,
+      teamRepository: null,
+      encryptionSecret: "test-encryption-secret",
+      domain: "agents.example.com",
+      frontendUrl: "https://app.example.com",
+      mailDir,
+    });
+  });
+
+  afterEach(async () => {
+    await rm(mailDir, { recursive: true, force: true });
+  });
+
+  test("routes by agent slug, answers by email and continues the thread", async () => {
+    expect(await service.receive(receipt.replace("Seb@Example.com", "alice@example.com"))).toEqual({
+      status: "queued",
+      recipient: "expenses+alice@agents.example.com",
+    });
+    await service.idle();
+
+    expect(conversations).toEqual([expect.objectContaining({ agent_id: 20, source: "email", title: "[Email] Reçu de café" })]);
+    const prompt = prompts[0]!.messages[0].content as string;
+    expect(prompt).toContain("Subject: Reçu de café");
+    expect(prompt).toContain("- scan.pdf (application/pdf, 8 B)");
+    expect(prompt).toContain("coffee,3.50");
+
+    const reply = parseEmail((await mbox()).split("\n").slice(1).join("\n"));
+    expect(reply.subject).toBe("Re: Reçu de café");
+    expect(reply.inReplyTo).toBe("<receipt-1@example.com>");
+    expect(reply.headers["reply-to"]).toBe("expenses+alice@agents.example.com");
+    expect(reply.from).toEqual({ name: "Expenses", address: "agents@agents.example.com" });
+    expect(reply.text).toContain("Filed (1)");
+    expect(reply.text).toContain("https://app.example.com/chat/expenses?conversation=1");
+
+    // Answering the reply continues the conversation, without the quoted text
+    await service.receive(
+      mail(
+        ["Subject: Re: Reçu de café", "Message-ID: <followup@example.com>", `In-Reply-To: ${reply.messageId}`],
+        `Also the taxi\n\nOn Mon, Expenses wrote:\n> Filed (1)`
+      )
+    );
+    await service.idle();
+
+    expect(conversations).toHaveLength(1);
+    expect(prompts[1]!.messages).toHaveLength(3);
+    expect(prompts[1]!.messages[2].content).toContain("Also the taxi");
+    expect(prompts[1]!.messages[2].content).not.toContain("> Filed (1)");
+  });
+
+  test("uses the inbox's agent without a slug", async () => {
+    await service.receive(mail(["Subject: Hi"], "Hello", "alice@agents.example.com"));
+    await service.idle();
+    expect(prompts.map((p) => p.agentId)).toEqual([10]);
+  });
+
+  test("ignores strangers, automated mail and repeats, and rejects unknown addresses", async () => {
+    const stranger = mail(["Subject: Hi", "Message-ID: <s@example.com>"], "Hi").replace("alice@example.com", "mallory@example.com");
+    expect(await service.receive(stranger)).toEqual({ status: "ignored", reason: "Sender not allowed" });
+    expect(await service.receive(mail(["Subject: Out of office", "Auto-Submitted: auto-replied"], "Away"))).toEqual({
+      status: "ignored",
+      reason: "Automated message",
+    });
+    expect(await service.receive(mail(["Subject: Hi"], "Hi"), { to: ["bob@agents.example.com"] })).toEqual({
+      status: "rejected",
+      reason: "No inbox for the recipients",
+    });
+
+    const once = mail(["Subject: Hi", "Message-ID: <once@example.com>"], "Hi");
+    expect((await service.receive(once)).status).toBe("queued");
+    await service.idle();
+    expect(await service.receive(once)).toEqual({ status: "ignored", reason: "Already received" });
+    expect(prompts).toHaveLength(1);
+  });
+
+  test("ignores mail whose envelope or sender checks don't match the From header", async () => {
+    const hi = mail(["Subject: Hi"], "Hi");
+    expect(await service.receive(hi, { from: "mallory@evil.test" })).toEqual({
+      status: "ignored",
+      reason: "Envelope sender not allowed",
+    });
+    expect(await service.receive(hi, { spf: "fail" })).toEqual({ status: "ignored", reason: "SPF check failed (fail)" });
+    expect((await service.receive(hi, { from: "alice@example.com", spf: "pass" })).status).toBe("queued");
+    await service.idle();
+    expect(prompts).toHaveLength(1);
+  });
+
+  test("replies with the limit when a budget stops the agent", async () => {
+    budgetError = new BudgetExceededError("Your monthly budget has been reached ($5.00 of $5.00).", "user");
+    await service.receive(mail(["Subject: Hi"], "Hello"));
+    await service.idle();
+
+    expect(prompts).toHaveLength(0);
+    const reply = parseEmail((await mbox()).split("\n").slice(1).join("\n"));
+    expect(reply.text).toContain("Your monthly budget has been reached ($5.00 of $5.00).");
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, test, expect } from "bun:test";
+import { createServer, type AddressInfo } from "node:net";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { buildMimeMessage, formatAddress } from "../backend/mail/mime";
+import { SmtpTransport } from "../backend/mail/smtp";
+import { FileMailTransport } from "../backend/mail/transports";
+import { renderNotificationEmail } from "../backend/mail/templates";
+import { maskMailTransport, parseMailTransportInput, validateEmailRecipients } from "../backend/mail/settings";
+import type { MailMessage } from "../backend/mail/types";
+
+const message: MailMessage = {
+  from: "Assistant <assistant@example.com>",
+  to: [formatAddress("Sam Doe", "sam@example.com")],
+  subject: "Réunion à 10h",
+  text: "Line one\n.leading dot",
+  html: "<p>Line one</p>",
+};
+
+function decodeParts(raw: string): string[] {
+  return [...raw.matchAll(/Content-Transfer-Encoding: base64\r?\n\r?\n([\s\S]*?)\r?\n--/g)]
+    .map((m) => Buffer.from(m[1]!.replace(/\s/g, ""), "base64").toString("utf8"));
+}
+
+/** A scripted SMTP server that records the session */
+async function fakeSmtpServer() {
+  const commands: string[] = [];
+  let data = "";
+  const server = createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    socket.write("220 fake ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end === -1) return;
+        data = buffer.slice(0, end + 2);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write("250 queued\r\n");
+      }
+      let eol: number;
+      while (!inData && (eol = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, eol);
+        buffer = buffer.slice(eol + 2);
+        commands.push(line);
+        if (line.startsWith("EHLO")) socket.write("250-fake\r\n250-AUTH LOGIN PLAIN\r\n250 8BITMIME\r\n");
+        else if (line.startsWith("AUTH")) socket.write("235 ok\r\n");
+        else if (line === "DATA") {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (line === "QUIT") socket.end("221 bye\r\n");
+        else socket.write("250 ok\r\n");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    data: () => data,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe("MIME messages", () => {
+  test("headers are encoded and both parts carry the UTF-8 content", () => {
+    const raw = buildMimeMessage(message, { date: new Date("2026-01-02T03:04:05Z"), messageId: "<id@example.com>" });
+    expect(raw).toContain("From: Assistant <assistant@example.com>\r\n");
+    expect(raw).toContain("To: Sam Doe <sam@example.com>\r\n");
+    expect(raw).toContain(`Subject: =?UTF-8?B?${Buffer.from("Réunion à 10h").toString("base64")}?=\r\n`);
+    expect(raw).toContain("Content-Type: multipart/alternative;");
+    expect(decodeParts(raw)).toEqual([message.text, message.html]);
+  });
+
+  test("display names with punctuation are quoted", () => {
+    expect(formatAddress('Ops, "on call"', "ops@example.com")).toBe('"Ops, \\"on call\\"" <ops@example.com>');
+    expect(formatAddress(null, "ops@example.com")).toBe("ops@example.com");
+  });
+});
+
+describe("SMTP transport", () => {
+  test("authenticates and sends one transaction per message", async () => {
+    const server = await fakeSmtpServer();
+    try {
+      const transport = new SmtpTransport({
+        host: "127.0.0.1",
+        port: server.port,
+        security: "none",
+        username: "user",
+        password: "secret",
+        clientName: "test.local",
+        timeoutMs: 5_000,
+      });
+      await transport.send(message);
+
+      expect(server.commands).toEqual([
+        "EHLO test.local",
+        `AUTH PLAIN ${Buffer.from("\0user\0secret").toString("base64")}`,
+        "MAIL FROM:<assistant@example.com>",
+        "RCPT TO:<sam@example.com>",
+        "DATA",
+        "QUIT",
+      ]);
+      expect(decodeParts(server.data())).toEqual([message.text, message.html]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("refuses to continue without STARTTLS when it is required", async () => {
+    const server = await fakeSmtpServer();
+    try {
+      const transport = new SmtpTransport({ host: "127.0.0.1", port: server.port, security: "starttls", timeoutMs: 5_000 });
+      await expect(transport.send(message)).rejects.toThrow("doesn't offer STARTTLS");
+      expect(server.commands.some((c) => c.startsWith("MAIL"))).toBe(false);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("refuses addresses that would inject SMTP commands", async () => {
+    const server = await fakeSmtpServer();
+    try {
+      const transport = new SmtpTransport({ host: "127.0.0.1", port: server.port, security: "none", timeoutMs: 5_000 });
+      await expect(transport.send({ ...message, to: ["sam@example.com>\r\nRCPT TO:<eve@example.com"] }))
+        .rejects.toThrow("Invalid email address");
+      expect(server.commands.some((c) => c.includes("eve@example.com"))).toBe(false);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("file transport", () => {
+  test("appends messages to an mbox file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mail-test-"));
+    try {
+      const transport = new FileMailTransport({ dir, mailbox: "dev" });
+      await transport.send(message);
+      await transport.send({ ...message, subject: "Second" });
+
+      const mbox = await readFile(join(dir, "dev.mbox"), "utf8");
+      expect(mbox.match(/^From assistant@example\.com /gm)).toHaveLength(2);
+      expect(mbox).toContain("Subject: Second\n");
+      expect(mbox).not.toContain("\r\n");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("notification emails", () => {
+  test("name the agent, show urgency and link to the conversation", () => {
+    const email = renderNotificationEmail({
+      agentName: "Ops <Bot>",
+      message: "Disk is almost full on db-1\n\nFree space: 3%",
+      urgency: "high",
+      link: { url: "https://app.example.com/chat/ops?conversation=7", label: "Open the conversation" },
+    });
+    expect(email.subject).toBe("[Urgent] Ops <Bot>: Disk is almost full on db-1");
+    expect(email.text).toContain("Open the conversation: https://app.example.com/chat/ops?conversation=7");
+    expect(email.html).toContain("Ops &lt;Bot&gt;");
+    expect(email.html).toContain(">Urgent</span>");
+    expect(email.html).toContain('href="https://app.example.com/chat/ops?conversation=7"');
+  });
+});
+
+describe("mail transport settings", () => {
+  const secret = "0123456789abcdef0123456789abcdef";
+
+  test("secrets are encrypted, kept when left out and never returned", async () => {
+    const first = await parseMailTransportInput(
+      { type: "smtp", host: "smtp.example.com", password: "hunter2", from: "a@example.com" },
+      null,
+      secret
+    );
+    if (!("config" in first) || first.config?.type !== "smtp") throw new Error("expected an SMTP config");
+    expect(first.config).toMatchObject({ port: 587, security: "starttls" });
+    expect(first.config.password).not.toBe("hunter2");
+
+    const kept = await parseMailTransportInput(
+      { type: "smtp", host: "smtp.example.com", port: 2525, from: "a@example.com" },
+      first.config,
+      secret
+    );
+    expect(kept).toMatchObject({ config: { port: 2525, password: first.config.password } });
+    expect(maskMailTransport(first.config)).toMatchObject({ has_password: true });
+    expect(maskMailTransport(first.config)).not.toHaveProperty("password");
+  });
+
+  test("invalid settings are rejected", async () => {
+    expect(await parseMailTransportInput({ type: "pigeon", from: "a@example.com" }, null, secret))
+      .toMatchObject({ error: expect.stringContaining("smtp, http, file") });
+    expect(await parseMailTransportInput({ type: "http", url: "http://mail.local", from: "a@example.com" }, null, secret))
+      .toMatchObject({ error: expect.stringContaining("HTTPS") });
+    expect(await parseMailTransportInput({ type: "file", mailbox: "../etc", from: "a@example.com" }, null, secret))
+      .toMatchObject({ error: expect.stringContaining("mailbox") });
+    expect(await parseMailTransportInput({ type: "file", mailbox: "dev", from: "nobody" }, null, secret))
+      .toMatchObject({ error: expect.stringContaining("from") });
+    expect(await parseMailTransportInput({ type: "file", mailbox: "dev", from: "Me\r\nBcc: eve@example.com <a@example.com>" }, null, secret))
+      .toMatchObject({ error: expect.stringContaining("from") });
+  });
+
+  test("recipient addresses with control characters or angle brackets are rejected", () => {
+    expect(validateEmailRecipients("me@example.com", [{ name: "Work", email: "sam@example.com" }])).toBeNull();
+    expect(validateEmailRecipients("me@example.com\r\nRCPT TO:<eve@example.com>", undefined)).toContain("notification_email");
+    expect(validateEmailRecipients(null, [{ name: "Work", email: "sam@example.com>\nDATA" }])).toContain("Work");
+    expect(validateEmailRecipients(null, [{ name: "Work" }])).toContain("name and email");
+  });
+});
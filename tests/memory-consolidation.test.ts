@@ -0,0 +1,102 @@
+import { describe, test, expect } from "bun:test";
+import { normalizeOperations, type ConsolidationOperation } from "../backend/services/MemoryConsolidationService";
+import { loadAgentApiKeys } from "../backend/utils/modelProviders";
+import { encrypt } from "../backend/utils/encryption";
+import type { AgentMemory, User } from "../backend/types/models";
+
+function memory(key: string, value: string, overrides: Partial<AgentMemory> = {}): AgentMemory {
+  return {
+    id: 1,
+    agent_id: 1,
+    key,
+    value,
+    tier: "working",
+    author: "agent",
+    access_count: 1,
+    last_accessed_at: 0,
+    embedding_model: null,
+    embedding_dimensions: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+function op(overrides: Partial<ConsolidationOperation>): ConsolidationOperation {
+  return { action: "create", key: "k", value: "v", tier: "working", merge_keys: [], reason: "", ...overrides };
+}
+
+describe("normalizeOperations", () => {
+  test("never touches user-authored memories", () => {
+    const existing = [memory("name", "Alice", { author: "user" })];
+    expect(normalizeOperations([op({ action: "update", key: "name", value: "Bob" })], existing)).toEqual([]);
+  });
+
+  test("turns a create of an existing key into an update and vice versa", () => {
+    const existing = [memory("city", "Paris")];
+    const result = normalizeOperations(
+      [op({ action: "create", key: "city", value: "Berlin" }), op({ action: "update", key: "pet", value: "cat" })],
+      existing
+    );
+    expect(result.map((r) => [r.action, r.key])).toEqual([["update", "city"], ["create", "pet"]]);
+  });
+
+  test("drops updates that don't change the value and duplicate keys", () => {
+    const existing = [memory("city", "Paris")];
+    const result = normalizeOperations(
+      [op({ key: "city", value: "Paris" }), op({ key: "pet", value: "cat" }), op({ key: "pet", value: "dog" })],
+      existing
+    );
+    expect(result).toHaveLength(1);
+    expect(result[0]!.value).toBe("cat");
+  });
+
+  test("keeps only valid merge sources and falls back when none remain", () => {
+    const existing = [
+      memory("coffee", "Likes coffee"),
+      memory("coffee_pref", "Takes it black"),
+      memory("allergy", "Nuts", { author: "user" }),
+    ];
+    const result = normalizeOperations(
+      [
+        op({ action: "merge", key: "coffee", value: "Likes black coffee", merge_keys: ["coffee_pref", "allergy", "missing", "coffee"] }),
+        op({ action: "merge", key: "tea", value: "Dislikes tea", merge_keys: ["missing"] }),
+      ],
+      existing
+    );
+    expect(result[0]).toMatchObject({ action: "merge", key: "coffee", merge_keys: ["coffee_pref"] });
+    expect(result[1]).toMatchObject({ action: "create", key: "tea", merge_keys: [] });
+  });
+
+  test("caps the number of operations per run", () => {
+    const ops = Array.from({ length: 25 }, (_, i) => op({ key: `k${i}` }));
+    expect(normalizeOperations(ops, []).length).toBe(10);
+  });
+});
+
+describe("consolidation credentials", () => {
+  const SECRET = "test-encryption-secret";
+
+  test("team agents use the team's keys and custom providers, personal agents the user's", async () => {
+    const user = { id: 1, anthropic_api_key: await encrypt("user-key", SECRET) } as unknown as User;
+    const owners: unknown[] = [];
+    const repositories = {
+      teamRepository: {
+        getSettings: async () => ({ anthropic_api_key: await encrypt("team-key", SECRET), ollama_url: null }),
+      } as any,
+      modelProviderRepository: {
+        list: async (owner: unknown) => {
+          owners.push(owner);
+          return [];
+        },
+      } as any,
+    };
+
+    const team = await loadAgentApiKeys(user, { pool_type: "team", domain: "example.com" }, repositories, SECRET);
+    const personal = await loadAgentApiKeys(user, { pool_type: "personal" }, repositories, SECRET);
+
+    expect(team.anthropic).toBe("team-key");
+    expect(personal.anthropic).toBe("user-key");
+    expect(owners).toEqual([{ domain: "example.com" }, { user_id: 1 }]);
+  });
+});
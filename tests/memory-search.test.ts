@@ -0,0 +1,126 @@
+import { describe, test, expect } from "bun:test";
+import {
+  frequencyScore,
+  keywordScore,
+  rankMemories,
+  recencyScore,
+  searchWeightsFor,
+} from "../backend/services/MemorySearch";
+import type { KeywordMemoryMatch } from "../backend/repositories/MemoryRepository";
+import { containsPattern } from "../backend/repositories/postgres/PostgresMemoryRepository";
+import type { AgentMemory } from "../backend/types/models";
+
+const NOW = Date.UTC(2025, 5, 1);
+const DAY = 86_400_000;
+
+function memory(id: number, overrides: Partial<AgentMemory> = {}): AgentMemory {
+  return {
+    id,
+    agent_id: 1,
+    key: `key_${id}`,
+    value: `value ${id}`,
+    tier: "working",
+    author: "agent",
+    access_count: 1,
+    last_accessed_at: NOW,
+    embedding_model: null,
+    embedding_dimensions: null,
+    created_at: new Date(NOW),
+    updated_at: new Date(NOW),
+    ...overrides,
+  };
+}
+
+function keywordHit(id: number, match: Partial<KeywordMemoryMatch>, overrides: Partial<AgentMemory> = {}): KeywordMemoryMatch {
+  return { ...memory(id, overrides), text_rank: 0, substring_match: false, key_match: false, ...match };
+}
+
+describe("signal scores", () => {
+  test("keyword score favours exact key matches, then substrings, then full-text rank", () => {
+    expect(keywordScore({ key_match: true, substring_match: true, text_rank: 0.1 })).toBe(1);
+    expect(keywordScore({ key_match: false, substring_match: true, text_rank: 0.1 })).toBe(0.75);
+    expect(keywordScore({ key_match: false, substring_match: false, text_rank: 0.4 })).toBe(0.4);
+  });
+
+  test("recency halves every half-life", () => {
+    expect(recencyScore(NOW, NOW, 30)).toBe(1);
+    expect(recencyScore(NOW - 30 * DAY, NOW, 30)).toBeCloseTo(0.5);
+    expect(recencyScore(0, NOW, 30)).toBe(0);
+  });
+
+  test("frequency grows logarithmically and saturates", () => {
+    expect(frequencyScore(0)).toBe(0);
+    expect(frequencyScore(5)).toBeGreaterThan(frequencyScore(1));
+    expect(frequencyScore(1000)).toBe(1);
+  });
+});
+
+describe("rankMemories", () => {
+  test("an exact ID match outranks a closer vector neighbour", () => {
+    const ranked = rankMemories(
+      [keywordHit(1, { key_match: true, substring_match: true, text_rank: 0.5 }, { key: "INV-2041" })],
+      [{ ...memory(2), similarity: 0.8 }, { ...memory(1, { key: "INV-2041" }), similarity: 0.3 }],
+      { limit: 5, hasEmbedding: true, now: NOW }
+    );
+    expect(ranked.map((m) => m.id)).toEqual([1, 2]);
+    expect(ranked[0]!.similarity).toBe(0.3);
+  });
+
+  test("fresh memories rank above stale ones with equal relevance", () => {
+    const ranked = rankMemories(
+      [
+        keywordHit(1, { text_rank: 0.5 }, { last_accessed_at: NOW - 365 * DAY }),
+        keywordHit(2, { text_rank: 0.5 }, { last_accessed_at: NOW - DAY }),
+      ],
+      [],
+      { limit: 5, hasEmbedding: false, now: NOW }
+    );
+    expect(ranked.map((m) => m.id)).toEqual([2, 1]);
+  });
+
+  test("weights are tunable per agent", () => {
+    const hits = [
+      keywordHit(1, { text_rank: 0.9 }, { last_accessed_at: NOW - 365 * DAY }),
+      keywordHit(2, { text_rank: 0.2 }, { last_accessed_at: NOW }),
+    ];
+    const byKeyword = rankMemories(hits, [], { limit: 5, hasEmbedding: false, now: NOW });
+    const byRecency = rankMemories(hits, [], {
+      limit: 5,
+      hasEmbedding: false,
+      now: NOW,
+      weights: searchWeightsFor({ memory_search_weights: { keyword_weight: 0.1, recency_weight: 0.9 } }),
+    });
+    expect(byKeyword[0]!.id).toBe(1);
+    expect(byRecency[0]!.id).toBe(2);
+    expect(searchWeightsFor({ memory_search_weights: null })).toEqual({});
+    expect(searchWeightsFor({ memory_search_weights: { recency_half_life_days: 7 } })).toEqual({ recencyHalfLifeDays: 7 });
+  });
+
+  test("leaves the vector weight out when the query was not embedded", () => {
+    const [only] = rankMemories(
+      [keywordHit(1, { key_match: true }, { access_count: 1000 })],
+      [],
+      { limit: 5, hasEmbedding: false, now: NOW }
+    );
+    expect(only!.score).toBeCloseTo(1);
+  });
+
+  test("merges duplicates and applies the limit", () => {
+    const ranked = rankMemories(
+      [keywordHit(1, { text_rank: 0.5 }), keywordHit(2, { text_rank: 0.4 })],
+      [{ ...memory(1), similarity: 0.9 }, { ...memory(3), similarity: 0.2 }],
+      { limit: 2, hasEmbedding: true, now: NOW }
+    );
+    expect(ranked).toHaveLength(2);
+    expect(ranked[0]!.id).toBe(1);
+    expect(ranked[0]).not.toHaveProperty("text_rank");
+  });
+});
+
+describe("containsPattern", () => {
+  test("takes LIKE wildcards in the query literally", () => {
+    expect(containsPattern("100%")).toBe("%100\\%%");
+    expect(containsPattern("snake_case")).toBe("%snake\\_case%");
+    expect(containsPattern("C:\\temp")).toBe("%C:\\\\temp%");
+  });
+});
@@ -1,5 +1,15 @@
 import { describe, test, expect } from "bun:test";
-import { resolveModel, getProviderFromModel, DEFAULT_MODEL, AVAILABLE_MODELS } from "../backend/services/ModelResolver";
+import { APICallError } from "ai";
+import {
+  resolveModel,
+  resolveModelChain,
+  isRetryableModelError,
+  getFinalModel,
+  getProviderFromModel,
+  estimateCost,
+  DEFAULT_MODEL,
+  AVAILABLE_MODELS,
+} from "../backend/services/ModelResolver";
 
 describe("ModelResolver", () => {
   test("DEFAULT_MODEL is a valid format", () => {
@@ -55,11 +65,85 @@ describe("ModelResolver", () => {
     expect(model.modelId).toBe("gemini-2.0-flash");
   });
 
+  test("resolveModel uses a matching custom provider", () => {
+    const model = resolveModel("mygateway:qwen2.5-72b", {
+      custom: { mygateway: { base_url: "https://llm.example.com/v1", api_key: "key", api_key_header: "Authorization" } },
+    });
+    expect(model.modelId).toBe("qwen2.5-72b");
+    expect(model.provider).toBe("mygateway.chat");
+  });
+
+  test("resolveModel throws for custom providers that aren't configured", () => {
+    expect(() => resolveModel("mygateway:qwen2.5-72b", { custom: {} })).toThrow("Unknown model provider");
+  });
+
   test("AVAILABLE_MODELS all have valid format", () => {
     for (const m of AVAILABLE_MODELS) {
       expect(m.id).toContain(":");
       expect(["openai", "anthropic", "google"]).toContain(m.provider);
       expect(m.name.length).toBeGreaterThan(0);
+      expect(m.pricing.input).toBeGreaterThan(0);
+      expect(m.pricing.output).toBeGreaterThan(0);
     }
   });
+
+  test("estimateCost bills cached input at the cached rate", () => {
+    // gpt-4.1-mini: $0.40 input, $0.10 cached input, $1.60 output per 1M tokens
+    const cost = estimateCost("openai:gpt-4.1-mini", {
+      inputTokens: 1_000_000,
+      outputTokens: 500_000,
+      cachedInputTokens: 400_000,
+    });
+    expect(cost).toBeCloseTo(0.6 * 0.4 + 0.4 * 0.1 + 0.5 * 1.6, 6);
+  });
+
+  test("estimateCost returns null for unpriced models", () => {
+    expect(estimateCost("ollama:llama3", { inputTokens: 100, outputTokens: 100, cachedInputTokens: 0 })).toBeNull();
+  });
+});
+
+describe("model fallback chains", () => {
+  const apiCallError = (statusCode: number) =>
+    new APICallError({ message: `HTTP ${statusCode}`, url: "https://example.com", requestBodyValues: {}, statusCode });
+
+  test("rate limits, server errors and timeouts are retryable", () => {
+    expect(isRetryableModelError(apiCallError(429))).toBe(true);
+    expect(isRetryableModelError(apiCallError(503))).toBe(true);
+    expect(isRetryableModelError(new DOMException("timed out", "TimeoutError"))).toBe(true);
+    expect(isRetryableModelError(new TypeError("fetch failed"))).toBe(true);
+  });
+
+  test("client errors are not retryable", () => {
+    expect(isRetryableModelError(apiCallError(400))).toBe(false);
+    expect(isRetryableModelError(apiCallError(401))).toBe(false);
+    expect(isRetryableModelError(new Error("Invalid prompt"))).toBe(false);
+  });
+
+  test("a single model is returned unwrapped", () => {
+    const model = resolveModelChain(["openai:gpt-4o"], { openai: "sk-test" }) as { modelId: string };
+    expect(model.modelId).toBe("gpt-4o");
+  });
+
+  test("models without a configured provider are skipped", () => {
+    const model = resolveModelChain(["openai:gpt-4o", "anthropic:claude-sonnet-4-20250514"], {
+      anthropic: "sk-ant-test",
+    }) as { modelId: string };
+    expect(model.modelId).toBe("openai:gpt-4o > anthropic:claude-sonnet-4-20250514");
+  });
+
+  test("throws the first configuration error when no model resolves", () => {
+    expect(() => resolveModelChain(["openai:gpt-4o", "google:gemini-2.0-flash"], {})).toThrow(
+      "OpenAI API key not configured"
+    );
+  });
+
+  test("getFinalModel reads the model that answered the last step", () => {
+    const steps = [
+      { providerMetadata: { fallback: { model: "anthropic:claude-sonnet-4-20250514" } } },
+      { providerMetadata: { fallback: { model: "ollama:llama3" } } },
+    ];
+    expect(getFinalModel(steps, "openai:gpt-4.1")).toBe("ollama:llama3");
+    expect(getFinalModel([{ providerMetadata: undefined }], "openai:gpt-4.1")).toBe("openai:gpt-4.1");
+    expect(getFinalModel([], "openai:gpt-4.1")).toBe("openai:gpt-4.1");
+  });
 });
@@ -0,0 +1,231 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  isQuietTime,
+  nextLocalTime,
+  parseNotificationPolicyInput,
+  planDelivery,
+  ratePolicyFor,
+} from "../backend/notifications";
+import { parseEmail } from "../backend/mail";
+import { NotificationService } from "../backend/services/NotificationService";
+import type { Notification, NotificationDelivery, UserNotificationSettings } from "../backend/types/models";
+
+const at = (iso: string) => new Date(iso);
+
+describe("quiet hours", () => {
+  test("cover windows that cross midnight, in the user's timezone", () => {
+    const night = { start: "22:00", end: "07:00" };
+    expect(isQuietTime(night, at("2026-10-19T23:30:00Z"), "UTC")).toBe(true);
+    expect(isQuietTime(night, at("2026-10-19T06:59:00Z"), "UTC")).toBe(true);
+    expect(isQuietTime(night, at("2026-10-19T07:00:00Z"), "UTC")).toBe(false);
+    // 23:30 UTC is 19:30 in New York
+    expect(isQuietTime(night, at("2026-10-19T23:30:00Z"), "America/New_York")).toBe(false);
+    expect(isQuietTime({ start: "09:00", end: "17:00" }, at("2026-10-19T12:00:00Z"), "UTC")).toBe(true);
+  });
+
+  test("the next local time rolls over to tomorrow and follows daylight saving", () => {
+    expect(nextLocalTime(["08:00", "18:00"], at("2026-10-19T12:34:56Z"), "UTC")).toEqual(at("2026-10-19T18:00:00Z"));
+    expect(nextLocalTime(["08:00"], at("2026-10-19T08:00:30Z"), "UTC")).toEqual(at("2026-10-20T08:00:00Z"));
+    // Clocks go forward overnight on 2026-03-08 in New York: 07:00 is 12:00 UTC the evening before, 11:00 UTC after
+    expect(nextLocalTime(["07:00"], at("2026-03-08T02:00:00Z"), "America/New_York")).toEqual(at("2026-03-08T11:00:00Z"));
+  });
+});
+
+describe("delivery plans", () => {
+  const settings = {
+    quiet_hours: { start: "22:00", end: "07:00" },
+    digest_schedule: { email: ["08:00"] },
+    rate_policies: [],
+  } as unknown as UserNotificationSettings;
+
+  test("hold low and normal urgency for quiet hours, then digests; urgent goes straight out", () => {
+    const night = at("2026-10-19T23:00:00Z");
+    const day = at("2026-10-19T12:00:00Z");
+    expect(planDelivery("normal", "email", settings, night, "UTC")).toEqual({ action: "wait", until: at("2026-10-20T07:00:00Z") });
+    expect(planDelivery("high", "email", settings, night, "UTC")).toEqual({ action: "send" });
+    expect(planDelivery("low", "email", settings, day, "UTC")).toEqual({ action: "digest", until: at("2026-10-20T08:00:00Z") });
+    expect(planDelivery("low", "webhook", settings, day, "UTC")).toEqual({ action: "send" });
+  });
+
+  test("rate policies fall back from the agent's own to the default to the email limit", () => {
+    const own = { agent_id: 3, channels: ["webhook" as const], max_per_hour: 10, overflow: "drop" as const };
+    const fallback = { agent_id: null, channels: ["email" as const, "pushover" as const], max_per_hour: 2, overflow: "digest" as const };
+    expect(ratePolicyFor([own, fallback], 3, "webhook")).toBe(own);
+    expect(ratePolicyFor([own, fallback], 3, "email")).toBeNull();
+    expect(ratePolicyFor([own, fallback], 4, "pushover")).toBe(fallback);
+    expect(ratePolicyFor([], 4, "email")).toMatchObject({ max_per_hour: 5, overflow: "delay" });
+    expect(ratePolicyFor([], 4, "webhook")).toBeNull();
+  });
+});
+
+describe("policy settings input", () => {
+  test("accepts and normalizes quiet hours, digests and policies", () => {
+    const parsed = parseNotificationPolicyInput({
+      quiet_hours: { start: "22:30", end: "06:00" },
+      digest_schedule: { email: ["18:00", "08:00", "08:00"], pushover: [] },
+      rate_policies: [{ agent_id: 3, max_per_hour: 4 }],
+    });
+    expect(parsed).toEqual({
+      data: {
+        quiet_hours: { start: "22:30", end: "06:00" },
+        digest_schedule: { email: ["08:00", "18:00"] },
+        rate_policies: [{ agent_id: 3, channels: ["email", "webhook", "pushover"], max_per_hour: 4, overflow: "delay" }],
+      },
+    });
+    expect(parseNotificationPolicyInput({})).toEqual({ data: {} });
+  });
+
+  test("rejects bad times, channels and duplicate policies", () => {
+    expect(parseNotificationPolicyInput({ quiet_hours: { start: "25:00", end: "07:00" } })).toHaveProperty("error");
+    expect(parseNotificationPolicyInput({ digest_schedule: { sms: ["08:00"] } })).toHaveProperty("error");
+    expect(parseNotificationPolicyInput({ rate_policies: [{ agent_id: null, max_per_hour: 0 }] })).toHaveProperty("error");
+    expect(
+      parseNotificationPolicyInput({ rate_policies: [{ agent_id: 3, max_per_hour: 1 }, { agent_id: 3, max_per_hour: 2 }] })
+    ).toHaveProperty("error");
+  });
+});
+
+describe("NotificationService delivery rules", () => {
+  type Delivery = NotificationDelivery & { notification: Notification };
+
+  let mailDir: string;
+  let deliveries: Delivery[];
+  let attempts: Array<{ delivery_id: number }>;
+  let settings: UserNotificationSettings;
+  let sentRecently: number;
+  let service: NotificationService;
+
+  const hhmm = (offsetMinutes: number) => new Date(Date.now() + offsetMinutes * 60_000).toISOString().slice(11, 16);
+
+  const addDelivery = ({ urgency, message, ...data }: Partial<Delivery> & { urgency?: Notification["urgency"]; message?: string }) => {
+    const id = deliveries.length + 1;
+    deliveries.push({
+      id,
+      notification_id: id,
+      channel: "email",
+      destination: null,
+      status: "pending",
+      held_reason: null,
+      error_message: null,
+      attempts: 0,
+      next_attempt_at: null,
+      created_at: new Date(),
+      delivered_at: null,
+      notification: {
+        id,
+        user_id: 1,
+        agent_id: 7,
+        conversation_id: null,
+        message: message ?? `Message ${id}`,
+        urgency: urgency ?? "normal",
+        read: false,
+        created_at: new Date(),
+      },
+      ...data,
+    });
+  };
+
+  const poll = () => (service as unknown as { poll(): Promise<void> }).poll();
+  const mbox = () => readFile(join(mailDir, "alerts.mbox"), "utf8").catch(() => "");
+
+  beforeEach(async () => {
+    mailDir = await mkdtemp(join(tmpdir(), "notification-policies-"));
+    deliveries = [];
+    attempts = [];
+    sentRecently = 0;
+    settings = {
+      email_enabled: true,
+      email_addresses: [{ name: "Me", email: "me@example.com" }],
+      notification_email: null,
+      webhook_urls: [],
+      mail_transport: { type: "file", mailbox: "alerts", from: "alerts@example.com" },
+      quiet_hours: null,
+      digest_schedule: {},
+      rate_policies: [],
+    } as unknown as UserNotificationSettings;
+
+    const due = (d: Delivery) => !d.next_attempt_at || d.next_attempt_at <= new Date();
+    service = new NotificationService({
+      notificationRepository: {
+        listPendingDeliveries: async () => deliveries.filter((d) => d.status === "pending" && due(d)),
+        listDueDigestDeliveries: async () => deliveries.filter((d) => d.status === "held" && due(d)),
+        getSettings: async () => settings,
+        countRecentByAgentAndChannel: async () => sentRecently,
+        holdDelivery: async (id: number, data: Partial<Delivery>) => {
+          Object.assign(deliveries.find((d) => d.id === id)!, data);
+        },
+        updateDelivery: async (id: number, data: Partial<Delivery>) => {
+          const delivery = deliveries.find((d) => d.id === id)!;
+          Object.assign(delivery, data, { attempts: delivery.attempts + 1 });
+        },
+        recordDeliveryAttempt: async (data: { delivery_id: number }) => {
+          attempts.push(data);
+          return data;
+        },
+      } as any,
+      agentRepository: { findById: async (id: number) => ({ id, name: "Sensor Bot", slug: "sensors" }) } as any,
+      userRepository: { findById: async () => ({ id: 1, email: "me@example.com", timezone: "UTC" }) } as any,
+      frontendUrl: "https://app.example.com",
+      mailDir,
+    });
+  });
+
+  afterEach(async () => {
+    await rm(mailDir, { recursive: true, force: true });
+  });
+
+  test("quiet hours hold all but urgent notifications until they end", async () => {
+    settings.quiet_hours = { start: hhmm(-60), end: hhmm(60) };
+    addDelivery({ urgency: "normal" });
+    addDelivery({ urgency: "high", message: "Water leak" });
+    await poll();
+
+    expect(deliveries[0]).toMatchObject({ status: "pending", held_reason: "quiet_hours", attempts: 0 });
+    expect(deliveries[0]!.next_attempt_at!.getTime() - Date.now()).toBeGreaterThan(58 * 60_000);
+    expect(deliveries[1]).toMatchObject({ status: "sent" });
+    expect(await mbox()).toContain("Water leak");
+  });
+
+  test("digests collect held notifications into one email", async () => {
+    settings.digest_schedule = { email: [hhmm(120)] };
+    addDelivery({ urgency: "low", message: "Temperature 21C" });
+    await poll();
+    expect(deliveries[0]).toMatchObject({ status: "held", held_reason: "digest" });
+    expect(await mbox()).toBe("");
+
+    // The digest comes due
+    addDelivery({ status: "held", held_reason: "digest", message: "Humidity 40%" });
+    deliveries[0]!.next_attempt_at = new Date(Date.now() - 1000);
+    await poll();
+
+    expect(deliveries.map((d) => d.status)).toEqual(["sent", "sent"]);
+    expect(attempts.map((a) => a.delivery_id)).toEqual([1, 2]);
+    const mail = await mbox();
+    expect(mail.match(/^From /gm)).toHaveLength(1);
+    const digest = parseEmail(mail.split("\n").slice(1).join("\n"));
+    expect(digest.subject).toBe("2 notifications from Sensor Bot");
+    expect(digest.text).toContain("Temperature 21C");
+    expect(digest.text).toContain("Humidity 40%");
+  });
+
+  test("rate policies delay, digest or drop what is over the limit", async () => {
+    sentRecently = 5;
+    addDelivery({});
+    await poll();
+    expect(deliveries[0]).toMatchObject({ status: "pending", held_reason: "rate_limit" });
+
+    settings.rate_policies = [{ agent_id: 7, channels: ["email"], max_per_hour: 5, overflow: "drop" }];
+    addDelivery({});
+    await poll();
+    expect(deliveries[1]).toMatchObject({ status: "dropped", held_reason: "rate_limit" });
+
+    settings.rate_policies = [{ agent_id: null, channels: ["email"], max_per_hour: 20, overflow: "digest" }];
+    addDelivery({});
+    await poll();
+    expect(deliveries[2]).toMatchObject({ status: "sent", held_reason: null });
+    expect(await mbox()).toContain("Message 3");
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, test, expect } from "bun:test";
+import {
+  applyOpenApiAuth,
+  parseOpenApiDocument,
+  previewOpenApiImport,
+  selectOpenApiTools,
+} from "../backend/utils/openapi";
+import { renderUrlToolRequest } from "../backend/tools/urlTool";
+
+const spec = `
+openapi: 3.0.3
+info:
+  title: Inventory
+  version: "1.2"
+servers:
+  - url: https://{region}.inventory.example.com/v1
+    variables:
+      region:
+        default: eu
+security:
+  - apiKey: []
+paths:
+  /items/{item-id}:
+    parameters:
+      - $ref: "#/components/parameters/ItemId"
+    get:
+      operationId: getItem
+      summary: Fetch an item
+      parameters:
+        - name: include
+          in: query
+          schema: { type: string }
+        - name: session
+          in: cookie
+          schema: { type: string }
+    patch:
+      operationId: updateItem
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema:
+              $ref: "#/components/schemas/ItemUpdate"
+  /items:
+    get:
+      summary: List items
+      parameters:
+        - name: limit
+          in: query
+          schema: { type: integer }
+components:
+  parameters:
+    ItemId:
+      name: item-id
+      in: path
+      required: true
+      schema: { type: integer }
+  schemas:
+    ItemUpdate:
+      type: object
+      required: [quantity]
+      properties:
+        quantity: { type: number }
+        active: { type: boolean }
+        tags: { type: array, items: { type: string } }
+        id: { type: integer, readOnly: true }
+  securitySchemes:
+    apiKey:
+      type: apiKey
+      in: header
+      name: X-Api-Key
+    bearer:
+      type: http
+      scheme: bearer
+`;
+
+describe("OpenAPI import", () => {
+  test("rejects documents that are not OpenAPI 3", () => {
+    expect(() => parseOpenApiDocument('{"swagger": "2.0", "paths": {}}')).toThrow("OpenAPI 3");
+    expect(() => parseOpenApiDocument("not: [valid")).toThrow("Could not parse");
+  });
+
+  test("converts operations into URL tool drafts", () => {
+    const preview = previewOpenApiImport(parseOpenApiDocument(spec));
+    expect(preview.title).toBe("Inventory");
+    expect(preview.base_url).toBe("https://eu.inventory.example.com/v1");
+    expect(preview.operations.map((op) => op.tool.name)).toEqual(["getItem", "updateItem", "get_items"]);
+
+    const getItem = preview.operations[0]!;
+    expect(getItem.tool.url).toBe("https://eu.inventory.example.com/v1/items/{item_id}");
+    expect(getItem.tool.parameters).toEqual([
+      { name: "item_id", type: "integer", description: undefined, required: true },
+      { name: "include", type: "string", description: undefined, required: false },
+    ]);
+    expect(getItem.tool.query_params).toEqual({ include: "{include}" });
+    expect(getItem.security).toEqual(["apiKey"]);
+    expect(getItem.warnings.some((w) => w.includes("session"))).toBe(true);
+    expect(getItem.error).toBeUndefined();
+  });
+
+  test("maps flat JSON request bodies onto a body template", () => {
+    const preview = previewOpenApiImport(parseOpenApiDocument(spec), "https://staging.example.com/");
+    const update = preview.operations.find((op) => op.operation_id === "updateItem")!;
+
+    expect(update.tool.parameters.map((p) => [p.name, p.type, p.required])).toEqual([
+      ["item_id", "integer", true],
+      ["quantity", "number", true],
+      ["active", "boolean", false],
+    ]);
+    expect(update.warnings.some((w) => w.includes("tags"))).toBe(true);
+
+    const request = renderUrlToolRequest(update.tool, { item_id: 5, quantity: 2, active: true });
+    expect(request.url).toBe("https://staging.example.com/items/5");
+    expect(JSON.parse(request.body!)).toEqual({ quantity: 2, active: true });
+  });
+
+  test("applies the chosen security scheme", () => {
+    const preview = previewOpenApiImport(parseOpenApiDocument(spec));
+    const tool = preview.operations[0]!.tool;
+
+    expect(applyOpenApiAuth(tool, preview.security_schemes, { scheme: "apiKey", secret: "s3cret" }).headers).toEqual({
+      "X-Api-Key": "s3cret",
+    });
+    expect(applyOpenApiAuth(tool, preview.security_schemes, { scheme: "bearer", secret: "tok" }).headers).toEqual({
+      Authorization: "Bearer tok",
+    });
+    expect(() => applyOpenApiAuth(tool, preview.security_schemes, { scheme: "missing", secret: "x" })).toThrow();
+  });
+
+  test("selects operations and skips existing tool names", () => {
+    const preview = previewOpenApiImport(parseOpenApiDocument(spec));
+    const selection = selectOpenApiTools(preview, ["getItem", "updateItem", "nope"], new Set(["updateItem"]));
+
+    expect(selection.tools.map((t) => t.name)).toEqual(["getItem"]);
+    expect(selection.skipped.map((s) => s.operation_id).sort()).toEqual(["nope", "updateItem"]);
+  });
+});
@@ -60,7 +60,7 @@ describe("Tool factories return correct tool names", () => {
 
   test("createUrlTool returns tool with sanitized name", () => {
     const tools = createUrlTool(
-      { id: 1, user_id: 1, name: "My API Tool", url: "https://example.com", method: "GET", headers: null, created_at: new Date(), updated_at: new Date() },
+      { name: "My API Tool", url: "https://example.com", method: "GET", headers: null, parameters: [], query_params: null, body_template: null },
       noopStatus
     );
     const names = Object.keys(tools);
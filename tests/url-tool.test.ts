@@ -0,0 +1,129 @@
+import { describe, test, expect } from "bun:test";
+import {
+  buildUrlToolInputSchema,
+  findMissingUrlToolArgs,
+  renderUrlToolRequest,
+  validateUrlToolDefinition,
+  type UrlToolDefinition,
+} from "../backend/tools/urlTool";
+
+const baseTool: UrlToolDefinition = {
+  name: "Weather",
+  url: "https://api.example.com/cities/{city}/weather",
+  method: "GET",
+  headers: null,
+  parameters: [
+    { name: "city", type: "string", required: true },
+    { name: "days", type: "integer", required: false },
+  ],
+  query_params: { forecast_days: "{days}" },
+  body_template: null,
+};
+
+describe("validateUrlToolDefinition", () => {
+  test("accepts templates that only reference declared parameters", () => {
+    expect(validateUrlToolDefinition(baseTool)).toBeNull();
+  });
+
+  test("rejects undeclared placeholders", () => {
+    const error = validateUrlToolDefinition({ ...baseTool, url: "https://api.example.com/{region}" });
+    expect(error).toContain("{region}");
+  });
+
+  test("rejects duplicate and invalid parameter names", () => {
+    expect(
+      validateUrlToolDefinition({
+        url: "https://example.com",
+        parameters: [
+          { name: "a", type: "string", required: false },
+          { name: "a", type: "number", required: false },
+        ],
+      })
+    ).toContain("Duplicate");
+    expect(
+      validateUrlToolDefinition({
+        url: "https://example.com",
+        parameters: [{ name: "bad-name", type: "string", required: false }],
+      })
+    ).toContain("Invalid parameter name");
+  });
+});
+
+describe("renderUrlToolRequest", () => {
+  test("encodes path placeholders and drops empty query params", () => {
+    const request = renderUrlToolRequest(baseTool, { city: "New York" });
+    expect(request.url).toBe("https://api.example.com/cities/New%20York/weather");
+    expect(request.body).toBeUndefined();
+
+    const withDays = renderUrlToolRequest(baseTool, { city: "Paris", days: 3 });
+    expect(withDays.url).toBe("https://api.example.com/cities/Paris/weather?forecast_days=3");
+  });
+
+  test("renders typed values into a JSON body template", () => {
+    const request = renderUrlToolRequest(
+      {
+        ...baseTool,
+        url: "https://api.example.com/notes",
+        method: "POST",
+        parameters: [
+          { name: "title", type: "string", required: true },
+          { name: "pinned", type: "boolean", required: false },
+        ],
+        query_params: null,
+        body_template: '{"title": "{title}", "pinned": "{pinned}", "summary": "Note: {title}"}',
+      },
+      { title: 'Say "hi"', pinned: true }
+    );
+    expect(JSON.parse(request.body!)).toEqual({ title: 'Say "hi"', pinned: true, summary: 'Note: Say "hi"' });
+    expect(request.headers["Content-Type"]).toBe("application/json");
+  });
+
+  test("never substitutes placeholders that arrive inside argument values", () => {
+    const request = renderUrlToolRequest(
+      {
+        ...baseTool,
+        url: "https://api.example.com/messages",
+        method: "POST",
+        parameters: [
+          { name: "text", type: "string", required: true },
+          { name: "secret", type: "string", required: false },
+        ],
+        query_params: null,
+        body_template: '{"text": "{text}", "quoted": "> {text}", "secret": "{secret}"}',
+      },
+      { text: "{secret}", secret: "s3cret" }
+    );
+    expect(JSON.parse(request.body!)).toEqual({ text: "{secret}", quoted: "> {secret}", secret: "s3cret" });
+  });
+
+  test("sends unused arguments as a JSON body when no template is set", () => {
+    const request = renderUrlToolRequest(
+      {
+        ...baseTool,
+        url: "https://api.example.com/items/{id}",
+        method: "PATCH",
+        parameters: [
+          { name: "id", type: "integer", required: true },
+          { name: "quantity", type: "number", required: false },
+        ],
+        query_params: null,
+      },
+      { id: 7, quantity: 2.5 }
+    );
+    expect(request.url).toBe("https://api.example.com/items/7");
+    expect(JSON.parse(request.body!)).toEqual({ quantity: 2.5 });
+  });
+});
+
+describe("buildUrlToolInputSchema", () => {
+  test("enforces types and required parameters", () => {
+    const schema = buildUrlToolInputSchema(baseTool.parameters);
+    expect(schema.safeParse({ city: "Oslo", days: 2 }).success).toBe(true);
+    expect(schema.safeParse({ days: 2 }).success).toBe(false);
+    expect(schema.safeParse({ city: "Oslo", days: 2.5 }).success).toBe(false);
+  });
+
+  test("findMissingUrlToolArgs reports empty required values", () => {
+    expect(findMissingUrlToolArgs(baseTool.parameters, { city: "" })).toEqual(["city"]);
+  });
+});
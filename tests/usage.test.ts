@@ -0,0 +1,44 @@
+import { describe, test, expect } from "bun:test";
+import type { LanguageModelUsage } from "ai";
+import { buildUsageRecords } from "../backend/utils/usage";
+
+function usage(input: number, output: number, cacheRead?: number): LanguageModelUsage {
+  return {
+    inputTokens: input,
+    inputTokenDetails: { noCacheTokens: undefined, cacheReadTokens: cacheRead, cacheWriteTokens: undefined },
+    outputTokens: output,
+    outputTokenDetails: { textTokens: undefined, reasoningTokens: undefined },
+    totalTokens: input + output,
+  };
+}
+
+describe("buildUsageRecords", () => {
+  const context = {
+    user_id: 1,
+    agent_id: 2,
+    conversation_id: 3,
+    source: "scheduled" as const,
+    model: "anthropic:claude-sonnet-4-20250514",
+  };
+
+  test("creates one record per step with cached tokens and cost", () => {
+    const records = buildUsageRecords(context, [{ usage: usage(2000, 100, 1500) }, { usage: usage(2500, 50) }]);
+
+    expect(records.map((r) => [r.step_index, r.input_tokens, r.output_tokens, r.cached_input_tokens])).toEqual([
+      [0, 2000, 100, 1500],
+      [1, 2500, 50, 0],
+    ]);
+    expect(records[0]!.source).toBe("scheduled");
+    // $3 input, $0.30 cached, $15 output per 1M tokens
+    expect(records[0]!.cost_usd).toBeCloseTo((500 * 3 + 1500 * 0.3 + 100 * 15) / 1_000_000, 9);
+  });
+
+  test("treats missing token counts as zero and leaves unpriced models without cost", () => {
+    const [record] = buildUsageRecords({ ...context, model: "ollama:llama3" }, [
+      { usage: { ...usage(0, 0), inputTokens: undefined, outputTokens: undefined } },
+    ]);
+    expect(record!.input_tokens).toBe(0);
+    expect(record!.output_tokens).toBe(0);
+    expect(record!.cost_usd).toBeNull();
+  });
+});
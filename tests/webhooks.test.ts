@@ -0,0 +1,122 @@
+import { describe, test, expect } from "bun:test";
+import {
+  renderWebhookPayload,
+  verifyWebhookSignature,
+  webhookSignatureHeaders,
+  parseWebhooksInput,
+  type WebhookEventData,
+} from "../backend/webhooks";
+import { MAX_DELIVERY_ATTEMPTS, retryDelayMs } from "../backend/services/NotificationService";
+
+const event: WebhookEventData = {
+  notification: {
+    id: 12,
+    user_id: 1,
+    agent_id: 3,
+    conversation_id: 7,
+    message: "Deploy finished <with warnings> & notes",
+    urgency: "high",
+    read: false,
+    created_at: new Date("2026-01-02T03:04:05Z"),
+  },
+  agent: { id: 3, name: "Ops Bot", slug: "ops" },
+  link: { url: "https://app.example.com/chat/ops?conversation=7", label: "Open the conversation" },
+};
+
+describe("webhook signatures", () => {
+  const secret = "whsec_test";
+  const body = JSON.stringify({ hello: "world" });
+  const now = new Date("2026-01-02T03:04:05Z");
+
+  test("receivers can verify the signature and timestamp", () => {
+    const headers = webhookSignatureHeaders(secret, body, { id: "42", now });
+    expect(headers["X-Webhook-Id"]).toBe("42");
+    expect(headers["X-Webhook-Signature"]).toMatch(/^sha256=[0-9a-f]{64}$/);
+
+    const request = {
+      timestamp: headers["X-Webhook-Timestamp"]!,
+      body,
+      signature: headers["X-Webhook-Signature"]!,
+    };
+    expect(verifyWebhookSignature(secret, request, { now })).toBe(true);
+    expect(verifyWebhookSignature("whsec_other", request, { now })).toBe(false);
+    expect(verifyWebhookSignature(secret, { ...request, body: `${body} ` }, { now })).toBe(false);
+  });
+
+  test("old requests are rejected as replays", () => {
+    const headers = webhookSignatureHeaders(secret, body, { id: "42", now });
+    const request = { timestamp: headers["X-Webhook-Timestamp"]!, body, signature: headers["X-Webhook-Signature"]! };
+    const later = new Date(now.getTime() + 10 * 60_000);
+    expect(verifyWebhookSignature(secret, request, { now: later })).toBe(false);
+    expect(verifyWebhookSignature(secret, request, { now: later, toleranceSeconds: 900 })).toBe(true);
+  });
+});
+
+describe("webhook payload templates", () => {
+  test("generic JSON keeps the original fields and adds the agent and link", () => {
+    const payload = JSON.parse(renderWebhookPayload(undefined, event).body);
+    expect(payload).toMatchObject({
+      event: "notification.created",
+      notification_id: 12,
+      agent_id: 3,
+      message: event.notification.message,
+      urgency: "high",
+      conversation_id: 7,
+      agent: { name: "Ops Bot", slug: "ops" },
+      url: event.link.url,
+    });
+  });
+
+  test("Slack and Discord get their own message shapes", () => {
+    const slack = JSON.parse(renderWebhookPayload("slack", event).body);
+    expect(slack.text).toContain("Deploy finished &lt;with warnings&gt; &amp; notes");
+    expect(slack.text).toContain(`<${event.link.url}|Open the conversation>`);
+
+    const long = { ...event, notification: { ...event.notification, message: "x".repeat(5000) } };
+    const discord = JSON.parse(renderWebhookPayload("discord", long).body);
+    expect(discord.username).toBe("Ops Bot");
+    expect(discord.content.length).toBeLessThanOrEqual(2000);
+    expect(discord.content).toEndWith(`<${event.link.url}>`);
+    expect(discord.allowed_mentions).toEqual({ parse: [] });
+  });
+
+  test("ntfy sends the message as text with title, priority and click headers", () => {
+    const request = renderWebhookPayload("ntfy", event);
+    expect(request.body).toBe(event.notification.message);
+    expect(request.headers).toMatchObject({ Title: "Ops Bot", Priority: "5", Click: event.link.url, Tags: "rotating_light" });
+  });
+});
+
+describe("webhook settings", () => {
+  test("secrets are generated, kept for unchanged endpoints and rotated on request", () => {
+    const first = parseWebhooksInput([{ name: "ops", url: "https://hooks.example.com/a" }], []);
+    if (!("webhooks" in first)) throw new Error(first.error);
+    const [created] = first.webhooks;
+    expect(created).toMatchObject({ template: "generic", secret: expect.stringMatching(/^whsec_/) });
+
+    const kept = parseWebhooksInput([{ name: "ops", url: "https://hooks.example.com/a", secret: "forged" }], first.webhooks);
+    expect(kept).toEqual({ webhooks: [created!] });
+
+    const moved = parseWebhooksInput([{ name: "ops", url: "https://hooks.example.com/b" }], first.webhooks);
+    expect("webhooks" in moved && moved.webhooks[0]!.secret).not.toBe(created!.secret);
+
+    const rotated = parseWebhooksInput([{ ...created!, secret: "" }], first.webhooks);
+    expect("webhooks" in rotated && rotated.webhooks[0]!.secret).not.toBe(created!.secret);
+  });
+
+  test("invalid endpoints are rejected", () => {
+    expect(parseWebhooksInput([{ name: "ops", url: "http://hooks.example.com" }], [])).toMatchObject({
+      error: expect.stringContaining("HTTPS"),
+    });
+    expect(parseWebhooksInput([{ name: "ops", url: "https://hooks.example.com", template: "teams" }], [])).toMatchObject({
+      error: expect.stringContaining("generic, slack, discord, ntfy"),
+    });
+  });
+});
+
+describe("delivery retries", () => {
+  test("back off exponentially", () => {
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([60_000, 120_000, 240_000, 480_000]);
+    expect(MAX_DELIVERY_ATTEMPTS).toBe(5);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, test, expect } from "bun:test";
+import { tool } from "ai";
+import { z } from "zod";
+import { executeAction, extractPath, renderTemplate } from "../backend/workflows/actions";
+import { parseWorkflow, WorkflowParseError } from "../backend/workflows/parser";
+import type { CollectedFact } from "../backend/workflows/types";
+
+function facts(values: Record<string, unknown>): Record<string, CollectedFact> {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value], i) => [
+      key,
+      { value, step_id: key.split(".")[0]!, collected_at: i, source: "conversation" as const },
+    ])
+  );
+}
+
+describe("renderTemplate", () => {
+  const collected = facts({ "intro.name": "Ada", "intro.items": [1, 2], "later.name": "Grace" });
+
+  test("a whole-string placeholder keeps the fact's type", () => {
+    expect(renderTemplate({ items: "{{ intro.items }}" }, collected)).toEqual({ items: [1, 2] });
+  });
+
+  test("placeholders inside text are interpolated", () => {
+    expect(renderTemplate("Hi {{intro.name}}, {{ intro.items }}", collected)).toBe("Hi Ada, [1,2]");
+  });
+
+  test("bare fact names resolve to the latest fact and missing facts to null", () => {
+    expect(renderTemplate(["{{ name }}", "{{ missing }}"], collected)).toEqual(["Grace", null]);
+  });
+});
+
+describe("extractPath", () => {
+  test("reads nested paths and the whole result", () => {
+    const result = { data: { items: [{ id: 7 }] } };
+    expect(extractPath(result, "data.items.0.id")).toBe(7);
+    expect(extractPath(result, "")).toBe(result);
+    expect(extractPath(result, "data.nope.id")).toBeUndefined();
+  });
+});
+
+describe("executeAction", () => {
+  const tools = {
+    create_ticket: tool({
+      description: "Create a ticket",
+      inputSchema: z.object({ title: z.string() }),
+      execute: async ({ title }) =>
+        title === "fail" ? JSON.stringify({ error: "upstream down" }) : JSON.stringify({ ticket: { id: 42, title } }),
+    }),
+  };
+
+  test("templates arguments and maps the result into facts", async () => {
+    const outcome = await executeAction(
+      { tool: "create_ticket", args: { title: "Bug: {{ intro.name }}" }, result_facts: { ticket_id: "ticket.id" } },
+      tools,
+      {},
+      facts({ "intro.name": "login" }),
+      "call-1"
+    );
+    expect(outcome).toEqual({ ok: true, result: { ticket: { id: 42, title: "Bug: login" } }, facts: { ticket_id: 42 } });
+  });
+
+  test("reports tool errors, invalid arguments and unknown tools as failures", async () => {
+    const run = (action: Parameters<typeof executeAction>[0]) => executeAction(action, tools, {}, {}, "call-2");
+    expect(await run({ tool: "create_ticket", args: { title: "fail" } })).toEqual({ ok: false, error: "upstream down" });
+    expect((await run({ tool: "create_ticket", args: { title: 3 } })).ok).toBe(false);
+    expect((await run({ tool: "missing_tool" })).ok).toBe(false);
+  });
+});
+
+describe("action step parsing", () => {
+  const yaml = (action: string) => `name: Test
+description: Test
+version: "1.0.0"
+steps:
+  - id: notify
+    type: action
+    name: Notify
+    description: Send it
+${action}`;
+
+  test("defaults required_facts, allowed_tools and gate", () => {
+    const def = parseWorkflow(yaml(`    action:\n      tool: notify_user\n      args:\n        message: hi`));
+    expect(def.steps[0]).toMatchObject({
+      type: "action",
+      action: { tool: "notify_user", args: { message: "hi" }, result_facts: {} },
+      required_facts: [],
+      allowed_tools: ["notify_user"],
+      gate: { conditions: [], on_fail: "retry" },
+    });
+  });
+
+  test("requires an action and checks placeholder step references", () => {
+    expect(() => parseWorkflow(yaml(""))).toThrow(WorkflowParseError);
+    expect(() => parseWorkflow(yaml(`    action:\n      tool: notify_user\n      args:\n        message: "{{ nope.x }}"`))).toThrow(/unknown step "nope"/);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, test, expect } from "bun:test";
+import { approverFor, buildApprovalLinks, signApprovalToken, verifyApprovalToken } from "../backend/workflows/approvals";
+import { parseWorkflow, WorkflowParseError } from "../backend/workflows/parser";
+
+const SECRET = "test-secret";
+
+function workflowWith(approvalStep: string): string {
+  return `
+name: Expenses
+description: Submit and approve
+version: "1.0.0"
+steps:
+  - id: collect
+    name: Collect
+    description: Collect the total
+    required_facts:
+      - name: total
+        type: number
+        description: Total amount
+    allowed_tools: conversation
+    gate:
+      conditions:
+        - fact: total
+          operator: exists
+${approvalStep}
+`;
+}
+
+describe("approval tokens", () => {
+  test("a signed token verifies to its approval and decision", async () => {
+    const token = await signApprovalToken(42, "approved", SECRET);
+    expect(await verifyApprovalToken(token, SECRET)).toEqual({ approvalId: 42, decision: "approved" });
+  });
+
+  test("tokens can't be altered or verified with another secret", async () => {
+    const token = await signApprovalToken(42, "rejected", SECRET);
+    const signature = token.split(".")[2];
+    expect(await verifyApprovalToken(`42.approved.${signature}`, SECRET)).toBeNull();
+    expect(await verifyApprovalToken(`43.rejected.${signature}`, SECRET)).toBeNull();
+    expect(await verifyApprovalToken(token, "other-secret")).toBeNull();
+    expect(await verifyApprovalToken("not-a-token", SECRET)).toBeNull();
+  });
+
+  test("links point at the respond route", async () => {
+    const links = await buildApprovalLinks(7, "https://assistant.example.com/", SECRET);
+    const url = new URL(links.reject);
+    expect(url.pathname).toBe("/api/workflows/approvals/respond");
+    expect(await verifyApprovalToken(url.searchParams.get("token")!, SECRET)).toEqual({
+      approvalId: 7,
+      decision: "rejected",
+    });
+  });
+});
+
+describe("approverFor", () => {
+  const settings = {
+    notification_email: "owner@example.com",
+    email_addresses: [
+      { name: "finance", email: "finance@example.com" },
+      { name: "legal", email: "legal@example.com" },
+    ],
+  };
+
+  test("names who a link decision came from", () => {
+    expect(approverFor({ destination: "finance" }, settings)).toBe("finance@example.com");
+    expect(approverFor({}, settings)).toBe("finance@example.com, legal@example.com");
+    expect(approverFor({}, { notification_email: "owner@example.com", email_addresses: [] })).toBe("owner@example.com");
+    expect(approverFor({ channel: "webhook", destination: "ops" }, settings)).toBe("ops");
+  });
+
+  test("is null when the links didn't go to anyone it can name", () => {
+    expect(approverFor({ channel: "webhook" }, settings)).toBeNull();
+    expect(approverFor({}, null)).toBeNull();
+  });
+});
+
+describe("parser: approval steps", () => {
+  test("decision facts, tools and gate default; a gate aborts by default", () => {
+    const def = parseWorkflow(workflowWith(`
+  - id: sign_off
+    type: approval
+    name: Sign-off
+    description: Manager approves
+    approval:
+      message: "Approve {{ collect.total }}?"
+      channel: email
+      destination: Manager
+    gate:
+      conditions:
+        - fact: decision
+          operator: equals
+          value: approved
+`));
+    const step = def.steps[1]!;
+    expect(step.type).toBe("approval");
+    expect(step.approval).toEqual({ message: "Approve {{ collect.total }}?", channel: "email", destination: "Manager" });
+    expect(step.required_facts.map((f) => f.name)).toEqual(["decision", "decided_by", "decided_at", "comment"]);
+    expect(step.allowed_tools).toBe("conversation");
+    expect(step.gate.on_fail).toBe("abort");
+  });
+
+  test("rejects declared facts, retry gates and unknown template steps", () => {
+    const invalid = [
+      `
+  - id: sign_off
+    type: approval
+    name: Sign-off
+    description: Manager approves
+    approval:
+      message: Approve?
+    required_facts: []`,
+      `
+  - id: sign_off
+    type: approval
+    name: Sign-off
+    description: Manager approves
+    approval:
+      message: Approve?
+    gate:
+      conditions:
+        - fact: decision
+          operator: equals
+          value: approved
+      on_fail: retry`,
+      `
+  - id: sign_off
+    type: approval
+    name: Sign-off
+    description: Manager approves
+    approval:
+      message: "Approve {{ nowhere.total }}?"`,
+      `
+  - id: sign_off
+    type: approval
+    name: Sign-off
+    description: Manager approves
+    approval:
+      message: Approve?
+      destination: Manager`,
+    ];
+    for (const step of invalid) {
+      expect(() => parseWorkflow(workflowWith(step))).toThrow(WorkflowParseError);
+    }
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, test, expect } from "bun:test";
+import { validateFactValue } from "../backend/workflows/fact-validator";
+import { parseWorkflow, WorkflowParseError } from "../backend/workflows/parser";
+import type { FactDefinition } from "../backend/workflows/types";
+
+function fact(overrides: Partial<FactDefinition>): FactDefinition {
+  return { name: "value", description: "test", type: "string", ...overrides };
+}
+
+describe("validateFactValue", () => {
+  test("coerces numbers, booleans, dates and enums", () => {
+    expect(validateFactValue(fact({ type: "number" }), "$1,250.50")).toEqual({ ok: true, value: 1250.5 });
+    expect(validateFactValue(fact({ type: "boolean" }), "Yes")).toEqual({ ok: true, value: true });
+    expect(validateFactValue(fact({ type: "date" }), "2025-03-04")).toEqual({ ok: true, value: "2025-03-04" });
+    expect(validateFactValue(fact({ type: "date" }), "2025-03-04T10:00:00Z")).toEqual({
+      ok: true,
+      value: "2025-03-04T10:00:00.000Z",
+    });
+    expect(validateFactValue(fact({ type: "enum", enum_values: ["Meals", "Lodging"] }), "meals")).toEqual({
+      ok: true,
+      value: "Meals",
+    });
+  });
+
+  test("rejects values that don't fit, with the expected type", () => {
+    const result = validateFactValue(fact({ type: "enum", enum_values: ["a", "b"] }), "c");
+    expect(result).toEqual({
+      ok: false,
+      errors: [{ fact: "value", path: "value", message: "value must be one of: a, b", expected: "one of: a, b", received: "c" }],
+    });
+    expect(validateFactValue(fact({ type: "date" }), "not a date").ok).toBe(false);
+    expect(validateFactValue(fact({ type: "number" }), "twelve").ok).toBe(false);
+  });
+
+  test("checks min, max and pattern", () => {
+    expect(validateFactValue(fact({ type: "number", min: 0 }), -1).ok).toBe(false);
+    expect(validateFactValue(fact({ min: 3 }), "ab").ok).toBe(false);
+    expect(validateFactValue(fact({ type: "list", max: 1 }), [1, 2]).ok).toBe(false);
+    expect(validateFactValue(fact({ type: "date", max: "2025-01-01" }), "2025-06-01").ok).toBe(false);
+    expect(validateFactValue(fact({ pattern: "^[A-Z]{3}$" }), "usd").ok).toBe(false);
+  });
+
+  test("validates list items field by field, filling defaults", () => {
+    const lineItems = fact({
+      name: "line_items",
+      type: "list",
+      items: [
+        fact({ name: "amount", type: "number", min: 0 }),
+        fact({ name: "currency", default: "USD" }),
+      ],
+    });
+
+    expect(validateFactValue(lineItems, [{ amount: "12.5" }])).toEqual({
+      ok: true,
+      value: [{ amount: 12.5, currency: "USD" }],
+    });
+
+    const result = validateFactValue(lineItems, [{ amount: 1 }, { amount: -2 }, {}]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => e.path)).toEqual(["line_items[1].amount", "line_items[2].amount"]);
+    }
+  });
+});
+
+describe("fact definition parsing", () => {
+  const workflow = (factYaml: string) => `name: Test
+description: Test
+version: "1.0.0"
+steps:
+  - id: only
+    name: Only
+    description: Only
+    required_facts:
+${factYaml}
+    allowed_tools: conversation
+    gate:
+      conditions:
+        - fact: v
+          operator: exists`;
+
+  test("parses constraints and item schemas", () => {
+    const def = parseWorkflow(workflow(`      - name: v
+        type: list
+        description: items
+        min: 1
+        items:
+          type: string
+          pattern: "^x"`));
+    expect(def.steps[0]!.required_facts[0]).toMatchObject({ min: 1, items: { type: "string", pattern: "^x" } });
+  });
+
+  test("rejects misplaced or invalid constraints and defaults", () => {
+    const bad = [
+      `      - name: v\n        type: boolean\n        description: d\n        min: 1`,
+      `      - name: v\n        type: number\n        description: d\n        pattern: "x"`,
+      `      - name: v\n        type: string\n        description: d\n        pattern: "("`,
+      `      - name: v\n        type: number\n        description: d\n        min: 5\n        max: 1`,
+      `      - name: v\n        type: string\n        description: d\n        items:\n          type: string`,
+      `      - name: v\n        type: enum\n        description: d\n        enum_values: [a]\n        default: b`,
+    ];
+    for (const yaml of bad) {
+      expect(() => parseWorkflow(workflow(yaml))).toThrow(WorkflowParseError);
+    }
+  });
+});
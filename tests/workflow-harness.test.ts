@@ -0,0 +1,82 @@
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { runWorkflowTest, validateTestScript, type WorkflowTestScript } from "../backend/workflows/harness";
+
+const root = join(import.meta.dir, "..");
+
+function example(name: string): { yaml: string; script: WorkflowTestScript } {
+  return {
+    yaml: readFileSync(join(root, "examples/workflows", `${name}.yaml`), "utf8"),
+    script: JSON.parse(readFileSync(join(import.meta.dir, "fixtures/workflow-scripts", `${name}.json`), "utf8")),
+  };
+}
+
+describe("harness: example workflows", () => {
+  for (const name of ["daily-standup", "expense-report", "schedule-meeting"]) {
+    test(`${name} runs to the end of its script`, async () => {
+      const { yaml, script } = example(name);
+      expect(validateTestScript(script)).toBeNull();
+
+      const report = await runWorkflowTest(yaml, script);
+      expect(report.failures).toEqual([]);
+      expect(report.passed).toBe(true);
+      expect(report.stuck).toBeNull();
+      expect(report.unused_turns).toBe(0);
+    });
+  }
+
+  test("the standup's blocker alert calls its tool with the collected facts", async () => {
+    const { yaml, script } = example("daily-standup");
+    const report = await runWorkflowTest(yaml, script);
+    expect(report.tool_calls).toEqual([
+      { tool: "notify_user", args: { message: "Standup blocker: Waiting on API keys from ops", urgency: "high" } },
+    ]);
+  });
+
+  test("the expense report loops back through the policy check", async () => {
+    const { yaml, script } = example("expense-report");
+    const report = await runWorkflowTest(yaml, script);
+    expect(report.turns.map((t) => t.step_id)).toEqual([
+      "collect_expenses",
+      "validate_policy",
+      "justify_violations",
+      "validate_policy",
+      "attach_receipts",
+      "review_and_submit",
+    ]);
+    expect(report.turns[2]!.next_step_id).toBe("validate_policy");
+  });
+});
+
+describe("harness: reporting where a run gets stuck", () => {
+  test("running out of turns reports the failing gate and missing facts", async () => {
+    const { yaml } = example("schedule-meeting");
+    const report = await runWorkflowTest(yaml, {
+      turns: [
+        { user: "Book a sync", facts: { title: "Sync" } },
+        { user: "With sam", facts: { attendees: "sam@example.com", duration_minutes: "soon" } },
+      ],
+    });
+
+    expect(report.passed).toBe(false);
+    expect(report.status).toBe("in_progress");
+    expect(report.stuck).toMatchObject({ step_id: "collect_details", missing_facts: ["attendees"] });
+    expect(report.stuck!.reason).toContain("Ran out of user turns");
+    expect(report.turns[0]!.gate).toMatchObject({ passed: false });
+    expect(report.turns[1]!.rejected_facts.some((r) => r.startsWith("duration_minutes"))).toBe(true);
+  });
+
+  test("an approval without a scripted decision leaves the run waiting", async () => {
+    const { yaml, script } = example("expense-report");
+    const report = await runWorkflowTest(yaml, { ...script, approvals: {}, expect: { status: "awaiting_approval" } });
+    expect(report.passed).toBe(true);
+    expect(report.stuck).toMatchObject({ step_id: "manager_approval" });
+  });
+
+  test("scripts are checked before they run", () => {
+    expect(validateTestScript({ turns: [{ facts: {} }] })).toContain("turns[0].user");
+    expect(validateTestScript({ turns: [], approvals: { sign_off: "maybe" } })).toContain("approved, rejected");
+    expect(validateTestScript({})).toContain("needs turns");
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, test, expect } from "bun:test";
+import { buildExecutionHistory, buildStepStatuses } from "../backend/workflows/history";
+import { parseWorkflow } from "../backend/workflows/parser";
+import type { WorkflowExecution, WorkflowFact, WorkflowStepAttempt } from "../backend/types/models";
+
+const definition = parseWorkflow(`
+name: Onboarding
+description: Collect details then confirm
+version: "1.0.0"
+steps:
+  - id: details
+    name: Details
+    description: Collect the name
+    required_facts:
+      - name: full_name
+        type: string
+        description: Full name
+    allowed_tools: conversation
+    gate:
+      conditions:
+        - fact: full_name
+          operator: exists
+  - id: optional
+    name: Optional extras
+    description: Anything else
+    required_facts:
+      - name: notes
+        type: string
+        description: Notes
+    allowed_tools: conversation
+    gate:
+      conditions:
+        - fact: notes
+          operator: exists
+      on_fail: skip
+  - id: confirm
+    name: Confirm
+    description: Confirm everything
+    required_facts:
+      - name: confirmed
+        type: boolean
+        description: Whether the user confirmed
+    allowed_tools: conversation
+    gate:
+      conditions:
+        - fact: confirmed
+          operator: is_true
+`);
+
+function execution(overrides: Partial<WorkflowExecution> = {}): WorkflowExecution {
+  return {
+    id: 1,
+    conversation_id: 10,
+    workflow_id: 5,
+    revision_id: null,
+    parent_execution_id: null,
+    parent_step_id: null,
+    current_step_index: 2,
+    current_step_id: "confirm",
+    status: "in_progress",
+    started_at: 1000,
+    completed_at: null,
+    loop_counts: {},
+    deadline_at: null,
+    step_deadline_at: null,
+    created_at: new Date(1000),
+    updated_at: new Date(1000),
+    ...overrides,
+  };
+}
+
+function attempt(step_id: string, outcome: WorkflowStepAttempt["outcome"], evaluated_at: number): WorkflowStepAttempt {
+  return {
+    id: evaluated_at,
+    execution_id: 1,
+    step_id,
+    outcome,
+    gate_passed: outcome === "advanced",
+    gate_failures: outcome === "advanced" ? [] : ["notes is required"],
+    gate_details: [],
+    verifier_approved: null,
+    verifier_reasoning: null,
+    evaluated_at,
+  };
+}
+
+const fact: WorkflowFact = {
+  id: 1,
+  execution_id: 1,
+  step_id: "details",
+  fact_name: "full_name",
+  fact_value: "Ada Lovelace",
+  source: "conversation",
+  collected_at: 2000,
+  created_at: new Date(2000),
+};
+
+describe("buildStepStatuses", () => {
+  test("attempts say how earlier steps ended", () => {
+    const statuses = buildStepStatuses(definition, execution(), {}, [
+      attempt("details", "advanced", 2500),
+      attempt("optional", "retry", 3000),
+      attempt("optional", "skipped", 3500),
+    ]);
+    expect(statuses).toEqual({ details: "completed", optional: "skipped", confirm: "in_progress" });
+  });
+
+  test("the current step of a finished execution is completed or failed", () => {
+    expect(buildStepStatuses(definition, execution({ status: "completed" }), {}).confirm).toBe("completed");
+    expect(buildStepStatuses(definition, execution({ status: "timed_out" }), {}).confirm).toBe("failed");
+  });
+});
+
+describe("buildExecutionHistory", () => {
+  test("groups facts and attempts by step and orders the timeline", () => {
+    const history = buildExecutionHistory(
+      definition,
+      execution({ status: "completed", completed_at: 4000 }),
+      [fact],
+      [attempt("optional", "skipped", 3500), attempt("details", "advanced", 2000)],
+      []
+    );
+
+    expect(history.steps[0]!.facts).toEqual([
+      { fact_name: "full_name", fact_value: "Ada Lovelace", source: "conversation", collected_at: 2000 },
+    ]);
+    expect(history.steps[1]!.attempts.map((a) => a.outcome)).toEqual(["skipped"]);
+    expect(history.timeline.map((e) => e.type)).toEqual(["started", "fact", "gate", "gate", "finished"]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, test, expect } from "bun:test";
+import { parseWorkflow, WorkflowParseError } from "../backend/workflows/parser";
+
+const yaml = `
+name: Intake
+description: Collect a request
+version: "2.0.0"
+steps:
+  - id: gather
+    name: Gather
+    description: Collect the request
+    required_facts:
+      - name: request
+        type: string
+        description: What is needed
+    allowed_tools: conversation
+    gate:
+      conditions:
+        - fact: request
+          operator: exists
+`;
+
+describe("parser: running executions", () => {
+  test("a save keeping the steps running executions are on is accepted", () => {
+    expect(parseWorkflow(yaml, { lockedStepIds: ["gather"] }).steps[0]!.id).toBe("gather");
+  });
+
+  test("removing a step in use needs a migration mapping", () => {
+    try {
+      parseWorkflow(yaml, { lockedStepIds: ["collect", "confirm", "gather"] });
+      throw new Error("expected a parse error");
+    } catch (err) {
+      expect(err).toBeInstanceOf(WorkflowParseError);
+      expect((err as WorkflowParseError).path).toBe("step_migrations");
+      expect((err as WorkflowParseError).message).toContain(`"collect", "confirm"`);
+    }
+
+    const def = parseWorkflow(yaml, {
+      lockedStepIds: ["collect", "confirm"],
+      stepMigrations: { collect: "gather", confirm: "gather" },
+    });
+    expect(def.steps).toHaveLength(1);
+  });
+
+  test("migrations must map to a step of the new version", () => {
+    expect(() =>
+      parseWorkflow(yaml, { lockedStepIds: ["collect"], stepMigrations: { collect: "missing" } })
+    ).toThrow(/unknown step "missing"/);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, test, expect } from "bun:test";
+import { parseWorkflow, parseStepTemplate, listWorkflowReferences } from "../backend/workflows/parser";
+import { runWorkflowTest } from "../backend/workflows/harness";
+
+const greetingTemplate = `
+name: greeting
+description: Find out who we're talking to
+steps:
+  - id: greet
+    name: Greet
+    description: Ask for the customer's name and home city
+    required_facts:
+      - name: name
+        type: string
+        description: Customer name
+      - name: home_city
+        type: string
+        description: Where they live
+    allowed_tools: conversation
+    gate:
+      conditions:
+        - fact: name
+          operator: exists
+        - fact: home_city
+          operator: exists
+`;
+
+const addressWorkflow = `
+name: Collect address
+description: Ask for a shipping address
+version: "1.0.0"
+steps:
+  - id: address
+    name: Address
+    description: Get the street and city
+    required_facts:
+      - name: street
+        type: string
+        description: Street and number
+      - name: city
+        type: string
+        description: City
+    allowed_tools: conversation
+    gate:
+      conditions:
+        - fact: street
+          operator: exists
+        - fact: city
+          operator: exists
+`;
+
+const orderWorkflow = `
+name: Order
+description: Take an order
+version: "1.0.0"
+steps:
+  - include: greeting
+  - id: shipping
+    name: Shipping
+    description: Collect where to ship
+    uses: collect-address@1.0.0
+    with:
+      city: "{{ greet.home_city }}"
+    outputs:
+      street: address.street
+      city: address.city
+  - id: confirm
+    name: Confirm
+    description: Confirm the order
+    required_facts:
+      - name: confirmed
+        type: boolean
+        description: Whether the customer confirmed
+    allowed_tools: conversation
+    gate:
+      conditions:
+        - fact: confirmed
+          operator: equals
+          value: true
+`;
+
+const references = {
+  templates: { greeting: greetingTemplate },
+  workflows: { "collect-address@1.0.0": addressWorkflow },
+};
+
+describe("parser: includes and uses", () => {
+  test("included steps are expanded in place and uses steps resolved", () => {
+    const def = parseWorkflow(orderWorkflow, { references });
+    expect(def.steps.map((s) => s.id)).toEqual(["greet", "shipping", "confirm"]);
+    expect(def.steps[1]).toMatchObject({
+      type: "workflow",
+      subworkflow: { workflow: "collect-address", version: "1.0.0", outputs: { street: "address.street" } },
+    });
+    expect(listWorkflowReferences(orderWorkflow)).toEqual({
+      templates: ["greeting"],
+      workflows: ["collect-address@1.0.0"],
+    });
+  });
+
+  test("unknown templates and workflows are reported", () => {
+    expect(() => parseWorkflow(orderWorkflow, { references: { workflows: references.workflows } }))
+      .toThrow(/greeting/);
+    expect(() => parseWorkflow(orderWorkflow, { references: { templates: references.templates } }))
+      .toThrow(/collect-address/);
+  });
+
+  test("templates that include each other are rejected", () => {
+    const loop = (name: string, other: string) =>
+      `name: ${name}\ndescription: Loops\nsteps:\n  - include: ${other}\n`;
+    expect(() => parseStepTemplate(loop("a", "b"), { references: { templates: { b: loop("b", "a"), a: loop("a", "b") } } }))
+      .toThrow(/includes itself/);
+  });
+
+  test("workflows that use each other are rejected", () => {
+    const loop = (other: string) => `
+name: Loop
+description: Loops
+version: "1.0.0"
+steps:
+  - id: run
+    name: Run
+    description: Runs the other one
+    uses: ${other}
+`;
+    expect(() => parseWorkflow(loop("b"), { name: "a", references: { workflows: { a: loop("b"), b: loop("a") } } }))
+      .toThrow(/uses itself/);
+  });
+
+  test("outputs must name a fact the sub-workflow collects", () => {
+    const yaml = orderWorkflow.replace("address.street", "address.zip");
+    expect(() => parseWorkflow(yaml, { references })).toThrow(/zip/);
+  });
+});
+
+describe("engine: running a sub-workflow", () => {
+  test("the child runs in the conversation and its outputs land on the parent step", async () => {
+    const report = await runWorkflowTest(orderWorkflow, {
+      turns: [
+        { user: "I'm Sam from Oslo", facts: { name: "Sam", home_city: "Oslo" } },
+        { user: "Ship to Main Street 1", facts: { street: "Main Street 1" } },
+        { user: "Yes, go ahead", facts: { confirmed: true } },
+      ],
+    }, { references });
+
+    expect(report.failures).toEqual([]);
+    expect(report.status).toBe("completed");
+    expect(report.turns.map((t) => t.step_id)).toEqual(["greet", "address", "confirm"]);
+    expect(report.facts).toMatchObject({
+      "greet.name": "Sam",
+      "shipping.street": "Main Street 1",
+      "shipping.city": "Oslo",
+      "confirm.confirmed": true,
+    });
+  });
+});
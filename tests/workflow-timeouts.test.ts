@@ -0,0 +1,57 @@
+import { describe, test, expect } from "bun:test";
+import { parseWorkflow, WorkflowParseError } from "../backend/workflows/parser";
+
+function workflowWith(extra: string, type = ""): string {
+  return `
+name: Intake
+description: Collect a request
+version: "1.0.0"
+timeout_minutes: 20
+steps:
+  - id: collect
+    name: Collect
+    description: Collect the request
+${type}${extra}
+    required_facts:
+      - name: request
+        type: string
+        description: What is needed
+    allowed_tools: conversation
+    gate:
+      conditions:
+        - fact: request
+          operator: exists
+`;
+}
+
+describe("parser: timeouts", () => {
+  test("steps may set their own timeout", () => {
+    const def = parseWorkflow(workflowWith("    timeout_minutes: 5"));
+    expect(def.timeout_minutes).toBe(20);
+    expect(def.steps[0]!.timeout_minutes).toBe(5);
+    expect(parseWorkflow(workflowWith("")).steps[0]!.timeout_minutes).toBeUndefined();
+  });
+
+  test("rejects non-positive step timeouts", () => {
+    for (const value of ["0", "-1", "soon"]) {
+      expect(() => parseWorkflow(workflowWith(`    timeout_minutes: ${value}`))).toThrow(WorkflowParseError);
+    }
+  });
+
+  test("approval steps expire instead of timing out", () => {
+    const yaml = `
+name: Sign-off
+description: Get a sign-off
+version: "1.0.0"
+steps:
+  - id: sign_off
+    type: approval
+    name: Sign-off
+    description: Manager approves
+    approval:
+      message: Approve?
+    timeout_minutes: 10
+`;
+    expect(() => parseWorkflow(yaml)).toThrow(/expires_in_hours/);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, test, expect } from "bun:test";
+import { parseWorkflow, WorkflowParseError } from "../backend/workflows/parser";
+import { resolveTransition } from "../backend/workflows/transitions";
+import type { CollectedFact } from "../backend/workflows/types";
+
+function step(id: string, next?: string): string {
+  return `
+  - id: ${id}
+    name: ${id}
+    description: ${id}
+    required_facts:
+      - name: ok
+        type: boolean
+        description: ok
+    allowed_tools: conversation
+    gate:
+      conditions:
+        - fact: ok
+          operator: exists${next ? `\n    next:\n${next}` : ""}`;
+}
+
+function workflow(...steps: string[]): string {
+  return `name: Test\ndescription: Test\nversion: "1.0.0"\nsteps:${steps.join("")}`;
+}
+
+function facts(values: Record<string, unknown>): Record<string, CollectedFact> {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [
+      key,
+      { value, step_id: key.split(".")[0]!, collected_at: 0, source: "conversation" as const },
+    ])
+  );
+}
+
+const branching = workflow(
+  step("check", `      - when:\n          - fact: ok\n            operator: is_true\n        goto: done`),
+  step("fix", `      - goto: check\n        max_iterations: 2`),
+  step("done")
+);
+
+describe("workflow transition parsing", () => {
+  test("parses next rules", () => {
+    const def = parseWorkflow(branching);
+    expect(def.steps[0]!.next).toEqual([
+      { goto: "done", when: [{ fact: "ok", operator: "is_true", value: undefined, message: undefined }] },
+    ]);
+    expect(def.steps[1]!.next).toEqual([{ goto: "check", max_iterations: 2 }]);
+  });
+
+  test("rejects unknown targets", () => {
+    expect(() => parseWorkflow(workflow(step("a", `      - goto: nowhere`)))).toThrow(WorkflowParseError);
+  });
+
+  test("rejects loops without max_iterations", () => {
+    expect(() => parseWorkflow(workflow(step("a"), step("b", `      - when:\n          - fact: ok\n            operator: is_false\n        goto: a`)))).toThrow(/max_iterations/);
+  });
+
+  test("rejects unreachable steps", () => {
+    expect(() => parseWorkflow(workflow(step("a", `      - goto: end`), step("b")))).toThrow(/Unreachable step: "b"/);
+  });
+});
+
+describe("resolveTransition", () => {
+  const def = parseWorkflow(branching);
+
+  test("takes the first matching rule", () => {
+    const result = resolveTransition(def, 0, facts({ "check.ok": true }), {});
+    expect(result.step?.id).toBe("done");
+  });
+
+  test("falls through to the next step when no rule matches", () => {
+    const result = resolveTransition(def, 0, facts({ "check.ok": false }), {});
+    expect(result.step?.id).toBe("fix");
+  });
+
+  test("loops back until max_iterations is used up", () => {
+    expect(resolveTransition(def, 1, {}, { "fix->check": 1 })).toMatchObject({ index: 0, loopKey: "fix->check" });
+    expect(resolveTransition(def, 1, {}, { "fix->check": 2 }).step?.id).toBe("done");
+  });
+
+  test("completes after the last step", () => {
+    expect(resolveTransition(def, 2, {}, {})).toEqual({ step: null, index: -1 });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, test, expect } from "bun:test";
+import { parseWorkflow } from "../backend/workflows/parser";
+import {
+  renderTriggerFacts,
+  resolveTriggerFact,
+  validateTriggerFacts,
+  parsePayload,
+  MQTT_TRIGGER_VARIABLES,
+  SCHEDULE_TRIGGER_VARIABLES,
+} from "../backend/workflows/triggers";
+
+const def = parseWorkflow(`
+name: Alarm triage
+description: Triage a sensor alarm
+version: "1.0.0"
+steps:
+  - id: assess
+    name: Assess
+    description: Work out how serious the alarm is
+    required_facts:
+      - name: sensor
+        type: string
+        description: Which sensor fired
+      - name: level
+        type: number
+        description: Reading that triggered the alarm
+    allowed_tools: conversation
+    gate:
+      conditions:
+        - fact: level
+          operator: exists
+  - id: sign_off
+    type: approval
+    name: Sign-off
+    description: Someone confirms the response
+    approval:
+      message: "Dispatch for {{ assess.sensor }}?"
+`);
+
+describe("trigger fact mappings", () => {
+  test("a whole placeholder keeps the payload's type; text is interpolated", () => {
+    const facts = renderTriggerFacts(
+      { "assess.sensor": "Reading {payload.level} on {topic}", level: "{payload.level}" },
+      { topic: "home/basement/water", payload: parsePayload('{"level": 42}') }
+    );
+    expect(facts).toEqual({
+      "assess.sensor": "Reading 42 on home/basement/water",
+      level: 42,
+    });
+  });
+
+  test("placeholders that resolve to nothing leave the fact out", () => {
+    expect(renderTriggerFacts({ level: "{payload.level}" }, { payload: parsePayload("not json") })).toEqual({});
+  });
+
+  test("bare keys seed the first step", () => {
+    expect(resolveTriggerFact(def, "sensor")).toMatchObject({ step: { id: "assess" }, factName: "sensor" });
+    expect(resolveTriggerFact(def, "sign_off.approved")).toMatchObject({ step: { id: "sign_off" } });
+    expect(resolveTriggerFact(def, "missing.fact")).toBeNull();
+  });
+
+  test("mappings are checked against the workflow and the trigger's variables", () => {
+    expect(validateTriggerFacts({ sensor: "{topic}", level: "{payload.level}" }, def, MQTT_TRIGGER_VARIABLES)).toBeNull();
+    expect(validateTriggerFacts({ sensor: "{topic}" }, def, SCHEDULE_TRIGGER_VARIABLES)).toContain("unknown placeholder");
+    expect(validateTriggerFacts({ colour: "red" }, def, MQTT_TRIGGER_VARIABLES)).toContain('no fact "colour"');
+    expect(validateTriggerFacts({ "sign_off.approved": "true" }, def, MQTT_TRIGGER_VARIABLES)).toContain("approval step");
+    expect(validateTriggerFacts(["sensor"], def, MQTT_TRIGGER_VARIABLES)).toContain("must be an object");
+  });
+});